@@ -14,9 +14,18 @@ const adminUploadRoutes = require('./routes/admin/upload');
 const adminNotificationRoutes = require('./routes/admin/notifications');
 const adminDashboardRoutes = require('./routes/admin/dashboard');
 const adminSearchRoutes = require('./routes/admin/search');
+const adminAssignmentRoutes = require('./routes/admin/assignments');
+const adminCouponRoutes = require('./routes/admin/coupons');
+const adminInvoiceRoutes = require('./routes/admin/invoices');
+const adminDiscussionRoutes = require('./routes/admin/discussions');
+const adminAuditLogRoutes = require('./routes/admin/audit-logs');
+const adminTeamRoutes = require('./routes/admin/team');
 const learnerRoutes = require('./routes/learner');
+const learnerUploadRoutes = require('./routes/upload');
 const notificationRoutes = require('./routes/notifications');
 const publicRoutes = require('./routes/public');
+const certificateRoutes = require('./routes/certificates');
+const calendarRoutes = require('./routes/calendar');
 const paymentRoutes = require('./routes/payments');
 
 function createApp(prisma) {
@@ -136,6 +145,8 @@ function createApp(prisma) {
 
   // Public routes (no auth)
   app.use('/public', publicRoutes);
+  app.use('/certificates', certificateRoutes);
+  app.use('/calendar', calendarRoutes);
 
   app.use('/admin/programs', adminProgramRoutes);
   app.use('/admin/learners', adminLearnerRoutes);
@@ -144,6 +155,13 @@ function createApp(prisma) {
   app.use('/admin/notifications', adminNotificationRoutes);
   app.use('/admin/dashboard', adminDashboardRoutes);
   app.use('/admin/search', adminSearchRoutes);
+  app.use('/admin/assignments', adminAssignmentRoutes);
+  app.use('/admin/coupons', adminCouponRoutes);
+  app.use('/admin/invoices', adminInvoiceRoutes);
+  app.use('/admin/discussions', adminDiscussionRoutes);
+  app.use('/admin/audit-logs', adminAuditLogRoutes);
+  app.use('/admin/team', adminTeamRoutes);
+  app.use('/learner/upload', learnerUploadRoutes);
   app.use('/learner', learnerRoutes);
   app.use('/payments', paymentRoutes);
   app.use('/notifications', notificationRoutes);
@@ -34,10 +34,14 @@ const prisma = new PrismaClient({
 
 const { sendNonPayerSequenceEmail, sendPayerSequenceEmail } = require('./utils/email');
 const { acquireLock } = require('./utils/cache');
+const { sendInstallmentReminders, suspendOverdueEnrollments } = require('./utils/installments');
+const { sendSessionReminders } = require('./utils/session-reminders');
+const { backfillLessonSearchIndex } = require('./utils/search');
+const { failStaleImports } = require('./utils/learner-import');
 
 // Run a function only if this instance acquires the distributed lock
-async function runWithLock(lockKey, fn) {
-  const acquired = await acquireLock(lockKey, 300); // 5 min lock
+async function runWithLock(lockKey, fn, ttlSeconds = 300) {
+  const acquired = await acquireLock(lockKey, ttlSeconds); // 5 min lock by default
   if (!acquired) return; // Another instance is handling it
   try {
     await fn();
@@ -58,6 +62,10 @@ async function runCleanup() {
       }),
       prisma.notification.deleteMany({
         where: { createdAt: { lt: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000) } } // 90 days
+      }),
+      // Reminder send records are only needed until the occurrence has passed
+      prisma.sessionReminder.deleteMany({
+        where: { sentAt: { lt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) } } // 30 days
       })
     ]);
     if (expiredSessions.count > 0 || oldNotifications.count > 0) {
@@ -186,6 +194,52 @@ async function runEmailSequences() {
   }
 }
 
+// Installment plans: remind learners of upcoming parts, suspend overdue ones
+async function runInstallmentJobs() {
+  const now = new Date();
+  try {
+    const reminded = await sendInstallmentReminders(prisma, now);
+    if (reminded > 0) {
+      console.log(`📧 Installments: sent ${reminded} due reminders`);
+    }
+  } catch (err) {
+    console.error('Installment reminder error:', err.message);
+  }
+
+  try {
+    const suspended = await suspendOverdueEnrollments(prisma, now);
+    if (suspended > 0) {
+      console.log(`⏸️ Installments: suspended ${suspended} overdue enrollments`);
+    }
+  } catch (err) {
+    console.error('Installment suspension error:', err.message);
+  }
+}
+
+// Live session reminders (email + in-app) at the configured offsets before each occurrence
+async function runSessionReminders() {
+  const sent = await sendSessionReminders(prisma, new Date());
+  if (sent > 0) {
+    console.log(`📧 Sessions: sent ${sent} reminders`);
+  }
+}
+
+// Index lessons that have no search vector yet (e.g. created before search existed)
+async function runSearchBackfill() {
+  const indexed = await backfillLessonSearchIndex(prisma);
+  if (indexed > 0) {
+    console.log(`🔎 Search: indexed ${indexed} lessons`);
+  }
+}
+
+// Learner imports cut off by a restart would otherwise stay PROCESSING forever
+async function runStaleImportCheck() {
+  const failed = await failStaleImports(prisma);
+  if (failed > 0) {
+    console.log(`📥 Imports: marked ${failed} interrupted imports as failed`);
+  }
+}
+
 // Start server
 const server = app.listen(PORT, () => {
   console.log(`🚀 LMS Backend running on port ${PORT}`);
@@ -195,8 +249,21 @@ const server = app.listen(PORT, () => {
   runWithLock('cron:cleanup', runCleanup);
   setInterval(() => runWithLock('cron:cleanup', runCleanup), 24 * 60 * 60 * 1000);
 
+  // Build missing search vectors once on startup
+  runWithLock('cron:search-backfill', runSearchBackfill, 600);
+
+  // Fail interrupted imports on startup, then hourly for ones started just before a restart
+  runWithLock('cron:stale-imports', runStaleImportCheck);
+  setInterval(() => runWithLock('cron:stale-imports', runStaleImportCheck), 60 * 60 * 1000);
+
   // Run email sequences every hour (distributed lock prevents duplicates)
   setInterval(() => runWithLock('cron:email-sequences', runEmailSequences), 60 * 60 * 1000);
+
+  // Run installment reminders and overdue suspensions every hour
+  setInterval(() => runWithLock('cron:installments', runInstallmentJobs), 60 * 60 * 1000);
+
+  // Run session reminders every 5 minutes (lock expires before the next run)
+  setInterval(() => runWithLock('cron:session-reminders', runSessionReminders, 240), 5 * 60 * 1000);
 });
 
 // Graceful shutdown — drain in-flight requests before exiting
@@ -1,6 +1,7 @@
 // Authentication & Authorization Middleware
 const jwt = require('jsonwebtoken');
 const { cacheGet, cacheDel } = require('../utils/cache');
+const { isStaffRole, hasPermission, getProgramScope } = require('../utils/permissions');
 
 /**
  * Verify JWT token and attach user to request
@@ -102,6 +103,58 @@ const requireAdmin = (req, res, next) => {
   next();
 };
 
+/**
+ * Require an admin panel role (admin, instructor, support or finance)
+ */
+const requireStaff = (req, res, next) => {
+  if (!isStaffRole(req.user.role)) {
+    return res.status(403).json({
+      success: false,
+      error: { code: 'FORBIDDEN', message: 'Admin access required' }
+    });
+  }
+  next();
+};
+
+/**
+ * Require one of the given permissions (see utils/permissions.js)
+ */
+const requirePermission = (...permissions) => (req, res, next) => {
+  if (!permissions.some(permission => hasPermission(req.user.role, permission))) {
+    return res.status(403).json({
+      success: false,
+      error: { code: 'FORBIDDEN', message: 'You do not have permission to do this' }
+    });
+  }
+  next();
+};
+
+/**
+ * Limit instructors to their assigned programs. resolveProgramIds(req)
+ * returns the IDs of the programs the request touches (a null entry stands
+ * for "all programs", which instructors can't touch), or null when the
+ * record doesn't exist so the route can answer 404.
+ */
+const requireProgramAccess = (resolveProgramIds) => async (req, res, next) => {
+  try {
+    const scope = await getProgramScope(req);
+    if (!scope) return next();
+
+    const programIds = await resolveProgramIds(req);
+    if (programIds === null) return next();
+
+    if (programIds.length === 0 || !programIds.every(id => id && scope.includes(id))) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'You are not assigned to this program' }
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Require learner role
  */
@@ -118,5 +171,8 @@ const requireLearner = (req, res, next) => {
 module.exports = {
   authenticate,
   requireAdmin,
+  requireStaff,
+  requirePermission,
+  requireProgramAccess,
   requireLearner
 };
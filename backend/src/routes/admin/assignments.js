@@ -0,0 +1,218 @@
+// Admin Assignment Routes
+const express = require('express');
+const router = express.Router();
+const { authenticate, requireStaff, requirePermission, requireProgramAccess } = require('../../middleware/auth');
+const { cacheDel } = require('../../utils/cache');
+const { parsePagination } = require('../../utils/pagination');
+const { logAudit } = require('../../utils/audit');
+const { issueCertificateIfComplete } = require('../../utils/certificates');
+const { getProgramScope } = require('../../utils/permissions');
+
+router.use(authenticate);
+router.use(requireStaff);
+router.use(requirePermission('assignments:grade'));
+
+// Program of the submission being graded, for requireProgramAccess
+async function programOfSubmission(req) {
+  const submission = await req.prisma.assignmentSubmission.findUnique({
+    where: { id: req.params.id },
+    select: { lesson: { select: { programId: true } } }
+  });
+  return submission ? [submission.lesson.programId] : null;
+}
+
+const SUBMISSION_STATUSES = ['PENDING', 'APPROVED', 'REJECTED'];
+
+/**
+ * GET /admin/assignments/submissions
+ * Grading queue with status/program filters (oldest pending first)
+ */
+router.get('/submissions', async (req, res, next) => {
+  try {
+    const { status, programId } = req.query;
+    const { page, limit, skip } = parsePagination(req.query);
+
+    const where = {};
+
+    if (status) {
+      if (!SUBMISSION_STATUSES.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid status filter' }
+        });
+      }
+      where.status = status;
+    }
+
+    if (programId) {
+      where.lesson = { programId };
+    }
+
+    // Instructors only grade their own programs' submissions
+    const scope = await getProgramScope(req);
+    if (scope) {
+      where.AND = [{ lesson: { programId: { in: scope } } }];
+    }
+
+    const [submissions, total] = await Promise.all([
+      req.prisma.assignmentSubmission.findMany({
+        where,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          lesson: {
+            select: {
+              id: true, title: true,
+              program: { select: { id: true, name: true } }
+            }
+          }
+        },
+        skip,
+        take: limit,
+        orderBy: { submittedAt: status === 'PENDING' ? 'asc' : 'desc' }
+      }),
+      req.prisma.assignmentSubmission.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        submissions: submissions.map(s => ({
+          id: s.id,
+          textAnswer: s.textAnswer,
+          fileUrl: s.fileUrl,
+          fileName: s.fileName,
+          status: s.status,
+          grade: s.grade,
+          feedback: s.feedback,
+          gradedAt: s.gradedAt,
+          submittedAt: s.submittedAt,
+          learner: s.user,
+          lesson: { id: s.lesson.id, title: s.lesson.title },
+          program: s.lesson.program
+        })),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /admin/assignments/submissions/:id/grade
+ * Approve or reject a submission and notify the learner
+ */
+router.put('/submissions/:id/grade', requireProgramAccess(programOfSubmission), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { status, grade, feedback } = req.body;
+
+    if (status !== 'APPROVED' && status !== 'REJECTED') {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Status must be APPROVED or REJECTED' }
+      });
+    }
+
+    if (status === 'REJECTED' && !feedback?.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Feedback is required when rejecting a submission' }
+      });
+    }
+
+    const existing = await req.prisma.assignmentSubmission.findUnique({
+      where: { id },
+      include: {
+        lesson: { select: { id: true, title: true, programId: true } }
+      }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Submission not found' }
+      });
+    }
+
+    const now = new Date();
+    const submission = await req.prisma.assignmentSubmission.update({
+      where: { id },
+      data: {
+        status,
+        grade: grade?.trim() ? grade.trim().slice(0, 50) : null,
+        feedback: feedback?.trim() || null,
+        gradedById: req.user.id,
+        gradedAt: now
+      }
+    });
+
+    // Approval completes the lesson for the learner
+    if (status === 'APPROVED') {
+      await req.prisma.progress.upsert({
+        where: {
+          userId_lessonId: { userId: existing.userId, lessonId: existing.lessonId }
+        },
+        update: {
+          status: 'COMPLETED',
+          completedAt: now
+        },
+        create: {
+          userId: existing.userId,
+          lessonId: existing.lessonId,
+          status: 'COMPLETED',
+          completedAt: now
+        }
+      });
+
+      await issueCertificateIfComplete(req.prisma, existing.userId, existing.lesson.programId);
+
+      await Promise.all([
+        cacheDel(`learner:home:${existing.userId}`),
+        cacheDel(`learner:profile:${existing.userId}`),
+        cacheDel(`learner:program:${existing.userId}:${existing.lesson.programId}`)
+      ]);
+    }
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'GRADE_SUBMISSION',
+      targetType: 'AssignmentSubmission',
+      targetId: id,
+      details: { learnerId: existing.userId, programId: existing.lesson.programId, status, grade: submission.grade, lessonId: existing.lessonId },
+    });
+
+    // Notify the learner in background
+    req.prisma.notification.create({
+      data: {
+        userId: existing.userId,
+        type: 'ASSIGNMENT_GRADED',
+        title: status === 'APPROVED' ? 'Assignment Approved' : 'Assignment Needs Changes',
+        message: status === 'APPROVED'
+          ? `Your submission for "${existing.lesson.title}" was approved${submission.grade ? ` (${submission.grade})` : ''}`
+          : `Your submission for "${existing.lesson.title}" needs changes. Check the feedback and resubmit.`,
+        data: { programId: existing.lesson.programId, lessonId: existing.lessonId }
+      }
+    }).catch(err => console.error('Failed to send grading notification:', err));
+
+    res.json({
+      success: true,
+      data: {
+        id: submission.id,
+        status: submission.status,
+        grade: submission.grade,
+        feedback: submission.feedback,
+        gradedAt: submission.gradedAt
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
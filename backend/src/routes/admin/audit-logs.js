@@ -0,0 +1,139 @@
+// Admin Audit Log Routes
+const express = require('express');
+const router = express.Router();
+const { authenticate, requireStaff, requirePermission } = require('../../middleware/auth');
+const { parsePagination } = require('../../utils/pagination');
+const { auditTargetWhere } = require('../../utils/audit');
+
+router.use(authenticate);
+router.use(requireStaff);
+router.use(requirePermission('audit:view'));
+
+/**
+ * Filters for the audit log: admin, action, target (optionally with related
+ * entries, see auditTargetWhere) and a date range. Returns { where } or { error }.
+ */
+function buildAuditWhere(query) {
+  const { adminId, action, targetType, targetId, related, from, to } = query;
+  const where = {};
+
+  if (adminId) where.adminId = adminId;
+  if (action) where.action = action;
+
+  if (related === 'true') {
+    if (!targetType || !targetId) {
+      return { error: 'Related activity needs a target type and ID' };
+    }
+    Object.assign(where, auditTargetWhere(targetType, targetId));
+  } else {
+    if (targetType) where.targetType = targetType;
+    if (targetId) where.targetId = targetId;
+  }
+
+  const rangeStart = from ? new Date(from) : null;
+  const rangeEnd = to ? new Date(to) : null;
+  if ((rangeStart && isNaN(rangeStart.getTime())) || (rangeEnd && isNaN(rangeEnd.getTime()))) {
+    return { error: 'Invalid date range' };
+  }
+  if (rangeStart || rangeEnd) {
+    where.createdAt = {};
+    if (rangeStart) where.createdAt.gte = rangeStart;
+    if (rangeEnd) where.createdAt.lte = rangeEnd;
+  }
+
+  return { where };
+}
+
+/**
+ * GET /admin/audit-logs
+ * Audit entries, newest first. Cursor-paginated: pass the previous page's
+ * nextCursor as ?cursor= to load older entries.
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const { where, error } = buildAuditWhere(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const { limit } = parsePagination(req.query, { defaultLimit: 30 });
+    const { cursor } = req.query;
+
+    const logs = await req.prisma.auditLog.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+
+    const hasMore = logs.length > limit;
+    const page = hasMore ? logs.slice(0, limit) : logs;
+
+    // Admins who have since been deleted keep their logged email
+    const admins = await req.prisma.user.findMany({
+      where: { id: { in: [...new Set(page.map(log => log.adminId))] } },
+      select: { id: true, name: true }
+    });
+    const adminNames = new Map(admins.map(admin => [admin.id, admin.name]));
+
+    res.json({
+      success: true,
+      data: {
+        logs: page.map(log => ({
+          id: log.id,
+          action: log.action,
+          targetType: log.targetType,
+          targetId: log.targetId,
+          details: log.details,
+          createdAt: log.createdAt,
+          admin: { id: log.adminId, email: log.adminEmail, name: adminNames.get(log.adminId) || null }
+        })),
+        nextCursor: hasMore ? page[page.length - 1].id : null
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/audit-logs/filters
+ * Admins, actions and target types that appear in the log (for filter menus)
+ */
+router.get('/filters', async (req, res, next) => {
+  try {
+    const [admins, actions, targetTypes] = await Promise.all([
+      req.prisma.auditLog.findMany({
+        distinct: ['adminId'],
+        select: { adminId: true, adminEmail: true },
+        orderBy: { adminEmail: 'asc' }
+      }),
+      req.prisma.auditLog.findMany({
+        distinct: ['action'],
+        select: { action: true },
+        orderBy: { action: 'asc' }
+      }),
+      req.prisma.auditLog.findMany({
+        distinct: ['targetType'],
+        select: { targetType: true },
+        orderBy: { targetType: 'asc' }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        admins: admins.map(admin => ({ id: admin.adminId, email: admin.adminEmail })),
+        actions: actions.map(a => a.action),
+        targetTypes: targetTypes.map(t => t.targetType)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
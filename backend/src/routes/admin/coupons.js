@@ -0,0 +1,253 @@
+// Admin Coupon Routes
+const express = require('express');
+const router = express.Router();
+const { authenticate, requireStaff, requirePermission } = require('../../middleware/auth');
+const { parsePagination } = require('../../utils/pagination');
+const { logAudit, diffChanges } = require('../../utils/audit');
+const { parseCouponInput } = require('../../utils/coupons');
+
+router.use(authenticate);
+router.use(requireStaff);
+router.use(requirePermission('coupons:manage'));
+
+// Redemption count, revenue (net of refunds) and total discount per coupon
+async function getCouponUsage(prisma, couponIds) {
+  if (couponIds.length === 0) return new Map();
+
+  const rows = await prisma.$queryRaw`
+    SELECT metadata->'coupon'->>'id' AS coupon_id,
+           COUNT(*)::int AS redemptions,
+           CAST(COALESCE(SUM(amount - COALESCE(refunded_amount, 0)), 0) AS FLOAT) AS revenue,
+           CAST(COALESCE(SUM((metadata->'coupon'->>'discount')::numeric), 0) AS FLOAT) AS discount
+    FROM payments
+    WHERE status IN ('SUCCESS', 'REFUNDED') AND metadata->'coupon'->>'id' = ANY(${couponIds}::text[])
+    GROUP BY 1
+  `;
+
+  return new Map(rows.map(r => [r.coupon_id, {
+    redemptions: r.redemptions,
+    revenue: Number(r.revenue),
+    discount: Number(r.discount)
+  }]));
+}
+
+function formatCoupon(coupon, usage) {
+  return {
+    id: coupon.id,
+    code: coupon.code,
+    description: coupon.description,
+    discountType: coupon.discountType,
+    discountValue: parseFloat(coupon.discountValue),
+    program: coupon.program || null,
+    expiresAt: coupon.expiresAt,
+    maxUses: coupon.maxUses,
+    perUserLimit: coupon.perUserLimit,
+    isActive: coupon.isActive,
+    createdAt: coupon.createdAt,
+    redemptions: usage?.redemptions || 0,
+    revenue: usage?.revenue || 0,
+    discountGiven: usage?.discount || 0
+  };
+}
+
+// Reject codes already taken by another coupon and programs that don't exist
+async function checkCouponConflicts(prisma, data, id = null) {
+  if (data.code) {
+    const existing = await prisma.coupon.findUnique({ where: { code: data.code } });
+    if (existing && existing.id !== id) {
+      return { code: 'CODE_TAKEN', message: 'This coupon code is already in use' };
+    }
+  }
+
+  if (data.programId) {
+    const program = await prisma.program.findUnique({ where: { id: data.programId }, select: { id: true } });
+    if (!program) {
+      return { code: 'VALIDATION_ERROR', message: 'Program not found' };
+    }
+  }
+
+  return null;
+}
+
+const PROGRAM_SELECT = { program: { select: { id: true, name: true } } };
+
+/**
+ * GET /admin/coupons
+ * List coupons with usage stats (search by code, filter by program/status)
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const { search, programId, status } = req.query;
+    const { page, limit, skip } = parsePagination(req.query);
+
+    const where = {};
+    if (search) where.code = { contains: search.trim().toUpperCase() };
+    if (programId) where.programId = programId;
+    if (status === 'active') {
+      where.isActive = true;
+      where.OR = [{ expiresAt: null }, { expiresAt: { gt: new Date() } }];
+    } else if (status === 'inactive') {
+      where.OR = [{ isActive: false }, { expiresAt: { lte: new Date() } }];
+    }
+
+    const [coupons, total] = await Promise.all([
+      req.prisma.coupon.findMany({
+        where,
+        include: PROGRAM_SELECT,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' }
+      }),
+      req.prisma.coupon.count({ where })
+    ]);
+
+    const usage = await getCouponUsage(req.prisma, coupons.map(c => c.id));
+
+    res.json({
+      success: true,
+      data: {
+        coupons: coupons.map(c => formatCoupon(c, usage.get(c.id))),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/coupons
+ * Create coupon
+ */
+router.post('/', async (req, res, next) => {
+  try {
+    const { data, error } = parseCouponInput(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const conflict = await checkCouponConflicts(req.prisma, data);
+    if (conflict) {
+      return res.status(400).json({ success: false, error: conflict });
+    }
+
+    const coupon = await req.prisma.coupon.create({
+      data,
+      include: PROGRAM_SELECT
+    });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'CREATE_COUPON',
+      targetType: 'Coupon',
+      targetId: coupon.id,
+      details: { code: coupon.code },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { coupon: formatCoupon(coupon) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /admin/coupons/:id
+ * Update coupon
+ */
+router.put('/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await req.prisma.coupon.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Coupon not found' }
+      });
+    }
+
+    const { data, error } = parseCouponInput(req.body, existing);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const conflict = await checkCouponConflicts(req.prisma, data, id);
+    if (conflict) {
+      return res.status(400).json({ success: false, error: conflict });
+    }
+
+    const coupon = await req.prisma.coupon.update({
+      where: { id },
+      data,
+      include: PROGRAM_SELECT
+    });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'UPDATE_COUPON',
+      targetType: 'Coupon',
+      targetId: id,
+      details: { code: coupon.code, ...diffChanges(existing, data) },
+    });
+
+    const usage = await getCouponUsage(req.prisma, [id]);
+
+    res.json({
+      success: true,
+      data: { coupon: formatCoupon(coupon, usage.get(id)) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /admin/coupons/:id
+ * Delete coupon (payments keep the code in their metadata)
+ */
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await req.prisma.coupon.findUnique({ where: { id }, select: { code: true } });
+    if (!coupon) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Coupon not found' }
+      });
+    }
+
+    await req.prisma.coupon.delete({ where: { id } });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'DELETE_COUPON',
+      targetType: 'Coupon',
+      targetId: id,
+      details: { code: coupon.code },
+    });
+
+    res.json({
+      success: true,
+      message: 'Coupon deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
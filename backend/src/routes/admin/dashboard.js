@@ -1,22 +1,51 @@
 // Admin Dashboard Analytics
 const express = require('express');
 const router = express.Router();
-const { authenticate, requireAdmin } = require('../../middleware/auth');
+const { authenticate, requireStaff, requirePermission } = require('../../middleware/auth');
 const { cacheGet } = require('../../utils/cache');
+const { sessionVisibilityWhere } = require('../../utils/cohorts');
 
 router.use(authenticate);
-router.use(requireAdmin);
+router.use(requireStaff);
+router.use(requirePermission('dashboard:view'));
+
+// Payments that count towards revenue; refunds are netted out via refundedAmount
+const PAID_STATUSES = ['SUCCESS', 'REFUNDED'];
+
+function netRevenue(agg) {
+  return Number(agg._sum.amount || 0) - Number(agg._sum.refundedAmount || 0);
+}
 
 /**
  * GET /admin/dashboard/analytics
- * Aggregated dashboard data: stats, trends, chart, performance, activity
+ * Aggregated dashboard data: stats, trends, chart, performance, activity.
+ * With ?cohortId= learner, session, progress and revenue figures cover that cohort only.
  */
 router.get('/analytics', async (req, res, next) => {
   try {
-    const data = await cacheGet('dashboard:analytics', async () => {
+    const cohortId = req.query.cohortId || null;
+    const cohort = cohortId
+      ? await req.prisma.cohort.findUnique({ where: { id: cohortId }, select: { id: true, programId: true } })
+      : null;
+    if (cohortId && !cohort) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Cohort not found' }
+      });
+    }
+
+    const cacheKey = cohortId ? `dashboard:analytics:cohort:${cohortId}` : 'dashboard:analytics';
+    const data = await cacheGet(cacheKey, async () => {
       const prisma = req.prisma;
       const now = new Date();
 
+      // Cohort scoping (all empty without a cohort). Raw queries check ${cohortId}::text IS NULL instead.
+      const inCohort = cohort ? { enrollments: { some: { cohortId } } } : {};
+      const cohortProgress = cohort ? { user: inCohort, lesson: { programId: cohort.programId } } : {};
+      const cohortEnrollments = cohort ? { cohortId } : {};
+      const cohortPayments = cohort ? { enrollment: { cohortId } } : {};
+      const cohortSessions = cohort ? sessionVisibilityWhere([{ programId: cohort.programId, cohortId }]) : {};
+
       // Date boundaries
       const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
       const startOfYesterday = new Date(startOfToday);
@@ -68,22 +97,22 @@ router.get('/analytics', async (req, res, next) => {
         prisma.program.count({ where: { createdAt: { gte: startOfLastMonth, lt: startOfMonth } } }),
 
         // Learners
-        prisma.user.count({ where: { role: 'LEARNER' } }),
-        prisma.user.count({ where: { role: 'LEARNER', createdAt: { gte: startOfMonth } } }),
-        prisma.user.count({ where: { role: 'LEARNER', createdAt: { gte: startOfLastMonth, lt: startOfMonth } } }),
+        prisma.user.count({ where: { role: 'LEARNER', ...inCohort } }),
+        prisma.user.count({ where: { role: 'LEARNER', ...inCohort, createdAt: { gte: startOfMonth } } }),
+        prisma.user.count({ where: { role: 'LEARNER', ...inCohort, createdAt: { gte: startOfLastMonth, lt: startOfMonth } } }),
 
         // Today's sessions vs yesterday
-        prisma.session.count({ where: { startTime: { gte: startOfToday, lt: new Date(startOfToday.getTime() + 24 * 60 * 60 * 1000) } } }),
-        prisma.session.count({ where: { startTime: { gte: startOfYesterday, lt: startOfToday } } }),
+        prisma.session.count({ where: { ...cohortSessions, startTime: { gte: startOfToday, lt: new Date(startOfToday.getTime() + 24 * 60 * 60 * 1000) } } }),
+        prisma.session.count({ where: { ...cohortSessions, startTime: { gte: startOfYesterday, lt: startOfToday } } }),
 
         // Active learners (distinct users with login activity this week)
         prisma.userSession.findMany({
-          where: { lastActive: { gte: startOfWeek }, user: { role: 'LEARNER' } },
+          where: { lastActive: { gte: startOfWeek }, user: { role: 'LEARNER', ...inCohort } },
           distinct: ['userId'],
           select: { userId: true },
         }),
         prisma.userSession.findMany({
-          where: { lastActive: { gte: startOfLastWeek, lt: startOfWeek }, user: { role: 'LEARNER' } },
+          where: { lastActive: { gte: startOfLastWeek, lt: startOfWeek }, user: { role: 'LEARNER', ...inCohort } },
           distinct: ['userId'],
           select: { userId: true },
         }),
@@ -95,26 +124,29 @@ router.get('/analytics', async (req, res, next) => {
             CAST(COUNT(*) AS INTEGER) AS enrollments
           FROM enrollments
           WHERE enrolled_at >= ${sixMonthsAgo}
+            AND (${cohortId}::text IS NULL OR cohort_id = ${cohortId})
           GROUP BY DATE_TRUNC('month', enrolled_at), TO_CHAR(DATE_TRUNC('month', enrolled_at), 'Mon')
           ORDER BY DATE_TRUNC('month', enrolled_at) ASC
         `,
 
-        // Top 5 programs by enrollment
+        // Top 5 programs by enrollment (the cohort's program, counting its learners, for a cohort)
         prisma.program.findMany({
+          ...(cohort && { where: { id: cohort.programId } }),
           take: 5,
           orderBy: { enrollments: { _count: 'desc' } },
           select: {
             id: true,
             name: true,
-            _count: { select: { enrollments: true, lessons: true } },
+            _count: { select: { enrollments: cohort ? { where: { cohortId } } : true, lessons: true } },
           },
         }),
 
         // Total completed lessons (across all users)
-        prisma.progress.count({ where: { status: 'COMPLETED' } }),
+        prisma.progress.count({ where: { status: 'COMPLETED', ...cohortProgress } }),
 
         // Recent enrollments
         prisma.enrollment.findMany({
+          where: cohortEnrollments,
           take: 8,
           orderBy: { enrolledAt: 'desc' },
           select: {
@@ -126,7 +158,7 @@ router.get('/analytics', async (req, res, next) => {
 
         // Recent completions
         prisma.progress.findMany({
-          where: { status: 'COMPLETED', completedAt: { not: null } },
+          where: { status: 'COMPLETED', completedAt: { not: null }, ...cohortProgress },
           take: 8,
           orderBy: { completedAt: 'desc' },
           select: {
@@ -154,58 +186,70 @@ router.get('/analytics', async (req, res, next) => {
             FROM user_sessions us
             JOIN users u ON u.id = us.user_id AND u.role = 'LEARNER'
             WHERE us.last_active >= ${thirtyDaysAgo}
+              AND (${cohortId}::text IS NULL OR EXISTS (
+                SELECT 1 FROM enrollments e WHERE e.user_id = us.user_id AND e.cohort_id = ${cohortId}
+              ))
             GROUP BY DATE_TRUNC('day', us.last_active)
           ) u ON DATE_TRUNC('day', d.day) = u.day
           ORDER BY d.day ASC
         `,
 
-        // Revenue: total
-        prisma.payment.aggregate({ where: { status: 'SUCCESS' }, _sum: { amount: true } }),
+        // Revenue (net of refunds): total
+        prisma.payment.aggregate({ where: { status: { in: PAID_STATUSES }, ...cohortPayments }, _sum: { amount: true, refundedAmount: true } }),
 
         // Revenue: this month
-        prisma.payment.aggregate({ where: { status: 'SUCCESS', createdAt: { gte: startOfMonth } }, _sum: { amount: true } }),
+        prisma.payment.aggregate({ where: { status: { in: PAID_STATUSES }, ...cohortPayments, createdAt: { gte: startOfMonth } }, _sum: { amount: true, refundedAmount: true } }),
 
         // Revenue: last month
-        prisma.payment.aggregate({ where: { status: 'SUCCESS', createdAt: { gte: startOfLastMonth, lt: startOfMonth } }, _sum: { amount: true } }),
+        prisma.payment.aggregate({ where: { status: { in: PAID_STATUSES }, ...cohortPayments, createdAt: { gte: startOfLastMonth, lt: startOfMonth } }, _sum: { amount: true, refundedAmount: true } }),
 
-        // Daily revenue (last 30 days) — aggregated in SQL
+        // Daily revenue + coupon discounts (last 30 days) — aggregated in SQL
         prisma.$queryRaw`
           SELECT TO_CHAR(d.day, 'Mon DD') AS label,
-                 CAST(COALESCE(p.total, 0) AS FLOAT) AS revenue
+                 CAST(COALESCE(p.total, 0) AS FLOAT) AS revenue,
+                 CAST(COALESCE(p.discount, 0) AS FLOAT) AS discount
           FROM generate_series(${thirtyDaysAgo}::date, ${startOfToday}::date, '1 day'::interval) AS d(day)
           LEFT JOIN (
-            SELECT DATE_TRUNC('day', created_at) AS day, SUM(amount) AS total
-            FROM payments WHERE status = 'SUCCESS' AND created_at >= ${thirtyDaysAgo}
+            SELECT DATE_TRUNC('day', created_at) AS day, SUM(amount - COALESCE(refunded_amount, 0)) AS total,
+                   SUM((metadata->'coupon'->>'discount')::numeric) AS discount
+            FROM payments WHERE status IN ('SUCCESS', 'REFUNDED') AND created_at >= ${thirtyDaysAgo}
+              AND (${cohortId}::text IS NULL OR enrollment_id IN (SELECT id FROM enrollments WHERE cohort_id = ${cohortId}))
             GROUP BY 1
           ) p ON DATE_TRUNC('day', d.day) = p.day
           ORDER BY d.day ASC
         `,
 
-        // Weekly revenue (last 12 weeks) — aggregated in SQL
+        // Weekly revenue + coupon discounts (last 12 weeks) — aggregated in SQL
         prisma.$queryRaw`
           SELECT TO_CHAR(DATE_TRUNC('week', d.week), 'Mon DD') AS label,
-                 CAST(COALESCE(p.total, 0) AS FLOAT) AS revenue
+                 CAST(COALESCE(p.total, 0) AS FLOAT) AS revenue,
+                 CAST(COALESCE(p.discount, 0) AS FLOAT) AS discount
           FROM generate_series(
             DATE_TRUNC('week', ${startOfToday}::date - INTERVAL '11 weeks'),
             DATE_TRUNC('week', ${startOfToday}::date),
             '1 week'::interval
           ) AS d(week)
           LEFT JOIN (
-            SELECT DATE_TRUNC('week', created_at) AS week, SUM(amount) AS total
-            FROM payments WHERE status = 'SUCCESS' AND created_at >= ${sixMonthsAgo}
+            SELECT DATE_TRUNC('week', created_at) AS week, SUM(amount - COALESCE(refunded_amount, 0)) AS total,
+                   SUM((metadata->'coupon'->>'discount')::numeric) AS discount
+            FROM payments WHERE status IN ('SUCCESS', 'REFUNDED') AND created_at >= ${sixMonthsAgo}
+              AND (${cohortId}::text IS NULL OR enrollment_id IN (SELECT id FROM enrollments WHERE cohort_id = ${cohortId}))
             GROUP BY 1
           ) p ON d.week = p.week
           ORDER BY d.week ASC
         `,
 
-        // Monthly revenue (last 6 months) — aggregated in SQL
+        // Monthly revenue + coupon discounts (last 6 months) — aggregated in SQL
         prisma.$queryRaw`
           SELECT TO_CHAR(d.month, 'Mon') AS label,
-                 CAST(COALESCE(p.total, 0) AS FLOAT) AS revenue
+                 CAST(COALESCE(p.total, 0) AS FLOAT) AS revenue,
+                 CAST(COALESCE(p.discount, 0) AS FLOAT) AS discount
           FROM generate_series(${sixMonthsAgo}::date, ${startOfToday}::date, '1 month'::interval) AS d(month)
           LEFT JOIN (
-            SELECT DATE_TRUNC('month', created_at) AS month, SUM(amount) AS total
-            FROM payments WHERE status = 'SUCCESS' AND created_at >= ${sixMonthsAgo}
+            SELECT DATE_TRUNC('month', created_at) AS month, SUM(amount - COALESCE(refunded_amount, 0)) AS total,
+                   SUM((metadata->'coupon'->>'discount')::numeric) AS discount
+            FROM payments WHERE status IN ('SUCCESS', 'REFUNDED') AND created_at >= ${sixMonthsAgo}
+              AND (${cohortId}::text IS NULL OR enrollment_id IN (SELECT id FROM enrollments WHERE cohort_id = ${cohortId}))
             GROUP BY 1
           ) p ON d.month = p.month
           ORDER BY d.month ASC
@@ -226,6 +270,7 @@ router.get('/analytics', async (req, res, next) => {
           where: {
             status: 'COMPLETED',
             lesson: { programId: { in: programIds } },
+            ...(cohort && { user: inCohort }),
           },
           _count: { _all: true },
         });
@@ -271,7 +316,8 @@ router.get('/analytics', async (req, res, next) => {
         FROM (
           SELECT p.id,
             (SELECT COUNT(*) FROM lessons l WHERE l.program_id = p.id) AS lesson_count,
-            (SELECT COUNT(*) FROM enrollments e WHERE e.program_id = p.id) AS enrollment_count
+            (SELECT COUNT(*) FROM enrollments e
+              WHERE e.program_id = p.id AND (${cohortId}::text IS NULL OR e.cohort_id = ${cohortId})) AS enrollment_count
           FROM programs p
         ) sub
         WHERE lesson_count > 0 AND enrollment_count > 0
@@ -316,13 +362,13 @@ router.get('/analytics', async (req, res, next) => {
       }));
 
       // ---- Revenue aggregation (pre-aggregated in SQL) ----
-      const totalRevenue = totalRevenueAgg._sum.amount || 0;
-      const revenueThisMonth = revenueThisMonthAgg._sum.amount || 0;
-      const revenueLastMonth = revenueLastMonthAgg._sum.amount || 0;
+      const totalRevenue = netRevenue(totalRevenueAgg);
+      const revenueThisMonth = netRevenue(revenueThisMonthAgg);
+      const revenueLastMonth = netRevenue(revenueLastMonthAgg);
 
-      const revenueDaily = revenueDailyRaw.map(d => ({ label: d.label, revenue: Number(d.revenue) }));
-      const revenueWeekly = revenueWeeklyRaw.map(d => ({ label: d.label, revenue: Number(d.revenue) }));
-      const revenueMonthly = revenueMonthlyRaw.map(d => ({ label: d.label, revenue: Number(d.revenue) }));
+      const revenueDaily = revenueDailyRaw.map(d => ({ label: d.label, revenue: Number(d.revenue), discount: Number(d.discount) }));
+      const revenueWeekly = revenueWeeklyRaw.map(d => ({ label: d.label, revenue: Number(d.revenue), discount: Number(d.discount) }));
+      const revenueMonthly = revenueMonthlyRaw.map(d => ({ label: d.label, revenue: Number(d.revenue), discount: Number(d.discount) }));
 
       return {
         stats: {
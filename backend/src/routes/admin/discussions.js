@@ -0,0 +1,313 @@
+// Admin Discussion Routes
+const express = require('express');
+const router = express.Router();
+const { authenticate, requireStaff, requirePermission, requireProgramAccess } = require('../../middleware/auth');
+const { parsePagination } = require('../../utils/pagination');
+const { logAudit } = require('../../utils/audit');
+const {
+  AUTHOR_SELECT,
+  UNANSWERED_WHERE,
+  parseCommentBody,
+  threadInclude,
+  formatComment,
+  formatThread,
+  notifyInstructorReply
+} = require('../../utils/discussions');
+const { getProgramScope } = require('../../utils/permissions');
+
+router.use(authenticate);
+router.use(requireStaff);
+router.use(requirePermission('discussions:moderate'));
+
+// Program of the question or reply, for requireProgramAccess
+async function programOfComment(req) {
+  const comment = await req.prisma.lessonComment.findUnique({
+    where: { id: req.params.id },
+    select: { lesson: { select: { programId: true } } }
+  });
+  return comment ? [comment.lesson.programId] : null;
+}
+
+const DISCUSSION_STATUSES = ['unanswered', 'all'];
+
+const LESSON_SELECT = {
+  id: true, title: true, programId: true,
+  program: { select: { id: true, name: true } }
+};
+
+/**
+ * GET /admin/discussions
+ * Questions across all programs (unanswered ones oldest first)
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const { status = 'unanswered', programId, lessonId } = req.query;
+    const { page, limit, skip } = parsePagination(req.query);
+
+    if (!DISCUSSION_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Invalid status filter' }
+      });
+    }
+
+    const where = status === 'unanswered' ? { ...UNANSWERED_WHERE } : { parentId: null };
+    if (lessonId) {
+      where.lessonId = lessonId;
+    }
+    if (programId) {
+      where.lesson = { programId };
+    }
+
+    // Instructors only moderate their own programs
+    const scope = await getProgramScope(req);
+    if (scope) {
+      where.AND = [{ lesson: { programId: { in: scope } } }];
+    }
+
+    const [threads, total] = await Promise.all([
+      req.prisma.lessonComment.findMany({
+        where,
+        include: {
+          ...threadInclude({ includeHidden: true }),
+          lesson: { select: LESSON_SELECT }
+        },
+        skip,
+        take: limit,
+        orderBy: { createdAt: status === 'unanswered' ? 'asc' : 'desc' }
+      }),
+      req.prisma.lessonComment.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        threads: threads.map(thread => {
+          const { replies, ...question } = formatThread(thread, req.user.id);
+          return {
+            ...question,
+            replyCount: replies.length,
+            lesson: { id: thread.lesson.id, title: thread.lesson.title },
+            program: thread.lesson.program
+          };
+        }),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/discussions/:id
+ * A question with all of its replies, hidden ones included
+ */
+router.get('/:id', requireProgramAccess(programOfComment), async (req, res, next) => {
+  try {
+    const thread = await req.prisma.lessonComment.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ...threadInclude({ includeHidden: true }),
+        lesson: { select: LESSON_SELECT }
+      }
+    });
+
+    if (!thread || thread.parentId) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Question not found' }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...formatThread(thread, req.user.id),
+        lesson: { id: thread.lesson.id, title: thread.lesson.title },
+        program: thread.lesson.program
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/discussions/:id/replies
+ * Reply as an instructor (locked threads included) and notify the learner
+ */
+router.post('/:id/replies', requireProgramAccess(programOfComment), async (req, res, next) => {
+  try {
+    const parsed = parseCommentBody(req.body.body);
+    if (parsed.error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: parsed.error }
+      });
+    }
+
+    const thread = await req.prisma.lessonComment.findUnique({
+      where: { id: req.params.id },
+      include: { lesson: { select: { id: true, title: true, programId: true } } }
+    });
+
+    if (!thread || thread.parentId) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Question not found' }
+      });
+    }
+
+    const reply = await req.prisma.lessonComment.create({
+      data: {
+        lessonId: thread.lessonId,
+        userId: req.user.id,
+        parentId: thread.id,
+        body: parsed.body
+      },
+      include: { user: { select: AUTHOR_SELECT } }
+    });
+
+    notifyInstructorReply(req.prisma, { thread, lesson: thread.lesson, admin: req.user });
+
+    res.status(201).json({
+      success: true,
+      data: { comment: formatComment(reply, req.user.id) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /admin/discussions/:id
+ * Moderate a comment: pin/lock (questions only), hide, or edit your own text
+ */
+router.put('/:id', requireProgramAccess(programOfComment), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { isPinned, isLocked, isHidden } = req.body;
+
+    const existing = await req.prisma.lessonComment.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Comment not found' }
+      });
+    }
+
+    const data = {};
+    for (const [field, value] of Object.entries({ isPinned, isLocked, isHidden })) {
+      if (value === undefined) continue;
+      if (typeof value !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: `${field} must be true or false` }
+        });
+      }
+      data[field] = value;
+    }
+
+    if (existing.parentId && (data.isPinned !== undefined || data.isLocked !== undefined)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Only questions can be pinned or locked' }
+      });
+    }
+
+    if (req.body.body !== undefined) {
+      if (existing.userId !== req.user.id) {
+        return res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'You can only edit your own comments' }
+        });
+      }
+      const parsed = parseCommentBody(req.body.body);
+      if (parsed.error) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: parsed.error }
+        });
+      }
+      data.body = parsed.body;
+      data.editedAt = new Date();
+    }
+
+    if (Object.keys(data).length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Nothing to update' }
+      });
+    }
+
+    const comment = await req.prisma.lessonComment.update({
+      where: { id },
+      data,
+      include: { user: { select: AUTHOR_SELECT } }
+    });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'MODERATE_DISCUSSION',
+      targetType: 'LessonComment',
+      targetId: id,
+      details: { lessonId: existing.lessonId, isPinned, isLocked, isHidden, edited: data.body !== undefined },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        comment: {
+          ...formatComment(comment, req.user.id),
+          isPinned: comment.isPinned,
+          isLocked: comment.isLocked
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /admin/discussions/:id
+ * Delete a comment (a question takes its replies with it)
+ */
+router.delete('/:id', requireProgramAccess(programOfComment), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await req.prisma.lessonComment.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Comment not found' }
+      });
+    }
+
+    await req.prisma.lessonComment.delete({ where: { id } });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'DELETE_DISCUSSION_COMMENT',
+      targetType: 'LessonComment',
+      targetId: id,
+      details: { lessonId: existing.lessonId, userId: existing.userId, isQuestion: !existing.parentId },
+    });
+
+    res.json({
+      success: true,
+      message: 'Comment deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,173 @@
+// Admin Invoice Routes
+const express = require('express');
+const router = express.Router();
+const { authenticate, requireStaff, requirePermission } = require('../../middleware/auth');
+const { parsePagination } = require('../../utils/pagination');
+const { formatInvoice, getInvoiceFileName, renderInvoicePdf } = require('../../utils/invoices');
+const { toCsv } = require('../../utils/csv');
+
+router.use(authenticate);
+router.use(requireStaff);
+router.use(requirePermission('invoices:view'));
+
+const CSV_COLUMNS = [
+  { header: 'Invoice Number', value: i => i.invoiceNumber },
+  { header: 'Invoice Date', value: i => new Date(i.issuedAt).toISOString().slice(0, 10) },
+  { header: 'Learner Name', value: i => i.billingName },
+  { header: 'Learner Email', value: i => i.billingEmail },
+  { header: 'Learner Mobile', value: i => i.billingMobile },
+  { header: 'Program', value: i => i.programName },
+  { header: 'SAC', value: i => i.sacCode },
+  { header: 'Currency', value: i => i.currency },
+  { header: 'Taxable Value', value: i => parseFloat(i.taxableAmount).toFixed(2) },
+  { header: 'GST Rate (%)', value: i => parseFloat(i.taxRate) },
+  { header: 'CGST', value: i => parseFloat(i.cgstAmount).toFixed(2) },
+  { header: 'SGST', value: i => parseFloat(i.sgstAmount).toFixed(2) },
+  { header: 'Total', value: i => parseFloat(i.totalAmount).toFixed(2) },
+  { header: 'Seller GSTIN', value: i => i.sellerGstin },
+  { header: 'Payment Order ID', value: i => i.payment?.cashfreeOrderId },
+  { header: 'Payment Status', value: i => i.payment?.status }
+];
+
+/**
+ * Shared filters for the list and CSV export: search (invoice number, learner
+ * name or email) and an issued-at date range. Returns { where } or { error }.
+ */
+function buildInvoiceWhere(query) {
+  const { search, from, to } = query;
+  const where = {};
+
+  if (search) {
+    where.OR = [
+      { invoiceNumber: { contains: search, mode: 'insensitive' } },
+      { billingName: { contains: search, mode: 'insensitive' } },
+      { billingEmail: { contains: search, mode: 'insensitive' } }
+    ];
+  }
+
+  const rangeStart = from ? new Date(from) : null;
+  const rangeEnd = to ? new Date(to) : null;
+  if ((rangeStart && isNaN(rangeStart.getTime())) || (rangeEnd && isNaN(rangeEnd.getTime()))) {
+    return { error: 'Invalid date range' };
+  }
+  if (rangeStart || rangeEnd) {
+    where.issuedAt = {};
+    if (rangeStart) where.issuedAt.gte = rangeStart;
+    if (rangeEnd) where.issuedAt.lte = rangeEnd;
+  }
+
+  return { where };
+}
+
+/**
+ * GET /admin/invoices
+ * List invoices (search, date range, pagination)
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const { where, error } = buildInvoiceWhere(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const { page, limit, skip } = parsePagination(req.query);
+
+    const [invoices, total] = await Promise.all([
+      req.prisma.invoice.findMany({
+        where,
+        include: { payment: { select: { status: true } } },
+        skip,
+        take: limit,
+        orderBy: { issuedAt: 'desc' }
+      }),
+      req.prisma.invoice.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        invoices: invoices.map(i => ({
+          ...formatInvoice(i),
+          userId: i.userId,
+          paymentStatus: i.payment?.status || null
+        })),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/invoices/export
+ * Download all invoices matching the filters as CSV (for accounting)
+ */
+router.get('/export', async (req, res, next) => {
+  try {
+    const { where, error } = buildInvoiceWhere(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const invoices = await req.prisma.invoice.findMany({
+      where,
+      include: { payment: { select: { cashfreeOrderId: true, status: true } } },
+      orderBy: { issuedAt: 'asc' }
+    });
+
+    const csv = toCsv(CSV_COLUMNS, invoices);
+    const fileName = `invoices-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`
+    });
+    res.send(csv);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/invoices/:id/download
+ * Render any invoice as a PDF
+ */
+router.get('/:id/download', async (req, res, next) => {
+  try {
+    const invoice = await req.prisma.invoice.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Invoice not found' }
+      });
+    }
+
+    const pdf = await renderInvoicePdf(invoice);
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${getInvoiceFileName(invoice)}"`,
+      'Content-Length': pdf.length
+    });
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
@@ -2,43 +2,157 @@
 const express = require('express');
 const router = express.Router();
 const crypto = require('crypto');
-const { authenticate, requireAdmin } = require('../../middleware/auth');
+const multer = require('multer');
+const { authenticate, requireStaff, requirePermission } = require('../../middleware/auth');
 const { sendPasswordSetupEmail, sendPasswordResetEmail } = require('../../utils/email');
 const { parsePagination } = require('../../utils/pagination');
 const { logAudit } = require('../../utils/audit');
+const { cacheDel } = require('../../utils/cache');
+const { createCashfreeRefund } = require('../../utils/cashfree');
+const { SHEET_FORMATS, parseSpreadsheet, createSheetWriter } = require('../../utils/spreadsheet');
+const { parseExportColumns, streamLearnerExport } = require('../../utils/learner-export');
+const { toCsv } = require('../../utils/csv');
+const { resolveCohortId } = require('../../utils/cohorts');
+const { recordRefund } = require('../../utils/refunds');
+const {
+  MAX_IMPORT_ROWS,
+  parseColumnMapping,
+  validateImportRows,
+  summarizeRows,
+  createPendingLearner,
+  formatImport,
+  runLearnerImport
+} = require('../../utils/learner-import');
 
 router.use(authenticate);
-router.use(requireAdmin);
+router.use(requireStaff);
+
+// Import sheets are parsed in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 } // 5MB
+});
+
+// upload.single('file'), with multer errors (e.g. too large) as 400s
+function uploadSheet(req, res, next) {
+  upload.single('file')(req, res, (err) => {
+    if (err) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: err.code === 'LIMIT_FILE_SIZE' ? 'File must be 5MB or smaller' : err.message }
+      });
+    }
+    next();
+  });
+}
 
 /**
- * GET /admin/learners
- * List all learners with filters
+ * Parse and dry-run an uploaded import sheet.
+ * Returns { fileName, headers, mapping, rows, summary } or { error }.
  */
-router.get('/', async (req, res, next) => {
+async function prepareImport(req) {
+  if (!req.file) {
+    return { error: 'No file provided' };
+  }
+
+  let sheetRows;
   try {
-    const { status, programId, search } = req.query;
-    const { page, limit, skip } = parsePagination(req.query);
+    sheetRows = parseSpreadsheet(req.file);
+  } catch (err) {
+    return { error: err.message };
+  }
 
-    const where = {
-      role: 'LEARNER'
-    };
+  const [headers = [], ...dataRows] = sheetRows;
+  if (dataRows.length === 0) {
+    return { error: 'The file has no rows below the header' };
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    return { error: `Import up to ${MAX_IMPORT_ROWS} learners at a time` };
+  }
 
-    if (status) {
-      where.status = status;
-    }
+  const { mapping, error } = parseColumnMapping(req.body.mapping, headers);
+  if (error) return { error };
 
-    if (search) {
-      where.OR = [
-        { name: { contains: search, mode: 'insensitive' } },
-        { email: { contains: search, mode: 'insensitive' } }
-      ];
-    }
+  const rows = await validateImportRows(req.prisma, dataRows, mapping);
+  return { fileName: req.file.originalname, headers, mapping, rows, summary: summarizeRows(rows) };
+}
 
-    if (programId) {
-      where.enrollments = {
-        some: { programId }
-      };
-    }
+const IMPORT_REPORT_COLUMNS = [
+  { header: 'Row', value: r => r.row },
+  { header: 'Name', value: r => r.name },
+  { header: 'Email', value: r => r.email },
+  { header: 'Result', value: r => r.status },
+  { header: 'Details', value: r => r.message },
+  { header: 'Learner ID', value: r => r.learnerId || '' }
+];
+
+// Round to the smallest currency unit
+function roundAmount(value) {
+  return Math.round(value * 100) / 100;
+}
+
+// Payment row for the learner detail page
+function formatPayment(p) {
+  return {
+    id: p.id,
+    programId: p.programId,
+    programName: p.program?.name,
+    enrollmentType: p.enrollment?.type,
+    amount: parseFloat(p.amount),
+    currency: p.currency,
+    status: p.status,
+    paymentMethod: p.paymentMethod,
+    couponCode: p.metadata?.coupon?.code || null,
+    installment: p.metadata?.installment
+      ? { sequence: p.metadata.installment.sequence, count: p.metadata.installment.count }
+      : null,
+    refundedAmount: p.refundedAmount != null ? parseFloat(p.refundedAmount) : 0,
+    refundedAt: p.refundedAt,
+    refunds: p.metadata?.refunds || [],
+    createdAt: p.createdAt
+  };
+}
+
+/**
+ * Shared filters for the list and export: status, programId and search (name or email)
+ */
+function buildLearnerWhere(query) {
+  const { status, programId, cohortId, search } = query;
+  const where = {
+    role: 'LEARNER'
+  };
+
+  if (status) {
+    where.status = status;
+  }
+
+  if (search) {
+    where.OR = [
+      { name: { contains: search, mode: 'insensitive' } },
+      { email: { contains: search, mode: 'insensitive' } }
+    ];
+  }
+
+  if (programId || cohortId) {
+    where.enrollments = {
+      some: {
+        ...(programId && { programId }),
+        ...(cohortId && { cohortId })
+      }
+    };
+  }
+
+  return where;
+}
+
+/**
+ * GET /admin/learners
+ * List all learners with filters
+ */
+router.get('/', requirePermission('learners:view'), async (req, res, next) => {
+  try {
+    const { page, limit, skip } = parsePagination(req.query);
+    const where = buildLearnerWhere(req.query);
 
     const [learners, total] = await Promise.all([
       req.prisma.user.findMany({
@@ -97,7 +211,7 @@ router.get('/', async (req, res, next) => {
  * POST /admin/learners
  * Add new learner
  */
-router.post('/', async (req, res, next) => {
+router.post('/', requirePermission('learners:edit'), async (req, res, next) => {
   try {
     const { email, name, mobile, registrationNumber, programIds = [] } = req.body;
 
@@ -133,30 +247,13 @@ router.post('/', async (req, res, next) => {
       });
     }
 
-    // Generate setup token
-    const setupToken = crypto.randomBytes(32).toString('hex');
-    const tokenExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-
-    // Create learner
-    const learner = await req.prisma.user.create({
-      data: {
-        email: email.toLowerCase(),
-        name,
-        mobile,
-        registrationNumber,
-        role: 'LEARNER',
-        status: 'PENDING_SETUP',
-        passwordResetToken: setupToken,
-        passwordResetExpires: tokenExpires,
-        enrollments: {
-          create: programIds.map(programId => ({ programId }))
-        }
-      },
-      include: {
-        enrollments: {
-          include: { program: { select: { name: true } } }
-        }
-      }
+    // Create learner with a setup token
+    const { learner, setupToken } = await createPendingLearner(req.prisma, {
+      email,
+      name,
+      mobile,
+      registrationNumber,
+      programIds
     });
 
     // Send setup email
@@ -187,11 +284,180 @@ router.post('/', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /admin/learners/export
+ * Stream all learners matching the list filters as CSV or XLSX (format, columns)
+ */
+router.get('/export', requirePermission('learners:view'), async (req, res, next) => {
+  try {
+    const format = req.query.format || 'csv';
+    if (!SHEET_FORMATS[format]) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Format must be csv or xlsx' }
+      });
+    }
+
+    const { columns, error } = parseExportColumns(req.query.columns);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const { extension, contentType } = SHEET_FORMATS[format];
+    const fileName = `learners-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    res.set({
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`
+    });
+
+    await streamLearnerExport(req.prisma, {
+      where: buildLearnerWhere(req.query),
+      programId: req.query.programId,
+      columns,
+      writer: createSheetWriter(res, format, { sheetName: 'Learners' })
+    });
+  } catch (error) {
+    // Once rows are on the wire the status can't change — cut the download short
+    if (res.headersSent) {
+      if (error.code !== 'OUTPUT_CLOSED') console.error('Learner export failed:', error.message);
+      return res.destroy();
+    }
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/learners/import/preview
+ * Dry run of a CSV/XLSX import: column mapping, validation errors and duplicates
+ */
+router.post('/import/preview', requirePermission('learners:edit'), uploadSheet, async (req, res, next) => {
+  try {
+    const { error, ...preview } = await prepareImport(req);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...preview,
+        rows: preview.rows.map(({ programIds, cohortIds, ...row }) => row)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/learners/import
+ * Import the valid rows of a sheet in the background (same body as the preview)
+ */
+router.post('/import', requirePermission('learners:edit'), uploadSheet, async (req, res, next) => {
+  try {
+    const { error, fileName, rows, summary } = await prepareImport(req);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    if (summary.valid === 0) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'NOTHING_TO_IMPORT', message: 'No valid rows to import' }
+      });
+    }
+
+    const learnerImport = await req.prisma.learnerImport.create({
+      data: {
+        adminId: req.user.id,
+        adminEmail: req.user.email,
+        fileName,
+        totalRows: rows.length
+      }
+    });
+
+    // Fire-and-forget: progress is polled via GET /imports/:id
+    runLearnerImport(req.prisma, learnerImport.id, rows, { admin: req.user });
+
+    res.status(202).json({
+      success: true,
+      data: { import: formatImport(learnerImport) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/learners/imports/:id
+ * Import progress
+ */
+router.get('/imports/:id', requirePermission('learners:edit'), async (req, res, next) => {
+  try {
+    const learnerImport = await req.prisma.learnerImport.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!learnerImport) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Import not found' }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { import: formatImport(learnerImport) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/learners/imports/:id/report
+ * Per-row results of an import as CSV
+ */
+router.get('/imports/:id/report', requirePermission('learners:edit'), async (req, res, next) => {
+  try {
+    const learnerImport = await req.prisma.learnerImport.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!learnerImport) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Import not found' }
+      });
+    }
+
+    const csv = toCsv(IMPORT_REPORT_COLUMNS, learnerImport.results || []);
+    const fileName = `learner-import-${learnerImport.createdAt.toISOString().slice(0, 10)}.csv`;
+
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`
+    });
+    res.send(csv);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /admin/learners/:id
  * Get learner details with progress
  */
-router.get('/:id', async (req, res, next) => {
+router.get('/:id', requirePermission('learners:view'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -204,7 +470,8 @@ router.get('/:id', async (req, res, next) => {
               include: {
                 _count: { select: { lessons: true } }
               }
-            }
+            },
+            cohort: { select: { id: true, name: true } }
           }
         }
       }
@@ -219,7 +486,7 @@ router.get('/:id', async (req, res, next) => {
 
     // Get completed counts per program and recent progress in parallel
     const enrolledProgramIds = learner.enrollments.map(e => e.programId);
-    const [completedByProgram, recentProgress] = await Promise.all([
+    const [completedByProgram, recentProgress, quizAttempts, payments] = await Promise.all([
       req.prisma.progress.groupBy({
         by: ['lessonId'],
         where: {
@@ -247,6 +514,22 @@ router.get('/:id', async (req, res, next) => {
         },
         orderBy: { lastAccessedAt: 'desc' },
         take: 10
+      }),
+      req.prisma.quizAttempt.findMany({
+        where: { userId: id },
+        include: {
+          lesson: { select: { title: true, program: { select: { name: true } } } }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 20
+      }),
+      req.prisma.payment.findMany({
+        where: { userId: id, status: { in: ['SUCCESS', 'REFUNDED'] } },
+        include: {
+          program: { select: { name: true } },
+          enrollment: { select: { type: true } }
+        },
+        orderBy: { createdAt: 'desc' }
       })
     ]);
 
@@ -258,6 +541,7 @@ router.get('/:id', async (req, res, next) => {
       return {
         programId: enrollment.programId,
         programName: enrollment.program.name,
+        cohort: enrollment.cohort || null,
         completedLessons: completedCount,
         totalLessons,
         percentage: totalLessons > 0 ? Math.round((completedCount / totalLessons) * 100) : 0
@@ -282,7 +566,19 @@ router.get('/:id', async (req, res, next) => {
           lessonTitle: p.lesson.title,
           status: p.status,
           lastAccessed: p.lastAccessedAt
-        }))
+        })),
+        quizAttempts: quizAttempts.map(a => ({
+          id: a.id,
+          lessonId: a.lessonId,
+          lessonTitle: a.lesson.title,
+          programName: a.lesson.program.name,
+          score: a.score,
+          earnedPoints: a.earnedPoints,
+          totalPoints: a.totalPoints,
+          passed: a.passed,
+          createdAt: a.createdAt
+        })),
+        payments: payments.map(formatPayment)
       }
     });
   } catch (error) {
@@ -294,7 +590,7 @@ router.get('/:id', async (req, res, next) => {
  * PUT /admin/learners/:id
  * Update learner
  */
-router.put('/:id', async (req, res, next) => {
+router.put('/:id', requirePermission('learners:edit'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { name, mobile, registrationNumber } = req.body;
@@ -317,7 +613,7 @@ router.put('/:id', async (req, res, next) => {
  * PUT /admin/learners/:id/status
  * Change learner status
  */
-router.put('/:id/status', async (req, res, next) => {
+router.put('/:id/status', requirePermission('learners:edit'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { status } = req.body;
@@ -348,7 +644,7 @@ router.put('/:id/status', async (req, res, next) => {
  * POST /admin/learners/:id/reset-password
  * Trigger password reset for learner
  */
-router.post('/:id/reset-password', async (req, res, next) => {
+router.post('/:id/reset-password', requirePermission('learners:reset-password'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -356,7 +652,7 @@ router.post('/:id/reset-password', async (req, res, next) => {
       where: { id }
     });
 
-    if (!learner) {
+    if (!learner || learner.role !== 'LEARNER') {
       return res.status(404).json({
         success: false,
         error: { code: 'NOT_FOUND', message: 'Learner not found' }
@@ -389,15 +685,23 @@ router.post('/:id/reset-password', async (req, res, next) => {
 
 /**
  * POST /admin/learners/:id/enroll
- * Add learner to program
+ * Add learner to program, optionally into one of its cohorts
  */
-router.post('/:id/enroll', async (req, res, next) => {
+router.post('/:id/enroll', requirePermission('learners:edit'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { programId } = req.body;
 
+    const { cohortId, error } = await resolveCohortId(req.prisma, programId, req.body.cohortId);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
     await req.prisma.enrollment.create({
-      data: { userId: id, programId }
+      data: { userId: id, programId, ...(cohortId && { cohortId }) }
     });
 
     res.json({
@@ -415,11 +719,59 @@ router.post('/:id/enroll', async (req, res, next) => {
   }
 });
 
+/**
+ * PUT /admin/learners/:id/enrollments/:programId
+ * Move an enrolled learner to another cohort of the program (cohortId null = no cohort)
+ */
+router.put('/:id/enrollments/:programId', requirePermission('learners:edit'), async (req, res, next) => {
+  try {
+    const { id, programId } = req.params;
+
+    const { cohortId, error } = await resolveCohortId(req.prisma, programId, req.body.cohortId);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const enrollment = await req.prisma.enrollment.update({
+      where: { userId_programId: { userId: id, programId } },
+      data: { cohortId },
+      include: { cohort: { select: { id: true, name: true } } }
+    });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'CHANGE_COHORT',
+      targetType: 'Enrollment',
+      targetId: enrollment.id,
+      details: { learnerId: id, programId, cohortId },
+    });
+
+    // Which sessions the learner sees depends on the cohort
+    await cacheDel(`learner:home:${id}`);
+
+    res.json({
+      success: true,
+      data: { enrollment: { programId, cohort: enrollment.cohort || null } }
+    });
+  } catch (error) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Enrollment not found' }
+      });
+    }
+    next(error);
+  }
+});
+
 /**
  * POST /admin/learners/:id/unenroll
  * Remove learner from program
  */
-router.post('/:id/unenroll', async (req, res, next) => {
+router.post('/:id/unenroll', requirePermission('learners:edit'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { programId } = req.body;
@@ -459,11 +811,143 @@ router.post('/:id/unenroll', async (req, res, next) => {
   }
 });
 
+/**
+ * POST /admin/learners/:id/payments/:paymentId/refund
+ * Refund a payment through Cashfree (full or partial), optionally downgrading the enrollment to FREE
+ */
+router.post('/:id/payments/:paymentId/refund', requirePermission('payments:refund'), async (req, res, next) => {
+  try {
+    const { id, paymentId } = req.params;
+    const { amount, reason, revokeAccess } = req.body;
+
+    if (reason && reason.length > 500) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Reason must be 500 characters or less' }
+      });
+    }
+
+    const payment = await req.prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { program: { select: { name: true } } }
+    });
+
+    if (!payment || payment.userId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Payment not found' }
+      });
+    }
+
+    if (payment.status !== 'SUCCESS' && payment.status !== 'REFUNDED') {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'NOT_REFUNDABLE', message: 'Only successful payments can be refunded' }
+      });
+    }
+
+    const alreadyRefunded = parseFloat(payment.refundedAmount || 0);
+    const refundable = roundAmount(parseFloat(payment.amount) - alreadyRefunded);
+
+    if (refundable <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'NOT_REFUNDABLE', message: 'Nothing left to refund on this payment' }
+      });
+    }
+
+    // Omitted amount = refund everything that's left
+    const refundAmount = amount == null || amount === '' ? refundable : roundAmount(Number(amount));
+    if (!Number.isFinite(refundAmount) || refundAmount <= 0 || refundAmount > refundable) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `Refund amount must be between 0 and ${refundable}` }
+      });
+    }
+
+    const refundId = `refund_${payment.id}_${Date.now()}`;
+    let refund;
+    try {
+      refund = await createCashfreeRefund({
+        orderId: payment.cashfreeOrderId,
+        refundId,
+        amount: refundAmount,
+        note: reason
+      });
+    } catch (err) {
+      return res.status(502).json({
+        success: false,
+        error: { code: 'REFUND_FAILED', message: err.message }
+      });
+    }
+
+    const updated = await req.prisma.$transaction(async (tx) => {
+      // Totals come from the row as it is now, in case another refund landed meanwhile
+      const result = await recordRefund(tx, payment.id, {
+        refundId,
+        cfRefundId: refund.cf_refund_id || null,
+        status: refund.refund_status || 'PENDING',
+        amount: refundAmount,
+        reason: reason || null,
+        adminEmail: req.user.email,
+        createdAt: new Date().toISOString()
+      }, {
+        include: {
+          program: { select: { name: true } },
+          enrollment: { select: { type: true } }
+        }
+      });
+
+      if (revokeAccess === true) {
+        result.enrollment = await tx.enrollment.update({
+          where: { id: payment.enrollmentId },
+          data: { type: 'FREE', paidAt: null, suspendedAt: null },
+          select: { type: true }
+        });
+        // No further installments are due once access is revoked
+        await tx.installment.deleteMany({
+          where: { enrollmentId: payment.enrollmentId, paidAt: null }
+        });
+      }
+
+      return result;
+    });
+
+    await Promise.all([
+      cacheDel(`learner:home:${id}`),
+      cacheDel(`learner:profile:${id}`),
+      cacheDel(`learner:program:${id}:${payment.programId}`)
+    ]);
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'REFUND_PAYMENT',
+      targetType: 'Payment',
+      targetId: payment.id,
+      details: {
+        learnerId: id,
+        programName: payment.program?.name,
+        amount: refundAmount,
+        currency: payment.currency,
+        reason: reason || null,
+        revokedAccess: revokeAccess === true
+      },
+    });
+
+    res.json({
+      success: true,
+      data: { payment: formatPayment(updated) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * DELETE /admin/learners/:id
  * Permanently delete a learner and all associated data
  */
-router.delete('/:id', async (req, res, next) => {
+router.delete('/:id', requirePermission('learners:delete'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -502,7 +986,7 @@ router.delete('/:id', async (req, res, next) => {
  * GET /admin/learners/:id/sessions
  * Get active sessions for a learner
  */
-router.get('/:id/sessions', async (req, res, next) => {
+router.get('/:id/sessions', requirePermission('learners:view'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -534,12 +1018,13 @@ router.get('/:id/sessions', async (req, res, next) => {
  * POST /admin/learners/:id/logout-all
  * Force logout learner from all devices
  */
-router.post('/:id/logout-all', async (req, res, next) => {
+router.post('/:id/logout-all', requirePermission('learners:reset-password'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
+    // Learner accounts only, so support staff can't sign out other staff
     const result = await req.prisma.userSession.deleteMany({
-      where: { userId: id }
+      where: { userId: id, user: { role: 'LEARNER' } }
     });
 
     res.json({
@@ -1,11 +1,13 @@
 const express = require('express');
 const router = express.Router();
-const { authenticate, requireAdmin } = require('../../middleware/auth');
+const { authenticate, requireStaff, requirePermission } = require('../../middleware/auth');
 const { parsePagination } = require('../../utils/pagination');
+const { resolveCohortId } = require('../../utils/cohorts');
 
 // Apply auth to all routes
 router.use(authenticate);
-router.use(requireAdmin);
+router.use(requireStaff);
+router.use(requirePermission('notifications:send'));
 
 // GET /admin/notifications - Get all notifications (admin view)
 router.get('/', async (req, res, next) => {
@@ -73,7 +75,7 @@ router.post('/send', async (req, res, next) => {
   }
 });
 
-// POST /admin/notifications/send-to-program - Send notification to all enrolled learners in a program
+// POST /admin/notifications/send-to-program - Send notification to all enrolled learners in a program (or one cohort of it)
 router.post('/send-to-program', async (req, res, next) => {
   try {
     const { programId, type, title, message, data } = req.body;
@@ -82,9 +84,14 @@ router.post('/send-to-program', async (req, res, next) => {
       return res.status(400).json({ error: 'programId, type, title, and message are required' });
     }
 
-    // Get all enrolled users in this program
+    const { cohortId, error } = await resolveCohortId(req.prisma, programId, req.body.cohortId);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    // Get all enrolled users in this program or cohort
     const enrollments = await req.prisma.enrollment.findMany({
-      where: { programId },
+      where: { programId, ...(cohortId && { cohortId }) },
       select: { userId: true }
     });
 
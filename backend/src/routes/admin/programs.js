@@ -1,37 +1,144 @@
 // Admin Program Routes
 const express = require('express');
 const router = express.Router();
-const { authenticate, requireAdmin } = require('../../middleware/auth');
-const { cacheGet, cacheDel } = require('../../utils/cache');
-const { deleteR2File, deleteR2Files } = require('../../utils/r2');
+const multer = require('multer');
+const { v4: uuidv4 } = require('uuid');
+const { authenticate, requireStaff, requirePermission, requireProgramAccess } = require('../../middleware/auth');
+const { cacheGet } = require('../../utils/cache');
+const { uploadR2File, deleteR2File, deleteR2Files } = require('../../utils/r2');
 const { parsePagination } = require('../../utils/pagination');
-const { logAudit } = require('../../utils/audit');
-
-// Clear program list cache (known key patterns only — avoids expensive SCAN)
-async function clearProgramsCache() {
-  await Promise.all([
-    cacheDel('programs:list:true:1:20'),
-    cacheDel('programs:list:undefined:1:20'),
-  ]);
+const { logAudit, diffChanges } = require('../../utils/audit');
+const { normalizeQuizQuestions, parsePassingScore } = require('../../utils/quiz');
+const { parseDripSchedule } = require('../../utils/drip');
+const { parsePlanInput, formatPlan } = require('../../utils/installments');
+const { parseCohortInput, formatCohort } = require('../../utils/cohorts');
+const { clearProgramsCache, touchProgram, notifyNewLesson } = require('../../utils/lessons');
+const {
+  TRANSCRIPT_SELECT,
+  parseCaptionFile,
+  buildWebVtt,
+  transcriptText,
+  refreshTranscriptIndex,
+  syncBunnyCaptions,
+  removeBunnyCaptions
+} = require('../../utils/transcripts');
+const { refreshLessonSearchIndex, refreshSearchIndexWhere } = require('../../utils/search');
+const { getProgramScope } = require('../../utils/permissions');
+
+// Validate quiz questions + passing score from a lesson create/update body
+function validateQuizInput(quizQuestions, passingScore) {
+  const score = parsePassingScore(passingScore);
+  if (Number.isNaN(score)) {
+    return { error: 'Passing score must be between 0 and 100' };
+  }
+  const { questions, error } = normalizeQuizQuestions(quizQuestions);
+  if (error) return { error };
+  return { questions, passingScore: score };
+}
+
+// Copy a lesson's quiz questions onto its duplicate
+async function copyQuizQuestions(tx, lesson, lessonId) {
+  if (!lesson.quizQuestions || lesson.quizQuestions.length === 0) return;
+  await tx.quizQuestion.createMany({
+    data: lesson.quizQuestions.map(q => ({
+      lessonId,
+      type: q.type,
+      prompt: q.prompt,
+      options: q.options,
+      correctAnswers: q.correctAnswers,
+      points: q.points,
+      orderIndex: q.orderIndex,
+    }))
+  });
 }
 
-// Touch program's updatedAt so "hasUnpublishedChanges" detects content changes
-async function touchProgram(prisma, programId) {
-  await prisma.program.update({
-    where: { id: programId },
-    data: { updatedAt: new Date() }
+// Copy a lesson's transcripts onto its duplicate (the R2 files are shared, like attachments)
+async function copyTranscripts(tx, lesson, lessonId) {
+  if (!lesson.transcripts || lesson.transcripts.length === 0) return;
+  await tx.lessonTranscript.createMany({
+    data: lesson.transcripts.map(t => ({
+      lessonId,
+      language: t.language,
+      label: t.label,
+      fileUrl: t.fileUrl,
+      cues: t.cues,
+      text: t.text,
+    }))
+  });
+  await refreshTranscriptIndex(tx, lessonId);
+}
+
+// Caption files are parsed in memory
+const captionUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 2 * 1024 * 1024 } // 2MB
+});
+
+// captionUpload.single('file'), with multer errors (e.g. too large) as 400s
+function uploadCaptionFile(req, res, next) {
+  captionUpload.single('file')(req, res, (err) => {
+    if (err) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: err.code === 'LIMIT_FILE_SIZE' ? 'File must be 2MB or smaller' : err.message }
+      });
+    }
+    next();
   });
 }
 
 // Apply auth to all routes
 router.use(authenticate);
-router.use(requireAdmin);
+router.use(requireStaff);
+
+// Program lookups for requireProgramAccess, from the record a route works on
+// (a missing ID counts as not found, leaving the route to reject it)
+const lookupProgram = (model, getId, select = { programId: true }) => async (req) => {
+  const id = getId(req);
+  if (!id) return null;
+  const record = await req.prisma[model].findUnique({ where: { id }, select });
+  if (!record) return null;
+  return [record.programId ?? record.topic?.programId ?? record.lesson?.programId];
+};
+
+const programFromParam = async (req) => [req.params.id];
+const programFromBody = async (req) => [req.body.programId];
+const programOfTopic = lookupProgram('topic', req => req.params.id);
+const programOfBodyTopic = lookupProgram('topic', req => req.body.topicId);
+const programOfSubtopic = lookupProgram('subtopic', req => req.params.id, { topic: { select: { programId: true } } });
+const programOfLesson = lookupProgram('lesson', req => req.params.id);
+const programOfAttachment = lookupProgram('lessonAttachment', req => req.params.id, { lesson: { select: { programId: true } } });
+const programOfTranscript = lookupProgram('lessonTranscript', req => req.params.id, { lesson: { select: { programId: true } } });
+
+/**
+ * Check that a lesson's topic / subtopic belong to its program, so content
+ * can't be filed under another program's topics. Returns an error message or null.
+ */
+async function checkLessonParents(prisma, programId, { topicId, subtopicId }) {
+  if (topicId) {
+    const topic = await prisma.topic.findUnique({ where: { id: topicId }, select: { programId: true } });
+    if (!topic || topic.programId !== programId) return 'Topic not found in this program';
+  }
+  if (subtopicId) {
+    const subtopic = await prisma.subtopic.findUnique({
+      where: { id: subtopicId },
+      select: { topicId: true, topic: { select: { programId: true } } }
+    });
+    if (!subtopic || subtopic.topic.programId !== programId || (topicId && subtopic.topicId !== topicId)) {
+      return 'Subtopic not found in this program';
+    }
+  }
+  return null;
+}
+
+const canManage = requirePermission('programs:manage');
+const canEditContent = requirePermission('content:edit');
 
 /**
  * GET /admin/programs
  * List all programs with stats (with optional pagination)
  */
-router.get('/', async (req, res, next) => {
+router.get('/', requirePermission('programs:view'), async (req, res, next) => {
   try {
     const { all } = req.query;
     const { page, limit, skip } = parsePagination(req.query);
@@ -42,26 +149,36 @@ router.get('/', async (req, res, next) => {
       take: limit
     };
 
+    // Instructors only see their assigned programs
+    const scope = await getProgramScope(req);
+    const where = scope ? { id: { in: scope } } : {};
+
     const cacheKey = `programs:list:${all}:${page}:${limit}`;
 
-    const result = await cacheGet(cacheKey, async () => {
+    const loadPrograms = async () => {
       const [programs, total, durations] = await Promise.all([
         req.prisma.program.findMany({
+          where,
           include: {
             _count: {
               select: {
                 enrollments: true,
                 lessons: true
               }
+            },
+            cohorts: {
+              select: { id: true, name: true, startDate: true, endDate: true },
+              orderBy: { startDate: 'desc' }
             }
           },
           orderBy: { createdAt: 'desc' },
           ...paginationOptions
         }),
-        req.prisma.program.count(),
+        req.prisma.program.count({ where }),
         // Aggregate lesson durations per program instead of fetching all lesson rows
         req.prisma.lesson.groupBy({
           by: ['programId'],
+          ...(scope && { where: { programId: { in: scope } } }),
           _sum: { durationSeconds: true }
         })
       ]);
@@ -79,12 +196,14 @@ router.get('/', async (req, res, next) => {
           thumbnailUrl: program.thumbnailUrl,
           isPublished: program.isPublished,
           isPublic: program.isPublic,
+          isSequential: program.isSequential,
           slug: program.slug,
           price: program.price,
           currency: program.currency,
           learnerCount: program._count.enrollments,
           lessonCount: program._count.lessons,
           totalDurationHours: Math.round(totalDuration / 3600 * 10) / 10,
+          cohorts: program.cohorts || [],
           createdAt: program.createdAt
         };
       });
@@ -98,7 +217,10 @@ router.get('/', async (req, res, next) => {
           totalPages: Math.ceil(total / limit)
         }
       };
-    }, 300); // 5 minutes
+    };
+
+    // Scoped lists are per user, so they skip the shared cache
+    const result = scope ? await loadPrograms() : await cacheGet(cacheKey, loadPrograms, 300); // 5 minutes
 
     res.json({
       success: true,
@@ -113,9 +235,9 @@ router.get('/', async (req, res, next) => {
  * POST /admin/programs
  * Create new program
  */
-router.post('/', async (req, res, next) => {
+router.post('/', canManage, async (req, res, next) => {
   try {
-    const { name, description, thumbnailUrl, price, currency, slug, isPublic } = req.body;
+    const { name, description, thumbnailUrl, price, currency, slug, isPublic, isSequential } = req.body;
 
     if (!name) {
       return res.status(400).json({
@@ -165,6 +287,7 @@ router.post('/', async (req, res, next) => {
         description,
         thumbnailUrl,
         isPublic: isPublic || false,
+        isSequential: isSequential === true,
         price: price != null ? price : null,
         currency: currency || 'INR',
         slug: programSlug || null
@@ -186,7 +309,7 @@ router.post('/', async (req, res, next) => {
  * GET /admin/programs/:id
  * Get program with full content tree
  */
-router.get('/:id', async (req, res, next) => {
+router.get('/:id', requirePermission('programs:view'), requireProgramAccess(programFromParam), async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -198,7 +321,11 @@ router.get('/:id', async (req, res, next) => {
             subtopics: {
               include: {
                 lessons: {
-                  include: { attachments: true },
+                  include: {
+                    attachments: true,
+                    quizQuestions: { orderBy: { orderIndex: 'asc' } },
+                    transcripts: { select: TRANSCRIPT_SELECT, orderBy: { label: 'asc' } }
+                  },
                   orderBy: { orderIndex: 'asc' }
                 }
               },
@@ -206,7 +333,11 @@ router.get('/:id', async (req, res, next) => {
             },
             lessons: {
               where: { subtopicId: null },
-              include: { attachments: true },
+              include: {
+                attachments: true,
+                quizQuestions: { orderBy: { orderIndex: 'asc' } },
+                transcripts: { select: TRANSCRIPT_SELECT, orderBy: { label: 'asc' } }
+              },
               orderBy: { orderIndex: 'asc' }
             }
           },
@@ -214,7 +345,11 @@ router.get('/:id', async (req, res, next) => {
         },
         lessons: {
           where: { topicId: null, subtopicId: null },
-          include: { attachments: true },
+          include: {
+            attachments: true,
+            quizQuestions: { orderBy: { orderIndex: 'asc' } },
+            transcripts: { select: TRANSCRIPT_SELECT, orderBy: { label: 'asc' } }
+          },
           orderBy: { orderIndex: 'asc' }
         }
       }
@@ -237,6 +372,8 @@ router.get('/:id', async (req, res, next) => {
         type: 'topic',
         name: topic.name,
         orderIndex: topic.orderIndex,
+        unlockAfterDays: topic.unlockAfterDays,
+        unlockAt: topic.unlockAt,
         children: []
       };
 
@@ -259,7 +396,12 @@ router.get('/:id', async (req, res, next) => {
             durationSeconds: lesson.durationSeconds,
             orderIndex: lesson.orderIndex,
             isFree: lesson.isFree,
-            attachments: lesson.attachments
+            passingScore: lesson.passingScore,
+            unlockAfterDays: lesson.unlockAfterDays,
+            unlockAt: lesson.unlockAt,
+            quizQuestions: lesson.quizQuestions,
+            attachments: lesson.attachments,
+            transcripts: lesson.transcripts
           }))
         };
         topicItem.children.push(subtopicItem);
@@ -279,7 +421,12 @@ router.get('/:id', async (req, res, next) => {
           durationSeconds: lesson.durationSeconds,
           orderIndex: lesson.orderIndex,
           isFree: lesson.isFree,
-          attachments: lesson.attachments
+          passingScore: lesson.passingScore,
+          unlockAfterDays: lesson.unlockAfterDays,
+          unlockAt: lesson.unlockAt,
+          quizQuestions: lesson.quizQuestions,
+          attachments: lesson.attachments,
+          transcripts: lesson.transcripts
         });
       }
 
@@ -300,7 +447,12 @@ router.get('/:id', async (req, res, next) => {
         durationSeconds: lesson.durationSeconds,
         orderIndex: lesson.orderIndex,
         isFree: lesson.isFree,
-        attachments: lesson.attachments
+        passingScore: lesson.passingScore,
+        unlockAfterDays: lesson.unlockAfterDays,
+        unlockAt: lesson.unlockAt,
+        quizQuestions: lesson.quizQuestions,
+        attachments: lesson.attachments,
+        transcripts: lesson.transcripts
       });
     }
 
@@ -314,6 +466,7 @@ router.get('/:id', async (req, res, next) => {
           thumbnailUrl: program.thumbnailUrl,
           isPublished: program.isPublished,
           isPublic: program.isPublic,
+          isSequential: program.isSequential,
           slug: program.slug,
           price: program.price,
           currency: program.currency,
@@ -335,10 +488,10 @@ router.get('/:id', async (req, res, next) => {
  * PUT /admin/programs/:id
  * Update program
  */
-router.put('/:id', async (req, res, next) => {
+router.put('/:id', canManage, async (req, res, next) => {
   try {
     const { id } = req.params;
-    const { name, description, thumbnailUrl, price, currency, slug, isPublic } = req.body;
+    const { name, description, thumbnailUrl, price, currency, slug, isPublic, isSequential } = req.body;
 
     if (name && name.length > 200) {
       return res.status(400).json({
@@ -381,7 +534,8 @@ router.put('/:id', async (req, res, next) => {
         ...(price !== undefined ? { price: price != null ? price : null } : {}),
         ...(currency !== undefined ? { currency } : {}),
         ...(slug !== undefined ? { slug: slug || null } : {}),
-        ...(isPublic !== undefined ? { isPublic } : {})
+        ...(isPublic !== undefined ? { isPublic } : {}),
+        ...(isSequential !== undefined ? { isSequential: isSequential === true } : {})
       }
     });
 
@@ -400,7 +554,7 @@ router.put('/:id', async (req, res, next) => {
  * POST /admin/programs/:id/publish
  * Toggle publish status
  */
-router.post('/:id/publish', async (req, res, next) => {
+router.post('/:id/publish', canManage, async (req, res, next) => {
   try {
     const { id } = req.params;
     const { isPublished } = req.body;
@@ -429,7 +583,7 @@ router.post('/:id/publish', async (req, res, next) => {
  * POST /admin/programs/:id/duplicate
  * Duplicate a program with all its content (topics, subtopics, lessons, attachments)
  */
-router.post('/:id/duplicate', async (req, res, next) => {
+router.post('/:id/duplicate', canManage, async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -442,7 +596,7 @@ router.post('/:id/duplicate', async (req, res, next) => {
             subtopics: {
               include: {
                 lessons: {
-                  include: { attachments: true },
+                  include: { attachments: true, quizQuestions: true, transcripts: true },
                   orderBy: { orderIndex: 'asc' }
                 }
               },
@@ -450,7 +604,7 @@ router.post('/:id/duplicate', async (req, res, next) => {
             },
             lessons: {
               where: { subtopicId: null },
-              include: { attachments: true },
+              include: { attachments: true, quizQuestions: true, transcripts: true },
               orderBy: { orderIndex: 'asc' }
             }
           },
@@ -458,7 +612,7 @@ router.post('/:id/duplicate', async (req, res, next) => {
         },
         lessons: {
           where: { topicId: null, subtopicId: null },
-          include: { attachments: true },
+          include: { attachments: true, quizQuestions: true, transcripts: true },
           orderBy: { orderIndex: 'asc' }
         }
       }
@@ -497,12 +651,15 @@ router.post('/:id/duplicate', async (req, res, next) => {
           thumbnailUrl: source.thumbnailUrl,
           isPublished: false,
           isPublic: source.isPublic,
+          isSequential: source.isSequential,
           slug: newSlug,
           price: source.price,
           currency: source.currency,
         }
       });
 
+      const newLessonIds = [];
+
       // 2. Copy standalone lessons (no topic)
       for (const lesson of source.lessons) {
         const newLesson = await tx.lesson.create({
@@ -517,6 +674,9 @@ router.post('/:id/duplicate', async (req, res, next) => {
             durationSeconds: lesson.durationSeconds,
             orderIndex: lesson.orderIndex,
             isFree: lesson.isFree,
+            passingScore: lesson.passingScore,
+            unlockAfterDays: lesson.unlockAfterDays,
+            unlockAt: lesson.unlockAt,
           }
         });
         if (lesson.attachments.length > 0) {
@@ -529,6 +689,9 @@ router.post('/:id/duplicate', async (req, res, next) => {
             }))
           });
         }
+        await copyQuizQuestions(tx, lesson, newLesson.id);
+        await copyTranscripts(tx, lesson, newLesson.id);
+        newLessonIds.push(newLesson.id);
       }
 
       // 3. Copy topics with their subtopics and lessons
@@ -538,6 +701,8 @@ router.post('/:id/duplicate', async (req, res, next) => {
             programId: program.id,
             name: topic.name,
             orderIndex: topic.orderIndex,
+            unlockAfterDays: topic.unlockAfterDays,
+            unlockAt: topic.unlockAt,
           }
         });
 
@@ -556,6 +721,9 @@ router.post('/:id/duplicate', async (req, res, next) => {
               durationSeconds: lesson.durationSeconds,
               orderIndex: lesson.orderIndex,
               isFree: lesson.isFree,
+              passingScore: lesson.passingScore,
+              unlockAfterDays: lesson.unlockAfterDays,
+              unlockAt: lesson.unlockAt,
             }
           });
           if (lesson.attachments.length > 0) {
@@ -568,6 +736,9 @@ router.post('/:id/duplicate', async (req, res, next) => {
               }))
             });
           }
+          await copyQuizQuestions(tx, lesson, newLesson.id);
+          await copyTranscripts(tx, lesson, newLesson.id);
+          newLessonIds.push(newLesson.id);
         }
 
         // Copy subtopics with their lessons
@@ -595,6 +766,9 @@ router.post('/:id/duplicate', async (req, res, next) => {
                 durationSeconds: lesson.durationSeconds,
                 orderIndex: lesson.orderIndex,
                 isFree: lesson.isFree,
+                passingScore: lesson.passingScore,
+                unlockAfterDays: lesson.unlockAfterDays,
+                unlockAt: lesson.unlockAt,
               }
             });
             if (lesson.attachments.length > 0) {
@@ -607,10 +781,14 @@ router.post('/:id/duplicate', async (req, res, next) => {
                 }))
               });
             }
+            await copyQuizQuestions(tx, lesson, newLesson.id);
+            await copyTranscripts(tx, lesson, newLesson.id);
+            newLessonIds.push(newLesson.id);
           }
         }
       }
 
+      await refreshLessonSearchIndex(tx, newLessonIds);
       return program;
     });
 
@@ -630,7 +808,7 @@ router.post('/:id/duplicate', async (req, res, next) => {
  * DELETE /admin/programs/:id
  * Delete program and all content
  */
-router.delete('/:id', async (req, res, next) => {
+router.delete('/:id', canManage, async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -691,12 +869,20 @@ router.delete('/:id', async (req, res, next) => {
  * POST /admin/programs/topics
  * Create topic
  */
-router.post('/topics', async (req, res, next) => {
+router.post('/topics', canEditContent, requireProgramAccess(programFromBody), async (req, res, next) => {
   try {
     const { programId, name, orderIndex = 0 } = req.body;
 
+    const drip = parseDripSchedule(req.body);
+    if (drip.error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: drip.error }
+      });
+    }
+
     const topic = await req.prisma.topic.create({
-      data: { programId, name, orderIndex }
+      data: { programId, name, orderIndex, ...drip.data }
     });
 
     await touchProgram(req.prisma, programId);
@@ -713,16 +899,25 @@ router.post('/topics', async (req, res, next) => {
 /**
  * PUT /admin/programs/topics/:id
  */
-router.put('/topics/:id', async (req, res, next) => {
+router.put('/topics/:id', canEditContent, requireProgramAccess(programOfTopic), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { name, orderIndex } = req.body;
 
+    const drip = parseDripSchedule(req.body);
+    if (drip.error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: drip.error }
+      });
+    }
+
     const topic = await req.prisma.topic.update({
       where: { id },
-      data: { name, orderIndex }
+      data: { name, orderIndex, ...drip.data }
     });
 
+    if (name !== undefined) await refreshSearchIndexWhere(req.prisma, { topicId: id });
     await touchProgram(req.prisma, topic.programId);
 
     res.json({ success: true, data: { topic } });
@@ -734,7 +929,7 @@ router.put('/topics/:id', async (req, res, next) => {
 /**
  * DELETE /admin/programs/topics/:id
  */
-router.delete('/topics/:id', async (req, res, next) => {
+router.delete('/topics/:id', canEditContent, requireProgramAccess(programOfTopic), async (req, res, next) => {
   try {
     const { id } = req.params;
     const topic = await req.prisma.topic.findUnique({ where: { id }, select: { programId: true } });
@@ -750,9 +945,15 @@ router.delete('/topics/:id', async (req, res, next) => {
 // SUBTOPIC ROUTES
 // ==========================================
 
-router.post('/subtopics', async (req, res, next) => {
+router.post('/subtopics', canEditContent, requireProgramAccess(programOfBodyTopic), async (req, res, next) => {
   try {
     const { topicId, name, orderIndex = 0 } = req.body;
+    if (!topicId) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Topic ID required' }
+      });
+    }
     const subtopic = await req.prisma.subtopic.create({
       data: { topicId, name, orderIndex },
       include: { topic: { select: { programId: true } } }
@@ -764,7 +965,7 @@ router.post('/subtopics', async (req, res, next) => {
   }
 });
 
-router.put('/subtopics/:id', async (req, res, next) => {
+router.put('/subtopics/:id', canEditContent, requireProgramAccess(programOfSubtopic), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { name, orderIndex } = req.body;
@@ -773,6 +974,7 @@ router.put('/subtopics/:id', async (req, res, next) => {
       data: { name, orderIndex },
       include: { topic: { select: { programId: true } } }
     });
+    if (name !== undefined) await refreshSearchIndexWhere(req.prisma, { subtopicId: id });
     await touchProgram(req.prisma, subtopic.topic.programId);
     res.json({ success: true, data: { subtopic } });
   } catch (error) {
@@ -780,7 +982,7 @@ router.put('/subtopics/:id', async (req, res, next) => {
   }
 });
 
-router.delete('/subtopics/:id', async (req, res, next) => {
+router.delete('/subtopics/:id', canEditContent, requireProgramAccess(programOfSubtopic), async (req, res, next) => {
   try {
     const { id } = req.params;
     const subtopic = await req.prisma.subtopic.findUnique({ where: { id }, include: { topic: { select: { programId: true } } } });
@@ -796,9 +998,39 @@ router.delete('/subtopics/:id', async (req, res, next) => {
 // LESSON ROUTES
 // ==========================================
 
-router.post('/lessons', async (req, res, next) => {
+router.post('/lessons', canEditContent, requireProgramAccess(programFromBody), async (req, res, next) => {
   try {
-    const { programId, topicId, subtopicId, title, type, contentUrl, contentText, durationSeconds, orderIndex = 0, instructorNotes, thumbnailUrl, isFree } = req.body;
+    const { programId, topicId, subtopicId, title, type, contentUrl, contentText, durationSeconds, orderIndex = 0, instructorNotes, thumbnailUrl, isFree, passingScore, quizQuestions } = req.body;
+
+    const parentError = await checkLessonParents(req.prisma, programId, { topicId, subtopicId });
+    if (parentError) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: parentError }
+      });
+    }
+
+    const drip = parseDripSchedule(req.body);
+    if (drip.error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: drip.error }
+      });
+    }
+
+    let questions = [];
+    let parsedPassingScore = null;
+    if (type === 'QUIZ') {
+      const quiz = validateQuizInput(quizQuestions || [], passingScore);
+      if (quiz.error) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: quiz.error }
+        });
+      }
+      questions = quiz.questions;
+      parsedPassingScore = quiz.passingScore;
+    }
 
     const lesson = await req.prisma.lesson.create({
       data: {
@@ -813,42 +1045,16 @@ router.post('/lessons', async (req, res, next) => {
         orderIndex,
         instructorNotes,
         thumbnailUrl,
-        isFree: isFree === true
+        isFree: isFree === true,
+        passingScore: parsedPassingScore,
+        ...drip.data,
+        ...(questions.length > 0 ? { quizQuestions: { create: questions } } : {})
       }
     });
+    await refreshLessonSearchIndex(req.prisma, [lesson.id]);
 
     // Send notifications to enrolled learners (async, don't wait)
-    (async () => {
-      try {
-        // Get program name for notification message
-        const program = await req.prisma.program.findUnique({
-          where: { id: programId },
-          select: { name: true }
-        });
-
-        // Get all enrolled users in this program
-        const enrollments = await req.prisma.enrollment.findMany({
-          where: { programId },
-          select: { userId: true }
-        });
-
-        if (enrollments.length > 0 && program) {
-          const userIds = enrollments.map(e => e.userId);
-          await req.prisma.notification.createMany({
-            data: userIds.map(userId => ({
-              userId,
-              type: 'NEW_LESSON',
-              title: 'New Lesson Available',
-              message: `A new lesson "${title}" has been added to ${program.name}`,
-              data: { programId, lessonId: lesson.id, lessonTitle: title }
-            }))
-          });
-          console.log(`Sent notifications to ${userIds.length} learners for new lesson "${title}"`);
-        }
-      } catch (notifError) {
-        console.error('Failed to send lesson notifications:', notifError);
-      }
-    })();
+    notifyNewLesson(req.prisma, lesson);
 
     await touchProgram(req.prisma, programId);
     clearProgramsCache();
@@ -859,18 +1065,52 @@ router.post('/lessons', async (req, res, next) => {
   }
 });
 
-router.put('/lessons/:id', async (req, res, next) => {
+router.put('/lessons/:id', canEditContent, requireProgramAccess(programOfLesson), async (req, res, next) => {
   try {
     const { id } = req.params;
-    const { title, type, contentUrl, contentText, durationSeconds, orderIndex, instructorNotes, thumbnailUrl, isFree } = req.body;
+    const { title, type, contentUrl, contentText, durationSeconds, orderIndex, instructorNotes, thumbnailUrl, isFree, passingScore, quizQuestions } = req.body;
 
-    const lesson = await req.prisma.lesson.update({
-      where: { id },
-      data: {
-        title, type, contentUrl, contentText, durationSeconds, orderIndex, instructorNotes, thumbnailUrl,
-        ...(isFree !== undefined ? { isFree } : {})
+    const drip = parseDripSchedule(req.body);
+    if (drip.error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: drip.error }
+      });
+    }
+
+    // Quiz questions are replaced wholesale when provided
+    let quiz = null;
+    if (quizQuestions !== undefined || passingScore !== undefined) {
+      quiz = validateQuizInput(quizQuestions || [], passingScore);
+      if (quiz.error) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: quiz.error }
+        });
       }
+    }
+
+    const lesson = await req.prisma.$transaction(async (tx) => {
+      if (quiz && quizQuestions !== undefined) {
+        await tx.quizQuestion.deleteMany({ where: { lessonId: id } });
+        if (quiz.questions.length > 0) {
+          await tx.quizQuestion.createMany({
+            data: quiz.questions.map(q => ({ ...q, lessonId: id }))
+          });
+        }
+      }
+
+      return tx.lesson.update({
+        where: { id },
+        data: {
+          title, type, contentUrl, contentText, durationSeconds, orderIndex, instructorNotes, thumbnailUrl,
+          ...(isFree !== undefined ? { isFree } : {}),
+          ...drip.data,
+          ...(quiz && passingScore !== undefined ? { passingScore: quiz.passingScore } : {})
+        }
+      });
     });
+    await refreshLessonSearchIndex(req.prisma, [id]);
 
     await touchProgram(req.prisma, lesson.programId);
     clearProgramsCache();
@@ -881,7 +1121,7 @@ router.put('/lessons/:id', async (req, res, next) => {
   }
 });
 
-router.delete('/lessons/:id', async (req, res, next) => {
+router.delete('/lessons/:id', canEditContent, requireProgramAccess(programOfLesson), async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -890,7 +1130,9 @@ router.delete('/lessons/:id', async (req, res, next) => {
       where: { id },
       select: {
         programId: true, contentUrl: true, thumbnailUrl: true, type: true,
-        attachments: { select: { fileUrl: true } }
+        attachments: { select: { fileUrl: true } },
+        submissions: { select: { fileUrl: true } },
+        transcripts: { select: { fileUrl: true } }
       }
     });
 
@@ -902,6 +1144,8 @@ router.delete('/lessons/:id', async (req, res, next) => {
       const urls = [lesson.thumbnailUrl];
       if (lesson.type === 'PDF' && lesson.contentUrl) urls.push(lesson.contentUrl);
       for (const att of lesson.attachments) urls.push(att.fileUrl);
+      for (const sub of lesson.submissions) urls.push(sub.fileUrl);
+      for (const transcript of lesson.transcripts) urls.push(transcript.fileUrl);
       deleteR2Files(urls).catch(() => {});
     }
 
@@ -920,7 +1164,7 @@ router.delete('/lessons/:id', async (req, res, next) => {
  * PUT /admin/programs/:id/reorder
  * Reorder content items within a program
  */
-router.put('/:id/reorder', async (req, res, next) => {
+router.put('/:id/reorder', canEditContent, requireProgramAccess(programFromParam), async (req, res, next) => {
   try {
     const { id: programId } = req.params;
     const { items } = req.body;
@@ -972,18 +1216,40 @@ router.put('/:id/reorder', async (req, res, next) => {
     const ownedSubtopicIds = new Set(ownedSubtopics.map(s => s.id));
     const ownedLessonIds = new Set(ownedLessons.map(l => l.id));
 
-    // Resolve subtopic parents for lessons that move under subtopics
+    // Resolve the new parents; they must belong to this program too, so nothing
+    // moves under another program's topics
+    const topicParentIds = [
+      ...subtopicItems.filter(i => i.parentId).map(i => i.parentId),
+      ...lessonItems.filter(i => i.parentType === 'topic' && i.parentId).map(i => i.parentId)
+    ];
     const subtopicParentIds = lessonItems
       .filter(i => i.parentType === 'subtopic' && i.parentId)
       .map(i => i.parentId);
-    const subtopicParents = subtopicParentIds.length > 0
-      ? await req.prisma.subtopic.findMany({
-          where: { id: { in: subtopicParentIds } },
-          select: { id: true, topicId: true }
-        })
-      : [];
+    const [topicParents, subtopicParents] = await Promise.all([
+      topicParentIds.length > 0
+        ? req.prisma.topic.findMany({
+            where: { id: { in: topicParentIds }, programId },
+            select: { id: true }
+          })
+        : [],
+      subtopicParentIds.length > 0
+        ? req.prisma.subtopic.findMany({
+            where: { id: { in: subtopicParentIds }, topic: { programId } },
+            select: { id: true, topicId: true }
+          })
+        : []
+    ]);
+    const topicParentSet = new Set(topicParents.map(t => t.id));
     const subtopicTopicMap = Object.fromEntries(subtopicParents.map(s => [s.id, s.topicId]));
 
+    if (topicParentIds.some(parentId => !topicParentSet.has(parentId))
+      || subtopicParentIds.some(parentId => !subtopicTopicMap[parentId])) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Parent not found in this program' }
+      });
+    }
+
     // Build all update operations and run in a single transaction
     const updates = [];
 
@@ -1030,6 +1296,8 @@ router.put('/:id/reorder', async (req, res, next) => {
     if (updates.length > 0) {
       await req.prisma.$transaction(updates);
     }
+    // Moved lessons are indexed under their new topic
+    await refreshLessonSearchIndex(req.prisma, [...ownedLessonIds]);
 
     await touchProgram(req.prisma, programId);
 
@@ -1042,16 +1310,356 @@ router.put('/:id/reorder', async (req, res, next) => {
   }
 });
 
+// ==========================================
+// INSTALLMENT PLAN ROUTES
+// ==========================================
+
+/**
+ * GET /admin/programs/:id/installment-plans
+ * List a program's installment plans
+ */
+router.get('/:id/installment-plans', requirePermission('programs:view'), requireProgramAccess(programFromParam), async (req, res, next) => {
+  try {
+    const plans = await req.prisma.installmentPlan.findMany({
+      where: { programId: req.params.id },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: { plans: plans.map(formatPlan) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/programs/installment-plans
+ * Create an installment plan for a program
+ */
+router.post('/installment-plans', canManage, async (req, res, next) => {
+  try {
+    const { programId } = req.body;
+
+    const program = programId
+      ? await req.prisma.program.findUnique({ where: { id: programId }, select: { id: true } })
+      : null;
+    if (!program) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Program not found' }
+      });
+    }
+
+    const { data, error } = parsePlanInput(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const plan = await req.prisma.installmentPlan.create({
+      data: { programId, ...data }
+    });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'CREATE_INSTALLMENT_PLAN',
+      targetType: 'InstallmentPlan',
+      targetId: plan.id,
+      details: { programId, name: plan.name, installmentCount: plan.installmentCount },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { plan: formatPlan(plan) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /admin/programs/installment-plans/:id
+ * Update an installment plan — learners already on it keep their schedule
+ */
+router.put('/installment-plans/:id', canManage, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await req.prisma.installmentPlan.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Installment plan not found' }
+      });
+    }
+
+    const { data, error } = parsePlanInput(req.body, existing);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const plan = await req.prisma.installmentPlan.update({
+      where: { id },
+      data
+    });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'UPDATE_INSTALLMENT_PLAN',
+      targetType: 'InstallmentPlan',
+      targetId: id,
+      details: { programId: plan.programId, name: plan.name, ...diffChanges(existing, data) },
+    });
+
+    res.json({
+      success: true,
+      data: { plan: formatPlan(plan) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /admin/programs/installment-plans/:id
+ * Delete an installment plan nobody has used yet
+ */
+router.delete('/installment-plans/:id', canManage, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const plan = await req.prisma.installmentPlan.findUnique({
+      where: { id },
+      include: { _count: { select: { installments: true } } }
+    });
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Installment plan not found' }
+      });
+    }
+
+    if (plan._count.installments > 0) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'PLAN_IN_USE', message: 'Learners are paying with this plan. Deactivate it instead.' }
+      });
+    }
+
+    await req.prisma.installmentPlan.delete({ where: { id } });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'DELETE_INSTALLMENT_PLAN',
+      targetType: 'InstallmentPlan',
+      targetId: id,
+      details: { programId: plan.programId, name: plan.name },
+    });
+
+    res.json({ success: true, message: 'Installment plan deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==========================================
+// COHORT ROUTES
+// ==========================================
+
+/**
+ * GET /admin/programs/:id/cohorts
+ * List a program's cohorts, newest first
+ */
+router.get('/:id/cohorts', requirePermission('programs:view'), requireProgramAccess(programFromParam), async (req, res, next) => {
+  try {
+    const cohorts = await req.prisma.cohort.findMany({
+      where: { programId: req.params.id },
+      include: { _count: { select: { enrollments: true } } },
+      orderBy: { startDate: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { cohorts: cohorts.map(formatCohort) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/programs/cohorts
+ * Create a cohort for a program
+ */
+router.post('/cohorts', canManage, async (req, res, next) => {
+  try {
+    const { programId } = req.body;
+
+    const program = programId
+      ? await req.prisma.program.findUnique({ where: { id: programId }, select: { id: true } })
+      : null;
+    if (!program) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Program not found' }
+      });
+    }
+
+    const { data, error } = parseCohortInput(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const cohort = await req.prisma.cohort.create({
+      data: { programId, ...data }
+    });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'CREATE_COHORT',
+      targetType: 'Cohort',
+      targetId: cohort.id,
+      details: { programId, name: cohort.name },
+    });
+
+    clearProgramsCache();
+
+    res.status(201).json({
+      success: true,
+      data: { cohort: formatCohort(cohort) }
+    });
+  } catch (error) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'COHORT_EXISTS', message: 'This program already has a cohort with that name' }
+      });
+    }
+    next(error);
+  }
+});
+
+/**
+ * PUT /admin/programs/cohorts/:id
+ * Rename a cohort or change its dates
+ */
+router.put('/cohorts/:id', canManage, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await req.prisma.cohort.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Cohort not found' }
+      });
+    }
+
+    const { data, error } = parseCohortInput(req.body, existing);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    const cohort = await req.prisma.cohort.update({
+      where: { id },
+      data,
+      include: { _count: { select: { enrollments: true } } }
+    });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'UPDATE_COHORT',
+      targetType: 'Cohort',
+      targetId: id,
+      details: { programId: cohort.programId, name: cohort.name, ...diffChanges(existing, data) },
+    });
+
+    clearProgramsCache();
+
+    res.json({
+      success: true,
+      data: { cohort: formatCohort(cohort) }
+    });
+  } catch (error) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'COHORT_EXISTS', message: 'This program already has a cohort with that name' }
+      });
+    }
+    next(error);
+  }
+});
+
+/**
+ * DELETE /admin/programs/cohorts/:id
+ * Delete a cohort — its learners stay enrolled in the program without a cohort
+ */
+router.delete('/cohorts/:id', canManage, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const cohort = await req.prisma.cohort.findUnique({
+      where: { id },
+      include: { _count: { select: { sessionPrograms: true } } }
+    });
+    if (!cohort) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Cohort not found' }
+      });
+    }
+
+    // Deleting would silently drop the cohort from those sessions' audience
+    if (cohort._count.sessionPrograms > 0) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'COHORT_IN_USE', message: 'Live sessions are scheduled for this cohort. Retarget them first.' }
+      });
+    }
+
+    await req.prisma.cohort.delete({ where: { id } });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'DELETE_COHORT',
+      targetType: 'Cohort',
+      targetId: id,
+      details: { programId: cohort.programId, name: cohort.name },
+    });
+
+    clearProgramsCache();
+
+    res.json({ success: true, message: 'Cohort deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /admin/programs/:id/learners
- * Get learners enrolled in a program
+ * Get learners enrolled in a program, optionally only one cohort (?cohortId=)
  */
-router.get('/:id/learners', async (req, res, next) => {
+router.get('/:id/learners', requirePermission('learners:view'), async (req, res, next) => {
   try {
     const { id } = req.params;
+    const { cohortId } = req.query;
 
     const enrollments = await req.prisma.enrollment.findMany({
-      where: { programId: id },
+      where: { programId: id, ...(cohortId && { cohortId }) },
       include: {
         user: {
           select: {
@@ -1060,11 +1668,12 @@ router.get('/:id/learners', async (req, res, next) => {
             name: true,
             status: true
           }
-        }
+        },
+        cohort: { select: { id: true, name: true } }
       }
     });
 
-    const learners = enrollments.map(e => e.user);
+    const learners = enrollments.map(e => ({ ...e.user, cohort: e.cohort || null }));
 
     res.json({
       success: true,
@@ -1075,8 +1684,102 @@ router.get('/:id/learners', async (req, res, next) => {
   }
 });
 
+// ==========================================
+// INSTRUCTOR ROUTES
+// ==========================================
+
+/**
+ * GET /admin/programs/:id/instructors
+ * Instructors assigned to a program, plus every instructor account to pick from
+ */
+router.get('/:id/instructors', canManage, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const [assignments, available] = await Promise.all([
+      req.prisma.programInstructor.findMany({
+        where: { programId: id },
+        include: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      req.prisma.user.findMany({
+        where: { role: 'INSTRUCTOR' },
+        select: { id: true, name: true, email: true },
+        orderBy: { name: 'asc' }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: { instructors: assignments.map(a => a.user), available }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /admin/programs/:id/instructors
+ * Replace a program's instructors: { userIds: [...] }
+ */
+router.put('/:id/instructors', canManage, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { userIds } = req.body;
+
+    if (!Array.isArray(userIds)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'userIds must be an array' }
+      });
+    }
+
+    const program = await req.prisma.program.findUnique({
+      where: { id },
+      select: { id: true, name: true }
+    });
+    if (!program) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Program not found' }
+      });
+    }
+
+    const ids = [...new Set(userIds)];
+    const instructors = await req.prisma.user.findMany({
+      where: { id: { in: ids }, role: 'INSTRUCTOR' },
+      select: { id: true, name: true, email: true }
+    });
+    if (instructors.length !== ids.length) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Only instructor accounts can be assigned' }
+      });
+    }
+
+    await req.prisma.$transaction([
+      req.prisma.programInstructor.deleteMany({ where: { programId: id } }),
+      req.prisma.programInstructor.createMany({
+        data: ids.map(userId => ({ programId: id, userId }))
+      })
+    ]);
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'UPDATE_PROGRAM_INSTRUCTORS',
+      targetType: 'Program',
+      targetId: id,
+      details: { name: program.name, instructors: instructors.map(i => i.email) },
+    });
+
+    res.json({ success: true, data: { instructors } });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Lesson attachments
-router.post('/lessons/:id/attachments', async (req, res, next) => {
+router.post('/lessons/:id/attachments', canEditContent, requireProgramAccess(programOfLesson), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { name, fileUrl, fileType } = req.body;
@@ -1084,6 +1787,7 @@ router.post('/lessons/:id/attachments', async (req, res, next) => {
     const attachment = await req.prisma.lessonAttachment.create({
       data: { lessonId: id, name, fileUrl, fileType }
     });
+    await refreshLessonSearchIndex(req.prisma, [id]);
 
     res.status(201).json({ success: true, data: { attachment } });
   } catch (error) {
@@ -1091,17 +1795,18 @@ router.post('/lessons/:id/attachments', async (req, res, next) => {
   }
 });
 
-router.delete('/attachments/:id', async (req, res, next) => {
+router.delete('/attachments/:id', canEditContent, requireProgramAccess(programOfAttachment), async (req, res, next) => {
   try {
     const { id } = req.params;
 
     // Get URL before deletion
     const attachment = await req.prisma.lessonAttachment.findUnique({
       where: { id },
-      select: { fileUrl: true }
+      select: { fileUrl: true, lessonId: true }
     });
 
     await req.prisma.lessonAttachment.delete({ where: { id } });
+    if (attachment) await refreshLessonSearchIndex(req.prisma, [attachment.lessonId]);
 
     // Clean up R2 file
     if (attachment?.fileUrl) {
@@ -1114,4 +1819,148 @@ router.delete('/attachments/:id', async (req, res, next) => {
   }
 });
 
+// ==========================================
+// TRANSCRIPTS
+// ==========================================
+
+/**
+ * POST /admin/programs/lessons/:id/transcripts
+ * Upload a WebVTT or SRT caption file for a video lesson (multipart:
+ * file, language, label). Replaces the lesson's transcript in that language.
+ */
+router.post('/lessons/:id/transcripts', canEditContent, requireProgramAccess(programOfLesson), uploadCaptionFile, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const language = typeof req.body.language === 'string' && req.body.language.trim() ? req.body.language.trim() : 'en';
+    const label = typeof req.body.label === 'string' && req.body.label.trim() ? req.body.label.trim() : language.toUpperCase();
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'No file provided' }
+      });
+    }
+    if (!/\.(vtt|srt)$/i.test(req.file.originalname)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'File must be a WebVTT (.vtt) or SRT (.srt) file' }
+      });
+    }
+    if (!/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(language) || label.length > 50) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Language must be a code such as "en" or "pt-BR", with a label of up to 50 characters' }
+      });
+    }
+
+    const lesson = await req.prisma.lesson.findUnique({
+      where: { id },
+      select: { id: true, title: true, type: true, programId: true, contentUrl: true }
+    });
+    if (!lesson) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Lesson not found' }
+      });
+    }
+    if (lesson.type !== 'VIDEO') {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Transcripts can only be added to video lessons' }
+      });
+    }
+
+    const content = req.file.buffer.toString('utf8');
+    const { format, cues, error } = parseCaptionFile(content);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: error }
+      });
+    }
+
+    // Stored as WebVTT, the format browsers and Bunny's player read
+    const vtt = format === 'VTT' ? content : buildWebVtt(cues);
+    const fileUrl = await uploadR2File(`transcripts/${uuidv4()}.vtt`, vtt, 'text/vtt');
+
+    const existing = await req.prisma.lessonTranscript.findUnique({
+      where: { lessonId_language: { lessonId: id, language } },
+      select: { fileUrl: true }
+    });
+
+    const data = { label, fileUrl, cues, text: transcriptText(cues) };
+    const transcript = await req.prisma.lessonTranscript.upsert({
+      where: { lessonId_language: { lessonId: id, language } },
+      create: { lessonId: id, language, ...data },
+      update: data,
+      select: TRANSCRIPT_SELECT
+    });
+    await refreshTranscriptIndex(req.prisma, id);
+
+    if (existing?.fileUrl) {
+      deleteR2File(existing.fileUrl).catch(() => {});
+    }
+    syncBunnyCaptions(lesson.contentUrl, { language, label, vtt });
+
+    await touchProgram(req.prisma, lesson.programId);
+    clearProgramsCache();
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: existing ? 'REPLACE_TRANSCRIPT' : 'ADD_TRANSCRIPT',
+      targetType: 'Lesson',
+      targetId: id,
+      details: { programId: lesson.programId, lessonTitle: lesson.title, language, cueCount: cues.length },
+    });
+
+    res.status(existing ? 200 : 201).json({ success: true, data: { transcript } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /admin/programs/transcripts/:id
+ * Remove a transcript and its caption track
+ */
+router.delete('/transcripts/:id', canEditContent, requireProgramAccess(programOfTranscript), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const transcript = await req.prisma.lessonTranscript.findUnique({
+      where: { id },
+      select: {
+        language: true, fileUrl: true,
+        lesson: { select: { id: true, title: true, programId: true, contentUrl: true } }
+      }
+    });
+    if (!transcript) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Transcript not found' }
+      });
+    }
+
+    await req.prisma.lessonTranscript.delete({ where: { id } });
+
+    deleteR2File(transcript.fileUrl).catch(() => {});
+    removeBunnyCaptions(transcript.lesson.contentUrl, transcript.language);
+
+    await touchProgram(req.prisma, transcript.lesson.programId);
+    clearProgramsCache();
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'DELETE_TRANSCRIPT',
+      targetType: 'Lesson',
+      targetId: transcript.lesson.id,
+      details: { programId: transcript.lesson.programId, lessonTitle: transcript.lesson.title, language: transcript.language },
+    });
+
+    res.json({ success: true, message: 'Transcript deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 module.exports = router;
@@ -1,10 +1,11 @@
 const express = require('express');
 const router = express.Router();
-const { authenticate, requireAdmin } = require('../../middleware/auth');
+const { authenticate, requireStaff } = require('../../middleware/auth');
+const { hasPermission, getProgramScope } = require('../../utils/permissions');
 
 // Apply auth to all routes
 router.use(authenticate);
-router.use(requireAdmin);
+router.use(requireStaff);
 
 /**
  * GET /admin/search
@@ -21,9 +22,13 @@ router.get('/', async (req, res, next) => {
     const searchTerm = q.trim().toLowerCase();
     const resultLimit = Math.min(parseInt(limit), 20);
 
+    // Instructors only find their own programs and lessons
+    const scope = await getProgramScope(req);
+
     // Search programs
     const programs = await req.prisma.program.findMany({
       where: {
+        ...(scope && { id: { in: scope } }),
         OR: [
           { name: { contains: searchTerm, mode: 'insensitive' } },
           { description: { contains: searchTerm, mode: 'insensitive' } }
@@ -38,8 +43,8 @@ router.get('/', async (req, res, next) => {
       take: resultLimit
     });
 
-    // Search learners
-    const learners = await req.prisma.user.findMany({
+    // Search learners (staff who may view them)
+    const learners = hasPermission(req.user.role, 'learners:view') ? await req.prisma.user.findMany({
       where: {
         role: 'LEARNER',
         OR: [
@@ -53,11 +58,12 @@ router.get('/', async (req, res, next) => {
         email: true
       },
       take: resultLimit
-    });
+    }) : [];
 
     // Search lessons
     const lessons = await req.prisma.lesson.findMany({
       where: {
+        ...(scope && { programId: { in: scope } }),
         OR: [
           { title: { contains: searchTerm, mode: 'insensitive' } },
           { contentText: { contains: searchTerm, mode: 'insensitive' } }
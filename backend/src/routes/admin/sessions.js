@@ -1,18 +1,209 @@
 // Admin Session Routes
 const express = require('express');
 const router = express.Router();
-const { authenticate, requireAdmin } = require('../../middleware/auth');
-const { expandRecurringSession } = require('../../utils/recurrence');
+const { authenticate, requireStaff, requirePermission, requireProgramAccess } = require('../../middleware/auth');
+const {
+  expandRecurringSession,
+  splitSeriesRule,
+  occurrenceKey,
+  toDateKey,
+  validateRule,
+  isValidTimezone
+} = require('../../utils/recurrence');
 const { parsePagination } = require('../../utils/pagination');
+const { resolveSessionTargets, sessionAudienceWhere, sessionTargetLabel } = require('../../utils/cohorts');
+const {
+  findOccurrence,
+  listStartedOccurrences,
+  findAttendanceRoster,
+  buildAttendanceReport,
+  attendanceCsvColumns
+} = require('../../utils/attendance');
+const { toCsv } = require('../../utils/csv');
+const { logAudit } = require('../../utils/audit');
+const { clearProgramsCache, touchProgram, notifyNewLesson } = require('../../utils/lessons');
+const { refreshLessonSearchIndex } = require('../../utils/search');
+const { getProgramScope } = require('../../utils/permissions');
 
 router.use(authenticate);
-router.use(requireAdmin);
+router.use(requireStaff);
+
+const EDIT_MODES = ['single', 'following', 'all'];
+
+// Instructors only see sessions whose every target is one of their programs
+function sessionScopeWhere(scope) {
+  return scope ? { sessionPrograms: { some: {}, every: { programId: { in: scope } } } } : {};
+}
+
+// Programs targeted by a session create/update body (none = all programs)
+async function programsOfTargets(prisma, programIds = [], cohortIds = []) {
+  if (!Array.isArray(programIds) || !Array.isArray(cohortIds)) return [null];
+  const cohorts = cohortIds.length > 0
+    ? await prisma.cohort.findMany({ where: { id: { in: cohortIds } }, select: { programId: true } })
+    : [];
+  const ids = [...programIds, ...cohorts.map(cohort => cohort.programId)];
+  return ids.length > 0 ? ids : [null];
+}
+
+// Programs a session targets, for requireProgramAccess
+async function programsOfSession(req) {
+  const session = await req.prisma.session.findUnique({
+    where: { id: req.params.id },
+    select: { sessionPrograms: { select: { programId: true } } }
+  });
+  if (!session) return null;
+  const ids = session.sessionPrograms.map(sp => sp.programId);
+  return ids.length > 0 ? ids : [null];
+}
+
+const programsOfSessionBody = (req) => programsOfTargets(req.prisma, req.body.programIds, req.body.cohortIds);
+
+// Both the session's current targets and any new ones
+async function programsOfSessionUpdate(req) {
+  const current = await programsOfSession(req);
+  if (!current) return null;
+  const { programIds, cohortIds } = req.body;
+  if (programIds === undefined && cohortIds === undefined) return current;
+  return [...current, ...await programsOfTargets(req.prisma, programIds, cohortIds)];
+}
+
+const canView = requirePermission('sessions:view');
+const canEdit = requirePermission('sessions:edit');
+
+// Active learners a session reaches (one enrollment per learner), from its SessionProgram rows
+function findSessionAudience(prisma, sessionPrograms) {
+  return prisma.enrollment.findMany({
+    where: { ...sessionAudienceWhere(sessionPrograms), user: { status: 'ACTIVE' } },
+    select: { userId: true, programId: true },
+    distinct: ['userId']
+  });
+}
+
+// "Session Updated" notifications after a time or meeting link change (async, doesn't block the response)
+function notifySessionUpdate(prisma, targets, { sessionId, name, startTime, meetLink }) {
+  (async () => {
+    try {
+      const enrolledUsers = await findSessionAudience(prisma, targets);
+
+      // Format session time for notification message
+      const sessionDate = new Date(startTime);
+      const dateStr = sessionDate.toLocaleDateString('en-US', {
+        weekday: 'long',
+        month: 'short',
+        day: 'numeric'
+      });
+      const timeStr = sessionDate.toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit'
+      });
+
+      // Create notifications
+      if (enrolledUsers.length > 0) {
+        await prisma.notification.createMany({
+          data: enrolledUsers.map(enrollment => ({
+            userId: enrollment.userId,
+            type: 'NEW_SESSION',
+            title: 'Session Updated',
+            message: `${name} - ${dateStr} at ${timeStr}`,
+            data: {
+              sessionId,
+              programId: enrollment.programId,
+              startTime,
+              meetLink,
+              isUpdate: true
+            }
+          }))
+        });
+      }
+    } catch (err) {
+      console.error('Failed to send session update notifications:', err);
+    }
+  })();
+}
+
+// Error message for an invalid recurrence rule or timezone, or null
+function recurrenceError({ isRecurring, recurrenceRule, timezone }) {
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    return 'timezone must be an IANA timezone such as Asia/Kolkata';
+  }
+  if (isRecurring && recurrenceRule) {
+    return validateRule(recurrenceRule).error || null;
+  }
+  return null;
+}
+
+function isValidVideoUrl(value) {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Recording of an occurrence for the admin list, with the lessons it was published as
+function formatRecording(recording) {
+  if (!recording) return null;
+  return {
+    id: recording.id,
+    videoUrl: recording.videoUrl,
+    durationSeconds: recording.durationSeconds,
+    lessons: (recording.lessons || []).map(lesson => ({
+      id: lesson.id,
+      programId: lesson.programId,
+      topicId: lesson.topicId,
+      title: lesson.title
+    }))
+  };
+}
+
+function parseDateParam(value) {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Attendance report for a session's started occurrences in ?from=&to=,
+ * or { error } when the session is missing or the range is invalid
+ */
+async function loadAttendanceReport(prisma, id, query) {
+  const from = parseDateParam(query.from);
+  const to = parseDateParam(query.to);
+  if (from === undefined || to === undefined) {
+    return { status: 400, code: 'VALIDATION_ERROR', message: 'from and to must be valid dates' };
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id },
+    include: {
+      sessionPrograms: { select: { programId: true, cohortId: true } },
+      overrides: true
+    }
+  });
+  if (!session) {
+    return { status: 404, code: 'NOT_FOUND', message: 'Session not found' };
+  }
+
+  const occurrences = listStartedOccurrences(session, from, to);
+  const [roster, records] = await Promise.all([
+    findAttendanceRoster(prisma, session),
+    prisma.sessionAttendance.findMany({
+      where: {
+        sessionId: id,
+        occurrenceDate: { in: occurrences.map(occurrenceKey) }
+      },
+      include: { user: { select: { name: true, email: true } } }
+    })
+  ]);
+
+  return { session, report: buildAttendanceReport(occurrences, roster, records) };
+}
 
 /**
  * GET /admin/sessions
  * List all sessions
  */
-router.get('/', async (req, res, next) => {
+router.get('/', canView, async (req, res, next) => {
   try {
     const { from, to, programId } = req.query;
     const { page, limit } = parsePagination(req.query, { defaultLimit: 50 });
@@ -49,21 +240,29 @@ router.get('/', async (req, res, next) => {
       whereConditions.push({ ...programFilter });
     }
 
-    const where = whereConditions.length === 1
+    const scope = await getProgramScope(req);
+    const dateWhere = whereConditions.length === 1
       ? whereConditions[0]
       : { OR: whereConditions };
+    const where = scope ? { AND: [dateWhere, sessionScopeWhere(scope)] } : dateWhere;
 
     const sessions = await req.prisma.session.findMany({
       where,
       include: {
         sessionPrograms: {
           include: {
-            program: { select: { name: true } }
+            program: { select: { name: true } },
+            cohort: { select: { name: true } }
           }
+        },
+        overrides: true,
+        recordings: {
+          include: { lessons: { select: { id: true, programId: true, topicId: true, title: true } } }
         }
       },
       orderBy: { startTime: 'asc' }
     });
+    const seriesById = new Map(sessions.map(session => [session.id, session]));
 
     // Expand recurring sessions into occurrences within the date range
     let expandedSessions = [];
@@ -96,9 +295,22 @@ router.get('/', async (req, res, next) => {
       meetLink: session.meetLink,
       isRecurring: session.isRecurring,
       recurrenceRule: session.recurrenceRule,
+      timezone: session.timezone,
+      // Occurrences of a series: their key for single-occurrence edits, and the series' own times
+      ...(session.isRecurring && {
+        occurrenceDate: occurrenceKey(session),
+        isModified: !!session.isModified,
+        seriesStartTime: seriesById.get(session.id).startTime,
+        seriesEndTime: seriesById.get(session.id).endTime
+      }),
+      recording: formatRecording((session.recordings || []).find(r => r.occurrenceDate === occurrenceKey(session))),
       programs: session.sessionPrograms.length === 0
         ? ['All Programs']
-        : session.sessionPrograms.map(sp => sp.program?.name || 'All Programs')
+        : session.sessionPrograms.map(sessionTargetLabel),
+      // Whole programs ({ programId }) and cohorts ({ programId, cohortId }); empty = all programs
+      targets: session.sessionPrograms
+        .filter(sp => sp.programId)
+        .map(sp => ({ programId: sp.programId, cohortId: sp.cohortId || null }))
     }));
 
     res.json({
@@ -122,7 +334,7 @@ router.get('/', async (req, res, next) => {
  * POST /admin/sessions
  * Create new session
  */
-router.post('/', async (req, res, next) => {
+router.post('/', canEdit, requireProgramAccess(programsOfSessionBody), async (req, res, next) => {
   try {
     const { 
       name, 
@@ -132,7 +344,9 @@ router.post('/', async (req, res, next) => {
       meetLink, 
       isRecurring = false, 
       recurrenceRule,
-      programIds = [] // Empty array = all programs
+      timezone,
+      programIds = [], // Empty arrays = all programs
+      cohortIds = []
     } = req.body;
 
     if (!name || !startTime) {
@@ -142,6 +356,22 @@ router.post('/', async (req, res, next) => {
       });
     }
 
+    const ruleError = recurrenceError({ isRecurring, recurrenceRule, timezone });
+    if (ruleError) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: ruleError }
+      });
+    }
+
+    const { targets, error: targetError } = await resolveSessionTargets(req.prisma, programIds, cohortIds);
+    if (targetError) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: targetError }
+      });
+    }
+
     const session = await req.prisma.session.create({
       data: {
         name,
@@ -151,15 +381,19 @@ router.post('/', async (req, res, next) => {
         meetLink,
         isRecurring,
         recurrenceRule,
+        timezone,
         sessionPrograms: {
-          create: programIds.length > 0
-            ? programIds.map(programId => ({ programId }))
+          create: targets.length > 0
+            ? targets
             : [{ programId: null }] // null = all programs
         }
       },
       include: {
         sessionPrograms: {
-          include: { program: { select: { id: true, name: true } } }
+          include: {
+            program: { select: { id: true, name: true } },
+            cohort: { select: { id: true, name: true } }
+          }
         }
       }
     });
@@ -168,26 +402,7 @@ router.post('/', async (req, res, next) => {
     const prisma = req.prisma;
     (async () => {
       try {
-        let enrolledUsers;
-
-        if (programIds.length === 0) {
-          // Session for all programs - notify all active enrolled learners
-          enrolledUsers = await prisma.enrollment.findMany({
-            where: { user: { status: 'ACTIVE' } },
-            select: { userId: true, programId: true },
-            distinct: ['userId']
-          });
-        } else {
-          // Session for specific programs - notify active learners enrolled in those programs
-          enrolledUsers = await prisma.enrollment.findMany({
-            where: {
-              programId: { in: programIds },
-              user: { status: 'ACTIVE' }
-            },
-            select: { userId: true, programId: true },
-            distinct: ['userId']
-          });
-        }
+        const enrolledUsers = await findSessionAudience(prisma, targets);
 
         // Format session time for notification message
         const sessionDate = new Date(startTime);
@@ -232,11 +447,61 @@ router.post('/', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /admin/sessions/recurrence/preview
+ * Next occurrences of a recurrence rule (?startTime=&endTime=&recurrenceRule=&timezone=&count=),
+ * for previewing a schedule before saving it
+ */
+router.get('/recurrence/preview', canEdit, async (req, res, next) => {
+  try {
+    const { startTime, endTime, recurrenceRule, timezone = 'UTC' } = req.query;
+    const count = Math.min(Math.max(parseInt(req.query.count, 10) || 5, 1), 20);
+
+    const start = parseDateParam(startTime);
+    const end = parseDateParam(endTime);
+    if (!start || end === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'startTime must be a valid date' }
+      });
+    }
+
+    const ruleError = recurrenceError({ timezone }) || validateRule(recurrenceRule).error;
+    if (ruleError) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: ruleError }
+      });
+    }
+
+    // Upcoming occurrences only, once the series has started
+    const now = new Date();
+    const rangeStart = start > now ? start : now;
+    const rangeEnd = new Date(rangeStart);
+    rangeEnd.setUTCFullYear(rangeEnd.getUTCFullYear() + 2);
+
+    const occurrences = expandRecurringSession(
+      { isRecurring: true, recurrenceRule, timezone, startTime: start, endTime: end, excludedDates: [] },
+      rangeStart,
+      rangeEnd
+    );
+
+    res.json({
+      success: true,
+      data: {
+        occurrences: occurrences.slice(0, count).map(o => ({ startTime: o.startTime, endTime: o.endTime }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /admin/sessions/:id
  * Get session details
  */
-router.get('/:id', async (req, res, next) => {
+router.get('/:id', canView, requireProgramAccess(programsOfSession), async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -244,7 +509,10 @@ router.get('/:id', async (req, res, next) => {
       where: { id },
       include: {
         sessionPrograms: {
-          include: { program: { select: { id: true, name: true } } }
+          include: {
+            program: { select: { id: true, name: true } },
+            cohort: { select: { id: true, name: true } }
+          }
         }
       }
     });
@@ -267,9 +535,11 @@ router.get('/:id', async (req, res, next) => {
 
 /**
  * PUT /admin/sessions/:id
- * Update session
+ * Update session. For recurring sessions, editMode picks what changes:
+ * "single" (the occurrence on occurrenceDate), "following" (that occurrence
+ * and the rest of the series) or "all" (default)
  */
-router.put('/:id', async (req, res, next) => {
+router.put('/:id', canEdit, requireProgramAccess(programsOfSessionUpdate), async (req, res, next) => {
   try {
     const { id } = req.params;
     const {
@@ -280,19 +550,193 @@ router.put('/:id', async (req, res, next) => {
       meetLink,
       isRecurring,
       recurrenceRule,
-      programIds
+      timezone,
+      programIds,
+      cohortIds,
+      editMode = 'all',
+      occurrenceDate
     } = req.body;
 
+    if (!EDIT_MODES.includes(editMode)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `editMode must be one of ${EDIT_MODES.join(', ')}` }
+      });
+    }
+
+    const ruleError = recurrenceError({ isRecurring: isRecurring !== false, recurrenceRule, timezone });
+    if (ruleError) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: ruleError }
+      });
+    }
+
     // Get current session to compare changes
     const oldSession = await req.prisma.session.findUnique({
       where: { id },
       include: {
-        sessionPrograms: { select: { programId: true } }
+        sessionPrograms: { select: { programId: true, cohortId: true } },
+        overrides: true
       }
     });
 
+    if (!oldSession) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Session not found' }
+      });
+    }
+
+    // Targets are replaced when either list is sent
+    let targets;
+    if (programIds !== undefined || cohortIds !== undefined) {
+      const resolved = await resolveSessionTargets(req.prisma, programIds || [], cohortIds || []);
+      if (resolved.error) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: resolved.error }
+        });
+      }
+      targets = resolved.targets;
+    }
+
+    let occurrence = null;
+    if (oldSession.isRecurring && editMode !== 'all') {
+      occurrence = findOccurrence(oldSession, occurrenceDate);
+      if (!occurrence) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Session occurrence not found' }
+        });
+      }
+    }
+
+    const prisma = req.prisma;
+
+    // This occurrence only: store what differs from the series as an override
+    if (occurrence && editMode === 'single') {
+      const start = startTime ? parseDateParam(startTime) : new Date(occurrence.startTime);
+      const requestedEnd = endTime ? parseDateParam(endTime) : null;
+      if (!start || requestedEnd === undefined) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'startTime and endTime must be valid dates' }
+        });
+      }
+      // Moving only the start keeps the occurrence's length
+      const duration = occurrence.endTime
+        ? new Date(occurrence.endTime).getTime() - new Date(occurrence.startTime).getTime()
+        : null;
+      const end = endTime !== undefined
+        ? requestedEnd
+        : (duration !== null ? new Date(start.getTime() + duration) : null);
+      if (end && end <= start) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'End time must be after the start time' }
+        });
+      }
+      // Unchanged fields stay null so later edits to the series still reach this occurrence
+      const ownValue = (value, seriesValue) => (value === undefined ? undefined : value !== seriesValue ? value : null);
+      const changes = {
+        startTime: start,
+        endTime: end,
+        name: ownValue(name, oldSession.name),
+        description: ownValue(description, oldSession.description),
+        meetLink: ownValue(meetLink, oldSession.meetLink)
+      };
+
+      const override = await prisma.sessionOccurrenceOverride.upsert({
+        where: { sessionId_occurrenceDate: { sessionId: id, occurrenceDate } },
+        create: { sessionId: id, occurrenceDate, ...changes },
+        update: changes
+      });
+
+      const updated = findOccurrence({ ...oldSession, overrides: [override] }, occurrenceDate);
+      const timeChanged = start.getTime() !== new Date(occurrence.startTime).getTime()
+        || (end && end.getTime()) !== (occurrence.endTime && new Date(occurrence.endTime).getTime());
+      if (timeChanged || updated.meetLink !== occurrence.meetLink) {
+        notifySessionUpdate(prisma, oldSession.sessionPrograms, {
+          sessionId: id,
+          name: updated.name,
+          startTime: updated.startTime,
+          meetLink: updated.meetLink
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { session: oldSession, override }
+      });
+    }
+
+    // This and following occurrences: end the series the day before and continue it as a new session
+    if (occurrence && editMode === 'following' && occurrenceDate !== toDateKey(oldSession.startTime)) {
+      const split = splitSeriesRule(oldSession, occurrenceDate);
+      const excludedDates = Array.isArray(oldSession.excludedDates) ? oldSession.excludedDates : [];
+      const duration = oldSession.endTime ? oldSession.endTime.getTime() - oldSession.startTime.getTime() : null;
+
+      const newTargets = targets || oldSession.sessionPrograms.map(sp => ({ programId: sp.programId, cohortId: sp.cohortId }));
+      const session = await prisma.$transaction(async (tx) => {
+        await tx.session.update({
+          where: { id },
+          data: {
+            recurrenceRule: split.before,
+            excludedDates: excludedDates.filter(date => date < occurrenceDate)
+          }
+        });
+
+        const created = await tx.session.create({
+          data: {
+            name: name ?? oldSession.name,
+            description: description ?? oldSession.description,
+            startTime: startTime ? new Date(startTime) : split.startTime,
+            endTime: endTime !== undefined
+              ? (endTime ? new Date(endTime) : null)
+              : (duration !== null ? new Date(split.startTime.getTime() + duration) : null),
+            meetLink: meetLink ?? oldSession.meetLink,
+            isRecurring: isRecurring ?? true,
+            // An unchanged rule keeps what was left of its COUNT
+            recurrenceRule: recurrenceRule && recurrenceRule !== oldSession.recurrenceRule ? recurrenceRule : split.after,
+            timezone: timezone ?? oldSession.timezone,
+            excludedDates: excludedDates.filter(date => date >= occurrenceDate),
+            sessionPrograms: {
+              create: newTargets.length > 0 ? newTargets : [{ programId: null }]
+            }
+          }
+        });
+
+        // What was recorded against the moved occurrences follows them, so nobody is reminded twice.
+        // The edited occurrence's own override is replaced by this edit; later ones carry over.
+        const moved = { occurrenceDate: { gte: occurrenceDate } };
+        await tx.sessionOccurrenceOverride.deleteMany({ where: { sessionId: id, occurrenceDate } });
+        await tx.sessionOccurrenceOverride.updateMany({
+          where: { sessionId: id, occurrenceDate: { gt: occurrenceDate } },
+          data: { sessionId: created.id }
+        });
+        await tx.sessionReminder.updateMany({ where: { sessionId: id, ...moved }, data: { sessionId: created.id } });
+        await tx.sessionAttendance.updateMany({ where: { sessionId: id, ...moved }, data: { sessionId: created.id } });
+        await tx.sessionRecording.updateMany({ where: { sessionId: id, ...moved }, data: { sessionId: created.id } });
+
+        return created;
+      });
+
+      notifySessionUpdate(prisma, newTargets, {
+        sessionId: session.id,
+        name: session.name,
+        startTime: session.startTime,
+        meetLink: session.meetLink
+      });
+
+      return res.json({
+        success: true,
+        data: { session }
+      });
+    }
+
     // Update session
-    const session = await req.prisma.session.update({
+    const session = await prisma.session.update({
       where: { id },
       data: {
         name,
@@ -301,21 +745,22 @@ router.put('/:id', async (req, res, next) => {
         endTime: endTime ? new Date(endTime) : undefined,
         meetLink,
         isRecurring,
-        recurrenceRule
+        recurrenceRule,
+        timezone
       }
     });
 
-    // Update program associations if provided
-    if (programIds !== undefined) {
+    // Update program and cohort associations if provided
+    if (targets) {
       // Delete existing associations
-      await req.prisma.sessionProgram.deleteMany({
+      await prisma.sessionProgram.deleteMany({
         where: { sessionId: id }
       });
 
       // Create new associations
-      await req.prisma.sessionProgram.createMany({
-        data: programIds.length > 0
-          ? programIds.map(programId => ({ sessionId: id, programId }))
+      await prisma.sessionProgram.createMany({
+        data: targets.length > 0
+          ? targets.map(target => ({ sessionId: id, ...target }))
           : [{ sessionId: id, programId: null }]
       });
     }
@@ -327,68 +772,15 @@ router.put('/:id', async (req, res, next) => {
       (endTime && !oldSession.endTime) || (!endTime && oldSession.endTime)
     );
     const linkChanged = meetLink !== undefined && meetLink !== oldSession.meetLink;
-    const shouldNotify = startChanged || endChanged || linkChanged;
-
-    const prisma = req.prisma;
-    const finalProgramIds = programIds !== undefined ? programIds : oldSession.sessionPrograms.map(sp => sp.programId).filter(Boolean);
-
-    if (shouldNotify) (async () => {
-      try {
-        let enrolledUsers;
-
-        if (finalProgramIds.length === 0) {
-          // Session for all programs
-          enrolledUsers = await prisma.enrollment.findMany({
-            where: { user: { status: 'ACTIVE' } },
-            select: { userId: true, programId: true },
-            distinct: ['userId']
-          });
-        } else {
-          // Session for specific programs
-          enrolledUsers = await prisma.enrollment.findMany({
-            where: {
-              programId: { in: finalProgramIds },
-              user: { status: 'ACTIVE' }
-            },
-            select: { userId: true, programId: true },
-            distinct: ['userId']
-          });
-        }
 
-        // Format session time for notification message
-        const sessionDate = new Date(startTime || session.startTime);
-        const dateStr = sessionDate.toLocaleDateString('en-US', {
-          weekday: 'long',
-          month: 'short',
-          day: 'numeric'
-        });
-        const timeStr = sessionDate.toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit'
-        });
-
-        // Create notifications
-        if (enrolledUsers.length > 0) {
-          await prisma.notification.createMany({
-            data: enrolledUsers.map(enrollment => ({
-              userId: enrollment.userId,
-              type: 'NEW_SESSION',
-              title: 'Session Updated',
-              message: `${name || session.name} - ${dateStr} at ${timeStr}`,
-              data: {
-                sessionId: session.id,
-                programId: enrollment.programId,
-                startTime: session.startTime,
-                meetLink: meetLink || session.meetLink,
-                isUpdate: true
-              }
-            }))
-          });
-        }
-      } catch (err) {
-        console.error('Failed to send session update notifications:', err);
-      }
-    })();
+    if (startChanged || endChanged || linkChanged) {
+      notifySessionUpdate(prisma, targets || oldSession.sessionPrograms, {
+        sessionId: session.id,
+        name: name || session.name,
+        startTime: session.startTime,
+        meetLink: meetLink || session.meetLink
+      });
+    }
 
     res.json({
       success: true,
@@ -404,7 +796,7 @@ router.put('/:id', async (req, res, next) => {
  * DELETE /admin/sessions/:id
  * Delete session
  */
-router.delete('/:id', async (req, res, next) => {
+router.delete('/:id', canEdit, requireProgramAccess(programsOfSession), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { deleteMode, occurrenceDate } = req.query;
@@ -413,7 +805,7 @@ router.delete('/:id', async (req, res, next) => {
     const session = await req.prisma.session.findUnique({
       where: { id },
       include: {
-        sessionPrograms: { select: { programId: true } }
+        sessionPrograms: { select: { programId: true, cohortId: true } }
       }
     });
 
@@ -435,6 +827,9 @@ router.delete('/:id', async (req, res, next) => {
         where: { id },
         data: { excludedDates }
       });
+      await req.prisma.sessionOccurrenceOverride.deleteMany({
+        where: { sessionId: id, occurrenceDate: dateKey }
+      });
 
       return res.json({
         success: true,
@@ -449,30 +844,9 @@ router.delete('/:id', async (req, res, next) => {
 
     // Send cancellation notifications (async, don't block response)
     const prisma = req.prisma;
-    const programIds = session.sessionPrograms.map(sp => sp.programId).filter(Boolean);
-
     (async () => {
       try {
-        let enrolledUsers;
-
-        if (programIds.length === 0) {
-          // Session was for all programs
-          enrolledUsers = await prisma.enrollment.findMany({
-            where: { user: { status: 'ACTIVE' } },
-            select: { userId: true, programId: true },
-            distinct: ['userId']
-          });
-        } else {
-          // Session was for specific programs
-          enrolledUsers = await prisma.enrollment.findMany({
-            where: {
-              programId: { in: programIds },
-              user: { status: 'ACTIVE' }
-            },
-            select: { userId: true, programId: true },
-            distinct: ['userId']
-          });
-        }
+        const enrolledUsers = await findSessionAudience(prisma, session.sessionPrograms);
 
         // Format session time for notification message
         const sessionDate = new Date(session.startTime);
@@ -515,27 +889,401 @@ router.delete('/:id', async (req, res, next) => {
   }
 });
 
+// ==========================================
+// ATTENDANCE
+// ==========================================
+
+/**
+ * GET /admin/sessions/:id/attendance
+ * Per-occurrence attendance lists and per-learner attendance rates
+ */
+router.get('/:id/attendance', canView, requireProgramAccess(programsOfSession), async (req, res, next) => {
+  try {
+    const result = await loadAttendanceReport(req.prisma, req.params.id, req.query);
+    if (!result.report) {
+      return res.status(result.status).json({
+        success: false,
+        error: { code: result.code, message: result.message }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.report
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/sessions/:id/attendance/export
+ * Download the attendance report as CSV (one row per learner)
+ */
+router.get('/:id/attendance/export', canView, requireProgramAccess(programsOfSession), async (req, res, next) => {
+  try {
+    const result = await loadAttendanceReport(req.prisma, req.params.id, req.query);
+    if (!result.report) {
+      return res.status(result.status).json({
+        success: false,
+        error: { code: result.code, message: result.message }
+      });
+    }
+
+    const csv = toCsv(attendanceCsvColumns(result.report), result.report.learners);
+    const slug = result.session.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+    const fileName = `attendance-${slug}-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`
+    });
+    res.send(csv);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /admin/sessions/:id/attendance
+ * Mark a learner present or absent for one occurrence
+ */
+router.put('/:id/attendance', canEdit, requireProgramAccess(programsOfSession), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { userId, occurrenceDate, present } = req.body;
+
+    if (!userId || typeof present !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'userId and present (true/false) are required' }
+      });
+    }
+
+    const session = await req.prisma.session.findUnique({ where: { id }, include: { overrides: true } });
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Session not found' }
+      });
+    }
+
+    const occurrence = findOccurrence(session, occurrenceDate);
+    if (!occurrence) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'The session has no occurrence on that date' }
+      });
+    }
+    if (new Date(occurrence.startTime) > new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Attendance can only be marked once the session has started' }
+      });
+    }
+
+    const learner = await req.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, name: true }
+    });
+    if (!learner || learner.role !== 'LEARNER') {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Learner not found' }
+      });
+    }
+
+    const attendance = await req.prisma.sessionAttendance.upsert({
+      where: { sessionId_userId_occurrenceDate: { sessionId: id, userId, occurrenceDate } },
+      create: { sessionId: id, userId, occurrenceDate, present, markedById: req.user.id },
+      update: { present, markedById: req.user.id }
+    });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'MARK_ATTENDANCE',
+      targetType: 'Session',
+      targetId: id,
+      details: { name: session.name, learner: learner.name, userId, occurrenceDate, present }
+    });
+
+    res.json({
+      success: true,
+      data: { attendance }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==========================================
+// RECORDINGS
+// ==========================================
+
+/**
+ * PUT /admin/sessions/:id/recording
+ * Attach (or replace) the recording of one occurrence — a Bunny.net embed URL
+ */
+router.put('/:id/recording', canEdit, requireProgramAccess(programsOfSession), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { videoUrl, durationSeconds } = req.body;
+
+    if (!videoUrl || !isValidVideoUrl(videoUrl)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'videoUrl must be a valid URL' }
+      });
+    }
+    if (durationSeconds != null && (!Number.isInteger(durationSeconds) || durationSeconds < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'durationSeconds must be a whole number of seconds' }
+      });
+    }
+
+    const session = await req.prisma.session.findUnique({ where: { id }, include: { overrides: true } });
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Session not found' }
+      });
+    }
+
+    const occurrenceDate = req.body.occurrenceDate || toDateKey(session.startTime);
+    const occurrence = findOccurrence(session, occurrenceDate);
+    if (!occurrence) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'The session has no occurrence on that date' }
+      });
+    }
+    if (new Date(occurrence.startTime) > new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Recordings can only be added once the session has started' }
+      });
+    }
+
+    const recording = await req.prisma.sessionRecording.upsert({
+      where: { sessionId_occurrenceDate: { sessionId: id, occurrenceDate } },
+      create: { sessionId: id, occurrenceDate, videoUrl, durationSeconds: durationSeconds ?? null },
+      update: { videoUrl, durationSeconds: durationSeconds ?? null }
+    });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'UPDATE_SESSION_RECORDING',
+      targetType: 'Session',
+      targetId: id,
+      details: { name: session.name, occurrenceDate, videoUrl }
+    });
+
+    res.json({
+      success: true,
+      data: { recording }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /admin/sessions/:id/recording?occurrenceDate=YYYY-MM-DD
+ * Remove an occurrence's recording. Lessons published from it are kept.
+ */
+router.delete('/:id/recording', canEdit, requireProgramAccess(programsOfSession), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const session = await req.prisma.session.findUnique({ where: { id } });
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Session not found' }
+      });
+    }
+
+    const occurrenceDate = req.query.occurrenceDate || toDateKey(session.startTime);
+    const { count } = await req.prisma.sessionRecording.deleteMany({
+      where: { sessionId: id, occurrenceDate }
+    });
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Recording not found' }
+      });
+    }
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'DELETE_SESSION_RECORDING',
+      targetType: 'Session',
+      targetId: id,
+      details: { name: session.name, occurrenceDate }
+    });
+
+    res.json({
+      success: true,
+      message: 'Recording removed'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/sessions/:id/recording/lessons
+ * Publish an occurrence's recording as a VIDEO lesson in a topic of each
+ * linked program ({ occurrenceDate, title?, topics: [{ programId, topicId }] })
+ */
+router.post('/:id/recording/lessons', canEdit, requireProgramAccess(programsOfSession), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { topics, title } = req.body;
+
+    if (!Array.isArray(topics) || topics.length === 0 || topics.some(t => !t || !t.programId || !t.topicId)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'topics must list a programId and topicId for each program' }
+      });
+    }
+    if (new Set(topics.map(t => t.programId)).size !== topics.length) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Choose one topic per program' }
+      });
+    }
+
+    const session = await req.prisma.session.findUnique({
+      where: { id },
+      include: { sessionPrograms: { select: { programId: true } }, overrides: true }
+    });
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Session not found' }
+      });
+    }
+
+    const occurrenceDate = req.body.occurrenceDate || toDateKey(session.startTime);
+    const recording = await req.prisma.sessionRecording.findUnique({
+      where: { sessionId_occurrenceDate: { sessionId: id, occurrenceDate } },
+      include: { lessons: { select: { topicId: true } } }
+    });
+    if (!recording) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'This occurrence has no recording yet' }
+      });
+    }
+
+    // Sessions for all programs can publish anywhere; others only to their own programs
+    const linkedProgramIds = session.sessionPrograms.map(sp => sp.programId);
+    const forAllPrograms = linkedProgramIds.length === 0 || linkedProgramIds.includes(null);
+    if (!forAllPrograms && topics.some(t => !linkedProgramIds.includes(t.programId))) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Recordings can only be published to programs linked to the session' }
+      });
+    }
+
+    const topicRows = await req.prisma.topic.findMany({
+      where: { id: { in: topics.map(t => t.topicId) } },
+      select: { id: true, programId: true, name: true }
+    });
+    const topicsById = new Map(topicRows.map(topic => [topic.id, topic]));
+    const invalid = topics.find(t => topicsById.get(t.topicId)?.programId !== t.programId);
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Each topic must belong to its program' }
+      });
+    }
+    const published = topics.find(t => recording.lessons.some(lesson => lesson.topicId === t.topicId));
+    if (published) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'CONFLICT', message: `The recording is already a lesson in ${topicsById.get(published.topicId).name}` }
+      });
+    }
+
+    // "Weekly Q&A (Mar 10, 2026)", dated in the session's timezone
+    const occurrence = findOccurrence(session, occurrenceDate);
+    const dateLabel = new Date(occurrence ? occurrence.startTime : `${occurrenceDate}T12:00:00Z`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: session.timezone || 'UTC'
+    });
+    const lessonTitle = (typeof title === 'string' && title.trim()) || `${session.name} (${dateLabel})`;
+
+    // Same as POST /admin/programs/lessons, added after the topic's last lesson
+    const lessons = [];
+    for (const { programId, topicId } of topics) {
+      const lessonCount = await req.prisma.lesson.count({ where: { topicId, subtopicId: null } });
+      const lesson = await req.prisma.lesson.create({
+        data: {
+          programId,
+          topicId,
+          title: lessonTitle,
+          type: 'VIDEO',
+          contentUrl: recording.videoUrl,
+          durationSeconds: recording.durationSeconds,
+          orderIndex: lessonCount,
+          recordingId: recording.id
+        }
+      });
+      await refreshLessonSearchIndex(req.prisma, [lesson.id]);
+      notifyNewLesson(req.prisma, lesson);
+      await touchProgram(req.prisma, programId);
+      lessons.push(lesson);
+    }
+    clearProgramsCache();
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'PUBLISH_SESSION_RECORDING',
+      targetType: 'Session',
+      targetId: id,
+      details: { name: session.name, occurrenceDate, lessonIds: lessons.map(lesson => lesson.id) }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { lessons }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /admin/sessions/today
  * Get today's sessions for dashboard
  */
-router.get('/dashboard/today', async (req, res, next) => {
+router.get('/dashboard/today', canView, async (req, res, next) => {
   try {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
+    const scope = await getProgramScope(req);
     const sessions = await req.prisma.session.findMany({
       where: {
         startTime: {
           gte: today,
           lt: tomorrow
-        }
+        },
+        ...sessionScopeWhere(scope)
       },
       include: {
         sessionPrograms: {
-          include: { program: { select: { name: true } } }
+          include: {
+            program: { select: { name: true } },
+            cohort: { select: { name: true } }
+          }
         }
       },
       orderBy: { startTime: 'asc' }
@@ -0,0 +1,322 @@
+// Admin Team Routes — staff accounts, invites and deactivation
+const express = require('express');
+const router = express.Router();
+const crypto = require('crypto');
+const { authenticate, requireStaff, requirePermission } = require('../../middleware/auth');
+const { sendTeamInviteEmail } = require('../../utils/email');
+const { logAudit } = require('../../utils/audit');
+const { cacheDel } = require('../../utils/cache');
+const { STAFF_ROLES, ROLE_LABELS } = require('../../utils/permissions');
+
+router.use(authenticate);
+router.use(requireStaff);
+router.use(requirePermission('team:manage'));
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const INVITE_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const MEMBER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  status: true,
+  passwordResetExpires: true,
+  createdAt: true
+};
+
+// Pending invites are staff users who haven't set a password yet
+function formatMember(user) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    status: user.status,
+    createdAt: user.createdAt,
+    inviteExpiresAt: user.status === 'PENDING_SETUP' ? user.passwordResetExpires : null
+  };
+}
+
+function createInviteToken() {
+  return {
+    passwordResetToken: crypto.randomBytes(32).toString('hex'),
+    passwordResetExpires: new Date(Date.now() + INVITE_TOKEN_TTL_MS)
+  };
+}
+
+/**
+ * Email the invite. A failed send doesn't undo the invite: the response
+ * carries the setup link so it can be shared by hand.
+ */
+async function sendInvite(req, member, token) {
+  try {
+    await sendTeamInviteEmail(member.email, member.name, ROLE_LABELS[member.role], req.user.name, token);
+    return true;
+  } catch (emailError) {
+    console.error('Failed to send team invite email:', emailError);
+    return false;
+  }
+}
+
+async function findTeamMember(prisma, id) {
+  const user = await prisma.user.findUnique({ where: { id }, select: MEMBER_SELECT });
+  return user && STAFF_ROLES.includes(user.role) ? user : null;
+}
+
+/**
+ * GET /admin/team
+ * Staff accounts, including pending invites
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const members = await req.prisma.user.findMany({
+      where: { role: { in: STAFF_ROLES } },
+      select: MEMBER_SELECT,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: { members: members.map(formatMember) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/team/invites
+ * Invite a team member by email with a role
+ */
+router.post('/invites', async (req, res, next) => {
+  try {
+    const { email, name, role } = req.body;
+
+    if (!email || !name || !role) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Email, name and role are required' }
+      });
+    }
+
+    if (!EMAIL_REGEX.test(email) || email.length > 254) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Please enter a valid email address' }
+      });
+    }
+
+    if (name.length > 200) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Name must be 200 characters or less' }
+      });
+    }
+
+    if (!STAFF_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Invalid role' }
+      });
+    }
+
+    const existing = await req.prisma.user.findUnique({
+      where: { email: email.toLowerCase() }
+    });
+
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'EMAIL_EXISTS', message: 'Email already registered' }
+      });
+    }
+
+    const invite = createInviteToken();
+    const member = await req.prisma.user.create({
+      data: {
+        email: email.toLowerCase(),
+        name: name.trim(),
+        role,
+        status: 'PENDING_SETUP',
+        ...invite
+      },
+      select: MEMBER_SELECT
+    });
+
+    const emailSent = await sendInvite(req, member, invite.passwordResetToken);
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'INVITE_TEAM_MEMBER',
+      targetType: 'TeamMember',
+      targetId: member.id,
+      details: { name: member.name, email: member.email, role, emailSent }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        member: formatMember(member),
+        emailSent,
+        setupLink: `${process.env.FRONTEND_URL}/auth/setup-password?token=${invite.passwordResetToken}`
+      },
+      message: emailSent ? 'Invite sent' : 'Invite created, but the email could not be sent'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/team/invites/:id/resend
+ * Send a pending invite again with a fresh link (the old one stops working)
+ */
+router.post('/invites/:id/resend', async (req, res, next) => {
+  try {
+    const member = await findTeamMember(req.prisma, req.params.id);
+
+    if (!member || member.status !== 'PENDING_SETUP') {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Invite not found' }
+      });
+    }
+
+    const invite = createInviteToken();
+    const updated = await req.prisma.user.update({
+      where: { id: member.id },
+      data: invite,
+      select: MEMBER_SELECT
+    });
+
+    const emailSent = await sendInvite(req, updated, invite.passwordResetToken);
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'RESEND_TEAM_INVITE',
+      targetType: 'TeamMember',
+      targetId: member.id,
+      details: { name: member.name, email: member.email, role: member.role, emailSent }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        member: formatMember(updated),
+        emailSent,
+        setupLink: `${process.env.FRONTEND_URL}/auth/setup-password?token=${invite.passwordResetToken}`
+      },
+      message: emailSent ? 'Invite resent' : 'Invite renewed, but the email could not be sent'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /admin/team/invites/:id
+ * Revoke a pending invite. The invitee never signed in, so the account is removed.
+ */
+router.delete('/invites/:id', async (req, res, next) => {
+  try {
+    const member = await findTeamMember(req.prisma, req.params.id);
+
+    if (!member || member.status !== 'PENDING_SETUP') {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Invite not found' }
+      });
+    }
+
+    await req.prisma.user.delete({ where: { id: member.id } });
+
+    logAudit(req.prisma, {
+      admin: req.user,
+      action: 'REVOKE_TEAM_INVITE',
+      targetType: 'TeamMember',
+      targetId: member.id,
+      details: { name: member.name, email: member.email, role: member.role }
+    });
+
+    res.json({
+      success: true,
+      message: `Invite for ${member.email} revoked`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /admin/team/:id/status
+ * Deactivate a team member (signing them out everywhere) or reactivate them
+ */
+router.put('/:id/status', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    if (!['ACTIVE', 'INACTIVE'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Invalid status' }
+      });
+    }
+
+    // Also keeps at least one active admin: whoever is making the change
+    if (id === req.user.id) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'You cannot change the status of your own account' }
+      });
+    }
+
+    const member = await findTeamMember(req.prisma, id);
+
+    if (!member || member.status === 'PENDING_SETUP') {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Team member not found' }
+      });
+    }
+
+    // Deactivating also voids any reset link, so it can't be used to sign back in
+    const updated = await req.prisma.user.update({
+      where: { id },
+      data: status === 'INACTIVE'
+        ? { status, passwordResetToken: null, passwordResetExpires: null }
+        : { status },
+      select: MEMBER_SELECT
+    });
+
+    if (status === 'INACTIVE') {
+      const sessions = await req.prisma.userSession.findMany({
+        where: { userId: id },
+        select: { token: true }
+      });
+      await req.prisma.userSession.deleteMany({ where: { userId: id } });
+      await Promise.all(sessions.map(session => cacheDel(`auth:${session.token.slice(-16)}`)));
+    }
+
+    if (member.status !== status) {
+      logAudit(req.prisma, {
+        admin: req.user,
+        action: status === 'INACTIVE' ? 'DEACTIVATE_TEAM_MEMBER' : 'REACTIVATE_TEAM_MEMBER',
+        targetType: 'TeamMember',
+        targetId: id,
+        details: { name: member.name, email: member.email, role: member.role }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { member: formatMember(updated) },
+      message: status === 'INACTIVE' ? `${member.name} deactivated` : `${member.name} reactivated`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
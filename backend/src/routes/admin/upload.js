@@ -5,10 +5,12 @@ const multer = require('multer');
 const rateLimit = require('express-rate-limit');
 const { S3Client, PutObjectCommand } = require('@aws-sdk/client-s3');
 const { v4: uuidv4 } = require('uuid');
-const { authenticate, requireAdmin } = require('../../middleware/auth');
+const { authenticate, requireStaff, requirePermission } = require('../../middleware/auth');
 
 router.use(authenticate);
-router.use(requireAdmin);
+router.use(requireStaff);
+// Files for program, lesson and session forms
+router.use(requirePermission('programs:manage', 'content:edit', 'sessions:edit'));
 
 // Rate limit uploads: 20 per minute per user (auth required, so user.id always exists)
 const uploadLimiter = rateLimit({
@@ -420,7 +420,7 @@ router.post('/login-force', async (req, res, next) => {
 
 /**
  * POST /auth/setup-password
- * First-time password setup for new learners
+ * First-time password setup for new learners and invited team members
  */
 router.post('/setup-password', async (req, res, next) => {
   try {
@@ -456,7 +456,8 @@ router.post('/setup-password', async (req, res, next) => {
       }
     });
 
-    if (!user) {
+    // Deactivated accounts can't use a leftover link to sign back in
+    if (!user || user.status === 'INACTIVE') {
       return res.status(400).json({
         success: false,
         error: { code: 'TOKEN_EXPIRED', message: 'Invalid or expired setup link' }
@@ -472,7 +473,7 @@ router.post('/setup-password', async (req, res, next) => {
         passwordHash,
         passwordResetToken: null,
         passwordResetExpires: null,
-        status: 'ACTIVE'
+        ...(user.status === 'PENDING_SETUP' && { status: 'ACTIVE' })
       }
     });
 
@@ -517,7 +518,7 @@ router.post('/forgot-password', async (req, res, next) => {
       where: { email: email.toLowerCase() }
     });
 
-    if (!user) {
+    if (!user || user.status === 'INACTIVE') {
       return res.json(genericResponse);
     }
 
@@ -580,7 +581,7 @@ router.post('/reset-password', async (req, res, next) => {
       }
     });
 
-    if (!user) {
+    if (!user || user.status === 'INACTIVE') {
       return res.status(400).json({
         success: false,
         error: { code: 'TOKEN_EXPIRED', message: 'Invalid or expired reset link' }
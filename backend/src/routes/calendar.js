@@ -0,0 +1,77 @@
+// Calendar Feed Routes (no auth — the secret token in the URL identifies the learner)
+const express = require('express');
+const router = express.Router();
+const { sessionVisibilityWhere } = require('../utils/cohorts');
+const { sessionEventLines, buildCalendar } = require('../utils/ics');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAST_DAYS = 30; // Keep recent sessions visible in the calendar
+const FUTURE_DAYS = 365;
+
+// A recurring session's UNTIL (YYYYMMDD) as a date, or null when it runs on
+function ruleUntil(recurrenceRule) {
+  const match = /(?:^|;)UNTIL=(\d{4})(\d{2})(\d{2})/.exec(recurrenceRule || '');
+  return match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], 23, 59, 59)) : null;
+}
+
+/**
+ * GET /calendar/:token.ics
+ * iCalendar feed of the learner's live sessions, for Google Calendar / Outlook subscriptions
+ */
+router.get('/:token.ics', async (req, res, next) => {
+  try {
+    const user = await req.prisma.user.findUnique({
+      where: { calendarToken: req.params.token },
+      select: { id: true, role: true, status: true }
+    });
+
+    if (!user || user.role !== 'LEARNER' || user.status !== 'ACTIVE') {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Calendar not found' }
+      });
+    }
+
+    // Only ADMIN/PAID enrollments get session access, as on the sessions page
+    const enrollments = await req.prisma.enrollment.findMany({
+      where: { userId: user.id, type: { in: ['ADMIN', 'PAID'] } },
+      select: { programId: true, cohortId: true }
+    });
+
+    const now = new Date();
+    const rangeStart = new Date(now.getTime() - PAST_DAYS * DAY_MS);
+    const rangeEnd = new Date(now.getTime() + FUTURE_DAYS * DAY_MS);
+
+    let sessions = [];
+    if (enrollments.length > 0) {
+      const programFilter = sessionVisibilityWhere(enrollments);
+      sessions = await req.prisma.session.findMany({
+        where: {
+          OR: [
+            { isRecurring: false, startTime: { gte: rangeStart, lte: rangeEnd }, ...programFilter },
+            { isRecurring: true, startTime: { lte: rangeEnd }, ...programFilter }
+          ]
+        },
+        include: { overrides: true },
+        orderBy: { startTime: 'asc' }
+      });
+      sessions = sessions.filter(s => {
+        const until = s.isRecurring ? ruleUntil(s.recurrenceRule) : null;
+        return !until || until >= rangeStart;
+      });
+    }
+
+    const ics = buildCalendar(sessions.map(session => sessionEventLines(session, { now })));
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="wave-academy-sessions.ics"',
+      'Cache-Control': 'private, max-age=300'
+    });
+    res.send(ics);
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,34 @@
+// Certificate Verification Routes (no auth required)
+const express = require('express');
+const router = express.Router();
+
+/**
+ * GET /certificates/verify/:code
+ * Confirm whether a certificate code is valid
+ */
+router.get('/verify/:code', async (req, res, next) => {
+  try {
+    const code = String(req.params.code).trim().toUpperCase();
+
+    const certificate = await req.prisma.certificate.findUnique({
+      where: { code },
+      select: { code: true, learnerName: true, programName: true, issuedAt: true }
+    });
+
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'No certificate matches this code' }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { valid: true, ...certificate }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
@@ -4,8 +4,28 @@ const router = express.Router();
 const crypto = require('crypto');
 const { authenticate, requireLearner } = require('../middleware/auth');
 const { cacheGet, cacheDel } = require('../utils/cache');
-const { expandRecurringSession } = require('../utils/recurrence');
+const { expandRecurringSession, occurrenceKey, toDateKey } = require('../utils/recurrence');
 const { parsePagination } = require('../utils/pagination');
+const { gradeQuiz, DEFAULT_PASSING_SCORE } = require('../utils/quiz');
+const { deleteR2File } = require('../utils/r2');
+const { issueCertificateIfComplete, renderCertificatePdf } = require('../utils/certificates');
+const { issueInvoiceForPayment, formatInvoice, getInvoiceFileName, renderInvoicePdf } = require('../utils/invoices');
+const { formatPlan, formatInstallment } = require('../utils/installments');
+const { sessionVisibilityWhere, isSessionVisibleTo } = require('../utils/cohorts');
+const { findOccurrence, isWithinJoinWindow } = require('../utils/attendance');
+const { sessionEventLines, buildCalendar } = require('../utils/ics');
+const { DRIP_SELECT, LESSON_TOPIC_DRIP, getUnlockDate, getLessonUnlocksAt } = require('../utils/drip');
+const { AUTHOR_SELECT, parseCommentBody, threadInclude, formatComment, formatThread } = require('../utils/discussions');
+const { NOTE_LESSON_SELECT, parseNoteInput, formatNote, buildNotesMarkdown } = require('../utils/notes');
+const { findMatchingCues } = require('../utils/transcripts');
+const { TITLE_HEADLINE, SNIPPET_HEADLINE, parseSearchQuery, toSegments } = require('../utils/search');
+const {
+  lessonTreeInclude,
+  flattenProgramLessons,
+  findIncompletePrerequisite,
+  getIncompletePrerequisite,
+  getIncompletePrerequisites
+} = require('../utils/sequence');
 
 router.use(authenticate);
 router.use(requireLearner);
@@ -217,10 +237,7 @@ router.get('/home', async (req, res, next) => {
         ? await req.prisma.session.findMany({
             where: {
               startTime: { gte: new Date() },
-              OR: [
-                { sessionPrograms: { some: { programId: null } } },
-                { sessionPrograms: { some: { programId: { in: enrolledProgramIds } } } }
-              ]
+              ...sessionVisibilityWhere(enrollments)
             },
             take: 5,
             orderBy: { startTime: 'asc' }
@@ -408,8 +425,8 @@ router.get('/programs/:id', async (req, res, next) => {
 
       const isFreeEnrollment = enrollment.type === 'FREE';
 
-      // Build content tree with progress (and gating for FREE enrollments)
-      const buildLessonWithProgress = (lesson) => {
+      // Build content tree with progress (and gating for FREE enrollments / drip schedule)
+      const buildLessonWithProgress = (lesson, topic = null) => {
         const isLocked = isFreeEnrollment && !lesson.isFree;
         return {
           id: lesson.id,
@@ -420,6 +437,8 @@ router.get('/programs/:id', async (req, res, next) => {
           orderIndex: lesson.orderIndex,
           isFree: lesson.isFree,
           isLocked,
+          unlocksAt: getLessonUnlocksAt(lesson, enrollment.enrolledAt, topic),
+          prerequisite: null,
           progress: isLocked
             ? { status: 'NOT_STARTED', watchPositionSeconds: 0 }
             : (progressMap.get(lesson.id) || { status: 'NOT_STARTED', watchPositionSeconds: 0 })
@@ -437,12 +456,12 @@ router.get('/programs/:id', async (req, res, next) => {
             type: 'subtopic',
             name: subtopic.name,
             orderIndex: subtopic.orderIndex,
-            children: subtopic.lessons.map(buildLessonWithProgress)
+            children: subtopic.lessons.map(lesson => buildLessonWithProgress(lesson, topic))
           });
         }
 
         for (const lesson of topic.lessons) {
-          topicChildren.push(buildLessonWithProgress(lesson));
+          topicChildren.push(buildLessonWithProgress(lesson, topic));
         }
 
         topicChildren.sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0));
@@ -452,6 +471,7 @@ router.get('/programs/:id', async (req, res, next) => {
           type: 'topic',
           name: topic.name,
           orderIndex: topic.orderIndex,
+          unlocksAt: getPendingUnlockDate(topic, enrollment.enrolledAt),
           children: topicChildren
         });
       }
@@ -460,6 +480,10 @@ router.get('/programs/:id', async (req, res, next) => {
         content.push(buildLessonWithProgress(lesson));
       }
 
+      if (program.isSequential) {
+        applySequentialLocks(content, progressMap);
+      }
+
       // Build progress map for frontend
       const progress = {};
       for (const p of progressRecords) {
@@ -477,7 +501,8 @@ router.get('/programs/:id', async (req, res, next) => {
           description: program.description,
           thumbnailUrl: program.thumbnailUrl,
           price: program.price,
-          currency: program.currency
+          currency: program.currency,
+          isSequential: program.isSequential
         },
         enrollmentType: enrollment.type,
         content,
@@ -492,9 +517,36 @@ router.get('/programs/:id', async (req, res, next) => {
       });
     }
 
+    // Not cached: also backfills certificates for programs finished before they existed
+    const certificate = await issueCertificateIfComplete(req.prisma, userId, id);
+
+    // Not cached: the learner's installment schedule, or the plans on offer before upgrading
+    let installments = [];
+    let installmentPlans = [];
+    if (enrollment.type === 'PAID' || enrollment.suspendedAt) {
+      installments = await req.prisma.installment.findMany({
+        where: { enrollmentId: enrollment.id },
+        orderBy: { sequence: 'asc' }
+      });
+    } else if (enrollment.type === 'FREE' && parseFloat(data.program.price) > 0) {
+      installmentPlans = await req.prisma.installmentPlan.findMany({
+        where: { programId: id, isActive: true },
+        orderBy: { createdAt: 'asc' }
+      });
+    }
+
     res.json({
       success: true,
-      data
+      data: {
+        ...data,
+        content: clearPassedUnlocks(data.content),
+        certificate: certificate
+          ? { id: certificate.id, code: certificate.code, issuedAt: certificate.issuedAt }
+          : null,
+        suspendedAt: enrollment.suspendedAt || null,
+        installments: installments.map(formatInstallment),
+        installmentPlans: installmentPlans.map(formatPlan)
+      }
     });
   } catch (error) {
     next(error);
@@ -514,7 +566,10 @@ router.get('/lessons/:id', async (req, res, next) => {
       where: { id },
       include: {
         program: { select: { id: true, name: true, price: true, currency: true } },
-        attachments: true
+        attachments: true,
+        quizQuestions: { orderBy: { orderIndex: 'asc' } },
+        transcripts: { select: { id: true, language: true, label: true, cues: true }, orderBy: { label: 'asc' } },
+        ...LESSON_TOPIC_DRIP
       }
     });
 
@@ -539,12 +594,27 @@ router.get('/lessons/:id', async (req, res, next) => {
       });
     }
 
+    // Flat lesson list matching the content tree order (navigation + sequential lock)
+    const programWithTree = await req.prisma.program.findUnique({
+      where: { id: lesson.programId },
+      include: lessonTreeInclude({ id: true, title: true, orderIndex: true, isFree: true, ...DRIP_SELECT })
+    });
+    const programLessons = programWithTree ? flattenProgramLessons(programWithTree) : [];
+
     const isLessonLocked = enrollment.type === 'FREE' && !lesson.isFree;
+    const unlocksAt = getLessonUnlocksAt(lesson, enrollment.enrolledAt);
+
+    // Sequential programs: the previous lesson must be completed first
+    const prerequisite = programWithTree?.isSequential && !isLessonLocked
+      ? await findIncompletePrerequisite(req.prisma, userId, programLessons, id, enrollment.type)
+      : null;
+
+    const isUnavailable = isLessonLocked || !!unlocksAt || !!prerequisite;
 
     // Track progress only for accessible lessons
     let progress = null;
     let currentStatus = 'NOT_STARTED';
-    if (!isLessonLocked) {
+    if (!isUnavailable) {
       progress = await req.prisma.progress.findUnique({
         where: {
           userId_lessonId: { userId, lessonId: id }
@@ -577,61 +647,46 @@ router.get('/lessons/:id', async (req, res, next) => {
     }
 
     // Generate signed video URL if video (only for accessible lessons)
-    let contentUrl = isLessonLocked ? null : lesson.contentUrl;
-    if (!isLessonLocked && lesson.type === 'VIDEO' && contentUrl) {
+    let contentUrl = isUnavailable ? null : lesson.contentUrl;
+    if (!isUnavailable && lesson.type === 'VIDEO' && contentUrl) {
       // Ensure embed URL format (not /play/) for responsive sizing
       contentUrl = contentUrl.replace('/play/', '/embed/');
       contentUrl = generateSignedVideoUrl(contentUrl);
     }
 
-    // Get navigation - build flat lesson list matching the content tree order
-    const programWithTree = await req.prisma.program.findUnique({
-      where: { id: lesson.programId },
-      include: {
-        topics: {
-          include: {
-            subtopics: {
-              include: {
-                lessons: { orderBy: { orderIndex: 'asc' }, select: { id: true, title: true, orderIndex: true, isFree: true } }
-              },
-              orderBy: { orderIndex: 'asc' }
-            },
-            lessons: {
-              where: { subtopicId: null },
-              orderBy: { orderIndex: 'asc' },
-              select: { id: true, title: true, orderIndex: true, isFree: true }
-            }
-          },
-          orderBy: { orderIndex: 'asc' }
-        },
-        lessons: {
-          where: { topicId: null, subtopicId: null },
-          orderBy: { orderIndex: 'asc' },
-          select: { id: true, title: true, orderIndex: true, isFree: true }
-        }
-      }
-    });
-
-    // Flatten in the same order the content tree renders
-    const programLessons = [];
-    if (programWithTree) {
-      for (const topic of programWithTree.topics) {
-        // Interleave subtopics and direct lessons by orderIndex
-        const children = [
-          ...topic.subtopics.map(s => ({ type: 'subtopic', orderIndex: s.orderIndex, lessons: s.lessons })),
-          ...topic.lessons.map(l => ({ type: 'lesson', orderIndex: l.orderIndex, lesson: l }))
-        ].sort((a, b) => a.orderIndex - b.orderIndex);
+    // Quiz: questions without answers, plus this learner's attempt history
+    let quiz = null;
+    if (!isUnavailable && lesson.type === 'QUIZ') {
+      const attempts = await req.prisma.quizAttempt.findMany({
+        where: { userId, lessonId: id },
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+        select: { id: true, score: true, earnedPoints: true, totalPoints: true, passed: true, createdAt: true }
+      });
+      quiz = {
+        passingScore: lesson.passingScore ?? DEFAULT_PASSING_SCORE,
+        questions: lesson.quizQuestions.map(q => ({
+          id: q.id,
+          type: q.type,
+          prompt: q.prompt,
+          options: q.options,
+          points: q.points
+        })),
+        attempts,
+        hasPassed: attempts.some(a => a.passed)
+      };
+    }
 
-        for (const child of children) {
-          if (child.type === 'subtopic') {
-            programLessons.push(...child.lessons);
-          } else {
-            programLessons.push(child.lesson);
-          }
+    // Assignment: this learner's latest submission and its grade
+    let submission = null;
+    if (!isUnavailable && lesson.type === 'ASSIGNMENT') {
+      submission = await req.prisma.assignmentSubmission.findUnique({
+        where: { userId_lessonId: { userId, lessonId: id } },
+        select: {
+          id: true, textAnswer: true, fileUrl: true, fileName: true, status: true,
+          grade: true, feedback: true, gradedAt: true, submittedAt: true
         }
-      }
-      // Program-level lessons last
-      programLessons.push(...programWithTree.lessons);
+      });
     }
 
     const currentIndex = programLessons.findIndex(l => l.id === id);
@@ -651,14 +706,17 @@ router.get('/lessons/:id', async (req, res, next) => {
           title: lesson.title,
           type: lesson.type,
           contentUrl,
-          contentText: isLessonLocked ? null : lesson.contentText,
+          contentText: isUnavailable ? null : lesson.contentText,
           durationSeconds: lesson.durationSeconds,
-          attachments: isLessonLocked ? [] : lesson.attachments.map(att => ({
+          quiz,
+          submission,
+          attachments: isUnavailable ? [] : lesson.attachments.map(att => ({
             id: att.id,
             name: att.name,
             fileUrl: `/learner/files/${att.id}`,
             fileType: att.fileType
-          }))
+          })),
+          transcripts: isUnavailable || lesson.type !== 'VIDEO' ? [] : (lesson.transcripts || [])
         },
         program: {
           id: lesson.program.id,
@@ -667,9 +725,11 @@ router.get('/lessons/:id', async (req, res, next) => {
           currency: lesson.program.currency
         },
         isLocked: isLessonLocked,
+        unlocksAt,
+        prerequisite,
         enrollmentType: enrollment.type,
         lockedLessonCount,
-        progress: isLessonLocked ? null : {
+        progress: isUnavailable ? null : {
           status: currentStatus,
           watchPositionSeconds: progress.watchPositionSeconds,
           completedAt: progress.completedAt
@@ -679,7 +739,8 @@ router.get('/lessons/:id', async (req, res, next) => {
           nextLesson: nextLesson ? {
             id: nextLesson.id,
             title: nextLesson.title,
-            isLocked: isFreeEnrollment && !nextLesson.isFree
+            isLocked: isFreeEnrollment && !nextLesson.isFree,
+            unlocksAt: getLessonUnlocksAt(nextLesson, enrollment.enrolledAt, nextLesson.topic)
           } : null,
           currentIndex: currentIndex + 1,
           totalLessons: programLessons.length
@@ -708,7 +769,10 @@ router.post('/lessons/:id/progress', async (req, res, next) => {
     }
 
     // Verify enrollment
-    const lesson = await req.prisma.lesson.findUnique({ where: { id }, select: { programId: true, isFree: true } });
+    const lesson = await req.prisma.lesson.findUnique({
+      where: { id },
+      select: { programId: true, isFree: true, ...DRIP_SELECT, ...LESSON_TOPIC_DRIP, program: { select: { isSequential: true } } }
+    });
     if (!lesson) return res.status(404).json({ success: false, error: { message: 'Lesson not found' } });
 
     const enrolled = await req.prisma.enrollment.findUnique({
@@ -721,13 +785,33 @@ router.post('/lessons/:id/progress', async (req, res, next) => {
       return res.status(403).json({ success: false, error: { code: 'LESSON_LOCKED', message: 'Upgrade to access this lesson' } });
     }
 
+    // Drip schedule
+    const unlocksAt = getLessonUnlocksAt(lesson, enrolled.enrolledAt);
+    if (unlocksAt) {
+      return res.status(403).json({ success: false, error: { code: 'LESSON_SCHEDULED', message: 'This lesson is not available yet', unlocksAt } });
+    }
+
+    // Sequential progression
+    if (lesson.program?.isSequential) {
+      const prerequisite = await getIncompletePrerequisite(req.prisma, userId, lesson.programId, id, enrolled.type);
+      if (prerequisite) {
+        return res.status(403).json({ success: false, error: { code: 'PREREQUISITE_INCOMPLETE', message: `Complete "${prerequisite.title}" first`, prerequisite } });
+      }
+    }
+
+    // Re-watching a finished lesson keeps it COMPLETED (sequential mode unlocks on it)
+    const existing = await req.prisma.progress.findUnique({
+      where: { userId_lessonId: { userId, lessonId: id } },
+      select: { status: true }
+    });
+
     const progress = await req.prisma.progress.upsert({
       where: {
         userId_lessonId: { userId, lessonId: id }
       },
       update: {
         watchPositionSeconds: position,
-        status: 'IN_PROGRESS',
+        ...(existing?.status !== 'COMPLETED' && { status: 'IN_PROGRESS' }),
         lastAccessedAt: new Date()
       },
       create: {
@@ -768,7 +852,7 @@ router.post('/lessons/:id/complete', async (req, res, next) => {
     // Verify lesson exists and user is enrolled
     const lesson = await req.prisma.lesson.findUnique({
       where: { id },
-      select: { programId: true, isFree: true }
+      select: { programId: true, isFree: true, type: true, ...DRIP_SELECT, ...LESSON_TOPIC_DRIP, program: { select: { isSequential: true } } }
     });
     if (!lesson) return res.status(404).json({ success: false, error: { message: 'Lesson not found' } });
 
@@ -782,6 +866,42 @@ router.post('/lessons/:id/complete', async (req, res, next) => {
       return res.status(403).json({ success: false, error: { code: 'LESSON_LOCKED', message: 'Upgrade to access this lesson' } });
     }
 
+    // Drip schedule
+    const unlocksAt = getLessonUnlocksAt(lesson, enrolled.enrolledAt);
+    if (unlocksAt) {
+      return res.status(403).json({ success: false, error: { code: 'LESSON_SCHEDULED', message: 'This lesson is not available yet', unlocksAt } });
+    }
+
+    // Sequential progression
+    if (lesson.program?.isSequential) {
+      const prerequisite = await getIncompletePrerequisite(req.prisma, userId, lesson.programId, id, enrolled.type);
+      if (prerequisite) {
+        return res.status(403).json({ success: false, error: { code: 'PREREQUISITE_INCOMPLETE', message: `Complete "${prerequisite.title}" first`, prerequisite } });
+      }
+    }
+
+    // Quizzes complete only once the learner has a passing attempt
+    if (lesson.type === 'QUIZ') {
+      const passedAttempt = await req.prisma.quizAttempt.findFirst({
+        where: { userId, lessonId: id, passed: true },
+        select: { id: true }
+      });
+      if (!passedAttempt) {
+        return res.status(400).json({ success: false, error: { code: 'QUIZ_NOT_PASSED', message: 'Pass the quiz to complete this lesson' } });
+      }
+    }
+
+    // Assignments complete once an admin approves the submission
+    if (lesson.type === 'ASSIGNMENT') {
+      const approved = await req.prisma.assignmentSubmission.findFirst({
+        where: { userId, lessonId: id, status: 'APPROVED' },
+        select: { id: true }
+      });
+      if (!approved) {
+        return res.status(400).json({ success: false, error: { code: 'SUBMISSION_NOT_APPROVED', message: 'Your submission must be approved to complete this lesson' } });
+      }
+    }
+
     await req.prisma.progress.upsert({
       where: {
         userId_lessonId: { userId, lessonId: id }
@@ -799,29 +919,870 @@ router.post('/lessons/:id/complete', async (req, res, next) => {
       }
     });
 
-    // Bust caches (lesson completed)
+    // Bust caches (lesson completed; program tree holds sequential locks)
     await Promise.all([
       cacheDel(`learner:home:${userId}`),
-      cacheDel(`learner:profile:${userId}`)
+      cacheDel(`learner:profile:${userId}`),
+      cacheDel(`learner:program:${userId}:${lesson.programId}`)
+    ]);
+
+    const certificate = await issueCertificateIfComplete(req.prisma, userId, lesson.programId);
+
+    // Get next lesson
+    const programLessons = await req.prisma.lesson.findMany({
+      where: { programId: lesson.programId },
+      orderBy: { orderIndex: 'asc' },
+      select: { id: true }
+    });
+
+    const currentIndex = programLessons.findIndex(l => l.id === id);
+    const nextLesson = currentIndex < programLessons.length - 1 ? programLessons[currentIndex + 1] : null;
+
+    res.json({
+      success: true,
+      message: 'Lesson marked as complete',
+      data: {
+        nextLessonId: nextLesson?.id,
+        certificate: certificate ? { id: certificate.id, code: certificate.code } : null
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /learner/lessons/:id/quiz/attempts
+ * Submit quiz answers; graded immediately and stored as an attempt
+ */
+router.post('/lessons/:id/quiz/attempts', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { answers } = req.body;
+    const userId = req.user.id;
+
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Answers are required' } });
+    }
+
+    const lesson = await req.prisma.lesson.findUnique({
+      where: { id },
+      select: {
+        programId: true, isFree: true, type: true, passingScore: true, ...DRIP_SELECT, ...LESSON_TOPIC_DRIP, program: { select: { isSequential: true } },
+        quizQuestions: { orderBy: { orderIndex: 'asc' } }
+      }
+    });
+    if (!lesson || lesson.type !== 'QUIZ') {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Quiz not found' } });
+    }
+    if (lesson.quizQuestions.length === 0) {
+      return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'This quiz has no questions yet' } });
+    }
+
+    const enrolled = await req.prisma.enrollment.findUnique({
+      where: { userId_programId: { userId, programId: lesson.programId } }
+    });
+    if (!enrolled) return res.status(403).json({ success: false, error: { message: 'Not enrolled in this program' } });
+
+    // Content gating
+    if (enrolled.type === 'FREE' && !lesson.isFree) {
+      return res.status(403).json({ success: false, error: { code: 'LESSON_LOCKED', message: 'Upgrade to access this lesson' } });
+    }
+
+    // Drip schedule
+    const unlocksAt = getLessonUnlocksAt(lesson, enrolled.enrolledAt);
+    if (unlocksAt) {
+      return res.status(403).json({ success: false, error: { code: 'LESSON_SCHEDULED', message: 'This lesson is not available yet', unlocksAt } });
+    }
+
+    // Sequential progression
+    if (lesson.program?.isSequential) {
+      const prerequisite = await getIncompletePrerequisite(req.prisma, userId, lesson.programId, id, enrolled.type);
+      if (prerequisite) {
+        return res.status(403).json({ success: false, error: { code: 'PREREQUISITE_INCOMPLETE', message: `Complete "${prerequisite.title}" first`, prerequisite } });
+      }
+    }
+
+    const result = gradeQuiz(lesson.quizQuestions, answers, lesson.passingScore);
+
+    // Only persist answers for questions that belong to this quiz
+    const storedAnswers = {};
+    for (const q of lesson.quizQuestions) {
+      if (answers[q.id] !== undefined) storedAnswers[q.id] = answers[q.id];
+    }
+
+    const attempt = await req.prisma.quizAttempt.create({
+      data: {
+        userId,
+        lessonId: id,
+        answers: storedAnswers,
+        earnedPoints: result.earnedPoints,
+        totalPoints: result.totalPoints,
+        score: result.score,
+        passed: result.passed
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        attempt: {
+          id: attempt.id,
+          score: attempt.score,
+          earnedPoints: attempt.earnedPoints,
+          totalPoints: attempt.totalPoints,
+          passed: attempt.passed,
+          createdAt: attempt.createdAt
+        },
+        passingScore: lesson.passingScore ?? DEFAULT_PASSING_SCORE,
+        results: result.results
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /learner/lessons/:id/submission
+ * Submit (or resubmit) an assignment; resets the grade to pending review
+ */
+router.post('/lessons/:id/submission', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { fileUrl, fileName } = req.body;
+    const textAnswer = typeof req.body.textAnswer === 'string' ? req.body.textAnswer.trim() : '';
+    const userId = req.user.id;
+
+    if (!textAnswer && !fileUrl) {
+      return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Add a text answer or upload a file' } });
+    }
+
+    // Files must come from the learner submission upload endpoint
+    if (fileUrl && !getSubmissionFileKey(fileUrl)) {
+      return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid file URL' } });
+    }
+
+    const lesson = await req.prisma.lesson.findUnique({
+      where: { id },
+      select: { programId: true, isFree: true, type: true, ...DRIP_SELECT, ...LESSON_TOPIC_DRIP, program: { select: { isSequential: true } } }
+    });
+    if (!lesson || lesson.type !== 'ASSIGNMENT') {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Assignment not found' } });
+    }
+
+    const enrolled = await req.prisma.enrollment.findUnique({
+      where: { userId_programId: { userId, programId: lesson.programId } }
+    });
+    if (!enrolled) return res.status(403).json({ success: false, error: { message: 'Not enrolled in this program' } });
+
+    // Content gating
+    if (enrolled.type === 'FREE' && !lesson.isFree) {
+      return res.status(403).json({ success: false, error: { code: 'LESSON_LOCKED', message: 'Upgrade to access this lesson' } });
+    }
+
+    // Drip schedule
+    const unlocksAt = getLessonUnlocksAt(lesson, enrolled.enrolledAt);
+    if (unlocksAt) {
+      return res.status(403).json({ success: false, error: { code: 'LESSON_SCHEDULED', message: 'This lesson is not available yet', unlocksAt } });
+    }
+
+    // Sequential progression
+    if (lesson.program?.isSequential) {
+      const prerequisite = await getIncompletePrerequisite(req.prisma, userId, lesson.programId, id, enrolled.type);
+      if (prerequisite) {
+        return res.status(403).json({ success: false, error: { code: 'PREREQUISITE_INCOMPLETE', message: `Complete "${prerequisite.title}" first`, prerequisite } });
+      }
+    }
+
+    const existing = await req.prisma.assignmentSubmission.findUnique({
+      where: { userId_lessonId: { userId, lessonId: id } },
+      select: { status: true, fileUrl: true }
+    });
+    if (existing?.status === 'APPROVED') {
+      return res.status(400).json({ success: false, error: { code: 'ALREADY_APPROVED', message: 'This assignment has already been approved' } });
+    }
+
+    // A new file must be the learner's own upload; a kept file may predate per-learner folders
+    if (fileUrl && fileUrl !== existing?.fileUrl && !isOwnSubmissionKey(getSubmissionFileKey(fileUrl), userId)) {
+      return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid file URL' } });
+    }
+
+    const data = {
+      textAnswer: textAnswer || null,
+      fileUrl: fileUrl || null,
+      fileName: fileUrl ? (fileName ? String(fileName).slice(0, 255) : null) : null,
+      status: 'PENDING',
+      grade: null,
+      feedback: null,
+      gradedById: null,
+      gradedAt: null,
+      submittedAt: new Date()
+    };
+
+    const submission = await req.prisma.assignmentSubmission.upsert({
+      where: { userId_lessonId: { userId, lessonId: id } },
+      update: data,
+      create: { userId, lessonId: id, ...data },
+      select: {
+        id: true, textAnswer: true, fileUrl: true, fileName: true, status: true,
+        grade: true, feedback: true, gradedAt: true, submittedAt: true
+      }
+    });
+
+    // Replaced file is no longer referenced (only ever delete real submission uploads)
+    if (existing?.fileUrl && existing.fileUrl !== submission.fileUrl && getSubmissionFileKey(existing.fileUrl)) {
+      deleteR2File(existing.fileUrl).catch(() => {});
+    }
+
+    res.status(existing ? 200 : 201).json({
+      success: true,
+      data: submission
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==========================================
+// LESSON DISCUSSIONS
+// ==========================================
+
+// Lesson in one of the learner's programs (any enrollment), for discussions and notes
+async function findEnrolledLesson(prisma, lessonId, userId) {
+  const lesson = await prisma.lesson.findUnique({
+    where: { id: lessonId },
+    select: { id: true, title: true, type: true, programId: true }
+  });
+  if (!lesson) {
+    return { status: 404, code: 'NOT_FOUND', message: 'Lesson not found' };
+  }
+
+  const enrollment = await prisma.enrollment.findUnique({
+    where: { userId_programId: { userId, programId: lesson.programId } },
+    select: { id: true }
+  });
+  if (!enrollment) {
+    return { status: 403, code: 'FORBIDDEN', message: 'Not enrolled in this program' };
+  }
+  return { lesson };
+}
+
+/**
+ * GET /learner/lessons/:id/discussions
+ * Questions on a lesson with their replies (pinned first, then newest)
+ */
+router.get('/lessons/:id/discussions', async (req, res, next) => {
+  try {
+    const userId = req.user.id;
+    const { page, limit, skip } = parsePagination(req.query);
+
+    const result = await findEnrolledLesson(req.prisma, req.params.id, userId);
+    if (!result.lesson) {
+      return res.status(result.status).json({
+        success: false,
+        error: { code: result.code, message: result.message }
+      });
+    }
+
+    const where = { lessonId: result.lesson.id, parentId: null, isHidden: false };
+    const [threads, total] = await Promise.all([
+      req.prisma.lessonComment.findMany({
+        where,
+        include: threadInclude(),
+        orderBy: [{ isPinned: 'desc' }, { createdAt: 'desc' }],
+        skip,
+        take: limit
+      }),
+      req.prisma.lessonComment.count({ where })
     ]);
 
-    // Get next lesson
-    const programLessons = await req.prisma.lesson.findMany({
-      where: { programId: lesson.programId },
-      orderBy: { orderIndex: 'asc' },
-      select: { id: true }
+    res.json({
+      success: true,
+      data: {
+        threads: threads.map(thread => formatThread(thread, userId)),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /learner/lessons/:id/discussions
+ * Ask a question, or reply to one with { parentId }
+ */
+router.post('/lessons/:id/discussions', async (req, res, next) => {
+  try {
+    const userId = req.user.id;
+    const { parentId } = req.body;
+
+    const parsed = parseCommentBody(req.body.body);
+    if (parsed.error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: parsed.error }
+      });
+    }
+
+    const result = await findEnrolledLesson(req.prisma, req.params.id, userId);
+    if (!result.lesson) {
+      return res.status(result.status).json({
+        success: false,
+        error: { code: result.code, message: result.message }
+      });
+    }
+
+    // Replies to a reply join the question's thread
+    let threadId = null;
+    if (parentId) {
+      const parent = await req.prisma.lessonComment.findUnique({
+        where: { id: parentId },
+        include: { parent: true }
+      });
+      const thread = parent && (parent.parent || parent);
+      if (!thread || thread.lessonId !== result.lesson.id || thread.isHidden) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Question not found' }
+        });
+      }
+      if (thread.isLocked) {
+        return res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'This thread is locked' }
+        });
+      }
+      threadId = thread.id;
+    }
+
+    const comment = await req.prisma.lessonComment.create({
+      data: {
+        lessonId: result.lesson.id,
+        userId,
+        parentId: threadId,
+        body: parsed.body
+      },
+      include: { user: { select: AUTHOR_SELECT } }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { comment: formatComment(comment, userId) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /learner/discussions/:id
+ * Edit one of your own questions or replies
+ */
+router.put('/discussions/:id', async (req, res, next) => {
+  try {
+    const userId = req.user.id;
+
+    const parsed = parseCommentBody(req.body.body);
+    if (parsed.error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: parsed.error }
+      });
+    }
+
+    const existing = await req.prisma.lessonComment.findUnique({ where: { id: req.params.id } });
+    if (!existing || existing.isHidden) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Comment not found' }
+      });
+    }
+    if (existing.userId !== userId) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'You can only edit your own comments' }
+      });
+    }
+
+    const comment = await req.prisma.lessonComment.update({
+      where: { id: existing.id },
+      data: { body: parsed.body, editedAt: new Date() },
+      include: { user: { select: AUTHOR_SELECT } }
+    });
+
+    res.json({
+      success: true,
+      data: { comment: formatComment(comment, userId) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /learner/discussions/:id
+ * Delete one of your own questions (with its replies) or replies
+ */
+router.delete('/discussions/:id', async (req, res, next) => {
+  try {
+    const existing = await req.prisma.lessonComment.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Comment not found' }
+      });
+    }
+    if (existing.userId !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'You can only delete your own comments' }
+      });
+    }
+
+    await req.prisma.lessonComment.delete({ where: { id: existing.id } });
+
+    res.json({
+      success: true,
+      message: 'Comment deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==========================================
+// LESSON NOTES
+// ==========================================
+
+// Filters for the notes page and export: search (note text or lesson title) and program
+function buildNotesWhere(userId, { search, programId }) {
+  const where = { userId };
+  if (search) {
+    where.OR = [
+      { body: { contains: search, mode: 'insensitive' } },
+      { lesson: { title: { contains: search, mode: 'insensitive' } } }
+    ];
+  }
+  if (programId) {
+    where.lesson = { ...where.lesson, programId };
+  }
+  return where;
+}
+
+/**
+ * GET /learner/notes
+ * Notes across all programs, most recently edited first
+ */
+router.get('/notes', async (req, res, next) => {
+  try {
+    const { page, limit, skip } = parsePagination(req.query);
+    const where = buildNotesWhere(req.user.id, req.query);
+
+    const [notes, total] = await Promise.all([
+      req.prisma.lessonNote.findMany({
+        where,
+        include: { lesson: { select: NOTE_LESSON_SELECT } },
+        orderBy: { updatedAt: 'desc' },
+        skip,
+        take: limit
+      }),
+      req.prisma.lessonNote.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        notes: notes.map(formatNote),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /learner/notes/export
+ * Download notes matching the filters as Markdown, by program and lesson
+ */
+router.get('/notes/export', async (req, res, next) => {
+  try {
+    const notes = await req.prisma.lessonNote.findMany({
+      where: buildNotesWhere(req.user.id, req.query),
+      include: { lesson: { select: NOTE_LESSON_SELECT } },
+      orderBy: [
+        { lesson: { program: { name: 'asc' } } },
+        { lesson: { title: 'asc' } },
+        { positionSeconds: 'asc' },
+        { pageNumber: 'asc' },
+        { createdAt: 'asc' }
+      ]
+    });
+
+    const markdown = buildNotesMarkdown(notes);
+    const fileName = `notes-${new Date().toISOString().slice(0, 10)}.md`;
+
+    res.set({
+      'Content-Type': 'text/markdown; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`
+    });
+    res.send(markdown);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /learner/lessons/:id/notes
+ * The learner's notes on a lesson, in the order they appear in it
+ */
+router.get('/lessons/:id/notes', async (req, res, next) => {
+  try {
+    const result = await findEnrolledLesson(req.prisma, req.params.id, req.user.id);
+    if (!result.lesson) {
+      return res.status(result.status).json({
+        success: false,
+        error: { code: result.code, message: result.message }
+      });
+    }
+
+    const notes = await req.prisma.lessonNote.findMany({
+      where: { userId: req.user.id, lessonId: result.lesson.id },
+      orderBy: [{ positionSeconds: 'asc' }, { pageNumber: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    res.json({
+      success: true,
+      data: notes.map(formatNote)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /learner/lessons/:id/notes
+ * Take a note, optionally at a video position or PDF page
+ */
+router.post('/lessons/:id/notes', async (req, res, next) => {
+  try {
+    const result = await findEnrolledLesson(req.prisma, req.params.id, req.user.id);
+    if (!result.lesson) {
+      return res.status(result.status).json({
+        success: false,
+        error: { code: result.code, message: result.message }
+      });
+    }
+
+    const parsed = parseNoteInput(req.body, result.lesson.type);
+    if (parsed.error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: parsed.error }
+      });
+    }
+
+    const note = await req.prisma.lessonNote.create({
+      data: { ...parsed.data, userId: req.user.id, lessonId: result.lesson.id }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: formatNote(note)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /learner/notes/:id
+ * Edit a note's text or position
+ */
+router.put('/notes/:id', async (req, res, next) => {
+  try {
+    const existing = await req.prisma.lessonNote.findUnique({
+      where: { id: req.params.id },
+      include: { lesson: { select: { type: true } } }
+    });
+
+    // Notes are private: someone else's note is reported as missing
+    if (!existing || existing.userId !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Note not found' }
+      });
+    }
+
+    const parsed = parseNoteInput(req.body, existing.lesson.type, { partial: true });
+    if (parsed.error) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: parsed.error }
+      });
+    }
+
+    const note = await req.prisma.lessonNote.update({
+      where: { id: existing.id },
+      data: parsed.data
+    });
+
+    res.json({
+      success: true,
+      data: formatNote(note)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /learner/notes/:id
+ * Delete a note
+ */
+router.delete('/notes/:id', async (req, res, next) => {
+  try {
+    const existing = await req.prisma.lessonNote.findUnique({ where: { id: req.params.id } });
+    if (!existing || existing.userId !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Note not found' }
+      });
+    }
+
+    await req.prisma.lessonNote.delete({ where: { id: existing.id } });
+
+    res.json({
+      success: true,
+      message: 'Note deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==========================================
+// SEARCH
+// ==========================================
+
+/**
+ * GET /learner/search?q=&limit=
+ * Full-text search over lesson titles, topic names, attachment names and
+ * text bodies in the learner's programs, best match first, with highlighted
+ * segments. Lessons the learner can't open yet (including ones waiting on
+ * the previous lesson in a sequential program) show their title only.
+ */
+router.get('/search', async (req, res, next) => {
+  try {
+    const userId = req.user.id;
+    const q = parseSearchQuery(req.query.q);
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), 50);
+
+    if (!q) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Search must be at least 2 characters' }
+      });
+    }
+
+    const enrollments = await req.prisma.enrollment.findMany({
+      where: { userId },
+      select: { programId: true, type: true, enrolledAt: true }
+    });
+    if (enrollments.length === 0) {
+      return res.json({ success: true, data: { results: [] } });
+    }
+    const enrollmentMap = new Map(enrollments.map(e => [e.programId, e]));
+    const programIds = enrollments.map(e => e.programId);
+
+    // Title weighs most (A), then topic (B), attachments (C) and body text (D)
+    const matches = await req.prisma.$queryRaw`
+      WITH matches AS (
+        SELECT l.id, l.title, t.name AS topic, s.name AS subtopic, q.query,
+          ts_rank(l.search_vector, q.query) AS rank,
+          regexp_replace(coalesce(l.content_text, ''), '<[^>]+>', ' ', 'g') AS body,
+          (SELECT string_agg(a.name, ' · ') FROM lesson_attachments a WHERE a.lesson_id = l.id) AS attachments
+        FROM lessons l
+        LEFT JOIN topics t ON t.id = l.topic_id
+        LEFT JOIN subtopics s ON s.id = l.subtopic_id,
+        plainto_tsquery('simple', ${q}) AS q(query)
+        WHERE l.program_id = ANY(${programIds}::text[])
+        AND l.search_vector @@ q.query
+        ORDER BY rank DESC
+        LIMIT ${limit}
+      )
+      SELECT id, rank,
+        ts_headline('simple', title, query, ${TITLE_HEADLINE}) AS "title",
+        ts_headline('simple', coalesce(topic, ''), query, ${TITLE_HEADLINE}) AS "topic",
+        ts_headline('simple', coalesce(subtopic, ''), query, ${TITLE_HEADLINE}) AS "subtopic",
+        CASE WHEN to_tsvector('simple', body) @@ query
+          THEN ts_headline('simple', body, query, ${SNIPPET_HEADLINE}) END AS "snippet",
+        CASE WHEN to_tsvector('simple', coalesce(attachments, '')) @@ query
+          THEN ts_headline('simple', attachments, query, ${TITLE_HEADLINE}) END AS "attachments"
+      FROM matches
+      ORDER BY rank DESC
+    `;
+    if (matches.length === 0) {
+      return res.json({ success: true, data: { results: [] } });
+    }
+
+    const lessons = await req.prisma.lesson.findMany({
+      where: { id: { in: matches.map(m => m.id) } },
+      select: {
+        id: true, type: true, isFree: true, programId: true,
+        ...DRIP_SELECT,
+        ...LESSON_TOPIC_DRIP,
+        program: { select: { id: true, name: true, isSequential: true } }
+      }
+    });
+    const lessonMap = new Map(lessons.map(l => [l.id, l]));
+
+    // Same rule as opening the lesson: in order, unless it's locked anyway
+    const isPaidLocked = lesson => enrollmentMap.get(lesson.programId).type === 'FREE' && !lesson.isFree;
+    const prerequisites = await getIncompletePrerequisites(
+      req.prisma,
+      userId,
+      lessons.filter(l => l.program.isSequential && !isPaidLocked(l)),
+      new Map(enrollments.map(e => [e.programId, e.type]))
+    );
+
+    const results = matches
+      .filter(match => lessonMap.has(match.id))
+      .map(match => {
+        const lesson = lessonMap.get(match.id);
+        const enrollment = enrollmentMap.get(lesson.programId);
+        const isLocked = isPaidLocked(lesson);
+        const unlocksAt = getLessonUnlocksAt(lesson, enrollment.enrolledAt);
+        const prerequisite = prerequisites.get(lesson.id) || null;
+        const isUnavailable = isLocked || !!unlocksAt || !!prerequisite;
+        return {
+          lesson: { id: lesson.id, type: lesson.type },
+          program: { id: lesson.program.id, name: lesson.program.name },
+          title: toSegments(match.title),
+          topic: toSegments(match.topic),
+          subtopic: toSegments(match.subtopic),
+          snippet: isUnavailable ? null : toSegments(match.snippet),
+          attachments: isUnavailable ? null : toSegments(match.attachments),
+          rank: Number(match.rank),
+          isLocked,
+          unlocksAt,
+          prerequisite
+        };
+      });
+
+    res.json({ success: true, data: { results } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==========================================
+// TRANSCRIPT SEARCH
+// ==========================================
+
+/**
+ * GET /learner/transcripts/search?q=
+ * Video lessons whose transcript mentions the query, best match first, with
+ * the matching lines and where they are in the video. Lessons the learner
+ * can't open yet (including ones waiting on the previous lesson in a
+ * sequential program) are listed without their lines.
+ */
+router.get('/transcripts/search', async (req, res, next) => {
+  try {
+    const userId = req.user.id;
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    if (q.length < 2) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Search must be at least 2 characters' }
+      });
+    }
+
+    const enrollments = await req.prisma.enrollment.findMany({
+      where: { userId },
+      select: { programId: true, type: true, enrolledAt: true }
     });
+    if (enrollments.length === 0) {
+      return res.json({ success: true, data: { results: [] } });
+    }
+    const enrollmentMap = new Map(enrollments.map(e => [e.programId, e]));
+    const programIds = enrollments.map(e => e.programId);
+
+    const matches = await req.prisma.$queryRaw`
+      SELECT t.id, ts_rank(t.search_vector, query) AS rank
+      FROM lesson_transcripts t
+      JOIN lessons l ON l.id = t.lesson_id,
+      plainto_tsquery('simple', ${q}) query
+      WHERE l.program_id = ANY(${programIds}::text[])
+      AND t.search_vector @@ query
+      ORDER BY rank DESC
+      LIMIT 20
+    `;
+    if (matches.length === 0) {
+      return res.json({ success: true, data: { results: [] } });
+    }
 
-    const currentIndex = programLessons.findIndex(l => l.id === id);
-    const nextLesson = currentIndex < programLessons.length - 1 ? programLessons[currentIndex + 1] : null;
-
-    res.json({
-      success: true,
-      message: 'Lesson marked as complete',
-      data: {
-        nextLessonId: nextLesson?.id
+    const transcripts = await req.prisma.lessonTranscript.findMany({
+      where: { id: { in: matches.map(m => m.id) } },
+      select: {
+        id: true, language: true, label: true, cues: true,
+        lesson: {
+          select: {
+            id: true, title: true, isFree: true, programId: true,
+            ...DRIP_SELECT,
+            ...LESSON_TOPIC_DRIP,
+            program: { select: { id: true, name: true, isSequential: true } }
+          }
+        }
       }
     });
+    const transcriptMap = new Map(transcripts.map(t => [t.id, t]));
+
+    // Same rule as opening the lesson: in order, unless it's locked anyway
+    const isPaidLocked = lesson => enrollmentMap.get(lesson.programId).type === 'FREE' && !lesson.isFree;
+    const prerequisites = await getIncompletePrerequisites(
+      req.prisma,
+      userId,
+      transcripts.map(t => t.lesson).filter(l => l.program.isSequential && !isPaidLocked(l)),
+      new Map(enrollments.map(e => [e.programId, e.type]))
+    );
+
+    const results = matches
+      .map(match => transcriptMap.get(match.id))
+      .filter(Boolean)
+      .map(transcript => {
+        const { lesson } = transcript;
+        const enrollment = enrollmentMap.get(lesson.programId);
+        const isLocked = isPaidLocked(lesson);
+        const unlocksAt = getLessonUnlocksAt(lesson, enrollment.enrolledAt);
+        const prerequisite = prerequisites.get(lesson.id) || null;
+        return {
+          transcriptId: transcript.id,
+          language: transcript.language,
+          label: transcript.label,
+          lesson: { id: lesson.id, title: lesson.title },
+          program: { id: lesson.program.id, name: lesson.program.name },
+          isLocked,
+          unlocksAt,
+          prerequisite,
+          matches: isLocked || unlocksAt || prerequisite ? [] : findMatchingCues(transcript.cues, q)
+        };
+      });
+
+    res.json({ success: true, data: { results } });
   } catch (error) {
     next(error);
   }
@@ -946,23 +1907,16 @@ router.get('/sessions', async (req, res, next) => {
       const startDate = new Date(year, month - 1, 1);
       const endDate = new Date(year, month, 0, 23, 59, 59);
 
-      // Get enrolled program IDs — only ADMIN/PAID get session access
+      // Get enrollments — only ADMIN/PAID get session access
       const enrollments = await req.prisma.enrollment.findMany({
         where: { userId },
-        select: { programId: true, type: true }
+        select: { programId: true, cohortId: true, type: true }
       });
-      const programIds = enrollments
-        .filter(e => e.type === 'ADMIN' || e.type === 'PAID')
-        .map(e => e.programId);
+      const sessionEnrollments = enrollments.filter(e => e.type === 'ADMIN' || e.type === 'PAID');
 
       let expandedSessions = [];
-      if (programIds.length > 0) {
-        const programFilter = {
-          OR: [
-            { sessionPrograms: { some: { programId: null } } },
-            { sessionPrograms: { some: { programId: { in: programIds } } } }
-          ]
-        };
+      if (sessionEnrollments.length > 0) {
+        const programFilter = sessionVisibilityWhere(sessionEnrollments);
 
         const sessions = await req.prisma.session.findMany({
           where: {
@@ -974,7 +1928,9 @@ router.get('/sessions', async (req, res, next) => {
           include: {
             sessionPrograms: {
               include: { program: { select: { name: true } } }
-            }
+            },
+            overrides: true,
+            recordings: { select: { occurrenceDate: true } }
           },
           orderBy: { startTime: 'asc' }
         });
@@ -997,6 +1953,9 @@ router.get('/sessions', async (req, res, next) => {
           startTime: s.startTime,
           endTime: s.endTime,
           meetLink: s.meetLink,
+          occurrenceDate: occurrenceKey(s),
+          isModified: !!s.isModified,
+          hasRecording: (s.recordings || []).some(r => r.occurrenceDate === occurrenceKey(s)),
           programName: s.sessionPrograms.find(sp => sp.program)?.program?.name || null
         })),
         total: expandedSessions.length
@@ -1025,20 +1984,13 @@ router.get('/sessions/calendar', async (req, res, next) => {
 
     const enrollments = await req.prisma.enrollment.findMany({
       where: { userId },
-      select: { programId: true, type: true }
+      select: { programId: true, cohortId: true, type: true }
     });
-    const programIds = enrollments
-      .filter(e => e.type === 'ADMIN' || e.type === 'PAID')
-      .map(e => e.programId);
+    const sessionEnrollments = enrollments.filter(e => e.type === 'ADMIN' || e.type === 'PAID');
 
     let sessions = [];
-    if (programIds.length > 0) {
-      const programFilter = {
-        OR: [
-          { sessionPrograms: { some: { programId: null } } },
-          { sessionPrograms: { some: { programId: { in: programIds } } } }
-        ]
-      };
+    if (sessionEnrollments.length > 0) {
+      const programFilter = sessionVisibilityWhere(sessionEnrollments);
 
       sessions = await req.prisma.session.findMany({
         where: {
@@ -1052,7 +2004,9 @@ router.get('/sessions/calendar', async (req, res, next) => {
         include: {
           sessionPrograms: {
             include: { program: { select: { name: true } } }
-          }
+          },
+          overrides: true,
+          recordings: { select: { occurrenceDate: true } }
         },
         orderBy: { startTime: 'asc' }
       });
@@ -1079,6 +2033,9 @@ router.get('/sessions/calendar', async (req, res, next) => {
           startTime: s.startTime,
           endTime: s.endTime,
           meetLink: s.meetLink,
+          occurrenceDate: occurrenceKey(s),
+          isModified: !!s.isModified,
+          hasRecording: (s.recordings || []).some(r => r.occurrenceDate === occurrenceKey(s)),
           programName: s.sessionPrograms.find(sp => sp.program)?.program?.name || null
         }))
       }
@@ -1088,6 +2045,226 @@ router.get('/sessions/calendar', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /learner/sessions/:id/join?occurrence=YYYY-MM-DD
+ * Record attendance for the occurrence and redirect to the meeting link
+ */
+router.get('/sessions/:id/join', async (req, res, next) => {
+  try {
+    const userId = req.user.id;
+
+    const session = await req.prisma.session.findUnique({
+      where: { id: req.params.id },
+      include: {
+        sessionPrograms: { select: { programId: true, cohortId: true } },
+        overrides: true
+      }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Session not found' }
+      });
+    }
+
+    const enrollments = await req.prisma.enrollment.findMany({
+      where: { userId, type: { in: ['ADMIN', 'PAID'] } },
+      select: { programId: true, cohortId: true }
+    });
+    if (!isSessionVisibleTo(session.sessionPrograms, enrollments)) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'This session is not part of your programs' }
+      });
+    }
+
+    const occurrence = findOccurrence(session, req.query.occurrence || toDateKey(session.startTime));
+    if (!occurrence || !occurrence.meetLink) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: occurrence ? 'Session not found' : 'Session occurrence not found' }
+      });
+    }
+
+    // Joins well before the start or after the end don't count as attending
+    const now = new Date();
+    if (isWithinJoinWindow(occurrence, now)) {
+      const occurrenceDate = occurrenceKey(occurrence);
+      try {
+        await req.prisma.sessionAttendance.upsert({
+          where: { sessionId_userId_occurrenceDate: { sessionId: session.id, userId, occurrenceDate } },
+          create: { sessionId: session.id, userId, occurrenceDate, joinedAt: now, joinCount: 1 },
+          update: { joinCount: { increment: 1 } }
+        });
+      } catch (err) {
+        // Never keep the learner out of the meeting over a tracking failure
+        console.error('Failed to record session attendance:', err.message);
+      }
+    }
+
+    res.redirect(occurrence.meetLink);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /learner/sessions/:id/recording?occurrence=YYYY-MM-DD
+ * Signed video URL of an occurrence's recording
+ */
+router.get('/sessions/:id/recording', async (req, res, next) => {
+  try {
+    const userId = req.user.id;
+
+    const session = await req.prisma.session.findUnique({
+      where: { id: req.params.id },
+      include: { sessionPrograms: { select: { programId: true, cohortId: true } } }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Session not found' }
+      });
+    }
+
+    const enrollments = await req.prisma.enrollment.findMany({
+      where: { userId, type: { in: ['ADMIN', 'PAID'] } },
+      select: { programId: true, cohortId: true }
+    });
+    if (!isSessionVisibleTo(session.sessionPrograms, enrollments)) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'This session is not part of your programs' }
+      });
+    }
+
+    const occurrenceDate = req.query.occurrence || toDateKey(session.startTime);
+    const recording = await req.prisma.sessionRecording.findUnique({
+      where: { sessionId_occurrenceDate: { sessionId: session.id, occurrenceDate } }
+    });
+    if (!recording) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'No recording is available for this session' }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        videoUrl: generateSignedVideoUrl(recording.videoUrl),
+        durationSeconds: recording.durationSeconds
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /learner/sessions/:id/ics?occurrence=YYYY-MM-DD
+ * Download one session occurrence as an .ics file ("Add to calendar")
+ */
+router.get('/sessions/:id/ics', async (req, res, next) => {
+  try {
+    const session = await req.prisma.session.findUnique({
+      where: { id: req.params.id },
+      include: {
+        sessionPrograms: { select: { programId: true, cohortId: true } },
+        overrides: true
+      }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Session not found' }
+      });
+    }
+
+    const enrollments = await req.prisma.enrollment.findMany({
+      where: { userId: req.user.id, type: { in: ['ADMIN', 'PAID'] } },
+      select: { programId: true, cohortId: true }
+    });
+    if (!isSessionVisibleTo(session.sessionPrograms, enrollments)) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'This session is not part of your programs' }
+      });
+    }
+
+    const occurrence = findOccurrence(session, req.query.occurrence || toDateKey(session.startTime));
+    if (!occurrence) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Session occurrence not found' }
+      });
+    }
+
+    const ics = buildCalendar([sessionEventLines(session, { occurrence })], { name: session.name });
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${getSessionIcsFileName(session)}"`
+    });
+    res.send(ics);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /learner/calendar-feed
+ * The learner's ICS subscription URL (the secret token is created on first use)
+ */
+router.get('/calendar-feed', async (req, res, next) => {
+  try {
+    const user = await req.prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { calendarToken: true }
+    });
+
+    let token = user.calendarToken;
+    if (!token) {
+      token = crypto.randomBytes(24).toString('hex');
+      await req.prisma.user.update({
+        where: { id: req.user.id },
+        data: { calendarToken: token }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { url: getCalendarFeedUrl(req, token) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /learner/calendar-feed/reset
+ * Replace the feed token — the old URL stops working
+ */
+router.post('/calendar-feed/reset', async (req, res, next) => {
+  try {
+    const token = crypto.randomBytes(24).toString('hex');
+    await req.prisma.user.update({
+      where: { id: req.user.id },
+      data: { calendarToken: token }
+    });
+
+    res.json({
+      success: true,
+      data: { url: getCalendarFeedUrl(req, token) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /learner/profile
  * Get learner profile with progress counts
@@ -1112,6 +2289,12 @@ router.get('/profile', async (req, res, next) => {
       const enrolledProgramIds = user.enrollments.map(e => e.programId);
       const enrolledPrograms = user.enrollments.map(e => e.program.name);
 
+      const certificates = await req.prisma.certificate.findMany({
+        where: { userId },
+        orderBy: { issuedAt: 'desc' },
+        select: { id: true, code: true, programId: true, programName: true, issuedAt: true }
+      });
+
       // Fetch all counts in parallel (2 queries instead of 2N)
       const [completedLessonsCount, totalLessonsCount, lessonsByProgram, completedByProgram] = await Promise.all([
         req.prisma.progress.count({
@@ -1168,7 +2351,8 @@ router.get('/profile', async (req, res, next) => {
         enrolledProgramsCount: enrolledPrograms.length,
         completedLessonsCount,
         totalLessonsCount,
-        completedProgramsCount
+        completedProgramsCount,
+        certificates
       };
     }, 300); // 5 minutes
 
@@ -1181,9 +2365,103 @@ router.get('/profile', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /learner/certificates/:id/download
+ * Render the learner's certificate as a PDF
+ */
+router.get('/certificates/:id/download', async (req, res, next) => {
+  try {
+    const certificate = await req.prisma.certificate.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!certificate || certificate.userId !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Certificate not found' }
+      });
+    }
+
+    const pdf = await renderCertificatePdf(certificate);
+    const fileName = `certificate-${certificate.programName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.pdf`;
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': pdf.length
+    });
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /learner/invoices
+ * List the learner's tax invoices (newest first)
+ */
+router.get('/invoices', async (req, res, next) => {
+  try {
+    const userId = req.user.id;
+
+    // Backfill invoices that failed to issue when the payment was confirmed
+    const uninvoiced = await req.prisma.payment.findMany({
+      where: { userId, status: { in: ['SUCCESS', 'REFUNDED'] }, amount: { gt: 0 }, invoice: { is: null } },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' }
+    });
+    for (const payment of uninvoiced) {
+      await issueInvoiceForPayment(req.prisma, payment.id);
+    }
+
+    const invoices = await req.prisma.invoice.findMany({
+      where: { userId },
+      orderBy: { issuedAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { invoices: invoices.map(formatInvoice) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /learner/invoices/:id/download
+ * Render the learner's invoice as a PDF
+ */
+router.get('/invoices/:id/download', async (req, res, next) => {
+  try {
+    const invoice = await req.prisma.invoice.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!invoice || invoice.userId !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Invoice not found' }
+      });
+    }
+
+    const pdf = await renderInvoicePdf(invoice);
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${getInvoiceFileName(invoice)}"`,
+      'Content-Length': pdf.length
+    });
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /learner/files/:attachmentId
- * Authenticated file access — verifies enrollment + lesson access before redirecting to R2
+ * Authenticated file access — verifies enrollment + lesson access (plan, drip
+ * schedule, sequential order) before redirecting to R2
  */
 router.get('/files/:attachmentId', async (req, res, next) => {
   try {
@@ -1194,7 +2472,11 @@ router.get('/files/:attachmentId', async (req, res, next) => {
       where: { id: attachmentId },
       include: {
         lesson: {
-          select: { id: true, programId: true, isFree: true }
+          select: {
+            id: true, programId: true, isFree: true,
+            ...DRIP_SELECT, ...LESSON_TOPIC_DRIP,
+            program: { select: { isSequential: true } }
+          }
         }
       }
     });
@@ -1228,6 +2510,28 @@ router.get('/files/:attachmentId', async (req, res, next) => {
       });
     }
 
+    // Drip schedule
+    const unlocksAt = getLessonUnlocksAt(attachment.lesson, enrollment.enrolledAt);
+    if (unlocksAt) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'LESSON_SCHEDULED', message: 'This lesson is not available yet', unlocksAt }
+      });
+    }
+
+    // Sequential progression
+    if (attachment.lesson.program?.isSequential) {
+      const prerequisite = await getIncompletePrerequisite(
+        req.prisma, userId, attachment.lesson.programId, attachment.lesson.id, enrollment.type
+      );
+      if (prerequisite) {
+        return res.status(403).json({
+          success: false,
+          error: { code: 'PREREQUISITE_INCOMPLETE', message: `Complete "${prerequisite.title}" first`, prerequisite }
+        });
+      }
+    }
+
     // Redirect to R2 URL (URL is not exposed in API responses)
     res.redirect(attachment.fileUrl);
   } catch (error) {
@@ -1239,6 +2543,73 @@ router.get('/files/:attachmentId', async (req, res, next) => {
 // HELPER FUNCTIONS
 // ==========================================
 
+// Keys the submission upload endpoint writes: submissions/<userId>/<uuid>.<ext>,
+// or submissions/<uuid>.<ext> for uploads from before per-learner folders
+const SUBMISSION_KEY_REGEX = /^submissions\/(?:([A-Za-z0-9-]+)\/)?[0-9a-f-]{36}\.[a-z0-9]+$/;
+
+// Storage key of a submission upload URL, or null for anything else (other hosts, paths with ..)
+function getSubmissionFileKey(fileUrl) {
+  const prefix = `${process.env.R2_PUBLIC_URL}/`;
+  if (typeof fileUrl !== 'string' || !fileUrl.startsWith(prefix)) return null;
+  const key = fileUrl.slice(prefix.length);
+  return SUBMISSION_KEY_REGEX.test(key) ? key : null;
+}
+
+function isOwnSubmissionKey(key, userId) {
+  const match = key && SUBMISSION_KEY_REGEX.exec(key);
+  return !!match && match[1] === userId;
+}
+
+// Public feed URL on this API's own host (calendar apps fetch it without cookies)
+function getCalendarFeedUrl(req, token) {
+  return `${req.protocol}://${req.get('host')}/calendar/${token}.ics`;
+}
+
+function getSessionIcsFileName(session) {
+  const slug = session.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+  return `${slug}.ics`;
+}
+
+/**
+ * Sequential programs: point each lesson at the previous accessible lesson
+ * (content tree order) while that one isn't completed. Mutates the tree.
+ */
+function applySequentialLocks(items, progressMap, state = { previous: null }) {
+  for (const item of items) {
+    if (item.type !== 'lesson') {
+      applySequentialLocks(item.children || [], progressMap, state);
+      continue;
+    }
+    // Paid lessons don't count towards the sequence for FREE enrollments
+    if (item.isLocked) continue;
+
+    const previous = state.previous;
+    if (previous && progressMap.get(previous.id)?.status !== 'COMPLETED') {
+      item.prerequisite = { id: previous.id, title: previous.title };
+    }
+    state.previous = item;
+  }
+}
+
+// A topic's own unlock date while it is still in the future
+function getPendingUnlockDate(topic, enrolledAt) {
+  const date = getUnlockDate(topic, enrolledAt);
+  return date && date > new Date() ? date : null;
+}
+
+/**
+ * Program content is cached with the unlock dates that were pending at the time;
+ * clear the ones that have passed since so items open on schedule.
+ */
+function clearPassedUnlocks(items) {
+  const now = new Date();
+  return items.map(item => ({
+    ...item,
+    unlocksAt: item.unlocksAt && new Date(item.unlocksAt) > now ? item.unlocksAt : null,
+    ...(item.children ? { children: clearPassedUnlocks(item.children) } : {})
+  }));
+}
+
 /**
  * Generate signed URL for Bunny.net video
  * Bunny Stream uses: token = SHA256(SECURITY_KEY + VIDEO_ID + EXPIRATION)
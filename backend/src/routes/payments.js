@@ -5,14 +5,149 @@ const { authenticate, requireLearner } = require('../middleware/auth');
 const { createCashfreeOrder, getPaymentStatus, verifyWebhookSignature } = require('../utils/cashfree');
 const { sendPaymentConfirmationEmail } = require('../utils/email');
 const { cacheDel } = require('../utils/cache');
+const { COUPON_HOLD_MS, validateCoupon, applyCouponDiscount, formatCouponQuote } = require('../utils/coupons');
+const { issueInvoiceForPayment } = require('../utils/invoices');
+const { buildInstallmentSchedule } = require('../utils/installments');
+const { applyRefundStatus } = require('../utils/refunds');
+
+// Smallest order amount Cashfree accepts
+const CASHFREE_MIN_ORDER_AMOUNT = 1;
+
+// Never fail a confirmed payment over its invoice — missing invoices are
+// backfilled when the learner lists them (GET /learner/invoices)
+async function issueInvoiceSafely(prisma, paymentId) {
+  try {
+    return await issueInvoiceForPayment(prisma, paymentId);
+  } catch (error) {
+    console.error(`Failed to issue invoice for payment ${paymentId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Open a Cashfree order for an enrollment and record it as a PENDING payment.
+ * A coupon order expires once its hold on the coupon ends.
+ * Returns the checkout details sent back to the learner.
+ */
+async function startCheckout(prisma, { enrollment, program, user, amount, installmentId = null, metadata = {} }) {
+  const cashfreeOrder = await createCashfreeOrder({
+    orderId: `order_${enrollment.id}_${Date.now()}`,
+    amount,
+    currency: program.currency || 'INR',
+    customerEmail: user.email,
+    customerName: user.name,
+    customerPhone: user.mobile || '9999999999',
+    returnUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/programs/${program.id}?payment=success`,
+    notifyUrl: `${process.env.BACKEND_URL || 'http://localhost:3001'}/payments/webhook`,
+    ...(metadata.coupon && { expiresAt: new Date(Date.now() + COUPON_HOLD_MS) })
+  });
+
+  // Delete any existing PENDING payment for this enrollment (from failed/abandoned attempts)
+  await prisma.payment.deleteMany({
+    where: { enrollmentId: enrollment.id, status: 'PENDING' }
+  });
+
+  // Create Payment record — use our custom order_id (not cf_order_id)
+  // Cashfree API endpoints expect the merchant's order_id
+  const merchantOrderId = cashfreeOrder.order_id;
+
+  await prisma.payment.create({
+    data: {
+      userId: enrollment.userId,
+      enrollmentId: enrollment.id,
+      programId: program.id,
+      cashfreeOrderId: merchantOrderId,
+      amount,
+      currency: program.currency || 'INR',
+      status: 'PENDING',
+      ...(installmentId && { installmentId }),
+      metadata: {
+        cfOrderId: cashfreeOrder.cf_order_id,
+        ...metadata
+      }
+    }
+  });
+
+  return {
+    status: 'PENDING',
+    sessionId: cashfreeOrder.payment_session_id,
+    orderId: merchantOrderId,
+    orderAmount: amount,
+    orderCurrency: program.currency || 'INR',
+    cashfreeEnv: process.env.CASHFREE_ENV || 'sandbox'
+  };
+}
+
+/**
+ * Unlock the enrollment for a successful payment (inside its transaction).
+ * Installment payments also mark their part paid and lift any suspension;
+ * paidAt keeps the date of the first part.
+ */
+async function grantPaidAccess(tx, payment) {
+  const paidAt = new Date();
+  const isLaterInstallment = payment.metadata?.installment?.sequence > 1;
+
+  if (payment.installmentId) {
+    await tx.installment.update({
+      where: { id: payment.installmentId },
+      data: { paidAt }
+    });
+  }
+  await tx.enrollment.update({
+    where: { id: payment.enrollmentId },
+    data: { type: 'PAID', suspendedAt: null, ...(!isLaterInstallment && { paidAt }) }
+  });
+}
+
+/**
+ * POST /payments/preview-coupon
+ * Preview the discounted price of a program with a coupon code
+ */
+router.post('/preview-coupon', authenticate, requireLearner, async (req, res, next) => {
+  try {
+    const { programId, code } = req.body;
+
+    if (!programId || !code) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Program ID and coupon code are required' }
+      });
+    }
+
+    const program = await req.prisma.program.findUnique({
+      where: { id: programId },
+      select: { id: true, price: true, currency: true }
+    });
+
+    if (!program || !program.price || parseFloat(program.price) <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'NO_PRICE', message: 'This program does not have a price set' }
+      });
+    }
+
+    const { coupon, error } = await validateCoupon(req.prisma, code, { programId, userId: req.user.id });
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    res.json({
+      success: true,
+      data: formatCouponQuote(coupon, parseFloat(program.price), program.currency)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
 /**
  * POST /payments/create-order
- * Create a Cashfree payment order for upgrading enrollment
+ * Create a Cashfree payment order for upgrading enrollment, optionally with a
+ * coupon or as the first part of an installment plan
  */
 router.post('/create-order', authenticate, requireLearner, async (req, res, next) => {
   try {
-    const { programId } = req.body;
+    const { programId, couponCode, installmentPlanId } = req.body;
     const userId = req.user.id;
 
     if (!programId) {
@@ -22,6 +157,13 @@ router.post('/create-order', authenticate, requireLearner, async (req, res, next
       });
     }
 
+    if (couponCode && installmentPlanId) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Coupons cannot be combined with installment plans' }
+      });
+    }
+
     // Get enrollment
     const enrollment = await req.prisma.enrollment.findUnique({
       where: { userId_programId: { userId, programId } }
@@ -41,6 +183,13 @@ router.post('/create-order', authenticate, requireLearner, async (req, res, next
       });
     }
 
+    if (enrollment.suspendedAt) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INSTALLMENT_OVERDUE', message: 'Pay your overdue installment to restore access' }
+      });
+    }
+
     // Get program with price
     const program = await req.prisma.program.findUnique({
       where: { id: programId }
@@ -53,56 +202,218 @@ router.post('/create-order', authenticate, requireLearner, async (req, res, next
       });
     }
 
+    let plan = null;
+    if (installmentPlanId) {
+      plan = await req.prisma.installmentPlan.findUnique({ where: { id: installmentPlanId } });
+      if (!plan || !plan.isActive || plan.programId !== programId) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_PLAN', message: 'This installment plan is not available' }
+        });
+      }
+    }
+
+    // Apply coupon (or take the first installment)
+    let amount = plan ? buildInstallmentSchedule(plan)[0].amount : parseFloat(program.price);
+    let couponMetadata = null;
+    if (couponCode) {
+      const { coupon, error } = await validateCoupon(req.prisma, couponCode, { programId, userId });
+      if (error) {
+        return res.status(400).json({ success: false, error });
+      }
+
+      const { originalAmount, discount, finalAmount } = applyCouponDiscount(coupon, amount);
+      if (finalAmount > 0 && finalAmount < CASHFREE_MIN_ORDER_AMOUNT) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_COUPON',
+            message: `This coupon leaves less than the minimum payment of ${CASHFREE_MIN_ORDER_AMOUNT} ${program.currency || 'INR'}`
+          }
+        });
+      }
+
+      couponMetadata = { id: coupon.id, code: coupon.code, discount, originalAmount };
+      amount = finalAmount;
+    }
+
     // Get user details for Cashfree
     const user = await req.prisma.user.findUnique({
       where: { id: userId },
       select: { email: true, name: true, mobile: true }
     });
 
-    // Create Cashfree order
-    const amount = parseFloat(program.price);
-    const cashfreeOrder = await createCashfreeOrder({
-      orderId: `order_${enrollment.id}_${Date.now()}`,
+    // Fully discounted — upgrade without going through Cashfree
+    if (amount === 0) {
+      const orderId = `coupon_${enrollment.id}_${Date.now()}`;
+
+      await req.prisma.$transaction([
+        req.prisma.payment.deleteMany({
+          where: { enrollmentId: enrollment.id, status: 'PENDING' }
+        }),
+        req.prisma.payment.create({
+          data: {
+            userId,
+            enrollmentId: enrollment.id,
+            programId,
+            cashfreeOrderId: orderId,
+            amount: 0,
+            currency: program.currency || 'INR',
+            status: 'SUCCESS',
+            paymentMethod: 'COUPON',
+            metadata: { coupon: couponMetadata }
+          }
+        }),
+        req.prisma.installment.deleteMany({ where: { enrollmentId: enrollment.id } }),
+        req.prisma.enrollment.update({
+          where: { id: enrollment.id },
+          data: { type: 'PAID', paidAt: new Date() }
+        })
+      ]);
+
+      await Promise.all([
+        cacheDel(`learner:home:${userId}`),
+        cacheDel(`learner:profile:${userId}`),
+        cacheDel(`learner:program:${userId}:${programId}`)
+      ]);
+
+      sendPaymentConfirmationEmail(
+        user.email,
+        user.name,
+        program.name,
+        0,
+        program.currency || 'INR'
+      ).catch(err => console.error('Failed to send payment email:', err));
+
+      return res.json({
+        success: true,
+        data: {
+          status: 'SUCCESS',
+          orderId,
+          orderAmount: 0,
+          orderCurrency: program.currency || 'INR'
+        }
+      });
+    }
+
+    // Installment plan: the first part is charged now, later parts are scheduled
+    let installmentId = null;
+    let installmentMetadata = null;
+    if (plan) {
+      const schedule = buildInstallmentSchedule(plan);
+
+      // A new checkout replaces the schedule of an abandoned (or refunded) one
+      const [, ...installments] = await req.prisma.$transaction([
+        req.prisma.installment.deleteMany({ where: { enrollmentId: enrollment.id } }),
+        ...schedule.map(part => req.prisma.installment.create({
+          data: { enrollmentId: enrollment.id, planId: plan.id, ...part }
+        }))
+      ]);
+
+      installmentId = installments[0].id;
+      installmentMetadata = { planId: plan.id, sequence: 1, count: plan.installmentCount };
+    } else {
+      // Paying in full — drop the schedule of any abandoned installment checkout
+      await req.prisma.installment.deleteMany({ where: { enrollmentId: enrollment.id } });
+    }
+
+    const checkout = await startCheckout(req.prisma, {
+      enrollment,
+      program,
+      user,
       amount,
-      currency: program.currency || 'INR',
-      customerEmail: user.email,
-      customerName: user.name,
-      customerPhone: user.mobile || '9999999999',
-      returnUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/programs/${programId}?payment=success`,
-      notifyUrl: `${process.env.BACKEND_URL || 'http://localhost:3001'}/payments/webhook`
+      installmentId,
+      metadata: {
+        ...(couponMetadata && { coupon: couponMetadata }),
+        ...(installmentMetadata && { installment: installmentMetadata })
+      }
     });
 
-    // Delete any existing PENDING payment for this enrollment (from failed/abandoned attempts)
-    await req.prisma.payment.deleteMany({
-      where: { enrollmentId: enrollment.id, status: 'PENDING' }
+    res.json({
+      success: true,
+      data: checkout
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /payments/installments/:id/create-order
+ * Create a Cashfree payment order for the next installment of a plan
+ */
+router.post('/installments/:id/create-order', authenticate, requireLearner, async (req, res, next) => {
+  try {
+    const userId = req.user.id;
 
-    // Create Payment record — use our custom order_id (not cf_order_id)
-    // Cashfree API endpoints expect the merchant's order_id
-    const merchantOrderId = cashfreeOrder.order_id;
-
-    await req.prisma.payment.create({
-      data: {
-        userId,
-        enrollmentId: enrollment.id,
-        programId,
-        cashfreeOrderId: merchantOrderId,
-        amount,
-        currency: program.currency || 'INR',
-        status: 'PENDING',
-        metadata: { cfOrderId: cashfreeOrder.cf_order_id }
+    const installment = await req.prisma.installment.findUnique({
+      where: { id: req.params.id },
+      include: {
+        enrollment: { include: { program: true } },
+        plan: { select: { installmentCount: true } }
+      }
+    });
+
+    if (!installment || installment.enrollment.userId !== userId) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Installment not found' }
+      });
+    }
+
+    if (installment.paidAt) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'ALREADY_PAID', message: 'This installment has already been paid' }
+      });
+    }
+
+    // The first part is paid at checkout (POST /payments/create-order)
+    if (installment.sequence === 1) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INSTALLMENT_OUT_OF_ORDER', message: 'Start the installment plan from checkout' }
+      });
+    }
+
+    const earlierUnpaid = await req.prisma.installment.count({
+      where: {
+        enrollmentId: installment.enrollmentId,
+        sequence: { lt: installment.sequence },
+        paidAt: null
+      }
+    });
+
+    if (earlierUnpaid > 0) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INSTALLMENT_OUT_OF_ORDER', message: 'Pay your earlier installments first' }
+      });
+    }
+
+    const user = await req.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, name: true, mobile: true }
+    });
+
+    const checkout = await startCheckout(req.prisma, {
+      enrollment: installment.enrollment,
+      program: installment.enrollment.program,
+      user,
+      amount: parseFloat(installment.amount),
+      installmentId: installment.id,
+      metadata: {
+        installment: {
+          planId: installment.planId,
+          sequence: installment.sequence,
+          count: installment.plan.installmentCount
+        }
       }
     });
 
     res.json({
       success: true,
-      data: {
-        sessionId: cashfreeOrder.payment_session_id,
-        orderId: merchantOrderId,
-        orderAmount: amount,
-        orderCurrency: program.currency || 'INR',
-        cashfreeEnv: process.env.CASHFREE_ENV || 'sandbox'
-      }
+      data: checkout
     });
   } catch (error) {
     next(error);
@@ -146,6 +457,14 @@ router.post('/verify', authenticate, requireLearner, async (req, res, next) => {
       });
     }
 
+    // Refunded orders still report SUCCESS at Cashfree — never re-grant access
+    if (payment.status === 'REFUNDED') {
+      return res.json({
+        success: true,
+        data: { status: 'REFUNDED', message: 'This payment has been refunded' }
+      });
+    }
+
     // Check with Cashfree
     const cashfreeStatus = await getPaymentStatus(orderId);
     const paymentDetails = cashfreeStatus?.filter?.(p => p.payment_status === 'SUCCESS')?.[0];
@@ -154,7 +473,7 @@ router.post('/verify', authenticate, requireLearner, async (req, res, next) => {
       // Update payment + enrollment (interactive transaction to prevent race)
       const updated = await req.prisma.$transaction(async (tx) => {
         const current = await tx.payment.findUnique({ where: { id: payment.id } });
-        if (current.status === 'SUCCESS') return false;
+        if (current.status === 'SUCCESS' || current.status === 'REFUNDED') return false;
 
         await tx.payment.update({
           where: { id: payment.id },
@@ -164,10 +483,7 @@ router.post('/verify', authenticate, requireLearner, async (req, res, next) => {
             paymentMethod: paymentDetails.payment_group || null
           }
         });
-        await tx.enrollment.update({
-          where: { id: payment.enrollmentId },
-          data: { type: 'PAID', paidAt: new Date() }
-        });
+        await grantPaidAccess(tx, payment);
         return true;
       });
 
@@ -181,16 +497,20 @@ router.post('/verify', authenticate, requireLearner, async (req, res, next) => {
       // Bust learner caches
       await Promise.all([
         cacheDel(`learner:home:${userId}`),
-        cacheDel(`learner:profile:${userId}`)
+        cacheDel(`learner:profile:${userId}`),
+        cacheDel(`learner:program:${userId}:${payment.programId}`)
       ]);
 
+      const invoice = await issueInvoiceSafely(req.prisma, payment.id);
+
       // Send confirmation email
       sendPaymentConfirmationEmail(
         payment.user.email,
         payment.user.name,
         payment.program.name,
         parseFloat(payment.amount),
-        payment.program.currency || 'INR'
+        payment.program.currency || 'INR',
+        invoice
       ).catch(err => console.error('Failed to send payment email:', err));
 
       return res.json({
@@ -228,7 +548,8 @@ router.post('/verify', authenticate, requireLearner, async (req, res, next) => {
 
 /**
  * POST /payments/webhook
- * Cashfree webhook callback (unauthenticated, HMAC verified)
+ * Cashfree webhook callback (unauthenticated, HMAC verified): payment
+ * results and refund status updates
  */
 router.post('/webhook', async (req, res, next) => {
   try {
@@ -254,6 +575,19 @@ router.post('/webhook', async (req, res, next) => {
       return res.status(200).json({ success: true }); // Acknowledge to stop retries
     }
 
+    // Refund status (REFUND_STATUS_WEBHOOK): settles refunds recorded as PENDING
+    const refundData = payload?.data?.refund;
+    if (refundData) {
+      const updated = await applyRefundStatus(req.prisma, refundData);
+      if (updated) {
+        await Promise.all([
+          cacheDel(`learner:home:${updated.userId}`),
+          cacheDel(`learner:profile:${updated.userId}`)
+        ]);
+      }
+      return res.status(200).json({ success: true });
+    }
+
     const orderData = payload?.data?.order;
     const paymentData = payload?.data?.payment;
 
@@ -271,8 +605,8 @@ router.post('/webhook', async (req, res, next) => {
       return res.status(200).json({ success: true }); // Acknowledge unknown orders
     }
 
-    // Idempotent: skip if already processed
-    if (payment.status === 'SUCCESS') {
+    // Idempotent: skip if already processed (or refunded since)
+    if (payment.status === 'SUCCESS' || payment.status === 'REFUNDED') {
       return res.status(200).json({ success: true });
     }
 
@@ -291,7 +625,7 @@ router.post('/webhook', async (req, res, next) => {
       const updated = await req.prisma.$transaction(async (tx) => {
         // Re-read inside transaction to prevent race condition with duplicate webhooks
         const current = await tx.payment.findUnique({ where: { id: payment.id } });
-        if (current.status === 'SUCCESS') return false;
+        if (current.status === 'SUCCESS' || current.status === 'REFUNDED') return false;
 
         await tx.payment.update({
           where: { id: payment.id },
@@ -301,10 +635,7 @@ router.post('/webhook', async (req, res, next) => {
             paymentMethod: paymentData.payment_group || null
           }
         });
-        await tx.enrollment.update({
-          where: { id: payment.enrollmentId },
-          data: { type: 'PAID', paidAt: new Date() }
-        });
+        await grantPaidAccess(tx, payment);
         return true;
       });
 
@@ -312,16 +643,20 @@ router.post('/webhook', async (req, res, next) => {
         // Bust caches
         await Promise.all([
           cacheDel(`learner:home:${payment.userId}`),
-          cacheDel(`learner:profile:${payment.userId}`)
+          cacheDel(`learner:profile:${payment.userId}`),
+          cacheDel(`learner:program:${payment.userId}:${payment.programId}`)
         ]);
 
+        const invoice = await issueInvoiceSafely(req.prisma, payment.id);
+
         // Send confirmation email
         sendPaymentConfirmationEmail(
           payment.user.email,
           payment.user.name,
           payment.program.name,
           parseFloat(payment.amount),
-          payment.program.currency || 'INR'
+          payment.program.currency || 'INR',
+          invoice
         ).catch(err => console.error('Webhook: Failed to send payment email:', err));
       }
     } else if (paymentData?.payment_status === 'FAILED') {
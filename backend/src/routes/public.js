@@ -1,6 +1,7 @@
 // Public Routes (no auth required)
 const express = require('express');
 const router = express.Router();
+const { validateCoupon, formatCouponQuote } = require('../utils/coupons');
 
 /**
  * GET /public/programs/:slug
@@ -157,4 +158,53 @@ router.get('/programs/:slug', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /public/programs/:slug/coupon?code=
+ * Preview a coupon on the registration page (per-learner limits are checked at checkout)
+ */
+router.get('/programs/:slug/coupon', async (req, res, next) => {
+  try {
+    const { slug } = req.params;
+    const { code } = req.query;
+
+    if (!code) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Coupon code is required' }
+      });
+    }
+
+    const program = await req.prisma.program.findUnique({
+      where: { slug },
+      select: { id: true, isPublished: true, price: true, currency: true }
+    });
+
+    if (!program || !program.isPublished) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Program not found' }
+      });
+    }
+
+    if (!program.price || parseFloat(program.price) <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'NO_PRICE', message: 'This program does not have a price set' }
+      });
+    }
+
+    const { coupon, error } = await validateCoupon(req.prisma, String(code), { programId: program.id });
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    res.json({
+      success: true,
+      data: formatCouponQuote(coupon, parseFloat(program.price), program.currency)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 module.exports = router;
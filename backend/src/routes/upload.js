@@ -0,0 +1,121 @@
+// Learner Upload Routes
+const express = require('express');
+const router = express.Router();
+const multer = require('multer');
+const rateLimit = require('express-rate-limit');
+const { S3Client, PutObjectCommand } = require('@aws-sdk/client-s3');
+const { v4: uuidv4 } = require('uuid');
+const { authenticate, requireLearner } = require('../middleware/auth');
+
+router.use(authenticate);
+router.use(requireLearner);
+
+// Rate limit uploads: 10 per minute per user
+const uploadLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10,
+  keyGenerator: (req) => req.user?.id || 'unknown',
+  message: {
+    success: false,
+    error: { code: 'TOO_MANY_REQUESTS', message: 'Too many uploads. Please wait a moment.' }
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  validate: { ip: false },
+});
+
+// Allowed MIME types for assignment submissions
+const ALLOWED_SUBMISSION_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/zip',
+  'text/plain',
+  'image/jpeg',
+  'image/png',
+];
+
+// Map MIME types to safe extensions
+const MIME_TO_EXT = {
+  'application/pdf': 'pdf',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-powerpoint': 'ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/zip': 'zip',
+  'text/plain': 'txt',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+};
+
+// Configure multer for memory storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 25 * 1024 * 1024 // 25MB limit for submissions
+  }
+});
+
+// Configure R2 client
+const r2Client = new S3Client({
+  region: 'auto',
+  endpoint: `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+  credentials: {
+    accessKeyId: process.env.R2_ACCESS_KEY_ID,
+    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY
+  }
+});
+
+/**
+ * POST /learner/upload/submission
+ * Upload an assignment submission file
+ */
+router.post('/submission', uploadLimiter, upload.single('file'), async (req, res, next) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'No file provided' }
+      });
+    }
+
+    if (!ALLOWED_SUBMISSION_TYPES.includes(req.file.mimetype)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'File type not allowed. Accepted: PDF, DOC, DOCX, XLS, XLSX, PPT, PPTX, ZIP, TXT, JPG, PNG' }
+      });
+    }
+
+    const fileExtension = MIME_TO_EXT[req.file.mimetype] || 'bin';
+    // Under the learner's own folder, so a submission can only use their uploads
+    const fileName = `submissions/${req.user.id}/${uuidv4()}.${fileExtension}`;
+
+    await r2Client.send(new PutObjectCommand({
+      Bucket: process.env.R2_BUCKET_NAME,
+      Key: fileName,
+      Body: req.file.buffer,
+      ContentType: req.file.mimetype
+    }));
+
+    const url = `${process.env.R2_PUBLIC_URL}/${fileName}`;
+
+    res.json({
+      success: true,
+      data: {
+        url,
+        name: req.file.originalname,
+        type: req.file.mimetype
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
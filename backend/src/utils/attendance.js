@@ -0,0 +1,193 @@
+/**
+ * Live session attendance. Each occurrence of a session (one per day for
+ * recurring sessions) is keyed by its "YYYY-MM-DD" date, as in
+ * Session.excludedDates. Learners are marked present by joining through the
+ * tracked redirect, or by an admin; learners with no row were absent.
+ */
+const { expandRecurringSession, findSeriesOccurrence, occurrenceKey, toDateKey } = require('./recurrence');
+const { sessionAudienceWhere } = require('./cohorts');
+
+const MINUTE_MS = 60 * 1000;
+const JOIN_OPENS_MINUTES = 15; // Joins this long before the start still count
+const DEFAULT_DURATION_MINUTES = 60; // For sessions without an end time
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+function occurrenceEnd(occurrence) {
+  return occurrence.endTime
+    ? new Date(occurrence.endTime)
+    : new Date(new Date(occurrence.startTime).getTime() + DEFAULT_DURATION_MINUTES * MINUTE_MS);
+}
+
+/**
+ * The occurrence of a session on a date key, or null if it has none that day
+ */
+function findOccurrence(session, occurrenceDate) {
+  if (typeof occurrenceDate !== 'string' || !DATE_KEY.test(occurrenceDate)) return null;
+
+  if (!session.isRecurring) {
+    return toDateKey(new Date(session.startTime)) === occurrenceDate ? session : null;
+  }
+
+  return findSeriesOccurrence(session, occurrenceDate);
+}
+
+/**
+ * Whether a join right now counts as attending the occurrence
+ */
+function isWithinJoinWindow(occurrence, now = new Date()) {
+  const opensAt = new Date(new Date(occurrence.startTime).getTime() - JOIN_OPENS_MINUTES * MINUTE_MS);
+  return now >= opensAt && now <= occurrenceEnd(occurrence);
+}
+
+/**
+ * Occurrences that have started, between `from` (default: the first one) and `to`
+ */
+function listStartedOccurrences(session, from, to, now = new Date()) {
+  const rangeStart = from || new Date(session.startTime);
+  const rangeEnd = to && to < now ? to : now;
+
+  const occurrences = session.isRecurring
+    ? expandRecurringSession(session, rangeStart, rangeEnd)
+    : [session];
+  return occurrences.filter(o => {
+    const start = new Date(o.startTime);
+    return start >= rangeStart && start <= rangeEnd;
+  });
+}
+
+/**
+ * Learners expected at a session: paid/admin-enrolled learners of its
+ * programs or cohorts, with their earliest enrollment date
+ */
+function findAttendanceRoster(prisma, session) {
+  return prisma.enrollment.findMany({
+    where: {
+      ...sessionAudienceWhere(session.sessionPrograms),
+      type: { in: ['ADMIN', 'PAID'] },
+      user: { role: 'LEARNER' }
+    },
+    select: {
+      userId: true,
+      enrolledAt: true,
+      user: { select: { name: true, email: true } }
+    },
+    orderBy: { enrolledAt: 'asc' },
+    distinct: ['userId']
+  });
+}
+
+/**
+ * Per-occurrence attendance lists and per-learner attendance rates.
+ * A learner is expected at an occurrence if enrolled before it ended, or if
+ * it has an attendance row for them (joined, or marked by an admin).
+ */
+function buildAttendanceReport(occurrences, roster, records) {
+  const learners = new Map();
+  for (const enrollment of roster) {
+    learners.set(enrollment.userId, {
+      userId: enrollment.userId,
+      name: enrollment.user.name,
+      email: enrollment.user.email,
+      enrolledAt: new Date(enrollment.enrolledAt),
+      attended: 0,
+      expected: 0
+    });
+  }
+  // Learners who attended but have since left the audience
+  for (const record of records) {
+    if (!learners.has(record.userId)) {
+      learners.set(record.userId, {
+        userId: record.userId,
+        name: record.user.name,
+        email: record.user.email,
+        enrolledAt: null,
+        attended: 0,
+        expected: 0
+      });
+    }
+  }
+
+  const recordsByKey = new Map(records.map(r => [`${r.occurrenceDate}:${r.userId}`, r]));
+
+  const occurrenceRows = occurrences.map(occurrence => {
+    const occurrenceDate = occurrenceKey(occurrence);
+    const endsAt = occurrenceEnd(occurrence);
+    const attendees = [];
+
+    for (const learner of learners.values()) {
+      const record = recordsByKey.get(`${occurrenceDate}:${learner.userId}`);
+      if (!record && (!learner.enrolledAt || learner.enrolledAt > endsAt)) continue;
+
+      const present = !!record?.present;
+      learner.expected += 1;
+      if (present) learner.attended += 1;
+      attendees.push({
+        userId: learner.userId,
+        name: learner.name,
+        email: learner.email,
+        present,
+        joinedAt: record?.joinedAt || null,
+        joinCount: record?.joinCount || 0,
+        markedByAdmin: !!record?.markedById
+      });
+    }
+
+    attendees.sort((a, b) => a.name.localeCompare(b.name));
+    return {
+      occurrenceDate,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      presentCount: attendees.filter(a => a.present).length,
+      expectedCount: attendees.length,
+      attendees
+    };
+  });
+
+  const learnerRows = [...learners.values()]
+    .filter(l => l.expected > 0)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(({ userId, name, email, attended, expected }) => ({
+      userId,
+      name,
+      email,
+      attended,
+      expected,
+      percentage: Math.round((attended / expected) * 100)
+    }));
+
+  return { occurrences: occurrenceRows, learners: learnerRows };
+}
+
+/**
+ * CSV columns for a report: one row per learner, one Present/Absent column
+ * per occurrence (blank when the learner was not expected)
+ */
+function attendanceCsvColumns(report) {
+  const statusByKey = new Map();
+  for (const occurrence of report.occurrences) {
+    for (const attendee of occurrence.attendees) {
+      statusByKey.set(`${occurrence.occurrenceDate}:${attendee.userId}`, attendee.present ? 'Present' : 'Absent');
+    }
+  }
+
+  return [
+    { header: 'Learner', value: l => l.name },
+    { header: 'Email', value: l => l.email },
+    ...report.occurrences.map(o => ({
+      header: o.occurrenceDate,
+      value: l => statusByKey.get(`${o.occurrenceDate}:${l.userId}`) || ''
+    })),
+    { header: 'Attended', value: l => l.attended },
+    { header: 'Sessions', value: l => l.expected },
+    { header: 'Attendance (%)', value: l => l.percentage }
+  ];
+}
+
+module.exports = {
+  findOccurrence,
+  isWithinJoinWindow,
+  listStartedOccurrences,
+  findAttendanceRoster,
+  buildAttendanceReport,
+  attendanceCsvColumns
+};
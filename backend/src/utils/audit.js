@@ -19,4 +19,50 @@ function logAudit(prisma, { admin, action, targetType, targetId, details }) {
   }
 }
 
-module.exports = { logAudit };
+// Dates as ISO strings and Prisma Decimals as numbers, so values compare and store as JSON
+function auditValue(value) {
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value.toNumber === 'function') return value.toNumber();
+  return value ?? null;
+}
+
+/**
+ * Fields an update changed, as { before, after } for the audit log's diff view
+ */
+function diffChanges(existing, data) {
+  const before = {};
+  const after = {};
+  for (const [field, value] of Object.entries(data)) {
+    const previous = auditValue(existing[field]);
+    const next = auditValue(value);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      before[field] = previous;
+      after[field] = next;
+    }
+  }
+  return { before, after };
+}
+
+/**
+ * Audit entries about a target. Programs and learners also match entries on
+ * their cohorts, plans, lessons, enrollments, payments etc., which name them
+ * in details (programId / learnerId / userId).
+ */
+function auditTargetWhere(targetType, targetId) {
+  const own = { targetType, targetId };
+  if (targetType === 'Program') {
+    return { OR: [own, { details: { path: ['programId'], equals: targetId } }] };
+  }
+  if (targetType === 'User') {
+    return {
+      OR: [
+        own,
+        { details: { path: ['learnerId'], equals: targetId } },
+        { details: { path: ['userId'], equals: targetId } }
+      ]
+    };
+  }
+  return own;
+}
+
+module.exports = { logAudit, diffChanges, auditTargetWhere };
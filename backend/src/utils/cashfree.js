@@ -11,9 +11,9 @@ const SECRET_KEY = process.env.CASHFREE_SECRET_KEY;
 const WEBHOOK_SECRET = process.env.CASHFREE_WEBHOOK_SECRET;
 
 /**
- * Create a Cashfree order
+ * Create a Cashfree order (payable until expiresAt, when given)
  */
-async function createCashfreeOrder({ orderId, amount, currency, customerEmail, customerName, customerPhone, returnUrl, notifyUrl }) {
+async function createCashfreeOrder({ orderId, amount, currency, customerEmail, customerName, customerPhone, returnUrl, notifyUrl, expiresAt }) {
   if (!APP_ID || !SECRET_KEY) {
     throw new Error('Cashfree credentials not configured');
   }
@@ -39,7 +39,8 @@ async function createCashfreeOrder({ orderId, amount, currency, customerEmail, c
       order_meta: {
         return_url: returnUrl,
         notify_url: notifyUrl
-      }
+      },
+      ...(expiresAt && { order_expiry_time: expiresAt.toISOString() })
     })
   });
 
@@ -80,6 +81,39 @@ async function getPaymentStatus(orderId) {
   return data;
 }
 
+/**
+ * Refund a paid order (full or partial). refundId must be unique per refund.
+ */
+async function createCashfreeRefund({ orderId, refundId, amount, note }) {
+  if (!APP_ID || !SECRET_KEY) {
+    throw new Error('Cashfree credentials not configured');
+  }
+
+  const response = await fetch(`${BASE_URL}/orders/${orderId}/refunds`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-client-id': APP_ID,
+      'x-client-secret': SECRET_KEY,
+      'x-api-version': '2023-08-01'
+    },
+    body: JSON.stringify({
+      refund_id: refundId,
+      refund_amount: amount,
+      ...(note && { refund_note: note.slice(0, 100) })
+    })
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    console.error('Cashfree refund error:', data);
+    throw new Error(data.message || 'Failed to create refund');
+  }
+
+  return data;
+}
+
 /**
  * Verify Cashfree webhook signature (HMAC-SHA256)
  */
@@ -111,6 +145,7 @@ function verifyWebhookSignature(timestamp, rawBody, signature) {
 
 module.exports = {
   createCashfreeOrder,
+  createCashfreeRefund,
   getPaymentStatus,
   verifyWebhookSignature
 };
@@ -0,0 +1,136 @@
+/**
+ * Program completion certificates.
+ * A certificate is issued once a learner has completed every lesson in a
+ * program (same rule as completedProgramsCount on /learner/profile) and
+ * carries a public verification code printed on the PDF.
+ */
+const crypto = require('crypto');
+const PDFDocument = require('pdfkit');
+
+// No 0/O/1/I to keep codes readable when typed from a printout
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const BRAND_COLOR = '#FF6B57';
+const TEXT_COLOR = '#0f172a';
+const MUTED_COLOR = '#64748b';
+
+function generateCertificateCode() {
+  const bytes = crypto.randomBytes(12);
+  const chars = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return `WA-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
+
+function getVerificationUrl(code) {
+  return `${process.env.FRONTEND_URL || 'http://localhost:3000'}/verify/${code}`;
+}
+
+/**
+ * True when the program has lessons and the learner completed all of them
+ */
+async function isProgramComplete(prisma, userId, programId) {
+  const [total, completed] = await Promise.all([
+    prisma.lesson.count({ where: { programId } }),
+    prisma.progress.count({
+      where: { userId, status: 'COMPLETED', lesson: { programId } }
+    })
+  ]);
+  return total > 0 && completed >= total;
+}
+
+/**
+ * Issue a certificate if the learner has finished the program.
+ * Idempotent — returns the existing certificate when one was already issued,
+ * or null when the program is not complete yet.
+ */
+async function issueCertificateIfComplete(prisma, userId, programId) {
+  const existing = await prisma.certificate.findUnique({
+    where: { userId_programId: { userId, programId } }
+  });
+  if (existing) return existing;
+
+  if (!(await isProgramComplete(prisma, userId, programId))) return null;
+
+  const [user, program] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { name: true } }),
+    prisma.program.findUnique({ where: { id: programId }, select: { name: true } })
+  ]);
+  if (!user || !program) return null;
+
+  try {
+    return await prisma.certificate.create({
+      data: {
+        userId,
+        programId,
+        code: generateCertificateCode(),
+        learnerName: user.name,
+        programName: program.name
+      }
+    });
+  } catch (error) {
+    // Concurrent completion requests — the other one already issued it
+    if (error.code === 'P2002') {
+      return prisma.certificate.findUnique({
+        where: { userId_programId: { userId, programId } }
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Render a certificate as an A4 landscape PDF. Resolves to a Buffer.
+ */
+function renderCertificatePdf(certificate) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 0 });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { width, height } = doc.page;
+    const issuedOn = new Date(certificate.issuedAt).toLocaleDateString('en-IN', {
+      day: 'numeric', month: 'long', year: 'numeric'
+    });
+
+    // Border
+    doc.rect(20, 20, width - 40, height - 40).lineWidth(4).stroke(BRAND_COLOR);
+    doc.rect(32, 32, width - 64, height - 64).lineWidth(1).stroke(BRAND_COLOR);
+
+    doc.fillColor(BRAND_COLOR).font('Helvetica-Bold').fontSize(16)
+      .text('WAVE ACADEMY', 0, 80, { align: 'center', characterSpacing: 4 });
+
+    doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(36)
+      .text('Certificate of Completion', 0, 130, { align: 'center' });
+
+    doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(14)
+      .text('This is to certify that', 0, 200, { align: 'center' });
+
+    doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(30)
+      .text(certificate.learnerName, 60, 235, { align: 'center', width: width - 120 });
+
+    doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(14)
+      .text('has successfully completed the program', 0, 295, { align: 'center' });
+
+    doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(22)
+      .text(certificate.programName, 80, 325, { align: 'center', width: width - 160 });
+
+    doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(12)
+      .text(`Issued on ${issuedOn}`, 0, 400, { align: 'center' });
+
+    // Verification footer
+    doc.fillColor(MUTED_COLOR).fontSize(10)
+      .text(`Certificate ID: ${certificate.code}`, 0, height - 100, { align: 'center' })
+      .text(`Verify at ${getVerificationUrl(certificate.code)}`, 0, height - 84, { align: 'center' });
+
+    doc.end();
+  });
+}
+
+module.exports = {
+  generateCertificateCode,
+  getVerificationUrl,
+  isProgramComplete,
+  issueCertificateIfComplete,
+  renderCertificatePdf
+};
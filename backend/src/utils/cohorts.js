@@ -0,0 +1,178 @@
+/**
+ * Cohorts — batches of learners running through the same program (e.g. the
+ * "Jan 2026" batch). An enrollment belongs to at most one cohort of its
+ * program. Sessions (via SessionProgram.cohortId) and program notifications
+ * can target a single cohort instead of every learner of the program.
+ */
+
+function parseDate(value) {
+  const date = new Date(value);
+  return value && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * Parse cohort fields from an admin create/update body.
+ * On update pass the existing cohort — omitted fields are left unchanged.
+ * Returns { data } or { error }.
+ */
+function parseCohortInput(body, existing = null) {
+  const data = {};
+  const isCreate = !existing;
+
+  if (isCreate || body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100) {
+      return { error: 'Name is required (100 characters max)' };
+    }
+    data.name = name;
+  }
+
+  if (isCreate || body.startDate !== undefined) {
+    const startDate = parseDate(body.startDate);
+    if (!startDate) {
+      return { error: 'Start date is required' };
+    }
+    data.startDate = startDate;
+  }
+
+  if (body.endDate !== undefined) {
+    if (body.endDate === null || body.endDate === '') {
+      data.endDate = null;
+    } else {
+      const endDate = parseDate(body.endDate);
+      if (!endDate) {
+        return { error: 'End date is not a valid date' };
+      }
+      data.endDate = endDate;
+    }
+  }
+
+  const startDate = data.startDate || existing?.startDate;
+  const endDate = data.endDate !== undefined ? data.endDate : existing?.endDate;
+  if (startDate && endDate && endDate < startDate) {
+    return { error: 'End date must be on or after the start date' };
+  }
+
+  return { data };
+}
+
+function formatCohort(cohort) {
+  return {
+    id: cohort.id,
+    programId: cohort.programId,
+    name: cohort.name,
+    startDate: cohort.startDate,
+    endDate: cohort.endDate,
+    learnerCount: cohort._count?.enrollments ?? 0,
+    createdAt: cohort.createdAt
+  };
+}
+
+/**
+ * Check that an optional cohort belongs to the program.
+ * Returns { cohortId } (null when none given) or { error }.
+ */
+async function resolveCohortId(prisma, programId, cohortId) {
+  if (!cohortId) return { cohortId: null };
+
+  const cohort = await prisma.cohort.findUnique({
+    where: { id: cohortId },
+    select: { programId: true }
+  });
+  if (!cohort || cohort.programId !== programId) {
+    return { error: 'Cohort does not belong to this program' };
+  }
+  return { cohortId };
+}
+
+/**
+ * Session targets from admin input: whole programs plus single cohorts, as
+ * SessionProgram rows ({ programId } or { programId, cohortId }). A cohort
+ * whose whole program is targeted too is dropped. No targets = all programs.
+ * Returns { targets } or { error }.
+ */
+async function resolveSessionTargets(prisma, programIds = [], cohortIds = []) {
+  if (!Array.isArray(programIds) || !Array.isArray(cohortIds)) {
+    return { error: 'programIds and cohortIds must be arrays' };
+  }
+
+  const targets = programIds.map(programId => ({ programId }));
+  if (cohortIds.length > 0) {
+    const cohorts = await prisma.cohort.findMany({
+      where: { id: { in: cohortIds } },
+      select: { id: true, programId: true }
+    });
+    if (cohorts.length !== new Set(cohortIds).size) {
+      return { error: 'One or more cohort IDs are invalid' };
+    }
+    for (const cohort of cohorts) {
+      if (!programIds.includes(cohort.programId)) {
+        targets.push({ programId: cohort.programId, cohortId: cohort.id });
+      }
+    }
+  }
+
+  return { targets };
+}
+
+/**
+ * Enrollment where clause for the learners a session reaches, from its
+ * SessionProgram rows (none, or one with no program = every learner)
+ */
+function sessionAudienceWhere(sessionPrograms) {
+  if (sessionPrograms.length === 0 || sessionPrograms.some(sp => !sp.programId)) {
+    return {};
+  }
+  return {
+    OR: sessionPrograms.map(sp => (sp.cohortId ? { cohortId: sp.cohortId } : { programId: sp.programId }))
+  };
+}
+
+/**
+ * Session where clause for what a learner sees, from their enrollments
+ * ({ programId, cohortId }): sessions for all programs, for a whole program
+ * they are in, or for their cohort
+ */
+function sessionVisibilityWhere(enrollments) {
+  const programIds = enrollments.map(e => e.programId);
+  const cohortIds = enrollments.map(e => e.cohortId).filter(Boolean);
+
+  return {
+    OR: [
+      { sessionPrograms: { some: { programId: null } } },
+      { sessionPrograms: { some: { programId: { in: programIds }, cohortId: null } } },
+      ...(cohortIds.length > 0 ? [{ sessionPrograms: { some: { cohortId: { in: cohortIds } } } }] : [])
+    ]
+  };
+}
+
+/**
+ * In-memory version of sessionVisibilityWhere for one session's SessionProgram rows
+ */
+function isSessionVisibleTo(sessionPrograms, enrollments) {
+  return sessionPrograms.some(sp => {
+    if (!sp.programId) return true;
+    return sp.cohortId
+      ? enrollments.some(e => e.cohortId === sp.cohortId)
+      : enrollments.some(e => e.programId === sp.programId);
+  });
+}
+
+// "Program" or "Program · Cohort" for a SessionProgram row with its names included
+function sessionTargetLabel(sessionProgram) {
+  if (!sessionProgram.program) return 'All Programs';
+  return sessionProgram.cohort
+    ? `${sessionProgram.program.name} · ${sessionProgram.cohort.name}`
+    : sessionProgram.program.name;
+}
+
+module.exports = {
+  parseCohortInput,
+  formatCohort,
+  resolveCohortId,
+  resolveSessionTargets,
+  sessionAudienceWhere,
+  sessionVisibilityWhere,
+  isSessionVisibleTo,
+  sessionTargetLabel
+};
@@ -0,0 +1,201 @@
+/**
+ * Coupons — percent or flat discounts on a program's price.
+ * A coupon can be scoped to one program, expire, cap its total redemptions and
+ * limit how often one learner uses it. Paid orders count as redemptions, even if
+ * later refunded; the coupon applied to an order is recorded in Payment.metadata.coupon.
+ * An unpaid Cashfree order holds its use for COUPON_HOLD_MS, after which the order
+ * expires, so concurrent checkouts cannot redeem a coupon past its limits.
+ */
+
+const DISCOUNT_TYPES = ['PERCENT', 'FLAT'];
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+// How long a pending coupon order holds a use (Cashfree needs at least 15 minutes)
+const COUPON_HOLD_MS = 30 * 60 * 1000;
+
+function normalizeCouponCode(code) {
+  return typeof code === 'string' ? code.trim().toUpperCase() : '';
+}
+
+// Round to the smallest currency unit
+function roundAmount(value) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Prisma where clause for coupon uses: paid payments plus pending orders still
+ * holding one. A learner's own pending order for the program is left out, as
+ * their next checkout replaces it.
+ */
+function couponUsesWhere(couponId, { userId, programId, now = new Date() } = {}) {
+  const pending = {
+    status: 'PENDING',
+    createdAt: { gt: new Date(now.getTime() - COUPON_HOLD_MS) },
+    ...(userId && programId && { NOT: { userId, programId } })
+  };
+  return {
+    metadata: { path: ['coupon', 'id'], equals: couponId },
+    OR: [{ status: { in: ['SUCCESS', 'REFUNDED'] } }, pending]
+  };
+}
+
+/**
+ * Discount a coupon gives on a price. The discount never exceeds the price.
+ */
+function applyCouponDiscount(coupon, price) {
+  const value = parseFloat(coupon.discountValue);
+  const raw = coupon.discountType === 'PERCENT' ? (price * value) / 100 : value;
+  const discount = roundAmount(Math.min(raw, price));
+  return {
+    originalAmount: price,
+    discount,
+    finalAmount: roundAmount(price - discount)
+  };
+}
+
+/**
+ * Check a code against a program (and learner, when known).
+ * Returns { coupon } or { error: { code, message } }.
+ */
+async function validateCoupon(prisma, code, { programId, userId, now = new Date() }) {
+  const normalized = normalizeCouponCode(code);
+  const coupon = normalized
+    ? await prisma.coupon.findUnique({ where: { code: normalized } })
+    : null;
+
+  if (!coupon || !coupon.isActive) {
+    return { error: { code: 'INVALID_COUPON', message: 'This coupon code is not valid' } };
+  }
+
+  if (coupon.programId && coupon.programId !== programId) {
+    return { error: { code: 'INVALID_COUPON', message: 'This coupon is not valid for this program' } };
+  }
+
+  if (coupon.expiresAt && new Date(coupon.expiresAt) <= now) {
+    return { error: { code: 'COUPON_EXPIRED', message: 'This coupon has expired' } };
+  }
+
+  if (coupon.maxUses != null) {
+    const used = await prisma.payment.count({ where: couponUsesWhere(coupon.id, { userId, programId, now }) });
+    if (used >= coupon.maxUses) {
+      return { error: { code: 'COUPON_EXHAUSTED', message: 'This coupon has reached its usage limit' } };
+    }
+  }
+
+  if (userId && coupon.perUserLimit != null) {
+    const usedByUser = await prisma.payment.count({
+      where: { ...couponUsesWhere(coupon.id, { userId, programId, now }), userId }
+    });
+    if (usedByUser >= coupon.perUserLimit) {
+      return { error: { code: 'COUPON_LIMIT_REACHED', message: 'You have already used this coupon' } };
+    }
+  }
+
+  return { coupon };
+}
+
+/**
+ * Parse coupon fields from an admin create/update body.
+ * On update pass the existing coupon — omitted fields are left unchanged.
+ * Returns { data } or { error }.
+ */
+function parseCouponInput(body, existing = null) {
+  const data = {};
+  const isCreate = !existing;
+
+  if (isCreate || body.code !== undefined) {
+    const code = normalizeCouponCode(body.code);
+    if (!CODE_PATTERN.test(code)) {
+      return { error: 'Code must be 3-32 characters: letters, numbers, dashes or underscores' };
+    }
+    data.code = code;
+  }
+
+  if (body.description !== undefined) {
+    const description = body.description ? String(body.description).trim() : null;
+    if (description && description.length > 200) {
+      return { error: 'Description must be 200 characters or less' };
+    }
+    data.description = description || null;
+  }
+
+  if (isCreate || body.discountType !== undefined) {
+    if (!DISCOUNT_TYPES.includes(body.discountType)) {
+      return { error: 'Discount type must be PERCENT or FLAT' };
+    }
+    data.discountType = body.discountType;
+  }
+
+  if (isCreate || body.discountValue !== undefined) {
+    const value = Number(body.discountValue);
+    if (!Number.isFinite(value) || value <= 0) {
+      return { error: 'Discount value must be greater than 0' };
+    }
+    data.discountValue = roundAmount(value);
+  }
+
+  const discountType = data.discountType || existing?.discountType;
+  const discountValue = data.discountValue ?? parseFloat(existing?.discountValue);
+  if (discountType === 'PERCENT' && discountValue > 100) {
+    return { error: 'Percent discount cannot exceed 100' };
+  }
+
+  if (body.programId !== undefined) {
+    data.programId = body.programId || null;
+  }
+
+  if (body.expiresAt !== undefined) {
+    if (body.expiresAt === null || body.expiresAt === '') {
+      data.expiresAt = null;
+    } else {
+      const date = new Date(body.expiresAt);
+      if (isNaN(date.getTime())) {
+        return { error: 'Invalid expiry date' };
+      }
+      data.expiresAt = date;
+    }
+  }
+
+  for (const field of ['maxUses', 'perUserLimit']) {
+    if (body[field] === undefined) continue;
+    if (body[field] === null || body[field] === '') {
+      data[field] = null;
+      continue;
+    }
+    const limit = Number(body[field]);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return { error: field === 'maxUses' ? 'Usage limit must be a whole number of at least 1' : 'Per-learner limit must be a whole number of at least 1' };
+    }
+    data[field] = limit;
+  }
+
+  if (body.isActive !== undefined) {
+    data.isActive = body.isActive === true;
+  }
+
+  return { data };
+}
+
+/**
+ * Price breakdown returned by the coupon preview endpoints
+ */
+function formatCouponQuote(coupon, price, currency) {
+  return {
+    code: coupon.code,
+    discountType: coupon.discountType,
+    discountValue: parseFloat(coupon.discountValue),
+    currency: currency || 'INR',
+    ...applyCouponDiscount(coupon, price)
+  };
+}
+
+module.exports = {
+  DISCOUNT_TYPES,
+  COUPON_HOLD_MS,
+  normalizeCouponCode,
+  couponUsesWhere,
+  applyCouponDiscount,
+  validateCoupon,
+  parseCouponInput,
+  formatCouponQuote
+};
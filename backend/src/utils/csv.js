@@ -0,0 +1,26 @@
+/**
+ * CSV export helpers (RFC 4180 quoting)
+ */
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value) {
+  if (value === null || value === undefined) return '';
+  let str = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(str)) str = `'${str}`;
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Build a CSV string from column definitions ({ header, value(row) }) and rows
+ */
+function toCsv(columns, rows) {
+  const lines = [columns.map(c => escapeCsvValue(c.header)).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(c => escapeCsvValue(c.value(row))).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+module.exports = { escapeCsvValue, toCsv };
@@ -0,0 +1,102 @@
+/**
+ * Lesson discussions — learners ask questions under a lesson, anyone enrolled
+ * can reply and admins reply as instructors. Threads are one level deep: a
+ * reply to a reply joins the question's thread. A question is answered once
+ * an instructor has replied to it.
+ */
+
+const MAX_BODY_LENGTH = 5000;
+
+// Author fields shown next to a comment
+const AUTHOR_SELECT = { id: true, name: true, role: true };
+
+// Questions no instructor (any staff member) has replied to yet
+const UNANSWERED_WHERE = {
+  parentId: null,
+  isHidden: false,
+  replies: { none: { user: { role: { not: 'LEARNER' } } } }
+};
+
+/**
+ * Trimmed comment text from a request body. Returns { body } or { error }.
+ */
+function parseCommentBody(body) {
+  const text = typeof body === 'string' ? body.trim() : '';
+  if (!text) {
+    return { error: 'Comment cannot be empty' };
+  }
+  if (text.length > MAX_BODY_LENGTH) {
+    return { error: `Comments are limited to ${MAX_BODY_LENGTH} characters` };
+  }
+  return { body: text };
+}
+
+/**
+ * Prisma include for a question with its author and replies (oldest first).
+ * Learners don't see hidden replies; moderators do.
+ */
+function threadInclude({ includeHidden = false } = {}) {
+  return {
+    user: { select: AUTHOR_SELECT },
+    replies: {
+      ...(includeHidden ? {} : { where: { isHidden: false } }),
+      include: { user: { select: AUTHOR_SELECT } },
+      orderBy: { createdAt: 'asc' }
+    }
+  };
+}
+
+function formatComment(comment, viewerId) {
+  return {
+    id: comment.id,
+    body: comment.body,
+    author: {
+      id: comment.user.id,
+      name: comment.user.name,
+      isInstructor: comment.user.role !== 'LEARNER'
+    },
+    isOwn: comment.userId === viewerId,
+    isHidden: comment.isHidden,
+    editedAt: comment.editedAt,
+    createdAt: comment.createdAt
+  };
+}
+
+function formatThread(thread, viewerId) {
+  const replies = thread.replies || [];
+  return {
+    ...formatComment(thread, viewerId),
+    isPinned: thread.isPinned,
+    isLocked: thread.isLocked,
+    isAnswered: replies.some(reply => reply.user.role !== 'LEARNER'),
+    replies: replies.map(reply => formatComment(reply, viewerId))
+  };
+}
+
+/**
+ * DISCUSSION_REPLY notification to the learner who asked, when an instructor
+ * replies. Fire-and-forget.
+ */
+function notifyInstructorReply(prisma, { thread, lesson, admin }) {
+  if (thread.userId === admin.id) return;
+
+  prisma.notification.create({
+    data: {
+      userId: thread.userId,
+      type: 'DISCUSSION_REPLY',
+      title: 'New Reply to Your Question',
+      message: `${admin.name} replied to your question on "${lesson.title}"`,
+      data: { programId: lesson.programId, lessonId: lesson.id, commentId: thread.id }
+    }
+  }).catch(err => console.error('Failed to send discussion reply notification:', err));
+}
+
+module.exports = {
+  AUTHOR_SELECT,
+  UNANSWERED_WHERE,
+  parseCommentBody,
+  threadInclude,
+  formatComment,
+  formatThread,
+  notifyInstructorReply
+};
@@ -0,0 +1,83 @@
+/**
+ * Drip scheduling — topics and lessons can unlock a number of days after the
+ * learner enrolled (unlockAfterDays) or on a fixed date (unlockAt).
+ * A lesson is available once both its own rule and its topic's rule have passed.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_UNLOCK_DAYS = 3650;
+
+// Prisma select fragment for an item's drip fields
+const DRIP_SELECT = { unlockAfterDays: true, unlockAt: true };
+
+// Prisma include fragment for the topic rule a lesson inherits
+const LESSON_TOPIC_DRIP = {
+  topic: { select: DRIP_SELECT },
+  subtopic: { select: { topic: { select: DRIP_SELECT } } }
+};
+
+/**
+ * Parse drip fields from an admin create/update body.
+ * Omitted fields are left out (unchanged on update); null or '' clears them.
+ */
+function parseDripSchedule({ unlockAfterDays, unlockAt }) {
+  const data = {};
+
+  if (unlockAfterDays !== undefined) {
+    if (unlockAfterDays === null || unlockAfterDays === '') {
+      data.unlockAfterDays = null;
+    } else {
+      const days = Number(unlockAfterDays);
+      if (!Number.isInteger(days) || days < 0 || days > MAX_UNLOCK_DAYS) {
+        return { error: `Unlock offset must be a whole number of days between 0 and ${MAX_UNLOCK_DAYS}` };
+      }
+      data.unlockAfterDays = days;
+    }
+  }
+
+  if (unlockAt !== undefined) {
+    if (unlockAt === null || unlockAt === '') {
+      data.unlockAt = null;
+    } else {
+      const date = new Date(unlockAt);
+      if (isNaN(date.getTime())) {
+        return { error: 'Invalid unlock date' };
+      }
+      data.unlockAt = date;
+    }
+  }
+
+  return { data };
+}
+
+/**
+ * When an item's own rule unlocks it for this enrollment (null = no rule).
+ * A fixed date takes precedence over the day offset.
+ */
+function getUnlockDate(item, enrolledAt) {
+  if (!item) return null;
+  if (item.unlockAt) return new Date(item.unlockAt);
+  if (item.unlockAfterDays) {
+    return new Date(new Date(enrolledAt).getTime() + item.unlockAfterDays * DAY_MS);
+  }
+  return null;
+}
+
+/**
+ * Future unlock date for a lesson, or null when it is already available.
+ * Pass the topic explicitly, or include LESSON_TOPIC_DRIP on the lesson.
+ */
+function getLessonUnlocksAt(lesson, enrolledAt, topic = lesson.topic || lesson.subtopic?.topic, now = new Date()) {
+  const dates = [getUnlockDate(topic, enrolledAt), getUnlockDate(lesson, enrolledAt)]
+    .filter(date => date && date > now);
+  if (dates.length === 0) return null;
+  return new Date(Math.max(...dates.map(date => date.getTime())));
+}
+
+module.exports = {
+  DRIP_SELECT,
+  LESSON_TOPIC_DRIP,
+  parseDripSchedule,
+  getUnlockDate,
+  getLessonUnlocksAt
+};
@@ -1,5 +1,6 @@
 // Email Utility using Resend
 const { Resend } = require('resend');
+const { getInvoiceFileName, renderInvoicePdf } = require('./invoices');
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 const fromEmail = process.env.EMAIL_FROM || 'noreply@xperiencewave.com';
@@ -72,6 +73,60 @@ async function sendPasswordSetupEmail(email, name, token) {
   }
 }
 
+/**
+ * Send a team invite to a new admin panel user. Uses the same setup link as
+ * new learners; invites last longer (see routes/admin/team.js).
+ */
+async function sendTeamInviteEmail(email, name, roleLabel, invitedBy, token) {
+  const setupUrl = `${frontendUrl}/auth/setup-password?token=${token}`;
+
+  try {
+    await resend.emails.send({
+      from: fromEmail,
+      to: email,
+      subject: "You're invited to the Wave Academy admin panel",
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .button {
+              display: inline-block;
+              padding: 12px 24px;
+              background-color: #4F46E5;
+              color: white !important;
+              text-decoration: none;
+              border-radius: 8px;
+              margin: 20px 0;
+            }
+            .footer { margin-top: 30px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <h2>Join the Wave Academy team</h2>
+            <p>Hi ${escapeHtml(name)},</p>
+            <p>${escapeHtml(invitedBy)} has invited you to the Wave Academy admin panel as <strong>${escapeHtml(roleLabel)}</strong>. Set up your password to accept:</p>
+            <a href="${setupUrl}" class="button">Accept Invite</a>
+            <p>This link will expire in 7 days.</p>
+            <p>If you didn't expect this email, please ignore it.</p>
+            <div class="footer">
+              <p>Wave Academy | Powered by Xperience Wave</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+    console.log(`Team invite email sent to ${email}`);
+  } catch (error) {
+    console.error('Failed to send team invite email:', error);
+    throw error;
+  }
+}
+
 /**
  * Send password reset email
  */
@@ -126,14 +181,14 @@ async function sendPasswordResetEmail(email, name, token) {
 }
 
 /**
- * Send session reminder email
+ * Send session reminder email (session.startsIn, e.g. "24 hours", replaces "soon")
  */
 async function sendSessionReminderEmail(email, name, session) {
   try {
     await resend.emails.send({
       from: fromEmail,
       to: email,
-      subject: `Reminder: ${escapeHtml(session.name)} - Starting Soon`,
+      subject: `Reminder: ${escapeHtml(session.name)} - Starting ${session.startsIn ? `in ${session.startsIn}` : 'Soon'}`,
       html: `
         <!DOCTYPE html>
         <html>
@@ -157,7 +212,7 @@ async function sendSessionReminderEmail(email, name, session) {
           <div class="container">
             <h2>Session Reminder 📅</h2>
             <p>Hi ${escapeHtml(name)},</p>
-            <p>Your session is starting soon:</p>
+            <p>Your session is starting ${session.startsIn ? `in ${escapeHtml(session.startsIn)}` : 'soon'}:</p>
             <div class="session-details">
               <strong>${escapeHtml(session.name)}</strong><br>
               Time: ${new Date(session.startTime).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })} IST
@@ -253,12 +308,16 @@ async function sendWelcomeEmail(email, name, programName) {
 }
 
 /**
- * Send payment confirmation email
+ * Send payment confirmation email (with the tax invoice attached, when one was issued)
  */
-async function sendPaymentConfirmationEmail(email, name, programName, amount, currency) {
+async function sendPaymentConfirmationEmail(email, name, programName, amount, currency, invoice = null) {
   const currencySymbol = currency === 'INR' ? '₹' : '$';
 
   try {
+    const attachments = invoice
+      ? [{ filename: getInvoiceFileName(invoice), content: await renderInvoicePdf(invoice) }]
+      : undefined;
+
     await resend.emails.send({
       from: fromEmail,
       to: email,
@@ -270,11 +329,13 @@ async function sendPaymentConfirmationEmail(email, name, programName, amount, cu
         <div class="highlight">
           <strong>Payment Details</strong><br>
           Program: ${escapeHtml(programName)}<br>
-          Amount: ${currencySymbol}${amount}
+          Amount: ${currencySymbol}${amount}${invoice ? `<br>
+          Invoice: ${escapeHtml(invoice.invoiceNumber)} (attached)` : ''}
         </div>
         <a href="${frontendUrl}/learner" class="button">Continue Learning</a>
         <p>All lessons are now unlocked. Happy learning!</p>
-      `)
+      `),
+      attachments
     });
     console.log(`Payment confirmation email sent to ${email}`);
   } catch (error) {
@@ -282,6 +343,68 @@ async function sendPaymentConfirmationEmail(email, name, programName, amount, cu
   }
 }
 
+/**
+ * Remind a learner that their next installment falls due soon
+ */
+async function sendInstallmentReminderEmail(email, name, program, installment) {
+  const currencySymbol = program.currency === 'INR' ? '₹' : '$';
+  const dueDate = new Date(installment.dueDate).toLocaleDateString('en-IN', {
+    day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Asia/Kolkata'
+  });
+
+  try {
+    await resend.emails.send({
+      from: fromEmail,
+      to: email,
+      subject: `Installment ${installment.sequence} of ${installment.count} for ${program.name} is due on ${dueDate}`,
+      html: emailWrapper(`
+        <h2>Your Next Installment Is Due Soon</h2>
+        <p>Hi ${escapeHtml(name)},</p>
+        <p>Installment ${installment.sequence} of ${installment.count} for <strong>${escapeHtml(program.name)}</strong> is due soon. Pay it on time to keep full access to the program.</p>
+        <div class="highlight">
+          <strong>Amount:</strong> ${currencySymbol}${installment.amount}<br>
+          <strong>Due on:</strong> ${dueDate}
+        </div>
+        <a href="${frontendUrl}/learner/programs/${program.id}" class="button">Pay Installment</a>
+      `)
+    });
+    console.log(`Installment reminder email sent to ${email}`);
+  } catch (error) {
+    console.error('Failed to send installment reminder email:', error);
+  }
+}
+
+/**
+ * Tell a learner their full access is paused until an overdue installment is paid
+ */
+async function sendInstallmentSuspendedEmail(email, name, program, installment) {
+  const currencySymbol = program.currency === 'INR' ? '₹' : '$';
+  const dueDate = new Date(installment.dueDate).toLocaleDateString('en-IN', {
+    day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Asia/Kolkata'
+  });
+
+  try {
+    await resend.emails.send({
+      from: fromEmail,
+      to: email,
+      subject: `Access to ${program.name} is paused — installment overdue`,
+      html: emailWrapper(`
+        <h2>Your Access Is Paused</h2>
+        <p>Hi ${escapeHtml(name)},</p>
+        <p>Installment ${installment.sequence} of ${installment.count} for <strong>${escapeHtml(program.name)}</strong> was due on ${dueDate} and is still unpaid, so full access has been paused. Your progress is saved.</p>
+        <div class="highlight">
+          <strong>Amount due:</strong> ${currencySymbol}${installment.amount}
+        </div>
+        <a href="${frontendUrl}/learner/programs/${program.id}" class="button">Pay &amp; Restore Access</a>
+        <p>All lessons unlock again as soon as the payment goes through.</p>
+      `)
+    });
+    console.log(`Installment suspension email sent to ${email}`);
+  } catch (error) {
+    console.error('Failed to send installment suspension email:', error);
+  }
+}
+
 /**
  * Non-payer email sequence (5 steps)
  */
@@ -414,10 +537,13 @@ async function sendPayerSequenceEmail(email, name, programName, step) {
 
 module.exports = {
   sendPasswordSetupEmail,
+  sendTeamInviteEmail,
   sendPasswordResetEmail,
   sendSessionReminderEmail,
   sendWelcomeEmail,
   sendPaymentConfirmationEmail,
+  sendInstallmentReminderEmail,
+  sendInstallmentSuspendedEmail,
   sendNonPayerSequenceEmail,
   sendPayerSequenceEmail
 };
@@ -0,0 +1,261 @@
+/**
+ * iCalendar (RFC 5545) output for live sessions — the learner subscription
+ * feed and single-session "Add to calendar" downloads. Times are written in
+ * UTC; recurring sessions become one VEVENT with RRULE and EXDATE so removed
+ * occurrences disappear from subscribed calendars too. Series in a timezone
+ * other than UTC are written in that zone (TZID, defined by a VTIMEZONE) so
+ * calendars apply its DST changes the way the expansion does. Occurrences
+ * changed on their own are extra VEVENTs with the series' UID and a
+ * RECURRENCE-ID.
+ */
+const {
+  findSeriesOccurrence,
+  occurrenceKey,
+  parseUntil,
+  getZonedParts,
+  getZoneOffset,
+  DEFAULT_TIMEZONE
+} = require('./recurrence');
+
+const PRODID = '-//Wave Academy//Live Sessions//EN';
+const UID_DOMAIN = 'sessions.waveacademy';
+const DEFAULT_DURATION_MS = 60 * 60 * 1000; // Sessions without an end time
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VTIMEZONE_YEARS_AHEAD = 5; // Offset changes listed past this year
+
+function escapeText(value) {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// 2026-03-01T10:00:00.000Z -> 20260301T100000Z
+function formatDateTime(date) {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Wall-clock time in a timezone: 20260301T153000
+function formatLocalDateTime(date, timeZone) {
+  const p = getZonedParts(new Date(date), timeZone);
+  const pad = n => String(n).padStart(2, '0');
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line) {
+  const parts = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * RRULE for a Session.recurrenceRule. UNTIL=YYYYMMDD becomes the end of that
+ * day in the session's timezone, written in UTC as iCalendar requires.
+ */
+function toIcsRule(recurrenceRule, timeZone = DEFAULT_TIMEZONE) {
+  return recurrenceRule
+    .split(';')
+    .filter(Boolean)
+    .map(segment => {
+      const [key, value] = segment.split('=');
+      if (key === 'UNTIL' && /^\d{8}$/.test(value)) return `UNTIL=${formatDateTime(parseUntil(value, timeZone))}`;
+      return `${key}=${value}`;
+    })
+    .join(';');
+}
+
+// Start the rule gives the occurrence on a "YYYY-MM-DD" key, before exclusions and overrides
+function scheduledStart(session, dateKey) {
+  const occurrence = findSeriesOccurrence({ ...session, excludedDates: [], overrides: [] }, dateKey);
+  return occurrence ? new Date(occurrence.startTime) : null;
+}
+
+function eventEnd(event) {
+  return event.endTime
+    ? new Date(event.endTime)
+    : new Date(new Date(event.startTime).getTime() + DEFAULT_DURATION_MS);
+}
+
+/**
+ * VEVENT lines for a session (a series comes with one more VEVENT per
+ * changed occurrence). Pass `occurrence` (an expanded occurrence) for a
+ * one-off event on that date instead of the whole series.
+ */
+function sessionEventLines(session, { occurrence = null, now = new Date() } = {}) {
+  const event = occurrence || session;
+  const isSeries = !occurrence && session.isRecurring && !!session.recurrenceRule;
+  const uid = occurrence && session.isRecurring
+    ? `${session.id}-${occurrenceKey(occurrence)}@${UID_DOMAIN}`
+    : `${session.id}@${UID_DOMAIN}`;
+
+  const timeZone = session.timezone || DEFAULT_TIMEZONE;
+  const zoned = isSeries && timeZone !== DEFAULT_TIMEZONE;
+  const tzParam = zoned ? `;TZID=${timeZone}` : '';
+  const formatTime = date => (zoned ? formatLocalDateTime(date, timeZone) : formatDateTime(date));
+
+  const lines = eventLines(event, { uid, now, tzParam, formatTime });
+
+  if (isSeries) {
+    lines.push(`RRULE:${toIcsRule(session.recurrenceRule, timeZone)}`);
+    // Excluded dates are "YYYY-MM-DD" keys; EXDATE needs the occurrence's start time
+    const excluded = (Array.isArray(session.excludedDates) ? session.excludedDates : [])
+      .map(date => scheduledStart(session, date))
+      .filter(Boolean);
+    if (excluded.length > 0) {
+      lines.push(`EXDATE${tzParam}:${excluded.map(formatTime).join(',')}`);
+    }
+  }
+
+  lines.push('END:VEVENT');
+
+  if (isSeries) {
+    for (const override of Array.isArray(session.overrides) ? session.overrides : []) {
+      const changed = findSeriesOccurrence(session, override.occurrenceDate);
+      if (!changed) continue;
+      lines.push(
+        ...eventLines(changed, { uid, now, tzParam, formatTime }),
+        `RECURRENCE-ID${tzParam}:${formatTime(scheduledStart(session, override.occurrenceDate))}`,
+        'END:VEVENT'
+      );
+    }
+  }
+  return lines;
+}
+
+// BEGIN:VEVENT and the properties of one event, without END:VEVENT
+function eventLines(event, { uid, now, tzParam, formatTime }) {
+  const description = [event.description, event.meetLink && `Join: ${event.meetLink}`]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART${tzParam}:${formatTime(event.startTime)}`,
+    `DTEND${tzParam}:${formatTime(eventEnd(event))}`,
+    `SUMMARY:${escapeText(event.name)}`
+  ];
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (event.meetLink) {
+    lines.push(`LOCATION:${escapeText(event.meetLink)}`);
+    lines.push(`URL:${event.meetLink}`);
+  }
+  return lines;
+}
+
+// +0530, -0500
+function formatUtcOffset(offsetMs) {
+  const minutes = Math.abs(offsetMs) / MINUTE_MS;
+  const pad = n => String(n).padStart(2, '0');
+  return `${offsetMs < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+// Offset changes of a zone between two instants, found day by day and narrowed to the minute
+function zoneTransitions(timeZone, from, to) {
+  const transitions = [];
+  let previous = from;
+  let previousOffset = getZoneOffset(from, timeZone);
+  for (let time = from + DAY_MS; time <= to; time += DAY_MS) {
+    const offset = getZoneOffset(time, timeZone);
+    if (offset !== previousOffset) {
+      let before = previous;
+      let after = time;
+      while (after - before > MINUTE_MS) {
+        const middle = before + Math.floor((after - before) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (getZoneOffset(middle, timeZone) === previousOffset) before = middle;
+        else after = middle;
+      }
+      transitions.push({ at: after, from: previousOffset, to: offset });
+      previousOffset = offset;
+    }
+    previous = time;
+  }
+  return transitions;
+}
+
+/**
+ * VTIMEZONE for a zone: the offset in effect on January 1 of `fromYear`, then
+ * each change through `toYear`, as one observance per change
+ */
+function timezoneLines(timeZone, fromYear, toYear) {
+  const from = Date.UTC(fromYear, 0, 1);
+  const transitions = zoneTransitions(timeZone, from, Date.UTC(toYear + 1, 0, 1));
+  const initialOffset = getZoneOffset(from, timeZone);
+  // Local wall-clock time (the offset before the change) without a Z
+  const localTime = (time, offset) => formatDateTime(time + offset).replace('Z', '');
+
+  const observance = (start, offsetFrom, offsetTo, isDaylight) => [
+    `BEGIN:${isDaylight ? 'DAYLIGHT' : 'STANDARD'}`,
+    `DTSTART:${localTime(start, offsetFrom)}`,
+    `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+    `END:${isDaylight ? 'DAYLIGHT' : 'STANDARD'}`
+  ];
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observance(from, initialOffset, initialOffset, transitions.length > 0 && transitions[0].to < initialOffset),
+    ...transitions.flatMap(t => observance(t.at, t.from, t.to, t.to > t.from)),
+    'END:VTIMEZONE'
+  ];
+}
+
+/**
+ * A VTIMEZONE for each TZID the events use, covering their first year
+ * through a few years past now (series can run on indefinitely)
+ */
+function calendarTimezones(eventLines) {
+  const firstYears = new Map();
+  for (const line of eventLines) {
+    const match = /^[A-Z-]+;TZID=([^:]+):(\d{4})/.exec(line);
+    if (!match) continue;
+    const [, timeZone, year] = match;
+    firstYears.set(timeZone, Math.min(Number(year), firstYears.get(timeZone) ?? Infinity));
+  }
+
+  const currentYear = new Date().getUTCFullYear();
+  return [...firstYears].flatMap(([timeZone, firstYear]) =>
+    timezoneLines(timeZone, firstYear, Math.max(firstYear, currentYear) + VTIMEZONE_YEARS_AHEAD)
+  );
+}
+
+/**
+ * A complete VCALENDAR document from VEVENT line groups
+ */
+function buildCalendar(events, { name = 'Wave Academy Sessions' } = {}) {
+  const eventLines = events.flat();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Hint for subscribed calendars to refresh hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...calendarTimezones(eventLines),
+    ...eventLines,
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+module.exports = { toIcsRule, sessionEventLines, buildCalendar };
@@ -0,0 +1,220 @@
+/**
+ * Installment (EMI) plans — pay for a program in equal parts.
+ * The first part is paid at checkout and unlocks the program (Enrollment.type
+ * PAID); every later part is its own Cashfree order. When a part is still
+ * unpaid once the plan's grace period has passed, the enrollment is suspended:
+ * downgraded to FREE with suspendedAt set, until the learner pays it.
+ */
+const { cacheDel } = require('./cache');
+const { sendInstallmentReminderEmail, sendInstallmentSuspendedEmail } = require('./email');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REMINDER_DAYS_BEFORE = 3;
+
+// Round to the smallest currency unit
+function roundAmount(value) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Split a total into equal parts; the rounding remainder goes on the first part
+ */
+function splitInstallmentAmounts(total, count) {
+  const part = Math.floor((total / count) * 100) / 100;
+  return [roundAmount(total - part * (count - 1)), ...Array(count - 1).fill(part)];
+}
+
+/**
+ * Parts, amounts and due dates for a plan bought at `start`
+ */
+function buildInstallmentSchedule(plan, start = new Date()) {
+  const amounts = splitInstallmentAmounts(parseFloat(plan.totalAmount), plan.installmentCount);
+  return amounts.map((amount, i) => ({
+    sequence: i + 1,
+    amount,
+    dueDate: new Date(start.getTime() + i * plan.intervalDays * DAY_MS)
+  }));
+}
+
+function parseWholeNumber(value, min, max) {
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min && number <= max ? number : null;
+}
+
+/**
+ * Parse plan fields from an admin create/update body.
+ * On update pass the existing plan — omitted fields are left unchanged.
+ * Returns { data } or { error }.
+ */
+function parsePlanInput(body, existing = null) {
+  const data = {};
+  const isCreate = !existing;
+
+  if (isCreate || body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100) {
+      return { error: 'Name is required (100 characters max)' };
+    }
+    data.name = name;
+  }
+
+  if (isCreate || body.installmentCount !== undefined) {
+    const count = parseWholeNumber(body.installmentCount, 2, 24);
+    if (count === null) {
+      return { error: 'Number of installments must be a whole number from 2 to 24' };
+    }
+    data.installmentCount = count;
+  }
+
+  if (body.intervalDays !== undefined) {
+    const days = parseWholeNumber(body.intervalDays, 1, 365);
+    if (days === null) {
+      return { error: 'Days between installments must be a whole number from 1 to 365' };
+    }
+    data.intervalDays = days;
+  }
+
+  if (body.gracePeriodDays !== undefined) {
+    const days = parseWholeNumber(body.gracePeriodDays, 0, 90);
+    if (days === null) {
+      return { error: 'Grace period must be a whole number of days from 0 to 90' };
+    }
+    data.gracePeriodDays = days;
+  }
+
+  if (isCreate || body.totalAmount !== undefined) {
+    const total = Number(body.totalAmount);
+    if (!Number.isFinite(total) || total <= 0) {
+      return { error: 'Total amount must be greater than 0' };
+    }
+    data.totalAmount = roundAmount(total);
+  }
+
+  if (body.isActive !== undefined) {
+    data.isActive = body.isActive === true;
+  }
+
+  return { data };
+}
+
+function formatPlan(plan) {
+  const totalAmount = parseFloat(plan.totalAmount);
+  return {
+    id: plan.id,
+    programId: plan.programId,
+    name: plan.name,
+    installmentCount: plan.installmentCount,
+    intervalDays: plan.intervalDays,
+    gracePeriodDays: plan.gracePeriodDays,
+    totalAmount,
+    installmentAmounts: splitInstallmentAmounts(totalAmount, plan.installmentCount),
+    isActive: plan.isActive,
+    createdAt: plan.createdAt
+  };
+}
+
+function formatInstallment(installment) {
+  return {
+    id: installment.id,
+    sequence: installment.sequence,
+    amount: parseFloat(installment.amount),
+    dueDate: installment.dueDate,
+    paidAt: installment.paidAt
+  };
+}
+
+function bustEnrollmentCaches(userId, programId) {
+  return Promise.all([
+    cacheDel(`learner:home:${userId}`),
+    cacheDel(`learner:profile:${userId}`),
+    cacheDel(`learner:program:${userId}:${programId}`)
+  ]);
+}
+
+const ENROLLMENT_INCLUDE = {
+  enrollment: {
+    include: {
+      user: { select: { email: true, name: true } },
+      program: { select: { id: true, name: true, currency: true } }
+    }
+  },
+  plan: { select: { installmentCount: true, gracePeriodDays: true } }
+};
+
+/**
+ * Email learners whose next installment falls due within REMINDER_DAYS_BEFORE days (once per part)
+ */
+async function sendInstallmentReminders(prisma, now = new Date()) {
+  const upcoming = await prisma.installment.findMany({
+    where: {
+      paidAt: null,
+      reminderSentAt: null,
+      sequence: { gt: 1 },
+      dueDate: { gte: now, lte: new Date(now.getTime() + REMINDER_DAYS_BEFORE * DAY_MS) },
+      enrollment: { type: 'PAID' }
+    },
+    include: ENROLLMENT_INCLUDE
+  });
+
+  for (const installment of upcoming) {
+    const { user, program } = installment.enrollment;
+    await sendInstallmentReminderEmail(user.email, user.name, program, {
+      sequence: installment.sequence,
+      count: installment.plan.installmentCount,
+      amount: parseFloat(installment.amount),
+      dueDate: installment.dueDate
+    });
+    await prisma.installment.update({
+      where: { id: installment.id },
+      data: { reminderSentAt: now }
+    });
+  }
+
+  return upcoming.length;
+}
+
+/**
+ * Suspend enrollments with an installment unpaid past the plan's grace period
+ */
+async function suspendOverdueEnrollments(prisma, now = new Date()) {
+  const overdue = await prisma.installment.findMany({
+    where: { paidAt: null, dueDate: { lt: now }, enrollment: { type: 'PAID' } },
+    include: ENROLLMENT_INCLUDE,
+    orderBy: { sequence: 'asc' }
+  });
+
+  const suspended = new Set();
+  for (const installment of overdue) {
+    const { enrollment } = installment;
+    const graceEndsAt = new Date(installment.dueDate).getTime() + installment.plan.gracePeriodDays * DAY_MS;
+    if (graceEndsAt > now.getTime() || suspended.has(enrollment.id)) continue;
+
+    // Guarded on type so a payment landing meanwhile is not undone
+    const { count } = await prisma.enrollment.updateMany({
+      where: { id: enrollment.id, type: 'PAID' },
+      data: { type: 'FREE', suspendedAt: now }
+    });
+    if (count === 0) continue;
+    suspended.add(enrollment.id);
+
+    await bustEnrollmentCaches(enrollment.userId, enrollment.programId);
+    await sendInstallmentSuspendedEmail(enrollment.user.email, enrollment.user.name, enrollment.program, {
+      sequence: installment.sequence,
+      count: installment.plan.installmentCount,
+      amount: parseFloat(installment.amount),
+      dueDate: installment.dueDate
+    });
+  }
+
+  return suspended.size;
+}
+
+module.exports = {
+  splitInstallmentAmounts,
+  buildInstallmentSchedule,
+  parsePlanInput,
+  formatPlan,
+  formatInstallment,
+  sendInstallmentReminders,
+  suspendOverdueEnrollments
+};
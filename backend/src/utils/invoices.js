@@ -0,0 +1,254 @@
+/**
+ * GST tax invoices.
+ * Every paid order (amount > 0) gets one invoice, numbered consecutively within
+ * the Indian financial year (April-March). Program prices are GST inclusive, so
+ * the paid amount is split into taxable value + CGST/SGST. Learners have no
+ * billing address on file, so the place of supply is the seller's state.
+ */
+const PDFDocument = require('pdfkit');
+
+const BRAND_COLOR = '#FF6B57';
+const TEXT_COLOR = '#0f172a';
+const MUTED_COLOR = '#64748b';
+const LINE_COLOR = '#e2e8f0';
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+function getSellerDetails() {
+  return {
+    sellerName: process.env.INVOICE_SELLER_NAME || 'Wave Academy',
+    sellerGstin: process.env.INVOICE_SELLER_GSTIN || null,
+    sellerAddress: process.env.INVOICE_SELLER_ADDRESS || null
+  };
+}
+
+function getTaxRate() {
+  const rate = parseFloat(process.env.GST_RATE);
+  return Number.isFinite(rate) && rate >= 0 ? rate : 18;
+}
+
+// Round to the smallest currency unit
+function roundAmount(value) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Financial year label for a date in IST, e.g. 2026-27 for 15 Feb 2027
+ */
+function getFinancialYear(date = new Date()) {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+function formatInvoiceNumber(financialYear, sequence) {
+  const prefix = process.env.INVOICE_PREFIX || 'WA';
+  return `${prefix}/${financialYear}/${String(sequence).padStart(5, '0')}`;
+}
+
+/**
+ * Split a GST-inclusive total into taxable value and equal CGST/SGST halves
+ */
+function calculateTaxBreakup(total, taxRate) {
+  const taxableAmount = roundAmount(total / (1 + taxRate / 100));
+  const tax = roundAmount(total - taxableAmount);
+  const cgstAmount = roundAmount(tax / 2);
+  return {
+    taxableAmount,
+    cgstAmount,
+    sgstAmount: roundAmount(tax - cgstAmount),
+    totalAmount: roundAmount(total)
+  };
+}
+
+/**
+ * Issue the invoice for a paid order.
+ * Idempotent — returns the existing invoice for the payment, or null when the
+ * payment is not paid or was free (fully discounted by a coupon).
+ */
+async function issueInvoiceForPayment(prisma, paymentId) {
+  const existing = await prisma.invoice.findUnique({ where: { paymentId } });
+  if (existing) return existing;
+
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: {
+      user: { select: { name: true, email: true, mobile: true } },
+      program: { select: { name: true } }
+    }
+  });
+  if (!payment || !['SUCCESS', 'REFUNDED'].includes(payment.status)) return null;
+
+  const total = parseFloat(payment.amount);
+  if (!(total > 0)) return null;
+
+  const taxRate = getTaxRate();
+  const issuedAt = new Date();
+  const financialYear = getFinancialYear(issuedAt);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Row lock on the year's counter keeps numbers consecutive under concurrency
+      const sequence = await tx.invoiceSequence.upsert({
+        where: { financialYear },
+        create: { financialYear, lastNumber: 1 },
+        update: { lastNumber: { increment: 1 } }
+      });
+
+      return tx.invoice.create({
+        data: {
+          invoiceNumber: formatInvoiceNumber(financialYear, sequence.lastNumber),
+          financialYear,
+          paymentId: payment.id,
+          userId: payment.userId,
+          billingName: payment.user.name,
+          billingEmail: payment.user.email,
+          billingMobile: payment.user.mobile || null,
+          programName: payment.program.name,
+          sacCode: process.env.INVOICE_SAC_CODE || '999293',
+          currency: payment.currency || 'INR',
+          taxRate,
+          ...calculateTaxBreakup(total, taxRate),
+          ...getSellerDetails(),
+          issuedAt
+        }
+      });
+    });
+  } catch (error) {
+    // Verify and webhook raced — the other one already issued it
+    if (error.code === 'P2002') {
+      return prisma.invoice.findUnique({ where: { paymentId } });
+    }
+    throw error;
+  }
+}
+
+function formatInvoice(invoice) {
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    paymentId: invoice.paymentId,
+    billingName: invoice.billingName,
+    billingEmail: invoice.billingEmail,
+    billingMobile: invoice.billingMobile,
+    programName: invoice.programName,
+    sacCode: invoice.sacCode,
+    currency: invoice.currency,
+    taxRate: parseFloat(invoice.taxRate),
+    taxableAmount: parseFloat(invoice.taxableAmount),
+    cgstAmount: parseFloat(invoice.cgstAmount),
+    sgstAmount: parseFloat(invoice.sgstAmount),
+    totalAmount: parseFloat(invoice.totalAmount),
+    issuedAt: invoice.issuedAt
+  };
+}
+
+function formatMoney(value, currency) {
+  const symbol = currency === 'INR' ? 'Rs. ' : `${currency} `;
+  return `${symbol}${parseFloat(value).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function getInvoiceFileName(invoice) {
+  return `invoice-${invoice.invoiceNumber.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.pdf`;
+}
+
+/**
+ * Render an invoice as an A4 portrait PDF. Resolves to a Buffer.
+ */
+function renderInvoicePdf(invoice) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { width } = doc.page;
+    const left = 50;
+    const right = width - 50;
+    const issuedOn = new Date(invoice.issuedAt).toLocaleDateString('en-IN', {
+      day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Asia/Kolkata'
+    });
+    const taxRate = parseFloat(invoice.taxRate);
+    const money = (value) => formatMoney(value, invoice.currency);
+
+    // Header
+    doc.fillColor(BRAND_COLOR).font('Helvetica-Bold').fontSize(20)
+      .text(invoice.sellerName.toUpperCase(), left, 50, { characterSpacing: 2 });
+    doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(16)
+      .text('TAX INVOICE', left, 50, { align: 'right', width: right - left });
+
+    doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(10);
+    let y = 80;
+    if (invoice.sellerAddress) {
+      doc.text(invoice.sellerAddress, left, y, { width: 280 });
+      y = doc.y;
+    }
+    if (invoice.sellerGstin) {
+      doc.text(`GSTIN: ${invoice.sellerGstin}`, left, y);
+    }
+
+    doc.text(`Invoice No: ${invoice.invoiceNumber}`, left, 80, { align: 'right', width: right - left })
+      .text(`Date: ${issuedOn}`, { align: 'right', width: right - left });
+
+    // Bill to
+    y = 160;
+    doc.moveTo(left, y).lineTo(right, y).lineWidth(1).stroke(LINE_COLOR);
+    doc.fillColor(MUTED_COLOR).font('Helvetica-Bold').fontSize(9)
+      .text('BILL TO', left, y + 15);
+    doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(12)
+      .text(invoice.billingName, left, y + 30);
+    doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(10)
+      .text(invoice.billingEmail);
+    if (invoice.billingMobile) doc.text(invoice.billingMobile);
+
+    // Line item
+    y = 260;
+    const cols = { item: left, sac: 330, amount: right - 120 };
+    doc.rect(left, y, right - left, 24).fill('#f8fafc');
+    doc.fillColor(MUTED_COLOR).font('Helvetica-Bold').fontSize(9)
+      .text('DESCRIPTION', cols.item + 10, y + 8)
+      .text('SAC', cols.sac, y + 8)
+      .text('TAXABLE VALUE', cols.amount, y + 8, { width: 110, align: 'right' });
+
+    y += 34;
+    doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(10)
+      .text(`Online program: ${invoice.programName}`, cols.item + 10, y, { width: 260 });
+    const itemBottom = doc.y;
+    doc.text(invoice.sacCode, cols.sac, y)
+      .text(money(invoice.taxableAmount), cols.amount, y, { width: 110, align: 'right' });
+
+    // Totals
+    y = Math.max(itemBottom, y + 14) + 16;
+    doc.moveTo(left, y).lineTo(right, y).stroke(LINE_COLOR);
+    y += 12;
+    const totalRow = (label, value, bold = false) => {
+      doc.fillColor(bold ? TEXT_COLOR : MUTED_COLOR).font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 12 : 10)
+        .text(label, 300, y, { width: 130 })
+        .text(value, cols.amount, y, { width: 110, align: 'right' });
+      y += bold ? 22 : 18;
+    };
+    totalRow('Taxable Value', money(invoice.taxableAmount));
+    totalRow(`CGST @ ${taxRate / 2}%`, money(invoice.cgstAmount));
+    totalRow(`SGST @ ${taxRate / 2}%`, money(invoice.sgstAmount));
+    doc.moveTo(300, y).lineTo(right, y).stroke(LINE_COLOR);
+    y += 8;
+    totalRow('Total', money(invoice.totalAmount), true);
+
+    doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(9)
+      .text('This is a computer-generated invoice and does not require a signature.', left, y + 40, {
+        align: 'center', width: right - left
+      });
+
+    doc.end();
+  });
+}
+
+module.exports = {
+  getFinancialYear,
+  calculateTaxBreakup,
+  issueInvoiceForPayment,
+  formatInvoice,
+  getInvoiceFileName,
+  renderInvoicePdf
+};
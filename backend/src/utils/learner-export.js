@@ -0,0 +1,170 @@
+/**
+ * Learner export (CSV/XLSX) for the admin learners and program pages.
+ * Learners are read in batches and written row by row, so the whole list is
+ * never held in memory. Progress, activity and payment lookups only run when
+ * their columns are picked.
+ */
+
+const EXPORT_BATCH_SIZE = 500;
+
+// Payments that count as paid; refunds are reported separately via refundedAmount
+const PAID_STATUSES = ['SUCCESS', 'REFUNDED'];
+
+// With a program filter these hold a single program, shown without its name
+const perProgram = (r, value) => (r.singleProgram
+  ? (r.enrollments[0] ? value(r.enrollments[0]) : null)
+  : r.enrollments.map(e => `${e.programName}: ${value(e)}`).join('; '));
+
+const EXPORT_COLUMNS = [
+  { key: 'name', header: 'Name', value: r => r.name },
+  { key: 'email', header: 'Email', value: r => r.email },
+  { key: 'mobile', header: 'Mobile', value: r => r.mobile },
+  { key: 'registrationNumber', header: 'Registration Number', value: r => r.registrationNumber },
+  { key: 'status', header: 'Status', value: r => r.status },
+  { key: 'joinedAt', header: 'Joined', value: r => r.createdAt },
+  { key: 'programs', header: 'Programs', value: r => r.enrollments.map(e => e.programName).join('; ') },
+  { key: 'cohort', header: 'Cohort', value: r => perProgram(r, e => e.cohortName) },
+  { key: 'enrollmentType', header: 'Enrollment Type', value: r => perProgram(r, e => e.type) },
+  { key: 'completion', header: 'Completion (%)', value: r => perProgram(r, e => e.completion) },
+  { key: 'lastActive', header: 'Last Active', value: r => r.lastActive },
+  { key: 'amountPaid', header: 'Amount Paid', value: r => r.amountPaid },
+  { key: 'amountRefunded', header: 'Amount Refunded', value: r => r.amountRefunded }
+];
+
+const EXPORT_COLUMN_KEYS = EXPORT_COLUMNS.map(c => c.key);
+
+/**
+ * Parse the comma-separated `columns` query param (all columns when omitted).
+ * Returns { columns } or { error }.
+ */
+function parseExportColumns(value) {
+  if (!value) return { columns: EXPORT_COLUMNS };
+
+  const keys = String(value).split(',').map(key => key.trim()).filter(Boolean);
+  const unknown = keys.filter(key => !EXPORT_COLUMN_KEYS.includes(key));
+  if (unknown.length > 0) {
+    return { error: `Unknown column: ${unknown.join(', ')}` };
+  }
+  if (keys.length === 0) {
+    return { error: 'Pick at least one column' };
+  }
+  return { columns: EXPORT_COLUMNS.filter(c => keys.includes(c.key)) };
+}
+
+// Completed lessons per learner and program: Map<"userId:programId", count>
+async function completedLessonCounts(prisma, userIds, programId) {
+  const completed = await prisma.progress.findMany({
+    where: {
+      userId: { in: userIds },
+      status: 'COMPLETED',
+      ...(programId && { lesson: { programId } })
+    },
+    select: { userId: true, lesson: { select: { programId: true } } }
+  });
+
+  const counts = new Map();
+  for (const p of completed) {
+    const key = `${p.userId}:${p.lesson.programId}`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Write one row per learner matching `where` (a user where clause), newest
+ * first, then end the writer. With `programId`, enrollment, completion and
+ * payment columns cover that program only.
+ */
+async function streamLearnerExport(prisma, { where, programId, columns, writer }) {
+  const picked = new Set(columns.map(c => c.key));
+  const needsCompletion = picked.has('completion');
+  const needsLastActive = picked.has('lastActive');
+  const needsPayments = picked.has('amountPaid') || picked.has('amountRefunded');
+
+  await writer.writeRow(columns.map(c => c.header));
+
+  let cursor = null;
+  for (;;) {
+    const learners = await prisma.user.findMany({
+      where,
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        mobile: true,
+        registrationNumber: true,
+        status: true,
+        createdAt: true,
+        enrollments: {
+          where: programId ? { programId } : undefined,
+          select: {
+            programId: true,
+            type: true,
+            suspendedAt: true,
+            program: { select: { name: true, _count: { select: { lessons: true } } } },
+            cohort: { select: { name: true } }
+          },
+          orderBy: { enrolledAt: 'asc' }
+        }
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+    if (learners.length === 0) break;
+
+    const userIds = learners.map(l => l.id);
+    const [completedCounts, sessions, payments] = await Promise.all([
+      needsCompletion ? completedLessonCounts(prisma, userIds, programId) : new Map(),
+      needsLastActive
+        ? prisma.userSession.groupBy({
+          by: ['userId'],
+          where: { userId: { in: userIds } },
+          _max: { lastActive: true }
+        })
+        : [],
+      needsPayments
+        ? prisma.payment.groupBy({
+          by: ['userId'],
+          where: { userId: { in: userIds }, status: { in: PAID_STATUSES }, ...(programId && { programId }) },
+          _sum: { amount: true, refundedAmount: true }
+        })
+        : []
+    ]);
+    const lastActiveByUser = new Map(sessions.map(s => [s.userId, s._max.lastActive]));
+    const paymentsByUser = new Map(payments.map(p => [p.userId, p._sum]));
+
+    for (const learner of learners) {
+      const paid = paymentsByUser.get(learner.id);
+      const row = {
+        ...learner,
+        singleProgram: !!programId,
+        enrollments: learner.enrollments.map(e => {
+          const totalLessons = e.program._count.lessons;
+          const completedLessons = completedCounts.get(`${learner.id}:${e.programId}`) || 0;
+          return {
+            programName: e.program.name,
+            cohortName: e.cohort?.name || '-',
+            type: e.suspendedAt ? 'SUSPENDED' : e.type,
+            completion: totalLessons > 0 ? Math.round((completedLessons / totalLessons) * 100) : 0
+          };
+        }),
+        lastActive: lastActiveByUser.get(learner.id) || null,
+        amountPaid: Number(paid?.amount || 0),
+        amountRefunded: Number(paid?.refundedAmount || 0)
+      };
+      await writer.writeRow(columns.map(c => c.value(row)));
+    }
+
+    if (learners.length < EXPORT_BATCH_SIZE) break;
+    cursor = learners[learners.length - 1].id;
+  }
+
+  await writer.end();
+}
+
+module.exports = {
+  EXPORT_COLUMNS,
+  parseExportColumns,
+  streamLearnerExport
+};
@@ -0,0 +1,328 @@
+/**
+ * Bulk learner import from a CSV/XLSX sheet.
+ * The admin previews a dry run (column mapping, validation, duplicates), then
+ * the valid rows are created in the background with password setup emails sent
+ * at a throttled rate. Every row ends up in LearnerImport.results, which is the
+ * downloadable report.
+ */
+const crypto = require('crypto');
+const { sendPasswordSetupEmail } = require('./email');
+const { logAudit } = require('./audit');
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MOBILE_REGEX = /^\+?\d{10,15}$/;
+
+const MAX_IMPORT_ROWS = 2000;
+const SETUP_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const EMAIL_INTERVAL_MS = 600; // Resend allows 2 requests/second
+const PROGRESS_EVERY = 10; // Persist progress every N rows
+// Well past the longest import (2000 rows at one email per 600ms is about 20 minutes)
+const STALE_IMPORT_MS = 60 * 60 * 1000;
+
+const IMPORT_FIELDS = ['name', 'email', 'mobile', 'registrationNumber', 'programs', 'cohort'];
+
+// Header spellings recognised when guessing the column mapping
+const HEADER_ALIASES = {
+  name: ['name', 'fullname', 'learnername', 'studentname'],
+  email: ['email', 'emailaddress', 'emailid', 'mail'],
+  mobile: ['mobile', 'mobilenumber', 'mobileno', 'phone', 'phonenumber', 'contact', 'contactnumber'],
+  registrationNumber: ['registrationnumber', 'registrationno', 'regno', 'regnumber', 'rollnumber', 'rollno', 'employeeid'],
+  programs: ['programs', 'program', 'programnames', 'programname', 'courses', 'course'],
+  cohort: ['cohort', 'cohortname', 'batch', 'batchname']
+};
+
+const normalizeHeader = header => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guess which column holds each field from the header row.
+ * Returns { field: columnIndex | null }.
+ */
+function guessColumnMapping(headers) {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+/**
+ * Validate an admin-supplied mapping against the header row.
+ * Returns { mapping } or { error }.
+ */
+function parseColumnMapping(value, headers) {
+  let input = value;
+  if (typeof value === 'string') {
+    try {
+      input = JSON.parse(value);
+    } catch {
+      return { error: 'Column mapping is not valid JSON' };
+    }
+  }
+  if (!input || typeof input !== 'object') {
+    return { mapping: guessColumnMapping(headers) };
+  }
+
+  const mapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const index = input[field];
+    if (index === null || index === undefined || index === '') {
+      mapping[field] = null;
+    } else if (Number.isInteger(Number(index)) && Number(index) >= 0 && Number(index) < headers.length) {
+      mapping[field] = Number(index);
+    } else {
+      return { error: `Column for ${field} does not exist in the file` };
+    }
+  }
+  return { mapping };
+}
+
+// Several programs go in one cell, separated by semicolons
+function splitProgramNames(cell) {
+  return cell.split(/[;|]/).map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * Dry run: map, validate and de-duplicate the data rows.
+ * Each row gets status VALID, INVALID (with errors) or DUPLICATE (in the file
+ * or already registered).
+ */
+async function validateImportRows(prisma, dataRows, mapping) {
+  const cellOf = (row, field) => (mapping[field] === null ? '' : (row[mapping[field]] || '').trim());
+
+  const mapped = dataRows.map((row, i) => ({
+    row: i + 2, // Spreadsheet row number, after the header
+    name: cellOf(row, 'name'),
+    email: cellOf(row, 'email').toLowerCase(),
+    mobile: cellOf(row, 'mobile').replace(/[\s()-]/g, ''),
+    registrationNumber: cellOf(row, 'registrationNumber'),
+    programNames: splitProgramNames(cellOf(row, 'programs')),
+    cohortName: cellOf(row, 'cohort') || null
+  }));
+
+  const emails = [...new Set(mapped.map(r => r.email).filter(Boolean))];
+  const [existingUsers, programs, cohorts] = await Promise.all([
+    emails.length > 0
+      ? prisma.user.findMany({ where: { email: { in: emails } }, select: { email: true } })
+      : [],
+    prisma.program.findMany({ select: { id: true, name: true } }),
+    mapped.some(r => r.cohortName)
+      ? prisma.cohort.findMany({ select: { id: true, name: true, programId: true } })
+      : []
+  ]);
+  const registered = new Set(existingUsers.map(u => u.email));
+  const programsByName = new Map(programs.map(p => [p.name.trim().toLowerCase(), p]));
+  const firstRowByEmail = new Map();
+
+  return mapped.map(r => {
+    const errors = [];
+    if (!r.name) errors.push('Name is required');
+    else if (r.name.length > 200) errors.push('Name must be 200 characters or less');
+    if (!r.email) errors.push('Email is required');
+    else if (!EMAIL_REGEX.test(r.email) || r.email.length > 254) errors.push('Email is not valid');
+    if (r.mobile && !MOBILE_REGEX.test(r.mobile)) errors.push('Mobile must be 10-15 digits');
+    if (r.registrationNumber.length > 100) errors.push('Registration number must be 100 characters or less');
+
+    const programIds = [];
+    for (const programName of r.programNames) {
+      const program = programsByName.get(programName.toLowerCase());
+      if (program) programIds.push(program.id);
+      else errors.push(`Unknown program "${programName}"`);
+    }
+
+    // The cohort is looked up by name within the row's programs: { programId: cohortId }
+    const cohortIds = {};
+    if (r.cohortName) {
+      const name = r.cohortName.toLowerCase();
+      for (const cohort of cohorts) {
+        if (programIds.includes(cohort.programId) && cohort.name.trim().toLowerCase() === name) {
+          cohortIds[cohort.programId] = cohort.id;
+        }
+      }
+      if (r.programNames.length === 0) errors.push('A cohort needs a program');
+      else if (Object.keys(cohortIds).length === 0) errors.push(`Unknown cohort "${r.cohortName}"`);
+    }
+
+    let status = errors.length > 0 ? 'INVALID' : 'VALID';
+    if (status === 'VALID' && registered.has(r.email)) {
+      status = 'DUPLICATE';
+      errors.push('Email is already registered');
+    } else if (status === 'VALID' && firstRowByEmail.has(r.email)) {
+      status = 'DUPLICATE';
+      errors.push(`Same email as row ${firstRowByEmail.get(r.email)}`);
+    }
+    if (r.email && !firstRowByEmail.has(r.email)) firstRowByEmail.set(r.email, r.row);
+
+    return {
+      ...r,
+      mobile: r.mobile || null,
+      registrationNumber: r.registrationNumber || null,
+      programIds: [...new Set(programIds)],
+      cohortIds,
+      status,
+      errors
+    };
+  });
+}
+
+function summarizeRows(rows) {
+  return {
+    total: rows.length,
+    valid: rows.filter(r => r.status === 'VALID').length,
+    invalid: rows.filter(r => r.status === 'INVALID').length,
+    duplicates: rows.filter(r => r.status === 'DUPLICATE').length
+  };
+}
+
+/**
+ * Create a PENDING_SETUP learner with a password setup token (not yet emailed).
+ * cohortIds optionally maps a programId to the cohort to enroll into.
+ */
+async function createPendingLearner(prisma, { email, name, mobile, registrationNumber, programIds = [], cohortIds = {} }) {
+  const setupToken = crypto.randomBytes(32).toString('hex');
+
+  const learner = await prisma.user.create({
+    data: {
+      email: email.toLowerCase(),
+      name,
+      mobile,
+      registrationNumber,
+      role: 'LEARNER',
+      status: 'PENDING_SETUP',
+      passwordResetToken: setupToken,
+      passwordResetExpires: new Date(Date.now() + SETUP_TOKEN_TTL_MS),
+      enrollments: {
+        create: programIds.map(programId => ({
+          programId,
+          ...(cohortIds[programId] && { cohortId: cohortIds[programId] })
+        }))
+      }
+    },
+    include: {
+      enrollments: {
+        include: { program: { select: { name: true } } }
+      }
+    }
+  });
+
+  return { learner, setupToken };
+}
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+function formatImport(learnerImport) {
+  return {
+    id: learnerImport.id,
+    fileName: learnerImport.fileName,
+    status: learnerImport.status,
+    totalRows: learnerImport.totalRows,
+    processedRows: learnerImport.processedRows,
+    createdCount: learnerImport.createdCount,
+    failedCount: learnerImport.failedCount,
+    adminEmail: learnerImport.adminEmail,
+    createdAt: learnerImport.createdAt,
+    completedAt: learnerImport.completedAt
+  };
+}
+
+/**
+ * Background part of an import: create the valid rows one by one and email
+ * setup links, spaced by emailIntervalMs. Rows that failed validation go
+ * straight into the report. Never throws — failures mark the import FAILED.
+ */
+async function runLearnerImport(prisma, importId, rows, { admin, emailIntervalMs = EMAIL_INTERVAL_MS } = {}) {
+  const results = [];
+  let createdCount = 0;
+  let failedCount = 0;
+
+  try {
+    for (const [i, row] of rows.entries()) {
+      const base = { row: row.row, name: row.name, email: row.email };
+
+      if (row.status !== 'VALID') {
+        results.push({ ...base, status: 'FAILED', message: row.errors.join('; ') });
+        failedCount++;
+      } else {
+        try {
+          const { learner, setupToken } = await createPendingLearner(prisma, row);
+          let message = 'Setup email sent';
+          try {
+            await sendPasswordSetupEmail(learner.email, learner.name, setupToken);
+          } catch (emailError) {
+            console.error(`Learner import ${importId}: setup email failed for ${learner.email}:`, emailError.message);
+            message = 'Created, but the setup email failed — resend it from the learner page';
+          }
+          results.push({ ...base, status: 'CREATED', learnerId: learner.id, message });
+          createdCount++;
+          if (emailIntervalMs > 0) await sleep(emailIntervalMs);
+        } catch (error) {
+          const message = error.code === 'P2002' ? 'Email is already registered' : 'Could not create learner';
+          results.push({ ...base, status: 'FAILED', message });
+          failedCount++;
+        }
+      }
+
+      if ((i + 1) % PROGRESS_EVERY === 0) {
+        await prisma.learnerImport.update({
+          where: { id: importId },
+          data: { processedRows: i + 1, createdCount, failedCount, results }
+        });
+      }
+    }
+
+    await prisma.learnerImport.update({
+      where: { id: importId },
+      data: {
+        status: 'COMPLETED',
+        processedRows: rows.length,
+        createdCount,
+        failedCount,
+        results,
+        completedAt: new Date()
+      }
+    });
+
+    if (admin) {
+      logAudit(prisma, {
+        admin,
+        action: 'IMPORT_LEARNERS',
+        targetType: 'LearnerImport',
+        targetId: importId,
+        details: { created: createdCount, failed: failedCount }
+      });
+    }
+  } catch (error) {
+    console.error(`Learner import ${importId} failed:`, error.message);
+    await prisma.learnerImport.update({
+      where: { id: importId },
+      data: { status: 'FAILED', processedRows: results.length, createdCount, failedCount, results, completedAt: new Date() }
+    }).catch(() => {});
+  }
+}
+
+/**
+ * Imports run in the process that started them, so one still PROCESSING long
+ * after it began was cut off by a restart. Mark those FAILED with the rows
+ * saved so far; returns how many were marked.
+ */
+async function failStaleImports(prisma, now = new Date()) {
+  const { count } = await prisma.learnerImport.updateMany({
+    where: { status: 'PROCESSING', createdAt: { lt: new Date(now.getTime() - STALE_IMPORT_MS) } },
+    data: { status: 'FAILED', completedAt: now }
+  });
+  return count;
+}
+
+module.exports = {
+  MAX_IMPORT_ROWS,
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  parseColumnMapping,
+  validateImportRows,
+  summarizeRows,
+  createPendingLearner,
+  formatImport,
+  runLearnerImport,
+  failStaleImports
+};
@@ -0,0 +1,59 @@
+/**
+ * Shared steps of adding a lesson to a program — used by the lesson routes
+ * and when a live session recording is published as lessons.
+ */
+const { cacheDel } = require('./cache');
+
+// Clear program list cache (known key patterns only — avoids expensive SCAN)
+async function clearProgramsCache() {
+  await Promise.all([
+    cacheDel('programs:list:true:1:20'),
+    cacheDel('programs:list:undefined:1:20'),
+  ]);
+}
+
+// Touch program's updatedAt so "hasUnpublishedChanges" detects content changes
+async function touchProgram(prisma, programId) {
+  await prisma.program.update({
+    where: { id: programId },
+    data: { updatedAt: new Date() }
+  });
+}
+
+/**
+ * NEW_LESSON notification to every learner enrolled in the lesson's program.
+ * Failures are logged, never thrown — callers don't wait for it.
+ */
+async function notifyNewLesson(prisma, { programId, id: lessonId, title }) {
+  try {
+    // Get program name for notification message
+    const program = await prisma.program.findUnique({
+      where: { id: programId },
+      select: { name: true }
+    });
+
+    // Get all enrolled users in this program
+    const enrollments = await prisma.enrollment.findMany({
+      where: { programId },
+      select: { userId: true }
+    });
+
+    if (enrollments.length > 0 && program) {
+      const userIds = enrollments.map(e => e.userId);
+      await prisma.notification.createMany({
+        data: userIds.map(userId => ({
+          userId,
+          type: 'NEW_LESSON',
+          title: 'New Lesson Available',
+          message: `A new lesson "${title}" has been added to ${program.name}`,
+          data: { programId, lessonId, lessonTitle: title }
+        }))
+      });
+      console.log(`Sent notifications to ${userIds.length} learners for new lesson "${title}"`);
+    }
+  } catch (notifError) {
+    console.error('Failed to send lesson notifications:', notifError);
+  }
+}
+
+module.exports = { clearProgramsCache, touchProgram, notifyNewLesson };
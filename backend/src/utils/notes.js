@@ -0,0 +1,138 @@
+/**
+ * Learner notes — private notes on a lesson, anchored to a video position
+ * (VIDEO lessons) or a page (PDF lessons) so the viewer can jump back to it.
+ */
+
+const MAX_BODY_LENGTH = 5000;
+
+// Lesson and program shown next to a note outside the lesson viewer
+const NOTE_LESSON_SELECT = {
+  id: true, title: true, type: true,
+  program: { select: { id: true, name: true } }
+};
+
+function isWholeNumber(value, min) {
+  return Number.isInteger(value) && value >= min;
+}
+
+/**
+ * Note fields from a request body for a lesson of `lessonType`. With
+ * `partial`, fields left out are left unchanged. Returns { data } or { error }.
+ */
+function parseNoteInput(input, lessonType, { partial = false } = {}) {
+  const { body, positionSeconds, pageNumber } = input;
+  const data = {};
+
+  if (body !== undefined || !partial) {
+    const text = typeof body === 'string' ? body.trim() : '';
+    if (!text) {
+      return { error: 'Note cannot be empty' };
+    }
+    if (text.length > MAX_BODY_LENGTH) {
+      return { error: `Notes are limited to ${MAX_BODY_LENGTH} characters` };
+    }
+    data.body = text;
+  }
+
+  if (positionSeconds !== undefined && positionSeconds !== null) {
+    if (lessonType !== 'VIDEO') {
+      return { error: 'Only video lessons have a position' };
+    }
+    if (!isWholeNumber(positionSeconds, 0)) {
+      return { error: 'Position must be a whole number of seconds' };
+    }
+  }
+  if (positionSeconds !== undefined) data.positionSeconds = positionSeconds;
+
+  if (pageNumber !== undefined && pageNumber !== null) {
+    if (lessonType !== 'PDF') {
+      return { error: 'Only PDF lessons have pages' };
+    }
+    if (!isWholeNumber(pageNumber, 1)) {
+      return { error: 'Page must be a positive whole number' };
+    }
+  }
+  if (pageNumber !== undefined) data.pageNumber = pageNumber;
+
+  return { data };
+}
+
+function formatNote(note) {
+  return {
+    id: note.id,
+    body: note.body,
+    positionSeconds: note.positionSeconds,
+    pageNumber: note.pageNumber,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    ...(note.lesson && {
+      lesson: { id: note.lesson.id, title: note.lesson.title, type: note.lesson.type },
+      program: note.lesson.program
+    })
+  };
+}
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+function formatTimestamp(totalSeconds) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = n => String(n).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+// Where in the lesson a note was taken ("12:05", "p. 4"), or null
+function formatNotePosition(note) {
+  if (note.positionSeconds !== null && note.positionSeconds !== undefined) {
+    return formatTimestamp(note.positionSeconds);
+  }
+  if (note.pageNumber) {
+    return `p. ${note.pageNumber}`;
+  }
+  return null;
+}
+
+/**
+ * Markdown export of notes (with NOTE_LESSON_SELECT lessons) grouped by
+ * program and lesson, in the order given.
+ */
+function buildNotesMarkdown(notes, { title = 'My Notes', exportedAt = new Date() } = {}) {
+  const programs = new Map();
+  for (const note of notes) {
+    const program = note.lesson.program;
+    if (!programs.has(program.id)) {
+      programs.set(program.id, { name: program.name, lessons: new Map() });
+    }
+    const lessons = programs.get(program.id).lessons;
+    if (!lessons.has(note.lesson.id)) {
+      lessons.set(note.lesson.id, { title: note.lesson.title, notes: [] });
+    }
+    lessons.get(note.lesson.id).notes.push(note);
+  }
+
+  const lines = [`# ${title}`, '', `_Exported ${exportedAt.toISOString().slice(0, 10)}_`];
+  if (notes.length === 0) {
+    lines.push('', 'No notes yet.');
+  }
+  for (const program of programs.values()) {
+    lines.push('', `## ${program.name}`);
+    for (const lesson of program.lessons.values()) {
+      lines.push('', `### ${lesson.title}`, '');
+      for (const note of lesson.notes) {
+        const position = formatNotePosition(note);
+        // Continuation lines are indented so multi-line notes stay in their list item
+        const body = note.body.replace(/\r?\n/g, '\n  ');
+        lines.push(position ? `- **[${position}]** ${body}` : `- ${body}`);
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+module.exports = {
+  NOTE_LESSON_SELECT,
+  parseNoteInput,
+  formatNote,
+  formatNotePosition,
+  buildNotesMarkdown
+};
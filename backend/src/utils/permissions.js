@@ -0,0 +1,99 @@
+/**
+ * Admin panel roles and what each may do. ADMIN can do everything;
+ * instructors only work on the programs they are assigned to (see
+ * requireProgramAccess). frontend/lib/permissions.ts mirrors this table.
+ */
+
+const STAFF_ROLES = ['ADMIN', 'INSTRUCTOR', 'SUPPORT', 'FINANCE'];
+
+const PERMISSIONS = [
+  'dashboard:view',
+  'programs:view',
+  'programs:manage', // create, edit, publish, delete; plans, cohorts
+  'content:edit', // topics, lessons, attachments, transcripts
+  'sessions:view',
+  'sessions:edit', // create, edit, attendance, recordings
+  'learners:view',
+  'learners:edit', // create, import, edit, status, enrollments
+  'learners:delete',
+  'learners:reset-password', // also signs them out of all devices
+  'payments:refund',
+  'invoices:view',
+  'coupons:manage',
+  'assignments:grade',
+  'discussions:moderate',
+  'notifications:send',
+  'audit:view',
+  'team:manage' // invite, revoke invites, deactivate staff
+];
+
+const ROLE_LABELS = {
+  ADMIN: 'Administrator',
+  INSTRUCTOR: 'Instructor',
+  SUPPORT: 'Support',
+  FINANCE: 'Finance'
+};
+
+const ROLE_PERMISSIONS = {
+  ADMIN: PERMISSIONS,
+  INSTRUCTOR: [
+    'programs:view',
+    'content:edit',
+    'sessions:view',
+    'sessions:edit',
+    'assignments:grade',
+    'discussions:moderate'
+  ],
+  SUPPORT: [
+    'dashboard:view',
+    'programs:view',
+    'sessions:view',
+    'learners:view',
+    'learners:reset-password'
+  ],
+  FINANCE: [
+    'dashboard:view',
+    'programs:view',
+    'learners:view',
+    'payments:refund',
+    'invoices:view',
+    'coupons:manage'
+  ]
+};
+
+// Roles limited to their assigned programs (ProgramInstructor rows)
+const PROGRAM_SCOPED_ROLES = ['INSTRUCTOR'];
+
+function isStaffRole(role) {
+  return STAFF_ROLES.includes(role);
+}
+
+function hasPermission(role, permission) {
+  return (ROLE_PERMISSIONS[role] || []).includes(permission);
+}
+
+/**
+ * IDs of the programs the user may work on, or null when not limited.
+ * Loaded once per request.
+ */
+async function getProgramScope(req) {
+  if (!PROGRAM_SCOPED_ROLES.includes(req.user.role)) return null;
+  if (!req.programScope) {
+    const assignments = await req.prisma.programInstructor.findMany({
+      where: { userId: req.user.id },
+      select: { programId: true }
+    });
+    req.programScope = assignments.map(a => a.programId);
+  }
+  return req.programScope;
+}
+
+module.exports = {
+  STAFF_ROLES,
+  PERMISSIONS,
+  ROLE_LABELS,
+  ROLE_PERMISSIONS,
+  isStaffRole,
+  hasPermission,
+  getProgramScope
+};
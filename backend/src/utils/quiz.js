@@ -0,0 +1,137 @@
+/**
+ * Quiz authoring validation and auto-grading.
+ * Choice questions store option indexes as correct answers; short answers
+ * store accepted strings and are compared case/whitespace-insensitively.
+ */
+
+const QUESTION_TYPES = ['SINGLE_CHOICE', 'MULTIPLE_CHOICE', 'SHORT_ANSWER'];
+const DEFAULT_PASSING_SCORE = 70;
+const MAX_QUESTIONS = 100;
+
+function normalizeText(value) {
+  return String(value).trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Validate admin-supplied questions and shape them for prisma createMany.
+ * Returns { questions } on success or { error } with a user-facing message.
+ */
+function normalizeQuizQuestions(input) {
+  if (!Array.isArray(input)) {
+    return { error: 'Questions must be an array' };
+  }
+  if (input.length > MAX_QUESTIONS) {
+    return { error: `A quiz can have at most ${MAX_QUESTIONS} questions` };
+  }
+
+  const questions = [];
+  for (let i = 0; i < input.length; i++) {
+    const q = input[i] || {};
+    const label = `Question ${i + 1}`;
+
+    if (!QUESTION_TYPES.includes(q.type)) {
+      return { error: `${label}: invalid question type` };
+    }
+    if (!q.prompt || !String(q.prompt).trim()) {
+      return { error: `${label}: prompt is required` };
+    }
+
+    const points = q.points === undefined ? 1 : parseInt(q.points, 10);
+    if (isNaN(points) || points < 1) {
+      return { error: `${label}: points must be a positive number` };
+    }
+
+    let options = [];
+    let correctAnswers;
+
+    if (q.type === 'SHORT_ANSWER') {
+      correctAnswers = (Array.isArray(q.correctAnswers) ? q.correctAnswers : [])
+        .map(a => String(a).trim())
+        .filter(Boolean);
+      if (correctAnswers.length === 0) {
+        return { error: `${label}: at least one accepted answer is required` };
+      }
+    } else {
+      options = (Array.isArray(q.options) ? q.options : []).map(o => String(o).trim());
+      if (options.length < 2 || options.some(o => !o)) {
+        return { error: `${label}: at least two non-empty options are required` };
+      }
+      correctAnswers = [...new Set((Array.isArray(q.correctAnswers) ? q.correctAnswers : [])
+        .map(a => parseInt(a, 10)))];
+      if (correctAnswers.length === 0 || correctAnswers.some(a => isNaN(a) || a < 0 || a >= options.length)) {
+        return { error: `${label}: select the correct option` };
+      }
+      if (q.type === 'SINGLE_CHOICE' && correctAnswers.length !== 1) {
+        return { error: `${label}: single choice questions need exactly one correct option` };
+      }
+      correctAnswers.sort((a, b) => a - b);
+    }
+
+    questions.push({
+      type: q.type,
+      prompt: String(q.prompt).trim(),
+      options,
+      correctAnswers,
+      points,
+      orderIndex: i
+    });
+  }
+
+  return { questions };
+}
+
+/**
+ * Parse a passing score percentage. Returns null for "use default",
+ * a number 0-100, or NaN when invalid.
+ */
+function parsePassingScore(value) {
+  if (value === undefined || value === null || value === '') return null;
+  const score = parseInt(value, 10);
+  if (isNaN(score) || score < 0 || score > 100) return NaN;
+  return score;
+}
+
+function isAnswerCorrect(question, answer) {
+  const correct = Array.isArray(question.correctAnswers) ? question.correctAnswers : [];
+
+  if (question.type === 'SHORT_ANSWER') {
+    if (typeof answer !== 'string' || !answer.trim()) return false;
+    const given = normalizeText(answer);
+    return correct.some(a => normalizeText(a) === given);
+  }
+
+  const selected = [...new Set((Array.isArray(answer) ? answer : [answer])
+    .map(a => parseInt(a, 10))
+    .filter(a => !isNaN(a)))].sort((a, b) => a - b);
+
+  return selected.length === correct.length && selected.every((a, i) => a === correct[i]);
+}
+
+/**
+ * Grade submitted answers ({ [questionId]: number[] | string }) against
+ * the lesson's questions. Multi-select questions are all-or-nothing.
+ */
+function gradeQuiz(questions, answers, passingScore) {
+  const submitted = answers && typeof answers === 'object' ? answers : {};
+  let earnedPoints = 0;
+  let totalPoints = 0;
+
+  const results = questions.map(question => {
+    const isCorrect = isAnswerCorrect(question, submitted[question.id]);
+    totalPoints += question.points;
+    if (isCorrect) earnedPoints += question.points;
+    return { questionId: question.id, isCorrect, points: isCorrect ? question.points : 0 };
+  });
+
+  const score = totalPoints > 0 ? Math.round((earnedPoints / totalPoints) * 100) : 0;
+  const threshold = passingScore ?? DEFAULT_PASSING_SCORE;
+
+  return { earnedPoints, totalPoints, score, passed: score >= threshold, results };
+}
+
+module.exports = {
+  DEFAULT_PASSING_SCORE,
+  normalizeQuizQuestions,
+  parsePassingScore,
+  gradeQuiz
+};
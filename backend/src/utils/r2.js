@@ -1,5 +1,5 @@
 // Cloudflare R2 Storage Utilities
-const { S3Client, DeleteObjectCommand } = require('@aws-sdk/client-s3');
+const { S3Client, PutObjectCommand, DeleteObjectCommand } = require('@aws-sdk/client-s3');
 
 let r2Client = null;
 
@@ -14,6 +14,26 @@ if (process.env.R2_ACCOUNT_ID && process.env.R2_ACCESS_KEY_ID && process.env.R2_
   });
 }
 
+/**
+ * Upload a file to R2 and return its public URL
+ *
+ * @param {string} key - Object key (e.g. transcripts/abc.vtt)
+ * @param {Buffer|string} body
+ * @param {string} contentType
+ */
+async function uploadR2File(key, body, contentType) {
+  if (!r2Client) throw new Error('R2 storage is not configured');
+
+  await r2Client.send(new PutObjectCommand({
+    Bucket: process.env.R2_BUCKET_NAME,
+    Key: key,
+    Body: body,
+    ContentType: contentType
+  }));
+
+  return `${process.env.R2_PUBLIC_URL}/${key}`;
+}
+
 /**
  * Delete a file from R2 by its public URL
  * Extracts the key from the URL and deletes the object.
@@ -46,4 +66,4 @@ async function deleteR2Files(fileUrls) {
   await Promise.all(fileUrls.filter(Boolean).map(deleteR2File));
 }
 
-module.exports = { deleteR2File, deleteR2Files };
+module.exports = { uploadR2File, deleteR2File, deleteR2Files };
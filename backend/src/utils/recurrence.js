@@ -1,30 +1,245 @@
 /**
  * Expand a recurring session into virtual occurrences within a date range.
- * Supports RRULE-style rules: FREQ=DAILY, FREQ=WEEKLY with BYDAY, and UNTIL.
+ * Supports RRULE-style rules: FREQ=DAILY/WEEKLY/MONTHLY, INTERVAL, COUNT,
+ * UNTIL, BYDAY (with ordinals like 2TU or -1FR for monthly rules),
+ * BYMONTHDAY, BYSETPOS and WKST.
+ *
+ * Occurrences keep the wall-clock time of the first one in the session's
+ * IANA timezone (Session.timezone, default UTC), so a 10:00 class stays at
+ * 10:00 across DST changes.
+ *
+ * Each occurrence is identified by the "YYYY-MM-DD" (UTC) date it is
+ * scheduled on by the rule — its occurrenceDate, as in Session.excludedDates.
+ * A single occurrence moved or changed by an admin is a
+ * SessionOccurrenceOverride row (session.overrides) and keeps that key.
  */
 
-const DAY_MAP = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
 const MAX_OCCURRENCES = 365; // Safety cap to prevent memory exhaustion
+const DEFAULT_TIMEZONE = 'UTC';
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'];
 
 function toDateKey(date) {
   return date.toISOString().slice(0, 10); // "YYYY-MM-DD"
 }
 
+function isValidTimezone(timeZone) {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map();
+
+function getFormatter(timeZone) {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }));
+  }
+  return formatters.get(timeZone);
+}
+
+/**
+ * Wall-clock fields of an instant in a timezone (month is 1-12)
+ */
+function getZonedParts(date, timeZone) {
+  const parts = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(date)) {
+    if (type !== 'literal') parts[type] = Number(value);
+  }
+  return parts;
+}
+
+// Milliseconds the zone is ahead of UTC at an instant
+function getZoneOffset(timestamp, timeZone) {
+  const p = getZonedParts(new Date(timestamp), timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time happens in a timezone. Times skipped by a
+ * DST change resolve to the same time after the change.
+ */
+function zonedTimeToUtc({ year, month, day, hour = 0, minute = 0, second = 0 }, timeZone) {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const firstOffset = getZoneOffset(wallClock, timeZone);
+  let timestamp = wallClock - firstOffset;
+  const secondOffset = getZoneOffset(timestamp, timeZone);
+  if (secondOffset !== firstOffset) timestamp = wallClock - secondOffset;
+  return new Date(timestamp);
+}
+
 function parseRule(rule) {
   const parts = {};
   for (const segment of rule.split(';')) {
     const [key, value] = segment.split('=');
-    parts[key] = value;
+    if (key && value !== undefined) parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
   }
   return parts;
 }
 
-function parseUntilDate(until) {
+function parseNumberList(value) {
+  if (!value) return [];
+  return value.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0);
+}
+
+// "2TU" -> { day: 2, ordinal: 2 }, "FR" -> { day: 5, ordinal: null }
+function parseByDay(value) {
+  if (!value) return [];
+  return value.split(',').flatMap(entry => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry);
+    if (!match) return [];
+    return [{ day: DAY_CODES.indexOf(match[2]), ordinal: match[1] ? Number(match[1]) : null }];
+  });
+}
+
+/**
+ * End of the UNTIL date in the session's timezone. A UTC date-time
+ * (YYYYMMDDTHHMMSSZ, as in iCalendar) is taken as is.
+ */
+function parseUntil(until, timeZone = DEFAULT_TIMEZONE) {
   if (!until) return null;
-  const year = parseInt(until.substring(0, 4));
-  const month = parseInt(until.substring(4, 6)) - 1;
-  const day = parseInt(until.substring(6, 8));
-  return new Date(year, month, day, 23, 59, 59);
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(until);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  if (match[4]) {
+    return new Date(Date.UTC(year, month - 1, day, Number(match[4]), Number(match[5]), Number(match[6])));
+  }
+  return zonedTimeToUtc({ year, month, day, hour: 23, minute: 59, second: 59 }, timeZone);
+}
+
+/**
+ * Parsed recurrence rule, or { error } for a rule this module can't expand
+ */
+function validateRule(rule) {
+  if (typeof rule !== 'string' || !rule.trim()) return { error: 'Recurrence rule is required' };
+  const parts = parseRule(rule.replace(/^RRULE:/i, ''));
+
+  if (!FREQUENCIES.includes(parts.FREQ)) {
+    return { error: 'FREQ must be DAILY, WEEKLY or MONTHLY' };
+  }
+  if (parts.INTERVAL !== undefined && !(Number.isInteger(Number(parts.INTERVAL)) && Number(parts.INTERVAL) >= 1)) {
+    return { error: 'INTERVAL must be a positive whole number' };
+  }
+  if (parts.COUNT !== undefined && !(Number.isInteger(Number(parts.COUNT)) && Number(parts.COUNT) >= 1)) {
+    return { error: 'COUNT must be a positive whole number' };
+  }
+  if (parts.COUNT !== undefined && parts.UNTIL !== undefined) {
+    return { error: 'COUNT and UNTIL cannot be used together' };
+  }
+  if (parts.UNTIL !== undefined && !parseUntil(parts.UNTIL)) {
+    return { error: 'UNTIL must be a date (YYYYMMDD)' };
+  }
+  if (parts.BYDAY !== undefined && parseByDay(parts.BYDAY).length !== parts.BYDAY.split(',').length) {
+    return { error: 'BYDAY must list days like MO,WE or 2TU' };
+  }
+  const monthDays = parseNumberList(parts.BYMONTHDAY);
+  if (parts.BYMONTHDAY !== undefined && (monthDays.length === 0 || monthDays.some(d => Math.abs(d) > 31))) {
+    return { error: 'BYMONTHDAY must list days between 1 and 31 (or -1 to -31)' };
+  }
+  const setPositions = parseNumberList(parts.BYSETPOS);
+  if (parts.BYSETPOS !== undefined && (setPositions.length === 0 || setPositions.some(p => Math.abs(p) > 366))) {
+    return { error: 'BYSETPOS must list positions like 2 or -1' };
+  }
+  if (parts.WKST !== undefined && !DAY_CODES.includes(parts.WKST)) {
+    return { error: 'WKST must be a day like MO' };
+  }
+  return { rule: parts };
+}
+
+// Dates below are UTC-midnight timestamps standing for calendar days in the session's timezone
+function dayOf(date) {
+  return new Date(date).getUTCDay();
+}
+
+function daysInMonth(year, monthIndex) {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+// Apply BYSETPOS (1-based, negative counts from the end) to a period's sorted candidates
+function applySetPos(candidates, setPositions) {
+  if (setPositions.length === 0) return candidates;
+  const picked = setPositions
+    .map(pos => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]))
+    .filter(day => day !== undefined);
+  return [...new Set(picked)].sort((a, b) => a - b);
+}
+
+/**
+ * Candidate days of the `index`-th period of a rule, in order
+ */
+function periodDays(rule, base, index) {
+  const interval = Number(rule.INTERVAL || 1);
+  const byDay = parseByDay(rule.BYDAY);
+  const monthDays = parseNumberList(rule.BYMONTHDAY);
+  const setPositions = parseNumberList(rule.BYSETPOS);
+
+  if (rule.FREQ === 'DAILY') {
+    const day = base.date + index * interval * DAY_MS;
+    const matches = byDay.length === 0 || byDay.some(d => d.day === dayOf(day));
+    return { periodStart: day, days: matches ? [day] : [] };
+  }
+
+  if (rule.FREQ === 'WEEKLY') {
+    const weekStartDay = DAY_CODES.indexOf(rule.WKST || 'MO');
+    const firstWeekStart = base.date - ((dayOf(base.date) - weekStartDay + 7) % 7) * DAY_MS;
+    const weekStart = firstWeekStart + index * interval * 7 * DAY_MS;
+    const weekdays = byDay.length > 0 ? byDay.map(d => d.day) : [dayOf(base.date)];
+    const days = [...new Set(weekdays)]
+      .map(day => weekStart + ((day - weekStartDay + 7) % 7) * DAY_MS)
+      .sort((a, b) => a - b);
+    return { periodStart: weekStart, days: applySetPos(days, setPositions) };
+  }
+
+  // MONTHLY
+  const monthNumber = base.monthIndex + index * interval;
+  const year = base.year + Math.floor(monthNumber / 12);
+  const monthIndex = monthNumber % 12;
+  const length = daysInMonth(year, monthIndex);
+  const monthStart = Date.UTC(year, monthIndex, 1);
+
+  // Days of the month matching BYMONTHDAY (or the first occurrence's day when there is no BYDAY either)
+  let dayNumbers = null;
+  if (monthDays.length > 0) {
+    dayNumbers = monthDays.map(d => (d > 0 ? d : length + d + 1)).filter(d => d >= 1 && d <= length);
+  } else if (byDay.length === 0) {
+    dayNumbers = base.dayOfMonth <= length ? [base.dayOfMonth] : [];
+  }
+
+  if (byDay.length > 0) {
+    const weekdayMatches = [];
+    for (const { day, ordinal } of byDay) {
+      const firstDay = ((day - dayOf(monthStart) + 7) % 7) + 1;
+      const all = [];
+      for (let d = firstDay; d <= length; d += 7) all.push(d);
+      if (ordinal === null) {
+        weekdayMatches.push(...all);
+      } else {
+        const picked = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal];
+        if (picked !== undefined) weekdayMatches.push(picked);
+      }
+    }
+    dayNumbers = dayNumbers ? dayNumbers.filter(d => weekdayMatches.includes(d)) : weekdayMatches;
+  }
+
+  const days = [...new Set(dayNumbers)]
+    .sort((a, b) => a - b)
+    .map(d => monthStart + (d - 1) * DAY_MS);
+  return { periodStart: monthStart, days: applySetPos(days, setPositions) };
 }
 
 /**
@@ -34,12 +249,17 @@ function parseUntilDate(until) {
 function expandRecurringSession(session, rangeStart, rangeEnd) {
   if (!session.isRecurring || !session.recurrenceRule) return [session];
 
-  const rule = parseRule(session.recurrenceRule);
-  const freq = rule.FREQ;
-  const until = parseUntilDate(rule.UNTIL);
+  const { rule } = validateRule(session.recurrenceRule);
+  const timeZone = isValidTimezone(session.timezone) ? session.timezone : DEFAULT_TIMEZONE;
+  const baseStart = new Date(session.startTime);
+  if (!rule) {
+    return baseStart >= rangeStart && baseStart <= rangeEnd ? [session] : [];
+  }
+
+  const count = rule.COUNT ? Number(rule.COUNT) : null;
+  const until = parseUntil(rule.UNTIL, timeZone);
   const effectiveEnd = until && until < rangeEnd ? until : rangeEnd;
 
-  const baseStart = new Date(session.startTime);
   const duration = session.endTime
     ? new Date(session.endTime).getTime() - baseStart.getTime()
     : null;
@@ -48,51 +268,163 @@ function expandRecurringSession(session, rangeStart, rangeEnd) {
   const excludedDates = new Set(
     Array.isArray(session.excludedDates) ? session.excludedDates : []
   );
+  const overrides = getOverrides(session);
+
+  const local = getZonedParts(baseStart, timeZone);
+  const base = {
+    date: Date.UTC(local.year, local.month - 1, local.day),
+    year: local.year,
+    monthIndex: local.month - 1,
+    dayOfMonth: local.day
+  };
+  // The last calendar day that can hold an occurrence, with a day of slack for the zone offset
+  const lastDay = effectiveEnd.getTime() + DAY_MS;
 
   const occurrences = [];
+  let generated = 0;
 
-  if (freq === 'DAILY') {
-    let current = new Date(baseStart);
-    while (current <= effectiveEnd && occurrences.length < MAX_OCCURRENCES) {
-      if (current >= rangeStart && !excludedDates.has(toDateKey(current))) {
-        occurrences.push(makeOccurrence(session, current, duration));
-      }
-      current.setDate(current.getDate() + 1);
-    }
-  } else if (freq === 'WEEKLY') {
-    const days = rule.BYDAY
-      ? rule.BYDAY.split(',').map(d => DAY_MAP[d])
-      : [baseStart.getDay()];
-
-    // Start from the week of baseStart, iterate week by week
-    let weekStart = new Date(baseStart);
-    weekStart.setDate(weekStart.getDate() - weekStart.getDay()); // Go to Sunday of that week
-    weekStart.setHours(0, 0, 0, 0);
-
-    while (weekStart <= effectiveEnd && occurrences.length < MAX_OCCURRENCES) {
-      for (const dayOfWeek of days) {
-        const occurrence = new Date(weekStart);
-        occurrence.setDate(occurrence.getDate() + dayOfWeek);
-        // Set same time as base
-        occurrence.setHours(baseStart.getHours(), baseStart.getMinutes(), baseStart.getSeconds());
-
-        if (occurrence >= baseStart && occurrence >= rangeStart && occurrence <= effectiveEnd && !excludedDates.has(toDateKey(occurrence))) {
-          occurrences.push(makeOccurrence(session, occurrence, duration));
-        }
+  periods:
+  for (let index = 0; occurrences.length < MAX_OCCURRENCES; index++) {
+    const { periodStart, days } = periodDays(rule, base, index);
+    if (periodStart > lastDay) break;
+
+    for (const day of days) {
+      if (day < base.date) continue;
+      const date = new Date(day);
+      const startTime = zonedTimeToUtc({
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour: local.hour,
+        minute: local.minute,
+        second: local.second
+      }, timeZone);
+      if (startTime > effectiveEnd) break periods;
+
+      // COUNT includes occurrences before the range and excluded ones, as in iCalendar
+      generated++;
+      if (count !== null && generated > count) break periods;
+
+      const dateKey = toDateKey(startTime);
+      if (startTime >= rangeStart && !excludedDates.has(dateKey) && !overrides.has(dateKey)) {
+        occurrences.push(makeOccurrence(session, startTime, duration));
+        if (occurrences.length >= MAX_OCCURRENCES) break periods;
       }
-      weekStart.setDate(weekStart.getDate() + 7);
     }
   }
 
+  occurrences.push(...overriddenOccurrences(session, overrides, excludedDates, rangeStart, rangeEnd));
+  occurrences.sort((a, b) => a.startTime - b.startTime);
+
   // If no occurrences found in range, still include the original if it falls in range
   if (occurrences.length === 0) {
-    if (baseStart >= rangeStart && baseStart <= rangeEnd) {
+    if (baseStart >= rangeStart && baseStart <= rangeEnd && !overrides.has(toDateKey(baseStart))) {
       return [session];
     }
     return [];
   }
 
-  return occurrences;
+  return occurrences.slice(0, MAX_OCCURRENCES);
+}
+
+function getOverrides(session) {
+  const overrides = new Map();
+  for (const override of Array.isArray(session.overrides) ? session.overrides : []) {
+    overrides.set(override.occurrenceDate, override);
+  }
+  return overrides;
+}
+
+// The occurrence the rule schedules on a date key, ignoring exclusions and overrides
+function findScheduledOccurrence(session, dateKey) {
+  const day = new Date(`${dateKey}T00:00:00Z`);
+  if (Number.isNaN(day.getTime())) return null;
+  const occurrences = expandRecurringSession(
+    { ...session, excludedDates: [], overrides: [] },
+    new Date(day.getTime() - DAY_MS),
+    new Date(day.getTime() + 2 * DAY_MS)
+  );
+  return occurrences.find(o => o._isOccurrence && o.occurrenceDate === dateKey) || null;
+}
+
+/**
+ * Overridden occurrences whose new start falls in the range. An override of
+ * a date the rule no longer schedules (after the series was edited) is ignored.
+ */
+function overriddenOccurrences(session, overrides, excludedDates, rangeStart, rangeEnd) {
+  const result = [];
+  for (const [dateKey, override] of overrides) {
+    const startTime = new Date(override.startTime);
+    if (excludedDates.has(dateKey) || startTime < rangeStart || startTime > rangeEnd) continue;
+    const scheduled = findScheduledOccurrence(session, dateKey);
+    if (scheduled) result.push(applyOverride(scheduled, override));
+  }
+  return result;
+}
+
+// An occurrence with an override's changes; null fields keep the series' values
+function applyOverride(occurrence, override) {
+  return {
+    ...occurrence,
+    name: override.name ?? occurrence.name,
+    description: override.description ?? occurrence.description,
+    meetLink: override.meetLink ?? occurrence.meetLink,
+    startTime: new Date(override.startTime),
+    endTime: override.endTime ? new Date(override.endTime) : null,
+    isModified: true
+  };
+}
+
+/**
+ * The occurrence of a recurring session on a date key, with its override
+ * applied, or null if the rule has none that day or it was removed
+ */
+function findSeriesOccurrence(session, dateKey) {
+  const excludedDates = Array.isArray(session.excludedDates) ? session.excludedDates : [];
+  if (excludedDates.includes(dateKey)) return null;
+  const scheduled = findScheduledOccurrence(session, dateKey);
+  if (!scheduled) return null;
+  const override = getOverrides(session).get(dateKey);
+  return override ? applyOverride(scheduled, override) : scheduled;
+}
+
+/**
+ * Split a series at the occurrence on a date key (not the first one):
+ * `before` ends the rule the day before it, `after` continues it from there,
+ * keeping what is left of a COUNT. Null when the rule has no occurrence then.
+ */
+function splitSeriesRule(session, dateKey) {
+  const scheduled = findScheduledOccurrence(session, dateKey);
+  const { rule } = validateRule(session.recurrenceRule);
+  if (!scheduled || !rule) return null;
+
+  const timeZone = isValidTimezone(session.timezone) ? session.timezone : DEFAULT_TIMEZONE;
+  const local = getZonedParts(scheduled.startTime, timeZone);
+  const dayBefore = new Date(Date.UTC(local.year, local.month - 1, local.day) - DAY_MS);
+  const parts = Object.entries(rule)
+    .filter(([key]) => key !== 'COUNT' && key !== 'UNTIL')
+    .map(([key, value]) => `${key}=${value}`);
+
+  let after = session.recurrenceRule;
+  if (rule.COUNT) {
+    const earlier = expandRecurringSession(
+      { ...session, excludedDates: [], overrides: [] },
+      new Date(session.startTime),
+      new Date(scheduled.startTime.getTime() - 1)
+    ).filter(o => o._isOccurrence).length;
+    after = [...parts, `COUNT=${Math.max(Number(rule.COUNT) - earlier, 1)}`].join(';');
+  }
+
+  return {
+    before: [...parts, `UNTIL=${toDateKey(dayBefore).replace(/-/g, '')}`].join(';'),
+    after,
+    startTime: scheduled.startTime
+  };
+}
+
+// Date key of an occurrence (or of a one-off session)
+function occurrenceKey(occurrence) {
+  return occurrence.occurrenceDate || toDateKey(new Date(occurrence.startTime));
 }
 
 function makeOccurrence(session, date, duration) {
@@ -102,8 +434,21 @@ function makeOccurrence(session, date, duration) {
     ...session,
     startTime,
     endTime,
+    occurrenceDate: toDateKey(startTime),
     _isOccurrence: true, // marker for virtual occurrences
   };
 }
 
-module.exports = { expandRecurringSession };
+module.exports = {
+  expandRecurringSession,
+  findSeriesOccurrence,
+  splitSeriesRule,
+  occurrenceKey,
+  toDateKey,
+  validateRule,
+  parseUntil,
+  isValidTimezone,
+  getZonedParts,
+  getZoneOffset,
+  DEFAULT_TIMEZONE
+};
@@ -0,0 +1,81 @@
+/**
+ * Payment refunds through Cashfree. Each refund is a record in
+ * Payment.metadata.refunds and adds to Payment.refundedAmount, which nets it
+ * out of revenue, as soon as Cashfree accepts it: accepted refunds are almost
+ * always processed. Cashfree's refund webhook reports the final status; a
+ * cancelled refund is taken back out of refundedAmount. Access revoked along
+ * with a refund is not restored — that stays an admin decision.
+ */
+
+// Cashfree refund statuses that mean no money went back
+const FAILED_REFUND_STATUSES = ['CANCELLED', 'FAILED'];
+
+function roundAmount(value) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Re-read a payment inside a transaction, locking its row until the
+ * transaction ends so concurrent refund updates apply one after the other
+ */
+async function lockPayment(tx, paymentId) {
+  await tx.$queryRaw`SELECT id FROM payments WHERE id = ${paymentId} FOR UPDATE`;
+  return tx.payment.findUnique({ where: { id: paymentId } });
+}
+
+/**
+ * Add an accepted refund to a payment, from its current totals.
+ * Call inside a transaction; `include` is passed to the update.
+ */
+async function recordRefund(tx, paymentId, refund, { include } = {}) {
+  const payment = await lockPayment(tx, paymentId);
+  const metadata = payment.metadata || {};
+
+  return tx.payment.update({
+    where: { id: paymentId },
+    data: {
+      status: 'REFUNDED',
+      refundedAmount: roundAmount(parseFloat(payment.refundedAmount || 0) + refund.amount),
+      refundedAt: new Date(refund.createdAt),
+      metadata: { ...metadata, refunds: [...(metadata.refunds || []), refund] }
+    },
+    include
+  });
+}
+
+/**
+ * Apply a refund status from Cashfree's refund webhook (data.refund).
+ * Returns the updated payment, or null when nothing changed.
+ */
+async function applyRefundStatus(prisma, { order_id: orderId, refund_id: refundId, refund_status: status }) {
+  if (!orderId || !refundId || !status) return null;
+
+  const found = await prisma.payment.findUnique({ where: { cashfreeOrderId: orderId }, select: { id: true } });
+  if (!found) return null;
+
+  return prisma.$transaction(async (tx) => {
+    const payment = await lockPayment(tx, found.id);
+    const metadata = payment.metadata || {};
+    const refunds = metadata.refunds || [];
+    const refund = refunds.find(r => r.refundId === refundId);
+    // Unknown, unchanged, or already taken back out
+    if (!refund || refund.status === status || FAILED_REFUND_STATUSES.includes(refund.status)) return null;
+
+    const data = {
+      metadata: { ...metadata, refunds: refunds.map(r => (r === refund ? { ...r, status } : r)) }
+    };
+    if (FAILED_REFUND_STATUSES.includes(status)) {
+      data.refundedAmount = roundAmount(parseFloat(payment.refundedAmount || 0) - refund.amount);
+      if (data.refundedAmount <= 0) {
+        Object.assign(data, { status: 'SUCCESS', refundedAmount: null, refundedAt: null });
+      }
+    }
+
+    return tx.payment.update({ where: { id: payment.id }, data });
+  });
+}
+
+module.exports = {
+  recordRefund,
+  applyRefundStatus
+};
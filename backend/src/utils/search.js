@@ -0,0 +1,86 @@
+/**
+ * Learner full-text search — each lesson keeps a weighted tsvector of its
+ * title (A), topic and subtopic names (B), attachment names (C) and text
+ * body (D). Prisma can't write tsvector columns, so the lesson routes refresh
+ * it after every change to those fields.
+ */
+
+const MAX_QUERY_LENGTH = 200;
+
+// Highlight markers for ts_headline, turned into segments by toSegments
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_STOP = '\u0002';
+const HEADLINE_MARKERS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}"`;
+const TITLE_HEADLINE = `${HEADLINE_MARKERS}, HighlightAll=true`;
+const SNIPPET_HEADLINE = `${HEADLINE_MARKERS}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Rebuild the search vector of the given lessons
+ */
+async function refreshLessonSearchIndex(prisma, lessonIds) {
+  const ids = [...new Set(lessonIds.filter(Boolean))];
+  if (ids.length === 0) return;
+  await prisma.$executeRaw`
+    UPDATE lessons l
+    SET search_vector =
+      setweight(to_tsvector('simple', l.title), 'A') ||
+      setweight(to_tsvector('simple',
+        coalesce((SELECT name FROM topics WHERE id = l.topic_id), '') || ' ' ||
+        coalesce((SELECT name FROM subtopics WHERE id = l.subtopic_id), '')), 'B') ||
+      setweight(to_tsvector('simple',
+        coalesce((SELECT string_agg(name, ' ') FROM lesson_attachments WHERE lesson_id = l.id), '')), 'C') ||
+      setweight(to_tsvector('simple', regexp_replace(coalesce(l.content_text, ''), '<[^>]+>', ' ', 'g')), 'D')
+    WHERE l.id = ANY(${ids}::text[])
+  `;
+}
+
+// Lessons matching a Prisma where, e.g. those of a renamed topic
+async function refreshSearchIndexWhere(prisma, where) {
+  const lessons = await prisma.lesson.findMany({ where, select: { id: true } });
+  await refreshLessonSearchIndex(prisma, lessons.map(l => l.id));
+}
+
+/**
+ * Index lessons created before search existed (or written outside the app).
+ * Returns the number of lessons indexed.
+ */
+async function backfillLessonSearchIndex(prisma) {
+  const lessons = await prisma.$queryRaw`SELECT id FROM lessons WHERE search_vector IS NULL`;
+  await refreshLessonSearchIndex(prisma, lessons.map(l => l.id));
+  return lessons.length;
+}
+
+// Trimmed search query, or null when too short to search
+function parseSearchQuery(q) {
+  const query = typeof q === 'string' ? q.trim().slice(0, MAX_QUERY_LENGTH) : '';
+  return query.length >= 2 ? query : null;
+}
+
+/**
+ * ts_headline output as [{ text, highlight }] so clients can mark matches
+ * without rendering HTML. Returns null for an empty headline.
+ */
+function toSegments(headline) {
+  if (!headline) return null;
+  const segments = [];
+  headline.split(HIGHLIGHT_START).forEach((part, i) => {
+    if (i === 0) {
+      if (part) segments.push({ text: part, highlight: false });
+      return;
+    }
+    const [match, rest] = part.split(HIGHLIGHT_STOP);
+    if (match) segments.push({ text: match, highlight: true });
+    if (rest) segments.push({ text: rest, highlight: false });
+  });
+  return segments.length > 0 ? segments : null;
+}
+
+module.exports = {
+  TITLE_HEADLINE,
+  SNIPPET_HEADLINE,
+  refreshLessonSearchIndex,
+  refreshSearchIndexWhere,
+  backfillLessonSearchIndex,
+  parseSearchQuery,
+  toSegments
+};
@@ -0,0 +1,137 @@
+/**
+ * Lesson order and sequential progression.
+ * Lessons are ordered the way the content tree renders: topics by orderIndex
+ * (subtopics and direct lessons interleaved by orderIndex), then program-level lessons.
+ * In a sequential program a lesson stays locked until the previous lesson the
+ * learner can access is COMPLETED.
+ */
+
+/**
+ * Prisma include for a program's lesson tree, selecting `lessonSelect` on every lesson
+ */
+function lessonTreeInclude(lessonSelect) {
+  return {
+    topics: {
+      include: {
+        subtopics: {
+          include: {
+            lessons: { orderBy: { orderIndex: 'asc' }, select: lessonSelect }
+          },
+          orderBy: { orderIndex: 'asc' }
+        },
+        lessons: {
+          where: { subtopicId: null },
+          orderBy: { orderIndex: 'asc' },
+          select: lessonSelect
+        }
+      },
+      orderBy: { orderIndex: 'asc' }
+    },
+    lessons: {
+      where: { topicId: null, subtopicId: null },
+      orderBy: { orderIndex: 'asc' },
+      select: lessonSelect
+    }
+  };
+}
+
+/**
+ * Flatten a program loaded with lessonTreeInclude into render order.
+ * Each lesson keeps its topic alongside (null for program-level lessons).
+ */
+function flattenProgramLessons(program) {
+  const lessons = [];
+  for (const topic of program.topics) {
+    // Interleave subtopics and direct lessons by orderIndex
+    const children = [
+      ...topic.subtopics.map(s => ({ type: 'subtopic', orderIndex: s.orderIndex, lessons: s.lessons })),
+      ...topic.lessons.map(l => ({ type: 'lesson', orderIndex: l.orderIndex, lesson: l }))
+    ].sort((a, b) => a.orderIndex - b.orderIndex);
+
+    for (const child of children) {
+      if (child.type === 'subtopic') {
+        lessons.push(...child.lessons.map(l => ({ ...l, topic })));
+      } else {
+        lessons.push({ ...child.lesson, topic });
+      }
+    }
+  }
+  // Program-level lessons last
+  lessons.push(...program.lessons.map(l => ({ ...l, topic: null })));
+  return lessons;
+}
+
+/**
+ * The lesson a learner must finish before `lessonId`, or null for the first one.
+ * FREE enrollments skip paid lessons so they never block free previews.
+ */
+function findPreviousLesson(lessons, lessonId, enrollmentType) {
+  const sequence = enrollmentType === 'FREE' ? lessons.filter(l => l.isFree || l.id === lessonId) : lessons;
+  const index = sequence.findIndex(l => l.id === lessonId);
+  return index > 0 ? sequence[index - 1] : null;
+}
+
+/**
+ * Incomplete prerequisite among already-flattened lessons, or null when the lesson is open
+ */
+async function findIncompletePrerequisite(prisma, userId, lessons, lessonId, enrollmentType) {
+  const previous = findPreviousLesson(lessons, lessonId, enrollmentType);
+  if (!previous) return null;
+
+  const progress = await prisma.progress.findUnique({
+    where: { userId_lessonId: { userId, lessonId: previous.id } },
+    select: { status: true }
+  });
+  return progress?.status === 'COMPLETED' ? null : { id: previous.id, title: previous.title };
+}
+
+/**
+ * Incomplete prerequisite for a lesson in a sequential program, or null when it is open.
+ * Callers should check program.isSequential first to skip the tree query.
+ */
+async function getIncompletePrerequisite(prisma, userId, programId, lessonId, enrollmentType) {
+  const program = await prisma.program.findUnique({
+    where: { id: programId },
+    include: lessonTreeInclude({ id: true, title: true, orderIndex: true, isFree: true })
+  });
+  if (!program || !program.isSequential) return null;
+
+  return findIncompletePrerequisite(prisma, userId, flattenProgramLessons(program), lessonId, enrollmentType);
+}
+
+/**
+ * Incomplete prerequisites for several lessons ({ id, programId }) across
+ * programs, keyed by lesson ID. Each program's tree is loaded once and
+ * lessons in non-sequential programs are left out.
+ */
+async function getIncompletePrerequisites(prisma, userId, lessons, enrollmentTypes) {
+  const prerequisites = new Map();
+  const programIds = [...new Set(lessons.map(l => l.programId))];
+
+  for (const programId of programIds) {
+    const program = await prisma.program.findUnique({
+      where: { id: programId },
+      include: lessonTreeInclude({ id: true, title: true, orderIndex: true, isFree: true })
+    });
+    if (!program || !program.isSequential) continue;
+
+    const ordered = flattenProgramLessons(program);
+    for (const lesson of lessons.filter(l => l.programId === programId)) {
+      const prerequisite = await findIncompletePrerequisite(
+        prisma, userId, ordered, lesson.id, enrollmentTypes.get(programId)
+      );
+      if (prerequisite) prerequisites.set(lesson.id, prerequisite);
+    }
+  }
+
+  return prerequisites;
+}
+
+module.exports = {
+  lessonTreeInclude,
+  flattenProgramLessons,
+  findPreviousLesson,
+  findIncompletePrerequisite,
+  getIncompletePrerequisite,
+  getIncompletePrerequisites
+};
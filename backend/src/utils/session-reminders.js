@@ -0,0 +1,179 @@
+/**
+ * Live session reminders — an email and a NEW_SESSION notification to every
+ * learner a session reaches, at configurable offsets before each occurrence
+ * (SESSION_REMINDER_OFFSETS, minutes, default "1440,15"). Sends are recorded
+ * in SessionReminder so a reminder is never sent twice.
+ */
+const { expandRecurringSession, occurrenceKey } = require('./recurrence');
+const { sessionAudienceWhere } = require('./cohorts');
+const { sendSessionReminderEmail } = require('./email');
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_OFFSETS = [1440, 15];
+const MAX_OFFSET_MINUTES = 7 * 24 * 60;
+const EMAIL_INTERVAL_MS = 600; // Resend allows 2 requests/second
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Reminder offsets in minutes, largest first. Invalid entries are ignored.
+ */
+function parseReminderOffsets(value) {
+  if (!value) return DEFAULT_OFFSETS;
+  const offsets = [...new Set(
+    String(value)
+      .split(',')
+      .map(part => Number(part.trim()))
+      .filter(n => Number.isInteger(n) && n > 0 && n <= MAX_OFFSET_MINUTES)
+  )];
+  return offsets.length > 0 ? offsets.sort((a, b) => b - a) : DEFAULT_OFFSETS;
+}
+
+// "24 hours", "1 hour", "15 minutes"
+function formatOffset(minutes) {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// Time left until an occurrence, for the reminder text: minutes under two
+// hours, otherwise the nearest hour ("90 minutes", "24 hours")
+function formatStartsIn(minutesToStart) {
+  const minutes = Math.max(1, Math.round(minutesToStart));
+  return minutes < 120 ? formatOffset(minutes) : formatOffset(Math.round(minutes / 60) * 60);
+}
+
+/**
+ * The offset due for an occurrence starting in `minutesToStart`: the smallest
+ * one already reached, so a session created at short notice only gets the
+ * reminder closest to its start. Null when none is reached yet.
+ */
+function dueOffset(offsets, minutesToStart) {
+  const reached = offsets.filter(offset => minutesToStart <= offset);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+/**
+ * Occurrences starting within [now, now + the largest offset]
+ */
+async function findUpcomingOccurrences(prisma, now, offsets) {
+  const windowEnd = new Date(now.getTime() + Math.max(...offsets) * MINUTE_MS);
+
+  const sessions = await prisma.session.findMany({
+    where: {
+      OR: [
+        { isRecurring: false, startTime: { gte: now, lte: windowEnd } },
+        { isRecurring: true, startTime: { lte: windowEnd } }
+      ]
+    },
+    include: {
+      sessionPrograms: { select: { programId: true, cohortId: true } },
+      overrides: true
+    }
+  });
+
+  const occurrences = [];
+  for (const session of sessions) {
+    const expanded = session.isRecurring ? expandRecurringSession(session, now, windowEnd) : [session];
+    for (const occurrence of expanded) {
+      const startTime = new Date(occurrence.startTime);
+      if (startTime >= now && startTime <= windowEnd) {
+        occurrences.push({ session: occurrence, startTime, occurrenceDate: occurrenceKey(occurrence) });
+      }
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Send the reminders that are due at `now`, spacing emails by emailIntervalMs.
+ * Returns how many were sent.
+ */
+async function sendSessionReminders(
+  prisma,
+  now = new Date(),
+  offsets = parseReminderOffsets(process.env.SESSION_REMINDER_OFFSETS),
+  { emailIntervalMs = EMAIL_INTERVAL_MS } = {}
+) {
+  const occurrences = await findUpcomingOccurrences(prisma, now, offsets);
+  let sent = 0;
+
+  for (const { session, startTime, occurrenceDate } of occurrences) {
+    const minutesToStart = (startTime.getTime() - now.getTime()) / MINUTE_MS;
+    const offsetMinutes = dueOffset(offsets, minutesToStart);
+    if (offsetMinutes === null) continue;
+    // The offset may have been passed long ago (session created at short notice)
+    const startsIn = formatStartsIn(minutesToStart);
+
+    // Same audience learners see the session for: paid/admin enrollments
+    const [audience, alreadySent] = await Promise.all([
+      prisma.enrollment.findMany({
+        where: {
+          ...sessionAudienceWhere(session.sessionPrograms),
+          type: { in: ['ADMIN', 'PAID'] },
+          user: { status: 'ACTIVE' }
+        },
+        select: {
+          userId: true,
+          programId: true,
+          user: { select: { email: true, name: true } }
+        },
+        distinct: ['userId']
+      }),
+      prisma.sessionReminder.findMany({
+        where: { sessionId: session.id, occurrenceDate, offsetMinutes },
+        select: { userId: true }
+      })
+    ]);
+
+    const sentTo = new Set(alreadySent.map(r => r.userId));
+    const pending = audience.filter(e => !sentTo.has(e.userId));
+    if (pending.length === 0) continue;
+
+    // Record first — a failed email is better than a duplicate on the next run
+    await prisma.sessionReminder.createMany({
+      data: pending.map(e => ({ sessionId: session.id, userId: e.userId, occurrenceDate, offsetMinutes })),
+      skipDuplicates: true
+    });
+
+    await prisma.notification.createMany({
+      data: pending.map(enrollment => ({
+        userId: enrollment.userId,
+        type: 'NEW_SESSION',
+        title: 'Session Reminder',
+        message: `${session.name} starts in ${startsIn}`,
+        data: {
+          sessionId: session.id,
+          programId: enrollment.programId,
+          startTime,
+          meetLink: session.meetLink,
+          isReminder: true
+        }
+      }))
+    });
+
+    for (const enrollment of pending) {
+      await sendSessionReminderEmail(enrollment.user.email, enrollment.user.name, {
+        name: session.name,
+        startTime,
+        meetLink: session.meetLink,
+        startsIn
+      });
+      // Emails are recorded as sent before going out, so a rate-limited one is lost
+      if (emailIntervalMs > 0) await sleep(emailIntervalMs);
+    }
+    sent += pending.length;
+  }
+
+  return sent;
+}
+
+module.exports = {
+  parseReminderOffsets,
+  formatOffset,
+  formatStartsIn,
+  dueOffset,
+  sendSessionReminders
+};
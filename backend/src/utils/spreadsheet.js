@@ -0,0 +1,471 @@
+/**
+ * Minimal spreadsheet readers for admin uploads (learner import) and streaming
+ * writers for exports.
+ * CSV follows RFC 4180; XLSX reads the first worksheet of the workbook zip —
+ * enough for plain data exports, formulas come through as their cached values.
+ */
+const zlib = require('zlib');
+const { once } = require('events');
+const { escapeCsvValue } = require('./csv');
+
+const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024; // Across all entries of an XLSX upload
+
+/**
+ * Parse CSV text into rows of trimmed cell strings
+ */
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, ''); // Excel adds a byte order mark
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Uncompressed size cap for readZipEntries exceeded (e.g. a zip bomb)
+function tooLargeError() {
+  return new Error('The file is too large once uncompressed');
+}
+
+// Read every file of a zip archive into { name: Buffer }, up to MAX_UNZIPPED_BYTES in total
+function readZipEntries(buffer) {
+  // End of central directory record sits in the last 64KB (+22 bytes)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a valid XLSX file');
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = {};
+  let remaining = MAX_UNZIPPED_BYTES;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error('Not a valid XLSX file');
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30
+      + buffer.readUInt16LE(localOffset + 26)
+      + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    let content = data;
+    if (method === 8) {
+      try {
+        content = zlib.inflateRawSync(data, { maxOutputLength: Math.max(remaining, 1) });
+      } catch (err) {
+        if (err.code === 'ERR_BUFFER_TOO_LARGE') throw tooLargeError();
+        throw err;
+      }
+    }
+    remaining -= content.length;
+    if (remaining < 0) throw tooLargeError();
+    entries[name] = content;
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function decodeXml(text) {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+// Concatenated text of all <t> runs (rich text splits one string into several)
+function textOf(xml) {
+  let text = '';
+  for (const match of xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += match[1];
+  }
+  return decodeXml(text);
+}
+
+function columnIndex(ref) {
+  const letters = ref.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Path of the workbook's first sheet (sheet order is not file order)
+function firstSheetPath(entries) {
+  const workbook = entries['xl/workbook.xml']?.toString('utf8') || '';
+  const rels = entries['xl/_rels/workbook.xml.rels']?.toString('utf8') || '';
+  const relId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const relationship = relId && [...rels.matchAll(/<Relationship\b[^>]*>/g)]
+    .map(match => match[0])
+    .find(tag => tag.includes(`Id="${relId}"`));
+  const target = relationship?.match(/Target="([^"]+)"/)?.[1];
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Parse the first worksheet of an XLSX file into rows of trimmed cell strings
+ */
+function parseXlsx(buffer) {
+  const entries = readZipEntries(buffer);
+  const sheet = entries[firstSheetPath(entries)];
+  if (!sheet) throw new Error('The workbook has no worksheets');
+
+  const sharedStringsXml = entries['xl/sharedStrings.xml']?.toString('utf8') || '';
+  const sharedStrings = [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match => textOf(match[1]));
+
+  const rows = [];
+  for (const rowMatch of sheet.toString('utf8').matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row = [];
+    for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const ref = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = textOf(body);
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+      }
+
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = value.trim();
+    }
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse an uploaded CSV or XLSX file (multer memory storage) into rows,
+ * dropping blank lines. Throws on unsupported or unreadable files.
+ */
+function parseSpreadsheet(file) {
+  const name = (file.originalname || '').toLowerCase();
+  let rows;
+  if (name.endsWith('.xlsx')) {
+    rows = parseXlsx(file.buffer);
+  } else if (name.endsWith('.csv')) {
+    rows = parseCsv(file.buffer.toString('utf8'));
+  } else {
+    throw new Error('Upload a .csv or .xlsx file');
+  }
+  return rows.filter(row => row.some(cell => cell !== ''));
+}
+
+// ---------- Writers ----------
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buffer, previous = 0) {
+  let crc = previous ^ 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function outputClosedError() {
+  return Object.assign(new Error('Output stream closed'), { code: 'OUTPUT_CLOSED' });
+}
+
+/**
+ * Write to a stream, waiting for it to drain when its buffer is full. Rejects
+ * when the stream closes or errors instead (e.g. the client disconnected), so
+ * whatever is producing the rows stops.
+ */
+async function send(out, chunk) {
+  if (out.destroyed || out.writableEnded) throw outputClosedError();
+  if (out.write(chunk)) return;
+
+  const controller = new AbortController();
+  try {
+    // once() rejects on 'error' as well
+    await Promise.race([
+      once(out, 'drain', { signal: controller.signal }),
+      once(out, 'close', { signal: controller.signal }).then(() => { throw outputClosedError(); })
+    ]);
+  } finally {
+    controller.abort();
+  }
+}
+
+function escapeXml(value) {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '') // Not allowed in XML
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index) {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function xlsxRow(values, rowNumber) {
+  const cells = values.map((value, i) => {
+    if (value === null || value === undefined || value === '') return '';
+    const ref = `${columnName(i)}${rowNumber}`;
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return `<c r="${ref}"><v>${value}</v></c>`;
+    }
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+  });
+  return `<row r="${rowNumber}">${cells.join('')}</row>`;
+}
+
+const XLSX_MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const XLSX_REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+function xlsxPackageFiles(sheetName) {
+  return {
+    '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '</Types>',
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${PACKAGE_REL_NS}">`
+      + `<Relationship Id="rId1" Type="${XLSX_REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="${XLSX_MAIN_NS}" xmlns:r="${XLSX_REL_NS}">`
+      + `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${PACKAGE_REL_NS}">`
+      + `<Relationship Id="rId1" Type="${XLSX_REL_NS}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`
+  };
+}
+
+// Zip flags: sizes and CRC follow the data (bit 3), UTF-8 names (bit 11)
+const ZIP_FLAGS = 0x0808;
+const ZIP_DEFLATE = 8;
+
+/**
+ * Zip archive writer for files whose size is not known up front: each file's
+ * CRC and sizes go in a data descriptor after its (deflated) contents.
+ */
+function createZipWriter(out) {
+  const entries = [];
+  let offset = 0;
+
+  const write = chunk => {
+    offset += chunk.length;
+    return send(out, chunk);
+  };
+
+  async function startFile(name) {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const entry = { nameBuffer, offset, crc: 0, size: 0, compressedSize: 0 };
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // Version needed
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(ZIP_DEFLATE, 8);
+    header.writeUInt16LE(nameBuffer.length, 26);
+    await write(Buffer.concat([header, nameBuffer]));
+
+    const deflate = zlib.createDeflateRaw();
+    const compressed = [];
+    deflate.on('data', chunk => compressed.push(chunk));
+
+    // Move whatever the deflater has produced so far to the output
+    const flushCompressed = async () => {
+      while (compressed.length > 0) {
+        const chunk = compressed.shift();
+        entry.compressedSize += chunk.length;
+        await write(chunk);
+      }
+    };
+
+    return {
+      async write(text) {
+        const data = Buffer.from(text, 'utf8');
+        entry.crc = crc32(data, entry.crc);
+        entry.size += data.length;
+        await new Promise((resolve, reject) => deflate.write(data, err => (err ? reject(err) : resolve())));
+        await flushCompressed();
+      },
+      async end() {
+        deflate.end();
+        await once(deflate, 'end');
+        await flushCompressed();
+
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074b50, 0);
+        descriptor.writeUInt32LE(entry.crc, 4);
+        descriptor.writeUInt32LE(entry.compressedSize, 8);
+        descriptor.writeUInt32LE(entry.size, 12);
+        await write(descriptor);
+        entries.push(entry);
+      }
+    };
+  }
+
+  async function addFile(name, text) {
+    const file = await startFile(name);
+    await file.write(text);
+    await file.end();
+  }
+
+  // Central directory and end record, then end the output stream
+  async function finish() {
+    const directoryOffset = offset;
+    for (const entry of entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // Version made by
+      header.writeUInt16LE(20, 6); // Version needed
+      header.writeUInt16LE(ZIP_FLAGS, 8);
+      header.writeUInt16LE(ZIP_DEFLATE, 10);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.nameBuffer.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await write(Buffer.concat([header, entry.nameBuffer]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await write(end);
+    out.end();
+  }
+
+  return { startFile, addFile, finish };
+}
+
+// Rows are batched into chunks of about this size before compressing
+const XLSX_CHUNK_SIZE = 64 * 1024;
+
+function createXlsxWriter(out, sheetName) {
+  const zip = createZipWriter(out);
+  let sheet = null;
+  let rowCount = 0;
+  let pending = '';
+
+  async function open() {
+    for (const [name, text] of Object.entries(xlsxPackageFiles(sheetName))) {
+      await zip.addFile(name, text);
+    }
+    sheet = await zip.startFile('xl/worksheets/sheet1.xml');
+    await sheet.write(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="${XLSX_MAIN_NS}"><sheetData>`);
+  }
+
+  return {
+    async writeRow(values) {
+      if (!sheet) await open();
+      rowCount++;
+      pending += xlsxRow(values, rowCount);
+      if (pending.length >= XLSX_CHUNK_SIZE) {
+        await sheet.write(pending);
+        pending = '';
+      }
+    },
+    async end() {
+      if (!sheet) await open();
+      await sheet.write(`${pending}</sheetData></worksheet>`);
+      await sheet.end();
+      await zip.finish();
+    }
+  };
+}
+
+function createCsvWriter(out) {
+  return {
+    writeRow: values => send(out, values.map(escapeCsvValue).join(',') + '\r\n'),
+    async end() {
+      out.end();
+    }
+  };
+}
+
+const SHEET_FORMATS = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  xlsx: { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+};
+
+/**
+ * Row-by-row writer for a CSV or XLSX file streamed to `out` (e.g. an Express
+ * response): { writeRow(values), end() }, both async. end() ends `out`.
+ * Both reject with code OUTPUT_CLOSED once `out` has closed.
+ */
+function createSheetWriter(out, format, { sheetName = 'Sheet1' } = {}) {
+  return format === 'xlsx' ? createXlsxWriter(out, sheetName) : createCsvWriter(out);
+}
+
+module.exports = {
+  SHEET_FORMATS,
+  parseCsv,
+  parseXlsx,
+  parseSpreadsheet,
+  createSheetWriter
+};
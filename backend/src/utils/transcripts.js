@@ -0,0 +1,172 @@
+/**
+ * Video transcripts — WebVTT/SRT caption files per lesson and language.
+ * Files are stored in R2 as WebVTT (SRT is converted) and also pushed to the
+ * Bunny video as captions; the parsed cues drive the lesson viewer's
+ * transcript panel and their text is indexed for full-text search.
+ */
+
+const MAX_CUES = 20000;
+
+// Transcript fields the admin content tree shows
+const TRANSCRIPT_SELECT = { id: true, language: true, label: true, fileUrl: true, updatedAt: true };
+
+// "01:02:03.456", "02:03.456" (WebVTT) or "01:02:03,456" (SRT) -> seconds
+function parseTimestamp(value) {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/.exec(value.trim());
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis.padEnd(3, '0')) / 1000;
+}
+
+// Cue text without markup (<v Speaker>, <i>, timestamps) or entities
+function cleanCueText(lines) {
+  return lines
+    .join(' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Cues from a WebVTT or SRT file. Returns { format, cues } with cues as
+ * { start, end, text } in seconds, or { error }.
+ */
+function parseCaptionFile(content) {
+  const normalized = String(content).replace(/^﻿/, '').replace(/\r\n?/g, '\n');
+  const format = /^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(normalized) ? 'VTT' : 'SRT';
+
+  const cues = [];
+  for (const block of normalized.split(/\n{2,}/)) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    // Header, NOTE, STYLE and REGION blocks have no timing line
+    if (timingIndex === -1 || timingIndex > 1) continue;
+
+    const [startPart, endPart = ''] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startPart);
+    // WebVTT cue settings ("line:0 position:10%") follow the end time
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0] || '');
+    if (start === null || end === null || end < start) {
+      return { error: `Invalid cue timing: "${lines[timingIndex].trim()}"` };
+    }
+
+    const text = cleanCueText(lines.slice(timingIndex + 1));
+    if (text) cues.push({ start, end, text });
+  }
+
+  if (cues.length === 0) {
+    return { error: 'No captions found. Upload a WebVTT (.vtt) or SRT (.srt) file.' };
+  }
+  if (cues.length > MAX_CUES) {
+    return { error: `Caption files are limited to ${MAX_CUES} cues` };
+  }
+  cues.sort((a, b) => a.start - b.start);
+  return { format, cues };
+}
+
+// 3723.5 -> "01:02:03.500"
+function formatVttTimestamp(totalSeconds) {
+  const millis = Math.round(totalSeconds * 1000);
+  const pad = (n, size = 2) => String(n).padStart(size, '0');
+  return `${pad(Math.floor(millis / 3600000))}:${pad(Math.floor(millis / 60000) % 60)}:${pad(Math.floor(millis / 1000) % 60)}.${pad(millis % 1000, 3)}`;
+}
+
+/**
+ * WebVTT document for cues (used for SRT uploads)
+ */
+function buildWebVtt(cues) {
+  const blocks = cues.map(cue => `${formatVttTimestamp(cue.start)} --> ${formatVttTimestamp(cue.end)}\n${cue.text}`);
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
+
+// Plain transcript text for the search index
+function transcriptText(cues) {
+  return cues.map(cue => cue.text).join(' ');
+}
+
+/**
+ * Rebuild the full-text search vector of a lesson's transcripts. Prisma
+ * can't write tsvector columns, so this runs after every transcript write.
+ */
+async function refreshTranscriptIndex(prisma, lessonId) {
+  await prisma.$executeRaw`
+    UPDATE lesson_transcripts
+    SET search_vector = to_tsvector('simple', text)
+    WHERE lesson_id = ${lessonId}
+  `;
+}
+
+/**
+ * Cues containing every word of a search query (case-insensitive), for
+ * snippets that link to a point in the video
+ */
+function findMatchingCues(cues, query, limit = 3) {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+  return cues
+    .filter(cue => {
+      const text = cue.text.toLowerCase();
+      return terms.every(term => text.includes(term));
+    })
+    .slice(0, limit)
+    .map(cue => ({ start: cue.start, text: cue.text }));
+}
+
+// Library and video IDs of a Bunny embed/play URL
+function parseBunnyVideo(contentUrl) {
+  try {
+    const url = new URL(contentUrl);
+    const match = /^\/(?:embed|play)\/([^/]+)\/([^/]+)/.exec(url.pathname);
+    return match ? { libraryId: match[1], videoId: match[2] } : null;
+  } catch {
+    return null;
+  }
+}
+
+function bunnyCaptionsUrl(contentUrl, language) {
+  const video = contentUrl && parseBunnyVideo(contentUrl);
+  if (!video || !process.env.BUNNY_STREAM_API_KEY) return null;
+  return `https://video.bunnycdn.com/library/${video.libraryId}/videos/${video.videoId}/captions/${encodeURIComponent(language)}`;
+}
+
+/**
+ * Add or replace a caption track on the lesson's Bunny video so the player
+ * shows captions. Fire-and-forget: the transcript panel works without it.
+ */
+function syncBunnyCaptions(contentUrl, { language, label, vtt }) {
+  const url = bunnyCaptionsUrl(contentUrl, language);
+  if (!url) return;
+
+  fetch(url, {
+    method: 'POST',
+    headers: { 'AccessKey': process.env.BUNNY_STREAM_API_KEY, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ srclang: language, label, captionsFile: Buffer.from(vtt).toString('base64') })
+  })
+    .then(response => {
+      if (!response.ok) console.error('Bunny caption upload failed:', response.status);
+    })
+    .catch(err => console.error('Bunny caption upload failed:', err.message));
+}
+
+function removeBunnyCaptions(contentUrl, language) {
+  const url = bunnyCaptionsUrl(contentUrl, language);
+  if (!url) return;
+
+  fetch(url, { method: 'DELETE', headers: { 'AccessKey': process.env.BUNNY_STREAM_API_KEY } })
+    .catch(err => console.error('Bunny caption delete failed:', err.message));
+}
+
+module.exports = {
+  TRANSCRIPT_SELECT,
+  parseCaptionFile,
+  buildWebVtt,
+  transcriptText,
+  refreshTranscriptIndex,
+  findMatchingCues,
+  syncBunnyCaptions,
+  removeBunnyCaptions
+};
@@ -17,6 +17,30 @@ const TEST_LEARNER = {
   status: 'ACTIVE',
 };
 
+const TEST_INSTRUCTOR = {
+  id: 'instructor-id-1',
+  email: 'instructor@test.com',
+  name: 'Test Instructor',
+  role: 'INSTRUCTOR',
+  status: 'ACTIVE',
+};
+
+const TEST_SUPPORT = {
+  id: 'support-id-1',
+  email: 'support@test.com',
+  name: 'Test Support',
+  role: 'SUPPORT',
+  status: 'ACTIVE',
+};
+
+const TEST_FINANCE = {
+  id: 'finance-id-1',
+  email: 'finance@test.com',
+  name: 'Test Finance',
+  role: 'FINANCE',
+  status: 'ACTIVE',
+};
+
 /**
  * Generate a valid JWT for testing
  */
@@ -61,6 +85,9 @@ function mockAuthSession(mockPrisma, user) {
 module.exports = {
   TEST_ADMIN,
   TEST_LEARNER,
+  TEST_INSTRUCTOR,
+  TEST_SUPPORT,
+  TEST_FINANCE,
   generateTestToken,
   mockAuthSession,
 };
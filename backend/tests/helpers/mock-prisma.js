@@ -19,18 +19,37 @@ const models = [
   'user',
   'userSession',
   'program',
+  'programInstructor',
   'topic',
   'subtopic',
   'lesson',
   'lessonAttachment',
+  'quizQuestion',
+  'quizAttempt',
+  'assignmentSubmission',
   'enrollment',
   'progress',
+  'certificate',
   'session',
   'sessionProgram',
+  'sessionAttendance',
+  'sessionReminder',
+  'sessionOccurrenceOverride',
+  'sessionRecording',
+  'lessonComment',
+  'lessonNote',
+  'lessonTranscript',
   'notification',
   'payment',
   'emailLog',
   'auditLog',
+  'coupon',
+  'invoice',
+  'invoiceSequence',
+  'installmentPlan',
+  'installment',
+  'learnerImport',
+  'cohort',
 ];
 
 function createMockPrisma() {
@@ -50,6 +69,7 @@ function createMockPrisma() {
     return Promise.all(fnOrArray);
   });
   mock.$queryRaw = jest.fn();
+  mock.$executeRaw = jest.fn();
   mock.$disconnect = jest.fn();
 
   return mock;
@@ -2,7 +2,15 @@ const request = require('supertest');
 const jwt = require('jsonwebtoken');
 const createApp = require('../../src/app');
 const { createMockPrisma } = require('../helpers/mock-prisma');
-const { TEST_ADMIN, TEST_LEARNER, generateTestToken, mockAuthSession } = require('../helpers/auth');
+const {
+  TEST_ADMIN,
+  TEST_LEARNER,
+  TEST_INSTRUCTOR,
+  TEST_SUPPORT,
+  TEST_FINANCE,
+  generateTestToken,
+  mockAuthSession
+} = require('../helpers/auth');
 
 jest.mock('../../src/utils/email', () => ({
   sendPasswordSetupEmail: jest.fn(),
@@ -164,6 +172,127 @@ describe('requireAdmin middleware', () => {
   });
 });
 
+describe('requirePermission middleware', () => {
+  it('lets support staff view learners', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_SUPPORT);
+    mockPrisma.user.findMany.mockResolvedValue([]);
+    mockPrisma.user.count.mockResolvedValue(0);
+
+    const res = await request(app)
+      .get('/admin/learners')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+  });
+
+  it('stops support staff deleting a learner', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_SUPPORT);
+
+    const res = await request(app)
+      .delete('/admin/learners/learner-id-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.code).toBe('FORBIDDEN');
+    expect(mockPrisma.user.delete).not.toHaveBeenCalled();
+  });
+
+  it('stops finance staff managing sessions', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_FINANCE);
+
+    const res = await request(app)
+      .get('/admin/sessions')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('stops instructors viewing invoices', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_INSTRUCTOR);
+
+    const res = await request(app)
+      .get('/admin/invoices')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('requireProgramAccess middleware', () => {
+  beforeEach(() => {
+    mockPrisma.programInstructor.findMany.mockResolvedValue([{ programId: 'program-1' }]);
+  });
+
+  it('lets instructors work on an assigned program', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_INSTRUCTOR);
+    mockPrisma.cohort.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .get('/admin/programs/program-1/cohorts')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.programInstructor.findMany).toHaveBeenCalledWith({
+      where: { userId: TEST_INSTRUCTOR.id },
+      select: { programId: true }
+    });
+  });
+
+  it('returns 403 for a lesson in a program the instructor is not assigned to', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_INSTRUCTOR);
+    mockPrisma.lesson.findUnique.mockResolvedValue({ programId: 'program-2' });
+
+    const res = await request(app)
+      .put('/admin/programs/lessons/lesson-1')
+      .set('Cookie', `token=${token}`)
+      .send({ title: 'Renamed' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.message).toBe('You are not assigned to this program');
+    expect(mockPrisma.lesson.update).not.toHaveBeenCalled();
+  });
+
+  it('stops instructors scheduling a session for all programs', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_INSTRUCTOR);
+
+    const res = await request(app)
+      .post('/admin/sessions')
+      .set('Cookie', `token=${token}`)
+      .send({ name: 'Office hours', startTime: '2026-11-01T10:00:00Z' });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.session.create).not.toHaveBeenCalled();
+  });
+
+  it('limits the program list to assigned programs', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_INSTRUCTOR);
+    mockPrisma.program.findMany.mockResolvedValue([]);
+    mockPrisma.program.count.mockResolvedValue(0);
+    mockPrisma.lesson.groupBy.mockResolvedValue([]);
+
+    const res = await request(app)
+      .get('/admin/programs')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.program.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: { in: ['program-1'] } } })
+    );
+  });
+
+  it('does not limit admins', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lesson.findUnique.mockResolvedValue(null);
+
+    const res = await request(app)
+      .delete('/admin/programs/lessons/lesson-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).not.toBe(403);
+    expect(mockPrisma.programInstructor.findMany).not.toHaveBeenCalled();
+  });
+});
+
 describe('requireLearner middleware', () => {
   it('returns 403 when role is ADMIN', async () => {
     const token = mockAuthSession(mockPrisma, TEST_ADMIN);
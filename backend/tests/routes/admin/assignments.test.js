@@ -0,0 +1,163 @@
+const request = require('supertest');
+const createApp = require('../../../src/app');
+const { createMockPrisma } = require('../../helpers/mock-prisma');
+const { TEST_ADMIN, TEST_LEARNER, mockAuthSession } = require('../../helpers/auth');
+
+jest.mock('../../../src/utils/email', () => ({
+  sendPasswordSetupEmail: jest.fn(),
+  sendPasswordResetEmail: jest.fn(),
+  sendSessionReminderEmail: jest.fn(),
+}));
+jest.mock('../../../src/utils/cache', () => ({
+  cacheGet: (_key, fn) => fn(),
+  cacheDel: jest.fn(),
+}));
+
+const { cacheDel } = require('../../../src/utils/cache');
+
+let app;
+let mockPrisma;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma = createMockPrisma();
+  app = createApp(mockPrisma);
+});
+
+const SUBMISSION = {
+  id: 'sub-1',
+  userId: TEST_LEARNER.id,
+  lessonId: 'lesson-1',
+  textAnswer: 'My answer',
+  fileUrl: null,
+  fileName: null,
+  status: 'PENDING',
+  grade: null,
+  feedback: null,
+  gradedAt: null,
+  submittedAt: new Date('2024-01-01'),
+  user: { id: TEST_LEARNER.id, name: 'Test Learner', email: 'learner@test.com' },
+  lesson: { id: 'lesson-1', title: 'Essay', programId: 'prog-1', program: { id: 'prog-1', name: 'Program' } },
+};
+
+// ---------- GET /admin/assignments/submissions ----------
+
+describe('GET /admin/assignments/submissions', () => {
+  it('returns 403 for learner role', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    const res = await request(app)
+      .get('/admin/assignments/submissions')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('filters by status and program', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.assignmentSubmission.findMany.mockResolvedValue([SUBMISSION]);
+    mockPrisma.assignmentSubmission.count.mockResolvedValue(1);
+
+    const res = await request(app)
+      .get('/admin/assignments/submissions?status=PENDING&programId=prog-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.submissions[0]).toEqual(expect.objectContaining({
+      id: 'sub-1',
+      learner: SUBMISSION.user,
+      program: { id: 'prog-1', name: 'Program' },
+    }));
+    expect(mockPrisma.assignmentSubmission.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'PENDING', lesson: { programId: 'prog-1' } },
+    }));
+  });
+
+  it('returns 400 for an unknown status', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const res = await request(app)
+      .get('/admin/assignments/submissions?status=DONE')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+  });
+});
+
+// ---------- PUT /admin/assignments/submissions/:id/grade ----------
+
+describe('PUT /admin/assignments/submissions/:id/grade', () => {
+  beforeEach(() => {
+    mockPrisma.assignmentSubmission.findUnique.mockResolvedValue(SUBMISSION);
+    mockPrisma.assignmentSubmission.update.mockImplementation(async ({ data }) => ({ ...SUBMISSION, ...data }));
+    mockPrisma.notification.create.mockResolvedValue({});
+  });
+
+  it('returns 400 for an invalid status', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const res = await request(app)
+      .put('/admin/assignments/submissions/sub-1/grade')
+      .set('Cookie', `token=${token}`)
+      .send({ status: 'PENDING' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('requires feedback when rejecting', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const res = await request(app)
+      .put('/admin/assignments/submissions/sub-1/grade')
+      .set('Cookie', `token=${token}`)
+      .send({ status: 'REJECTED' });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.assignmentSubmission.update).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when submission not found', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.assignmentSubmission.findUnique.mockResolvedValue(null);
+
+    const res = await request(app)
+      .put('/admin/assignments/submissions/missing/grade')
+      .set('Cookie', `token=${token}`)
+      .send({ status: 'APPROVED' });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('approves, completes the lesson and notifies the learner', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.progress.upsert.mockResolvedValue({});
+
+    const res = await request(app)
+      .put('/admin/assignments/submissions/sub-1/grade')
+      .set('Cookie', `token=${token}`)
+      .send({ status: 'APPROVED', grade: ' A ', feedback: 'Great work' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual(expect.objectContaining({ status: 'APPROVED', grade: 'A' }));
+    expect(mockPrisma.progress.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId_lessonId: { userId: TEST_LEARNER.id, lessonId: 'lesson-1' } },
+    }));
+    expect(cacheDel).toHaveBeenCalledWith(`learner:home:${TEST_LEARNER.id}`);
+    expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: TEST_LEARNER.id,
+        type: 'ASSIGNMENT_GRADED',
+        data: { programId: 'prog-1', lessonId: 'lesson-1' },
+      }),
+    });
+  });
+
+  it('rejects without touching progress', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+
+    const res = await request(app)
+      .put('/admin/assignments/submissions/sub-1/grade')
+      .set('Cookie', `token=${token}`)
+      .send({ status: 'REJECTED', feedback: 'Please add references' });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.progress.upsert).not.toHaveBeenCalled();
+    expect(mockPrisma.notification.create).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+const request = require('supertest');
+const createApp = require('../../../src/app');
+const { createMockPrisma } = require('../../helpers/mock-prisma');
+const { TEST_ADMIN, TEST_LEARNER, mockAuthSession } = require('../../helpers/auth');
+
+jest.mock('../../../src/utils/email', () => ({
+  sendPasswordSetupEmail: jest.fn(),
+  sendPasswordResetEmail: jest.fn(),
+  sendSessionReminderEmail: jest.fn(),
+}));
+jest.mock('../../../src/utils/cache', () => ({
+  cacheGet: (_key, fn) => fn(),
+  cacheDel: jest.fn(),
+}));
+
+let app;
+let mockPrisma;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma = createMockPrisma();
+  app = createApp(mockPrisma);
+});
+
+const logEntry = (id, overrides = {}) => ({
+  id,
+  adminId: TEST_ADMIN.id,
+  adminEmail: TEST_ADMIN.email,
+  action: 'UPDATE_COUPON',
+  targetType: 'Coupon',
+  targetId: 'coupon-1',
+  details: { code: 'LAUNCH20' },
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+  ...overrides,
+});
+
+// ---------- GET /admin/audit-logs ----------
+
+describe('GET /admin/audit-logs', () => {
+  it('returns a page of entries with the cursor of the next one', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.auditLog.findMany.mockResolvedValue([logEntry('log-3'), logEntry('log-2'), logEntry('log-1')]);
+    mockPrisma.user.findMany.mockResolvedValue([{ id: TEST_ADMIN.id, name: 'Admin' }]);
+
+    const res = await request(app)
+      .get('/admin/audit-logs?limit=2&action=UPDATE_COUPON&cursor=log-4')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.auditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { action: 'UPDATE_COUPON' },
+      take: 3,
+      cursor: { id: 'log-4' },
+      skip: 1,
+    }));
+    expect(res.body.data.logs.map(log => log.id)).toEqual(['log-3', 'log-2']);
+    expect(res.body.data.logs[0].admin).toEqual({ id: TEST_ADMIN.id, email: TEST_ADMIN.email, name: 'Admin' });
+    expect(res.body.data.nextCursor).toBe('log-2');
+  });
+
+  it('includes entries that name a program in their details for related activity', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.auditLog.findMany.mockResolvedValue([logEntry('log-1')]);
+    mockPrisma.user.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .get('/admin/audit-logs?targetType=Program&targetId=prog-1&related=true')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.auditLog.findMany.mock.calls[0][0].where).toEqual({
+      OR: [
+        { targetType: 'Program', targetId: 'prog-1' },
+        { details: { path: ['programId'], equals: 'prog-1' } },
+      ],
+    });
+    expect(res.body.data.nextCursor).toBeNull();
+  });
+
+  it('rejects an invalid date range', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+
+    const res = await request(app)
+      .get('/admin/audit-logs?from=yesterday')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    expect(mockPrisma.auditLog.findMany).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for learners', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    const res = await request(app)
+      .get('/admin/audit-logs')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+  });
+});
+
+// ---------- GET /admin/audit-logs/filters ----------
+
+describe('GET /admin/audit-logs/filters', () => {
+  it('lists the admins, actions and target types in the log', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.auditLog.findMany
+      .mockResolvedValueOnce([{ adminId: TEST_ADMIN.id, adminEmail: TEST_ADMIN.email }])
+      .mockResolvedValueOnce([{ action: 'DELETE_PROGRAM' }, { action: 'UPDATE_COUPON' }])
+      .mockResolvedValueOnce([{ targetType: 'Coupon' }, { targetType: 'Program' }]);
+
+    const res = await request(app)
+      .get('/admin/audit-logs/filters')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({
+      admins: [{ id: TEST_ADMIN.id, email: TEST_ADMIN.email }],
+      actions: ['DELETE_PROGRAM', 'UPDATE_COUPON'],
+      targetTypes: ['Coupon', 'Program'],
+    });
+  });
+});
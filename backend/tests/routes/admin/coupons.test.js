@@ -0,0 +1,172 @@
+const request = require('supertest');
+const createApp = require('../../../src/app');
+const { createMockPrisma } = require('../../helpers/mock-prisma');
+const { TEST_ADMIN, TEST_LEARNER, mockAuthSession } = require('../../helpers/auth');
+
+jest.mock('../../../src/utils/email', () => ({
+  sendPasswordSetupEmail: jest.fn(),
+  sendPasswordResetEmail: jest.fn(),
+  sendSessionReminderEmail: jest.fn(),
+}));
+jest.mock('../../../src/utils/cache', () => ({
+  cacheGet: (_key, fn) => fn(),
+  cacheDel: jest.fn(),
+}));
+
+let app;
+let mockPrisma;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma = createMockPrisma();
+  app = createApp(mockPrisma);
+  mockPrisma.auditLog.create.mockResolvedValue({});
+});
+
+const COUPON = {
+  id: 'coupon-1',
+  code: 'LAUNCH20',
+  description: 'Launch offer',
+  discountType: 'PERCENT',
+  discountValue: '20.00',
+  programId: null,
+  program: null,
+  expiresAt: null,
+  maxUses: 100,
+  perUserLimit: 1,
+  isActive: true,
+  createdAt: new Date('2024-01-01'),
+};
+
+// ---------- GET /admin/coupons ----------
+
+describe('GET /admin/coupons', () => {
+  it('returns 403 for learner role', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    const res = await request(app)
+      .get('/admin/coupons')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('lists coupons with redemption stats', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.coupon.findMany.mockResolvedValue([COUPON]);
+    mockPrisma.coupon.count.mockResolvedValue(1);
+    mockPrisma.$queryRaw.mockResolvedValue([
+      { coupon_id: 'coupon-1', redemptions: 3, revenue: 2397.6, discount: 599.4 }
+    ]);
+
+    const res = await request(app)
+      .get('/admin/coupons?search=launch')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.coupon.findMany.mock.calls[0][0].where).toEqual({ code: { contains: 'LAUNCH' } });
+    expect(res.body.data.coupons[0]).toMatchObject({
+      code: 'LAUNCH20',
+      discountValue: 20,
+      redemptions: 3,
+      revenue: 2397.6,
+      discountGiven: 599.4
+    });
+    expect(res.body.data.pagination.total).toBe(1);
+  });
+});
+
+// ---------- POST /admin/coupons ----------
+
+describe('POST /admin/coupons', () => {
+  it('validates discount values', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+
+    const res = await request(app)
+      .post('/admin/coupons')
+      .set('Cookie', `token=${token}`)
+      .send({ code: 'BIG', discountType: 'PERCENT', discountValue: 150 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    expect(mockPrisma.coupon.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects duplicate codes', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.coupon.findUnique.mockResolvedValue(COUPON);
+
+    const res = await request(app)
+      .post('/admin/coupons')
+      .set('Cookie', `token=${token}`)
+      .send({ code: 'launch20', discountType: 'FLAT', discountValue: 100 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('CODE_TAKEN');
+  });
+
+  it('creates a coupon with an uppercase code and audit log', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.coupon.findUnique.mockResolvedValue(null);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1' });
+    mockPrisma.coupon.create.mockImplementation(({ data }) => Promise.resolve({ ...COUPON, ...data, id: 'coupon-2' }));
+
+    const res = await request(app)
+      .post('/admin/coupons')
+      .set('Cookie', `token=${token}`)
+      .send({
+        code: 'partner-acme',
+        discountType: 'FLAT',
+        discountValue: 250,
+        programId: 'prog-1',
+        expiresAt: '2030-01-01T00:00:00.000Z',
+        maxUses: '',
+        perUserLimit: 1
+      });
+
+    expect(res.status).toBe(201);
+    expect(mockPrisma.coupon.create.mock.calls[0][0].data).toMatchObject({
+      code: 'PARTNER-ACME',
+      discountType: 'FLAT',
+      discountValue: 250,
+      programId: 'prog-1',
+      maxUses: null,
+      perUserLimit: 1
+    });
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ action: 'CREATE_COUPON', targetId: 'coupon-2' })
+    }));
+  });
+});
+
+// ---------- PUT /admin/coupons/:id ----------
+
+describe('PUT /admin/coupons/:id', () => {
+  it('checks percent limits against the existing discount type', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.coupon.findUnique.mockResolvedValue(COUPON);
+
+    const res = await request(app)
+      .put('/admin/coupons/coupon-1')
+      .set('Cookie', `token=${token}`)
+      .send({ discountValue: 120 });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.coupon.update).not.toHaveBeenCalled();
+  });
+
+  it('deactivates a coupon', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.coupon.findUnique.mockResolvedValue(COUPON);
+    mockPrisma.coupon.update.mockResolvedValue({ ...COUPON, isActive: false });
+    mockPrisma.$queryRaw.mockResolvedValue([]);
+
+    const res = await request(app)
+      .put('/admin/coupons/coupon-1')
+      .set('Cookie', `token=${token}`)
+      .send({ isActive: false });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.coupon.update.mock.calls[0][0].data).toEqual({ isActive: false });
+    expect(res.body.data.coupon.isActive).toBe(false);
+  });
+});
@@ -0,0 +1,189 @@
+const request = require('supertest');
+const createApp = require('../../../src/app');
+const { createMockPrisma } = require('../../helpers/mock-prisma');
+const { TEST_ADMIN, TEST_LEARNER, mockAuthSession } = require('../../helpers/auth');
+
+jest.mock('../../../src/utils/email', () => ({
+  sendPasswordSetupEmail: jest.fn(),
+  sendPasswordResetEmail: jest.fn(),
+  sendSessionReminderEmail: jest.fn(),
+}));
+jest.mock('../../../src/utils/cache', () => ({
+  cacheGet: (_key, fn) => fn(),
+  cacheDel: jest.fn(),
+}));
+
+let app;
+let mockPrisma;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma = createMockPrisma();
+  app = createApp(mockPrisma);
+});
+
+const LESSON = { id: 'lesson-1', title: 'Intro', programId: 'prog-1', program: { id: 'prog-1', name: 'Program' } };
+
+const QUESTION = {
+  id: 'comment-1',
+  lessonId: 'lesson-1',
+  userId: TEST_LEARNER.id,
+  parentId: null,
+  body: 'What does this mean?',
+  isPinned: false,
+  isLocked: false,
+  isHidden: false,
+  editedAt: null,
+  createdAt: new Date('2026-03-01'),
+  user: { id: TEST_LEARNER.id, name: 'Test Learner', role: 'LEARNER' },
+  replies: [],
+  lesson: LESSON,
+};
+
+// ---------- GET /admin/discussions ----------
+
+describe('GET /admin/discussions', () => {
+  it('returns 403 for learner role', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    const res = await request(app)
+      .get('/admin/discussions')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('lists unanswered questions oldest first by default', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lessonComment.findMany.mockResolvedValue([QUESTION]);
+    mockPrisma.lessonComment.count.mockResolvedValue(1);
+
+    const res = await request(app)
+      .get('/admin/discussions?programId=prog-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.threads[0]).toEqual(expect.objectContaining({
+      id: 'comment-1',
+      isAnswered: false,
+      replyCount: 0,
+      lesson: { id: 'lesson-1', title: 'Intro' },
+      program: { id: 'prog-1', name: 'Program' },
+    }));
+    expect(mockPrisma.lessonComment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        parentId: null,
+        isHidden: false,
+        replies: { none: { user: { role: { not: 'LEARNER' } } } },
+        lesson: { programId: 'prog-1' },
+      }),
+      orderBy: { createdAt: 'asc' },
+    }));
+  });
+
+  it('returns 400 for an unknown status', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const res = await request(app)
+      .get('/admin/discussions?status=closed')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+  });
+});
+
+// ---------- POST /admin/discussions/:id/replies ----------
+
+describe('POST /admin/discussions/:id/replies', () => {
+  it('replies as an instructor and notifies the learner', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lessonComment.findUnique.mockResolvedValue({ ...QUESTION, isLocked: true });
+    mockPrisma.lessonComment.create.mockImplementation(async ({ data }) => ({
+      id: 'comment-2',
+      ...data,
+      isHidden: false,
+      editedAt: null,
+      createdAt: new Date(),
+      user: { id: TEST_ADMIN.id, name: TEST_ADMIN.name, role: 'ADMIN' },
+    }));
+    mockPrisma.notification.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .post('/admin/discussions/comment-1/replies')
+      .set('Cookie', `token=${token}`)
+      .send({ body: ' It means this. ' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.comment).toEqual(expect.objectContaining({
+      body: 'It means this.',
+      author: { id: TEST_ADMIN.id, name: TEST_ADMIN.name, isInstructor: true },
+    }));
+    expect(mockPrisma.lessonComment.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ parentId: 'comment-1', lessonId: 'lesson-1' }),
+    }));
+    expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: TEST_LEARNER.id,
+        type: 'DISCUSSION_REPLY',
+        data: { programId: 'prog-1', lessonId: 'lesson-1', commentId: 'comment-1' },
+      }),
+    });
+  });
+
+  it('returns 404 when replying to a reply', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lessonComment.findUnique.mockResolvedValue({ ...QUESTION, parentId: 'comment-0' });
+
+    const res = await request(app)
+      .post('/admin/discussions/comment-1/replies')
+      .set('Cookie', `token=${token}`)
+      .send({ body: 'Answer' });
+
+    expect(res.status).toBe(404);
+    expect(mockPrisma.lessonComment.create).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- PUT /admin/discussions/:id ----------
+
+describe('PUT /admin/discussions/:id', () => {
+  it('pins and locks a question', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lessonComment.findUnique.mockResolvedValue(QUESTION);
+    mockPrisma.lessonComment.update.mockImplementation(async ({ data }) => ({ ...QUESTION, ...data }));
+
+    const res = await request(app)
+      .put('/admin/discussions/comment-1')
+      .set('Cookie', `token=${token}`)
+      .send({ isPinned: true, isLocked: true });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.comment).toEqual(expect.objectContaining({ isPinned: true, isLocked: true }));
+    expect(mockPrisma.lessonComment.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: { isPinned: true, isLocked: true },
+    }));
+  });
+
+  it('does not pin replies', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lessonComment.findUnique.mockResolvedValue({ ...QUESTION, parentId: 'comment-0' });
+
+    const res = await request(app)
+      .put('/admin/discussions/comment-1')
+      .set('Cookie', `token=${token}`)
+      .send({ isPinned: true });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('does not edit other people\'s text', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lessonComment.findUnique.mockResolvedValue(QUESTION);
+
+    const res = await request(app)
+      .put('/admin/discussions/comment-1')
+      .set('Cookie', `token=${token}`)
+      .send({ body: 'Rewritten' });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.lessonComment.update).not.toHaveBeenCalled();
+  });
+});
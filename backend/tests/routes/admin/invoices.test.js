@@ -0,0 +1,131 @@
+const request = require('supertest');
+const createApp = require('../../../src/app');
+const { createMockPrisma } = require('../../helpers/mock-prisma');
+const { TEST_ADMIN, TEST_LEARNER, mockAuthSession } = require('../../helpers/auth');
+
+jest.mock('../../../src/utils/email', () => ({
+  sendPasswordSetupEmail: jest.fn(),
+  sendPasswordResetEmail: jest.fn(),
+  sendSessionReminderEmail: jest.fn(),
+}));
+jest.mock('../../../src/utils/cache', () => ({
+  cacheGet: (_key, fn) => fn(),
+  cacheDel: jest.fn(),
+}));
+
+let app;
+let mockPrisma;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma = createMockPrisma();
+  app = createApp(mockPrisma);
+});
+
+const INVOICE = {
+  id: 'inv-1',
+  invoiceNumber: 'WA/2026-27/00001',
+  financialYear: '2026-27',
+  paymentId: 'pay-1',
+  userId: 'learner-id-1',
+  billingName: 'Test, Learner',
+  billingEmail: 'learner@test.com',
+  billingMobile: null,
+  programName: 'Design Program',
+  sacCode: '999293',
+  currency: 'INR',
+  taxRate: '18.00',
+  taxableAmount: '846.61',
+  cgstAmount: '76.20',
+  sgstAmount: '76.19',
+  totalAmount: '999.00',
+  sellerName: 'Wave Academy',
+  sellerGstin: '29ABCDE1234F1Z5',
+  sellerAddress: null,
+  issuedAt: new Date('2026-10-01T10:00:00Z'),
+  payment: { cashfreeOrderId: 'order_enroll-1_123', status: 'SUCCESS' },
+};
+
+// ---------- GET /admin/invoices ----------
+
+describe('GET /admin/invoices', () => {
+  it('rejects learners', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    const res = await request(app)
+      .get('/admin/invoices')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('lists invoices with search and date filters', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.invoice.findMany.mockResolvedValue([INVOICE]);
+    mockPrisma.invoice.count.mockResolvedValue(1);
+
+    const res = await request(app)
+      .get('/admin/invoices?search=learner&from=2026-10-01&to=2026-10-31')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    const { where } = mockPrisma.invoice.findMany.mock.calls[0][0];
+    expect(where.OR).toHaveLength(3);
+    expect(where.issuedAt.gte).toEqual(new Date('2026-10-01'));
+    expect(where.issuedAt.lte).toEqual(new Date('2026-10-31'));
+    expect(res.body.data.invoices[0]).toEqual(expect.objectContaining({
+      invoiceNumber: 'WA/2026-27/00001',
+      taxableAmount: 846.61,
+      paymentStatus: 'SUCCESS',
+    }));
+    expect(res.body.data.pagination.total).toBe(1);
+  });
+
+  it('returns 400 for an invalid date', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+
+    const res = await request(app)
+      .get('/admin/invoices?from=not-a-date')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+  });
+});
+
+// ---------- GET /admin/invoices/export ----------
+
+describe('GET /admin/invoices/export', () => {
+  it('returns matching invoices as CSV', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.invoice.findMany.mockResolvedValue([INVOICE]);
+
+    const res = await request(app)
+      .get('/admin/invoices/export')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('text/csv');
+    expect(res.headers['content-disposition']).toMatch(/invoices-\d{4}-\d{2}-\d{2}\.csv/);
+
+    const [header, row] = res.text.trim().split('\r\n');
+    expect(header).toMatch(/^Invoice Number,Invoice Date,Learner Name/);
+    expect(row).toContain('WA/2026-27/00001,2026-10-01,"Test, Learner",learner@test.com');
+    expect(row).toContain('846.61,18,76.20,76.19,999.00');
+  });
+});
+
+// ---------- GET /admin/invoices/:id/download ----------
+
+describe('GET /admin/invoices/:id/download', () => {
+  it('returns 404 for a missing invoice', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.invoice.findUnique.mockResolvedValue(null);
+
+    const res = await request(app)
+      .get('/admin/invoices/missing/download')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(404);
+  });
+});
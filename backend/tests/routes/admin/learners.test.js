@@ -1,4 +1,6 @@
 const request = require('supertest');
+const zlib = require('zlib');
+const { PassThrough } = require('stream');
 const createApp = require('../../../src/app');
 const { createMockPrisma } = require('../../helpers/mock-prisma');
 const { TEST_ADMIN, TEST_LEARNER, mockAuthSession } = require('../../helpers/auth');
@@ -13,6 +15,14 @@ jest.mock('../../../src/utils/cache', () => ({
   cacheGet: (_key, fn) => fn(),
   cacheDel: jest.fn(),
 }));
+jest.mock('../../../src/utils/cashfree', () => ({
+  createCashfreeRefund: jest.fn(),
+}));
+
+const { createCashfreeRefund } = require('../../../src/utils/cashfree');
+const { sendPasswordSetupEmail } = require('../../../src/utils/email');
+const { runLearnerImport, failStaleImports } = require('../../../src/utils/learner-import');
+const { parseXlsx, createSheetWriter } = require('../../../src/utils/spreadsheet');
 
 let app;
 let mockPrisma;
@@ -57,6 +67,103 @@ describe('GET /admin/learners', () => {
   });
 });
 
+// ---------- GET /admin/learners/export ----------
+
+describe('GET /admin/learners/export', () => {
+  const exportLearner = {
+    id: 'learner-1',
+    name: 'Asha Rao',
+    email: 'asha@test.com',
+    mobile: '9876543210',
+    registrationNumber: null,
+    status: 'ACTIVE',
+    createdAt: new Date('2026-01-05T00:00:00Z'),
+    enrollments: [
+      { programId: 'prog-1', type: 'PAID', suspendedAt: null, program: { name: 'Web Basics', _count: { lessons: 4 } } },
+      { programId: 'prog-2', type: 'FREE', suspendedAt: null, program: { name: 'Python', _count: { lessons: 10 } } }
+    ]
+  };
+
+  it('returns 400 for an unknown column', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const res = await request(app)
+      .get('/admin/learners/export?columns=name,password')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe('Unknown column: password');
+  });
+
+  it('streams the picked columns as CSV with the list filters', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findMany.mockResolvedValueOnce([exportLearner]);
+    mockPrisma.progress.findMany.mockResolvedValue([
+      { userId: 'learner-1', lesson: { programId: 'prog-1' } },
+      { userId: 'learner-1', lesson: { programId: 'prog-2' } }
+    ]);
+    mockPrisma.payment.groupBy.mockResolvedValue([
+      { userId: 'learner-1', _sum: { amount: '999.00', refundedAmount: '100.00' } }
+    ]);
+
+    const res = await request(app)
+      .get('/admin/learners/export?columns=name,email,enrollmentType,completion,amountPaid,amountRefunded&status=ACTIVE&search=asha')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/text\/csv/);
+    expect(res.text.split('\r\n')).toEqual([
+      'Name,Email,Enrollment Type,Completion (%),Amount Paid,Amount Refunded',
+      'Asha Rao,asha@test.com,Web Basics: PAID; Python: FREE,Web Basics: 25; Python: 10,999,100',
+      ''
+    ]);
+    expect(mockPrisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ role: 'LEARNER', status: 'ACTIVE', OR: expect.any(Array) })
+    }));
+    // Last active was not picked
+    expect(mockPrisma.userSession.groupBy).not.toHaveBeenCalled();
+  });
+
+  it('exports a single program\'s enrollment as XLSX', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findMany.mockResolvedValueOnce([{
+      ...exportLearner,
+      enrollments: [{ ...exportLearner.enrollments[0], type: 'FREE', suspendedAt: new Date() }]
+    }]);
+    mockPrisma.progress.findMany.mockResolvedValue([{ userId: 'learner-1', lesson: { programId: 'prog-1' } }]);
+    mockPrisma.userSession.groupBy.mockResolvedValue([]);
+
+    const res = await request(app)
+      .get('/admin/learners/export?format=xlsx&programId=prog-1&columns=email,enrollmentType,completion,lastActive')
+      .set('Cookie', `token=${token}`)
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks = [];
+        response.on('data', chunk => chunks.push(chunk));
+        response.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-disposition']).toMatch(/learners-\d{4}-\d{2}-\d{2}\.xlsx/);
+    expect(parseXlsx(res.body)).toEqual([
+      ['Email', 'Enrollment Type', 'Completion (%)', 'Last Active'],
+      ['asha@test.com', 'SUSPENDED', '25']
+    ]);
+    expect(mockPrisma.progress.findMany.mock.calls[0][0].where.lesson).toEqual({ programId: 'prog-1' });
+  });
+
+  it('stops writing rows when the download is closed while waiting to drain', async () => {
+    // Nothing reads the output, so the first row fills its buffer
+    const out = new PassThrough({ highWaterMark: 1 });
+    const writer = createSheetWriter(out, 'csv');
+
+    const pending = writer.writeRow(['Name', 'Email']);
+    out.destroy();
+
+    await expect(pending).rejects.toMatchObject({ code: 'OUTPUT_CLOSED' });
+    await expect(writer.writeRow(['Asha Rao', 'asha@test.com'])).rejects.toMatchObject({ code: 'OUTPUT_CLOSED' });
+  });
+});
+
 // ---------- POST /admin/learners ----------
 
 describe('POST /admin/learners', () => {
@@ -149,6 +256,74 @@ describe('POST /admin/learners/:id/enroll', () => {
     expect(res.status).toBe(409);
     expect(res.body.error.code).toBe('ALREADY_ENROLLED');
   });
+
+  it('enrolls into a cohort of the program', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.cohort.findUnique.mockResolvedValue({ programId: 'program-id-1' });
+    mockPrisma.enrollment.create.mockResolvedValue({ id: 'enrollment-new' });
+
+    const res = await request(app)
+      .post('/admin/learners/learner-id-1/enroll')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'program-id-1', cohortId: 'cohort-1' });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.enrollment.create).toHaveBeenCalledWith({
+      data: { userId: 'learner-id-1', programId: 'program-id-1', cohortId: 'cohort-1' }
+    });
+  });
+
+  it('returns 400 for a cohort of another program', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.cohort.findUnique.mockResolvedValue({ programId: 'program-id-2' });
+
+    const res = await request(app)
+      .post('/admin/learners/learner-id-1/enroll')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'program-id-1', cohortId: 'cohort-1' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe('Cohort does not belong to this program');
+    expect(mockPrisma.enrollment.create).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- PUT /admin/learners/:id/enrollments/:programId ----------
+
+describe('PUT /admin/learners/:id/enrollments/:programId', () => {
+  it('moves the learner to another cohort', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.cohort.findUnique.mockResolvedValue({ programId: 'program-id-1' });
+    mockPrisma.enrollment.update.mockResolvedValue({ id: 'enrollment-1', cohort: { id: 'cohort-2', name: 'Apr 2026' } });
+    mockPrisma.auditLog.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .put('/admin/learners/learner-id-1/enrollments/program-id-1')
+      .set('Cookie', `token=${token}`)
+      .send({ cohortId: 'cohort-2' });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.enrollment.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId_programId: { userId: 'learner-id-1', programId: 'program-id-1' } },
+      data: { cohortId: 'cohort-2' }
+    }));
+    expect(res.body.data.enrollment.cohort.name).toBe('Apr 2026');
+  });
+
+  it('removes the learner from their cohort', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.enrollment.update.mockResolvedValue({ id: 'enrollment-1', cohort: null });
+    mockPrisma.auditLog.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .put('/admin/learners/learner-id-1/enrollments/program-id-1')
+      .set('Cookie', `token=${token}`)
+      .send({ cohortId: null });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.cohort.findUnique).not.toHaveBeenCalled();
+    expect(res.body.data.enrollment.cohort).toBeNull();
+  });
 });
 
 // ---------- PUT /admin/learners/:id/status ----------
@@ -188,3 +363,457 @@ describe('PUT /admin/learners/:id/status', () => {
     expect(res.body.error.code).toBe('VALIDATION_ERROR');
   });
 });
+
+// ---------- POST /admin/learners/:id/payments/:paymentId/refund ----------
+
+describe('POST /admin/learners/:id/payments/:paymentId/refund', () => {
+  const PAYMENT = {
+    id: 'pay-1',
+    userId: TEST_LEARNER.id,
+    enrollmentId: 'enroll-1',
+    programId: 'prog-1',
+    cashfreeOrderId: 'order_enroll-1_123',
+    amount: '999.00',
+    currency: 'INR',
+    status: 'SUCCESS',
+    refundedAmount: null,
+    metadata: { cfOrderId: 'cf-123' },
+    program: { name: 'Program' },
+  };
+  const url = `/admin/learners/${TEST_LEARNER.id}/payments/pay-1/refund`;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.auditLog.create.mockResolvedValue({});
+    mockPrisma.payment.update.mockImplementation(({ data }) => Promise.resolve({
+      ...PAYMENT, ...data, enrollment: { type: 'PAID' }
+    }));
+    createCashfreeRefund.mockResolvedValue({ cf_refund_id: 'cf-ref-1', refund_status: 'PENDING' });
+  });
+
+  it('refunds a partial amount and keeps the enrollment', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.payment.findUnique.mockResolvedValue(PAYMENT);
+
+    const res = await request(app)
+      .post(url)
+      .set('Cookie', `token=${token}`)
+      .send({ amount: 400, reason: 'Missed first week' });
+
+    expect(res.status).toBe(200);
+    expect(createCashfreeRefund).toHaveBeenCalledWith(expect.objectContaining({
+      orderId: 'order_enroll-1_123', amount: 400, note: 'Missed first week'
+    }));
+    const { data } = mockPrisma.payment.update.mock.calls[0][0];
+    expect(data).toMatchObject({ status: 'REFUNDED', refundedAmount: 400 });
+    expect(data.metadata.cfOrderId).toBe('cf-123');
+    expect(data.metadata.refunds[0]).toMatchObject({ cfRefundId: 'cf-ref-1', amount: 400 });
+    expect(mockPrisma.enrollment.update).not.toHaveBeenCalled();
+    expect(res.body.data.payment).toMatchObject({ status: 'REFUNDED', refundedAmount: 400, enrollmentType: 'PAID' });
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ action: 'REFUND_PAYMENT', targetId: 'pay-1' })
+    }));
+  });
+
+  it('refunds the remaining balance and revokes access when asked', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.payment.findUnique.mockResolvedValue({ ...PAYMENT, status: 'REFUNDED', refundedAmount: '400.00' });
+    mockPrisma.enrollment.update.mockResolvedValue({ type: 'FREE' });
+
+    const res = await request(app)
+      .post(url)
+      .set('Cookie', `token=${token}`)
+      .send({ revokeAccess: true });
+
+    expect(res.status).toBe(200);
+    expect(createCashfreeRefund).toHaveBeenCalledWith(expect.objectContaining({ amount: 599 }));
+    expect(mockPrisma.payment.update.mock.calls[0][0].data.refundedAmount).toBe(999);
+    expect(mockPrisma.enrollment.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'enroll-1' },
+      data: { type: 'FREE', paidAt: null, suspendedAt: null }
+    }));
+    expect(mockPrisma.installment.deleteMany).toHaveBeenCalledWith({
+      where: { enrollmentId: 'enroll-1', paidAt: null }
+    });
+    expect(res.body.data.payment.enrollmentType).toBe('FREE');
+  });
+
+  it('adds to a refund recorded while Cashfree was processing this one', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const concurrent = { refundId: 'refund_pay-1_1', amount: 200, status: 'PENDING' };
+    mockPrisma.payment.findUnique
+      .mockResolvedValueOnce(PAYMENT)
+      .mockResolvedValueOnce({
+        ...PAYMENT,
+        status: 'REFUNDED',
+        refundedAmount: '200.00',
+        metadata: { ...PAYMENT.metadata, refunds: [concurrent] }
+      });
+
+    const res = await request(app)
+      .post(url)
+      .set('Cookie', `token=${token}`)
+      .send({ amount: 300 });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.$queryRaw).toHaveBeenCalled(); // Row locked before the re-read
+    const { data } = mockPrisma.payment.update.mock.calls[0][0];
+    expect(data.refundedAmount).toBe(500);
+    expect(data.metadata.refunds).toEqual([concurrent, expect.objectContaining({ amount: 300 })]);
+  });
+
+  it('rejects amounts above the refundable balance', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.payment.findUnique.mockResolvedValue({ ...PAYMENT, refundedAmount: '900.00', status: 'REFUNDED' });
+
+    const res = await request(app)
+      .post(url)
+      .set('Cookie', `token=${token}`)
+      .send({ amount: 100 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    expect(createCashfreeRefund).not.toHaveBeenCalled();
+  });
+
+  it('returns 502 without touching the payment when Cashfree fails', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.payment.findUnique.mockResolvedValue(PAYMENT);
+    createCashfreeRefund.mockRejectedValue(new Error('Refund amount exceeds balance'));
+
+    const res = await request(app)
+      .post(url)
+      .set('Cookie', `token=${token}`)
+      .send({});
+
+    expect(res.status).toBe(502);
+    expect(res.body.error.code).toBe('REFUND_FAILED');
+    expect(mockPrisma.payment.update).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for another learner\'s payment', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.payment.findUnique.mockResolvedValue({ ...PAYMENT, userId: 'someone-else' });
+
+    const res = await request(app)
+      .post(url)
+      .set('Cookie', `token=${token}`)
+      .send({});
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------- Bulk import ----------
+
+const IMPORT_CSV = [
+  'Full Name,Email Address,Phone,Programs',
+  'Asha Rao,asha@test.com,98765 43210,Web Basics',
+  'Bad Row,not-an-email,,Unknown Course',
+  'Asha Again,ASHA@test.com,,',
+  'Taken,learner@test.com,,'
+].join('\n');
+
+// A zip archive with one deflated entry, enough for the XLSX reader
+function zipWithEntry(name, content) {
+  const data = zlib.deflateRawSync(content);
+  const fileName = Buffer.from(name);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(content.length, 22);
+  local.writeUInt16LE(fileName.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(content.length, 24);
+  central.writeUInt16LE(fileName.length, 28);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + fileName.length, 12);
+  end.writeUInt32LE(local.length + fileName.length + data.length, 16);
+
+  return Buffer.concat([local, fileName, data, central, fileName, end]);
+}
+
+describe('POST /admin/learners/import/preview', () => {
+  it('returns 400 without a file', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const res = await request(app)
+      .post('/admin/learners/import/preview')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 400 for unsupported file types', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const res = await request(app)
+      .post('/admin/learners/import/preview')
+      .set('Cookie', `token=${token}`)
+      .attach('file', Buffer.from('hello'), 'learners.txt');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toMatch(/csv or \.xlsx/);
+  });
+
+  it('returns 400 for an XLSX that inflates past the size cap', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const res = await request(app)
+      .post('/admin/learners/import/preview')
+      .set('Cookie', `token=${token}`)
+      .attach('file', zipWithEntry('xl/worksheets/sheet1.xml', Buffer.alloc(51 * 1024 * 1024)), 'learners.xlsx');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe('The file is too large once uncompressed');
+  });
+
+  it('guesses the mapping and flags invalid and duplicate rows', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findMany.mockResolvedValue([{ email: 'learner@test.com' }]);
+    mockPrisma.program.findMany.mockResolvedValue([{ id: 'prog-1', name: 'Web Basics' }]);
+
+    const res = await request(app)
+      .post('/admin/learners/import/preview')
+      .set('Cookie', `token=${token}`)
+      .attach('file', Buffer.from(IMPORT_CSV), 'learners.csv');
+
+    expect(res.status).toBe(200);
+    const { mapping, rows, summary } = res.body.data;
+    expect(mapping).toEqual({ name: 0, email: 1, mobile: 2, registrationNumber: null, programs: 3, cohort: null });
+    expect(summary).toEqual({ total: 4, valid: 1, invalid: 1, duplicates: 2 });
+
+    expect(rows[0]).toMatchObject({ row: 2, email: 'asha@test.com', mobile: '9876543210', programNames: ['Web Basics'], status: 'VALID' });
+    expect(rows[0].programIds).toBeUndefined();
+    expect(rows[1].status).toBe('INVALID');
+    expect(rows[1].errors).toEqual(['Email is not valid', 'Unknown program "Unknown Course"']);
+    expect(rows[2]).toMatchObject({ status: 'DUPLICATE', errors: ['Same email as row 2'] });
+    expect(rows[3]).toMatchObject({ status: 'DUPLICATE', errors: ['Email is already registered'] });
+  });
+
+  it('applies an explicit column mapping', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findMany.mockResolvedValue([]);
+    mockPrisma.program.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .post('/admin/learners/import/preview')
+      .set('Cookie', `token=${token}`)
+      .field('mapping', JSON.stringify({ name: 1, email: 0 }))
+      .attach('file', Buffer.from('a,b\nnew@test.com,New Person'), 'learners.csv');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.rows[0]).toMatchObject({ name: 'New Person', email: 'new@test.com', status: 'VALID' });
+  });
+
+  it('matches the cohort by name within the row\'s programs', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findMany.mockResolvedValue([]);
+    mockPrisma.program.findMany.mockResolvedValue([{ id: 'prog-1', name: 'Web Basics' }]);
+    mockPrisma.cohort.findMany.mockResolvedValue([
+      { id: 'cohort-1', name: 'Jan 2026', programId: 'prog-1' },
+      { id: 'cohort-9', name: 'Apr 2026', programId: 'prog-9' },
+    ]);
+
+    const res = await request(app)
+      .post('/admin/learners/import/preview')
+      .set('Cookie', `token=${token}`)
+      .attach('file', Buffer.from([
+        'Name,Email,Program,Batch',
+        'Asha Rao,asha@test.com,Web Basics,jan 2026',
+        'Ravi K,ravi@test.com,Web Basics,Apr 2026'
+      ].join('\n')), 'learners.csv');
+
+    expect(res.status).toBe(200);
+    const { mapping, rows } = res.body.data;
+    expect(mapping.cohort).toBe(3);
+    expect(rows[0]).toMatchObject({ cohortName: 'jan 2026', status: 'VALID' });
+    expect(rows[0].cohortIds).toBeUndefined();
+    expect(rows[1]).toMatchObject({ status: 'INVALID', errors: ['Unknown cohort "Apr 2026"'] });
+  });
+
+  it('returns 400 when the mapping points past the last column', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const res = await request(app)
+      .post('/admin/learners/import/preview')
+      .set('Cookie', `token=${token}`)
+      .field('mapping', JSON.stringify({ name: 0, email: 5 }))
+      .attach('file', Buffer.from('Name,Email\nA,a@test.com'), 'learners.csv');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe('Column for email does not exist in the file');
+  });
+});
+
+describe('POST /admin/learners/import', () => {
+  it('returns 400 when no row is valid', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findMany.mockResolvedValue([{ email: 'learner@test.com' }]);
+    mockPrisma.program.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .post('/admin/learners/import')
+      .set('Cookie', `token=${token}`)
+      .attach('file', Buffer.from('Name,Email\nTaken,learner@test.com'), 'learners.csv');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('NOTHING_TO_IMPORT');
+    expect(mockPrisma.learnerImport.create).not.toHaveBeenCalled();
+  });
+
+  it('returns 202 and starts the import', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findMany.mockResolvedValue([]);
+    mockPrisma.program.findMany.mockResolvedValue([]);
+    mockPrisma.learnerImport.create.mockResolvedValue({
+      id: 'import-1',
+      fileName: 'learners.csv',
+      status: 'PROCESSING',
+      totalRows: 1,
+      processedRows: 0,
+      createdCount: 0,
+      failedCount: 0,
+      adminEmail: TEST_ADMIN.email,
+      createdAt: new Date(),
+      completedAt: null
+    });
+
+    const res = await request(app)
+      .post('/admin/learners/import')
+      .set('Cookie', `token=${token}`)
+      .attach('file', Buffer.from('Name,Email\nNew Person,new@test.com'), 'learners.csv');
+
+    expect(res.status).toBe(202);
+    expect(res.body.data.import).toMatchObject({ id: 'import-1', status: 'PROCESSING', totalRows: 1 });
+    expect(mockPrisma.learnerImport.create).toHaveBeenCalledWith({
+      data: { adminId: TEST_ADMIN.id, adminEmail: TEST_ADMIN.email, fileName: 'learners.csv', totalRows: 1 }
+    });
+  });
+});
+
+describe('GET /admin/learners/imports/:id/report', () => {
+  it('returns 404 for an unknown import', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.learnerImport.findUnique.mockResolvedValue(null);
+
+    const res = await request(app)
+      .get('/admin/learners/imports/missing/report')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('returns the per-row results as CSV', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.learnerImport.findUnique.mockResolvedValue({
+      id: 'import-1',
+      createdAt: new Date('2026-03-01T10:00:00Z'),
+      results: [
+        { row: 2, name: 'Asha Rao', email: 'asha@test.com', status: 'CREATED', learnerId: 'u-1', message: 'Setup email sent' },
+        { row: 3, name: 'Bad Row', email: 'bad', status: 'FAILED', message: 'Email is not valid' }
+      ]
+    });
+
+    const res = await request(app)
+      .get('/admin/learners/imports/import-1/report')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/text\/csv/);
+    expect(res.headers['content-disposition']).toContain('learner-import-2026-03-01.csv');
+    expect(res.text.split('\r\n')).toEqual([
+      'Row,Name,Email,Result,Details,Learner ID',
+      '2,Asha Rao,asha@test.com,CREATED,Setup email sent,u-1',
+      '3,Bad Row,bad,FAILED,Email is not valid,',
+      ''
+    ]);
+  });
+});
+
+describe('runLearnerImport', () => {
+  const validRow = {
+    row: 2,
+    name: 'Asha Rao',
+    email: 'asha@test.com',
+    mobile: null,
+    registrationNumber: null,
+    programIds: ['prog-1'],
+    status: 'VALID',
+    errors: []
+  };
+
+  it('creates valid rows, reports the rest and completes the import', async () => {
+    mockPrisma.user.create.mockResolvedValue({ id: 'u-1', email: 'asha@test.com', name: 'Asha Rao', enrollments: [] });
+    sendPasswordSetupEmail.mockResolvedValue();
+
+    await runLearnerImport(mockPrisma, 'import-1', [
+      validRow,
+      { ...validRow, row: 3, email: 'bad', status: 'INVALID', errors: ['Email is not valid'] }
+    ], { admin: TEST_ADMIN, emailIntervalMs: 0 });
+
+    expect(mockPrisma.user.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.user.create.mock.calls[0][0].data).toMatchObject({
+      email: 'asha@test.com',
+      status: 'PENDING_SETUP',
+      enrollments: { create: [{ programId: 'prog-1' }] }
+    });
+    expect(sendPasswordSetupEmail).toHaveBeenCalledWith('asha@test.com', 'Asha Rao', expect.any(String));
+    expect(mockPrisma.learnerImport.update).toHaveBeenCalledWith({
+      where: { id: 'import-1' },
+      data: expect.objectContaining({
+        status: 'COMPLETED',
+        processedRows: 2,
+        createdCount: 1,
+        failedCount: 1,
+        results: [
+          expect.objectContaining({ row: 2, status: 'CREATED', learnerId: 'u-1' }),
+          expect.objectContaining({ row: 3, status: 'FAILED', message: 'Email is not valid' })
+        ]
+      })
+    });
+  });
+
+  it('enrolls into the row\'s cohort', async () => {
+    mockPrisma.user.create.mockResolvedValue({ id: 'u-1', email: 'asha@test.com', name: 'Asha Rao', enrollments: [] });
+    sendPasswordSetupEmail.mockResolvedValue();
+
+    await runLearnerImport(mockPrisma, 'import-1', [{ ...validRow, cohortIds: { 'prog-1': 'cohort-1' } }], { emailIntervalMs: 0 });
+
+    expect(mockPrisma.user.create.mock.calls[0][0].data.enrollments).toEqual({
+      create: [{ programId: 'prog-1', cohortId: 'cohort-1' }]
+    });
+  });
+
+  it('reports a row registered since the preview as failed', async () => {
+    mockPrisma.user.create.mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+    await runLearnerImport(mockPrisma, 'import-1', [validRow], { emailIntervalMs: 0 });
+
+    const { data } = mockPrisma.learnerImport.update.mock.calls[0][0];
+    expect(data).toMatchObject({ status: 'COMPLETED', createdCount: 0, failedCount: 1 });
+    expect(data.results[0].message).toBe('Email is already registered');
+  });
+});
+
+describe('failStaleImports', () => {
+  it('marks imports still processing after an hour as failed', async () => {
+    mockPrisma.learnerImport.updateMany.mockResolvedValue({ count: 1 });
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    const failed = await failStaleImports(mockPrisma, now);
+
+    expect(failed).toBe(1);
+    expect(mockPrisma.learnerImport.updateMany).toHaveBeenCalledWith({
+      where: { status: 'PROCESSING', createdAt: { lt: new Date('2026-03-01T11:00:00Z') } },
+      data: { status: 'FAILED', completedAt: now }
+    });
+  });
+});
@@ -1,7 +1,8 @@
 const request = require('supertest');
 const createApp = require('../../../src/app');
 const { createMockPrisma } = require('../../helpers/mock-prisma');
-const { TEST_ADMIN, TEST_LEARNER, mockAuthSession } = require('../../helpers/auth');
+const { TEST_ADMIN, TEST_LEARNER, TEST_INSTRUCTOR, mockAuthSession } = require('../../helpers/auth');
+const { uploadR2File, deleteR2File } = require('../../../src/utils/r2');
 
 jest.mock('../../../src/utils/email', () => ({
   sendPasswordSetupEmail: jest.fn(),
@@ -13,6 +14,7 @@ jest.mock('../../../src/utils/cache', () => ({
   cacheDel: jest.fn(),
 }));
 jest.mock('../../../src/utils/r2', () => ({
+  uploadR2File: jest.fn(async (key) => `https://cdn.test/${key}`),
   deleteR2File: jest.fn().mockResolvedValue(undefined),
   deleteR2Files: jest.fn().mockResolvedValue(undefined),
 }));
@@ -480,3 +482,453 @@ describe('DELETE /admin/programs/:id', () => {
     );
   });
 });
+
+// ---------- POST /admin/programs/lessons (QUIZ) ----------
+
+describe('POST /admin/programs/lessons (quiz)', () => {
+  it('returns 400 when a choice question has no correct option', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+
+    const res = await request(app)
+      .post('/admin/programs/lessons')
+      .set('Cookie', `token=${token}`)
+      .send({
+        programId: 'prog-1',
+        title: 'Checkpoint',
+        type: 'QUIZ',
+        quizQuestions: [
+          { type: 'SINGLE_CHOICE', prompt: 'Pick one', options: ['A', 'B'], correctAnswers: [] },
+        ],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    expect(mockPrisma.lesson.create).not.toHaveBeenCalled();
+  });
+
+  it('creates a quiz lesson with its questions', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lesson.create.mockResolvedValue({ id: 'lesson-quiz', programId: 'prog-1', type: 'QUIZ' });
+    mockPrisma.program.findUnique.mockResolvedValue(null);
+    mockPrisma.enrollment.findMany.mockResolvedValue([]);
+    mockPrisma.program.update.mockResolvedValue({});
+
+    const res = await request(app)
+      .post('/admin/programs/lessons')
+      .set('Cookie', `token=${token}`)
+      .send({
+        programId: 'prog-1',
+        title: 'Checkpoint',
+        type: 'QUIZ',
+        passingScore: 80,
+        quizQuestions: [
+          { type: 'MULTIPLE_CHOICE', prompt: 'Pick two', options: ['A', 'B', 'C'], correctAnswers: [2, 0] },
+          { type: 'SHORT_ANSWER', prompt: 'Capital of France?', correctAnswers: ['Paris'], points: 2 },
+        ],
+      });
+
+    expect(res.status).toBe(201);
+    const { data } = mockPrisma.lesson.create.mock.calls[0][0];
+    expect(data.passingScore).toBe(80);
+    expect(data.quizQuestions.create).toEqual([
+      expect.objectContaining({ type: 'MULTIPLE_CHOICE', correctAnswers: [0, 2], points: 1, orderIndex: 0 }),
+      expect.objectContaining({ type: 'SHORT_ANSWER', options: [], correctAnswers: ['Paris'], points: 2, orderIndex: 1 }),
+    ]);
+    expect(mockPrisma.$executeRaw).toHaveBeenCalled();
+  });
+});
+
+// ---------- Content parents ----------
+
+describe('Content parents', () => {
+  beforeEach(() => {
+    mockPrisma.programInstructor.findMany.mockResolvedValue([{ programId: 'prog-1' }]);
+  });
+
+  it('returns 400 when a subtopic has no topic', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_INSTRUCTOR);
+
+    const res = await request(app)
+      .post('/admin/programs/subtopics')
+      .set('Cookie', `token=${token}`)
+      .send({ name: 'Basics' });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.topic.findUnique).not.toHaveBeenCalled();
+    expect(mockPrisma.subtopic.create).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when a lesson is created under another program\'s topic', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_INSTRUCTOR);
+    mockPrisma.topic.findUnique.mockResolvedValue({ programId: 'prog-2' });
+
+    const res = await request(app)
+      .post('/admin/programs/lessons')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', topicId: 'topic-other', title: 'Intro', type: 'TEXT' });
+
+    expect(res.status).toBe(404);
+    expect(mockPrisma.lesson.create).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when reorder moves content under another program\'s topic', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_INSTRUCTOR);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1' });
+    mockPrisma.lesson.findMany.mockResolvedValue([{ id: 'lesson-1' }]);
+    mockPrisma.topic.findMany.mockResolvedValue([]); // topic-other is not in prog-1
+
+    const res = await request(app)
+      .put('/admin/programs/prog-1/reorder')
+      .set('Cookie', `token=${token}`)
+      .send({ items: [{ id: 'lesson-1', type: 'lesson', orderIndex: 0, parentType: 'topic', parentId: 'topic-other' }] });
+
+    expect(res.status).toBe(404);
+    expect(mockPrisma.topic.findMany.mock.calls[0][0].where).toEqual({ id: { in: ['topic-other'] }, programId: 'prog-1' });
+    expect(mockPrisma.lesson.update).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- Installment plans ----------
+
+describe('Installment plans', () => {
+  const PLAN = {
+    id: 'plan-1',
+    programId: 'prog-1',
+    name: '3 monthly payments',
+    installmentCount: 3,
+    intervalDays: 30,
+    gracePeriodDays: 7,
+    totalAmount: '1000.00',
+    isActive: true,
+    createdAt: new Date(),
+  };
+
+  it('creates a plan with per-installment amounts', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1' });
+    mockPrisma.installmentPlan.create.mockImplementation(async ({ data }) => ({ ...PLAN, ...data }));
+    mockPrisma.auditLog.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .post('/admin/programs/installment-plans')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', name: ' 3 monthly payments ', installmentCount: 3, totalAmount: 1000 });
+
+    expect(res.status).toBe(201);
+    expect(mockPrisma.installmentPlan.create).toHaveBeenCalledWith({
+      data: { programId: 'prog-1', name: '3 monthly payments', installmentCount: 3, totalAmount: 1000 },
+    });
+    expect(res.body.data.plan.installmentAmounts).toEqual([333.34, 333.33, 333.33]);
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ action: 'CREATE_INSTALLMENT_PLAN' }),
+    }));
+  });
+
+  it('rejects a single-installment plan', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1' });
+
+    const res = await request(app)
+      .post('/admin/programs/installment-plans')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', name: 'One go', installmentCount: 1, totalAmount: 1000 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    expect(mockPrisma.installmentPlan.create).not.toHaveBeenCalled();
+  });
+
+  it('updates only the fields sent', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.installmentPlan.findUnique.mockResolvedValue(PLAN);
+    mockPrisma.installmentPlan.update.mockResolvedValue({ ...PLAN, isActive: false });
+    mockPrisma.auditLog.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .put('/admin/programs/installment-plans/plan-1')
+      .set('Cookie', `token=${token}`)
+      .send({ isActive: false });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.installmentPlan.update).toHaveBeenCalledWith({
+      where: { id: 'plan-1' },
+      data: { isActive: false },
+    });
+    expect(res.body.data.plan.isActive).toBe(false);
+  });
+
+  it('refuses to delete a plan learners are paying with', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.installmentPlan.findUnique.mockResolvedValue({ ...PLAN, _count: { installments: 3 } });
+
+    const res = await request(app)
+      .delete('/admin/programs/installment-plans/plan-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('PLAN_IN_USE');
+    expect(mockPrisma.installmentPlan.delete).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- Cohorts ----------
+
+describe('Cohorts', () => {
+  const COHORT = {
+    id: 'cohort-1',
+    programId: 'prog-1',
+    name: 'Jan 2026',
+    startDate: new Date('2026-01-05'),
+    endDate: null,
+    createdAt: new Date(),
+  };
+
+  it('creates a cohort for a program', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1' });
+    mockPrisma.cohort.create.mockImplementation(async ({ data }) => ({ ...COHORT, ...data }));
+    mockPrisma.auditLog.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .post('/admin/programs/cohorts')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', name: ' Jan 2026 ', startDate: '2026-01-05', endDate: '2026-04-30' });
+
+    expect(res.status).toBe(201);
+    expect(mockPrisma.cohort.create).toHaveBeenCalledWith({
+      data: { programId: 'prog-1', name: 'Jan 2026', startDate: new Date('2026-01-05'), endDate: new Date('2026-04-30') },
+    });
+    expect(res.body.data.cohort).toMatchObject({ name: 'Jan 2026', learnerCount: 0 });
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ action: 'CREATE_COHORT' }),
+    }));
+  });
+
+  it('rejects an end date before the start date', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.cohort.findUnique.mockResolvedValue(COHORT);
+
+    const res = await request(app)
+      .put('/admin/programs/cohorts/cohort-1')
+      .set('Cookie', `token=${token}`)
+      .send({ endDate: '2025-12-31' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe('End date must be on or after the start date');
+    expect(mockPrisma.cohort.update).not.toHaveBeenCalled();
+  });
+
+  it('records the changed fields when a cohort is updated', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.cohort.findUnique.mockResolvedValue(COHORT);
+    mockPrisma.cohort.update.mockImplementation(async ({ data }) => ({ ...COHORT, ...data, _count: { enrollments: 0 } }));
+    mockPrisma.auditLog.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .put('/admin/programs/cohorts/cohort-1')
+      .set('Cookie', `token=${token}`)
+      .send({ name: 'Jan 2026', endDate: '2026-04-30' });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data.details).toEqual({
+      programId: 'prog-1',
+      name: 'Jan 2026',
+      before: { endDate: null },
+      after: { endDate: '2026-04-30T00:00:00.000Z' },
+    });
+  });
+
+  it('returns 409 for a duplicate cohort name', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1' });
+    mockPrisma.cohort.create.mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+    const res = await request(app)
+      .post('/admin/programs/cohorts')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', name: 'Jan 2026', startDate: '2026-01-05' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('COHORT_EXISTS');
+  });
+
+  it('refuses to delete a cohort that sessions target', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.cohort.findUnique.mockResolvedValue({ ...COHORT, _count: { sessionPrograms: 2 } });
+
+    const res = await request(app)
+      .delete('/admin/programs/cohorts/cohort-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('COHORT_IN_USE');
+    expect(mockPrisma.cohort.delete).not.toHaveBeenCalled();
+  });
+
+  it('lists a program\'s learners in one cohort', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.enrollment.findMany.mockResolvedValue([
+      { user: { id: 'u-1', email: 'a@test.com', name: 'Asha', status: 'ACTIVE' }, cohort: { id: 'cohort-1', name: 'Jan 2026' } },
+    ]);
+
+    const res = await request(app)
+      .get('/admin/programs/prog-1/learners?cohortId=cohort-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.enrollment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { programId: 'prog-1', cohortId: 'cohort-1' },
+    }));
+    expect(res.body.data.learners[0]).toMatchObject({ id: 'u-1', cohort: { name: 'Jan 2026' } });
+  });
+});
+
+describe('Instructors', () => {
+  it('replaces the instructors assigned to a program', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1', name: 'Web Dev' });
+    mockPrisma.user.findMany.mockResolvedValue([
+      { id: 'inst-1', name: 'Ravi', email: 'ravi@test.com' },
+    ]);
+    mockPrisma.programInstructor.deleteMany.mockResolvedValue({ count: 1 });
+    mockPrisma.programInstructor.createMany.mockResolvedValue({ count: 1 });
+    mockPrisma.auditLog.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .put('/admin/programs/prog-1/instructors')
+      .set('Cookie', `token=${token}`)
+      .send({ userIds: ['inst-1'] });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: { in: ['inst-1'] }, role: 'INSTRUCTOR' },
+    }));
+    expect(mockPrisma.programInstructor.createMany).toHaveBeenCalledWith({
+      data: [{ programId: 'prog-1', userId: 'inst-1' }],
+    });
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ action: 'UPDATE_PROGRAM_INSTRUCTORS' }),
+    }));
+  });
+
+  it('only assigns instructor accounts', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1', name: 'Web Dev' });
+    mockPrisma.user.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .put('/admin/programs/prog-1/instructors')
+      .set('Cookie', `token=${token}`)
+      .send({ userIds: ['learner-1'] });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.programInstructor.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('Transcripts', () => {
+  const VIDEO_LESSON = {
+    id: 'lesson-1', title: 'Intro', type: 'VIDEO', programId: 'prog-1',
+    contentUrl: 'https://iframe.mediadelivery.net/embed/123/abc',
+  };
+  const SRT = '1\r\n00:00:01,000 --> 00:00:03,500\r\nHello <i>there</i>\r\n\r\n2\r\n00:01:00,000 --> 00:01:02,000\r\nBreathe in\r\n';
+
+  beforeEach(() => {
+    uploadR2File.mockClear();
+    deleteR2File.mockClear();
+    mockPrisma.program.update.mockResolvedValue({});
+    mockPrisma.auditLog.create.mockResolvedValue({});
+  });
+
+  it('converts an SRT upload to WebVTT and indexes its text', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lesson.findUnique.mockResolvedValue(VIDEO_LESSON);
+    mockPrisma.lessonTranscript.findUnique.mockResolvedValue(null);
+    mockPrisma.lessonTranscript.upsert.mockImplementation(async ({ create }) => ({ id: 'tr-1', ...create }));
+
+    const res = await request(app)
+      .post('/admin/programs/lessons/lesson-1/transcripts')
+      .set('Cookie', `token=${token}`)
+      .field('language', 'en')
+      .field('label', 'English')
+      .attach('file', Buffer.from(SRT), 'intro.srt');
+
+    expect(res.status).toBe(201);
+    const [key, body, contentType] = uploadR2File.mock.calls[0];
+    expect(key).toMatch(/^transcripts\/.+\.vtt$/);
+    expect(contentType).toBe('text/vtt');
+    expect(body).toBe('WEBVTT\n\n00:00:01.000 --> 00:00:03.500\nHello there\n\n00:01:00.000 --> 00:01:02.000\nBreathe in\n');
+    expect(mockPrisma.lessonTranscript.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({
+        lessonId: 'lesson-1',
+        language: 'en',
+        label: 'English',
+        cues: [{ start: 1, end: 3.5, text: 'Hello there' }, { start: 60, end: 62, text: 'Breathe in' }],
+        text: 'Hello there Breathe in',
+      }),
+    }));
+    expect(mockPrisma.$executeRaw).toHaveBeenCalled();
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ action: 'ADD_TRANSCRIPT' }),
+    }));
+  });
+
+  it('replaces the file of an existing transcript', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lesson.findUnique.mockResolvedValue(VIDEO_LESSON);
+    mockPrisma.lessonTranscript.findUnique.mockResolvedValue({ fileUrl: 'https://cdn.test/transcripts/old.vtt' });
+    mockPrisma.lessonTranscript.upsert.mockResolvedValue({ id: 'tr-1' });
+
+    const res = await request(app)
+      .post('/admin/programs/lessons/lesson-1/transcripts')
+      .set('Cookie', `token=${token}`)
+      .attach('file', Buffer.from('WEBVTT\n\n00:01.000 --> 00:02.000\nHi\n'), 'intro.vtt');
+
+    expect(res.status).toBe(200);
+    expect(deleteR2File).toHaveBeenCalledWith('https://cdn.test/transcripts/old.vtt');
+  });
+
+  it('rejects transcripts on non-video lessons', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lesson.findUnique.mockResolvedValue({ ...VIDEO_LESSON, type: 'PDF' });
+
+    const res = await request(app)
+      .post('/admin/programs/lessons/lesson-1/transcripts')
+      .set('Cookie', `token=${token}`)
+      .attach('file', Buffer.from(SRT), 'intro.srt');
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.lessonTranscript.upsert).not.toHaveBeenCalled();
+  });
+
+  it('rejects a file without captions', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lesson.findUnique.mockResolvedValue(VIDEO_LESSON);
+
+    const res = await request(app)
+      .post('/admin/programs/lessons/lesson-1/transcripts')
+      .set('Cookie', `token=${token}`)
+      .attach('file', Buffer.from('just some text'), 'intro.vtt');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toMatch(/No captions found/);
+    expect(uploadR2File).not.toHaveBeenCalled();
+  });
+
+  it('deletes a transcript and its file', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.lessonTranscript.findUnique.mockResolvedValue({
+      language: 'en', fileUrl: 'https://cdn.test/transcripts/a.vtt',
+      lesson: { ...VIDEO_LESSON },
+    });
+    mockPrisma.lessonTranscript.delete.mockResolvedValue({});
+
+    const res = await request(app)
+      .delete('/admin/programs/transcripts/tr-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.lessonTranscript.delete).toHaveBeenCalledWith({ where: { id: 'tr-1' } });
+    expect(deleteR2File).toHaveBeenCalledWith('https://cdn.test/transcripts/a.vtt');
+  });
+});
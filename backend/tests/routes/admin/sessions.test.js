@@ -112,6 +112,109 @@ describe('GET /admin/sessions', () => {
     expect(res.status).toBe(200);
     expect(res.body.data.sessions[0].programs).toEqual(['All Programs']);
   });
+
+  it('expands bi-weekly occurrences at the same local time across DST', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findMany.mockResolvedValue([
+      {
+        ...MOCK_SESSION,
+        // 10:00 in New York, before the March 8 DST change
+        startTime: new Date('2026-03-03T15:00:00Z'),
+        endTime: new Date('2026-03-03T16:00:00Z'),
+        isRecurring: true,
+        recurrenceRule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=3',
+        timezone: 'America/New_York',
+        excludedDates: [],
+      },
+    ]);
+
+    const res = await request(app)
+      .get('/admin/sessions?from=2026-03-01T00:00:00Z&to=2026-05-31T00:00:00Z')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.sessions.map(s => s.startTime)).toEqual([
+      '2026-03-03T15:00:00.000Z',
+      '2026-03-17T14:00:00.000Z',
+      '2026-03-31T14:00:00.000Z',
+    ]);
+    expect(res.body.data.sessions[1].endTime).toBe('2026-03-17T15:00:00.000Z');
+    expect(res.body.data.sessions[0].timezone).toBe('America/New_York');
+  });
+
+  it('expands monthly nth-weekday and month-day rules', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findMany.mockResolvedValue([
+      {
+        ...MOCK_SESSION,
+        id: 'second-tuesday',
+        startTime: new Date('2026-01-13T10:00:00Z'),
+        endTime: null,
+        isRecurring: true,
+        recurrenceRule: 'FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2',
+        excludedDates: ['2026-03-10'],
+      },
+      {
+        ...MOCK_SESSION,
+        id: 'month-end',
+        startTime: new Date('2026-01-31T10:00:00Z'),
+        endTime: null,
+        isRecurring: true,
+        recurrenceRule: 'FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20260331',
+        excludedDates: [],
+      },
+    ]);
+
+    const res = await request(app)
+      .get('/admin/sessions?from=2026-02-01T00:00:00Z&to=2026-04-30T23:59:59Z')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.sessions.map(s => [s.id, s.startTime.slice(0, 10)])).toEqual([
+      ['second-tuesday', '2026-02-10'],
+      ['month-end', '2026-02-28'],
+      ['month-end', '2026-03-31'],
+      ['second-tuesday', '2026-04-14'],
+    ]);
+  });
+});
+
+// ---------- GET /admin/sessions/recurrence/preview ----------
+
+describe('GET /admin/sessions/recurrence/preview', () => {
+  it('returns the next occurrences of a rule', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+
+    const res = await request(app)
+      .get('/admin/sessions/recurrence/preview')
+      .query({
+        startTime: '2099-01-05T04:30:00Z',
+        endTime: '2099-01-05T05:30:00Z',
+        recurrenceRule: 'FREQ=DAILY;INTERVAL=3',
+        timezone: 'Asia/Kolkata',
+        count: 3,
+      })
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.occurrences).toEqual([
+      { startTime: '2099-01-05T04:30:00.000Z', endTime: '2099-01-05T05:30:00.000Z' },
+      { startTime: '2099-01-08T04:30:00.000Z', endTime: '2099-01-08T05:30:00.000Z' },
+      { startTime: '2099-01-11T04:30:00.000Z', endTime: '2099-01-11T05:30:00.000Z' },
+    ]);
+  });
+
+  it('returns 400 for an unsupported rule', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+
+    const res = await request(app)
+      .get('/admin/sessions/recurrence/preview')
+      .query({ startTime: '2099-01-05T04:30:00Z', recurrenceRule: 'FREQ=YEARLY' })
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe('FREQ must be DAILY, WEEKLY or MONTHLY');
+  });
 });
 
 // ---------- POST /admin/sessions ----------
@@ -223,6 +326,7 @@ describe('POST /admin/sessions', () => {
         startTime: '2026-03-01T10:00:00Z',
         isRecurring: true,
         recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+        timezone: 'Asia/Kolkata',
       });
 
     expect(res.status).toBe(201);
@@ -231,10 +335,76 @@ describe('POST /admin/sessions', () => {
         data: expect.objectContaining({
           isRecurring: true,
           recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+          timezone: 'Asia/Kolkata',
+        }),
+      })
+    );
+  });
+
+  it('returns 400 for an invalid recurrence rule or timezone', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    const session = { name: 'Recurring Session', startTime: '2026-03-01T10:00:00Z', isRecurring: true };
+
+    const badRule = await request(app)
+      .post('/admin/sessions')
+      .set('Cookie', `token=${token}`)
+      .send({ ...session, recurrenceRule: 'FREQ=WEEKLY;COUNT=5;UNTIL=20260601' });
+    const badZone = await request(app)
+      .post('/admin/sessions')
+      .set('Cookie', `token=${token}`)
+      .send({ ...session, recurrenceRule: 'FREQ=WEEKLY', timezone: 'Mars/Olympus' });
+
+    expect(badRule.status).toBe(400);
+    expect(badRule.body.error.message).toBe('COUNT and UNTIL cannot be used together');
+    expect(badZone.status).toBe(400);
+    expect(badZone.body.error.message).toBe('timezone must be an IANA timezone such as Asia/Kolkata');
+    expect(mockPrisma.session.create).not.toHaveBeenCalled();
+  });
+
+  it('targets a cohort unless its whole program is targeted too', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.cohort.findMany.mockResolvedValue([
+      { id: 'cohort-1', programId: 'prog-1' },
+      { id: 'cohort-2', programId: 'prog-2' },
+    ]);
+    mockPrisma.session.create.mockResolvedValue(MOCK_SESSION);
+    mockPrisma.enrollment.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .post('/admin/sessions')
+      .set('Cookie', `token=${token}`)
+      .send({
+        name: 'Cohort Kickoff',
+        startTime: '2026-03-01T10:00:00Z',
+        programIds: ['prog-2'],
+        cohortIds: ['cohort-1', 'cohort-2'],
+      });
+
+    expect(res.status).toBe(201);
+    expect(mockPrisma.session.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          sessionPrograms: {
+            create: [{ programId: 'prog-2' }, { programId: 'prog-1', cohortId: 'cohort-1' }],
+          },
         }),
       })
     );
   });
+
+  it('returns 400 for an unknown cohort', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.cohort.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .post('/admin/sessions')
+      .set('Cookie', `token=${token}`)
+      .send({ name: 'Cohort Kickoff', startTime: '2026-03-01T10:00:00Z', cohortIds: ['missing'] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe('One or more cohort IDs are invalid');
+    expect(mockPrisma.session.create).not.toHaveBeenCalled();
+  });
 });
 
 // ---------- GET /admin/sessions/:id ----------
@@ -349,6 +519,196 @@ describe('PUT /admin/sessions/:id', () => {
   });
 });
 
+describe('PUT /admin/sessions/:id edit modes', () => {
+  // Mondays at 10:00 UTC, ten times
+  const SERIES = {
+    ...MOCK_SESSION,
+    startTime: new Date('2026-03-02T10:00:00Z'),
+    endTime: new Date('2026-03-02T11:00:00Z'),
+    isRecurring: true,
+    recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;COUNT=10',
+    timezone: 'UTC',
+    excludedDates: ['2026-03-09', '2026-03-23'],
+    sessionPrograms: [{ programId: 'prog-1', cohortId: null }],
+    overrides: [],
+  };
+
+  it('stores a single-occurrence change as an override of what differs', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(SERIES);
+    mockPrisma.sessionOccurrenceOverride.upsert.mockImplementation(({ create }) => Promise.resolve({ id: 'override-1', ...create }));
+    mockPrisma.enrollment.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .put('/admin/sessions/session-1')
+      .set('Cookie', `token=${token}`)
+      .send({
+        editMode: 'single',
+        occurrenceDate: '2026-03-16',
+        name: SERIES.name,
+        startTime: '2026-03-17T14:00:00Z',
+        endTime: '2026-03-17T15:30:00Z',
+        meetLink: 'https://meet.google.com/other-link',
+      });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.sessionOccurrenceOverride.upsert).toHaveBeenCalledWith({
+      where: { sessionId_occurrenceDate: { sessionId: 'session-1', occurrenceDate: '2026-03-16' } },
+      create: expect.objectContaining({
+        sessionId: 'session-1',
+        occurrenceDate: '2026-03-16',
+        startTime: new Date('2026-03-17T14:00:00Z'),
+        endTime: new Date('2026-03-17T15:30:00Z'),
+        name: null,
+        meetLink: 'https://meet.google.com/other-link',
+      }),
+      update: expect.objectContaining({ name: null, meetLink: 'https://meet.google.com/other-link' }),
+    });
+    expect(mockPrisma.session.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps the occurrence\'s length when only its start moves', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(SERIES);
+    mockPrisma.sessionOccurrenceOverride.upsert.mockImplementation(({ create }) => Promise.resolve({ id: 'override-1', ...create }));
+    mockPrisma.enrollment.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .put('/admin/sessions/session-1')
+      .set('Cookie', `token=${token}`)
+      .send({ editMode: 'single', occurrenceDate: '2026-03-16', startTime: '2026-03-16T15:00:00Z' });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.sessionOccurrenceOverride.upsert.mock.calls[0][0].create).toMatchObject({
+      startTime: new Date('2026-03-16T15:00:00Z'),
+      endTime: new Date('2026-03-16T16:00:00Z'),
+    });
+  });
+
+  it('returns 400 when an occurrence would end before it starts', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(SERIES);
+
+    const res = await request(app)
+      .put('/admin/sessions/session-1')
+      .set('Cookie', `token=${token}`)
+      .send({ editMode: 'single', occurrenceDate: '2026-03-16', startTime: '2026-03-16T15:00:00Z', endTime: '2026-03-16T14:00:00Z' });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.sessionOccurrenceOverride.upsert).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an occurrence time that isn\'t a date', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(SERIES);
+
+    const res = await request(app)
+      .put('/admin/sessions/session-1')
+      .set('Cookie', `token=${token}`)
+      .send({ editMode: 'single', occurrenceDate: '2026-03-16', startTime: 'not a date' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    expect(mockPrisma.sessionOccurrenceOverride.upsert).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for a date the series has no occurrence on', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(SERIES);
+
+    const res = await request(app)
+      .put('/admin/sessions/session-1')
+      .set('Cookie', `token=${token}`)
+      .send({ editMode: 'single', occurrenceDate: '2026-03-09', startTime: '2026-03-10T10:00:00Z' });
+
+    expect(res.status).toBe(404);
+    expect(res.body.error.message).toBe('Session occurrence not found');
+  });
+
+  it('splits the series for this and following occurrences', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(SERIES);
+    mockPrisma.session.create.mockResolvedValue({ ...SERIES, id: 'session-2' });
+    mockPrisma.enrollment.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .put('/admin/sessions/session-1')
+      .set('Cookie', `token=${token}`)
+      .send({
+        editMode: 'following',
+        occurrenceDate: '2026-03-16',
+        startTime: '2026-03-16T12:00:00Z',
+        endTime: '2026-03-16T13:00:00Z',
+        recurrenceRule: SERIES.recurrenceRule,
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.session.id).toBe('session-2');
+    expect(mockPrisma.session.update).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: { recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20260315', excludedDates: ['2026-03-09'] },
+    });
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    // The edit replaces the split date's override; later overrides, reminders, attendance and recordings move
+    expect(mockPrisma.sessionOccurrenceOverride.deleteMany).toHaveBeenCalledWith({
+      where: { sessionId: 'session-1', occurrenceDate: '2026-03-16' },
+    });
+    expect(mockPrisma.sessionOccurrenceOverride.updateMany).toHaveBeenCalledWith({
+      where: { sessionId: 'session-1', occurrenceDate: { gt: '2026-03-16' } },
+      data: { sessionId: 'session-2' },
+    });
+    for (const model of ['sessionReminder', 'sessionAttendance', 'sessionRecording']) {
+      expect(mockPrisma[model].updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', occurrenceDate: { gte: '2026-03-16' } },
+        data: { sessionId: 'session-2' },
+      });
+    }
+    // Two of the ten (Mar 2 and the excluded Mar 9) came before the split
+    expect(mockPrisma.session.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        startTime: new Date('2026-03-16T12:00:00Z'),
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;COUNT=8',
+        excludedDates: ['2026-03-23'],
+        sessionPrograms: { create: [{ programId: 'prog-1', cohortId: null }] },
+      }),
+    });
+  });
+
+  it('lists a moved occurrence at its new time under its original date', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findMany.mockResolvedValue([
+      {
+        ...SERIES,
+        sessionPrograms: [],
+        overrides: [{
+          occurrenceDate: '2026-03-16',
+          startTime: new Date('2026-03-17T14:00:00Z'),
+          endTime: new Date('2026-03-17T15:00:00Z'),
+          name: 'Moved Q&A',
+          description: null,
+          meetLink: null,
+        }],
+      },
+    ]);
+
+    const res = await request(app)
+      .get('/admin/sessions?from=2026-03-10T00:00:00Z&to=2026-03-20T00:00:00Z')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.sessions).toEqual([
+      expect.objectContaining({
+        name: 'Moved Q&A',
+        startTime: '2026-03-17T14:00:00.000Z',
+        occurrenceDate: '2026-03-16',
+        isModified: true,
+        meetLink: SERIES.meetLink,
+        seriesStartTime: '2026-03-02T10:00:00.000Z',
+      }),
+    ]);
+  });
+});
+
 // ---------- DELETE /admin/sessions/:id ----------
 
 describe('DELETE /admin/sessions/:id', () => {
@@ -459,3 +819,220 @@ describe('GET /admin/sessions/dashboard/today', () => {
     expect(res.body.data.sessions).toHaveLength(0);
   });
 });
+
+// ---------- Attendance ----------
+
+describe('Attendance', () => {
+  const ROSTER = [
+    { userId: 'learner-1', enrolledAt: new Date('2026-01-01'), user: { name: 'Asha', email: 'asha@test.com' } },
+    { userId: 'learner-2', enrolledAt: new Date('2026-01-01'), user: { name: 'Ravi', email: 'ravi@test.com' } },
+    // Enrolled after the first occurrence ended
+    { userId: 'learner-3', enrolledAt: new Date('2026-03-03'), user: { name: 'Meera', email: 'meera@test.com' } },
+  ];
+  const WEEKLY_SESSION = {
+    ...MOCK_SESSION,
+    isRecurring: true,
+    recurrenceRule: 'FREQ=WEEKLY;BYDAY=SU;UNTIL=20260308',
+    excludedDates: [],
+    sessionPrograms: [{ programId: 'prog-1', cohortId: null }],
+  };
+
+  it('reports attendance per occurrence and per learner', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(WEEKLY_SESSION);
+    mockPrisma.enrollment.findMany.mockResolvedValue(ROSTER);
+    mockPrisma.sessionAttendance.findMany.mockResolvedValue([
+      { userId: 'learner-1', occurrenceDate: '2026-03-01', present: true, joinedAt: new Date('2026-03-01T10:02:00Z'), joinCount: 1, markedById: null, user: { name: 'Asha', email: 'asha@test.com' } },
+      { userId: 'learner-1', occurrenceDate: '2026-03-08', present: true, joinedAt: null, joinCount: 0, markedById: 'admin-id-1', user: { name: 'Asha', email: 'asha@test.com' } },
+      { userId: 'learner-3', occurrenceDate: '2026-03-08', present: true, joinedAt: new Date('2026-03-08T10:00:00Z'), joinCount: 2, markedById: null, user: { name: 'Meera', email: 'meera@test.com' } },
+    ]);
+
+    const res = await request(app)
+      .get('/admin/sessions/session-1/attendance?from=2026-03-01T00:00:00Z&to=2026-03-31T00:00:00Z')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.enrollment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { OR: [{ programId: 'prog-1' }], type: { in: ['ADMIN', 'PAID'] }, user: { role: 'LEARNER' } },
+      distinct: ['userId'],
+    }));
+
+    const [first, second] = res.body.data.occurrences;
+    expect(first.occurrenceDate).toBe('2026-03-01');
+    expect(first).toEqual(expect.objectContaining({ presentCount: 1, expectedCount: 2 }));
+    expect(second).toEqual(expect.objectContaining({ occurrenceDate: '2026-03-08', presentCount: 2, expectedCount: 3 }));
+    expect(second.attendees.find(a => a.userId === 'learner-1').markedByAdmin).toBe(true);
+
+    expect(res.body.data.learners).toEqual([
+      expect.objectContaining({ userId: 'learner-1', attended: 2, expected: 2, percentage: 100 }),
+      expect.objectContaining({ userId: 'learner-3', attended: 1, expected: 1, percentage: 100 }),
+      expect.objectContaining({ userId: 'learner-2', attended: 0, expected: 2, percentage: 0 }),
+    ]);
+  });
+
+  it('exports the report as CSV with a column per occurrence', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(WEEKLY_SESSION);
+    mockPrisma.enrollment.findMany.mockResolvedValue(ROSTER.slice(0, 1));
+    mockPrisma.sessionAttendance.findMany.mockResolvedValue([
+      { userId: 'learner-1', occurrenceDate: '2026-03-01', present: true, joinedAt: null, joinCount: 1, markedById: null, user: { name: 'Asha', email: 'asha@test.com' } },
+    ]);
+
+    const res = await request(app)
+      .get('/admin/sessions/session-1/attendance/export?from=2026-03-01T00:00:00Z&to=2026-03-31T00:00:00Z')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('text/csv');
+    expect(res.headers['content-disposition']).toContain('attendance-live-q-a-');
+    expect(res.text.split('\r\n')[0]).toBe('Learner,Email,2026-03-01,2026-03-08,Attended,Sessions,Attendance (%)');
+    expect(res.text.split('\r\n')[1]).toBe('Asha,asha@test.com,Present,Absent,1,2,50');
+  });
+
+  it('returns 400 for an invalid date range', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+
+    const res = await request(app)
+      .get('/admin/sessions/session-1/attendance?from=not-a-date')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.session.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('marks a learner present for an occurrence', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce(TEST_ADMIN)
+      .mockResolvedValueOnce({ role: 'LEARNER', name: 'Ravi' });
+    mockPrisma.session.findUnique.mockResolvedValue(WEEKLY_SESSION);
+    mockPrisma.sessionAttendance.upsert.mockResolvedValue({ id: 'att-1', present: true });
+    mockPrisma.auditLog.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .put('/admin/sessions/session-1/attendance')
+      .set('Cookie', `token=${token}`)
+      .send({ userId: 'learner-2', occurrenceDate: '2026-03-08', present: true });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.sessionAttendance.upsert).toHaveBeenCalledWith({
+      where: { sessionId_userId_occurrenceDate: { sessionId: 'session-1', userId: 'learner-2', occurrenceDate: '2026-03-08' } },
+      create: { sessionId: 'session-1', userId: 'learner-2', occurrenceDate: '2026-03-08', present: true, markedById: TEST_ADMIN.id },
+      update: { present: true, markedById: TEST_ADMIN.id },
+    });
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'MARK_ATTENDANCE', targetId: 'session-1' }),
+    });
+  });
+
+  it('rejects a date the session does not run on', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(WEEKLY_SESSION);
+
+    const res = await request(app)
+      .put('/admin/sessions/session-1/attendance')
+      .set('Cookie', `token=${token}`)
+      .send({ userId: 'learner-2', occurrenceDate: '2026-03-04', present: true });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.sessionAttendance.upsert).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- Recordings ----------
+
+describe('Recordings', () => {
+  const WEEKLY_SESSION = {
+    ...MOCK_SESSION,
+    isRecurring: true,
+    recurrenceRule: 'FREQ=WEEKLY;BYDAY=SU;UNTIL=20260308',
+    excludedDates: [],
+    overrides: [],
+    sessionPrograms: [{ programId: 'prog-1' }],
+  };
+  const VIDEO_URL = 'https://iframe.mediadelivery.net/embed/123/video-guid';
+
+  it('attaches a recording to an occurrence that has taken place', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(WEEKLY_SESSION);
+    mockPrisma.sessionRecording.upsert.mockResolvedValue({ id: 'rec-1', videoUrl: VIDEO_URL });
+    mockPrisma.auditLog.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .put('/admin/sessions/session-1/recording')
+      .set('Cookie', `token=${token}`)
+      .send({ occurrenceDate: '2026-03-08', videoUrl: VIDEO_URL, durationSeconds: 3540 });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.sessionRecording.upsert).toHaveBeenCalledWith({
+      where: { sessionId_occurrenceDate: { sessionId: 'session-1', occurrenceDate: '2026-03-08' } },
+      create: { sessionId: 'session-1', occurrenceDate: '2026-03-08', videoUrl: VIDEO_URL, durationSeconds: 3540 },
+      update: { videoUrl: VIDEO_URL, durationSeconds: 3540 },
+    });
+  });
+
+  it('rejects an invalid video URL or a date the session does not run on', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(WEEKLY_SESSION);
+
+    const badUrl = await request(app)
+      .put('/admin/sessions/session-1/recording')
+      .set('Cookie', `token=${token}`)
+      .send({ occurrenceDate: '2026-03-08', videoUrl: 'not a url' });
+    const badDate = await request(app)
+      .put('/admin/sessions/session-1/recording')
+      .set('Cookie', `token=${token}`)
+      .send({ occurrenceDate: '2026-03-04', videoUrl: VIDEO_URL });
+
+    expect(badUrl.status).toBe(400);
+    expect(badDate.status).toBe(400);
+    expect(mockPrisma.sessionRecording.upsert).not.toHaveBeenCalled();
+  });
+
+  it('publishes the recording as a VIDEO lesson after the last lesson of the topic', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(WEEKLY_SESSION);
+    mockPrisma.sessionRecording.findUnique.mockResolvedValue({
+      id: 'rec-1', videoUrl: VIDEO_URL, durationSeconds: 3540, lessons: [],
+    });
+    mockPrisma.topic.findMany.mockResolvedValue([{ id: 'topic-1', programId: 'prog-1', name: 'Recordings' }]);
+    mockPrisma.lesson.count.mockResolvedValue(4);
+    mockPrisma.lesson.create.mockResolvedValue({ id: 'lesson-1', programId: 'prog-1', title: 'Live Q&A (Mar 8, 2026)' });
+    mockPrisma.program.update.mockResolvedValue({});
+    mockPrisma.auditLog.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .post('/admin/sessions/session-1/recording/lessons')
+      .set('Cookie', `token=${token}`)
+      .send({ occurrenceDate: '2026-03-08', topics: [{ programId: 'prog-1', topicId: 'topic-1' }] });
+
+    expect(res.status).toBe(201);
+    expect(mockPrisma.lesson.create).toHaveBeenCalledWith({
+      data: {
+        programId: 'prog-1',
+        topicId: 'topic-1',
+        title: 'Live Q&A (Mar 8, 2026)',
+        type: 'VIDEO',
+        contentUrl: VIDEO_URL,
+        durationSeconds: 3540,
+        orderIndex: 4,
+        recordingId: 'rec-1',
+      },
+    });
+    expect(mockPrisma.program.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'prog-1' } }));
+  });
+
+  it('only publishes to programs linked to the session', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.session.findUnique.mockResolvedValue(WEEKLY_SESSION);
+    mockPrisma.sessionRecording.findUnique.mockResolvedValue({ id: 'rec-1', videoUrl: VIDEO_URL, lessons: [] });
+
+    const res = await request(app)
+      .post('/admin/sessions/session-1/recording/lessons')
+      .set('Cookie', `token=${token}`)
+      .send({ occurrenceDate: '2026-03-08', topics: [{ programId: 'prog-2', topicId: 'topic-9' }] });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.lesson.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,347 @@
+const request = require('supertest');
+const createApp = require('../../../src/app');
+const { createMockPrisma } = require('../../helpers/mock-prisma');
+const { TEST_ADMIN, TEST_INSTRUCTOR, mockAuthSession } = require('../../helpers/auth');
+const { sendTeamInviteEmail } = require('../../../src/utils/email');
+const { cacheDel } = require('../../../src/utils/cache');
+
+jest.mock('../../../src/utils/email', () => ({
+  sendPasswordSetupEmail: jest.fn(),
+  sendTeamInviteEmail: jest.fn(),
+  sendPasswordResetEmail: jest.fn(),
+  sendSessionReminderEmail: jest.fn(),
+}));
+jest.mock('../../../src/utils/cache', () => ({
+  cacheGet: (_key, fn) => fn(),
+  cacheDel: jest.fn(),
+}));
+
+let app;
+let mockPrisma;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma = createMockPrisma();
+  app = createApp(mockPrisma);
+  mockPrisma.auditLog.create.mockResolvedValue({});
+});
+
+const PENDING_MEMBER = {
+  id: 'member-1',
+  email: 'new.instructor@test.com',
+  name: 'New Instructor',
+  role: 'INSTRUCTOR',
+  status: 'PENDING_SETUP',
+  passwordResetExpires: new Date('2024-01-08'),
+  createdAt: new Date('2024-01-01'),
+};
+
+const ACTIVE_MEMBER = {
+  ...PENDING_MEMBER,
+  id: 'member-2',
+  email: 'finance@test.com',
+  name: 'Finance Lead',
+  role: 'FINANCE',
+  status: 'ACTIVE',
+  passwordResetExpires: null,
+};
+
+// ---------- GET /admin/team ----------
+
+describe('GET /admin/team', () => {
+  it('returns 403 for staff without team:manage', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_INSTRUCTOR);
+
+    const res = await request(app)
+      .get('/admin/team')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('lists staff with invite expiry on pending members only', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findMany.mockResolvedValue([ACTIVE_MEMBER, PENDING_MEMBER]);
+
+    const res = await request(app)
+      .get('/admin/team')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.user.findMany.mock.calls[0][0].where).toEqual({
+      role: { in: ['ADMIN', 'INSTRUCTOR', 'SUPPORT', 'FINANCE'] }
+    });
+    expect(res.body.data.members[0].inviteExpiresAt).toBeNull();
+    expect(res.body.data.members[1].inviteExpiresAt).toBe('2024-01-08T00:00:00.000Z');
+  });
+});
+
+// ---------- POST /admin/team/invites ----------
+
+describe('POST /admin/team/invites', () => {
+  it('returns 400 for a non-staff role', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+
+    const res = await request(app)
+      .post('/admin/team/invites')
+      .set('Cookie', `token=${token}`)
+      .send({ email: 'someone@test.com', name: 'Someone', role: 'LEARNER' });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the email is already registered', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce({ ...TEST_ADMIN }) // auth
+      .mockResolvedValueOnce({ id: 'existing' }); // email check
+
+    const res = await request(app)
+      .post('/admin/team/invites')
+      .set('Cookie', `token=${token}`)
+      .send({ email: 'existing@test.com', name: 'Existing', role: 'SUPPORT' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('EMAIL_EXISTS');
+  });
+
+  it('creates a pending account, emails the setup link and audits the invite', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce({ ...TEST_ADMIN }) // auth
+      .mockResolvedValueOnce(null); // email not taken
+    mockPrisma.user.create.mockResolvedValue(PENDING_MEMBER);
+
+    const res = await request(app)
+      .post('/admin/team/invites')
+      .set('Cookie', `token=${token}`)
+      .send({ email: 'New.Instructor@test.com', name: 'New Instructor', role: 'INSTRUCTOR' });
+
+    expect(res.status).toBe(201);
+    const { data } = mockPrisma.user.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      email: 'new.instructor@test.com',
+      role: 'INSTRUCTOR',
+      status: 'PENDING_SETUP'
+    });
+    expect(data.passwordResetToken).toHaveLength(64);
+    expect(data.passwordResetExpires.getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000);
+    expect(sendTeamInviteEmail).toHaveBeenCalledWith(
+      'new.instructor@test.com', 'New Instructor', 'Instructor', 'Test Admin', data.passwordResetToken
+    );
+    expect(res.body.data.setupLink).toContain(`token=${data.passwordResetToken}`);
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'INVITE_TEAM_MEMBER',
+      targetType: 'TeamMember',
+      targetId: 'member-1',
+      details: { email: 'new.instructor@test.com', role: 'INSTRUCTOR', emailSent: true }
+    });
+  });
+
+  it('keeps the invite when the email fails', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce({ ...TEST_ADMIN })
+      .mockResolvedValueOnce(null);
+    mockPrisma.user.create.mockResolvedValue(PENDING_MEMBER);
+    sendTeamInviteEmail.mockRejectedValueOnce(new Error('Email down'));
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const res = await request(app)
+      .post('/admin/team/invites')
+      .set('Cookie', `token=${token}`)
+      .send({ email: 'new.instructor@test.com', name: 'New Instructor', role: 'INSTRUCTOR' });
+
+    consoleSpy.mockRestore();
+    expect(res.status).toBe(201);
+    expect(res.body.message).toMatch(/could not be sent/);
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data.details.emailSent).toBe(false);
+  });
+});
+
+// ---------- POST /admin/team/invites/:id/resend ----------
+
+describe('POST /admin/team/invites/:id/resend', () => {
+  it('returns 404 for a member who already accepted', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce({ ...TEST_ADMIN })
+      .mockResolvedValueOnce(ACTIVE_MEMBER);
+
+    const res = await request(app)
+      .post('/admin/team/invites/member-2/resend')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(404);
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('issues a fresh link and resends the invite', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce({ ...TEST_ADMIN })
+      .mockResolvedValueOnce(PENDING_MEMBER);
+    mockPrisma.user.update.mockResolvedValue(PENDING_MEMBER);
+
+    const res = await request(app)
+      .post('/admin/team/invites/member-1/resend')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    const { data } = mockPrisma.user.update.mock.calls[0][0];
+    expect(data.passwordResetToken).toHaveLength(64);
+    expect(sendTeamInviteEmail.mock.calls[0][4]).toBe(data.passwordResetToken);
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data.action).toBe('RESEND_TEAM_INVITE');
+  });
+});
+
+// ---------- DELETE /admin/team/invites/:id ----------
+
+describe('DELETE /admin/team/invites/:id', () => {
+  it('returns 404 for a learner account', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce({ ...TEST_ADMIN })
+      .mockResolvedValueOnce({ ...PENDING_MEMBER, role: 'LEARNER' });
+
+    const res = await request(app)
+      .delete('/admin/team/invites/member-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(404);
+    expect(mockPrisma.user.delete).not.toHaveBeenCalled();
+  });
+
+  it('removes the pending account and audits the revocation', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce({ ...TEST_ADMIN })
+      .mockResolvedValueOnce(PENDING_MEMBER);
+    mockPrisma.user.delete.mockResolvedValue(PENDING_MEMBER);
+
+    const res = await request(app)
+      .delete('/admin/team/invites/member-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.user.delete).toHaveBeenCalledWith({ where: { id: 'member-1' } });
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'REVOKE_TEAM_INVITE',
+      targetId: 'member-1',
+      details: { email: 'new.instructor@test.com' }
+    });
+  });
+});
+
+// ---------- PUT /admin/team/:id/status ----------
+
+describe('PUT /admin/team/:id/status', () => {
+  it('returns 400 when changing your own status', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+
+    const res = await request(app)
+      .put(`/admin/team/${TEST_ADMIN.id}/status`)
+      .set('Cookie', `token=${token}`)
+      .send({ status: 'INACTIVE' });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('deactivates a member, signs them out and audits it', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce({ ...TEST_ADMIN })
+      .mockResolvedValueOnce(ACTIVE_MEMBER);
+    mockPrisma.user.update.mockResolvedValue({ ...ACTIVE_MEMBER, status: 'INACTIVE' });
+    mockPrisma.userSession.findMany.mockResolvedValue([{ token: 'a'.repeat(40) }]);
+    mockPrisma.userSession.deleteMany.mockResolvedValue({ count: 1 });
+
+    const res = await request(app)
+      .put('/admin/team/member-2/status')
+      .set('Cookie', `token=${token}`)
+      .send({ status: 'INACTIVE' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.member.status).toBe('INACTIVE');
+    expect(mockPrisma.user.update.mock.calls[0][0].data).toEqual({
+      status: 'INACTIVE',
+      passwordResetToken: null,
+      passwordResetExpires: null
+    });
+    expect(mockPrisma.userSession.deleteMany).toHaveBeenCalledWith({ where: { userId: 'member-2' } });
+    expect(cacheDel).toHaveBeenCalledWith(`auth:${'a'.repeat(16)}`);
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'DEACTIVATE_TEAM_MEMBER',
+      targetId: 'member-2'
+    });
+  });
+
+  it('returns 404 for a pending invite', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_ADMIN);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce({ ...TEST_ADMIN })
+      .mockResolvedValueOnce(PENDING_MEMBER);
+
+    const res = await request(app)
+      .put('/admin/team/member-1/status')
+      .set('Cookie', `token=${token}`)
+      .send({ status: 'INACTIVE' });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------- Deactivated members and password links ----------
+
+describe('deactivated team members', () => {
+  const DEACTIVATED = { ...ACTIVE_MEMBER, status: 'INACTIVE', passwordHash: 'hash' };
+  const PASSWORD = { password: 'N3w-Passw0rd!', confirmPassword: 'N3w-Passw0rd!' };
+
+  it('cannot use a setup link to reactivate themselves', async () => {
+    mockPrisma.user.findFirst.mockResolvedValue(DEACTIVATED);
+
+    const res = await request(app)
+      .post('/auth/setup-password')
+      .send({ token: 'leftover-token', ...PASSWORD });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('TOKEN_EXPIRED');
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('cannot reset their password', async () => {
+    mockPrisma.user.findFirst.mockResolvedValue(DEACTIVATED);
+
+    const res = await request(app)
+      .post('/auth/reset-password')
+      .send({ token: 'leftover-token', ...PASSWORD });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('are not sent reset links', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(DEACTIVATED);
+
+    const res = await request(app)
+      .post('/auth/forgot-password')
+      .send({ email: DEACTIVATED.email });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('setup links only change the status of pending accounts', async () => {
+    mockPrisma.user.findFirst.mockResolvedValue({ ...ACTIVE_MEMBER, passwordHash: 'hash' });
+    mockPrisma.user.update.mockResolvedValue({});
+
+    const res = await request(app)
+      .post('/auth/setup-password')
+      .send({ token: 'reset-token', ...PASSWORD });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.user.update.mock.calls[0][0].data.status).toBeUndefined();
+  });
+});
@@ -0,0 +1,171 @@
+const request = require('supertest');
+const createApp = require('../../src/app');
+const { createMockPrisma } = require('../helpers/mock-prisma');
+
+jest.mock('../../src/utils/email', () => ({
+  sendPasswordSetupEmail: jest.fn(),
+  sendPasswordResetEmail: jest.fn(),
+  sendSessionReminderEmail: jest.fn(),
+}));
+
+let app;
+let mockPrisma;
+
+beforeEach(() => {
+  mockPrisma = createMockPrisma();
+  app = createApp(mockPrisma);
+});
+
+const LEARNER = { id: 'learner-1', role: 'LEARNER', status: 'ACTIVE' };
+
+// ---------- GET /calendar/:token.ics ----------
+
+describe('GET /calendar/:token.ics', () => {
+  it('serves the learner\'s sessions as iCalendar without auth', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(LEARNER);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', cohortId: null }]);
+    mockPrisma.session.findMany.mockResolvedValue([
+      {
+        id: 'session-1',
+        name: 'Weekly Q&A, live',
+        description: 'Bring questions',
+        startTime: new Date('2026-03-02T10:00:00Z'),
+        endTime: new Date('2026-03-02T11:00:00Z'),
+        meetLink: 'https://meet.google.com/abc-defg-hij',
+        isRecurring: true,
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20991231',
+        excludedDates: ['2026-03-09', '2026-03-16'],
+      },
+      {
+        id: 'session-2',
+        name: 'Kickoff',
+        description: null,
+        startTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        endTime: null,
+        meetLink: null,
+        isRecurring: false,
+        recurrenceRule: null,
+        excludedDates: [],
+      },
+    ]);
+
+    const res = await request(app).get('/calendar/feed-token.ics');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('text/calendar');
+    expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { calendarToken: 'feed-token' },
+    }));
+
+    const lines = res.text.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('UID:session-1@sessions.waveacademy');
+    expect(lines).toContain('SUMMARY:Weekly Q&A\\, live');
+    expect(lines).toContain('DTSTART:20260302T100000Z');
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20991231T235959Z');
+    expect(lines).toContain('EXDATE:20260309T100000Z,20260316T100000Z');
+    expect(lines).toContain('UID:session-2@sessions.waveacademy');
+    expect(res.text.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(res.text.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('writes series in their timezone so calendars follow its DST changes', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(LEARNER);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', cohortId: null }]);
+    mockPrisma.session.findMany.mockResolvedValue([
+      {
+        id: 'session-ny',
+        name: 'Evening class',
+        description: null,
+        startTime: new Date('2026-03-03T23:00:00Z'),
+        endTime: new Date('2026-03-04T00:30:00Z'),
+        meetLink: null,
+        isRecurring: true,
+        recurrenceRule: 'FREQ=MONTHLY;BYDAY=TU;BYSETPOS=1;UNTIL=20991231',
+        timezone: 'America/New_York',
+        // UTC date of the April occurrence (18:00 local on April 7)
+        excludedDates: ['2026-04-07'],
+      },
+    ]);
+
+    const res = await request(app).get('/calendar/feed-token.ics');
+
+    const lines = res.text.split('\r\n');
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20260303T180000');
+    expect(lines).toContain('DTEND;TZID=America/New_York:20260303T193000');
+    expect(lines).toContain('RRULE:FREQ=MONTHLY;BYDAY=TU;BYSETPOS=1;UNTIL=21000101T045959Z');
+    expect(lines).toContain('EXDATE;TZID=America/New_York:20260407T180000');
+
+    // The zone is defined in the feed, with its DST change ahead of the series
+    const timezone = lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+    expect(timezone).toContain('TZID:America/New_York');
+    expect(timezone.join('\n')).toContain(
+      'BEGIN:DAYLIGHT\nDTSTART:20260308T020000\nTZOFFSETFROM:-0500\nTZOFFSETTO:-0400\nEND:DAYLIGHT'
+    );
+    expect(lines.indexOf('END:VTIMEZONE')).toBeLessThan(lines.indexOf('BEGIN:VEVENT'));
+  });
+
+  it('adds changed occurrences as RECURRENCE-ID events of the series', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(LEARNER);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', cohortId: null }]);
+    mockPrisma.session.findMany.mockResolvedValue([
+      {
+        id: 'session-1',
+        name: 'Weekly Q&A',
+        description: null,
+        startTime: new Date('2026-03-02T10:00:00Z'),
+        endTime: new Date('2026-03-02T11:00:00Z'),
+        meetLink: null,
+        isRecurring: true,
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20991231',
+        excludedDates: [],
+        overrides: [{
+          occurrenceDate: '2026-03-09',
+          startTime: new Date('2026-03-10T15:00:00Z'),
+          endTime: new Date('2026-03-10T16:00:00Z'),
+          name: 'Weekly Q&A (moved)',
+          description: null,
+          meetLink: null,
+        }],
+      },
+    ]);
+
+    const res = await request(app).get('/calendar/feed-token.ics');
+
+    const lines = res.text.split('\r\n');
+    expect(res.text.match(/UID:session-1@sessions.waveacademy/g)).toHaveLength(2);
+    expect(lines).toContain('RECURRENCE-ID:20260309T100000Z');
+    expect(lines).toContain('DTSTART:20260310T150000Z');
+    expect(lines).toContain('SUMMARY:Weekly Q&A (moved)');
+  });
+
+  it('leaves out recurring sessions that ended long ago', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(LEARNER);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', cohortId: null }]);
+    mockPrisma.session.findMany.mockResolvedValue([
+      {
+        id: 'session-old',
+        name: 'Old series',
+        startTime: new Date('2020-01-06T10:00:00Z'),
+        endTime: null,
+        isRecurring: true,
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20200301',
+        excludedDates: [],
+      },
+    ]);
+
+    const res = await request(app).get('/calendar/feed-token.ics');
+
+    expect(res.status).toBe(200);
+    expect(res.text).not.toContain('BEGIN:VEVENT');
+  });
+
+  it('returns 404 for an unknown token', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+
+    const res = await request(app).get('/calendar/nope.ics');
+
+    expect(res.status).toBe(404);
+    expect(mockPrisma.session.findMany).not.toHaveBeenCalled();
+  });
+});
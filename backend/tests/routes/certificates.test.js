@@ -0,0 +1,50 @@
+const request = require('supertest');
+const createApp = require('../../src/app');
+const { createMockPrisma } = require('../helpers/mock-prisma');
+
+jest.mock('../../src/utils/email', () => ({
+  sendPasswordSetupEmail: jest.fn(),
+  sendPasswordResetEmail: jest.fn(),
+  sendSessionReminderEmail: jest.fn(),
+}));
+
+let app;
+let mockPrisma;
+
+beforeEach(() => {
+  mockPrisma = createMockPrisma();
+  app = createApp(mockPrisma);
+});
+
+// ---------- GET /certificates/verify/:code ----------
+
+describe('GET /certificates/verify/:code', () => {
+  it('confirms a valid code without auth', async () => {
+    mockPrisma.certificate.findUnique.mockResolvedValue({
+      code: 'WA-ABCD-EFGH-JKLM',
+      learnerName: 'Test Learner',
+      programName: 'Design Program',
+      issuedAt: new Date('2024-01-01'),
+    });
+
+    const res = await request(app).get('/certificates/verify/wa-abcd-efgh-jklm');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual(expect.objectContaining({
+      valid: true,
+      learnerName: 'Test Learner',
+      programName: 'Design Program',
+    }));
+    expect(mockPrisma.certificate.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { code: 'WA-ABCD-EFGH-JKLM' },
+    }));
+  });
+
+  it('returns 404 for an unknown code', async () => {
+    mockPrisma.certificate.findUnique.mockResolvedValue(null);
+
+    const res = await request(app).get('/certificates/verify/WA-NOPE-NOPE-NOPE');
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -160,6 +160,38 @@ describe('POST /learner/lessons/:id/progress', () => {
     expect(res.body.success).toBe(true);
     expect(res.body.data.watchPosition).toBe(300);
   });
+
+  it('keeps a completed lesson completed when it is re-watched', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    mockPrisma.lesson.findUnique.mockResolvedValue({
+      id: LESSON_ID,
+      programId: 'prog-1',
+      isFree: false,
+    });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({
+      id: 'enroll-1',
+      userId: TEST_LEARNER.id,
+      programId: 'prog-1',
+      type: 'PAID',
+    });
+    mockPrisma.progress.findUnique.mockResolvedValue({ status: 'COMPLETED' });
+    mockPrisma.progress.upsert.mockResolvedValue({
+      status: 'COMPLETED',
+      watchPositionSeconds: 30,
+    });
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/progress`)
+      .set('Cookie', `token=${token}`)
+      .send({ watchPositionSeconds: 30 });
+
+    expect(res.status).toBe(200);
+    const { update } = mockPrisma.progress.upsert.mock.calls[0][0];
+    expect(update.status).toBeUndefined();
+    expect(update.watchPositionSeconds).toBe(30);
+    expect(res.body.data.status).toBe('COMPLETED');
+  });
 });
 
 // ---------- GET /learner/discover ----------
@@ -210,3 +242,1340 @@ describe('GET /learner/discover', () => {
     expect(res.body.data.pagination.limit).toBeLessThanOrEqual(100);
   });
 });
+
+// ---------- Quiz lessons ----------
+
+describe('POST /learner/lessons/:id/quiz/attempts', () => {
+  const LESSON_ID = 'lesson-quiz';
+  const QUIZ_LESSON = {
+    programId: 'prog-1',
+    isFree: true,
+    type: 'QUIZ',
+    passingScore: 50,
+    quizQuestions: [
+      { id: 'q1', type: 'SINGLE_CHOICE', options: ['A', 'B'], correctAnswers: [1], points: 1 },
+      { id: 'q2', type: 'MULTIPLE_CHOICE', options: ['A', 'B', 'C'], correctAnswers: [0, 2], points: 1 },
+      { id: 'q3', type: 'SHORT_ANSWER', options: [], correctAnswers: ['Paris'], points: 2 },
+    ],
+  };
+
+  beforeEach(() => {
+    mockPrisma.enrollment.findUnique.mockResolvedValue({
+      id: 'enroll-1',
+      userId: TEST_LEARNER.id,
+      programId: 'prog-1',
+      type: 'PAID',
+    });
+    mockPrisma.quizAttempt.create.mockImplementation(async ({ data }) => ({
+      id: 'attempt-1',
+      createdAt: new Date('2024-01-01'),
+      ...data,
+    }));
+  });
+
+  it('returns 400 when answers are missing', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/quiz/attempts`)
+      .set('Cookie', `token=${token}`)
+      .send({});
+
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 for a non-quiz lesson', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.findUnique.mockResolvedValue({ ...QUIZ_LESSON, type: 'VIDEO' });
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/quiz/attempts`)
+      .set('Cookie', `token=${token}`)
+      .send({ answers: {} });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('grades answers and stores the attempt', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.findUnique.mockResolvedValue(QUIZ_LESSON);
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/quiz/attempts`)
+      .set('Cookie', `token=${token}`)
+      .send({ answers: { q1: [1], q2: [0], q3: '  paris ', unknown: [0] } });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.attempt).toEqual(expect.objectContaining({
+      earnedPoints: 3,
+      totalPoints: 4,
+      score: 75,
+      passed: true,
+    }));
+    expect(res.body.data.results.map(r => r.isCorrect)).toEqual([true, false, true]);
+    expect(mockPrisma.quizAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: TEST_LEARNER.id,
+        lessonId: LESSON_ID,
+        answers: { q1: [1], q2: [0], q3: '  paris ' },
+      }),
+    });
+  });
+});
+
+describe('POST /learner/lessons/:id/complete (quiz)', () => {
+  it('returns 400 until the learner has a passing attempt', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.findUnique.mockResolvedValue({ programId: 'prog-1', isFree: true, type: 'QUIZ' });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID' });
+    mockPrisma.quizAttempt.findFirst.mockResolvedValue(null);
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-quiz/complete')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('QUIZ_NOT_PASSED');
+    expect(mockPrisma.progress.upsert).not.toHaveBeenCalled();
+  });
+
+  it('completes the lesson once a passing attempt exists', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.findUnique.mockResolvedValue({ programId: 'prog-1', isFree: true, type: 'QUIZ' });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID' });
+    mockPrisma.quizAttempt.findFirst.mockResolvedValue({ id: 'attempt-1' });
+    mockPrisma.progress.upsert.mockResolvedValue({});
+    mockPrisma.lesson.findMany.mockResolvedValue([{ id: 'lesson-quiz' }]);
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-quiz/complete')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.progress.upsert).toHaveBeenCalled();
+  });
+});
+
+// ---------- POST /learner/lessons/:id/submission ----------
+
+describe('POST /learner/lessons/:id/submission', () => {
+  const LESSON_ID = 'lesson-assignment';
+  const FILE_KEY = '0b6f3c2e-5d1a-4f7e-9c8b-2a4d6e8f0a1b.pdf';
+  const FILE_URL = `https://cdn.test.com/submissions/${TEST_LEARNER.id}/${FILE_KEY}`;
+
+  beforeEach(() => {
+    process.env.R2_PUBLIC_URL = 'https://cdn.test.com';
+    mockPrisma.lesson.findUnique.mockResolvedValue({ programId: 'prog-1', isFree: true, type: 'ASSIGNMENT' });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID' });
+    mockPrisma.assignmentSubmission.upsert.mockImplementation(async ({ create }) => ({ id: 'sub-1', ...create }));
+  });
+
+  it('returns 400 without a text answer or file', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/submission`)
+      .set('Cookie', `token=${token}`)
+      .send({ textAnswer: '   ' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects file URLs outside the submissions folder', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/submission`)
+      .set('Cookie', `token=${token}`)
+      .send({ fileUrl: 'https://evil.example.com/file.pdf' });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.assignmentSubmission.upsert).not.toHaveBeenCalled();
+  });
+
+  it('rejects another learner\'s upload', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.assignmentSubmission.findUnique.mockResolvedValue({ status: 'PENDING', fileUrl: FILE_URL });
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/submission`)
+      .set('Cookie', `token=${token}`)
+      .send({ fileUrl: `https://cdn.test.com/submissions/other-learner/${FILE_KEY}` });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.assignmentSubmission.upsert).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['another learner\'s folder', `submissions/${TEST_LEARNER.id}/../other-learner/${FILE_KEY}`],
+    ['another public folder', `submissions/${TEST_LEARNER.id}/../../thumbnails/photo.jpg`],
+  ])('rejects a path that climbs out of the learner\'s folder into %s', async (_label, key) => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.assignmentSubmission.findUnique.mockResolvedValue(null);
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/submission`)
+      .set('Cookie', `token=${token}`)
+      .send({ fileUrl: `https://cdn.test.com/${key}` });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.assignmentSubmission.upsert).not.toHaveBeenCalled();
+  });
+
+  it('keeps a file submitted before uploads were kept per learner', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    const legacyUrl = `https://cdn.test.com/submissions/${FILE_KEY}`;
+    mockPrisma.assignmentSubmission.findUnique.mockResolvedValue({ status: 'REJECTED', fileUrl: legacyUrl });
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/submission`)
+      .set('Cookie', `token=${token}`)
+      .send({ textAnswer: 'Revised answer', fileUrl: legacyUrl });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.assignmentSubmission.upsert.mock.calls[0][0].update.fileUrl).toBe(legacyUrl);
+  });
+
+  it('returns 400 when the submission is already approved', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.assignmentSubmission.findUnique.mockResolvedValue({ status: 'APPROVED', fileUrl: null });
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/submission`)
+      .set('Cookie', `token=${token}`)
+      .send({ textAnswer: 'My answer' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('ALREADY_APPROVED');
+  });
+
+  it('creates a pending submission', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.assignmentSubmission.findUnique.mockResolvedValue(null);
+
+    const res = await request(app)
+      .post(`/learner/lessons/${LESSON_ID}/submission`)
+      .set('Cookie', `token=${token}`)
+      .send({ textAnswer: ' My answer ', fileUrl: FILE_URL, fileName: 'work.pdf' });
+
+    expect(res.status).toBe(201);
+    expect(mockPrisma.assignmentSubmission.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({
+        userId: TEST_LEARNER.id,
+        lessonId: LESSON_ID,
+        textAnswer: 'My answer',
+        fileUrl: FILE_URL,
+        fileName: 'work.pdf',
+        status: 'PENDING',
+      }),
+    }));
+  });
+});
+
+describe('POST /learner/lessons/:id/complete (assignment)', () => {
+  it('returns 400 until the submission is approved', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.findUnique.mockResolvedValue({ programId: 'prog-1', isFree: true, type: 'ASSIGNMENT' });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID' });
+    mockPrisma.assignmentSubmission.findFirst.mockResolvedValue(null);
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-assignment/complete')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('SUBMISSION_NOT_APPROVED');
+    expect(mockPrisma.progress.upsert).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- Certificates ----------
+
+describe('POST /learner/lessons/:id/complete (certificate)', () => {
+  beforeEach(() => {
+    mockPrisma.lesson.findUnique.mockResolvedValue({ programId: 'prog-1', isFree: true, type: 'TEXT' });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID' });
+    mockPrisma.progress.upsert.mockResolvedValue({});
+    mockPrisma.lesson.findMany.mockResolvedValue([{ id: 'lesson-1' }]);
+    mockPrisma.certificate.findUnique.mockResolvedValue(null);
+  });
+
+  it('issues a certificate when the last lesson is completed', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.count.mockResolvedValue(3);
+    mockPrisma.progress.count.mockResolvedValue(3);
+    mockPrisma.program.findUnique.mockResolvedValue({ name: 'Design Program' });
+    mockPrisma.certificate.create.mockImplementation(async ({ data }) => ({ id: 'cert-1', ...data }));
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-1/complete')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.certificate.id).toBe('cert-1');
+    expect(mockPrisma.certificate.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: TEST_LEARNER.id,
+        programId: 'prog-1',
+        programName: 'Design Program',
+        code: expect.stringMatching(/^WA-[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/),
+      }),
+    });
+  });
+
+  it('does not issue a certificate while lessons remain', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.count.mockResolvedValue(3);
+    mockPrisma.progress.count.mockResolvedValue(2);
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-1/complete')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.certificate).toBeNull();
+    expect(mockPrisma.certificate.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /learner/certificates/:id/download', () => {
+  const CERTIFICATE = {
+    id: 'cert-1',
+    userId: TEST_LEARNER.id,
+    programId: 'prog-1',
+    code: 'WA-ABCD-EFGH-JKLM',
+    learnerName: 'Test Learner',
+    programName: 'Design Program',
+    issuedAt: new Date('2024-01-01'),
+  };
+
+  it('returns 404 for another learner\'s certificate', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.certificate.findUnique.mockResolvedValue({ ...CERTIFICATE, userId: 'someone-else' });
+
+    const res = await request(app)
+      .get('/learner/certificates/cert-1/download')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('returns the certificate as a PDF', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.certificate.findUnique.mockResolvedValue(CERTIFICATE);
+
+    const res = await request(app)
+      .get('/learner/certificates/cert-1/download')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('application/pdf');
+    expect(res.headers['content-disposition']).toContain('certificate-design-program.pdf');
+  });
+});
+
+// ---------- Invoices ----------
+
+describe('Invoices', () => {
+  const INVOICE = {
+    id: 'inv-1',
+    invoiceNumber: 'WA/2026-27/00001',
+    financialYear: '2026-27',
+    paymentId: 'pay-1',
+    userId: TEST_LEARNER.id,
+    billingName: 'Test Learner',
+    billingEmail: 'learner@test.com',
+    billingMobile: null,
+    programName: 'Design Program',
+    sacCode: '999293',
+    currency: 'INR',
+    taxRate: '18.00',
+    taxableAmount: '846.61',
+    cgstAmount: '76.20',
+    sgstAmount: '76.19',
+    totalAmount: '999.00',
+    sellerName: 'Wave Academy',
+    sellerGstin: '29ABCDE1234F1Z5',
+    sellerAddress: 'Bengaluru, Karnataka',
+    issuedAt: new Date('2026-10-01'),
+  };
+
+  it('backfills a missing invoice with a sequential number and GST breakup', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.payment.findMany.mockResolvedValue([{ id: 'pay-1' }]);
+    mockPrisma.invoice.findUnique.mockResolvedValue(null);
+    mockPrisma.payment.findUnique.mockResolvedValue({
+      id: 'pay-1',
+      userId: TEST_LEARNER.id,
+      status: 'SUCCESS',
+      amount: '999.00',
+      currency: 'INR',
+      user: { name: 'Test Learner', email: 'learner@test.com', mobile: null },
+      program: { name: 'Design Program' },
+    });
+    mockPrisma.invoiceSequence.upsert.mockResolvedValue({ financialYear: '2026-27', lastNumber: 7 });
+    mockPrisma.invoice.create.mockImplementation(({ data }) => Promise.resolve({ id: 'inv-1', ...data }));
+    mockPrisma.invoice.findMany.mockResolvedValue([INVOICE]);
+
+    const res = await request(app)
+      .get('/learner/invoices')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    const { data } = mockPrisma.invoice.create.mock.calls[0][0];
+    expect(data.invoiceNumber).toMatch(/^WA\/\d{4}-\d{2}\/00007$/);
+    expect(data.taxableAmount).toBe(846.61);
+    expect(data.cgstAmount + data.sgstAmount).toBeCloseTo(152.39, 2);
+    expect(data.totalAmount).toBe(999);
+    expect(res.body.data.invoices[0]).toEqual(expect.objectContaining({
+      invoiceNumber: 'WA/2026-27/00001',
+      totalAmount: 999,
+    }));
+  });
+
+  it('does not invoice free (fully discounted) orders', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.payment.findMany.mockResolvedValue([{ id: 'pay-2' }]);
+    mockPrisma.invoice.findUnique.mockResolvedValue(null);
+    mockPrisma.payment.findUnique.mockResolvedValue({ id: 'pay-2', status: 'SUCCESS', amount: '0.00' });
+    mockPrisma.invoice.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .get('/learner/invoices')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.invoice.create).not.toHaveBeenCalled();
+    expect(res.body.data.invoices).toEqual([]);
+  });
+
+  it('returns 404 when downloading another learner\'s invoice', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.invoice.findUnique.mockResolvedValue({ ...INVOICE, userId: 'someone-else' });
+
+    const res = await request(app)
+      .get('/learner/invoices/inv-1/download')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('returns the invoice as a PDF', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.invoice.findUnique.mockResolvedValue(INVOICE);
+
+    const res = await request(app)
+      .get('/learner/invoices/inv-1/download')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('application/pdf');
+    expect(res.headers['content-disposition']).toContain('invoice-wa-2026-27-00001.pdf');
+  });
+});
+
+// ---------- Drip schedule ----------
+
+describe('Drip schedule', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const enrolledAt = new Date(Date.now() - 2 * DAY_MS);
+
+  it('locks program lessons until their unlock offset has passed', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID', enrolledAt });
+    mockPrisma.program.findUnique.mockResolvedValue({
+      id: 'prog-1',
+      name: 'Design Program',
+      isPublished: true,
+      topics: [{
+        id: 'topic-1',
+        name: 'Week 2',
+        orderIndex: 0,
+        unlockAfterDays: 7,
+        unlockAt: null,
+        subtopics: [],
+        lessons: [{ id: 'lesson-2', title: 'Layouts', type: 'VIDEO', orderIndex: 0, isFree: false, unlockAfterDays: null, unlockAt: null }],
+      }],
+      lessons: [{ id: 'lesson-1', title: 'Welcome', type: 'TEXT', orderIndex: 0, isFree: false, unlockAfterDays: 1, unlockAt: null }],
+    });
+    mockPrisma.progress.findMany.mockResolvedValue([]);
+    mockPrisma.installment.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .get('/learner/programs/prog-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    const [topic, welcome] = res.body.data.content;
+    const expected = new Date(enrolledAt.getTime() + 7 * DAY_MS).toISOString();
+    expect(topic.unlocksAt).toBe(expected);
+    expect(topic.children[0].unlocksAt).toBe(expected);
+    expect(welcome.unlocksAt).toBeNull();
+  });
+
+  it('hides scheduled lesson content and returns unlocksAt', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    const unlockAt = new Date(Date.now() + DAY_MS);
+    mockPrisma.lesson.findUnique.mockResolvedValue({
+      id: 'lesson-1',
+      programId: 'prog-1',
+      title: 'Layouts',
+      type: 'TEXT',
+      contentText: 'Secret',
+      isFree: true,
+      unlockAfterDays: null,
+      unlockAt: null,
+      topic: { unlockAfterDays: null, unlockAt },
+      subtopic: null,
+      program: { id: 'prog-1', name: 'Design Program', price: 0, currency: 'INR' },
+      attachments: [],
+      quizQuestions: [],
+    });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID', enrolledAt });
+    mockPrisma.program.findUnique.mockResolvedValue(null);
+
+    const res = await request(app)
+      .get('/learner/lessons/lesson-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.unlocksAt).toBe(unlockAt.toISOString());
+    expect(res.body.data.lesson.contentText).toBeNull();
+    expect(res.body.data.progress).toBeNull();
+    expect(mockPrisma.progress.create).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 when completing a lesson before it unlocks', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.findUnique.mockResolvedValue({
+      programId: 'prog-1', isFree: true, type: 'TEXT', unlockAfterDays: 5, unlockAt: null,
+    });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID', enrolledAt });
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-1/complete')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.code).toBe('LESSON_SCHEDULED');
+    expect(mockPrisma.progress.upsert).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for a file of a lesson that hasn\'t unlocked', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lessonAttachment.findUnique.mockResolvedValue({
+      id: 'att-1',
+      fileUrl: 'https://cdn.test.com/worksheet.pdf',
+      lesson: { id: 'lesson-1', programId: 'prog-1', isFree: true, unlockAfterDays: 5, unlockAt: null },
+    });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID', enrolledAt });
+
+    const res = await request(app)
+      .get('/learner/files/att-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.code).toBe('LESSON_SCHEDULED');
+  });
+});
+
+// ---------- Sequential progression ----------
+
+describe('Sequential progression', () => {
+  const lesson = (id, title) => ({ id, title, type: 'TEXT', orderIndex: 0, isFree: false, unlockAfterDays: null, unlockAt: null });
+  const SEQUENTIAL_PROGRAM = {
+    id: 'prog-1',
+    name: 'Design Program',
+    isPublished: true,
+    isSequential: true,
+    topics: [{
+      id: 'topic-1',
+      name: 'Basics',
+      orderIndex: 0,
+      subtopics: [],
+      lessons: [{ ...lesson('lesson-1', 'Welcome'), orderIndex: 0 }, { ...lesson('lesson-2', 'Colour'), orderIndex: 1 }],
+    }],
+    lessons: [lesson('lesson-3', 'Wrap-up')],
+  };
+
+  it('points each lesson at its incomplete predecessor in the program tree', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID', enrolledAt: new Date() });
+    mockPrisma.program.findUnique.mockResolvedValue(SEQUENTIAL_PROGRAM);
+    mockPrisma.progress.findMany.mockResolvedValue([{ lessonId: 'lesson-1', status: 'COMPLETED' }]);
+    mockPrisma.installment.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .get('/learner/programs/prog-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    const [topic, wrapUp] = res.body.data.content;
+    expect(topic.children[0].prerequisite).toBeNull();
+    expect(topic.children[1].prerequisite).toBeNull();
+    expect(wrapUp.prerequisite).toEqual({ id: 'lesson-2', title: 'Colour' });
+  });
+
+  it('hides a lesson until the previous one is completed', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.findUnique.mockResolvedValue({
+      ...lesson('lesson-2', 'Colour'),
+      programId: 'prog-1',
+      contentText: 'Secret',
+      topic: null,
+      subtopic: null,
+      program: { id: 'prog-1', name: 'Design Program', price: 0, currency: 'INR' },
+      attachments: [],
+      quizQuestions: [],
+    });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID', enrolledAt: new Date() });
+    mockPrisma.program.findUnique.mockResolvedValue(SEQUENTIAL_PROGRAM);
+    mockPrisma.progress.findUnique.mockResolvedValue({ status: 'IN_PROGRESS' });
+
+    const res = await request(app)
+      .get('/learner/lessons/lesson-2')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.prerequisite).toEqual({ id: 'lesson-1', title: 'Welcome' });
+    expect(res.body.data.lesson.contentText).toBeNull();
+    expect(res.body.data.navigation.previousLesson.id).toBe('lesson-1');
+    expect(mockPrisma.progress.update).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 when completing a lesson out of order', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.findUnique.mockResolvedValue({
+      programId: 'prog-1', isFree: false, type: 'TEXT', program: { isSequential: true },
+    });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID', enrolledAt: new Date() });
+    mockPrisma.program.findUnique.mockResolvedValue(SEQUENTIAL_PROGRAM);
+    mockPrisma.progress.findUnique.mockResolvedValue(null);
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-3/complete')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.code).toBe('PREREQUISITE_INCOMPLETE');
+    expect(res.body.error.prerequisite).toEqual({ id: 'lesson-2', title: 'Colour' });
+    expect(mockPrisma.progress.upsert).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for a file of a lesson whose predecessor isn\'t completed', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lessonAttachment.findUnique.mockResolvedValue({
+      id: 'att-1',
+      fileUrl: 'https://cdn.test.com/palette.pdf',
+      lesson: { id: 'lesson-2', programId: 'prog-1', isFree: false, unlockAfterDays: null, unlockAt: null, program: { isSequential: true } },
+    });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID', enrolledAt: new Date() });
+    mockPrisma.program.findUnique.mockResolvedValue(SEQUENTIAL_PROGRAM);
+    mockPrisma.progress.findUnique.mockResolvedValue({ status: 'IN_PROGRESS' });
+
+    const res = await request(app)
+      .get('/learner/files/att-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.prerequisite).toEqual({ id: 'lesson-1', title: 'Welcome' });
+  });
+
+  it('redirects to a file once the previous lesson is completed', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lessonAttachment.findUnique.mockResolvedValue({
+      id: 'att-1',
+      fileUrl: 'https://cdn.test.com/palette.pdf',
+      lesson: { id: 'lesson-2', programId: 'prog-1', isFree: false, unlockAfterDays: null, unlockAt: null, program: { isSequential: true } },
+    });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID', enrolledAt: new Date() });
+    mockPrisma.program.findUnique.mockResolvedValue(SEQUENTIAL_PROGRAM);
+    mockPrisma.progress.findUnique.mockResolvedValue({ status: 'COMPLETED' });
+
+    const res = await request(app)
+      .get('/learner/files/att-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toBe('https://cdn.test.com/palette.pdf');
+  });
+
+  it('skips paid lessons when ordering a FREE enrollment', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.findUnique.mockResolvedValue({
+      programId: 'prog-1', isFree: true, type: 'TEXT', program: { isSequential: true },
+    });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'FREE', enrolledAt: new Date() });
+    mockPrisma.program.findUnique.mockResolvedValue({
+      ...SEQUENTIAL_PROGRAM,
+      lessons: [{ ...lesson('lesson-3', 'Wrap-up'), isFree: true }],
+    });
+    mockPrisma.progress.upsert.mockResolvedValue({});
+    mockPrisma.lesson.findMany.mockResolvedValue([{ id: 'lesson-3' }]);
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-3/complete')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.progress.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- Installments ----------
+
+describe('Installments', () => {
+  const PROGRAM = {
+    id: 'prog-1',
+    name: 'Design Program',
+    isPublished: true,
+    price: '1000.00',
+    currency: 'INR',
+    topics: [],
+    lessons: [],
+  };
+
+  it('offers active plans before the learner upgrades', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'FREE', suspendedAt: null, enrolledAt: new Date() });
+    mockPrisma.program.findUnique.mockResolvedValue(PROGRAM);
+    mockPrisma.progress.findMany.mockResolvedValue([]);
+    mockPrisma.installmentPlan.findMany.mockResolvedValue([{
+      id: 'plan-1',
+      programId: 'prog-1',
+      name: '2 monthly payments',
+      installmentCount: 2,
+      intervalDays: 30,
+      gracePeriodDays: 7,
+      totalAmount: '1000.00',
+      isActive: true,
+    }]);
+
+    const res = await request(app)
+      .get('/learner/programs/prog-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.installmentPlan.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { programId: 'prog-1', isActive: true },
+    }));
+    expect(res.body.data.installmentPlans[0].installmentAmounts).toEqual([500, 500]);
+    expect(res.body.data.installments).toEqual([]);
+  });
+
+  it('returns the schedule of a suspended enrollment', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    const suspendedAt = new Date();
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'FREE', suspendedAt, enrolledAt: new Date() });
+    mockPrisma.program.findUnique.mockResolvedValue(PROGRAM);
+    mockPrisma.progress.findMany.mockResolvedValue([]);
+    mockPrisma.installment.findMany.mockResolvedValue([
+      { id: 'inst-1', sequence: 1, amount: '500.00', dueDate: new Date('2026-09-01'), paidAt: new Date('2026-09-01') },
+      { id: 'inst-2', sequence: 2, amount: '500.00', dueDate: new Date('2026-10-01'), paidAt: null },
+    ]);
+
+    const res = await request(app)
+      .get('/learner/programs/prog-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.suspendedAt).toBe(suspendedAt.toISOString());
+    expect(res.body.data.installments[1]).toEqual(expect.objectContaining({ id: 'inst-2', amount: 500, paidAt: null }));
+    expect(mockPrisma.installmentPlan.findMany).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- GET /learner/sessions/:id/join ----------
+
+describe('GET /learner/sessions/:id/join', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  const liveSession = (overrides = {}) => ({
+    id: 'session-1',
+    name: 'Live Q&A',
+    startTime: new Date(Date.now() - HOUR_MS / 2),
+    endTime: new Date(Date.now() + HOUR_MS / 2),
+    meetLink: 'https://meet.google.com/abc-defg-hij',
+    isRecurring: false,
+    recurrenceRule: null,
+    excludedDates: [],
+    sessionPrograms: [{ programId: 'prog-1', cohortId: null }],
+    ...overrides,
+  });
+  const occurrenceOf = session => session.startTime.toISOString().slice(0, 10);
+
+  it('records the join and redirects to the meeting', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    const session = liveSession();
+    mockPrisma.session.findUnique.mockResolvedValue(session);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', cohortId: null }]);
+    mockPrisma.sessionAttendance.upsert.mockResolvedValue({});
+
+    const res = await request(app)
+      .get(`/learner/sessions/session-1/join?occurrence=${occurrenceOf(session)}`)
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toBe(session.meetLink);
+    expect(mockPrisma.sessionAttendance.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { sessionId_userId_occurrenceDate: { sessionId: 'session-1', userId: TEST_LEARNER.id, occurrenceDate: occurrenceOf(session) } },
+      update: { joinCount: { increment: 1 } },
+    }));
+  });
+
+  it('redirects without recording a join long before the start', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    const session = liveSession({
+      startTime: new Date(Date.now() + 24 * HOUR_MS),
+      endTime: new Date(Date.now() + 25 * HOUR_MS),
+    });
+    mockPrisma.session.findUnique.mockResolvedValue(session);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', cohortId: null }]);
+
+    const res = await request(app)
+      .get(`/learner/sessions/session-1/join?occurrence=${occurrenceOf(session)}`)
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(302);
+    expect(mockPrisma.sessionAttendance.upsert).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for a session of another cohort', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    const session = liveSession({ sessionPrograms: [{ programId: 'prog-1', cohortId: 'cohort-2' }] });
+    mockPrisma.session.findUnique.mockResolvedValue(session);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', cohortId: 'cohort-1' }]);
+
+    const res = await request(app)
+      .get(`/learner/sessions/session-1/join?occurrence=${occurrenceOf(session)}`)
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.sessionAttendance.upsert).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for a date the session does not run on', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.session.findUnique.mockResolvedValue(liveSession());
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', cohortId: null }]);
+
+    const res = await request(app)
+      .get('/learner/sessions/session-1/join?occurrence=2020-01-01')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------- GET /learner/sessions/:id/recording ----------
+
+describe('GET /learner/sessions/:id/recording', () => {
+  const PAST_SESSION = {
+    id: 'session-1',
+    name: 'Live Q&A',
+    startTime: new Date('2026-03-01T10:00:00Z'),
+    isRecurring: false,
+    sessionPrograms: [{ programId: 'prog-1', cohortId: null }],
+  };
+
+  it('returns the recording of the occurrence', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.session.findUnique.mockResolvedValue(PAST_SESSION);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', cohortId: null }]);
+    mockPrisma.sessionRecording.findUnique.mockResolvedValue({
+      videoUrl: 'https://iframe.mediadelivery.net/embed/123/video-guid',
+      durationSeconds: 3540,
+    });
+
+    const res = await request(app)
+      .get('/learner/sessions/session-1/recording?occurrence=2026-03-01')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.videoUrl).toMatch(/^https:\/\/iframe\.mediadelivery\.net\/embed\/123\/video-guid/);
+    expect(mockPrisma.sessionRecording.findUnique).toHaveBeenCalledWith({
+      where: { sessionId_occurrenceDate: { sessionId: 'session-1', occurrenceDate: '2026-03-01' } },
+    });
+  });
+
+  it('returns 403 for a session outside the learner\'s programs', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.session.findUnique.mockResolvedValue(PAST_SESSION);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-2', cohortId: null }]);
+
+    const res = await request(app)
+      .get('/learner/sessions/session-1/recording?occurrence=2026-03-01')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.sessionRecording.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- Calendar (ICS) ----------
+
+describe('Calendar', () => {
+  const SESSION = {
+    id: 'session-1',
+    name: 'Weekly Q&A',
+    description: null,
+    startTime: new Date('2026-03-02T10:00:00Z'),
+    endTime: new Date('2026-03-02T11:00:00Z'),
+    meetLink: 'https://meet.google.com/abc-defg-hij',
+    isRecurring: true,
+    recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+    excludedDates: [],
+    sessionPrograms: [{ programId: 'prog-1', cohortId: null }],
+  };
+
+  it('downloads one occurrence as a single event', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.session.findUnique.mockResolvedValue(SESSION);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', cohortId: null }]);
+
+    const res = await request(app)
+      .get('/learner/sessions/session-1/ics?occurrence=2026-03-09')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-disposition']).toBe('attachment; filename="weekly-q-a.ics"');
+    const lines = res.text.split('\r\n');
+    expect(lines).toContain('UID:session-1-2026-03-09@sessions.waveacademy');
+    expect(lines).toContain('DTSTART:20260309T100000Z');
+    expect(res.text).not.toContain('RRULE');
+  });
+
+  it('creates the feed token on first use', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce(TEST_LEARNER)
+      .mockResolvedValueOnce({ calendarToken: null });
+    mockPrisma.user.update.mockResolvedValue({});
+
+    const res = await request(app)
+      .get('/learner/calendar-feed')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    const calendarToken = mockPrisma.user.update.mock.calls[0][0].data.calendarToken;
+    expect(calendarToken).toMatch(/^[0-9a-f]{48}$/);
+    expect(res.body.data.url).toMatch(new RegExp(`/calendar/${calendarToken}\\.ics$`));
+  });
+
+  it('reuses an existing feed token', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.user.findUnique
+      .mockResolvedValueOnce(TEST_LEARNER)
+      .mockResolvedValueOnce({ calendarToken: 'existing-token' });
+
+    const res = await request(app)
+      .get('/learner/calendar-feed')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.url).toMatch(/\/calendar\/existing-token\.ics$/);
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- Lesson discussions ----------
+
+describe('Lesson discussions', () => {
+  const LESSON = { id: 'lesson-1', title: 'Intro', programId: 'prog-1' };
+  const QUESTION = {
+    id: 'comment-1',
+    lessonId: 'lesson-1',
+    userId: 'other-learner',
+    parentId: null,
+    body: 'What does this mean?',
+    isPinned: false,
+    isLocked: false,
+    isHidden: false,
+    editedAt: null,
+    createdAt: new Date('2026-03-01'),
+    user: { id: 'other-learner', name: 'Other Learner', role: 'LEARNER' },
+    replies: [],
+    parent: null,
+  };
+
+  beforeEach(() => {
+    mockPrisma.lesson.findUnique.mockResolvedValue(LESSON);
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1' });
+  });
+
+  it('lists threads with pinned questions first', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lessonComment.findMany.mockResolvedValue([{
+      ...QUESTION,
+      replies: [{
+        id: 'comment-2', userId: 'admin-id-1', body: 'It means this.', isHidden: false, editedAt: null,
+        createdAt: new Date('2026-03-02'), user: { id: 'admin-id-1', name: 'Instructor', role: 'ADMIN' },
+      }],
+    }]);
+    mockPrisma.lessonComment.count.mockResolvedValue(1);
+
+    const res = await request(app)
+      .get('/learner/lessons/lesson-1/discussions')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.threads[0]).toEqual(expect.objectContaining({
+      id: 'comment-1',
+      isOwn: false,
+      isAnswered: true,
+    }));
+    expect(res.body.data.threads[0].replies[0].author.isInstructor).toBe(true);
+    expect(mockPrisma.lessonComment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { lessonId: 'lesson-1', parentId: null, isHidden: false },
+      orderBy: [{ isPinned: 'desc' }, { createdAt: 'desc' }],
+    }));
+  });
+
+  it('returns 403 when not enrolled', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.enrollment.findUnique.mockResolvedValue(null);
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-1/discussions')
+      .set('Cookie', `token=${token}`)
+      .send({ body: 'Question' });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.lessonComment.create).not.toHaveBeenCalled();
+  });
+
+  it('attaches a reply to a reply to the question', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lessonComment.findUnique.mockResolvedValue({
+      ...QUESTION, id: 'comment-2', parentId: 'comment-1', parent: QUESTION,
+    });
+    mockPrisma.lessonComment.create.mockImplementation(async ({ data }) => ({
+      id: 'comment-3', ...data, isHidden: false, editedAt: null, createdAt: new Date(),
+      user: { id: TEST_LEARNER.id, name: TEST_LEARNER.name, role: 'LEARNER' },
+    }));
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-1/discussions')
+      .set('Cookie', `token=${token}`)
+      .send({ body: 'Me too', parentId: 'comment-2' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.comment.isOwn).toBe(true);
+    expect(mockPrisma.lessonComment.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: { lessonId: 'lesson-1', userId: TEST_LEARNER.id, parentId: 'comment-1', body: 'Me too' },
+    }));
+  });
+
+  it('returns 403 when replying to a locked thread', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lessonComment.findUnique.mockResolvedValue({ ...QUESTION, isLocked: true });
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-1/discussions')
+      .set('Cookie', `token=${token}`)
+      .send({ body: 'Reply', parentId: 'comment-1' });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.lessonComment.create).not.toHaveBeenCalled();
+  });
+
+  it('does not edit other learners\' comments', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lessonComment.findUnique.mockResolvedValue(QUESTION);
+
+    const res = await request(app)
+      .put('/learner/discussions/comment-1')
+      .set('Cookie', `token=${token}`)
+      .send({ body: 'Changed' });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.lessonComment.update).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- Lesson notes ----------
+
+describe('Lesson notes', () => {
+  const VIDEO_LESSON = { id: 'lesson-1', title: 'Intro', type: 'VIDEO', programId: 'prog-1' };
+
+  beforeEach(() => {
+    mockPrisma.lesson.findUnique.mockResolvedValue(VIDEO_LESSON);
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1' });
+  });
+
+  it('saves a note at the video position', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lessonNote.create.mockImplementation(async ({ data }) => ({ id: 'note-1', ...data }));
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-1/notes')
+      .set('Cookie', `token=${token}`)
+      .send({ body: ' Key idea ', positionSeconds: 754 });
+
+    expect(res.status).toBe(201);
+    expect(mockPrisma.lessonNote.create).toHaveBeenCalledWith({
+      data: { body: 'Key idea', positionSeconds: 754, userId: TEST_LEARNER.id, lessonId: 'lesson-1' },
+    });
+  });
+
+  it('rejects a page number on a video lesson', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    const res = await request(app)
+      .post('/learner/lessons/lesson-1/notes')
+      .set('Cookie', `token=${token}`)
+      .send({ body: 'Note', pageNumber: 3 });
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.lessonNote.create).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for another learner\'s note', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lessonNote.findUnique.mockResolvedValue({
+      id: 'note-1', userId: 'other-learner', lesson: { type: 'VIDEO' },
+    });
+
+    const res = await request(app)
+      .put('/learner/notes/note-1')
+      .set('Cookie', `token=${token}`)
+      .send({ body: 'Changed' });
+
+    expect(res.status).toBe(404);
+    expect(mockPrisma.lessonNote.update).not.toHaveBeenCalled();
+  });
+
+  it('searches notes across programs', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lessonNote.findMany.mockResolvedValue([]);
+    mockPrisma.lessonNote.count.mockResolvedValue(0);
+
+    const res = await request(app)
+      .get('/learner/notes?search=breath&programId=prog-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.lessonNote.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        userId: TEST_LEARNER.id,
+        OR: [
+          { body: { contains: 'breath', mode: 'insensitive' } },
+          { lesson: { title: { contains: 'breath', mode: 'insensitive' } } },
+        ],
+        lesson: { programId: 'prog-1' },
+      },
+    }));
+  });
+
+  it('exports notes as Markdown grouped by program and lesson', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    const lesson = { id: 'lesson-1', title: 'Intro', type: 'VIDEO', program: { id: 'prog-1', name: 'Mindfulness' } };
+    mockPrisma.lessonNote.findMany.mockResolvedValue([
+      { id: 'note-1', body: 'Breathe in\nBreathe out', positionSeconds: 3725, pageNumber: null, lesson },
+      { id: 'note-2', body: 'General thought', positionSeconds: null, pageNumber: null, lesson },
+    ]);
+
+    const res = await request(app)
+      .get('/learner/notes/export')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/text\/markdown/);
+    expect(res.text).toContain('## Mindfulness\n\n### Intro\n\n- **[1:02:05]** Breathe in\n  Breathe out\n- General thought\n');
+  });
+});
+
+// ---------- Transcripts ----------
+
+describe('Transcripts', () => {
+  const CUES = [
+    { start: 0, end: 4, text: 'Welcome to the course' },
+    { start: 4, end: 9, text: 'Take a slow breath in' },
+  ];
+
+  it('returns transcript cues with an open video lesson', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.lesson.findUnique.mockResolvedValue({
+      id: 'lesson-1',
+      programId: 'prog-1',
+      title: 'Breathing',
+      type: 'VIDEO',
+      contentUrl: 'https://iframe.mediadelivery.net/embed/123/abc',
+      isFree: true,
+      topic: null,
+      subtopic: null,
+      program: { id: 'prog-1', name: 'Mindfulness', price: 0, currency: 'INR' },
+      attachments: [],
+      quizQuestions: [],
+      transcripts: [{ id: 'tr-1', language: 'en', label: 'English', cues: CUES }],
+    });
+    mockPrisma.enrollment.findUnique.mockResolvedValue({ id: 'enroll-1', type: 'PAID', enrolledAt: new Date() });
+    mockPrisma.program.findUnique.mockResolvedValue(null);
+    mockPrisma.progress.findUnique.mockResolvedValue({ id: 'progress-1', status: 'IN_PROGRESS' });
+    mockPrisma.progress.update.mockResolvedValue({});
+
+    const res = await request(app)
+      .get('/learner/lessons/lesson-1')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.lesson.transcripts).toEqual([{ id: 'tr-1', language: 'en', label: 'English', cues: CUES }]);
+  });
+
+  it('returns matching lines, without them for locked lessons', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', type: 'FREE', enrolledAt: new Date() }]);
+    mockPrisma.$queryRaw.mockResolvedValue([{ id: 'tr-2', rank: 0.2 }, { id: 'tr-1', rank: 0.1 }]);
+    const lesson = { programId: 'prog-1', unlockAfterDays: null, unlockAt: null, topic: null, subtopic: null, program: { id: 'prog-1', name: 'Mindfulness' } };
+    mockPrisma.lessonTranscript.findMany.mockResolvedValue([
+      { id: 'tr-1', language: 'en', label: 'English', cues: CUES, lesson: { ...lesson, id: 'lesson-1', title: 'Breathing', isFree: true } },
+      { id: 'tr-2', language: 'en', label: 'English', cues: CUES, lesson: { ...lesson, id: 'lesson-2', title: 'Advanced', isFree: false } },
+    ]);
+
+    const res = await request(app)
+      .get('/learner/transcripts/search?q=Breath%20slow')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    const [locked, open] = res.body.data.results;
+    expect(locked).toMatchObject({ lesson: { id: 'lesson-2' }, isLocked: true, matches: [] });
+    expect(open).toMatchObject({ lesson: { id: 'lesson-1' }, isLocked: false });
+    expect(open.matches).toEqual([{ start: 4, text: 'Take a slow breath in' }]);
+  });
+
+  it('returns no lines for lessons waiting on the previous lesson in a sequential program', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', type: 'PAID', enrolledAt: new Date() }]);
+    mockPrisma.$queryRaw.mockResolvedValue([{ id: 'tr-2', rank: 0.2 }]);
+    mockPrisma.lessonTranscript.findMany.mockResolvedValue([{
+      id: 'tr-2', language: 'en', label: 'English', cues: CUES,
+      lesson: {
+        id: 'lesson-2', title: 'Advanced', isFree: true, programId: 'prog-1', unlockAfterDays: null, unlockAt: null, topic: null, subtopic: null,
+        program: { id: 'prog-1', name: 'Mindfulness', isSequential: true }
+      }
+    }]);
+    mockPrisma.program.findUnique.mockResolvedValue({
+      id: 'prog-1',
+      isSequential: true,
+      topics: [],
+      lessons: [
+        { id: 'lesson-1', title: 'Breathing', orderIndex: 0, isFree: true },
+        { id: 'lesson-2', title: 'Advanced', orderIndex: 1, isFree: true },
+      ],
+    });
+    mockPrisma.progress.findUnique.mockResolvedValue(null);
+
+    const res = await request(app)
+      .get('/learner/transcripts/search?q=Breath%20slow')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.results).toEqual([expect.objectContaining({
+      lesson: { id: 'lesson-2', title: 'Advanced' },
+      program: { id: 'prog-1', name: 'Mindfulness' },
+      prerequisite: { id: 'lesson-1', title: 'Breathing' },
+      matches: []
+    })]);
+  });
+
+  it('rejects a one-character search', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    const res = await request(app)
+      .get('/learner/transcripts/search?q=a')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
+
+describe('Search', () => {
+  const lesson = { programId: 'prog-1', type: 'TEXT', unlockAfterDays: null, unlockAt: null, topic: null, subtopic: null, program: { id: 'prog-1', name: 'Mindfulness' } };
+
+  it('returns highlighted lessons best match first, without snippets for locked lessons', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', type: 'FREE', enrolledAt: new Date() }]);
+    mockPrisma.$queryRaw.mockResolvedValue([
+      { id: 'lesson-2', rank: 0.6, title: '\u0001Breath\u0002work', topic: '', subtopic: '', snippet: 'Deep \u0001breath\u0002 exercises', attachments: null },
+      { id: 'lesson-1', rank: 0.2, title: 'Basics', topic: '', subtopic: '', snippet: 'Notice your \u0001breath\u0002', attachments: null },
+    ]);
+    mockPrisma.lesson.findMany.mockResolvedValue([
+      { ...lesson, id: 'lesson-1', isFree: true },
+      { ...lesson, id: 'lesson-2', isFree: false },
+    ]);
+
+    const res = await request(app)
+      .get('/learner/search?q=breath')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    const [locked, open] = res.body.data.results;
+    expect(locked).toMatchObject({ lesson: { id: 'lesson-2' }, isLocked: true, snippet: null });
+    expect(locked.title).toEqual([{ text: 'Breath', highlight: true }, { text: 'work', highlight: false }]);
+    expect(open).toMatchObject({ lesson: { id: 'lesson-1' }, isLocked: false, topic: null });
+    expect(open.snippet).toEqual([{ text: 'Notice your ', highlight: false }, { text: 'breath', highlight: true }]);
+  });
+
+  it('hides snippets of lessons waiting on the previous lesson in a sequential program', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.enrollment.findMany.mockResolvedValue([{ programId: 'prog-1', type: 'PAID', enrolledAt: new Date() }]);
+    mockPrisma.$queryRaw.mockResolvedValue([
+      { id: 'lesson-2', rank: 0.6, title: 'Breathwork', topic: '', subtopic: '', snippet: 'Deep \u0001breath\u0002 exercises', attachments: 'Guided \u0001breath\u0002.pdf' },
+      { id: 'lesson-1', rank: 0.2, title: 'Basics', topic: '', subtopic: '', snippet: 'Notice your \u0001breath\u0002', attachments: null },
+    ]);
+    const sequential = { ...lesson, program: { id: 'prog-1', name: 'Mindfulness', isSequential: true } };
+    mockPrisma.lesson.findMany.mockResolvedValue([
+      { ...sequential, id: 'lesson-1', isFree: true },
+      { ...sequential, id: 'lesson-2', isFree: true },
+    ]);
+    mockPrisma.program.findUnique.mockResolvedValue({
+      id: 'prog-1',
+      isSequential: true,
+      topics: [],
+      lessons: [
+        { id: 'lesson-1', title: 'Basics', orderIndex: 0, isFree: true },
+        { id: 'lesson-2', title: 'Breathwork', orderIndex: 1, isFree: true },
+      ],
+    });
+    mockPrisma.progress.findUnique.mockResolvedValue({ status: 'IN_PROGRESS' });
+
+    const res = await request(app)
+      .get('/learner/search?q=breath')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    const [waiting, first] = res.body.data.results;
+    expect(waiting).toMatchObject({
+      lesson: { id: 'lesson-2' },
+      program: { id: 'prog-1', name: 'Mindfulness' },
+      snippet: null,
+      attachments: null,
+      prerequisite: { id: 'lesson-1', title: 'Basics' }
+    });
+    expect(first).toMatchObject({ lesson: { id: 'lesson-1' }, prerequisite: null });
+    expect(first.snippet).not.toBeNull();
+  });
+
+  it('returns no results without enrollments', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.enrollment.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .get('/learner/search?q=breath')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.results).toEqual([]);
+    expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('rejects a one-character search', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    const res = await request(app)
+      .get('/learner/search?q=%20a%20')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -18,10 +18,15 @@ jest.mock('../../src/utils/cashfree', () => ({
   getPaymentStatus: jest.fn(),
   verifyWebhookSignature: jest.fn(),
 }));
+jest.mock('../../src/utils/invoices', () => ({
+  issueInvoiceForPayment: jest.fn().mockResolvedValue(null),
+}));
 
 const { createCashfreeOrder, getPaymentStatus, verifyWebhookSignature } = require('../../src/utils/cashfree');
 const { sendPaymentConfirmationEmail } = require('../../src/utils/email');
 const { cacheDel } = require('../../src/utils/cache');
+const { issueInvoiceForPayment } = require('../../src/utils/invoices');
+const { COUPON_HOLD_MS } = require('../../src/utils/coupons');
 
 let app;
 let mockPrisma;
@@ -103,6 +108,374 @@ describe('POST /payments/create-order', () => {
   });
 });
 
+// ---------- Coupons ----------
+
+const COUPON = {
+  id: 'coupon-1',
+  code: 'LAUNCH20',
+  discountType: 'PERCENT',
+  discountValue: '20.00',
+  programId: null,
+  expiresAt: null,
+  maxUses: 100,
+  perUserLimit: 1,
+  isActive: true,
+};
+
+describe('POST /payments/preview-coupon', () => {
+  it('returns the discounted price', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1', price: '999.00', currency: 'INR' });
+    mockPrisma.coupon.findUnique.mockResolvedValue(COUPON);
+    mockPrisma.payment.count.mockResolvedValue(0);
+
+    const res = await request(app)
+      .post('/payments/preview-coupon')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', code: ' launch20 ' });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.coupon.findUnique).toHaveBeenCalledWith({ where: { code: 'LAUNCH20' } });
+    expect(res.body.data).toMatchObject({ code: 'LAUNCH20', originalAmount: 999, discount: 199.8, finalAmount: 799.2 });
+  });
+
+  it('rejects expired coupons and coupons scoped to another program', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1', price: '999.00', currency: 'INR' });
+
+    mockPrisma.coupon.findUnique.mockResolvedValueOnce({ ...COUPON, expiresAt: new Date(Date.now() - 1000) });
+    const expired = await request(app)
+      .post('/payments/preview-coupon')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', code: 'LAUNCH20' });
+
+    expect(expired.status).toBe(400);
+    expect(expired.body.error.code).toBe('COUPON_EXPIRED');
+
+    mockPrisma.coupon.findUnique.mockResolvedValueOnce({ ...COUPON, programId: 'prog-2' });
+    const scoped = await request(app)
+      .post('/payments/preview-coupon')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', code: 'LAUNCH20' });
+
+    expect(scoped.status).toBe(400);
+    expect(scoped.body.error.code).toBe('INVALID_COUPON');
+  });
+
+  it('enforces usage caps and per-learner limits', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1', price: '999.00', currency: 'INR' });
+    mockPrisma.coupon.findUnique.mockResolvedValue(COUPON);
+
+    mockPrisma.payment.count.mockResolvedValueOnce(100);
+    const exhausted = await request(app)
+      .post('/payments/preview-coupon')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', code: 'LAUNCH20' });
+
+    expect(exhausted.body.error.code).toBe('COUPON_EXHAUSTED');
+
+    mockPrisma.payment.count.mockResolvedValueOnce(5).mockResolvedValueOnce(1);
+    const limited = await request(app)
+      .post('/payments/preview-coupon')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', code: 'LAUNCH20' });
+
+    expect(limited.body.error.code).toBe('COUPON_LIMIT_REACHED');
+    expect(mockPrisma.payment.count).toHaveBeenLastCalledWith({
+      where: {
+        metadata: { path: ['coupon', 'id'], equals: 'coupon-1' },
+        OR: [
+          { status: { in: ['SUCCESS', 'REFUNDED'] } },
+          { status: 'PENDING', createdAt: { gt: expect.any(Date) }, NOT: { userId: TEST_LEARNER.id, programId: 'prog-1' } }
+        ],
+        userId: TEST_LEARNER.id
+      }
+    });
+  });
+
+  it('counts recent pending coupon orders as uses', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1', price: '999.00', currency: 'INR' });
+    mockPrisma.coupon.findUnique.mockResolvedValue({ ...COUPON, maxUses: 1 });
+    mockPrisma.payment.count.mockResolvedValueOnce(1);
+
+    const res = await request(app)
+      .post('/payments/preview-coupon')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', code: 'LAUNCH20' });
+
+    expect(res.body.error.code).toBe('COUPON_EXHAUSTED');
+    const { where } = mockPrisma.payment.count.mock.calls[0][0];
+    const holdStart = where.OR[1].createdAt.gt.getTime();
+    expect(Date.now() - holdStart).toBeGreaterThanOrEqual(COUPON_HOLD_MS);
+    expect(Date.now() - holdStart).toBeLessThan(COUPON_HOLD_MS + 60 * 1000);
+  });
+});
+
+describe('POST /payments/create-order with coupon', () => {
+  beforeEach(() => {
+    mockPrisma.enrollment.findUnique.mockResolvedValue({
+      id: 'enroll-1',
+      userId: TEST_LEARNER.id,
+      programId: 'prog-1',
+      type: 'FREE',
+    });
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1', name: 'Program', price: '999.00', currency: 'INR' });
+    mockPrisma.payment.count.mockResolvedValue(0);
+    mockPrisma.payment.deleteMany.mockResolvedValue({ count: 0 });
+    mockPrisma.payment.create.mockResolvedValue({});
+  });
+
+  it('charges the discounted amount and records the coupon in metadata', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.user.findUnique.mockResolvedValueOnce({ ...TEST_LEARNER });
+    mockPrisma.coupon.findUnique.mockResolvedValue({ ...COUPON, discountType: 'FLAT', discountValue: '200.00' });
+    createCashfreeOrder.mockResolvedValue({
+      order_id: 'order_enroll-1_123',
+      cf_order_id: 'cf-123',
+      payment_session_id: 'session-abc',
+    });
+
+    const res = await request(app)
+      .post('/payments/create-order')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', couponCode: 'LAUNCH20' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.orderAmount).toBe(799);
+    expect(createCashfreeOrder).toHaveBeenCalledWith(expect.objectContaining({ amount: 799, expiresAt: expect.any(Date) }));
+    expect(mockPrisma.payment.create.mock.calls[0][0].data).toMatchObject({
+      amount: 799,
+      metadata: {
+        cfOrderId: 'cf-123',
+        coupon: { id: 'coupon-1', code: 'LAUNCH20', discount: 200, originalAmount: 999 }
+      }
+    });
+  });
+
+  it('returns 400 for an invalid coupon without creating an order', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.coupon.findUnique.mockResolvedValue({ ...COUPON, isActive: false });
+
+    const res = await request(app)
+      .post('/payments/create-order')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', couponCode: 'LAUNCH20' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('INVALID_COUPON');
+    expect(createCashfreeOrder).not.toHaveBeenCalled();
+  });
+
+  it('rejects a coupon that leaves less than the minimum payment', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.coupon.findUnique.mockResolvedValue({ ...COUPON, discountType: 'FLAT', discountValue: '998.50' });
+
+    const res = await request(app)
+      .post('/payments/create-order')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', couponCode: 'LAUNCH20' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('INVALID_COUPON');
+    expect(createCashfreeOrder).not.toHaveBeenCalled();
+    expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('upgrades without Cashfree when the coupon covers the full price', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.user.findUnique.mockResolvedValueOnce({ ...TEST_LEARNER });
+    mockPrisma.coupon.findUnique.mockResolvedValue({ ...COUPON, discountValue: '100.00' });
+    mockPrisma.enrollment.update.mockResolvedValue({});
+
+    const res = await request(app)
+      .post('/payments/create-order')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', couponCode: 'LAUNCH20' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ status: 'SUCCESS', orderAmount: 0 });
+    expect(createCashfreeOrder).not.toHaveBeenCalled();
+    expect(mockPrisma.payment.create.mock.calls[0][0].data).toMatchObject({
+      amount: 0,
+      status: 'SUCCESS',
+      metadata: { coupon: { code: 'LAUNCH20', discount: 999 } }
+    });
+    expect(mockPrisma.enrollment.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ type: 'PAID' })
+    }));
+    expect(cacheDel).toHaveBeenCalledWith('learner:program:learner-id-1:prog-1');
+  });
+});
+
+// ---------- Installment plans ----------
+
+const PLAN = {
+  id: 'plan-1',
+  programId: 'prog-1',
+  name: '3 monthly payments',
+  installmentCount: 3,
+  intervalDays: 30,
+  gracePeriodDays: 7,
+  totalAmount: '1000.00',
+  isActive: true,
+};
+
+describe('POST /payments/create-order with installment plan', () => {
+  const mockFreeEnrollment = (overrides = {}) => {
+    mockPrisma.enrollment.findUnique.mockResolvedValue({
+      id: 'enroll-1',
+      userId: TEST_LEARNER.id,
+      programId: 'prog-1',
+      type: 'FREE',
+      suspendedAt: null,
+      ...overrides,
+    });
+    mockPrisma.program.findUnique.mockResolvedValue({ id: 'prog-1', name: 'Test Program', price: '999.00', currency: 'INR' });
+  };
+
+  it('charges the first installment and schedules the rest', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockFreeEnrollment();
+    mockPrisma.installmentPlan.findUnique.mockResolvedValue(PLAN);
+    mockPrisma.installment.create.mockImplementation(async ({ data }) => ({ id: `inst-${data.sequence}`, ...data }));
+    mockPrisma.user.findUnique.mockResolvedValueOnce({ ...TEST_LEARNER });
+    createCashfreeOrder.mockResolvedValue({
+      order_id: 'order_enroll-1_123',
+      cf_order_id: 'cf-123',
+      payment_session_id: 'session-abc',
+    });
+    mockPrisma.payment.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .post('/payments/create-order')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', installmentPlanId: 'plan-1' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.orderAmount).toBe(333.34);
+    expect(createCashfreeOrder).toHaveBeenCalledWith(expect.objectContaining({ amount: 333.34 }));
+    expect(mockPrisma.installment.deleteMany).toHaveBeenCalledWith({ where: { enrollmentId: 'enroll-1' } });
+
+    const schedule = mockPrisma.installment.create.mock.calls.map(([{ data }]) => data);
+    expect(schedule.map(i => [i.sequence, i.amount])).toEqual([[1, 333.34], [2, 333.33], [3, 333.33]]);
+    expect(schedule[1].dueDate.getTime() - schedule[0].dueDate.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+
+    const { data } = mockPrisma.payment.create.mock.calls[0][0];
+    expect(data.installmentId).toBe('inst-1');
+    expect(data.metadata.installment).toEqual({ planId: 'plan-1', sequence: 1, count: 3 });
+  });
+
+  it('rejects a coupon combined with a plan', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    const res = await request(app)
+      .post('/payments/create-order')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', installmentPlanId: 'plan-1', couponCode: 'LAUNCH20' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('rejects an inactive plan', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockFreeEnrollment();
+    mockPrisma.installmentPlan.findUnique.mockResolvedValue({ ...PLAN, isActive: false });
+
+    const res = await request(app)
+      .post('/payments/create-order')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1', installmentPlanId: 'plan-1' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('INVALID_PLAN');
+    expect(createCashfreeOrder).not.toHaveBeenCalled();
+  });
+
+  it('rejects a new checkout while an installment is overdue', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockFreeEnrollment({ suspendedAt: new Date() });
+
+    const res = await request(app)
+      .post('/payments/create-order')
+      .set('Cookie', `token=${token}`)
+      .send({ programId: 'prog-1' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('INSTALLMENT_OVERDUE');
+  });
+});
+
+describe('POST /payments/installments/:id/create-order', () => {
+  const INSTALLMENT = {
+    id: 'inst-2',
+    enrollmentId: 'enroll-1',
+    planId: 'plan-1',
+    sequence: 2,
+    amount: '333.33',
+    paidAt: null,
+    enrollment: {
+      id: 'enroll-1',
+      userId: TEST_LEARNER.id,
+      programId: 'prog-1',
+      program: { id: 'prog-1', name: 'Test Program', currency: 'INR' },
+    },
+    plan: { installmentCount: 3 },
+  };
+
+  it('returns 404 for another learner\'s installment', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.installment.findUnique.mockResolvedValue({
+      ...INSTALLMENT,
+      enrollment: { ...INSTALLMENT.enrollment, userId: 'someone-else' },
+    });
+
+    const res = await request(app)
+      .post('/payments/installments/inst-2/create-order')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('requires earlier installments to be paid first', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.installment.findUnique.mockResolvedValue({ ...INSTALLMENT, sequence: 3 });
+    mockPrisma.installment.count.mockResolvedValue(1);
+
+    const res = await request(app)
+      .post('/payments/installments/inst-2/create-order')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('INSTALLMENT_OUT_OF_ORDER');
+  });
+
+  it('creates an order for the installment amount', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+    mockPrisma.installment.findUnique.mockResolvedValue(INSTALLMENT);
+    mockPrisma.installment.count.mockResolvedValue(0);
+    mockPrisma.user.findUnique.mockResolvedValueOnce({ ...TEST_LEARNER });
+    createCashfreeOrder.mockResolvedValue({
+      order_id: 'order_enroll-1_456',
+      cf_order_id: 'cf-456',
+      payment_session_id: 'session-def',
+    });
+    mockPrisma.payment.create.mockResolvedValue({});
+
+    const res = await request(app)
+      .post('/payments/installments/inst-2/create-order')
+      .set('Cookie', `token=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.sessionId).toBe('session-def');
+    const { data } = mockPrisma.payment.create.mock.calls[0][0];
+    expect(data).toEqual(expect.objectContaining({ amount: 333.33, installmentId: 'inst-2', enrollmentId: 'enroll-1' }));
+    expect(data.metadata.installment).toEqual({ planId: 'plan-1', sequence: 2, count: 3 });
+  });
+});
+
 // ---------- POST /payments/verify ----------
 
 describe('POST /payments/verify', () => {
@@ -182,6 +555,123 @@ describe('POST /payments/verify', () => {
     expect(txMock.enrollment.update).toHaveBeenCalled();
     expect(cacheDel).toHaveBeenCalled();
   });
+
+  it('marks a later installment paid without resetting the enrollment paid date', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    mockPrisma.payment.findUnique.mockResolvedValue({
+      id: 'pay-2',
+      userId: TEST_LEARNER.id,
+      enrollmentId: 'enroll-1',
+      programId: 'prog-1',
+      installmentId: 'inst-2',
+      status: 'PENDING',
+      amount: '333.33',
+      cashfreeOrderId: 'order-2',
+      metadata: { installment: { planId: 'plan-1', sequence: 2, count: 3 } },
+      program: { name: 'Test Program', currency: 'INR' },
+      user: { email: TEST_LEARNER.email, name: TEST_LEARNER.name },
+    });
+    getPaymentStatus.mockResolvedValue([{ payment_status: 'SUCCESS', cf_payment_id: 789 }]);
+
+    const txMock = {
+      payment: {
+        findUnique: jest.fn().mockResolvedValue({ status: 'PENDING' }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      installment: { update: jest.fn().mockResolvedValue({}) },
+      enrollment: { update: jest.fn().mockResolvedValue({}) },
+    };
+    mockPrisma.$transaction.mockImplementation(async (fn) => fn(txMock));
+
+    const res = await request(app)
+      .post('/payments/verify')
+      .set('Cookie', `token=${token}`)
+      .send({ orderId: 'order-2' });
+
+    expect(res.status).toBe(200);
+    expect(txMock.installment.update).toHaveBeenCalledWith({
+      where: { id: 'inst-2' },
+      data: { paidAt: expect.any(Date) },
+    });
+    expect(txMock.enrollment.update).toHaveBeenCalledWith({
+      where: { id: 'enroll-1' },
+      data: { type: 'PAID', suspendedAt: null },
+    });
+    expect(cacheDel).toHaveBeenCalledWith('learner:program:learner-id-1:prog-1');
+  });
+
+  it('issues an invoice and attaches it to the confirmation email', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    mockPrisma.payment.findUnique.mockResolvedValue({
+      id: 'pay-1',
+      userId: TEST_LEARNER.id,
+      enrollmentId: 'enroll-1',
+      status: 'PENDING',
+      amount: '999.00',
+      cashfreeOrderId: 'order-1',
+      program: { name: 'Test Program', currency: 'INR' },
+      user: { email: TEST_LEARNER.email, name: TEST_LEARNER.name },
+    });
+    getPaymentStatus.mockResolvedValue([{ payment_status: 'SUCCESS', cf_payment_id: 456 }]);
+    mockPrisma.$transaction.mockImplementation(async (fn) => fn({
+      payment: {
+        findUnique: jest.fn().mockResolvedValue({ status: 'PENDING' }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      enrollment: { update: jest.fn().mockResolvedValue({}) },
+    }));
+    const invoice = { id: 'inv-1', invoiceNumber: 'WA/2026-27/00001' };
+    issueInvoiceForPayment.mockResolvedValueOnce(invoice);
+
+    const res = await request(app)
+      .post('/payments/verify')
+      .set('Cookie', `token=${token}`)
+      .send({ orderId: 'order-1' });
+
+    expect(res.status).toBe(200);
+    expect(issueInvoiceForPayment).toHaveBeenCalledWith(mockPrisma, 'pay-1');
+    expect(sendPaymentConfirmationEmail).toHaveBeenCalledWith(
+      TEST_LEARNER.email, TEST_LEARNER.name, 'Test Program', 999, 'INR', invoice
+    );
+  });
+
+  it('still confirms the payment when the invoice fails to issue', async () => {
+    const token = mockAuthSession(mockPrisma, TEST_LEARNER);
+
+    mockPrisma.payment.findUnique.mockResolvedValue({
+      id: 'pay-1',
+      userId: TEST_LEARNER.id,
+      enrollmentId: 'enroll-1',
+      status: 'PENDING',
+      amount: '999.00',
+      program: { name: 'Test Program', currency: 'INR' },
+      user: { email: TEST_LEARNER.email, name: TEST_LEARNER.name },
+    });
+    getPaymentStatus.mockResolvedValue([{ payment_status: 'SUCCESS', cf_payment_id: 456 }]);
+    mockPrisma.$transaction.mockImplementation(async (fn) => fn({
+      payment: {
+        findUnique: jest.fn().mockResolvedValue({ status: 'PENDING' }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      enrollment: { update: jest.fn().mockResolvedValue({}) },
+    }));
+    issueInvoiceForPayment.mockRejectedValueOnce(new Error('db down'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const res = await request(app)
+      .post('/payments/verify')
+      .set('Cookie', `token=${token}`)
+      .send({ orderId: 'order-1' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('SUCCESS');
+    expect(sendPaymentConfirmationEmail).toHaveBeenCalledWith(
+      TEST_LEARNER.email, TEST_LEARNER.name, 'Test Program', 999, 'INR', null
+    );
+    console.error.mockRestore();
+  });
 });
 
 // ---------- POST /payments/webhook ----------
@@ -341,3 +831,87 @@ describe('POST /payments/webhook', () => {
     expect(sendPaymentConfirmationEmail).not.toHaveBeenCalled();
   });
 });
+
+describe('POST /payments/webhook (refund status)', () => {
+  const REFUNDED = {
+    id: 'pay-1',
+    userId: 'learner-id-1',
+    status: 'REFUNDED',
+    refundedAmount: '600.00',
+    metadata: {
+      refunds: [
+        { refundId: 'refund_pay-1_1', amount: 400, status: 'SUCCESS' },
+        { refundId: 'refund_pay-1_2', amount: 200, status: 'PENDING' },
+      ],
+    },
+  };
+
+  function refundPayload(refundStatus) {
+    return JSON.stringify({
+      type: 'REFUND_STATUS_WEBHOOK',
+      data: {
+        refund: { order_id: 'order-1', refund_id: 'refund_pay-1_2', refund_amount: 200, refund_status: refundStatus },
+      },
+    });
+  }
+
+  function sendRefundWebhook(refundStatus) {
+    return request(app)
+      .post('/payments/webhook')
+      .set('Content-Type', 'application/json')
+      .set('x-webhook-timestamp', '123456')
+      .set('x-webhook-signature', 'valid-sig')
+      .send(refundPayload(refundStatus));
+  }
+
+  beforeEach(() => {
+    verifyWebhookSignature.mockReturnValue(true);
+    mockPrisma.payment.findUnique.mockResolvedValue(REFUNDED);
+    mockPrisma.payment.update.mockImplementation(({ data }) => Promise.resolve({ ...REFUNDED, ...data }));
+  });
+
+  it('marks a pending refund as processed', async () => {
+    const res = await sendRefundWebhook('SUCCESS');
+
+    expect(res.status).toBe(200);
+    const { data } = mockPrisma.payment.update.mock.calls[0][0];
+    expect(data.refundedAmount).toBeUndefined();
+    expect(data.metadata.refunds[1]).toMatchObject({ refundId: 'refund_pay-1_2', status: 'SUCCESS' });
+  });
+
+  it('takes a cancelled refund back out of the refunded total', async () => {
+    const res = await sendRefundWebhook('CANCELLED');
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.payment.update.mock.calls[0][0].data).toMatchObject({
+      refundedAmount: 400,
+      metadata: { refunds: [expect.anything(), expect.objectContaining({ status: 'CANCELLED' })] },
+    });
+  });
+
+  it('returns the payment to SUCCESS when its only refund is cancelled', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue({
+      ...REFUNDED,
+      refundedAmount: '200.00',
+      metadata: { refunds: [REFUNDED.metadata.refunds[1]] },
+    });
+
+    await sendRefundWebhook('CANCELLED');
+
+    expect(mockPrisma.payment.update.mock.calls[0][0].data).toMatchObject({
+      status: 'SUCCESS', refundedAmount: null, refundedAt: null,
+    });
+  });
+
+  it('ignores a status it has already applied', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue({
+      ...REFUNDED,
+      metadata: { refunds: [{ ...REFUNDED.metadata.refunds[1], status: 'CANCELLED' }] },
+    });
+
+    const res = await sendRefundWebhook('CANCELLED');
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.payment.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+const { createMockPrisma } = require('../helpers/mock-prisma');
+const { sendSessionReminderEmail } = require('../../src/utils/email');
+const { sendSessionReminders } = require('../../src/utils/session-reminders');
+
+jest.mock('../../src/utils/email', () => ({
+  sendSessionReminderEmail: jest.fn(),
+}));
+
+let mockPrisma;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPrisma = createMockPrisma();
+  mockPrisma.sessionReminder.findMany.mockResolvedValue([]);
+  mockPrisma.sessionReminder.createMany.mockResolvedValue({ count: 1 });
+  mockPrisma.notification.createMany.mockResolvedValue({ count: 1 });
+});
+
+const NOW = new Date('2025-03-10T10:00:00Z');
+const OFFSETS = [1440, 60];
+
+// A one-off session starting `minutes` after NOW
+function sessionIn(minutes) {
+  return {
+    id: 'session-1',
+    name: 'Live Q&A',
+    isRecurring: false,
+    startTime: new Date(NOW.getTime() + minutes * 60 * 1000),
+    meetLink: 'https://meet.example.com/abc',
+    sessionPrograms: [{ programId: 'prog-1', cohortId: null }],
+    overrides: [],
+  };
+}
+
+const ENROLLMENT = {
+  userId: 'learner-1',
+  programId: 'prog-1',
+  user: { email: 'learner@test.com', name: 'Test Learner' },
+};
+
+describe('sendSessionReminders', () => {
+  it('states the real time left for a session created at short notice', async () => {
+    mockPrisma.session.findMany.mockResolvedValue([sessionIn(120)]);
+    mockPrisma.enrollment.findMany.mockResolvedValue([ENROLLMENT]);
+
+    await sendSessionReminders(mockPrisma, NOW, OFFSETS, { emailIntervalMs: 0 });
+
+    // Only the 24-hour offset is reached, but the session is 2 hours away
+    expect(mockPrisma.sessionReminder.createMany.mock.calls[0][0].data[0].offsetMinutes).toBe(1440);
+    expect(mockPrisma.notification.createMany.mock.calls[0][0].data[0].message).toBe('Live Q&A starts in 2 hours');
+    expect(sendSessionReminderEmail.mock.calls[0][2].startsIn).toBe('2 hours');
+  });
+
+  it('sends nothing before the largest offset is reached', async () => {
+    mockPrisma.session.findMany.mockResolvedValue([sessionIn(1500)]);
+
+    const sent = await sendSessionReminders(mockPrisma, NOW, OFFSETS, { emailIntervalMs: 0 });
+
+    expect(sent).toBe(0);
+    expect(mockPrisma.sessionReminder.createMany).not.toHaveBeenCalled();
+    expect(sendSessionReminderEmail).not.toHaveBeenCalled();
+  });
+
+  it('picks the smallest offset reached', async () => {
+    mockPrisma.session.findMany.mockResolvedValue([sessionIn(45)]);
+    mockPrisma.enrollment.findMany.mockResolvedValue([ENROLLMENT]);
+
+    await sendSessionReminders(mockPrisma, NOW, OFFSETS, { emailIntervalMs: 0 });
+
+    expect(mockPrisma.sessionReminder.findMany.mock.calls[0][0].where).toEqual({
+      sessionId: 'session-1',
+      occurrenceDate: expect.any(String),
+      offsetMinutes: 60
+    });
+    expect(sendSessionReminderEmail.mock.calls[0][2].startsIn).toBe('45 minutes');
+  });
+
+  it('skips learners already reminded for the offset', async () => {
+    mockPrisma.session.findMany.mockResolvedValue([sessionIn(45)]);
+    mockPrisma.enrollment.findMany.mockResolvedValue([
+      ENROLLMENT,
+      { userId: 'learner-2', programId: 'prog-1', user: { email: 'second@test.com', name: 'Second Learner' } },
+    ]);
+    mockPrisma.sessionReminder.findMany.mockResolvedValue([{ userId: 'learner-1' }]);
+
+    const sent = await sendSessionReminders(mockPrisma, NOW, OFFSETS, { emailIntervalMs: 0 });
+
+    expect(sent).toBe(1);
+    expect(mockPrisma.sessionReminder.createMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ userId: 'learner-2', offsetMinutes: 60 })
+    ]);
+    expect(sendSessionReminderEmail).toHaveBeenCalledTimes(1);
+    expect(sendSessionReminderEmail.mock.calls[0][0]).toBe('second@test.com');
+  });
+
+  it('sends nothing when everyone was already reminded', async () => {
+    mockPrisma.session.findMany.mockResolvedValue([sessionIn(45)]);
+    mockPrisma.enrollment.findMany.mockResolvedValue([ENROLLMENT]);
+    mockPrisma.sessionReminder.findMany.mockResolvedValue([{ userId: 'learner-1' }]);
+
+    const sent = await sendSessionReminders(mockPrisma, NOW, OFFSETS, { emailIntervalMs: 0 });
+
+    expect(sent).toBe(0);
+    expect(mockPrisma.notification.createMany).not.toHaveBeenCalled();
+    expect(sendSessionReminderEmail).not.toHaveBeenCalled();
+  });
+
+  it('spaces out reminder emails', async () => {
+    jest.useFakeTimers();
+    mockPrisma.session.findMany.mockResolvedValue([sessionIn(45)]);
+    mockPrisma.enrollment.findMany.mockResolvedValue([
+      ENROLLMENT,
+      { userId: 'learner-2', programId: 'prog-1', user: { email: 'second@test.com', name: 'Second Learner' } },
+    ]);
+
+    const run = sendSessionReminders(mockPrisma, NOW, OFFSETS);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sendSessionReminderEmail).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(600);
+    expect(sendSessionReminderEmail).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(600);
+    await expect(run).resolves.toBe(2);
+    jest.useRealTimers();
+  });
+});
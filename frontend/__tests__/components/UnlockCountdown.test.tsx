@@ -0,0 +1,45 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import UnlockCountdown, { formatUnlockCountdown } from '@/components/learner/UnlockCountdown';
+
+const NOW = new Date('2026-03-01T10:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const at = (offset: number) => new Date(NOW + offset).toISOString();
+
+describe('formatUnlockCountdown', () => {
+  it('shows days and hours when more than a day remains', () => {
+    expect(formatUnlockCountdown(at(3 * DAY + 4 * HOUR + 20 * MINUTE), NOW)).toBe('3d 4h');
+    expect(formatUnlockCountdown(at(2 * DAY), NOW)).toBe('2d');
+  });
+
+  it('shows hours and minutes within a day', () => {
+    expect(formatUnlockCountdown(at(4 * HOUR + 12 * MINUTE), NOW)).toBe('4h 12m');
+    expect(formatUnlockCountdown(at(12 * MINUTE), NOW)).toBe('12m');
+  });
+
+  it('handles the final minute and past dates', () => {
+    expect(formatUnlockCountdown(at(30 * 1000), NOW)).toBe('<1m');
+    expect(formatUnlockCountdown(at(-MINUTE), NOW)).toBe('now');
+  });
+});
+
+describe('UnlockCountdown', () => {
+  it('calls onUnlock once the date has passed', () => {
+    const onUnlock = jest.fn();
+    render(<UnlockCountdown unlocksAt={new Date(Date.now() - MINUTE).toISOString()} onUnlock={onUnlock} />);
+
+    expect(screen.getByText('Unlocking...')).toBeInTheDocument();
+    expect(onUnlock).toHaveBeenCalledTimes(1);
+  });
+
+  it('renders the remaining time for future dates', () => {
+    const onUnlock = jest.fn();
+    render(<UnlockCountdown unlocksAt={new Date(Date.now() + 2 * DAY + HOUR + MINUTE).toISOString()} onUnlock={onUnlock} />);
+
+    expect(screen.getByText('Unlocks in 2d 1h')).toBeInTheDocument();
+    expect(onUnlock).not.toHaveBeenCalled();
+  });
+});
@@ -253,7 +253,22 @@ describe('useLearners hooks', () => {
       });
 
       await waitFor(() => expect(result.current.isSuccess).toBe(true));
-      expect(mockAdminApi.enrollLearner).toHaveBeenCalledWith('l1', 'p1');
+      expect(mockAdminApi.enrollLearner).toHaveBeenCalledWith('l1', 'p1', undefined);
+    });
+
+    it('passes the cohort when one is picked', async () => {
+      mockAdminApi.enrollLearner.mockResolvedValueOnce({ data: {} });
+
+      const { result } = renderHook(() => useEnrollLearner(), {
+        wrapper: createWrapper(),
+      });
+
+      await act(async () => {
+        result.current.mutate({ learnerId: 'l1', programId: 'p1', cohortId: 'c1' });
+      });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(mockAdminApi.enrollLearner).toHaveBeenCalledWith('l1', 'p1', 'c1');
     });
 
     it('shows success toast', async () => {
@@ -20,7 +20,7 @@ jest.mock('axios', () => ({
 }));
 
 import axios from 'axios';
-import { api, authApi, adminApi, learnerApi, _resetRedirectFlag } from '@/lib/api';
+import { api, authApi, adminApi, learnerApi, paymentApi, publicApi, _resetRedirectFlag } from '@/lib/api';
 
 // The imported `api` IS the mock instance returned by axios.create()
 const mockApi = api as any;
@@ -248,6 +248,122 @@ describe('api.ts', () => {
       await adminApi.deleteSession('s1');
       expect(mockApi.delete).toHaveBeenCalledWith('/admin/sessions/s1');
     });
+
+    it('updateSession sends the edit mode and occurrence with the changes', async () => {
+      mockApi.put.mockResolvedValueOnce({ data: {} });
+      const data = { name: 'Moved Q&A', editMode: 'single' as const, occurrenceDate: '2026-03-10' };
+      await adminApi.updateSession('s1', data);
+      expect(mockApi.put).toHaveBeenCalledWith('/admin/sessions/s1', data);
+    });
+
+    it('publishSessionRecording posts the chosen topics for the occurrence', async () => {
+      mockApi.post.mockResolvedValueOnce({ data: {} });
+      const data = { occurrenceDate: '2026-03-08', topics: [{ programId: 'p1', topicId: 't1' }] };
+      await adminApi.publishSessionRecording('s1', data);
+      expect(mockApi.post).toHaveBeenCalledWith('/admin/sessions/s1/recording/lessons', data);
+    });
+
+    it('updateCoupon calls PUT /admin/coupons/:id', async () => {
+      mockApi.put.mockResolvedValueOnce({ data: {} });
+      await adminApi.updateCoupon('c1', { isActive: false });
+      expect(mockApi.put).toHaveBeenCalledWith('/admin/coupons/c1', { isActive: false });
+    });
+
+    it('refundPayment calls POST /admin/learners/:id/payments/:paymentId/refund', async () => {
+      mockApi.post.mockResolvedValueOnce({ data: {} });
+      await adminApi.refundPayment('l1', 'pay1', { amount: 500, revokeAccess: true });
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/admin/learners/l1/payments/pay1/refund',
+        { amount: 500, revokeAccess: true }
+      );
+    });
+
+    it('markSessionAttendance calls PUT /admin/sessions/:id/attendance', async () => {
+      mockApi.put.mockResolvedValueOnce({ data: {} });
+      const data = { userId: 'l1', occurrenceDate: '2026-03-01', present: true };
+      await adminApi.markSessionAttendance('s1', data);
+      expect(mockApi.put).toHaveBeenCalledWith('/admin/sessions/s1/attendance', data);
+    });
+
+    it('createCohort calls POST /admin/programs/cohorts', async () => {
+      mockApi.post.mockResolvedValueOnce({ data: {} });
+      const cohort = { programId: 'p1', name: 'Jan 2026', startDate: '2026-01-05', endDate: null };
+      await adminApi.createCohort(cohort);
+      expect(mockApi.post).toHaveBeenCalledWith('/admin/programs/cohorts', cohort);
+    });
+
+    it('changeLearnerCohort calls PUT /admin/learners/:id/enrollments/:programId', async () => {
+      mockApi.put.mockResolvedValueOnce({ data: {} });
+      await adminApi.changeLearnerCohort('l1', 'p1', 'c1');
+      expect(mockApi.put).toHaveBeenCalledWith('/admin/learners/l1/enrollments/p1', { cohortId: 'c1' });
+    });
+
+    it('createInstallmentPlan calls POST /admin/programs/installment-plans', async () => {
+      mockApi.post.mockResolvedValueOnce({ data: {} });
+      const plan = { programId: 'p1', name: '3 parts', installmentCount: 3, intervalDays: 30, gracePeriodDays: 7, totalAmount: 999 };
+      await adminApi.createInstallmentPlan(plan);
+      expect(mockApi.post).toHaveBeenCalledWith('/admin/programs/installment-plans', plan);
+    });
+
+    it('moderateDiscussion calls PUT /admin/discussions/:id', async () => {
+      mockApi.put.mockResolvedValueOnce({ data: {} });
+      await adminApi.moderateDiscussion('c1', { isPinned: true });
+      expect(mockApi.put).toHaveBeenCalledWith('/admin/discussions/c1', { isPinned: true });
+    });
+
+    it('exportInvoices requests the CSV as a blob with filters', async () => {
+      mockApi.get.mockResolvedValueOnce({ data: new Blob(['csv']) });
+      await adminApi.exportInvoices({ search: 'WA/2026' });
+      expect(mockApi.get).toHaveBeenCalledWith('/admin/invoices/export', {
+        params: { search: 'WA/2026' },
+        responseType: 'blob',
+      });
+    });
+
+    it('exportLearners sends the picked columns as one param and requests a blob', async () => {
+      mockApi.get.mockResolvedValueOnce({ data: new Blob(['csv']) });
+      await adminApi.exportLearners({ format: 'xlsx', columns: ['name', 'completion'], programId: 'p1' });
+      expect(mockApi.get).toHaveBeenCalledWith('/admin/learners/export', {
+        params: { format: 'xlsx', programId: 'p1', columns: 'name,completion' },
+        responseType: 'blob',
+      });
+    });
+
+    it('getAuditLogs passes filters and the page cursor', async () => {
+      mockApi.get.mockResolvedValueOnce({ data: {} });
+      await adminApi.getAuditLogs({ targetType: 'Program', targetId: 'p1', related: true, cursor: 'log1' });
+      expect(mockApi.get).toHaveBeenCalledWith('/admin/audit-logs', {
+        params: { targetType: 'Program', targetId: 'p1', related: true, cursor: 'log1' },
+      });
+    });
+  });
+
+  // ── Coupons at checkout ──
+
+  describe('coupon previews', () => {
+    it('paymentApi.createOrder sends the coupon code', async () => {
+      mockApi.post.mockResolvedValueOnce({ data: {} });
+      await paymentApi.createOrder('p1', 'LAUNCH20');
+      expect(mockApi.post).toHaveBeenCalledWith('/payments/create-order', { programId: 'p1', couponCode: 'LAUNCH20' });
+    });
+
+    it('paymentApi.createOrder sends the installment plan', async () => {
+      mockApi.post.mockResolvedValueOnce({ data: {} });
+      await paymentApi.createOrder('p1', undefined, 'plan1');
+      expect(mockApi.post).toHaveBeenCalledWith('/payments/create-order', { programId: 'p1', installmentPlanId: 'plan1' });
+    });
+
+    it('paymentApi.payInstallment calls POST /payments/installments/:id/create-order', async () => {
+      mockApi.post.mockResolvedValueOnce({ data: {} });
+      await paymentApi.payInstallment('inst2');
+      expect(mockApi.post).toHaveBeenCalledWith('/payments/installments/inst2/create-order');
+    });
+
+    it('publicApi.previewCoupon calls GET with the code as a param', async () => {
+      mockApi.get.mockResolvedValueOnce({ data: {} });
+      await publicApi.previewCoupon('mindfulness-101', 'LAUNCH20');
+      expect(mockApi.get).toHaveBeenCalledWith('/public/programs/mindfulness-101/coupon', { params: { code: 'LAUNCH20' } });
+    });
   });
 
   // ── learnerApi (spot checks) ──
@@ -276,6 +392,65 @@ describe('api.ts', () => {
       await learnerApi.completeLesson('les1');
       expect(mockApi.post).toHaveBeenCalledWith('/learner/lessons/les1/complete');
     });
+
+    it('submitQuizAttempt calls POST with answers', async () => {
+      mockApi.post.mockResolvedValueOnce({ data: {} });
+      await learnerApi.submitQuizAttempt('les1', { q1: [0], q2: 'Paris' });
+      expect(mockApi.post).toHaveBeenCalledWith('/learner/lessons/les1/quiz/attempts', { answers: { q1: [0], q2: 'Paris' } });
+    });
+
+    it('submitAssignment calls POST with the submission', async () => {
+      mockApi.post.mockResolvedValueOnce({ data: {} });
+      await learnerApi.submitAssignment('les1', { textAnswer: 'My answer' });
+      expect(mockApi.post).toHaveBeenCalledWith('/learner/lessons/les1/submission', { textAnswer: 'My answer' });
+    });
+
+    it('postLessonComment calls POST with the reply\'s parent', async () => {
+      mockApi.post.mockResolvedValueOnce({ data: {} });
+      await learnerApi.postLessonComment('les1', { body: 'Thanks!', parentId: 'c1' });
+      expect(mockApi.post).toHaveBeenCalledWith('/learner/lessons/les1/discussions', { body: 'Thanks!', parentId: 'c1' });
+    });
+
+    it('search calls GET /learner/search with the query and limit', async () => {
+      mockApi.get.mockResolvedValueOnce({ data: {} });
+      await learnerApi.search('breath', 6);
+      expect(mockApi.get).toHaveBeenCalledWith('/learner/search', { params: { q: 'breath', limit: 6 } });
+    });
+
+    it('exportNotes requests the Markdown as a blob with filters', async () => {
+      mockApi.get.mockResolvedValueOnce({ data: new Blob(['# My Notes']) });
+      await learnerApi.exportNotes({ search: 'breath' });
+      expect(mockApi.get).toHaveBeenCalledWith('/learner/notes/export', {
+        params: { search: 'breath' },
+        responseType: 'blob',
+      });
+    });
+
+    it('getSessionJoinUrl points at the tracked join redirect for the occurrence', () => {
+      expect(learnerApi.getSessionJoinUrl('s1', '2026-03-01')).toBe('http://localhost:3001/learner/sessions/s1/join?occurrence=2026-03-01');
+      expect(learnerApi.getSessionJoinUrl('s1')).toBe('http://localhost:3001/learner/sessions/s1/join');
+    });
+
+    it('downloadCertificate requests the PDF as a blob', async () => {
+      mockApi.get.mockResolvedValueOnce({ data: new Blob(['pdf']) });
+      await learnerApi.downloadCertificate('cert1');
+      expect(mockApi.get).toHaveBeenCalledWith('/learner/certificates/cert1/download', { responseType: 'blob' });
+    });
+
+    it('getSessionRecording requests the occurrence\'s recording', async () => {
+      mockApi.get.mockResolvedValueOnce({ data: {} });
+      await learnerApi.getSessionRecording('s1', '2026-03-08');
+      expect(mockApi.get).toHaveBeenCalledWith('/learner/sessions/s1/recording', { params: { occurrence: '2026-03-08' } });
+    });
+
+    it('downloadSessionIcs requests the occurrence as a blob', async () => {
+      mockApi.get.mockResolvedValueOnce({ data: new Blob(['ics']) });
+      await learnerApi.downloadSessionIcs('s1', '2026-03-09');
+      expect(mockApi.get).toHaveBeenCalledWith('/learner/sessions/s1/ics', {
+        params: { occurrence: '2026-03-09' },
+        responseType: 'blob',
+      });
+    });
   });
 
   // ── Upload methods ──
@@ -304,5 +479,47 @@ describe('api.ts', () => {
         expect.objectContaining({ withCredentials: true })
       );
     });
+
+    it('previewLearnerImport sends the sheet and column mapping as FormData', async () => {
+      (axios.post as jest.Mock).mockResolvedValueOnce({ data: { data: {} } });
+      const file = new File(['Name,Email'], 'learners.csv', { type: 'text/csv' });
+      const mapping = { name: 0, email: 1, mobile: null, registrationNumber: null, programs: null, cohort: null };
+      await adminApi.previewLearnerImport(file, mapping);
+
+      expect(axios.post).toHaveBeenCalledWith(
+        expect.stringContaining('/admin/learners/import/preview'),
+        expect.any(FormData),
+        expect.objectContaining({ withCredentials: true })
+      );
+      const formData = (axios.post as jest.Mock).mock.calls[0][1] as FormData;
+      expect(formData.get('mapping')).toBe(JSON.stringify(mapping));
+    });
+
+    it('uploadTranscript sends the caption file with its language and label', async () => {
+      (axios.post as jest.Mock).mockResolvedValueOnce({ data: { data: {} } });
+      const file = new File(['WEBVTT'], 'intro.vtt', { type: 'text/vtt' });
+      await adminApi.uploadTranscript('les1', file, { language: 'en', label: 'English' });
+
+      expect(axios.post).toHaveBeenCalledWith(
+        expect.stringContaining('/admin/programs/lessons/les1/transcripts'),
+        expect.any(FormData),
+        expect.objectContaining({ withCredentials: true })
+      );
+      const formData = (axios.post as jest.Mock).mock.calls[0][1] as FormData;
+      expect(formData.get('language')).toBe('en');
+      expect(formData.get('label')).toBe('English');
+    });
+
+    it('uploadSubmissionFile uses axios.post directly with FormData', async () => {
+      (axios.post as jest.Mock).mockResolvedValueOnce({ data: { url: 'https://cdn/submissions/work.pdf' } });
+      const file = new File(['data'], 'work.pdf', { type: 'application/pdf' });
+      await learnerApi.uploadSubmissionFile(file);
+
+      expect(axios.post).toHaveBeenCalledWith(
+        expect.stringContaining('/learner/upload/submission'),
+        expect.any(FormData),
+        expect.objectContaining({ withCredentials: true })
+      );
+    });
   });
 });
@@ -0,0 +1,50 @@
+import {
+  formatAuditAction,
+  formatAuditTargetType,
+  getAuditTargetLabel,
+  getAuditTargetHref,
+  getAuditChanges,
+  getAuditExtraDetails,
+  formatAuditValue,
+} from '@/lib/audit';
+
+describe('audit', () => {
+  it('formats actions and target types for display', () => {
+    expect(formatAuditAction('UPDATE_INSTALLMENT_PLAN')).toBe('Update installment plan');
+    expect(formatAuditTargetType('InstallmentPlan')).toBe('Installment plan');
+    expect(formatAuditTargetType('User')).toBe('Learner');
+  });
+
+  it('names the target from its details', () => {
+    expect(getAuditTargetLabel({ details: { code: 'LAUNCH20' } })).toBe('LAUNCH20');
+    expect(getAuditTargetLabel({ details: { programId: 'p1', name: 'Jan 2026' } })).toBe('Jan 2026');
+    expect(getAuditTargetLabel({ details: null })).toBeNull();
+  });
+
+  it('links to the target, or the program or learner it belongs to', () => {
+    expect(getAuditTargetHref({ action: 'REFUND_PAYMENT', targetType: 'Payment', targetId: 'pay1', details: { learnerId: 'u1' } }))
+      .toBe('/admin/learners/u1');
+    expect(getAuditTargetHref({ action: 'UPDATE_COHORT', targetType: 'Cohort', targetId: 'c1', details: { programId: 'p1' } }))
+      .toBe('/admin/programs/p1');
+    expect(getAuditTargetHref({ action: 'DELETE_PROGRAM', targetType: 'Program', targetId: 'p1', details: null })).toBeNull();
+    expect(getAuditTargetHref({ action: 'REVOKE_TEAM_INVITE', targetType: 'TeamMember', targetId: 'u2', details: null }))
+      .toBe('/admin/settings');
+  });
+
+  it('lists the fields an update changed', () => {
+    const details = { programId: 'p1', before: { name: 'Jan', endDate: null }, after: { name: 'January', endDate: '2026-04-30' } };
+    expect(getAuditChanges(details)).toEqual([
+      { field: 'name', before: 'Jan', after: 'January' },
+      { field: 'endDate', before: null, after: '2026-04-30' },
+    ]);
+    expect(getAuditExtraDetails(details)).toEqual({ programId: 'p1' });
+    expect(getAuditChanges({ name: 'Jan' })).toBeNull();
+  });
+
+  it('formats detail values', () => {
+    expect(formatAuditValue(null)).toBe('—');
+    expect(formatAuditValue('text')).toBe('text');
+    expect(formatAuditValue(20)).toBe('20');
+    expect(formatAuditValue(['a', 'b'])).toBe('["a","b"]');
+  });
+});
@@ -0,0 +1,21 @@
+import { formatTimestamp, formatNotePosition, getNoteHref } from '@/lib/notes';
+
+describe('notes', () => {
+  it('formats timestamps with hours only when needed', () => {
+    expect(formatTimestamp(0)).toBe('0:00');
+    expect(formatTimestamp(75)).toBe('1:15');
+    expect(formatTimestamp(3725)).toBe('1:02:05');
+  });
+
+  it('describes where a note was taken', () => {
+    expect(formatNotePosition({ positionSeconds: 754, pageNumber: null })).toBe('12:34');
+    expect(formatNotePosition({ positionSeconds: null, pageNumber: 4 })).toBe('p. 4');
+    expect(formatNotePosition({ positionSeconds: null, pageNumber: null })).toBeNull();
+  });
+
+  it('links to the lesson at the note\'s position', () => {
+    expect(getNoteHref({ positionSeconds: 0, pageNumber: null }, 'les1')).toBe('/learner/lessons/les1?t=0');
+    expect(getNoteHref({ positionSeconds: null, pageNumber: 4 }, 'les1')).toBe('/learner/lessons/les1?page=4');
+    expect(getNoteHref({ positionSeconds: null, pageNumber: null }, 'les1')).toBe('/learner/lessons/les1');
+  });
+});
@@ -0,0 +1,33 @@
+import { isStaffRole, hasPermission, canViewAdminPage, getAdminHome } from '@/lib/permissions';
+
+describe('permissions', () => {
+  it('treats every admin panel role as staff', () => {
+    expect(isStaffRole('ADMIN')).toBe(true);
+    expect(isStaffRole('FINANCE')).toBe(true);
+    expect(isStaffRole('LEARNER')).toBe(false);
+    expect(isStaffRole(undefined)).toBe(false);
+  });
+
+  it('checks permissions by role', () => {
+    expect(hasPermission('ADMIN', 'learners:delete')).toBe(true);
+    expect(hasPermission('SUPPORT', 'learners:reset-password')).toBe(true);
+    expect(hasPermission('SUPPORT', 'learners:delete')).toBe(false);
+    expect(hasPermission('FINANCE', 'payments:refund')).toBe(true);
+    expect(hasPermission('INSTRUCTOR', 'content:edit')).toBe(true);
+    expect(hasPermission('INSTRUCTOR', 'programs:manage')).toBe(false);
+    expect(hasPermission('LEARNER', 'programs:view')).toBe(false);
+  });
+
+  it('decides which admin pages a role can open', () => {
+    expect(canViewAdminPage('INSTRUCTOR', '/admin')).toBe(false);
+    expect(canViewAdminPage('INSTRUCTOR', '/admin/programs/p1')).toBe(true);
+    expect(canViewAdminPage('SUPPORT', '/admin/invoices')).toBe(false);
+    expect(canViewAdminPage('FINANCE', '/admin/settings')).toBe(true);
+    expect(canViewAdminPage('LEARNER', '/admin/settings')).toBe(false);
+  });
+
+  it('lands staff on the first page they can open', () => {
+    expect(getAdminHome('ADMIN')).toBe('/admin');
+    expect(getAdminHome('INSTRUCTOR')).toBe('/admin/programs');
+  });
+});
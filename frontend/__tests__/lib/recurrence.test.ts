@@ -0,0 +1,55 @@
+import {
+  defaultRecurrence,
+  parseRecurrenceRule,
+  buildRecurrenceRule,
+  describeRecurrence,
+  zonedDateTimeToIso,
+  isoToZonedDateTime,
+} from '@/lib/recurrence';
+
+describe('recurrence rules', () => {
+  it('defaults to weekly on the start date\'s weekday', () => {
+    const options = defaultRecurrence('2026-03-10'); // a Tuesday
+
+    expect(buildRecurrenceRule(options)).toBe('FREQ=WEEKLY;BYDAY=TU');
+    expect(options.setPos).toBe(2);
+    expect(describeRecurrence(options)).toBe('Weekly on Tuesday');
+  });
+
+  it('round-trips bi-weekly rules with a count', () => {
+    const options = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,TU;COUNT=10', '2026-03-10');
+
+    expect(options).toEqual(expect.objectContaining({ frequency: 'WEEKLY', interval: 2, end: 'count', count: 10 }));
+    expect(buildRecurrenceRule(options)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10');
+    expect(describeRecurrence(options)).toBe('Every 2 weeks on Tuesday and Thursday, 10 times');
+  });
+
+  it('reads monthly nth-weekday rules in both RRULE forms', () => {
+    const setPos = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2', '2026-03-10');
+    const ordinal = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20261231', '2026-03-10');
+
+    expect(buildRecurrenceRule(setPos)).toBe('FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2');
+    expect(describeRecurrence(setPos)).toBe('Monthly on the second Tuesday');
+    expect(buildRecurrenceRule(ordinal)).toBe('FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1;UNTIL=20261231');
+    expect(describeRecurrence(ordinal)).toBe('Monthly on the last Friday, until Dec 31, 2026');
+  });
+
+  it('builds monthly day-of-month rules', () => {
+    const options = { ...defaultRecurrence('2026-03-10'), frequency: 'MONTHLY' as const, interval: 3 };
+
+    expect(buildRecurrenceRule(options)).toBe('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=10');
+    expect(describeRecurrence(options)).toBe('Every 3 months on the 10th');
+  });
+});
+
+describe('timezones', () => {
+  it('converts wall-clock times in a timezone, following DST', () => {
+    expect(zonedDateTimeToIso('2026-03-03', '10:00', 'America/New_York')).toBe('2026-03-03T15:00:00.000Z');
+    expect(zonedDateTimeToIso('2026-03-10', '10:00', 'America/New_York')).toBe('2026-03-10T14:00:00.000Z');
+    expect(zonedDateTimeToIso('2026-03-10', '10:00', 'Asia/Kolkata')).toBe('2026-03-10T04:30:00.000Z');
+  });
+
+  it('reads an instant back as date and time in a timezone', () => {
+    expect(isoToZonedDateTime('2026-03-10T23:30:00.000Z', 'Asia/Kolkata')).toEqual({ date: '2026-03-11', time: '05:00' });
+  });
+});
@@ -0,0 +1,25 @@
+import { findActiveCueIndex, getCueHref } from '@/lib/transcripts';
+
+const cues = [
+  { start: 0, end: 4, text: 'Welcome' },
+  { start: 4, end: 9, text: 'Breathe in' },
+  { start: 12, end: 15.5, text: 'Breathe out' },
+];
+
+describe('transcripts', () => {
+  it('finds the cue showing at a time', () => {
+    expect(findActiveCueIndex(cues, 0)).toBe(0);
+    expect(findActiveCueIndex(cues, 4)).toBe(1);
+    expect(findActiveCueIndex(cues, 15)).toBe(2);
+  });
+
+  it('returns -1 between and after cues', () => {
+    expect(findActiveCueIndex(cues, 10)).toBe(-1);
+    expect(findActiveCueIndex(cues, 16)).toBe(-1);
+    expect(findActiveCueIndex([], 3)).toBe(-1);
+  });
+
+  it('links to the lesson at a cue', () => {
+    expect(getCueHref('les1', 12.7)).toBe('/learner/lessons/les1?t=12');
+  });
+});
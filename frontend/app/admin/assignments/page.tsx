@@ -0,0 +1,332 @@
+'use client';
+
+import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { CheckCircle, XCircle, FileText, Download } from 'lucide-react';
+import { AdminHeader } from '@/components/admin';
+import { useSidebar } from '@/lib/sidebar-context';
+import { Button, Badge, Table, PageLoading, Pagination, Modal, formatStatus } from '@/components/ui';
+import { usePrograms, useSubmissions, useGradeSubmission } from '@/hooks';
+import { Submission, SubmissionFilters, SubmissionStatus } from '@/types/admin';
+import { format } from 'date-fns';
+
+const STATUS_VARIANTS: Record<SubmissionStatus, 'warning' | 'success' | 'error'> = {
+  PENDING: 'warning',
+  APPROVED: 'success',
+  REJECTED: 'error',
+};
+
+export default function AssignmentsPage() {
+  const { openSidebar } = useSidebar();
+  const searchParams = useSearchParams();
+  const [filters, setFilters] = useState<SubmissionFilters>(() => ({
+    page: 1,
+    limit: 20,
+    status: 'PENDING',
+    programId: searchParams.get('programId') || undefined,
+  }));
+  const [selected, setSelected] = useState<Submission | null>(null);
+  const [grade, setGrade] = useState('');
+  const [feedback, setFeedback] = useState('');
+
+  const { data: programs } = usePrograms();
+  const { data, isLoading, isError } = useSubmissions(filters);
+  const gradeSubmission = useGradeSubmission();
+
+  const handleStatusFilter = (status: string) => {
+    setFilters(prev => ({
+      ...prev,
+      status: (status as SubmissionStatus) || undefined,
+      page: 1,
+    }));
+  };
+
+  const handleProgramFilter = (programId: string) => {
+    setFilters(prev => ({
+      ...prev,
+      programId: programId || undefined,
+      page: 1,
+    }));
+  };
+
+  const openReview = (submission: Submission) => {
+    setSelected(submission);
+    setGrade(submission.grade || '');
+    setFeedback(submission.feedback || '');
+  };
+
+  const closeReview = () => {
+    setSelected(null);
+    setGrade('');
+    setFeedback('');
+  };
+
+  const handleGrade = async (status: 'APPROVED' | 'REJECTED') => {
+    if (!selected) return;
+    try {
+      await gradeSubmission.mutateAsync({
+        id: selected.id,
+        data: { status, grade: grade.trim() || undefined, feedback: feedback.trim() || undefined },
+      });
+      closeReview();
+    } catch {
+      // Error handled by mutation onError
+    }
+  };
+
+  const clearFilters = () => {
+    setFilters({ page: 1, limit: 20 });
+  };
+
+  const columns = [
+    {
+      key: 'learner',
+      header: 'Learner',
+      render: (submission: Submission) => (
+        <div>
+          <p className="font-medium text-slate-900">{submission.learner.name}</p>
+          <p className="text-sm text-slate-500">{submission.learner.email}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'lesson',
+      header: 'Assignment',
+      render: (submission: Submission) => (
+        <div>
+          <p className="text-slate-900">{submission.lesson.title}</p>
+          <p className="text-sm text-slate-500">{submission.program.name}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (submission: Submission) => (
+        <div className="flex items-center gap-2">
+          <Badge variant={STATUS_VARIANTS[submission.status]} dot>
+            {formatStatus(submission.status)}
+          </Badge>
+          {submission.grade && (
+            <span className="text-sm font-medium text-slate-700">{submission.grade}</span>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'submittedAt',
+      header: 'Submitted',
+      render: (submission: Submission) => (
+        <span className="text-slate-500 text-sm">
+          {format(new Date(submission.submittedAt), 'MMM d, yyyy h:mm a')}
+        </span>
+      ),
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-24 text-right',
+      render: (submission: Submission) => (
+        <Button variant="outline" size="sm" onClick={() => openReview(submission)}>
+          {submission.status === 'PENDING' ? 'Review' : 'View'}
+        </Button>
+      ),
+    },
+  ];
+
+  const submissions = data?.submissions || [];
+
+  const hasFilters = filters.status || filters.programId;
+
+  return (
+    <>
+      <AdminHeader
+        title="Assignments"
+        subtitle="Review and grade learner submissions"
+        onMenuClick={openSidebar}
+      />
+
+      <div className="flex-1 p-6 lg:p-8">
+        {/* Filters */}
+        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-4 mb-6">
+          <div className="flex flex-wrap items-center gap-3">
+            {/* Status Filter */}
+            <select
+              value={filters.status || ''}
+              onChange={(e) => handleStatusFilter(e.target.value)}
+              className="px-3 pr-8 py-2.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all cursor-pointer min-w-[140px] appearance-none bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%2216%22%20height%3D%2216%22%20viewBox%3D%220%200%2024%2024%22%20fill%3D%22none%22%20stroke%3D%22%2394a3b8%22%20stroke-width%3D%222%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22%3E%3Cpath%20d%3D%22m6%209%206%206%206-6%22%2F%3E%3C%2Fsvg%3E')] bg-[length:16px_16px] bg-[right_0.75rem_center] bg-no-repeat"
+            >
+              <option value="">All Statuses</option>
+              <option value="PENDING">Pending Review</option>
+              <option value="APPROVED">Approved</option>
+              <option value="REJECTED">Rejected</option>
+            </select>
+
+            {/* Program Filter */}
+            <select
+              value={filters.programId || ''}
+              onChange={(e) => handleProgramFilter(e.target.value)}
+              className="px-3 pr-8 py-2.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all cursor-pointer min-w-[160px] appearance-none bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%2216%22%20height%3D%2216%22%20viewBox%3D%220%200%2024%2024%22%20fill%3D%22none%22%20stroke%3D%22%2394a3b8%22%20stroke-width%3D%222%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22%3E%3Cpath%20d%3D%22m6%209%206%206%206-6%22%2F%3E%3C%2Fsvg%3E')] bg-[length:16px_16px] bg-[right_0.75rem_center] bg-no-repeat"
+            >
+              <option value="">All Programs</option>
+              {programs?.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+
+            {/* Clear Filters */}
+            {hasFilters && (
+              <button
+                onClick={clearFilters}
+                className="px-3 py-2.5 text-sm text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                Clear filters
+              </button>
+            )}
+
+            <p className="text-slate-500 text-sm ml-auto">
+              {data?.pagination.total ?? 0} submission{data?.pagination.total !== 1 ? 's' : ''}
+            </p>
+          </div>
+        </div>
+
+        {isError ? (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <div className="text-center py-16">
+              <p className="text-red-600 font-medium mb-1">Failed to load submissions</p>
+              <p className="text-sm text-slate-500">Please try refreshing the page.</p>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <PageLoading />
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <Table
+              columns={columns}
+              data={submissions}
+              rowKey={(submission) => submission.id}
+              onRowClick={openReview}
+              emptyState={{
+                title: filters.status === 'PENDING' ? 'Nothing to review' : 'No submissions found',
+                description: hasFilters
+                  ? 'Try adjusting your filters'
+                  : 'Submissions appear here when learners hand in assignments',
+                action: hasFilters
+                  ? { label: 'Clear Filters', onClick: clearFilters }
+                  : undefined,
+              }}
+            />
+          </div>
+        )}
+
+        {/* Pagination */}
+        {data?.pagination && data.pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between px-5 py-4 mt-4 bg-white rounded-xl border border-slate-200/80 shadow-soft">
+            <p className="text-sm text-slate-500">
+              Showing {((data.pagination.page - 1) * data.pagination.limit) + 1} to{' '}
+              {Math.min(data.pagination.page * data.pagination.limit, data.pagination.total)} of{' '}
+              {data.pagination.total} submissions
+            </p>
+            <Pagination
+              currentPage={data.pagination.page}
+              totalPages={data.pagination.totalPages}
+              onPageChange={(page) => setFilters(prev => ({ ...prev, page }))}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Review Modal */}
+      <Modal
+        isOpen={!!selected}
+        onClose={closeReview}
+        title="Review Submission"
+        size="lg"
+      >
+        {selected && (
+          <div className="space-y-5">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="font-medium text-slate-900">{selected.learner.name}</p>
+                <p className="text-sm text-slate-500">
+                  {selected.lesson.title} &middot; {selected.program.name}
+                </p>
+              </div>
+              <Badge variant={STATUS_VARIANTS[selected.status]} dot>
+                {formatStatus(selected.status)}
+              </Badge>
+            </div>
+
+            {selected.textAnswer && (
+              <div>
+                <p className="text-sm font-medium text-slate-700 mb-1.5">Answer</p>
+                <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 text-sm text-slate-700 whitespace-pre-wrap max-h-64 overflow-y-auto">
+                  {selected.textAnswer}
+                </div>
+              </div>
+            )}
+
+            {selected.fileUrl && (
+              <a
+                href={selected.fileUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors"
+              >
+                <FileText className="w-5 h-5 text-slate-400" />
+                <span className="flex-1 text-sm text-slate-700 truncate">{selected.fileName || 'Submitted file'}</span>
+                <Download className="w-4 h-4 text-slate-400" />
+              </a>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                Grade <span className="text-slate-400 font-normal">(optional)</span>
+              </label>
+              <input
+                type="text"
+                value={grade}
+                onChange={(e) => setGrade(e.target.value)}
+                placeholder="e.g. A, 8/10, Distinction"
+                maxLength={50}
+                className="input"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">Feedback</label>
+              <textarea
+                value={feedback}
+                onChange={(e) => setFeedback(e.target.value)}
+                placeholder="Share what went well and what to improve..."
+                rows={4}
+                className="input resize-none"
+              />
+              <p className="text-xs text-slate-500 mt-1">Required when requesting changes</p>
+            </div>
+          </div>
+        )}
+        <Modal.Footer>
+          <Button
+            variant="outline"
+            onClick={() => handleGrade('REJECTED')}
+            disabled={!feedback.trim() || gradeSubmission.isPending}
+            leftIcon={<XCircle className="w-4 h-4" />}
+          >
+            Request Changes
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => handleGrade('APPROVED')}
+            isLoading={gradeSubmission.isPending}
+            leftIcon={<CheckCircle className="w-4 h-4" />}
+          >
+            Approve
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+}
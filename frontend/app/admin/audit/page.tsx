@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+import { Search } from 'lucide-react';
+import { AdminHeader } from '@/components/admin';
+import AuditTimeline from '@/components/admin/AuditTimeline';
+import { useSidebar } from '@/lib/sidebar-context';
+import { useAuditLogFilters } from '@/hooks';
+import { AuditLogFilters } from '@/types/admin';
+import { formatAuditAction, formatAuditTargetType } from '@/lib/audit';
+
+const SELECT_CLASS = "px-3 pr-8 py-2.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all cursor-pointer min-w-[160px] appearance-none bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%2216%22%20height%3D%2216%22%20viewBox%3D%220%200%2024%2024%22%20fill%3D%22none%22%20stroke%3D%22%2394a3b8%22%20stroke-width%3D%222%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22%3E%3Cpath%20d%3D%22m6%209%206%206%206-6%22%2F%3E%3C%2Fsvg%3E')] bg-[length:16px_16px] bg-[right_0.75rem_center] bg-no-repeat";
+const DATE_INPUT_CLASS = 'px-3 py-2.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all';
+
+// Date inputs are whole days in the admin's timezone
+function toQueryFilters({ from, to, ...rest }: AuditLogFilters): AuditLogFilters {
+  return {
+    ...rest,
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+export default function AuditLogPage() {
+  const { openSidebar } = useSidebar();
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [targetIdInput, setTargetIdInput] = useState('');
+  const { data: options } = useAuditLogFilters();
+
+  const setFilter = (key: keyof AuditLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const handleTargetSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilter('targetId', targetIdInput.trim());
+  };
+
+  const clearFilters = () => {
+    setTargetIdInput('');
+    setFilters({});
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <>
+      <AdminHeader
+        title="Audit Log"
+        subtitle="Every change admins make, newest first"
+        onMenuClick={openSidebar}
+      />
+
+      <div className="flex-1 p-6 lg:p-8">
+        {/* Filters */}
+        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-4 mb-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={filters.adminId || ''}
+              onChange={(e) => setFilter('adminId', e.target.value)}
+              className={SELECT_CLASS}
+              aria-label="Admin"
+            >
+              <option value="">All Admins</option>
+              {options?.admins.map(admin => (
+                <option key={admin.id} value={admin.id}>{admin.email}</option>
+              ))}
+            </select>
+
+            <select
+              value={filters.action || ''}
+              onChange={(e) => setFilter('action', e.target.value)}
+              className={SELECT_CLASS}
+              aria-label="Action"
+            >
+              <option value="">All Actions</option>
+              {options?.actions.map(action => (
+                <option key={action} value={action}>{formatAuditAction(action)}</option>
+              ))}
+            </select>
+
+            <select
+              value={filters.targetType || ''}
+              onChange={(e) => setFilter('targetType', e.target.value)}
+              className={SELECT_CLASS}
+              aria-label="Target type"
+            >
+              <option value="">All Targets</option>
+              {options?.targetTypes.map(targetType => (
+                <option key={targetType} value={targetType}>{formatAuditTargetType(targetType)}</option>
+              ))}
+            </select>
+
+            <form onSubmit={handleTargetSearch} className="w-full sm:w-56">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input
+                  type="text"
+                  placeholder="Target ID..."
+                  value={targetIdInput}
+                  onChange={(e) => setTargetIdInput(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2.5 text-sm border border-slate-300 rounded-lg bg-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all"
+                />
+              </div>
+            </form>
+
+            <input
+              type="date"
+              value={filters.from || ''}
+              max={filters.to || undefined}
+              onChange={(e) => setFilter('from', e.target.value)}
+              className={DATE_INPUT_CLASS}
+              aria-label="From date"
+            />
+            <span className="text-sm text-slate-400">to</span>
+            <input
+              type="date"
+              value={filters.to || ''}
+              min={filters.from || undefined}
+              onChange={(e) => setFilter('to', e.target.value)}
+              className={DATE_INPUT_CLASS}
+              aria-label="To date"
+            />
+
+            {hasFilters && (
+              <button
+                onClick={clearFilters}
+                className="px-3 py-2.5 text-sm text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6">
+          <AuditTimeline
+            filters={toQueryFilters(filters)}
+            emptyMessage={hasFilters ? 'No entries match these filters' : 'No admin actions recorded yet'}
+          />
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,322 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Search, Pencil, Trash2 } from 'lucide-react';
+import { AdminHeader, CouponModal } from '@/components/admin';
+import { useSidebar } from '@/lib/sidebar-context';
+import { Button, Badge, Table, PageLoading, Pagination, Modal } from '@/components/ui';
+import { useCoupons, usePrograms, useDeleteCoupon } from '@/hooks';
+import { Coupon, CouponFilters } from '@/types/admin';
+import { format } from 'date-fns';
+
+const SELECT_CLASS = "px-3 pr-8 py-2.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all cursor-pointer min-w-[140px] appearance-none bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%2216%22%20height%3D%2216%22%20viewBox%3D%220%200%2024%2024%22%20fill%3D%22none%22%20stroke%3D%22%2394a3b8%22%20stroke-width%3D%222%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22%3E%3Cpath%20d%3D%22m6%209%206%206%206-6%22%2F%3E%3C%2Fsvg%3E')] bg-[length:16px_16px] bg-[right_0.75rem_center] bg-no-repeat";
+
+function formatDiscount(coupon: Coupon) {
+  return coupon.discountType === 'PERCENT'
+    ? `${coupon.discountValue}% off`
+    : `₹${coupon.discountValue.toLocaleString('en-IN')} off`;
+}
+
+function getCouponState(coupon: Coupon): { label: string; variant: 'success' | 'warning' | 'error' | 'neutral' } {
+  if (!coupon.isActive) return { label: 'Inactive', variant: 'neutral' };
+  if (coupon.expiresAt && new Date(coupon.expiresAt) <= new Date()) return { label: 'Expired', variant: 'error' };
+  if (coupon.maxUses != null && coupon.redemptions >= coupon.maxUses) return { label: 'Used Up', variant: 'warning' };
+  return { label: 'Active', variant: 'success' };
+}
+
+export default function CouponsPage() {
+  const { openSidebar } = useSidebar();
+  const [filters, setFilters] = useState<CouponFilters>({ page: 1, limit: 20 });
+  const [searchInput, setSearchInput] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [deletingCoupon, setDeletingCoupon] = useState<Coupon | null>(null);
+
+  const { data: programs } = usePrograms();
+  const { data, isLoading, isError } = useCoupons(filters);
+  const deleteCoupon = useDeleteCoupon();
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(prev => ({ ...prev, search: searchInput.trim() || undefined, page: 1 }));
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setFilters({ page: 1, limit: 20 });
+  };
+
+  const openEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingCoupon(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingCoupon) return;
+    try {
+      await deleteCoupon.mutateAsync(deletingCoupon.id);
+      setDeletingCoupon(null);
+    } catch {
+      // Error handled by mutation onError
+    }
+  };
+
+  const columns = [
+    {
+      key: 'code',
+      header: 'Code',
+      render: (coupon: Coupon) => (
+        <div>
+          <p className="font-mono font-medium text-slate-900">{coupon.code}</p>
+          {coupon.description && <p className="text-sm text-slate-500">{coupon.description}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'discount',
+      header: 'Discount',
+      render: (coupon: Coupon) => (
+        <div>
+          <p className="text-slate-900">{formatDiscount(coupon)}</p>
+          <p className="text-sm text-slate-500">{coupon.program?.name || 'All programs'}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'usage',
+      header: 'Redemptions',
+      render: (coupon: Coupon) => (
+        <div>
+          <p className="text-slate-900">
+            {coupon.redemptions}{coupon.maxUses != null ? ` / ${coupon.maxUses}` : ''}
+          </p>
+          <p className="text-sm text-slate-500">
+            {coupon.perUserLimit != null ? `${coupon.perUserLimit} per learner` : 'No per-learner limit'}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: 'revenue',
+      header: 'Revenue',
+      render: (coupon: Coupon) => (
+        <div>
+          <p className="text-slate-900">₹{coupon.revenue.toLocaleString('en-IN')}</p>
+          {coupon.discountGiven > 0 && (
+            <p className="text-sm text-slate-500">₹{coupon.discountGiven.toLocaleString('en-IN')} discounted</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (coupon: Coupon) => {
+        const state = getCouponState(coupon);
+        return (
+          <div>
+            <Badge variant={state.variant} dot>{state.label}</Badge>
+            {coupon.expiresAt && (
+              <p className="text-xs text-slate-500 mt-1">
+                Until {format(new Date(coupon.expiresAt), 'MMM d, yyyy')}
+              </p>
+            )}
+          </div>
+        );
+      },
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-24 text-right',
+      render: (coupon: Coupon) => (
+        <div className="flex items-center justify-end gap-1">
+          <button
+            onClick={(e) => { e.stopPropagation(); openEdit(coupon); }}
+            className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Edit"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); setDeletingCoupon(coupon); }}
+            className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            title="Delete"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ),
+    },
+  ];
+
+  const coupons = data?.coupons || [];
+
+  const hasFilters = filters.search || filters.status || filters.programId;
+
+  return (
+    <>
+      <AdminHeader
+        title="Coupons"
+        subtitle="Discount codes for launch offers and partners"
+        onMenuClick={openSidebar}
+      />
+
+      <div className="flex-1 p-6 lg:p-8">
+        {/* Header Actions */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <p className="text-slate-500 text-sm">
+            {data?.pagination.total ?? 0} coupon{data?.pagination.total !== 1 ? 's' : ''}
+          </p>
+          <Button
+            variant="primary"
+            leftIcon={<Plus className="w-4 h-4" />}
+            onClick={() => setShowModal(true)}
+          >
+            Create Coupon
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-4 mb-6">
+          <div className="flex flex-col lg:flex-row gap-3">
+            <form onSubmit={handleSearch} className="flex-1 min-w-0">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input
+                  type="text"
+                  placeholder="Search by code..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2.5 text-sm border border-slate-300 rounded-lg bg-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all"
+                />
+              </div>
+            </form>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={filters.status || ''}
+                onChange={(e) => setFilters(prev => ({ ...prev, status: (e.target.value as CouponFilters['status']) || undefined, page: 1 }))}
+                className={SELECT_CLASS}
+              >
+                <option value="">All Statuses</option>
+                <option value="active">Active</option>
+                <option value="inactive">Inactive or Expired</option>
+              </select>
+
+              <select
+                value={filters.programId || ''}
+                onChange={(e) => setFilters(prev => ({ ...prev, programId: e.target.value || undefined, page: 1 }))}
+                className={SELECT_CLASS}
+              >
+                <option value="">All Programs</option>
+                {programs?.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+
+              {hasFilters && (
+                <button
+                  onClick={clearFilters}
+                  className="px-3 py-2.5 text-sm text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {isError ? (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <div className="text-center py-16">
+              <p className="text-red-600 font-medium mb-1">Failed to load coupons</p>
+              <p className="text-sm text-slate-500">Please try refreshing the page.</p>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <PageLoading />
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <Table
+              columns={columns}
+              data={coupons}
+              rowKey={(coupon) => coupon.id}
+              onRowClick={openEdit}
+              emptyState={{
+                title: 'No coupons found',
+                description: hasFilters
+                  ? 'Try adjusting your filters'
+                  : 'Create a coupon to offer discounts at checkout',
+                action: hasFilters
+                  ? { label: 'Clear Filters', onClick: clearFilters }
+                  : { label: 'Create Coupon', onClick: () => setShowModal(true) },
+              }}
+            />
+          </div>
+        )}
+
+        {/* Pagination */}
+        {data?.pagination && data.pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between px-5 py-4 mt-4 bg-white rounded-xl border border-slate-200/80 shadow-soft">
+            <p className="text-sm text-slate-500">
+              Showing {((data.pagination.page - 1) * data.pagination.limit) + 1} to{' '}
+              {Math.min(data.pagination.page * data.pagination.limit, data.pagination.total)} of{' '}
+              {data.pagination.total} coupons
+            </p>
+            <Pagination
+              currentPage={data.pagination.page}
+              totalPages={data.pagination.totalPages}
+              onPageChange={(page) => setFilters(prev => ({ ...prev, page }))}
+            />
+          </div>
+        )}
+      </div>
+
+      <CouponModal
+        isOpen={showModal}
+        onClose={closeModal}
+        coupon={editingCoupon}
+      />
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={!!deletingCoupon}
+        onClose={() => setDeletingCoupon(null)}
+        title="Delete Coupon"
+        size="sm"
+      >
+        <div className="text-center py-2">
+          <div className="w-12 h-12 bg-red-50 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Trash2 className="w-6 h-6 text-red-600" />
+          </div>
+          <p className="text-slate-600 mb-2">
+            Are you sure you want to delete <strong className="text-slate-900">{deletingCoupon?.code}</strong>?
+          </p>
+          <p className="text-sm text-slate-500">
+            Past payments keep the code in their records. To stop new redemptions but keep the stats, deactivate it instead.
+          </p>
+        </div>
+        <Modal.Footer>
+          <Button variant="outline" onClick={() => setDeletingCoupon(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleDelete}
+            isLoading={deleteCoupon.isPending}
+          >
+            Delete Coupon
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+}
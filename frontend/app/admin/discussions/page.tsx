@@ -0,0 +1,351 @@
+'use client';
+
+import { useState } from 'react';
+import { Pin, Lock, Unlock, Eye, EyeOff, Trash2, Send } from 'lucide-react';
+import clsx from 'clsx';
+import { AdminHeader } from '@/components/admin';
+import { useSidebar } from '@/lib/sidebar-context';
+import { Button, Badge, Table, PageLoading, LoadingSpinner, Pagination, Modal } from '@/components/ui';
+import { usePrograms, useDiscussions, useDiscussion, useReplyToDiscussion, useModerateDiscussion, useDeleteDiscussionComment } from '@/hooks';
+import { DiscussionComment, DiscussionSummary, DiscussionFilters } from '@/types/admin';
+import { format, formatDistanceToNow } from 'date-fns';
+
+// One question or reply in the thread modal, with hide/delete controls
+function ModeratedComment({ comment, isReply }: { comment: DiscussionComment; isReply?: boolean }) {
+  const moderate = useModerateDiscussion();
+  const deleteComment = useDeleteDiscussionComment();
+
+  const handleDelete = () => {
+    const message = isReply ? 'Delete this reply?' : 'Delete this question and all of its replies?';
+    if (window.confirm(message)) {
+      deleteComment.mutate(comment.id);
+    }
+  };
+
+  return (
+    <div className={clsx('rounded-lg border p-4', comment.isHidden ? 'bg-slate-50 border-dashed border-slate-300' : 'border-slate-200', isReply && 'ml-6')}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium text-slate-900">{comment.author.name}</span>
+          {comment.author.isInstructor && <Badge variant="accent" size="sm">Instructor</Badge>}
+          {comment.isHidden && <Badge variant="neutral" size="sm">Hidden</Badge>}
+          <span className="text-slate-400">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+            {comment.editedAt && ' · edited'}
+          </span>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button
+            type="button"
+            onClick={() => moderate.mutate({ id: comment.id, data: { isHidden: !comment.isHidden } })}
+            className="p-1.5 text-slate-400 hover:text-slate-600 rounded"
+            title={comment.isHidden ? 'Show to learners' : 'Hide from learners'}
+          >
+            {comment.isHidden ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+          </button>
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="p-1.5 text-slate-400 hover:text-red-500 rounded"
+            title="Delete"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <p className={clsx('mt-2 text-sm whitespace-pre-wrap break-words', comment.isHidden ? 'text-slate-400' : 'text-slate-700')}>
+        {comment.body}
+      </p>
+    </div>
+  );
+}
+
+export default function DiscussionsPage() {
+  const { openSidebar } = useSidebar();
+  const [filters, setFilters] = useState<DiscussionFilters>({ page: 1, limit: 20, status: 'unanswered' });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+
+  const { data: programs } = usePrograms();
+  const { data, isLoading, isError } = useDiscussions(filters);
+  const { data: thread, isLoading: isThreadLoading } = useDiscussion(selectedId);
+  const replyToDiscussion = useReplyToDiscussion();
+  const moderate = useModerateDiscussion();
+
+  const handleStatusFilter = (status: string) => {
+    setFilters(prev => ({
+      ...prev,
+      status: status as DiscussionFilters['status'],
+      page: 1,
+    }));
+  };
+
+  const handleProgramFilter = (programId: string) => {
+    setFilters(prev => ({
+      ...prev,
+      programId: programId || undefined,
+      page: 1,
+    }));
+  };
+
+  const openThread = (question: DiscussionSummary) => {
+    setSelectedId(question.id);
+    setReply('');
+  };
+
+  const closeThread = () => {
+    setSelectedId(null);
+    setReply('');
+  };
+
+  const handleReply = async () => {
+    if (!selectedId || !reply.trim()) return;
+    try {
+      await replyToDiscussion.mutateAsync({ id: selectedId, body: reply.trim() });
+      setReply('');
+    } catch {
+      // Error handled by mutation onError
+    }
+  };
+
+  const clearFilters = () => {
+    setFilters({ page: 1, limit: 20, status: 'unanswered' });
+  };
+
+  const columns = [
+    {
+      key: 'question',
+      header: 'Question',
+      render: (question: DiscussionSummary) => (
+        <div className="max-w-md">
+          <p className="text-slate-900 line-clamp-2">{question.body}</p>
+          <p className="text-sm text-slate-500">{question.author.name}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'lesson',
+      header: 'Lesson',
+      render: (question: DiscussionSummary) => (
+        <div>
+          <p className="text-slate-900">{question.lesson.title}</p>
+          <p className="text-sm text-slate-500">{question.program.name}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (question: DiscussionSummary) => (
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant={question.isAnswered ? 'success' : 'warning'} dot>
+            {question.isAnswered ? 'Answered' : 'Unanswered'}
+          </Badge>
+          {question.isPinned && <Pin className="w-4 h-4 text-amber-500" />}
+          {question.isLocked && <Lock className="w-4 h-4 text-slate-400" />}
+          {question.isHidden && <EyeOff className="w-4 h-4 text-slate-400" />}
+          <span className="text-sm text-slate-500">
+            {question.replyCount} {question.replyCount === 1 ? 'reply' : 'replies'}
+          </span>
+        </div>
+      ),
+    },
+    {
+      key: 'createdAt',
+      header: 'Asked',
+      render: (question: DiscussionSummary) => (
+        <span className="text-slate-500 text-sm">
+          {format(new Date(question.createdAt), 'MMM d, yyyy h:mm a')}
+        </span>
+      ),
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-24 text-right',
+      render: (question: DiscussionSummary) => (
+        <Button variant="outline" size="sm" onClick={() => openThread(question)}>
+          {question.isAnswered ? 'View' : 'Answer'}
+        </Button>
+      ),
+    },
+  ];
+
+  const threads = data?.threads || [];
+
+  const hasFilters = filters.status !== 'unanswered' || filters.programId;
+
+  return (
+    <>
+      <AdminHeader
+        title="Discussions"
+        subtitle="Answer learner questions across all programs"
+        onMenuClick={openSidebar}
+      />
+
+      <div className="flex-1 p-6 lg:p-8">
+        {/* Filters */}
+        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-4 mb-6">
+          <div className="flex flex-wrap items-center gap-3">
+            {/* Status Filter */}
+            <select
+              value={filters.status || 'unanswered'}
+              onChange={(e) => handleStatusFilter(e.target.value)}
+              className="px-3 pr-8 py-2.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all cursor-pointer min-w-[140px] appearance-none bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%2216%22%20height%3D%2216%22%20viewBox%3D%220%200%2024%2024%22%20fill%3D%22none%22%20stroke%3D%22%2394a3b8%22%20stroke-width%3D%222%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22%3E%3Cpath%20d%3D%22m6%209%206%206%206-6%22%2F%3E%3C%2Fsvg%3E')] bg-[length:16px_16px] bg-[right_0.75rem_center] bg-no-repeat"
+            >
+              <option value="unanswered">Unanswered</option>
+              <option value="all">All Questions</option>
+            </select>
+
+            {/* Program Filter */}
+            <select
+              value={filters.programId || ''}
+              onChange={(e) => handleProgramFilter(e.target.value)}
+              className="px-3 pr-8 py-2.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all cursor-pointer min-w-[160px] appearance-none bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%2216%22%20height%3D%2216%22%20viewBox%3D%220%200%2024%2024%22%20fill%3D%22none%22%20stroke%3D%22%2394a3b8%22%20stroke-width%3D%222%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22%3E%3Cpath%20d%3D%22m6%209%206%206%206-6%22%2F%3E%3C%2Fsvg%3E')] bg-[length:16px_16px] bg-[right_0.75rem_center] bg-no-repeat"
+            >
+              <option value="">All Programs</option>
+              {programs?.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+
+            {/* Clear Filters */}
+            {hasFilters && (
+              <button
+                onClick={clearFilters}
+                className="px-3 py-2.5 text-sm text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                Clear filters
+              </button>
+            )}
+
+            <p className="text-slate-500 text-sm ml-auto">
+              {data?.pagination.total ?? 0} question{data?.pagination.total !== 1 ? 's' : ''}
+            </p>
+          </div>
+        </div>
+
+        {isError ? (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <div className="text-center py-16">
+              <p className="text-red-600 font-medium mb-1">Failed to load discussions</p>
+              <p className="text-sm text-slate-500">Please try refreshing the page.</p>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <PageLoading />
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <Table
+              columns={columns}
+              data={threads}
+              rowKey={(question) => question.id}
+              onRowClick={openThread}
+              emptyState={{
+                title: filters.status === 'unanswered' ? 'All caught up' : 'No questions found',
+                description: hasFilters
+                  ? 'Try adjusting your filters'
+                  : 'Questions appear here when learners ask them under a lesson',
+                action: hasFilters
+                  ? { label: 'Clear Filters', onClick: clearFilters }
+                  : undefined,
+              }}
+            />
+          </div>
+        )}
+
+        {/* Pagination */}
+        {data?.pagination && data.pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between px-5 py-4 mt-4 bg-white rounded-xl border border-slate-200/80 shadow-soft">
+            <p className="text-sm text-slate-500">
+              Showing {((data.pagination.page - 1) * data.pagination.limit) + 1} to{' '}
+              {Math.min(data.pagination.page * data.pagination.limit, data.pagination.total)} of{' '}
+              {data.pagination.total} questions
+            </p>
+            <Pagination
+              currentPage={data.pagination.page}
+              totalPages={data.pagination.totalPages}
+              onPageChange={(page) => setFilters(prev => ({ ...prev, page }))}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Thread Modal */}
+      <Modal
+        isOpen={!!selectedId}
+        onClose={closeThread}
+        title="Question"
+        size="lg"
+      >
+        {isThreadLoading || !thread ? (
+          <div className="py-10 flex justify-center">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-start justify-between gap-4">
+              <p className="text-sm text-slate-500">
+                {thread.lesson.title} &middot; {thread.program.name}
+              </p>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Button
+                  variant={thread.isPinned ? 'primary' : 'outline'}
+                  size="sm"
+                  leftIcon={<Pin className="w-4 h-4" />}
+                  onClick={() => moderate.mutate({ id: thread.id, data: { isPinned: !thread.isPinned } })}
+                >
+                  {thread.isPinned ? 'Pinned' : 'Pin'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={thread.isLocked ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                  onClick={() => moderate.mutate({ id: thread.id, data: { isLocked: !thread.isLocked } })}
+                >
+                  {thread.isLocked ? 'Unlock' : 'Lock'}
+                </Button>
+              </div>
+            </div>
+
+            <ModeratedComment comment={thread} />
+            {thread.replies.map(item => (
+              <ModeratedComment key={item.id} comment={item} isReply />
+            ))}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">Reply as instructor</label>
+              <textarea
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                placeholder="Write your answer..."
+                rows={4}
+                maxLength={5000}
+                className="input resize-none"
+              />
+              {thread.isLocked && (
+                <p className="text-xs text-slate-500 mt-1">This thread is locked; only instructors can reply</p>
+              )}
+            </div>
+          </div>
+        )}
+        <Modal.Footer>
+          <Button variant="outline" onClick={closeThread}>
+            Close
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleReply}
+            isLoading={replyToDiscussion.isPending}
+            disabled={!reply.trim() || !thread}
+            leftIcon={<Send className="w-4 h-4" />}
+          >
+            Post Reply
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+}
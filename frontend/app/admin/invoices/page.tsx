@@ -0,0 +1,255 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Search, Download, FileSpreadsheet } from 'lucide-react';
+import { AdminHeader } from '@/components/admin';
+import { useSidebar } from '@/lib/sidebar-context';
+import { Button, Badge, Table, PageLoading, Pagination } from '@/components/ui';
+import { useInvoices, useExportInvoices, useDownloadAdminInvoice } from '@/hooks';
+import { AdminInvoice, InvoiceFilters } from '@/types/admin';
+import { format } from 'date-fns';
+
+const DATE_INPUT_CLASS = 'px-3 py-2.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all';
+
+function formatAmount(value: number, currency: string) {
+  const symbol = currency === 'INR' ? '₹' : `${currency} `;
+  return `${symbol}${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Date inputs are whole days in the admin's timezone
+function toQueryFilters({ from, to, ...rest }: InvoiceFilters): InvoiceFilters {
+  return {
+    ...rest,
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+export default function InvoicesPage() {
+  const { openSidebar } = useSidebar();
+  const [filters, setFilters] = useState<InvoiceFilters>({ page: 1, limit: 20 });
+  const [searchInput, setSearchInput] = useState('');
+
+  const queryFilters = toQueryFilters(filters);
+  const { data, isLoading, isError } = useInvoices(queryFilters);
+  const exportInvoices = useExportInvoices();
+  const downloadInvoice = useDownloadAdminInvoice();
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(prev => ({ ...prev, search: searchInput.trim() || undefined, page: 1 }));
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setFilters({ page: 1, limit: 20 });
+  };
+
+  const handleExport = () => {
+    const { search, from, to } = queryFilters;
+    exportInvoices.mutate({ search, from, to });
+  };
+
+  const columns = [
+    {
+      key: 'invoiceNumber',
+      header: 'Invoice',
+      render: (invoice: AdminInvoice) => (
+        <div>
+          <p className="font-mono font-medium text-slate-900">{invoice.invoiceNumber}</p>
+          <p className="text-sm text-slate-500">{format(new Date(invoice.issuedAt), 'MMM d, yyyy')}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'learner',
+      header: 'Billed To',
+      render: (invoice: AdminInvoice) => (
+        <div>
+          {invoice.userId ? (
+            <Link
+              href={`/admin/learners/${invoice.userId}`}
+              className="font-medium text-slate-900 hover:text-primary-600"
+            >
+              {invoice.billingName}
+            </Link>
+          ) : (
+            <p className="font-medium text-slate-900">{invoice.billingName}</p>
+          )}
+          <p className="text-sm text-slate-500">{invoice.billingEmail}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'program',
+      header: 'Program',
+      render: (invoice: AdminInvoice) => (
+        <span className="text-slate-700">{invoice.programName}</span>
+      ),
+    },
+    {
+      key: 'tax',
+      header: 'Taxable / GST',
+      render: (invoice: AdminInvoice) => (
+        <div>
+          <p className="text-slate-900">{formatAmount(invoice.taxableAmount, invoice.currency)}</p>
+          <p className="text-sm text-slate-500">
+            +{formatAmount(invoice.cgstAmount + invoice.sgstAmount, invoice.currency)} GST @ {invoice.taxRate}%
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: 'total',
+      header: 'Total',
+      render: (invoice: AdminInvoice) => (
+        <div>
+          <p className="font-medium text-slate-900">{formatAmount(invoice.totalAmount, invoice.currency)}</p>
+          {invoice.paymentStatus === 'REFUNDED' && (
+            <Badge variant="warning" size="sm">Refunded</Badge>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-16 text-right',
+      render: (invoice: AdminInvoice) => (
+        <button
+          onClick={() => downloadInvoice.mutate(invoice)}
+          disabled={downloadInvoice.isPending}
+          className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+          title="Download PDF"
+        >
+          <Download className="w-4 h-4" />
+        </button>
+      ),
+    },
+  ];
+
+  const invoices = data?.invoices || [];
+
+  const hasFilters = filters.search || filters.from || filters.to;
+
+  return (
+    <>
+      <AdminHeader
+        title="Invoices"
+        subtitle="GST invoices issued for successful payments"
+        onMenuClick={openSidebar}
+      />
+
+      <div className="flex-1 p-6 lg:p-8">
+        {/* Header Actions */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <p className="text-slate-500 text-sm">
+            {data?.pagination.total ?? 0} invoice{data?.pagination.total !== 1 ? 's' : ''}
+          </p>
+          <Button
+            variant="outline"
+            leftIcon={<FileSpreadsheet className="w-4 h-4" />}
+            onClick={handleExport}
+            isLoading={exportInvoices.isPending}
+          >
+            Export CSV
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-4 mb-6">
+          <div className="flex flex-col lg:flex-row gap-3">
+            <form onSubmit={handleSearch} className="flex-1 min-w-0">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input
+                  type="text"
+                  placeholder="Search by invoice number, name or email..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2.5 text-sm border border-slate-300 rounded-lg bg-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all"
+                />
+              </div>
+            </form>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="date"
+                value={filters.from || ''}
+                max={filters.to || undefined}
+                onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value || undefined, page: 1 }))}
+                className={DATE_INPUT_CLASS}
+                aria-label="From date"
+              />
+              <span className="text-sm text-slate-400">to</span>
+              <input
+                type="date"
+                value={filters.to || ''}
+                min={filters.from || undefined}
+                onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value || undefined, page: 1 }))}
+                className={DATE_INPUT_CLASS}
+                aria-label="To date"
+              />
+
+              {hasFilters && (
+                <button
+                  onClick={clearFilters}
+                  className="px-3 py-2.5 text-sm text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {isError ? (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <div className="text-center py-16">
+              <p className="text-red-600 font-medium mb-1">Failed to load invoices</p>
+              <p className="text-sm text-slate-500">Please try refreshing the page.</p>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <PageLoading />
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+            <Table
+              columns={columns}
+              data={invoices}
+              rowKey={(invoice) => invoice.id}
+              emptyState={{
+                title: 'No invoices found',
+                description: hasFilters
+                  ? 'Try adjusting your filters'
+                  : 'Invoices are issued automatically when a payment succeeds',
+                action: hasFilters
+                  ? { label: 'Clear Filters', onClick: clearFilters }
+                  : undefined,
+              }}
+            />
+          </div>
+        )}
+
+        {/* Pagination */}
+        {data?.pagination && data.pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between px-5 py-4 mt-4 bg-white rounded-xl border border-slate-200/80 shadow-soft">
+            <p className="text-sm text-slate-500">
+              Showing {((data.pagination.page - 1) * data.pagination.limit) + 1} to{' '}
+              {Math.min(data.pagination.page * data.pagination.limit, data.pagination.total)} of{' '}
+              {data.pagination.total} invoices
+            </p>
+            <Pagination
+              currentPage={data.pagination.page}
+              totalPages={data.pagination.totalPages}
+              onPageChange={(page) => setFilters(prev => ({ ...prev, page }))}
+            />
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import { useAuthStore } from '@/lib/auth-store';
+import { isStaffRole, canViewAdminPage, getAdminHome } from '@/lib/permissions';
 import { AdminSidebar } from '@/components/admin';
 import { PageLoading } from '@/components/ui/LoadingSpinner';
 import { ErrorBoundary } from '@/components/ui';
@@ -40,8 +41,8 @@ export default function AdminLayout({
         return;
       }
 
-      // Check if user is admin
-      if (state.user?.role !== 'ADMIN') {
+      // Check if user is staff
+      if (!isStaffRole(state.user?.role)) {
         router.push('/');
         return;
       }
@@ -52,12 +53,20 @@ export default function AdminLayout({
     return () => clearTimeout(timer);
   }, [isHydrated, router]);
 
+  // Send staff away from pages their role can't use (e.g. instructors from the dashboard)
+  const canViewPage = canViewAdminPage(user?.role, pathname);
+  useEffect(() => {
+    if (!isChecking && !canViewPage) {
+      router.replace(getAdminHome(user?.role));
+    }
+  }, [isChecking, canViewPage, user?.role, router]);
+
   // Close sidebar on route change (mobile)
   useEffect(() => {
     setSidebarOpen(false);
   }, [pathname]);
 
-  if (isChecking) {
+  if (isChecking || !canViewPage) {
     return <PageLoading />;
   }
 
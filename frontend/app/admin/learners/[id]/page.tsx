@@ -18,11 +18,18 @@ import {
   Trash2,
   Monitor,
   LogOut,
+  ClipboardCheck,
+  CreditCard,
+  RotateCcw,
 } from 'lucide-react';
+import clsx from 'clsx';
 import { AdminHeader } from '@/components/admin';
+import AuditTimeline from '@/components/admin/AuditTimeline';
 import { useSidebar } from '@/lib/sidebar-context';
-import { Button, Badge, PageLoading, Modal, Select, getStatusVariant, formatStatus } from '@/components/ui';
-import { useLearner, usePrograms, useUpdateLearnerStatus, useResetLearnerPassword, useEnrollLearner, useUpdateLearner, useUnenrollLearner, useDeleteLearner, useLearnerSessions, useLogoutLearnerAllDevices } from '@/hooks';
+import { useCan } from '@/lib/permissions';
+import { Button, Badge, PageLoading, Modal, Select, Input, getStatusVariant, formatStatus } from '@/components/ui';
+import { useLearner, usePrograms, useUpdateLearnerStatus, useResetLearnerPassword, useEnrollLearner, useUpdateLearner, useUnenrollLearner, useDeleteLearner, useLearnerSessions, useLogoutLearnerAllDevices, useRefundPayment } from '@/hooks';
+import { LearnerPayment } from '@/types/admin';
 import { format } from 'date-fns';
 
 export default function LearnerDetailPage() {
@@ -33,10 +40,21 @@ export default function LearnerDetailPage() {
   const { openSidebar } = useSidebar();
   const [showEnrollModal, setShowEnrollModal] = useState(false);
   const [selectedProgramId, setSelectedProgramId] = useState('');
+  const [selectedCohortId, setSelectedCohortId] = useState('');
   const [isEditing, setIsEditing] = useState(false);
   const [editForm, setEditForm] = useState({ name: '', email: '', mobile: '', registrationNumber: '' });
   const [unenrollConfirm, setUnenrollConfirm] = useState<{ programId: string; programName: string } | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [refundingPayment, setRefundingPayment] = useState<LearnerPayment | null>(null);
+  const [refundForm, setRefundForm] = useState({ amount: '', reason: '', revokeAccess: true });
+  const [refundError, setRefundError] = useState('');
+  const [tab, setTab] = useState<'progress' | 'activity'>('progress');
+
+  const canEdit = useCan('learners:edit');
+  const canDelete = useCan('learners:delete');
+  const canResetPassword = useCan('learners:reset-password');
+  const canRefund = useCan('payments:refund');
+  const canViewAudit = useCan('audit:view');
 
   const { data, isLoading, refetch } = useLearner(learnerId);
   const { data: programs } = usePrograms();
@@ -48,6 +66,7 @@ export default function LearnerDetailPage() {
   const unenrollLearner = useUnenrollLearner();
   const deleteLearner = useDeleteLearner();
   const logoutAllDevices = useLogoutLearnerAllDevices();
+  const refundPayment = useRefundPayment();
 
   if (isLoading) {
     return (
@@ -76,7 +95,7 @@ export default function LearnerDetailPage() {
     );
   }
 
-  const { learner, programProgress, recentProgress } = data;
+  const { learner, programProgress, recentProgress, quizAttempts, payments } = data;
 
   const handleStatusChange = async (newStatus: 'ACTIVE' | 'INACTIVE') => {
     await updateStatus.mutateAsync({ id: learner.id, status: newStatus });
@@ -89,9 +108,14 @@ export default function LearnerDetailPage() {
 
   const handleEnroll = async () => {
     if (!selectedProgramId) return;
-    await enrollLearner.mutateAsync({ learnerId: learner.id, programId: selectedProgramId });
+    await enrollLearner.mutateAsync({
+      learnerId: learner.id,
+      programId: selectedProgramId,
+      cohortId: selectedCohortId || undefined,
+    });
     setShowEnrollModal(false);
     setSelectedProgramId('');
+    setSelectedCohortId('');
     refetch();
   };
 
@@ -125,11 +149,45 @@ export default function LearnerDetailPage() {
     refetch();
   };
 
+  const getRefundable = (payment: LearnerPayment) =>
+    Math.round((payment.amount - payment.refundedAmount) * 100) / 100;
+
+  const openRefund = (payment: LearnerPayment) => {
+    setRefundingPayment(payment);
+    setRefundForm({ amount: String(getRefundable(payment)), reason: '', revokeAccess: payment.enrollmentType === 'PAID' });
+    setRefundError('');
+  };
+
+  const handleRefund = async () => {
+    if (!refundingPayment) return;
+    const amount = parseFloat(refundForm.amount);
+    const refundable = getRefundable(refundingPayment);
+    if (!amount || amount <= 0 || amount > refundable) {
+      setRefundError(`Enter an amount between 0 and ₹${refundable.toLocaleString('en-IN')}`);
+      return;
+    }
+    try {
+      await refundPayment.mutateAsync({
+        learnerId: learner.id,
+        paymentId: refundingPayment.id,
+        data: {
+          amount,
+          reason: refundForm.reason.trim() || undefined,
+          revokeAccess: refundForm.revokeAccess,
+        },
+      });
+      setRefundingPayment(null);
+    } catch {
+      // Error handled by mutation onError
+    }
+  };
+
   // Get available programs (not already enrolled)
   const enrolledProgramIds = programProgress?.map(p => p.programId) || [];
   const availablePrograms = programs?.filter(
     p => p.isPublished && !enrolledProgramIds.includes(p.id)
   ) || [];
+  const selectedCohorts = availablePrograms.find(p => p.id === selectedProgramId)?.cohorts || [];
 
   return (
     <>
@@ -152,7 +210,7 @@ export default function LearnerDetailPage() {
               {/* Header with Edit Button */}
               <div className="flex items-center justify-between mb-4">
                 <h3 className="font-semibold text-slate-900">Profile</h3>
-                {!isEditing && (
+                {canEdit && !isEditing && (
                   <button
                     onClick={handleStartEdit}
                     className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
@@ -266,17 +324,19 @@ export default function LearnerDetailPage() {
 
                   {/* Actions */}
                   <div className="space-y-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="w-full"
-                      leftIcon={<Key className="w-4 h-4" />}
-                      onClick={handleResetPassword}
-                      isLoading={resetPassword.isPending}
-                    >
-                      Send Password Reset
-                    </Button>
-                    {learner.status === 'ACTIVE' ? (
+                    {canResetPassword && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        leftIcon={<Key className="w-4 h-4" />}
+                        onClick={handleResetPassword}
+                        isLoading={resetPassword.isPending}
+                      >
+                        Send Password Reset
+                      </Button>
+                    )}
+                    {canEdit && (learner.status === 'ACTIVE' ? (
                       <Button
                         variant="outline"
                         size="sm"
@@ -298,7 +358,7 @@ export default function LearnerDetailPage() {
                       >
                         Activate Account
                       </Button>
-                    )}
+                    ))}
                   </div>
 
                   {/* Active Sessions */}
@@ -312,7 +372,7 @@ export default function LearnerDetailPage() {
                         {sessions?.length || 0} device{(sessions?.length || 0) !== 1 ? 's' : ''}
                       </Badge>
                     </div>
-                    {sessions && sessions.length > 0 && (
+                    {canResetPassword && sessions && sessions.length > 0 && (
                       <Button
                         variant="outline"
                         size="sm"
@@ -330,17 +390,19 @@ export default function LearnerDetailPage() {
                   </div>
 
                   {/* Delete */}
-                  <div className="pt-4 mt-4 border-t border-slate-100">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="w-full text-red-600 border-red-200 hover:bg-red-50"
-                      leftIcon={<Trash2 className="w-4 h-4" />}
-                      onClick={() => setShowDeleteConfirm(true)}
-                    >
-                      Delete Learner
-                    </Button>
-                  </div>
+                  {canDelete && (
+                    <div className="pt-4 mt-4 border-t border-slate-100">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full text-red-600 border-red-200 hover:bg-red-50"
+                        leftIcon={<Trash2 className="w-4 h-4" />}
+                        onClick={() => setShowDeleteConfirm(true)}
+                      >
+                        Delete Learner
+                      </Button>
+                    </div>
+                  )}
                 </>
               )}
             </div>
@@ -348,101 +410,231 @@ export default function LearnerDetailPage() {
 
           {/* Progress Section */}
           <div className="lg:col-span-2 space-y-6">
-            {/* Program Progress */}
-            <div className="card">
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold text-slate-900">Program Progress</h3>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  leftIcon={<Plus className="w-4 h-4" />}
-                  onClick={() => setShowEnrollModal(true)}
-                  disabled={availablePrograms.length === 0}
-                  title={availablePrograms.length === 0 ? 'No more programs available' : 'Add to a program'}
-                >
-                  Add Program
-                </Button>
+            {/* Tabs */}
+            {canViewAudit && (
+              <div className="flex items-center gap-1 p-1 bg-slate-100 rounded-lg w-fit">
+                {([['progress', 'Progress'], ['activity', 'Activity']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setTab(value)}
+                    className={clsx(
+                      'px-3 py-1.5 text-sm font-medium rounded-md transition-colors',
+                      tab === value ? 'bg-white text-primary-900 shadow-sm' : 'text-slate-600 hover:text-primary-900'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
               </div>
+            )}
 
-              {programProgress && programProgress.length > 0 ? (
-                <div className="space-y-4">
-                  {programProgress.map((progress) => (
-                    <div key={progress.programId} className="border border-slate-200 rounded-lg p-4 group">
-                      <div className="flex items-center justify-between mb-2">
-                        <div className="flex items-center gap-2">
-                          <BookOpen className="w-4 h-4 text-accent-500" />
-                          <span className="font-medium text-slate-900">{progress.programName}</span>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          <span className="text-sm font-medium text-accent-600">
-                            {progress.percentage}%
-                          </span>
-                          <button
-                            onClick={() => setUnenrollConfirm({ programId: progress.programId, programName: progress.programName })}
-                            className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors opacity-0 group-hover:opacity-100"
-                            title="Remove from program"
-                          >
-                            <X className="w-4 h-4" />
-                          </button>
+            {tab === 'activity' ? (
+              <div className="card">
+                <h3 className="text-lg font-semibold text-slate-900 mb-1">Activity</h3>
+                <p className="text-sm text-slate-500 mb-5">
+                  Admin changes to this learner, their enrollments, payments and submissions
+                </p>
+                <AuditTimeline filters={{ targetType: 'User', targetId: learnerId, related: true }} />
+              </div>
+            ) : (
+              <>
+                {/* Program Progress */}
+                <div className="card">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-slate-900">Program Progress</h3>
+                    {canEdit && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        leftIcon={<Plus className="w-4 h-4" />}
+                        onClick={() => setShowEnrollModal(true)}
+                        disabled={availablePrograms.length === 0}
+                        title={availablePrograms.length === 0 ? 'No more programs available' : 'Add to a program'}
+                      >
+                        Add Program
+                      </Button>
+                    )}
+                  </div>
+
+                  {programProgress && programProgress.length > 0 ? (
+                    <div className="space-y-4">
+                      {programProgress.map((progress) => (
+                        <div key={progress.programId} className="border border-slate-200 rounded-lg p-4 group">
+                          <div className="flex items-center justify-between mb-2">
+                            <div className="flex items-center gap-2">
+                              <BookOpen className="w-4 h-4 text-accent-500" />
+                              <span className="font-medium text-slate-900">{progress.programName}</span>
+                              {progress.cohort && (
+                                <Badge variant="neutral" size="sm">{progress.cohort.name}</Badge>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <span className="text-sm font-medium text-accent-600">
+                                {progress.percentage}%
+                              </span>
+                              {canEdit && (
+                                <button
+                                  onClick={() => setUnenrollConfirm({ programId: progress.programId, programName: progress.programName })}
+                                  className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors opacity-0 group-hover:opacity-100"
+                                  title="Remove from program"
+                                >
+                                  <X className="w-4 h-4" />
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                          <div className="w-full bg-slate-100 rounded-full h-2">
+                            <div
+                              className="bg-accent-500 h-2 rounded-full transition-all duration-300"
+                              style={{ width: `${progress.percentage}%` }}
+                            />
+                          </div>
+                          <p className="text-sm text-slate-500 mt-2">
+                            {progress.completedLessons} of {progress.totalLessons} lessons completed
+                          </p>
                         </div>
-                      </div>
-                      <div className="w-full bg-slate-100 rounded-full h-2">
-                        <div
-                          className="bg-accent-500 h-2 rounded-full transition-all duration-300"
-                          style={{ width: `${progress.percentage}%` }}
-                        />
-                      </div>
-                      <p className="text-sm text-slate-500 mt-2">
-                        {progress.completedLessons} of {progress.totalLessons} lessons completed
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-slate-500">
+                      <BookOpen className="w-12 h-12 mx-auto mb-2 text-slate-300" />
+                      <p>Not enrolled in any programs</p>
+                      <p className="text-sm text-slate-400 mt-1">
+                        {availablePrograms.length > 0
+                          ? 'Click "Add Program" above to enroll this learner'
+                          : 'No published programs available'}
                       </p>
                     </div>
-                  ))}
+                  )}
                 </div>
-              ) : (
-                <div className="text-center py-8 text-slate-500">
-                  <BookOpen className="w-12 h-12 mx-auto mb-2 text-slate-300" />
-                  <p>Not enrolled in any programs</p>
-                  <p className="text-sm text-slate-400 mt-1">
-                    {availablePrograms.length > 0
-                      ? 'Click "Add Program" above to enroll this learner'
-                      : 'No published programs available'}
-                  </p>
+
+                {/* Recent Activity */}
+                <div className="card">
+                  <h3 className="text-lg font-semibold text-slate-900 mb-4">Recent Activity</h3>
+
+                  {recentProgress && recentProgress.length > 0 ? (
+                    <div className="space-y-3">
+                      {recentProgress.map((activity, index) => (
+                        <div
+                          key={index}
+                          className="flex items-center justify-between py-2 border-b border-slate-100 last:border-0"
+                        >
+                          <div>
+                            <p className="font-medium text-slate-900">{activity.lessonTitle}</p>
+                            <p className="text-sm text-slate-500">
+                              {format(new Date(activity.lastAccessed), 'MMM d, yyyy h:mm a')}
+                            </p>
+                          </div>
+                          <Badge
+                            variant={activity.status === 'COMPLETED' ? 'success' : 'warning'}
+                            size="sm"
+                          >
+                            {activity.status === 'COMPLETED' ? 'Completed' : 'In Progress'}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-slate-500">
+                      <p>No activity yet</p>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
 
-            {/* Recent Activity */}
-            <div className="card">
-              <h3 className="text-lg font-semibold text-slate-900 mb-4">Recent Activity</h3>
-
-              {recentProgress && recentProgress.length > 0 ? (
-                <div className="space-y-3">
-                  {recentProgress.map((activity, index) => (
-                    <div
-                      key={index}
-                      className="flex items-center justify-between py-2 border-b border-slate-100 last:border-0"
-                    >
-                      <div>
-                        <p className="font-medium text-slate-900">{activity.lessonTitle}</p>
-                        <p className="text-sm text-slate-500">
-                          {format(new Date(activity.lastAccessed), 'MMM d, yyyy h:mm a')}
-                        </p>
-                      </div>
-                      <Badge
-                        variant={activity.status === 'COMPLETED' ? 'success' : 'warning'}
-                        size="sm"
-                      >
-                        {activity.status === 'COMPLETED' ? 'Completed' : 'In Progress'}
-                      </Badge>
+                {/* Payments */}
+                <div className="card">
+                  <h3 className="text-lg font-semibold text-slate-900 mb-4">Payments</h3>
+
+                  {payments && payments.length > 0 ? (
+                    <div className="space-y-3">
+                      {payments.map((payment) => (
+                        <div
+                          key={payment.id}
+                          className="flex items-center justify-between py-2 border-b border-slate-100 last:border-0"
+                        >
+                          <div>
+                            <p className="font-medium text-slate-900">{payment.programName}</p>
+                            <p className="text-sm text-slate-500">
+                              {format(new Date(payment.createdAt), 'MMM d, yyyy h:mm a')}
+                              {payment.couponCode && <> &middot; Coupon <span className="font-mono">{payment.couponCode}</span></>}
+                              {payment.installment && <> &middot; Installment {payment.installment.sequence} of {payment.installment.count}</>}
+                            </p>
+                            {payment.refundedAmount > 0 && payment.refundedAt && (
+                              <p className="text-sm text-slate-500">
+                                ₹{payment.refundedAmount.toLocaleString('en-IN')} refunded on {format(new Date(payment.refundedAt), 'MMM d, yyyy')}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className="text-sm font-medium text-slate-700">
+                              ₹{payment.amount.toLocaleString('en-IN')}
+                            </span>
+                            <Badge variant={payment.status === 'REFUNDED' ? 'warning' : 'success'} size="sm">
+                              {payment.status === 'REFUNDED' && getRefundable(payment) > 0 ? 'Partially Refunded' : formatStatus(payment.status)}
+                            </Badge>
+                            {canRefund && getRefundable(payment) > 0 && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                leftIcon={<RotateCcw className="w-3.5 h-3.5" />}
+                                onClick={() => openRefund(payment)}
+                              >
+                                Refund
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                  ))}
+                  ) : (
+                    <div className="text-center py-8 text-slate-500">
+                      <CreditCard className="w-12 h-12 mx-auto mb-2 text-slate-300" />
+                      <p>No payments yet</p>
+                    </div>
+                  )}
                 </div>
-              ) : (
-                <div className="text-center py-8 text-slate-500">
-                  <p>No activity yet</p>
+
+                {/* Quiz Attempts */}
+                <div className="card">
+                  <h3 className="text-lg font-semibold text-slate-900 mb-4">Quiz Attempts</h3>
+
+                  {quizAttempts && quizAttempts.length > 0 ? (
+                    <div className="space-y-3">
+                      {quizAttempts.map((attempt) => (
+                        <div
+                          key={attempt.id}
+                          className="flex items-center justify-between py-2 border-b border-slate-100 last:border-0"
+                        >
+                          <div>
+                            <p className="font-medium text-slate-900">{attempt.lessonTitle}</p>
+                            <p className="text-sm text-slate-500">
+                              {attempt.programName} &middot; {format(new Date(attempt.createdAt), 'MMM d, yyyy h:mm a')}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className="text-sm font-medium text-slate-700">
+                              {attempt.score}%
+                              <span className="text-slate-400 font-normal ml-1">
+                                ({attempt.earnedPoints}/{attempt.totalPoints})
+                              </span>
+                            </span>
+                            <Badge variant={attempt.passed ? 'success' : 'error'} size="sm">
+                              {attempt.passed ? 'Passed' : 'Failed'}
+                            </Badge>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-slate-500">
+                      <ClipboardCheck className="w-12 h-12 mx-auto mb-2 text-slate-300" />
+                      <p>No quiz attempts yet</p>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -461,8 +653,21 @@ export default function LearnerDetailPage() {
             ...availablePrograms.map(p => ({ value: p.id, label: p.name })),
           ]}
           value={selectedProgramId}
-          onChange={(e) => setSelectedProgramId(e.target.value)}
+          onChange={(e) => { setSelectedProgramId(e.target.value); setSelectedCohortId(''); }}
         />
+        {!!selectedCohorts.length && (
+          <div className="mt-4">
+            <Select
+              label="Cohort"
+              options={[
+                { value: '', label: 'No cohort' },
+                ...selectedCohorts.map(c => ({ value: c.id, label: c.name })),
+              ]}
+              value={selectedCohortId}
+              onChange={(e) => setSelectedCohortId(e.target.value)}
+            />
+          </div>
+        )}
         <Modal.Footer>
           <Button variant="outline" onClick={() => setShowEnrollModal(false)}>
             Cancel
@@ -511,6 +716,73 @@ export default function LearnerDetailPage() {
         </Modal.Footer>
       </Modal>
 
+      {/* Refund Modal */}
+      <Modal
+        isOpen={!!refundingPayment}
+        onClose={() => setRefundingPayment(null)}
+        title="Refund Payment"
+        size="sm"
+      >
+        {refundingPayment && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              <strong>{refundingPayment.programName}</strong> &middot; paid ₹{refundingPayment.amount.toLocaleString('en-IN')}
+              {refundingPayment.refundedAmount > 0 && (
+                <>, ₹{refundingPayment.refundedAmount.toLocaleString('en-IN')} already refunded</>
+              )}
+            </p>
+            <Input
+              label="Refund Amount (₹)"
+              type="number"
+              value={refundForm.amount}
+              onChange={(e) => { setRefundForm({ ...refundForm, amount: e.target.value }); setRefundError(''); }}
+              error={refundError}
+              helperText={`Up to ₹${getRefundable(refundingPayment).toLocaleString('en-IN')}. Enter less for a partial refund.`}
+              min="0"
+              max={String(getRefundable(refundingPayment))}
+              step="0.01"
+            />
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Reason</label>
+              <textarea
+                value={refundForm.reason}
+                onChange={(e) => setRefundForm({ ...refundForm, reason: e.target.value })}
+                className="input resize-none"
+                rows={3}
+                maxLength={500}
+                placeholder="Optional, recorded in the audit log"
+              />
+            </div>
+            {refundingPayment.enrollmentType === 'PAID' && (
+              <label className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 cursor-pointer hover:bg-slate-50 transition-colors">
+                <input
+                  type="checkbox"
+                  checked={refundForm.revokeAccess}
+                  onChange={(e) => setRefundForm({ ...refundForm, revokeAccess: e.target.checked })}
+                  className="w-4 h-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                />
+                <div>
+                  <span className="text-sm font-medium text-slate-700">Revoke full access</span>
+                  <p className="text-xs text-slate-500">Downgrade the enrollment to free; progress is kept</p>
+                </div>
+              </label>
+            )}
+          </div>
+        )}
+        <Modal.Footer>
+          <Button variant="outline" onClick={() => setRefundingPayment(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleRefund}
+            isLoading={refundPayment.isPending}
+          >
+            Refund
+          </Button>
+        </Modal.Footer>
+      </Modal>
+
       {/* Delete Learner Confirmation Modal */}
       <Modal
         isOpen={showDeleteConfirm}
@@ -2,10 +2,13 @@
 
 import { useState, useEffect } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { Plus, Search, Eye, Mail, UserCheck, UserX, Trash2 } from 'lucide-react';
+import { Plus, Search, Eye, Mail, UserCheck, UserX, Trash2, Upload, Download } from 'lucide-react';
 import { AdminHeader } from '@/components/admin';
 import { useSidebar } from '@/lib/sidebar-context';
+import { useCan } from '@/lib/permissions';
 import LearnerModal from '@/components/admin/LearnerModal';
+import LearnerImportModal from '@/components/admin/LearnerImportModal';
+import LearnerExportModal from '@/components/admin/LearnerExportModal';
 import { Button, Badge, Table, PageLoading, Pagination, Modal, getStatusVariant, formatStatus, DropdownMenu, DropdownItem, DropdownDivider } from '@/components/ui';
 import { useLearners, usePrograms, useUpdateLearnerStatus, useResetLearnerPassword, useDeleteLearner } from '@/hooks';
 import { Learner, LearnerFilters, UserStatus } from '@/types/admin';
@@ -15,14 +18,19 @@ export default function LearnersPage() {
   const { openSidebar } = useSidebar();
   const searchParams = useSearchParams();
   const router = useRouter();
+  const canEdit = useCan('learners:edit');
+  const canDelete = useCan('learners:delete');
+  const canResetPassword = useCan('learners:reset-password');
   const [showModal, setShowModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
 
   useEffect(() => {
     if (searchParams.get('action') === 'create') {
-      setShowModal(true);
+      if (canEdit) setShowModal(true);
       router.replace('/admin/learners', { scroll: false });
     }
-  }, [searchParams, router]);
+  }, [searchParams, router, canEdit]);
   const [deleteConfirm, setDeleteConfirm] = useState<Learner | null>(null);
   const [filters, setFilters] = useState<LearnerFilters>(() => ({
     page: 1,
@@ -164,27 +172,37 @@ export default function LearnersPage() {
             <Eye className="w-4 h-4 text-slate-400" />
             View Details
           </DropdownItem>
-          <DropdownItem onClick={() => handleResetPassword(learner)}>
-            <Mail className="w-4 h-4 text-slate-400" />
-            Reset Password
-          </DropdownItem>
-          <DropdownDivider />
-          {learner.status === 'ACTIVE' ? (
-            <DropdownItem variant="danger" onClick={() => handleStatusChange(learner, 'INACTIVE')}>
-              <UserX className="w-4 h-4" />
-              Deactivate
-            </DropdownItem>
-          ) : (
-            <DropdownItem onClick={() => handleStatusChange(learner, 'ACTIVE')} className="text-emerald-600 hover:bg-emerald-50">
-              <UserCheck className="w-4 h-4" />
-              Activate
+          {canResetPassword && (
+            <DropdownItem onClick={() => handleResetPassword(learner)}>
+              <Mail className="w-4 h-4 text-slate-400" />
+              Reset Password
             </DropdownItem>
           )}
-          <DropdownDivider />
-          <DropdownItem variant="danger" onClick={() => setDeleteConfirm(learner)}>
-            <Trash2 className="w-4 h-4" />
-            Delete
-          </DropdownItem>
+          {canEdit && (
+            <>
+              <DropdownDivider />
+              {learner.status === 'ACTIVE' ? (
+                <DropdownItem variant="danger" onClick={() => handleStatusChange(learner, 'INACTIVE')}>
+                  <UserX className="w-4 h-4" />
+                  Deactivate
+                </DropdownItem>
+              ) : (
+                <DropdownItem onClick={() => handleStatusChange(learner, 'ACTIVE')} className="text-emerald-600 hover:bg-emerald-50">
+                  <UserCheck className="w-4 h-4" />
+                  Activate
+                </DropdownItem>
+              )}
+            </>
+          )}
+          {canDelete && (
+            <>
+              <DropdownDivider />
+              <DropdownItem variant="danger" onClick={() => setDeleteConfirm(learner)}>
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </DropdownItem>
+            </>
+          )}
         </DropdownMenu>
       ),
     },
@@ -210,13 +228,33 @@ export default function LearnersPage() {
               {allLearners.length} learner{allLearners.length !== 1 ? 's' : ''}
             </p>
           </div>
-          <Button
-            variant="primary"
-            leftIcon={<Plus className="w-4 h-4" />}
-            onClick={() => setShowModal(true)}
-          >
-            Add Learner
-          </Button>
+          <div className="flex items-center gap-3">
+            <Button
+              variant="outline"
+              leftIcon={<Download className="w-4 h-4" />}
+              onClick={() => setShowExportModal(true)}
+            >
+              Export
+            </Button>
+            {canEdit && (
+              <>
+                <Button
+                  variant="outline"
+                  leftIcon={<Upload className="w-4 h-4" />}
+                  onClick={() => setShowImportModal(true)}
+                >
+                  Import
+                </Button>
+                <Button
+                  variant="primary"
+                  leftIcon={<Plus className="w-4 h-4" />}
+                  onClick={() => setShowModal(true)}
+                >
+                  Add Learner
+                </Button>
+              </>
+            )}
+          </div>
         </div>
 
         {/* Filters */}
@@ -299,10 +337,10 @@ export default function LearnersPage() {
                 title: 'No learners found',
                 description: hasFilters
                   ? 'Try adjusting your filters'
-                  : 'Add your first learner to get started',
+                  : canEdit ? 'Add your first learner to get started' : 'Learners will appear here once they sign up',
                 action: hasFilters
                   ? { label: 'Clear Filters', onClick: clearFilters }
-                  : { label: 'Add Learner', onClick: () => setShowModal(true) },
+                  : canEdit ? { label: 'Add Learner', onClick: () => setShowModal(true) } : undefined,
               }}
             />
           </div>
@@ -331,6 +369,19 @@ export default function LearnersPage() {
         onClose={() => setShowModal(false)}
       />
 
+      {/* Bulk Import Modal */}
+      <LearnerImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+      />
+
+      {/* Export Modal */}
+      <LearnerExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        filters={{ search: filters.search, status: filters.status, programId: filters.programId }}
+      />
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={!!deleteConfirm}
@@ -1,17 +1,19 @@
 'use client';
 
+import { useState } from 'react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import { BookOpen, Users, Calendar, Clock, Video, ArrowRight, Plus, UserPlus, Zap, IndianRupee } from 'lucide-react';
 import { AdminHeader, StatsCard, ProgramPerformance, RecentActivity } from '@/components/admin';
-import { Button } from '@/components/ui';
+import { Button, Select } from '@/components/ui';
 
 // Lazy load chart components (recharts is ~60KB gzipped)
 const EnrollmentChart = dynamic(() => import('@/components/admin/EnrollmentChart'), { ssr: false });
 const DailyActiveUsersChart = dynamic(() => import('@/components/admin/DailyActiveUsersChart'), { ssr: false });
 const RevenueChart = dynamic(() => import('@/components/admin/RevenueChart'), { ssr: false });
-import { useDashboardAnalytics, useTodaySessions } from '@/hooks';
+import { useDashboardAnalytics, useTodaySessions, usePrograms } from '@/hooks';
 import { useAuthStore } from '@/lib/auth-store';
+import { hasPermission } from '@/lib/permissions';
 import { useSidebar } from '@/lib/sidebar-context';
 import { format } from 'date-fns';
 
@@ -98,9 +100,16 @@ function DashboardSkeleton() {
 export default function AdminDashboard() {
   const { openSidebar } = useSidebar();
   const user = useAuthStore((state) => state.user);
+  const canViewSessions = hasPermission(user?.role, 'sessions:view');
 
-  const { data: analytics, isLoading: analyticsLoading } = useDashboardAnalytics();
-  const { data: todaySessions, isLoading: sessionsLoading } = useTodaySessions();
+  const [cohortId, setCohortId] = useState('');
+  const { data: analytics, isLoading: analyticsLoading } = useDashboardAnalytics(cohortId || undefined);
+  const { data: todaySessions, isLoading: sessionsLoading } = useTodaySessions({ enabled: canViewSessions });
+  const { data: programs } = usePrograms();
+
+  const cohortOptions = (programs || []).flatMap((program) =>
+    program.cohorts.map((cohort) => ({ value: cohort.id, label: `${program.name} · ${cohort.name}` }))
+  );
 
   const isLoading = analyticsLoading || sessionsLoading;
   const firstName = user?.name?.split(' ')[0] || 'Admin';
@@ -128,21 +137,37 @@ export default function AdminDashboard() {
       <div className="flex-1 p-6 lg:p-8">
         {/* Quick Actions */}
         <div className="flex flex-wrap gap-3 mb-6">
-          <Link href="/admin/programs?action=create">
-            <Button variant="outline" size="sm" leftIcon={<Plus className="w-4 h-4" />}>
-              Create Program
-            </Button>
-          </Link>
-          <Link href="/admin/learners?action=create">
-            <Button variant="outline" size="sm" leftIcon={<UserPlus className="w-4 h-4" />}>
-              Add Learner
-            </Button>
-          </Link>
-          <Link href="/admin/sessions?action=create">
-            <Button variant="outline" size="sm" leftIcon={<Calendar className="w-4 h-4" />}>
-              Schedule Session
-            </Button>
-          </Link>
+          {hasPermission(user?.role, 'programs:manage') && (
+            <Link href="/admin/programs?action=create">
+              <Button variant="outline" size="sm" leftIcon={<Plus className="w-4 h-4" />}>
+                Create Program
+              </Button>
+            </Link>
+          )}
+          {hasPermission(user?.role, 'learners:edit') && (
+            <Link href="/admin/learners?action=create">
+              <Button variant="outline" size="sm" leftIcon={<UserPlus className="w-4 h-4" />}>
+                Add Learner
+              </Button>
+            </Link>
+          )}
+          {hasPermission(user?.role, 'sessions:edit') && (
+            <Link href="/admin/sessions?action=create">
+              <Button variant="outline" size="sm" leftIcon={<Calendar className="w-4 h-4" />}>
+                Schedule Session
+              </Button>
+            </Link>
+          )}
+          {cohortOptions.length > 0 && (
+            <div className="w-full sm:w-64 sm:ml-auto">
+              <Select
+                aria-label="Cohort"
+                value={cohortId}
+                onChange={(e) => setCohortId(e.target.value)}
+                options={[{ value: '', label: 'All learners' }, ...cohortOptions]}
+              />
+            </div>
+          )}
         </div>
 
         {/* Stats Row — all 5 in one line */}
@@ -183,7 +208,7 @@ export default function AdminDashboard() {
             iconColor="purple"
             trend={trends?.todaySessions}
             trendLabel="vs yesterday"
-            href="/admin/sessions"
+            href={canViewSessions ? '/admin/sessions' : undefined}
             animationDelay={225}
           />
           <StatsCard
@@ -199,56 +224,58 @@ export default function AdminDashboard() {
         </div>
 
         {/* Today's Sessions — full width */}
-        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden animate-slide-up opacity-0 [animation-fill-mode:forwards] [animation-delay:100ms] mb-8">
-          <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-100">
-            <h2 className="text-sm font-semibold text-slate-900">Today&apos;s Sessions</h2>
-            <Link href="/admin/sessions">
-              <Button variant="ghost" size="sm" rightIcon={<ArrowRight className="w-3.5 h-3.5" />}>
-                All
-              </Button>
-            </Link>
-          </div>
+        {canViewSessions && (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden animate-slide-up opacity-0 [animation-fill-mode:forwards] [animation-delay:100ms] mb-8">
+            <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-100">
+              <h2 className="text-sm font-semibold text-slate-900">Today&apos;s Sessions</h2>
+              <Link href="/admin/sessions">
+                <Button variant="ghost" size="sm" rightIcon={<ArrowRight className="w-3.5 h-3.5" />}>
+                  All
+                </Button>
+              </Link>
+            </div>
 
-          <div className="px-4 py-2.5">
-            {todaySessions && todaySessions.length > 0 ? (
-              <div className="flex flex-wrap gap-2.5">
-                {todaySessions.slice(0, 8).map((session) => (
-                  <div
-                    key={session.id}
-                    className="flex items-center gap-2.5 px-3 py-2 bg-slate-50/80 rounded-lg border border-slate-100 hover:bg-slate-50 transition-colors"
-                  >
-                    <div className="w-7 h-7 bg-slate-900 rounded-md flex items-center justify-center shrink-0">
-                      <Video className="w-3.5 h-3.5 text-white" />
-                    </div>
-                    <div className="min-w-0">
-                      <p className="font-medium text-slate-900 text-sm truncate">{session.name}</p>
-                      <p className="text-xs text-slate-500 flex items-center gap-1">
-                        <Clock className="w-3 h-3 shrink-0" />
-                        {format(new Date(session.startTime), 'h:mm a')}
-                        {session.endTime && ` – ${format(new Date(session.endTime), 'h:mm a')}`}
-                      </p>
+            <div className="px-4 py-2.5">
+              {todaySessions && todaySessions.length > 0 ? (
+                <div className="flex flex-wrap gap-2.5">
+                  {todaySessions.slice(0, 8).map((session) => (
+                    <div
+                      key={session.id}
+                      className="flex items-center gap-2.5 px-3 py-2 bg-slate-50/80 rounded-lg border border-slate-100 hover:bg-slate-50 transition-colors"
+                    >
+                      <div className="w-7 h-7 bg-slate-900 rounded-md flex items-center justify-center shrink-0">
+                        <Video className="w-3.5 h-3.5 text-white" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-900 text-sm truncate">{session.name}</p>
+                        <p className="text-xs text-slate-500 flex items-center gap-1">
+                          <Clock className="w-3 h-3 shrink-0" />
+                          {format(new Date(session.startTime), 'h:mm a')}
+                          {session.endTime && ` – ${format(new Date(session.endTime), 'h:mm a')}`}
+                        </p>
+                      </div>
+                      {session.meetLink && (
+                        <a href={session.meetLink} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                          <Button variant="primary" size="sm">Join</Button>
+                        </a>
+                      )}
                     </div>
-                    {session.meetLink && (
-                      <a href={session.meetLink} target="_blank" rel="noopener noreferrer" className="shrink-0">
-                        <Button variant="primary" size="sm">Join</Button>
-                      </a>
-                    )}
-                  </div>
-                ))}
-                {todaySessions.length > 8 && (
-                  <Link href="/admin/sessions" className="flex items-center px-3 py-2 text-xs font-medium text-slate-500 hover:text-accent-500 transition-colors">
-                    +{todaySessions.length - 8} more
-                  </Link>
-                )}
-              </div>
-            ) : (
-              <div className="flex items-center gap-3 py-2 text-sm text-slate-500">
-                <Calendar className="w-4 h-4 text-slate-400" />
-                No sessions today
-              </div>
-            )}
+                  ))}
+                  {todaySessions.length > 8 && (
+                    <Link href="/admin/sessions" className="flex items-center px-3 py-2 text-xs font-medium text-slate-500 hover:text-accent-500 transition-colors">
+                      +{todaySessions.length - 8} more
+                    </Link>
+                  )}
+                </div>
+              ) : (
+                <div className="flex items-center gap-3 py-2 text-sm text-slate-500">
+                  <Calendar className="w-4 h-4 text-slate-400" />
+                  No sessions today
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Charts Row */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8 mb-8">
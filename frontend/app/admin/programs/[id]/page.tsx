@@ -20,14 +20,39 @@ import {
   Mail,
   X,
   RefreshCw,
+  CalendarClock,
+  Plus,
+  Download,
+  UsersRound,
 } from 'lucide-react';
+import { format } from 'date-fns';
+import clsx from 'clsx';
 import { AdminHeader } from '@/components/admin';
 import { useSidebar } from '@/lib/sidebar-context';
+import { useCan } from '@/lib/permissions';
 import ProgramModal from '@/components/admin/ProgramModal';
 import ContentTree from '@/components/admin/ContentTree';
-import { Button, Badge, PageLoading, Modal, LoadingSpinner, Input } from '@/components/ui';
-import { useProgram, useTogglePublish, useDeleteProgram, useProgramLearners, useLearners, useEnrollLearner, useUnenrollLearner } from '@/hooks';
-import { ContentItem, Learner } from '@/types/admin';
+import InstallmentPlanModal from '@/components/admin/InstallmentPlanModal';
+import CohortModal from '@/components/admin/CohortModal';
+import LearnerExportModal from '@/components/admin/LearnerExportModal';
+import AuditTimeline from '@/components/admin/AuditTimeline';
+import ProgramInstructorsCard from '@/components/admin/ProgramInstructorsCard';
+import { Button, Badge, PageLoading, Modal, LoadingSpinner, Input, Select } from '@/components/ui';
+import {
+  useProgram,
+  useTogglePublish,
+  useDeleteProgram,
+  useProgramLearners,
+  useLearners,
+  useEnrollLearner,
+  useUnenrollLearner,
+  useInstallmentPlans,
+  useDeleteInstallmentPlan,
+  useCohorts,
+  useDeleteCohort,
+  useChangeLearnerCohort,
+} from '@/hooks';
+import { ContentItem, Learner, InstallmentPlan, Cohort, ProgramLearner } from '@/types/admin';
 
 export default function ProgramDetailPage() {
   const params = useParams();
@@ -40,8 +65,24 @@ export default function ProgramDetailPage() {
   const [showAddLearnerModal, setShowAddLearnerModal] = useState(false);
   const [learnerSearchQuery, setLearnerSearchQuery] = useState('');
   const [debouncedSearch, setDebouncedSearch] = useState('');
-  const [learnerToRemove, setLearnerToRemove] = useState<Learner | null>(null);
+  const [learnerToRemove, setLearnerToRemove] = useState<ProgramLearner | null>(null);
   const [enrollingLearnerId, setEnrollingLearnerId] = useState<string | null>(null);
+  const [showPlanModal, setShowPlanModal] = useState(false);
+  const [planToEdit, setPlanToEdit] = useState<InstallmentPlan | null>(null);
+  const [planToDelete, setPlanToDelete] = useState<InstallmentPlan | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showCohortModal, setShowCohortModal] = useState(false);
+  const [cohortToEdit, setCohortToEdit] = useState<Cohort | null>(null);
+  const [cohortToDelete, setCohortToDelete] = useState<Cohort | null>(null);
+  const [cohortFilter, setCohortFilter] = useState('');
+  const [enrollCohortId, setEnrollCohortId] = useState('');
+  const [tab, setTab] = useState<'overview' | 'activity'>('overview');
+
+  const canManage = useCan('programs:manage');
+  const canEditContent = useCan('content:edit');
+  const canViewLearners = useCan('learners:view');
+  const canEditLearners = useCan('learners:edit');
+  const canViewAudit = useCan('audit:view');
 
   // Debounce learner search
   useEffect(() => {
@@ -50,24 +91,39 @@ export default function ProgramDetailPage() {
   }, [learnerSearchQuery]);
 
   const { data, isLoading, refetch } = useProgram(programId);
-  const { data: programLearners, isLoading: learnersLoading, refetch: refetchLearners } = useProgramLearners(programId);
-  const { data: allLearnersData } = useLearners({ search: debouncedSearch });
+  const { data: programLearners, isLoading: learnersLoading, refetch: refetchLearners } = useProgramLearners(programId, { enabled: canViewLearners });
+  const { data: allLearnersData } = useLearners({ search: debouncedSearch }, { enabled: canEditLearners });
   const enrollLearner = useEnrollLearner();
   const unenrollLearner = useUnenrollLearner();
   const togglePublish = useTogglePublish();
   const deleteProgram = useDeleteProgram();
+  const { data: installmentPlans } = useInstallmentPlans(programId);
+  const deleteInstallmentPlan = useDeleteInstallmentPlan();
+  const { data: cohorts } = useCohorts(programId);
+  const deleteCohort = useDeleteCohort();
+  const changeLearnerCohort = useChangeLearnerCohort();
 
   // Filter available learners (not already enrolled)
   const availableLearners = useMemo(() => {
     if (!allLearnersData?.learners || !programLearners) return [];
-    const enrolledIds = new Set(programLearners.map((l: Learner) => l.id));
+    const enrolledIds = new Set(programLearners.map((l) => l.id));
     return allLearnersData.learners.filter((l: Learner) => !enrolledIds.has(l.id));
   }, [allLearnersData?.learners, programLearners]);
 
+  // '' = all learners, 'none' = learners without a cohort
+  const filteredLearners = useMemo(() => {
+    if (!programLearners || !cohortFilter) return programLearners;
+    return programLearners.filter((l) =>
+      cohortFilter === 'none' ? !l.cohort : l.cohort?.id === cohortFilter
+    );
+  }, [programLearners, cohortFilter]);
+
+  const cohortOptions = (cohorts || []).map((c) => ({ value: c.id, label: c.name }));
+
   const handleEnrollLearner = async (learnerId: string) => {
     setEnrollingLearnerId(learnerId);
     try {
-      await enrollLearner.mutateAsync({ learnerId, programId });
+      await enrollLearner.mutateAsync({ learnerId, programId, cohortId: enrollCohortId || undefined });
       refetchLearners();
     } catch {
       // Error handled by mutation onError
@@ -76,6 +132,29 @@ export default function ProgramDetailPage() {
     }
   };
 
+  const handleDeletePlan = async () => {
+    if (!planToDelete) return;
+    try {
+      await deleteInstallmentPlan.mutateAsync({ id: planToDelete.id, programId });
+    } catch {
+      // Error handled by mutation onError
+    } finally {
+      setPlanToDelete(null);
+    }
+  };
+
+  const handleDeleteCohort = async () => {
+    if (!cohortToDelete) return;
+    try {
+      await deleteCohort.mutateAsync(cohortToDelete.id);
+      if (cohortFilter === cohortToDelete.id) setCohortFilter('');
+    } catch {
+      // Error handled by mutation onError
+    } finally {
+      setCohortToDelete(null);
+    }
+  };
+
   const handleUnenrollLearner = async () => {
     if (!learnerToRemove) return;
     try {
@@ -248,140 +327,369 @@ export default function ProgramDetailPage() {
               </div>
 
               {/* Actions */}
-              <div className="flex flex-wrap gap-2">
-                <Button
-                  variant="secondary"
-                  size="sm"
-                  leftIcon={<Edit className="w-4 h-4" />}
-                  onClick={() => setShowEditModal(true)}
-                >
-                  Edit Details
-                </Button>
-                {program.isPublished && program.hasUnpublishedChanges && (
+              {canManage && (
+                <div className="flex flex-wrap gap-2">
                   <Button
-                    variant="primary"
+                    variant="secondary"
                     size="sm"
-                    leftIcon={<RefreshCw className="w-4 h-4" />}
-                    onClick={handleRepublish}
+                    leftIcon={<Edit className="w-4 h-4" />}
+                    onClick={() => setShowEditModal(true)}
+                  >
+                    Edit Details
+                  </Button>
+                  {program.isPublished && program.hasUnpublishedChanges && (
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      leftIcon={<RefreshCw className="w-4 h-4" />}
+                      onClick={handleRepublish}
+                      isLoading={togglePublish.isPending}
+                    >
+                      Republish
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    leftIcon={program.isPublished ? <Lock className="w-4 h-4" /> : <Globe className="w-4 h-4" />}
+                    onClick={handleTogglePublish}
                     isLoading={togglePublish.isPending}
                   >
-                    Republish
+                    {program.isPublished ? 'Unpublish' : 'Publish'}
                   </Button>
-                )}
-                <Button
-                  variant="outline"
-                  size="sm"
-                  leftIcon={program.isPublished ? <Lock className="w-4 h-4" /> : <Globe className="w-4 h-4" />}
-                  onClick={handleTogglePublish}
-                  isLoading={togglePublish.isPending}
-                >
-                  {program.isPublished ? 'Unpublish' : 'Publish'}
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  leftIcon={<Trash2 className="w-4 h-4" />}
-                  onClick={() => setShowDeleteModal(true)}
-                  className="text-red-600 hover:bg-red-50"
-                >
-                  Delete
-                </Button>
-              </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    leftIcon={<Trash2 className="w-4 h-4" />}
+                    onClick={() => setShowDeleteModal(true)}
+                    className="text-red-600 hover:bg-red-50"
+                  >
+                    Delete
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
         </div>
 
-        {/* Content Section */}
-        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6 mb-6">
-          <div className="flex items-center justify-between mb-5">
-            <div>
-              <h2 className="text-lg font-semibold text-slate-900">Program Content</h2>
-              <p className="text-sm text-slate-500 mt-0.5">
-                Organize your lessons into topics and subtopics, or add them directly
-              </p>
-            </div>
+        {/* Tabs */}
+        {canViewAudit && (
+          <div className="flex items-center gap-1 p-1 bg-slate-100 rounded-lg w-fit mb-6">
+            {([['overview', 'Overview'], ['activity', 'Activity']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setTab(value)}
+                className={clsx(
+                  'px-3 py-1.5 text-sm font-medium rounded-md transition-colors',
+                  tab === value ? 'bg-white text-primary-900 shadow-sm' : 'text-slate-600 hover:text-primary-900'
+                )}
+              >
+                {label}
+              </button>
+            ))}
           </div>
-          <ContentTree
-            programId={programId}
-            content={content}
-            onRefresh={() => refetch()}
-          />
-        </div>
+        )}
 
-        {/* Enrolled Learners Section */}
-        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6">
-          <div className="flex items-center justify-between mb-5">
-            <div>
-              <h2 className="text-lg font-semibold text-slate-900">Enrolled Learners</h2>
+        {tab === 'activity' ? (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6">
+            <div className="mb-5">
+              <h2 className="text-lg font-semibold text-slate-900">Activity</h2>
               <p className="text-sm text-slate-500 mt-0.5">
-                {programLearners?.length || 0} learner{programLearners?.length !== 1 ? 's' : ''} enrolled in this program
+                Admin changes to this program, its cohorts, installment plans and lessons
               </p>
             </div>
-            <Button
-              variant="primary"
-              size="sm"
-              leftIcon={<UserPlus className="w-4 h-4" />}
-              onClick={() => setShowAddLearnerModal(true)}
-            >
-              Add Learner
-            </Button>
+            <AuditTimeline filters={{ targetType: 'Program', targetId: programId, related: true }} />
           </div>
-
-          {learnersLoading ? (
-            <div className="flex items-center justify-center py-12">
-              <LoadingSpinner size="md" />
+        ) : (
+          <>
+          {/* Content Section */}
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6 mb-6">
+            <div className="flex items-center justify-between mb-5">
+              <div>
+                <h2 className="text-lg font-semibold text-slate-900">Program Content</h2>
+                <p className="text-sm text-slate-500 mt-0.5">
+                  Organize your lessons into topics and subtopics, or add them directly
+                </p>
+              </div>
             </div>
-          ) : programLearners?.length === 0 ? (
-            <div className="text-center py-12 border-2 border-dashed border-slate-200 rounded-xl">
-              <div className="w-14 h-14 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                <Users className="w-7 h-7 text-slate-400" />
+            <ContentTree
+              programId={programId}
+              content={content}
+              onRefresh={() => refetch()}
+              readOnly={!canEditContent}
+            />
+          </div>
+
+          {/* Installment Plans Section */}
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6 mb-6">
+            <div className="flex items-center justify-between mb-5">
+              <div>
+                <h2 className="text-lg font-semibold text-slate-900">Installment Plans</h2>
+                <p className="text-sm text-slate-500 mt-0.5">
+                  Let learners pay for this program in parts
+                </p>
               </div>
-              <h3 className="text-slate-900 font-medium mb-1">No learners enrolled</h3>
-              <p className="text-slate-500 text-sm mb-4">
-                Add learners to give them access to this program
-              </p>
-              <Button
-                variant="outline"
-                size="sm"
-                leftIcon={<UserPlus className="w-4 h-4" />}
-                onClick={() => setShowAddLearnerModal(true)}
-              >
-                Add First Learner
-              </Button>
+              {canManage && (
+                <Button
+                  variant="primary"
+                  size="sm"
+                  leftIcon={<Plus className="w-4 h-4" />}
+                  onClick={() => { setPlanToEdit(null); setShowPlanModal(true); }}
+                >
+                  Add Plan
+                </Button>
+              )}
             </div>
-          ) : (
-            <div className="divide-y divide-slate-100">
-              {programLearners?.map((learner: Learner) => (
-                <div key={learner.id} className="flex items-center justify-between py-3 first:pt-0 last:pb-0">
-                  <div className="flex items-center gap-3">
-                    <div className="w-10 h-10 bg-gradient-to-br from-slate-100 to-slate-50 rounded-full flex items-center justify-center ring-1 ring-slate-200">
-                      <span className="text-sm font-semibold text-slate-600">
-                        {learner.name?.charAt(0)?.toUpperCase() || learner.email?.charAt(0)?.toUpperCase() || '?'}
-                      </span>
+
+            {!installmentPlans?.length ? (
+              <div className="text-center py-10 border-2 border-dashed border-slate-200 rounded-xl">
+                <div className="w-14 h-14 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <CalendarClock className="w-7 h-7 text-slate-400" />
+                </div>
+                <h3 className="text-slate-900 font-medium mb-1">No installment plans</h3>
+                <p className="text-slate-500 text-sm">
+                  Learners pay the full price in one go
+                </p>
+              </div>
+            ) : (
+              <div className="divide-y divide-slate-100">
+                {installmentPlans.map((plan) => (
+                  <div key={plan.id} className="flex items-center justify-between py-3 first:pt-0 last:pb-0">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-slate-900">{plan.name}</p>
+                        {!plan.isActive && <Badge variant="neutral" size="sm">Inactive</Badge>}
+                      </div>
+                      <p className="text-sm text-slate-500">
+                        {plan.installmentCount} × ₹{plan.installmentAmounts[plan.installmentCount - 1]} every {plan.intervalDays} days
+                        {' '}&middot; ₹{plan.totalAmount} total &middot; {plan.gracePeriodDays}-day grace period
+                      </p>
                     </div>
+                    {canManage && (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => { setPlanToEdit(plan); setShowPlanModal(true); }}
+                          className="text-slate-400 hover:text-slate-700"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPlanToDelete(plan)}
+                          className="text-slate-400 hover:text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Cohorts Section */}
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6 mb-6">
+            <div className="flex items-center justify-between mb-5">
+              <div>
+                <h2 className="text-lg font-semibold text-slate-900">Cohorts</h2>
+                <p className="text-sm text-slate-500 mt-0.5">
+                  Batches of learners going through this program together
+                </p>
+              </div>
+              {canManage && (
+                <Button
+                  variant="primary"
+                  size="sm"
+                  leftIcon={<Plus className="w-4 h-4" />}
+                  onClick={() => { setCohortToEdit(null); setShowCohortModal(true); }}
+                >
+                  Add Cohort
+                </Button>
+              )}
+            </div>
+
+            {!cohorts?.length ? (
+              <div className="text-center py-10 border-2 border-dashed border-slate-200 rounded-xl">
+                <div className="w-14 h-14 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <UsersRound className="w-7 h-7 text-slate-400" />
+                </div>
+                <h3 className="text-slate-900 font-medium mb-1">No cohorts</h3>
+                <p className="text-slate-500 text-sm">
+                  All learners of this program share the same sessions and notifications
+                </p>
+              </div>
+            ) : (
+              <div className="divide-y divide-slate-100">
+                {cohorts.map((cohort) => (
+                  <div key={cohort.id} className="flex items-center justify-between py-3 first:pt-0 last:pb-0">
                     <div>
-                      <p className="font-medium text-slate-900">{learner.name || 'Unnamed'}</p>
-                      <p className="text-sm text-slate-500">{learner.email}</p>
+                      <p className="font-medium text-slate-900">{cohort.name}</p>
+                      <p className="text-sm text-slate-500">
+                        {format(new Date(cohort.startDate), 'MMM d, yyyy')}
+                        {cohort.endDate ? ` – ${format(new Date(cohort.endDate), 'MMM d, yyyy')}` : ' onwards'}
+                        {' '}&middot; {cohort.learnerCount} learner{cohort.learnerCount !== 1 ? 's' : ''}
+                      </p>
                     </div>
+                    {canManage && (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => { setCohortToEdit(cohort); setShowCohortModal(true); }}
+                          className="text-slate-400 hover:text-slate-700"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setCohortToDelete(cohort)}
+                          className="text-slate-400 hover:text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Badge variant={learner.status === 'ACTIVE' ? 'success' : 'neutral'} size="sm">
-                      {learner.status}
-                    </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {canManage && <ProgramInstructorsCard programId={programId} />}
+
+          {/* Enrolled Learners Section */}
+          {canViewLearners && (
+            <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6">
+              <div className="flex items-center justify-between mb-5">
+                <div>
+                  <h2 className="text-lg font-semibold text-slate-900">Enrolled Learners</h2>
+                  <p className="text-sm text-slate-500 mt-0.5">
+                    {programLearners?.length || 0} learner{programLearners?.length !== 1 ? 's' : ''} enrolled in this program
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {cohortOptions.length > 0 && (
+                    <div className="w-44">
+                      <Select
+                        value={cohortFilter}
+                        onChange={(e) => setCohortFilter(e.target.value)}
+                        options={[
+                          { value: '', label: 'All cohorts' },
+                          ...cohortOptions,
+                          { value: 'none', label: 'No cohort' },
+                        ]}
+                      />
+                    </div>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    leftIcon={<Download className="w-4 h-4" />}
+                    onClick={() => setShowExportModal(true)}
+                    disabled={!programLearners?.length}
+                  >
+                    Export
+                  </Button>
+                  {canEditLearners && (
                     <Button
-                      variant="ghost"
+                      variant="primary"
                       size="sm"
-                      onClick={() => setLearnerToRemove(learner)}
-                      className="text-slate-400 hover:text-red-600 hover:bg-red-50"
+                      leftIcon={<UserPlus className="w-4 h-4" />}
+                      onClick={() => setShowAddLearnerModal(true)}
                     >
-                      <UserMinus className="w-4 h-4" />
+                      Add Learner
                     </Button>
+                  )}
+                </div>
+              </div>
+
+              {learnersLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <LoadingSpinner size="md" />
+                </div>
+              ) : programLearners?.length && !filteredLearners?.length ? (
+                <p className="text-center py-12 text-sm text-slate-500">
+                  No learners in this cohort yet
+                </p>
+              ) : programLearners?.length === 0 ? (
+                <div className="text-center py-12 border-2 border-dashed border-slate-200 rounded-xl">
+                  <div className="w-14 h-14 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <Users className="w-7 h-7 text-slate-400" />
                   </div>
+                  <h3 className="text-slate-900 font-medium mb-1">No learners enrolled</h3>
+                  <p className="text-slate-500 text-sm mb-4">
+                    Add learners to give them access to this program
+                  </p>
+                  {canEditLearners && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      leftIcon={<UserPlus className="w-4 h-4" />}
+                      onClick={() => setShowAddLearnerModal(true)}
+                    >
+                      Add First Learner
+                    </Button>
+                  )}
                 </div>
-              ))}
+              ) : (
+                <div className="divide-y divide-slate-100">
+                  {filteredLearners?.map((learner) => (
+                    <div key={learner.id} className="flex items-center justify-between py-3 first:pt-0 last:pb-0">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-gradient-to-br from-slate-100 to-slate-50 rounded-full flex items-center justify-center ring-1 ring-slate-200">
+                          <span className="text-sm font-semibold text-slate-600">
+                            {learner.name?.charAt(0)?.toUpperCase() || learner.email?.charAt(0)?.toUpperCase() || '?'}
+                          </span>
+                        </div>
+                        <div>
+                          <p className="font-medium text-slate-900">{learner.name || 'Unnamed'}</p>
+                          <p className="text-sm text-slate-500">{learner.email}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {canEditLearners && cohortOptions.length > 0 && (
+                          <div className="w-40">
+                            <Select
+                              aria-label="Cohort"
+                              value={learner.cohort?.id || ''}
+                              onChange={(e) => changeLearnerCohort.mutate({
+                                learnerId: learner.id,
+                                programId,
+                                cohortId: e.target.value || null,
+                              })}
+                              options={[{ value: '', label: 'No cohort' }, ...cohortOptions]}
+                              disabled={changeLearnerCohort.isPending}
+                            />
+                          </div>
+                        )}
+                        <Badge variant={learner.status === 'ACTIVE' ? 'success' : 'neutral'} size="sm">
+                          {learner.status}
+                        </Badge>
+                        {canEditLearners && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLearnerToRemove(learner)}
+                            className="text-slate-400 hover:text-red-600 hover:bg-red-50"
+                          >
+                            <UserMinus className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
-        </div>
+          </>
+        )}
       </div>
 
       {/* Edit Modal */}
@@ -402,9 +710,99 @@ export default function ProgramDetailPage() {
           lessonCount: stats.lessons,
           totalDurationHours: 0,
           createdAt: '',
+          cohorts: [],
         }}
       />
 
+      {/* Export Learners Modal */}
+      <LearnerExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        filters={{ programId, cohortId: cohortFilter && cohortFilter !== 'none' ? cohortFilter : undefined }}
+        programName={program.name}
+      />
+
+      {/* Cohort Modal */}
+      <CohortModal
+        isOpen={showCohortModal}
+        onClose={() => { setShowCohortModal(false); setCohortToEdit(null); }}
+        programId={programId}
+        cohort={cohortToEdit}
+      />
+
+      {/* Delete Cohort Modal */}
+      <Modal
+        isOpen={!!cohortToDelete}
+        onClose={() => setCohortToDelete(null)}
+        title="Delete Cohort"
+        size="sm"
+      >
+        <div className="text-center py-2">
+          <div className="w-12 h-12 bg-red-50 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Trash2 className="w-6 h-6 text-red-600" />
+          </div>
+          <p className="text-slate-600 mb-2">
+            Delete <strong className="text-slate-900">{cohortToDelete?.name}</strong>?
+          </p>
+          <p className="text-sm text-slate-500">
+            Its learners stay enrolled in the program without a cohort.
+          </p>
+        </div>
+        <Modal.Footer>
+          <Button variant="outline" onClick={() => setCohortToDelete(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleDeleteCohort}
+            isLoading={deleteCohort.isPending}
+          >
+            Delete Cohort
+          </Button>
+        </Modal.Footer>
+      </Modal>
+
+      {/* Installment Plan Modal */}
+      <InstallmentPlanModal
+        isOpen={showPlanModal}
+        onClose={() => { setShowPlanModal(false); setPlanToEdit(null); }}
+        programId={programId}
+        programPrice={program.price ? Number(program.price) : undefined}
+        plan={planToEdit}
+      />
+
+      {/* Delete Installment Plan Modal */}
+      <Modal
+        isOpen={!!planToDelete}
+        onClose={() => setPlanToDelete(null)}
+        title="Delete Installment Plan"
+        size="sm"
+      >
+        <div className="text-center py-2">
+          <div className="w-12 h-12 bg-red-50 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Trash2 className="w-6 h-6 text-red-600" />
+          </div>
+          <p className="text-slate-600 mb-2">
+            Delete <strong className="text-slate-900">{planToDelete?.name}</strong>?
+          </p>
+          <p className="text-sm text-slate-500">
+            Plans learners are already paying with can only be deactivated.
+          </p>
+        </div>
+        <Modal.Footer>
+          <Button variant="outline" onClick={() => setPlanToDelete(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleDeletePlan}
+            isLoading={deleteInstallmentPlan.isPending}
+          >
+            Delete Plan
+          </Button>
+        </Modal.Footer>
+      </Modal>
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={showDeleteModal}
@@ -450,6 +848,16 @@ export default function ProgramDetailPage() {
         title="Add Learner to Program"
         size="md"
       >
+        {cohortOptions.length > 0 && (
+          <div className="mb-4">
+            <Select
+              label="Cohort"
+              value={enrollCohortId}
+              onChange={(e) => setEnrollCohortId(e.target.value)}
+              options={[{ value: '', label: 'No cohort' }, ...cohortOptions]}
+            />
+          </div>
+        )}
         <div className="mb-4">
           <Input
             placeholder="Search by name or email..."
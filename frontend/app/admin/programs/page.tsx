@@ -6,6 +6,7 @@ import Image from 'next/image';
 import { Plus, BookOpen, Eye, Edit, Trash2, Globe, Lock, Copy } from 'lucide-react';
 import { AdminHeader } from '@/components/admin';
 import { useSidebar } from '@/lib/sidebar-context';
+import { useCan } from '@/lib/permissions';
 import ProgramModal from '@/components/admin/ProgramModal';
 import { Button, Badge, Table, EmptyState, Modal, Pagination, DropdownMenu, DropdownItem, DropdownDivider, InlineLoading } from '@/components/ui';
 import { useProgramsPaginated, useDeleteProgram, useTogglePublish, useDuplicateProgram } from '@/hooks';
@@ -16,14 +17,15 @@ export default function ProgramsPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { openSidebar } = useSidebar();
+  const canManage = useCan('programs:manage');
   const [showModal, setShowModal] = useState(false);
 
   useEffect(() => {
     if (searchParams.get('action') === 'create') {
-      setShowModal(true);
+      if (canManage) setShowModal(true);
       router.replace('/admin/programs', { scroll: false });
     }
-  }, [searchParams, router]);
+  }, [searchParams, router, canManage]);
   const [editingProgram, setEditingProgram] = useState<Program | null>(null);
   const [deletingProgram, setDeletingProgram] = useState<Program | null>(null);
   const [duplicatingProgram, setDuplicatingProgram] = useState<Program | null>(null);
@@ -177,32 +179,36 @@ export default function ProgramsPage() {
             <Eye className="w-4 h-4 text-slate-400" />
             View Details
           </DropdownItem>
-          <DropdownItem onClick={() => handleEdit(program)}>
-            <Edit className="w-4 h-4 text-slate-400" />
-            Edit
-          </DropdownItem>
-          <DropdownItem onClick={() => setDuplicatingProgram(program)}>
-            <Copy className="w-4 h-4 text-slate-400" />
-            Make a Copy
-          </DropdownItem>
-          <DropdownItem onClick={() => handleTogglePublish(program)}>
-            {program.isPublished ? (
-              <>
-                <Lock className="w-4 h-4 text-slate-400" />
-                Unpublish
-              </>
-            ) : (
-              <>
-                <Globe className="w-4 h-4 text-slate-400" />
-                Publish
-              </>
-            )}
-          </DropdownItem>
-          <DropdownDivider />
-          <DropdownItem variant="danger" onClick={() => setDeletingProgram(program)}>
-            <Trash2 className="w-4 h-4" />
-            Delete
-          </DropdownItem>
+          {canManage && (
+            <>
+              <DropdownItem onClick={() => handleEdit(program)}>
+                <Edit className="w-4 h-4 text-slate-400" />
+                Edit
+              </DropdownItem>
+              <DropdownItem onClick={() => setDuplicatingProgram(program)}>
+                <Copy className="w-4 h-4 text-slate-400" />
+                Make a Copy
+              </DropdownItem>
+              <DropdownItem onClick={() => handleTogglePublish(program)}>
+                {program.isPublished ? (
+                  <>
+                    <Lock className="w-4 h-4 text-slate-400" />
+                    Unpublish
+                  </>
+                ) : (
+                  <>
+                    <Globe className="w-4 h-4 text-slate-400" />
+                    Publish
+                  </>
+                )}
+              </DropdownItem>
+              <DropdownDivider />
+              <DropdownItem variant="danger" onClick={() => setDeletingProgram(program)}>
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </DropdownItem>
+            </>
+          )}
         </DropdownMenu>
       ),
     },
@@ -224,13 +230,15 @@ export default function ProgramsPage() {
               {pagination?.total || programs?.length || 0} programs total
             </p>
           </div>
-          <Button
-            variant="primary"
-            leftIcon={<Plus className="w-4 h-4" />}
-            onClick={() => setShowModal(true)}
-          >
-            Create Program
-          </Button>
+          {canManage && (
+            <Button
+              variant="primary"
+              leftIcon={<Plus className="w-4 h-4" />}
+              onClick={() => setShowModal(true)}
+            >
+              Create Program
+            </Button>
+          )}
         </div>
 
         {/* Programs Tables */}
@@ -255,11 +263,11 @@ export default function ProgramsPage() {
               rowKey={(program) => program.id}
               emptyState={{
                 title: 'No programs yet',
-                description: 'Create your first program to get started',
-                action: {
+                description: canManage ? 'Create your first program to get started' : 'No programs have been assigned to you yet',
+                action: canManage ? {
                   label: 'Create Program',
                   onClick: () => setShowModal(true),
-                },
+                } : undefined,
               }}
             />
           </div>
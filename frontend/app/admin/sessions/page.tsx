@@ -2,9 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { Plus, Calendar as CalendarIcon, Clock, Video, Edit, Trash2, ExternalLink, RefreshCw, ChevronLeft, ChevronRight, List, Grid3X3, X, MapPin, Users } from 'lucide-react';
-import { AdminHeader } from '@/components/admin';
+import { Plus, Calendar as CalendarIcon, Clock, Video, Edit, Trash2, ExternalLink, RefreshCw, ChevronLeft, ChevronRight, List, Grid3X3, X, MapPin, Users, ClipboardCheck, Film } from 'lucide-react';
+import { AdminHeader, AttendanceModal, RecordingModal } from '@/components/admin';
 import { useSidebar } from '@/lib/sidebar-context';
+import { useCan } from '@/lib/permissions';
 import SessionModal from '@/components/admin/SessionModal';
 import { Button, Badge, Table, PageLoading, Modal, DropdownMenu, DropdownItem, DropdownDivider } from '@/components/ui';
 import { useSessions, usePrograms, useDeleteSession } from '@/hooks';
@@ -18,17 +19,20 @@ export default function SessionsPage() {
   const { openSidebar } = useSidebar();
   const searchParams = useSearchParams();
   const router = useRouter();
+  const canEdit = useCan('sessions:edit');
   const [showModal, setShowModal] = useState(false);
 
   useEffect(() => {
     if (searchParams.get('action') === 'create') {
-      setShowModal(true);
+      if (canEdit) setShowModal(true);
       router.replace('/admin/sessions', { scroll: false });
     }
-  }, [searchParams, router]);
+  }, [searchParams, router, canEdit]);
   const [editingSession, setEditingSession] = useState<Session | null>(null);
   const [previewSession, setPreviewSession] = useState<Session | null>(null);
   const [deletingSession, setDeletingSession] = useState<Session | null>(null);
+  const [attendanceSession, setAttendanceSession] = useState<Session | null>(null);
+  const [recordingSession, setRecordingSession] = useState<Session | null>(null);
   const [deleteMode, setDeleteMode] = useState<DeleteMode>('single');
   const [viewMode, setViewMode] = useState<ViewMode>('calendar');
   const [defaultDate, setDefaultDate] = useState<string | undefined>();
@@ -43,6 +47,10 @@ export default function SessionsPage() {
 
   const { data: programs } = usePrograms();
   const { data: sessions, isLoading, isError } = useSessions(filters);
+  // The occurrence as last fetched, so the recording modal shows saved changes
+  const currentRecordingSession = recordingSession && (sessions?.find(s =>
+    s.id === recordingSession.id && s.occurrenceDate === recordingSession.occurrenceDate
+  ) || recordingSession);
   const deleteSession = useDeleteSession();
 
   const handleMonthChange = (direction: 'prev' | 'next') => {
@@ -107,6 +115,16 @@ export default function SessionsPage() {
     setShowModal(true);
   };
 
+  const handleAttendance = (session: Session) => {
+    setPreviewSession(null);
+    setAttendanceSession(session);
+  };
+
+  const handleRecording = (session: Session) => {
+    setPreviewSession(null);
+    setRecordingSession(session);
+  };
+
   const handleDeleteClick = (session: Session) => {
     setPreviewSession(null);
     setDeletingSession(session);
@@ -118,7 +136,7 @@ export default function SessionsPage() {
     await deleteSession.mutateAsync({
       id: deletingSession.id,
       deleteMode: deletingSession.isRecurring ? deleteMode : undefined,
-      occurrenceDate: deletingSession.isRecurring && deleteMode === 'single' ? deletingSession.startTime : undefined,
+      occurrenceDate: deletingSession.isRecurring && deleteMode === 'single' ? deletingSession.occurrenceDate || deletingSession.startTime : undefined,
     });
     setDeletingSession(null);
   };
@@ -165,6 +183,17 @@ export default function SessionsPage() {
                 Recurring
               </Badge>
             )}
+            {session.isModified && (
+              <Badge variant="warning" size="sm">
+                Modified
+              </Badge>
+            )}
+            {session.recording && (
+              <Badge variant="success" size="sm">
+                <Film className="w-3 h-3 mr-1" />
+                Recorded
+              </Badge>
+            )}
           </div>
           {session.description && (
             <p className="text-sm text-slate-500 truncate max-w-xs mt-0.5">
@@ -237,6 +266,14 @@ export default function SessionsPage() {
             <Edit className="w-4 h-4 text-slate-400" />
             Edit
           </DropdownItem>
+          <DropdownItem onClick={() => handleAttendance(session)}>
+            <ClipboardCheck className="w-4 h-4 text-slate-400" />
+            Attendance
+          </DropdownItem>
+          <DropdownItem onClick={() => handleRecording(session)}>
+            <Film className="w-4 h-4 text-slate-400" />
+            Recording
+          </DropdownItem>
           <DropdownDivider />
           <DropdownItem variant="danger" onClick={() => handleDeleteClick(session)}>
             <Trash2 className="w-4 h-4" />
@@ -263,13 +300,15 @@ export default function SessionsPage() {
               {sessions?.length || 0} sessions in {format(currentMonth, 'MMMM yyyy')}
             </p>
           </div>
-          <Button
-            variant="primary"
-            leftIcon={<Plus className="w-4 h-4" />}
-            onClick={() => setShowModal(true)}
-          >
-            Create Session
-          </Button>
+          {canEdit && (
+            <Button
+              variant="primary"
+              leftIcon={<Plus className="w-4 h-4" />}
+              onClick={() => setShowModal(true)}
+            >
+              Create Session
+            </Button>
+          )}
         </div>
 
         {/* Filters & View Toggle */}
@@ -425,10 +464,11 @@ export default function SessionsPage() {
                     <div
                       key={index}
                       onClick={() => {
+                        if (!canEdit) return;
                         setDefaultDate(format(day, 'yyyy-MM-dd'));
                         setShowModal(true);
                       }}
-                      className={`min-h-[100px] p-2 bg-white cursor-pointer hover:bg-slate-50 transition-colors ${
+                      className={`min-h-[100px] p-2 bg-white transition-colors ${canEdit ? 'cursor-pointer hover:bg-slate-50' : ''} ${
                         !isCurrentMonth ? 'bg-slate-50/70' : ''
                       }`}
                     >
@@ -462,17 +502,17 @@ export default function SessionsPage() {
           ) : (
             /* List View */
             <Table
-              columns={columns}
+              columns={canEdit ? columns : columns.filter((column) => column.key !== 'actions')}
               data={sessions || []}
               rowKey={(session) => session.id}
               onRowClick={(session) => handlePreview(session)}
               emptyState={{
                 title: 'No sessions scheduled',
                 description: `No sessions found for ${format(currentMonth, 'MMMM yyyy')}`,
-                action: {
+                action: canEdit ? {
                   label: 'Create Session',
                   onClick: () => setShowModal(true),
-                },
+                } : undefined,
               }}
             />
           )}
@@ -483,14 +523,16 @@ export default function SessionsPage() {
               <CalendarIcon className="w-10 h-10 mx-auto mb-3 text-slate-300" />
               <p className="text-slate-600 font-medium">No sessions scheduled</p>
               <p className="text-sm text-slate-500 mt-1">No sessions found for {format(currentMonth, 'MMMM yyyy')}</p>
-              <Button
-                variant="primary"
-                size="sm"
-                className="mt-4"
-                onClick={() => setShowModal(true)}
-              >
-                Create Session
-              </Button>
+              {canEdit && (
+                <Button
+                  variant="primary"
+                  size="sm"
+                  className="mt-4"
+                  onClick={() => setShowModal(true)}
+                >
+                  Create Session
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -516,6 +558,11 @@ export default function SessionsPage() {
                       Recurring
                     </Badge>
                   )}
+                  {previewSession.isModified && (
+                    <Badge variant="warning" size="sm">
+                      Modified
+                    </Badge>
+                  )}
                 </div>
                 {previewSession.description && (
                   <p className="text-slate-600 mt-1 whitespace-pre-wrap">
@@ -597,32 +644,68 @@ export default function SessionsPage() {
             </div>
 
             {/* Actions */}
-            <div className="flex items-center justify-between pt-4 border-t border-slate-200">
-              <Button
-                variant="danger"
-                size="sm"
-                leftIcon={<Trash2 className="w-4 h-4" />}
-                onClick={() => handleDeleteClick(previewSession)}
-              >
-                Delete
-              </Button>
-              <div className="flex gap-3">
-                <Button variant="outline" onClick={() => setPreviewSession(null)}>
-                  Close
-                </Button>
+            {canEdit ? (
+              <div className="flex items-center justify-between pt-4 border-t border-slate-200">
                 <Button
-                  variant="primary"
-                  leftIcon={<Edit className="w-4 h-4" />}
-                  onClick={() => handleEdit(previewSession)}
+                  variant="danger"
+                  size="sm"
+                  leftIcon={<Trash2 className="w-4 h-4" />}
+                  onClick={() => handleDeleteClick(previewSession)}
                 >
-                  Edit Session
+                  Delete
+                </Button>
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    leftIcon={<ClipboardCheck className="w-4 h-4" />}
+                    onClick={() => handleAttendance(previewSession)}
+                  >
+                    Attendance
+                  </Button>
+                  <Button
+                    variant="outline"
+                    leftIcon={<Film className="w-4 h-4" />}
+                    onClick={() => handleRecording(previewSession)}
+                  >
+                    Recording
+                  </Button>
+                  <Button variant="outline" onClick={() => setPreviewSession(null)}>
+                    Close
+                  </Button>
+                  <Button
+                    variant="primary"
+                    leftIcon={<Edit className="w-4 h-4" />}
+                    onClick={() => handleEdit(previewSession)}
+                  >
+                    Edit Session
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex justify-end pt-4 border-t border-slate-200">
+                <Button variant="outline" onClick={() => setPreviewSession(null)}>
+                  Close
                 </Button>
               </div>
-            </div>
+            )}
           </div>
         )}
       </Modal>
 
+      {/* Attendance Modal */}
+      <AttendanceModal
+        isOpen={!!attendanceSession}
+        onClose={() => setAttendanceSession(null)}
+        session={attendanceSession}
+      />
+
+      {/* Recording Modal */}
+      <RecordingModal
+        isOpen={!!recordingSession}
+        onClose={() => setRecordingSession(null)}
+        session={currentRecordingSession}
+      />
+
       {/* Create/Edit Modal */}
       <SessionModal
         isOpen={showModal}
@@ -3,15 +3,18 @@
 import { useState } from 'react';
 import { Eye, EyeOff, Lock, User, Mail } from 'lucide-react';
 import { AdminHeader } from '@/components/admin';
+import TeamSection from '@/components/admin/TeamSection';
 import { useSidebar } from '@/lib/sidebar-context';
 import { Button } from '@/components/ui';
 import { authApi } from '@/lib/api';
 import { useAuthStore } from '@/lib/auth-store';
+import { useCan } from '@/lib/permissions';
 import toast from 'react-hot-toast';
 
 export default function AdminSettingsPage() {
   const { openSidebar } = useSidebar();
   const user = useAuthStore((state) => state.user);
+  const canManageTeam = useCan('team:manage');
 
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -205,6 +208,9 @@ export default function AdminSettingsPage() {
               </div>
             </form>
           </div>
+
+          {/* Team */}
+          {canManageTeam && <TeamSection />}
         </div>
       </div>
     </>
@@ -6,6 +6,7 @@ import Link from 'next/link';
 import { Eye, EyeOff, GraduationCap, Shield, AlertTriangle, Monitor, Mail, Lock } from 'lucide-react';
 import { authApi } from '@/lib/api';
 import { useAuthStore } from '@/lib/auth-store';
+import { isStaffRole } from '@/lib/permissions';
 import { useFormValidation } from '@/lib/useFormValidation';
 import toast from 'react-hot-toast';
 
@@ -72,7 +73,7 @@ export default function LoginPage() {
         toast.success('Welcome back!');
 
         // Redirect based on role
-        if (response.data.user.role === 'ADMIN') {
+        if (isStaffRole(response.data.user.role)) {
           router.push('/admin');
         } else {
           router.push('/learner');
@@ -115,7 +116,7 @@ export default function LoginPage() {
         toast.success('Logged out from other devices. Welcome back!');
         setShowMaxSessionsModal(false);
 
-        if (response.data.user.role === 'ADMIN') {
+        if (isStaffRole(response.data.user.role)) {
           router.push('/admin');
         } else {
           router.push('/learner');
@@ -3,9 +3,10 @@
 import { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { Eye, EyeOff, GraduationCap, User, Mail, Phone, Lock, BookOpen } from 'lucide-react';
+import { Eye, EyeOff, GraduationCap, User, Mail, Phone, Lock, BookOpen, Tag } from 'lucide-react';
 import { authApi, publicApi } from '@/lib/api';
 import { useAuthStore } from '@/lib/auth-store';
+import { CouponQuote } from '@/types/learner';
 import toast from 'react-hot-toast';
 
 interface ProgramInfo {
@@ -35,6 +36,10 @@ export default function RegisterPage() {
   const [formError, setFormError] = useState<string | null>(null);
   const [program, setProgram] = useState<ProgramInfo | null>(null);
   const [loadingProgram, setLoadingProgram] = useState(!!programSlug);
+  const [couponCode, setCouponCode] = useState(searchParams.get('coupon')?.toUpperCase() || '');
+  const [coupon, setCoupon] = useState<CouponQuote | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
 
   // Fetch program info if slug is provided
   useEffect(() => {
@@ -51,6 +56,32 @@ export default function RegisterPage() {
     }
   }, [programSlug]);
 
+  const isPaidProgram = !!program?.price && Number(program.price) > 0;
+
+  const applyCoupon = async (code: string) => {
+    if (!programSlug || !code.trim()) return;
+
+    setIsApplyingCoupon(true);
+    setCouponError(null);
+    try {
+      const res = await publicApi.previewCoupon(programSlug, code.trim());
+      setCoupon(res.data);
+      setCouponCode(res.data.code);
+    } catch (error: any) {
+      setCoupon(null);
+      setCouponError(error.response?.data?.error?.message || 'Could not apply coupon');
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  // Preview a code shared in the link (?coupon=) once the program has loaded
+  useEffect(() => {
+    if (isPaidProgram && couponCode && !coupon && !couponError) {
+      applyCoupon(couponCode);
+    }
+  }, [isPaidProgram]);
+
   const validate = (): string | null => {
     if (!name.trim()) return 'Name is required';
     if (!email.trim()) return 'Email is required';
@@ -92,9 +123,10 @@ export default function RegisterPage() {
 
       toast.success('Account created successfully!');
 
-      // Redirect to program page or learner home
+      // Redirect to program page (carrying the coupon into checkout) or learner home
       if (response.data.programId) {
-        router.push(`/learner/programs/${response.data.programId}`);
+        const query = coupon ? `?coupon=${encodeURIComponent(coupon.code)}` : '';
+        router.push(`/learner/programs/${response.data.programId}${query}`);
       } else {
         router.push('/learner');
       }
@@ -142,9 +174,15 @@ export default function RegisterPage() {
             <div className="flex items-center gap-4 text-accent-100 text-sm">
               <span>{program.totalLessons} lessons</span>
               <span>{program.freeLessons} free to preview</span>
-              {program.price && Number(program.price) > 0 && (
+              {isPaidProgram && (
                 <span className="bg-white/20 px-2 py-0.5 rounded-full font-medium">
-                  Full program: {program.currency === 'INR' ? '\u20B9' : '$'}{program.price}
+                  Full program:{' '}
+                  {coupon && (
+                    <span className="line-through opacity-70 mr-1">
+                      {program.currency === 'INR' ? '\u20B9' : '$'}{program.price}
+                    </span>
+                  )}
+                  {program.currency === 'INR' ? '\u20B9' : '$'}{coupon ? coupon.finalAmount : program.price}
                 </span>
               )}
             </div>
@@ -278,6 +316,74 @@ export default function RegisterPage() {
               </div>
             </div>
 
+            {/* Coupon */}
+            {isPaidProgram && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Coupon Code <span className="text-slate-400 font-normal">(optional)</span>
+                </label>
+                {coupon ? (
+                  <div className="flex items-center justify-between p-3 bg-emerald-50 border border-emerald-200 rounded-lg">
+                    <div className="text-sm text-emerald-700">
+                      <span className="font-mono font-medium">{coupon.code}</span>
+                      {' '}&mdash; full program for{' '}
+                      <span className="line-through text-emerald-600/70">
+                        {coupon.currency === 'INR' ? '\u20B9' : '$'}{coupon.originalAmount}
+                      </span>{' '}
+                      <span className="font-semibold">
+                        {coupon.currency === 'INR' ? '\u20B9' : '$'}{coupon.finalAmount}
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setCoupon(null);
+                        setCouponCode('');
+                      }}
+                      className="text-sm text-slate-500 hover:text-slate-700"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Tag className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                      <input
+                        type="text"
+                        value={couponCode}
+                        onChange={(e) => {
+                          setCouponCode(e.target.value.toUpperCase());
+                          setCouponError(null);
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault();
+                            applyCoupon(couponCode);
+                          }
+                        }}
+                        placeholder="Have a code?"
+                        className="input pl-10 font-mono"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => applyCoupon(couponCode)}
+                      disabled={!couponCode.trim() || isApplyingCoupon}
+                      className="px-4 border border-slate-300 rounded-xl text-sm font-medium text-slate-700 hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isApplyingCoupon ? 'Checking...' : 'Apply'}
+                    </button>
+                  </div>
+                )}
+                {couponError ? (
+                  <p className="text-sm text-red-600 mt-1">{couponError}</p>
+                ) : (
+                  <p className="text-xs text-slate-500 mt-1">Applied when you upgrade to the full program</p>
+                )}
+              </div>
+            )}
+
             <button
               type="submit"
               disabled={isLoading}
@@ -19,13 +19,24 @@ import {
   File,
   Lock,
   Sparkles,
+  ClipboardCheck,
+  ClipboardList,
+  CalendarClock,
 } from 'lucide-react';
 import { LearnerHeader } from '@/components/learner';
 import UpgradeModal from '@/components/learner/UpgradeModal';
+import QuizPlayer from '@/components/learner/QuizPlayer';
+import AssignmentPanel from '@/components/learner/AssignmentPanel';
+import UnlockCountdown from '@/components/learner/UnlockCountdown';
+import LessonDiscussion from '@/components/learner/LessonDiscussion';
+import LessonNotes from '@/components/learner/LessonNotes';
+import TranscriptPanel from '@/components/learner/TranscriptPanel';
 import { useSidebar } from '@/lib/sidebar-context';
 import { Button, Badge } from '@/components/ui';
+import { LessonNote } from '@/types/learner';
 import { useLearnerLesson, useCompleteLesson, useUpdateLessonProgress, learnerKeys } from '@/hooks/useLearnerData';
 import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
 
 function getFileIcon(name: string) {
   const ext = name.split('.').pop()?.toLowerCase();
@@ -110,16 +121,27 @@ export default function LessonViewerPage() {
   const lessonId = params.id as string;
   const lessonType = searchParams.get('type') || undefined;
   const programNameHint = searchParams.get('program') || '';
+  // Links from notes open the lesson at a video time (?t=) or PDF page (?page=)
+  const startAtParam = searchParams.get('t');
+  const pageParam = searchParams.get('page');
   const { openSidebar } = useSidebar();
   const [showCompletionCelebration, setShowCompletionCelebration] = useState(false);
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
+  const [pdfPage, setPdfPage] = useState<number | null>(null);
+  // Whole seconds, so the transcript highlight re-renders at most once a second
+  const [videoTime, setVideoTime] = useState<number | null>(null);
+
+  useEffect(() => {
+    const page = pageParam ? parseInt(pageParam, 10) : NaN;
+    setPdfPage(page > 0 ? page : null);
+  }, [lessonId, pageParam]);
 
   // Scroll to top when navigating to a lesson
   useEffect(() => {
     setTimeout(() => window.scrollTo({ top: 0, behavior: 'instant' as ScrollBehavior }), 0);
   }, [lessonId]);
 
-  const { data, isLoading, error } = useLearnerLesson(lessonId);
+  const { data, isLoading, error, refetch } = useLearnerLesson(lessonId);
 
   // Legacy: handle LESSON_LOCKED error if backend still returns 403
   useEffect(() => {
@@ -132,6 +154,9 @@ export default function LessonViewerPage() {
   const updateProgress = useUpdateLessonProgress();
   const queryClient = useQueryClient();
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  const pdfRef = useRef<HTMLIFrameElement>(null);
+  const playerRef = useRef<any>(null);
+  const positionRef = useRef<number | null>(null);
 
   // Stable ref for updateProgress to avoid re-running the effect on every render
   const updateProgressRef = useRef(updateProgress);
@@ -156,8 +181,11 @@ export default function LessonViewerPage() {
       player = new w.playerjs.Player(iframe);
       player.on('ready', () => {
         if (destroyed) return;
+        playerRef.current = player;
         player.on('timeupdate', (value: { seconds: number; duration: number }) => {
           if (!destroyed) {
+            positionRef.current = Math.floor(value.seconds);
+            setVideoTime(Math.floor(value.seconds));
             updateProgressRef.current.mutate({
               lessonId,
               watchPositionSeconds: Math.floor(value.seconds),
@@ -179,6 +207,9 @@ export default function LessonViewerPage() {
 
     return () => {
       destroyed = true;
+      playerRef.current = null;
+      positionRef.current = null;
+      setVideoTime(null);
       if (player) {
         try { player.off('timeupdate'); } catch (_) {}
         try { player.off('ready'); } catch (_) {}
@@ -194,6 +225,25 @@ export default function LessonViewerPage() {
     };
   }, [updateProgress, queryClient]);
 
+  // Seek the video or open the PDF at a note's position
+  const handleJumpToNote = useCallback((note: LessonNote) => {
+    if (note.positionSeconds !== null && playerRef.current) {
+      playerRef.current.setCurrentTime(note.positionSeconds);
+      playerRef.current.play();
+      iframeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else if (note.pageNumber !== null) {
+      setPdfPage(note.pageNumber);
+      pdfRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, []);
+
+  // Seek the video to a transcript line
+  const handleSeek = useCallback((seconds: number) => {
+    if (!playerRef.current) return;
+    playerRef.current.setCurrentTime(seconds);
+    playerRef.current.play();
+  }, []);
+
   const handleMarkComplete = () => {
     completeLesson.mutate(lessonId, {
       onSuccess: () => {
@@ -235,6 +285,90 @@ export default function LessonViewerPage() {
 
   const { lesson, program, progress, navigation } = data;
 
+  // Drip-scheduled lesson — show when it opens
+  if (data.unlocksAt) {
+    return (
+      <>
+        <LearnerHeader title={program.name} onMenuClick={openSidebar} />
+        <div className="flex-1">
+          <div className="bg-white border-b border-slate-200/80 shadow-sm">
+            <div className="flex items-center justify-between px-4 lg:px-6 py-3">
+              <Link
+                href={`/learner/programs/${program.id}`}
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                <span className="font-medium">Back to Program</span>
+              </Link>
+            </div>
+          </div>
+
+          <div className="max-w-2xl mx-auto px-4 lg:px-6 py-16 text-center">
+            <div className="w-20 h-20 bg-slate-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
+              <CalendarClock className="w-10 h-10 text-slate-500" />
+            </div>
+            <h2 className="text-2xl font-bold text-slate-900 mb-2">{lesson.title}</h2>
+            <p className="text-slate-500 mb-2">
+              This lesson is not available yet. It opens on {format(new Date(data.unlocksAt), "MMMM d, yyyy 'at' h:mm a")}.
+            </p>
+            <UnlockCountdown
+              unlocksAt={data.unlocksAt}
+              onUnlock={refetch}
+              className="inline-block text-sm font-medium text-accent-600 mb-8"
+            />
+            <div>
+              <Link href={`/learner/programs/${program.id}`}>
+                <Button variant="outline">Back to Program</Button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  // Sequential program — previous lesson must be completed first
+  if (data.prerequisite) {
+    return (
+      <>
+        <LearnerHeader title={program.name} onMenuClick={openSidebar} />
+        <div className="flex-1">
+          <div className="bg-white border-b border-slate-200/80 shadow-sm">
+            <div className="flex items-center justify-between px-4 lg:px-6 py-3">
+              <Link
+                href={`/learner/programs/${program.id}`}
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                <span className="font-medium">Back to Program</span>
+              </Link>
+            </div>
+          </div>
+
+          <div className="max-w-2xl mx-auto px-4 lg:px-6 py-16 text-center">
+            <div className="w-20 h-20 bg-slate-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
+              <Lock className="w-10 h-10 text-slate-500" />
+            </div>
+            <h2 className="text-2xl font-bold text-slate-900 mb-2">{lesson.title}</h2>
+            <p className="text-slate-500 mb-8">
+              This program is taken in order. Complete &ldquo;{data.prerequisite.title}&rdquo; to unlock this lesson.
+            </p>
+            <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+              <Link href={`/learner/lessons/${data.prerequisite.id}?program=${encodeURIComponent(program.name)}`}>
+                <Button variant="primary" leftIcon={<ChevronLeft className="w-4 h-4" />}>
+                  Open Required Lesson
+                </Button>
+              </Link>
+              <Link href={`/learner/programs/${program.id}`}>
+                <Button variant="ghost">Back to Program</Button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </>
+    );
+  }
+
   // Locked lesson — show inline locked state instead of redirecting
   if (data.isLocked) {
     return (
@@ -290,6 +424,9 @@ export default function LessonViewerPage() {
   }
 
   const isCompleted = progress?.status === 'COMPLETED' || showCompletionCelebration;
+  const startAtSeconds = startAtParam && /^\d+$/.test(startAtParam)
+    ? Number(startAtParam)
+    : progress?.watchPositionSeconds;
   const progressPercent = navigation.totalLessons
     ? Math.round(((navigation.currentIndex ?? 0) / navigation.totalLessons) * 100)
     : 0;
@@ -360,8 +497,8 @@ export default function LessonViewerPage() {
                 <div style={{ position: 'relative', paddingTop: '56.25%' }}>
                   <iframe
                     ref={iframeRef}
-                    src={progress?.watchPositionSeconds
-                      ? `${lesson.contentUrl}${lesson.contentUrl.includes('?') ? '&' : '?'}t=${progress.watchPositionSeconds}&autoplay=false&preload=true`
+                    src={startAtSeconds
+                      ? `${lesson.contentUrl}${lesson.contentUrl.includes('?') ? '&' : '?'}t=${startAtSeconds}&autoplay=false&preload=true`
                       : `${lesson.contentUrl}${lesson.contentUrl.includes('?') ? '&' : '?'}autoplay=false&preload=true`
                     }
                     loading="lazy"
@@ -415,6 +552,8 @@ export default function LessonViewerPage() {
               <div className="flex flex-wrap items-center gap-2">
                 <Badge variant="neutral" size="sm">
                   {lesson.type === 'PDF' && <FileText className="w-3 h-3 mr-1" />}
+                  {lesson.type === 'QUIZ' && <ClipboardCheck className="w-3 h-3 mr-1" />}
+                  {lesson.type === 'ASSIGNMENT' && <ClipboardList className="w-3 h-3 mr-1" />}
                   {lesson.type}
                 </Badge>
                 {lesson.durationSeconds && (
@@ -450,7 +589,9 @@ export default function LessonViewerPage() {
                   </div>
                 </div>
                 <iframe
-                  src={`${lesson.contentUrl}#toolbar=0&navpanes=0&scrollbar=1`}
+                  key={pdfPage ?? 'start'}
+                  ref={pdfRef}
+                  src={`${lesson.contentUrl}#${pdfPage ? `page=${pdfPage}&` : ''}toolbar=0&navpanes=0&scrollbar=1`}
                   className="w-full h-[700px] rounded-lg border border-slate-200"
                 />
               </div>
@@ -478,6 +619,38 @@ export default function LessonViewerPage() {
             </div>
           )}
 
+          {/* Quiz */}
+          {lesson.type === 'QUIZ' && lesson.quiz && (
+            <QuizPlayer
+              lessonId={lesson.id}
+              quiz={lesson.quiz}
+              onPassed={() => {
+                if (!isCompleted) handleMarkComplete();
+              }}
+            />
+          )}
+
+          {/* Assignment: instructions + submission */}
+          {lesson.type === 'ASSIGNMENT' && (
+            <>
+              {lesson.contentText && (
+                <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden mb-6">
+                  <div className="p-6 lg:p-8">
+                    <div
+                      className="prose prose-slate max-w-none prose-headings:text-slate-900 prose-p:text-slate-600 prose-a:text-accent-500 prose-strong:text-slate-900"
+                      dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(lesson.contentText) }}
+                    />
+                  </div>
+                </div>
+              )}
+              <AssignmentPanel
+                key={lesson.submission?.id || 'new'}
+                lessonId={lesson.id}
+                submission={lesson.submission}
+              />
+            </>
+          )}
+
           {/* Attachments (view only) */}
           {lesson.attachments && lesson.attachments.length > 0 && (
             <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden mb-6">
@@ -511,6 +684,26 @@ export default function LessonViewerPage() {
             </div>
           )}
 
+          {/* Transcript */}
+          {lesson.type === 'VIDEO' && lesson.transcripts && lesson.transcripts.length > 0 && (
+            <TranscriptPanel
+              key={lesson.id}
+              transcripts={lesson.transcripts}
+              currentTime={videoTime}
+              onSeek={handleSeek}
+            />
+          )}
+
+          {/* Notes */}
+          <LessonNotes
+            key={lesson.id}
+            lessonId={lesson.id}
+            lessonType={lesson.type}
+            getCurrentPosition={() => positionRef.current}
+            currentPage={pdfPage}
+            onJump={handleJumpToNote}
+          />
+
           {/* Action Area */}
           <div className="mt-8 pt-6 border-t border-slate-200">
             {showCompletionCelebration ? (
@@ -601,6 +794,18 @@ export default function LessonViewerPage() {
                   </Link>
                 )}
               </div>
+            ) : lesson.type === 'ASSIGNMENT' ? (
+              /* Assignments complete when an admin approves the submission */
+              <div className="flex items-center justify-center gap-2 text-slate-500 text-sm">
+                <ClipboardList className="w-4 h-4" />
+                <span>This lesson is completed once your submission is approved</span>
+              </div>
+            ) : lesson.type === 'QUIZ' ? (
+              /* Quizzes complete automatically once passed */
+              <div className="flex items-center justify-center gap-2 text-slate-500 text-sm">
+                <ClipboardCheck className="w-4 h-4" />
+                <span>Score {lesson.quiz?.passingScore ?? 70}% or higher to complete this lesson</span>
+              </div>
             ) : (
               /* Not completed — prompt to mark complete */
               <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
@@ -616,6 +821,9 @@ export default function LessonViewerPage() {
               </div>
             )}
           </div>
+
+          {/* Discussion */}
+          <LessonDiscussion key={lesson.id} lessonId={lesson.id} />
         </div>
       </div>
 
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { StickyNote, Search, Download, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { LearnerHeader } from '@/components/learner';
+import { useSidebar } from '@/lib/sidebar-context';
+import { Button, PageLoading, Pagination } from '@/components/ui';
+import { useNotes, useLearnerHome, useExportNotes, useDeleteNote } from '@/hooks/useLearnerData';
+import { formatNotePosition, getNoteHref } from '@/lib/notes';
+import { LessonNote } from '@/types/learner';
+
+export default function NotesPage() {
+  const { openSidebar } = useSidebar();
+  const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [programId, setProgramId] = useState('');
+
+  const filters = { search: search || undefined, programId: programId || undefined };
+  const { data, isLoading } = useNotes({ ...filters, page, limit: 20 });
+  const { data: home } = useLearnerHome();
+  const exportNotes = useExportNotes();
+  const deleteNote = useDeleteNote();
+
+  const notes = data?.notes;
+  const pagination = data?.pagination;
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
+  const handleDelete = (note: LessonNote) => {
+    if (window.confirm('Delete this note?')) {
+      deleteNote.mutate(note.id);
+    }
+  };
+
+  return (
+    <>
+      <LearnerHeader
+        title="My Notes"
+        subtitle="Everything you've noted across your programs"
+        onMenuClick={openSidebar}
+      />
+
+      <div className="flex-1 p-6 lg:p-8">
+        {/* Filters */}
+        <div className="flex flex-col md:flex-row md:items-center gap-3 mb-6">
+          <form onSubmit={handleSearch} className="flex-1 max-w-md">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="text"
+                placeholder="Search notes..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="w-full pl-10 pr-4 py-2.5 text-sm border border-slate-300 rounded-lg bg-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all"
+              />
+            </div>
+          </form>
+          <select
+            value={programId}
+            onChange={(e) => { setProgramId(e.target.value); setPage(1); }}
+            className="px-3 py-2.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all min-w-[180px]"
+          >
+            <option value="">All Programs</option>
+            {home?.enrolledPrograms.map(program => (
+              <option key={program.id} value={program.id}>{program.name}</option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            leftIcon={<Download className="w-4 h-4" />}
+            onClick={() => exportNotes.mutate(filters)}
+            isLoading={exportNotes.isPending}
+            disabled={!pagination?.total}
+            className="md:ml-auto"
+          >
+            Export Markdown
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <PageLoading />
+        ) : !notes || notes.length === 0 ? (
+          <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft">
+            <div className="text-center py-20">
+              <div className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-5">
+                <StickyNote className="w-10 h-10 text-slate-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-slate-900 mb-2">
+                {search || programId ? 'No notes found' : 'No notes yet'}
+              </h3>
+              <p className="text-slate-500">
+                {search || programId ? 'Try a different search or program' : 'Notes you take while watching or reading lessons appear here'}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft divide-y divide-slate-100">
+              {notes.map(note => {
+                const position = formatNotePosition(note);
+                return (
+                  <div key={note.id} className="p-5 flex gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 text-sm mb-1.5">
+                        {note.lesson && (
+                          <Link href={getNoteHref(note, note.lesson.id)} className="font-medium text-slate-900 hover:text-accent-600">
+                            {note.lesson.title}
+                          </Link>
+                        )}
+                        {position && note.lesson && (
+                          <Link
+                            href={getNoteHref(note, note.lesson.id)}
+                            className="h-6 px-2 inline-flex items-center rounded bg-accent-50 text-accent-700 text-xs font-medium font-mono hover:bg-accent-100"
+                          >
+                            {position}
+                          </Link>
+                        )}
+                        {note.program && <span className="text-slate-400">{note.program.name}</span>}
+                      </div>
+                      <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{note.body}</p>
+                      <p className="text-xs text-slate-400 mt-2">{format(new Date(note.updatedAt), 'MMM d, yyyy h:mm a')}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(note)}
+                      className="self-start p-1.5 text-slate-400 hover:text-red-500"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="mt-6 flex justify-center">
+                <Pagination currentPage={page} totalPages={pagination.totalPages} onPageChange={setPage} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -4,12 +4,12 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   Mail, Phone, Calendar, BookOpen, CheckCircle,
-  Hash, Award, KeyRound, LogOut, ChevronRight, Info, Trophy,
+  Hash, Award, KeyRound, LogOut, ChevronRight, Info, Trophy, Download, Receipt,
 } from 'lucide-react';
 import { LearnerHeader } from '@/components/learner';
 import { useSidebar } from '@/lib/sidebar-context';
 import { Badge, Button, Modal, PageLoading } from '@/components/ui';
-import { useLearnerProfile } from '@/hooks/useLearnerData';
+import { useLearnerProfile, useDownloadCertificate, useLearnerInvoices, useDownloadInvoice } from '@/hooks/useLearnerData';
 import { authApi } from '@/lib/api';
 import { useAuthStore } from '@/lib/auth-store';
 import { format } from 'date-fns';
@@ -68,6 +68,9 @@ export default function LearnerProfilePage() {
   const [showLogoutModal, setShowLogoutModal] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
   const { data: profile, isLoading } = useLearnerProfile();
+  const downloadCertificate = useDownloadCertificate();
+  const { data: invoices } = useLearnerInvoices();
+  const downloadInvoice = useDownloadInvoice();
   const logout = useAuthStore((s) => s.logout);
 
   if (isLoading) {
@@ -282,6 +285,72 @@ export default function LearnerProfilePage() {
             )}
           </div>
 
+          {/* Certificates */}
+          {profile?.certificates && profile.certificates.length > 0 && (
+            <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6 mt-6">
+              <h3 className="font-semibold text-slate-900 mb-4">Certificates</h3>
+              <div className="space-y-2.5">
+                {profile.certificates.map((certificate) => (
+                  <div key={certificate.id} className="flex items-center gap-3 p-3.5 bg-slate-50 rounded-lg">
+                    <div className="w-10 h-10 bg-emerald-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                      <Award className="w-5 h-5 text-emerald-600" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-slate-900 text-sm truncate">{certificate.programName}</p>
+                      <p className="text-xs text-slate-500">
+                        {format(new Date(certificate.issuedAt), 'MMM d, yyyy')} &middot; {certificate.code}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadCertificate.mutate({
+                        certificateId: certificate.id,
+                        programName: certificate.programName,
+                      })}
+                      disabled={downloadCertificate.isPending}
+                      leftIcon={<Download className="w-4 h-4" />}
+                    >
+                      PDF
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Invoices */}
+          {invoices && invoices.length > 0 && (
+            <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6 mt-6">
+              <h3 className="font-semibold text-slate-900 mb-4">Invoices</h3>
+              <div className="space-y-2.5">
+                {invoices.map((invoice) => (
+                  <div key={invoice.id} className="flex items-center gap-3 p-3.5 bg-slate-50 rounded-lg">
+                    <div className="w-10 h-10 bg-primary-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                      <Receipt className="w-5 h-5 text-primary-600" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-slate-900 text-sm truncate">{invoice.programName}</p>
+                      <p className="text-xs text-slate-500">
+                        {format(new Date(invoice.issuedAt), 'MMM d, yyyy')} &middot; {invoice.invoiceNumber} &middot;{' '}
+                        {invoice.currency === 'INR' ? '₹' : `${invoice.currency} `}{invoice.totalAmount.toLocaleString('en-IN')}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadInvoice.mutate(invoice)}
+                      disabled={downloadInvoice.isPending}
+                      leftIcon={<Download className="w-4 h-4" />}
+                    >
+                      PDF
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Quick Actions — taller cards with bolder treatment */}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-6">
             <button
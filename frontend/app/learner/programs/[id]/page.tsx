@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import {
@@ -17,18 +17,29 @@ import {
   Target,
   Lock,
   Sparkles,
+  ClipboardCheck,
+  ClipboardList,
+  Award,
+  Download,
+  CalendarClock,
+  CreditCard,
+  AlertCircle,
 } from 'lucide-react';
 import { LearnerHeader } from '@/components/learner';
 import UpgradeModal from '@/components/learner/UpgradeModal';
+import UnlockCountdown from '@/components/learner/UnlockCountdown';
 import { useSidebar } from '@/lib/sidebar-context';
 import { Button, Badge, PageLoading } from '@/components/ui';
-import { useLearnerProgram } from '@/hooks/useLearnerData';
+import { useLearnerProgram, useDownloadCertificate, usePayInstallment } from '@/hooks/useLearnerData';
 import { LearnerContentItem } from '@/types/learner';
 import clsx from 'clsx';
+import { format } from 'date-fns';
 
 export default function LearnerProgramDetailPage() {
   const params = useParams();
   const programId = params.id as string;
+  const searchParams = useSearchParams();
+  const couponCode = searchParams.get('coupon') || undefined;
   const { openSidebar } = useSidebar();
   const storageKey = `program-tree:${programId}`;
 
@@ -47,8 +58,11 @@ export default function LearnerProgramDetailPage() {
     return !!sessionStorage.getItem(storageKey);
   });
 
-  const [showUpgrade, setShowUpgrade] = useState(false);
-  const { data, isLoading } = useLearnerProgram(programId);
+  // A coupon carried over from registration opens checkout straight away
+  const [showUpgrade, setShowUpgrade] = useState(!!couponCode);
+  const { data, isLoading, refetch } = useLearnerProgram(programId);
+  const downloadCertificate = useDownloadCertificate();
+  const payInstallment = usePayInstallment();
 
   // Only auto-expand if there's no saved state (first visit)
   useEffect(() => {
@@ -105,6 +119,10 @@ export default function LearnerProgramDetailPage() {
         return <FileText className="w-4 h-4" />;
       case 'TEXT':
         return <File className="w-4 h-4" />;
+      case 'QUIZ':
+        return <ClipboardCheck className="w-4 h-4" />;
+      case 'ASSIGNMENT':
+        return <ClipboardList className="w-4 h-4" />;
       default:
         return <File className="w-4 h-4" />;
     }
@@ -131,6 +149,68 @@ export default function LearnerProgramDetailPage() {
       const isInProgress = status === 'IN_PROGRESS';
       const isLocked = item.isLocked === true;
 
+      // Drip-scheduled lessons show when they open instead of the upgrade prompt
+      if (item.unlocksAt) {
+        return (
+          <div
+            key={item.id}
+            className="flex items-center justify-between py-3.5 px-4 rounded-lg bg-slate-50/50 border border-slate-100 w-full opacity-75"
+            style={{ marginLeft: depth * 20 }}
+          >
+            <div className="flex items-center gap-3.5">
+              <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-slate-200 text-slate-400">
+                <CalendarClock className="w-5 h-5" />
+              </div>
+              <div>
+                <p className="font-medium text-slate-500">{item.title}</p>
+                <div className="flex items-center gap-2 mt-1">
+                  <Badge variant="neutral" size="sm">{item.lessonType}</Badge>
+                  {item.durationSeconds && (
+                    <span className="flex items-center gap-1 text-xs text-slate-400">
+                      <Clock className="w-3 h-3" />
+                      {Math.round(item.durationSeconds / 60)} min
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+            <UnlockCountdown
+              unlocksAt={item.unlocksAt}
+              onUnlock={refetch}
+              className="text-xs font-medium text-slate-500 whitespace-nowrap"
+            />
+          </div>
+        );
+      }
+
+      // Sequential programs: point learners at the lesson they need to finish first
+      if (item.prerequisite) {
+        return (
+          <Link
+            key={item.id}
+            href={`/learner/lessons/${item.prerequisite.id}?program=${encodeURIComponent(program.name)}`}
+            className="flex items-center justify-between py-3.5 px-4 rounded-lg bg-slate-50/50 border border-slate-100 w-full transition-all hover:bg-slate-100 hover:border-slate-200 opacity-75 hover:opacity-100 group/locked"
+            style={{ marginLeft: depth * 20 }}
+          >
+            <div className="flex items-center gap-3.5">
+              <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-slate-200 text-slate-400">
+                <Lock className="w-5 h-5" />
+              </div>
+              <div>
+                <p className="font-medium text-slate-500">{item.title}</p>
+                <div className="flex items-center gap-2 mt-1">
+                  <Badge variant="neutral" size="sm">{item.lessonType}</Badge>
+                  <span className="text-xs text-slate-400">
+                    Complete &ldquo;{item.prerequisite.title}&rdquo; first
+                  </span>
+                </div>
+              </div>
+            </div>
+            <ChevronRight className="w-4 h-4 text-slate-400 opacity-0 group-hover/locked:opacity-100 transition-opacity" />
+          </Link>
+        );
+      }
+
       if (isLocked) {
         return (
           <button
@@ -257,6 +337,12 @@ export default function LearnerProgramDetailPage() {
               {lessonCount} {lessonCount === 1 ? 'lesson' : 'lessons'}
             </span>
           </div>
+          {item.unlocksAt && (
+            <span className="flex items-center gap-1.5 text-xs text-slate-500">
+              <CalendarClock className="w-3.5 h-3.5" />
+              <UnlockCountdown unlocksAt={item.unlocksAt} onUnlock={refetch} />
+            </span>
+          )}
         </button>
 
         {isExpanded && hasChildren && (
@@ -299,8 +385,10 @@ export default function LearnerProgramDetailPage() {
     );
   }
 
-  const { program, content, progress, enrollmentType } = data;
+  const { program, content, progress, enrollmentType, certificate, suspendedAt, installments = [], installmentPlans } = data;
   const isFreeEnrollment = enrollmentType === 'FREE';
+  const nextInstallment = installments.find(i => !i.paidAt);
+  const currencySymbol = program.currency === 'INR' ? '\u20B9' : '$';
 
   // Calculate progress and locked counts
   const countLessons = (items: LearnerContentItem[]): { total: number; completed: number; free: number; locked: number } => {
@@ -416,13 +504,84 @@ export default function LearnerProgramDetailPage() {
                     Ready to Start
                   </Badge>
                 )}
+                {program.isSequential && (
+                  <span className="text-xs text-primary-300">Lessons unlock in order</span>
+                )}
               </div>
             </div>
           </div>
         </div>
 
+        {/* Certificate */}
+        {certificate && (
+          <div className="bg-gradient-to-r from-emerald-50 to-teal-50 border border-emerald-200 rounded-xl p-5 mb-6">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <div className="w-10 h-10 bg-emerald-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                  <Award className="w-5 h-5 text-emerald-600" />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-slate-900">Certificate Earned</h3>
+                  <p className="text-sm text-slate-600 mt-0.5">
+                    Issued {format(new Date(certificate.issuedAt), 'MMMM d, yyyy')} &middot; ID {certificate.code}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="primary"
+                onClick={() => downloadCertificate.mutate({ certificateId: certificate.id, programName: program.name })}
+                isLoading={downloadCertificate.isPending}
+                leftIcon={<Download className="w-4 h-4" />}
+                className="flex-shrink-0"
+              >
+                Download Certificate
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Installment due (or overdue, with access paused) */}
+        {nextInstallment && (
+          <div className={clsx(
+            'border rounded-xl p-5 mb-6',
+            suspendedAt ? 'bg-red-50 border-red-200' : 'bg-white border-slate-200/80 shadow-soft'
+          )}>
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <div className={clsx(
+                  'w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0',
+                  suspendedAt ? 'bg-red-100' : 'bg-slate-100'
+                )}>
+                  {suspendedAt
+                    ? <AlertCircle className="w-5 h-5 text-red-600" />
+                    : <CreditCard className="w-5 h-5 text-slate-600" />}
+                </div>
+                <div>
+                  <h3 className="font-semibold text-slate-900">
+                    {suspendedAt ? 'Access Paused' : `Installment ${nextInstallment.sequence} of ${installments.length}`}
+                  </h3>
+                  <p className="text-sm text-slate-600 mt-0.5">
+                    {suspendedAt
+                      ? `Installment ${nextInstallment.sequence} of ${installments.length} was due on ${format(new Date(nextInstallment.dueDate), 'MMMM d, yyyy')}. Pay it to restore access to all lessons.`
+                      : `${currencySymbol}${nextInstallment.amount} due on ${format(new Date(nextInstallment.dueDate), 'MMMM d, yyyy')}`}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant={suspendedAt ? 'danger' : 'primary'}
+                onClick={() => payInstallment.mutate(nextInstallment.id)}
+                isLoading={payInstallment.isPending}
+                leftIcon={<CreditCard className="w-4 h-4" />}
+                className="flex-shrink-0"
+              >
+                Pay {currencySymbol}{nextInstallment.amount}
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Upgrade Banner for FREE enrollments */}
-        {isFreeEnrollment && program.price && Number(program.price) > 0 && (
+        {isFreeEnrollment && !suspendedAt && program.price && Number(program.price) > 0 && (
           <div className="bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-xl p-5 mb-6">
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
               <div className="flex items-start gap-3">
@@ -442,7 +601,7 @@ export default function LearnerProgramDetailPage() {
                 onClick={() => setShowUpgrade(true)}
                 className="flex-shrink-0"
               >
-                Upgrade for {program.currency === 'INR' ? '\u20B9' : '$'}{program.price}
+                Upgrade for {currencySymbol}{program.price}
               </Button>
             </div>
           </div>
@@ -476,7 +635,7 @@ export default function LearnerProgramDetailPage() {
       </div>
 
       {/* Upgrade Modal */}
-      {isFreeEnrollment && program.price && Number(program.price) > 0 && (
+      {isFreeEnrollment && !suspendedAt && program.price && Number(program.price) > 0 && (
         <UpgradeModal
           isOpen={showUpgrade}
           onClose={() => setShowUpgrade(false)}
@@ -485,6 +644,8 @@ export default function LearnerProgramDetailPage() {
           price={Number(program.price)}
           currency={program.currency || 'INR'}
           lockedLessonCount={lessonCounts.locked}
+          initialCouponCode={couponCode}
+          installmentPlans={installmentPlans}
         />
       )}
     </>
@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Search, PlayCircle, FileText, Lock, CalendarClock } from 'lucide-react';
+import { format } from 'date-fns';
+import { LearnerHeader } from '@/components/learner';
+import HighlightedSegments from '@/components/learner/HighlightedSegments';
+import { useSidebar } from '@/lib/sidebar-context';
+import { PageLoading } from '@/components/ui';
+import { useLearnerSearch, useTranscriptSearch } from '@/hooks/useLearnerData';
+import { formatTimestamp } from '@/lib/notes';
+import { getCueHref } from '@/lib/transcripts';
+import { LessonPrerequisite } from '@/types/learner';
+
+// Marks each search word in a transcript line
+function HighlightedText({ text, query }: { text: string; query: string }) {
+  const terms = query.split(/\s+/).filter(Boolean).map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return <>{text}</>;
+  const parts = text.split(new RegExp(`(${terms.join('|')})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, i) => (i % 2 === 1
+        ? <mark key={i} className="bg-accent-100 text-accent-900 rounded px-0.5">{part}</mark>
+        : <span key={i}>{part}</span>
+      ))}
+    </>
+  );
+}
+
+// Why a result's text is hidden, or null when the lesson is open
+function Unavailable({ isLocked, unlocksAt, prerequisite }: {
+  isLocked: boolean;
+  unlocksAt: string | null;
+  prerequisite?: LessonPrerequisite | null;
+}) {
+  if (isLocked) {
+    return (
+      <p className="flex items-center gap-1.5 text-sm text-slate-500">
+        <Lock className="w-3.5 h-3.5" />
+        Upgrade to the full program to open this lesson
+      </p>
+    );
+  }
+  if (unlocksAt) {
+    return (
+      <p className="flex items-center gap-1.5 text-sm text-slate-500">
+        <CalendarClock className="w-3.5 h-3.5" />
+        Unlocks on {format(new Date(unlocksAt), 'MMM d, yyyy')}
+      </p>
+    );
+  }
+  if (prerequisite) {
+    return (
+      <p className="flex items-center gap-1.5 text-sm text-slate-500">
+        <Lock className="w-3.5 h-3.5" />
+        Complete &ldquo;{prerequisite.title}&rdquo; first
+      </p>
+    );
+  }
+  return null;
+}
+
+function SearchResults() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const query = (searchParams.get('q') || '').trim();
+  const [searchInput, setSearchInput] = useState(query);
+  const { data: lessons, isLoading: lessonsLoading } = useLearnerSearch(query);
+  const { data: videos, isLoading: videosLoading } = useTranscriptSearch(query);
+
+  // Follow searches started from the header
+  useEffect(() => {
+    setSearchInput(query);
+  }, [query]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = searchInput.trim();
+    router.replace(q ? `/learner/search?q=${encodeURIComponent(q)}` : '/learner/search');
+  };
+
+  const hasLessons = !!lessons && lessons.length > 0;
+  const hasVideos = !!videos && videos.length > 0;
+
+  return (
+    <div className="flex-1 p-6 lg:p-8">
+      <form onSubmit={handleSearch} className="max-w-xl mb-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            placeholder="Search lessons, resources and video transcripts..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="w-full pl-10 pr-4 py-2.5 text-sm border border-slate-300 rounded-lg bg-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500 hover:border-slate-400 transition-all"
+          />
+        </div>
+        {query.length === 1 && (
+          <p className="text-xs text-slate-500 mt-1.5">Type at least 2 characters</p>
+        )}
+      </form>
+
+      {query.length < 2 ? null : lessonsLoading || videosLoading ? (
+        <PageLoading />
+      ) : !hasLessons && !hasVideos ? (
+        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft">
+          <div className="text-center py-20">
+            <div className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-5">
+              <Search className="w-10 h-10 text-slate-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-slate-900 mb-2">No results</h3>
+            <p className="text-slate-500">Nothing in your programs mentions &ldquo;{query}&rdquo;</p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {hasLessons && (
+            <section>
+              <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wide mb-3">Lessons</h2>
+              <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft divide-y divide-slate-100">
+                {lessons.map(result => (
+                  <div key={result.lesson.id} className="p-5">
+                    <div className="flex flex-wrap items-center gap-2 text-sm mb-1">
+                      <FileText className="w-4 h-4 text-slate-400" />
+                      <Link href={`/learner/lessons/${result.lesson.id}`} className="font-medium text-slate-900 hover:text-accent-600">
+                        <HighlightedSegments segments={result.title} />
+                      </Link>
+                      <span className="text-slate-400">{result.program.name}</span>
+                    </div>
+                    {(result.topic || result.subtopic) && (
+                      <p className="text-xs text-slate-500 mb-2">
+                        {result.topic && <HighlightedSegments segments={result.topic} />}
+                        {result.topic && result.subtopic && <span> &rsaquo; </span>}
+                        {result.subtopic && <HighlightedSegments segments={result.subtopic} />}
+                      </p>
+                    )}
+                    <Unavailable isLocked={result.isLocked} unlocksAt={result.unlocksAt} prerequisite={result.prerequisite} />
+                    {result.snippet && (
+                      <p className="text-sm text-slate-600">
+                        <HighlightedSegments segments={result.snippet} />
+                      </p>
+                    )}
+                    {result.attachments && (
+                      <p className="text-xs text-slate-500 mt-1.5">
+                        Resources: <HighlightedSegments segments={result.attachments} />
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {hasVideos && (
+            <section>
+              <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wide mb-3">In videos</h2>
+              <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft divide-y divide-slate-100">
+                {videos.map(result => (
+                  <div key={result.transcriptId} className="p-5">
+                    <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+                      <PlayCircle className="w-4 h-4 text-slate-400" />
+                      <Link href={`/learner/lessons/${result.lesson.id}`} className="font-medium text-slate-900 hover:text-accent-600">
+                        {result.lesson.title}
+                      </Link>
+                      <span className="text-slate-400">{result.program.name}</span>
+                      <span className="text-xs text-slate-400">&middot; {result.label}</span>
+                    </div>
+
+                    {result.isLocked || result.unlocksAt || result.prerequisite ? (
+                      <Unavailable isLocked={result.isLocked} unlocksAt={result.unlocksAt} prerequisite={result.prerequisite} />
+                    ) : result.matches.length > 0 ? (
+                      <div className="space-y-1">
+                        {result.matches.map(match => (
+                          <Link
+                            key={match.start}
+                            href={getCueHref(result.lesson.id, match.start)}
+                            className="flex gap-3 px-2 py-1 -mx-2 rounded-lg hover:bg-slate-50"
+                          >
+                            <span className="flex-shrink-0 w-14 text-xs font-mono text-accent-700 pt-0.5">
+                              {formatTimestamp(match.start)}
+                            </span>
+                            <span className="text-sm text-slate-600">
+                              <HighlightedText text={match.text} query={query} />
+                            </span>
+                          </Link>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-slate-500">Mentioned across several lines of the transcript</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SearchPage() {
+  const { openSidebar } = useSidebar();
+
+  return (
+    <>
+      <LearnerHeader
+        title="Search"
+        subtitle="Find lessons, resources and moments in your program videos"
+        onMenuClick={openSidebar}
+      />
+      <Suspense fallback={<PageLoading />}>
+        <SearchResults />
+      </Suspense>
+    </>
+  );
+}
@@ -1,12 +1,14 @@
 'use client';
 
 import { useState, useMemo, useEffect } from 'react';
-import { Calendar, Clock, Video, ExternalLink, Radio, ChevronLeft, ChevronRight, List, Grid3X3, ChevronDown } from 'lucide-react';
+import { Calendar, Clock, Video, ExternalLink, Radio, ChevronLeft, ChevronRight, List, Grid3X3, ChevronDown, CalendarPlus, Rss, Copy, PlayCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { LearnerHeader } from '@/components/learner';
 import { useSidebar } from '@/lib/sidebar-context';
-import { Button, Badge, PageLoading, Modal } from '@/components/ui';
-import { useLearnerSessionsCalendar } from '@/hooks/useLearnerData';
+import { Button, Badge, PageLoading, Modal, LoadingSpinner } from '@/components/ui';
+import { useLearnerSessionsCalendar, useDownloadSessionIcs, useCalendarFeed, useResetCalendarFeed, useSessionRecording } from '@/hooks/useLearnerData';
 import { UpcomingSession } from '@/types/learner';
+import { learnerApi } from '@/lib/api';
 import {
   format,
   isToday,
@@ -40,7 +42,9 @@ export default function LearnerSessionsPage() {
   const [showMonthPicker, setShowMonthPicker] = useState(false);
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
   const [selectedSession, setSelectedSession] = useState<UpcomingSession | null>(null);
+  const [playingSession, setPlayingSession] = useState<UpcomingSession | null>(null);
   const [pastExpanded, setPastExpanded] = useState(false);
+  const [showSubscribe, setShowSubscribe] = useState(false);
 
   // Load persisted view preference
   useEffect(() => {
@@ -55,6 +59,22 @@ export default function LearnerSessionsPage() {
   const month = currentDate.getMonth() + 1;
   const year = currentDate.getFullYear();
   const { data: sessions, isLoading } = useLearnerSessionsCalendar(month, year);
+  const downloadIcs = useDownloadSessionIcs();
+  const recording = useSessionRecording(playingSession);
+  const { data: feedUrl } = useCalendarFeed(showSubscribe);
+  const resetFeed = useResetCalendarFeed();
+  // Calendar apps subscribe through webcal:// links
+  const webcalUrl = feedUrl?.replace(/^https?:/, 'webcal:');
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Calendar link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
 
   // Calendar calculations
   const monthStart = startOfMonth(currentDate);
@@ -177,6 +197,9 @@ export default function LearnerSessionsPage() {
               {sessionPassed && !isLive && (
                 <Badge variant="neutral" size="sm">Ended</Badge>
               )}
+              {session.isModified && !sessionPassed && (
+                <Badge variant="warning" size="sm">Updated</Badge>
+              )}
             </div>
 
             {session.description && (
@@ -203,9 +226,19 @@ export default function LearnerSessionsPage() {
             </div>
           </div>
 
+          {sessionPassed && session.hasRecording && (
+            <Button
+              variant="outline"
+              leftIcon={<PlayCircle className="w-4 h-4" />}
+              onClick={(e) => { e.stopPropagation(); setPlayingSession(session); }}
+            >
+              Watch Recording
+            </Button>
+          )}
+
           {session.meetLink && !sessionPassed && (
             <a
-              href={session.meetLink}
+              href={learnerApi.getSessionJoinUrl(session.id, session.occurrenceDate)}
               target="_blank"
               rel="noopener noreferrer"
               onClick={(e) => e.stopPropagation()}
@@ -439,30 +472,40 @@ export default function LearnerSessionsPage() {
               </button>
             </div>
 
-            {/* View Toggle — hidden on mobile */}
-            <div className="hidden sm:flex items-center gap-1 p-1 bg-slate-100 rounded-lg">
-              <button
-                onClick={() => handleViewChange('calendar')}
-                className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
-                  viewMode === 'calendar'
-                    ? 'bg-white text-accent-600 shadow-sm'
-                    : 'text-slate-600 hover:text-accent-600'
-                }`}
-              >
-                <Grid3X3 className="w-4 h-4" />
-                Calendar
-              </button>
+            <div className="flex items-center gap-2">
               <button
-                onClick={() => handleViewChange('list')}
-                className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
-                  viewMode === 'list'
-                    ? 'bg-white text-accent-600 shadow-sm'
-                    : 'text-slate-600 hover:text-accent-600'
-                }`}
+                onClick={() => setShowSubscribe(true)}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 hover:text-accent-600 hover:bg-slate-100 rounded-lg transition-colors"
               >
-                <List className="w-4 h-4" />
-                List
+                <Rss className="w-4 h-4" />
+                Subscribe
               </button>
+
+              {/* View Toggle — hidden on mobile */}
+              <div className="hidden sm:flex items-center gap-1 p-1 bg-slate-100 rounded-lg">
+                <button
+                  onClick={() => handleViewChange('calendar')}
+                  className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    viewMode === 'calendar'
+                      ? 'bg-white text-accent-600 shadow-sm'
+                      : 'text-slate-600 hover:text-accent-600'
+                  }`}
+                >
+                  <Grid3X3 className="w-4 h-4" />
+                  Calendar
+                </button>
+                <button
+                  onClick={() => handleViewChange('list')}
+                  className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    viewMode === 'list'
+                      ? 'bg-white text-accent-600 shadow-sm'
+                      : 'text-slate-600 hover:text-accent-600'
+                  }`}
+                >
+                  <List className="w-4 h-4" />
+                  List
+                </button>
+              </div>
             </div>
           </div>
 
@@ -606,6 +649,9 @@ export default function LearnerSessionsPage() {
                   {sessionPassed && !isLive && (
                     <Badge variant="neutral" size="sm">Ended</Badge>
                   )}
+                  {selectedSession.isModified && !sessionPassed && (
+                    <Badge variant="warning" size="sm">Updated</Badge>
+                  )}
                 </div>
                 {selectedSession.description && (
                   <p className="text-slate-600 whitespace-pre-wrap leading-relaxed">
@@ -665,7 +711,7 @@ export default function LearnerSessionsPage() {
                     <div className="flex-1 min-w-0">
                       <p className="text-sm text-slate-500">Meeting Link</p>
                       <a
-                        href={selectedSession.meetLink}
+                        href={learnerApi.getSessionJoinUrl(selectedSession.id, selectedSession.occurrenceDate)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="font-medium text-accent-500 hover:text-accent-600 truncate block"
@@ -695,9 +741,28 @@ export default function LearnerSessionsPage() {
                 <Button variant="outline" onClick={() => setSelectedSession(null)}>
                   Close
                 </Button>
+                {!sessionPassed && (
+                  <Button
+                    variant="outline"
+                    leftIcon={<CalendarPlus className="w-4 h-4" />}
+                    onClick={() => downloadIcs.mutate(selectedSession)}
+                    isLoading={downloadIcs.isPending}
+                  >
+                    Add to calendar
+                  </Button>
+                )}
+                {sessionPassed && selectedSession.hasRecording && (
+                  <Button
+                    variant="primary"
+                    leftIcon={<PlayCircle className="w-4 h-4" />}
+                    onClick={() => { setSelectedSession(null); setPlayingSession(selectedSession); }}
+                  >
+                    Watch Recording
+                  </Button>
+                )}
                 {selectedSession.meetLink && !sessionPassed && (
                   <a
-                    href={selectedSession.meetLink}
+                    href={learnerApi.getSessionJoinUrl(selectedSession.id, selectedSession.occurrenceDate)}
                     target="_blank"
                     rel="noopener noreferrer"
                   >
@@ -715,6 +780,100 @@ export default function LearnerSessionsPage() {
           );
         })()}
       </Modal>
+
+      {/* Recording Player */}
+      <Modal
+        isOpen={!!playingSession}
+        onClose={() => setPlayingSession(null)}
+        title={playingSession ? `${playingSession.name} · Recording` : 'Recording'}
+        size="xl"
+      >
+        {recording.isLoading ? (
+          <div className="flex justify-center py-16">
+            <LoadingSpinner />
+          </div>
+        ) : recording.data ? (
+          <div className="bg-slate-900 rounded-xl overflow-hidden">
+            <div style={{ position: 'relative', paddingTop: '56.25%' }}>
+              <iframe
+                src={`${recording.data.videoUrl}${recording.data.videoUrl.includes('?') ? '&' : '?'}autoplay=false&preload=true`}
+                style={{
+                  border: 'none',
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  height: '100%',
+                  width: '100%',
+                }}
+                allow="accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture"
+                allowFullScreen
+              />
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500 text-center py-8">This recording is no longer available.</p>
+        )}
+      </Modal>
+
+      {/* Calendar Subscription Modal */}
+      <Modal
+        isOpen={showSubscribe}
+        onClose={() => setShowSubscribe(false)}
+        title="Subscribe to sessions"
+        size="md"
+      >
+        <div className="space-y-5">
+          <p className="text-sm text-slate-600">
+            Add your live sessions to Google Calendar, Outlook or Apple Calendar. New sessions, changes and
+            cancellations show up automatically.
+          </p>
+
+          <div>
+            <p className="text-sm font-medium text-slate-700 mb-1.5">Your calendar link</p>
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={feedUrl || 'Loading…'}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-3 py-2 text-sm border border-slate-300 rounded-lg bg-slate-50 text-slate-600"
+              />
+              <Button variant="outline" leftIcon={<Copy className="w-4 h-4" />} onClick={copyFeedUrl} disabled={!feedUrl}>
+                Copy
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500 mt-1.5">
+              Keep this link private — anyone with it can see your sessions.{' '}
+              <button
+                type="button"
+                onClick={() => resetFeed.mutate()}
+                disabled={resetFeed.isPending}
+                className="font-medium text-accent-600 hover:text-accent-700"
+              >
+                Reset link
+              </button>
+            </p>
+          </div>
+
+          {webcalUrl && (
+            <div className="flex flex-wrap gap-2">
+              <a
+                href={`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(webcalUrl)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <Button variant="outline" leftIcon={<CalendarPlus className="w-4 h-4" />}>
+                  Google Calendar
+                </Button>
+              </a>
+              <a href={webcalUrl}>
+                <Button variant="outline" leftIcon={<CalendarPlus className="w-4 h-4" />}>
+                  Outlook / Apple Calendar
+                </Button>
+              </a>
+            </div>
+          )}
+        </div>
+      </Modal>
     </>
   );
 }
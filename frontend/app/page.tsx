@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuthStore } from '@/lib/auth-store';
+import { isStaffRole } from '@/lib/permissions';
 
 export default function HomePage() {
   const router = useRouter();
@@ -23,7 +24,7 @@ export default function HomePage() {
 
       if (!state.isAuthenticated) {
         router.push('/auth/login');
-      } else if (state.user?.role === 'ADMIN') {
+      } else if (isStaffRole(state.user?.role)) {
         router.push('/admin');
       } else {
         router.push('/learner');
@@ -0,0 +1,7 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = { title: 'Verify Certificate' };
+
+export default function Layout({ children }: { children: React.ReactNode }) {
+  return children;
+}
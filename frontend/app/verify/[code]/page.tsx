@@ -0,0 +1,84 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { GraduationCap, ShieldCheck, ShieldX } from 'lucide-react';
+import { publicApi } from '@/lib/api';
+import { PageLoading } from '@/components/ui';
+import { CertificateVerification } from '@/types/learner';
+import { format } from 'date-fns';
+
+export default function VerifyCertificatePage() {
+  const params = useParams();
+  const code = params.code as string;
+
+  const [certificate, setCertificate] = useState<CertificateVerification | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    publicApi.verifyCertificate(code)
+      .then((res) => setCertificate(res.data))
+      .catch(() => setCertificate(null))
+      .finally(() => setIsLoading(false));
+  }, [code]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-accent-50 flex items-center justify-center p-6">
+      <div className="w-full max-w-lg">
+        <div className="flex items-center justify-center gap-3 mb-8">
+          <div className="w-10 h-10 bg-accent-500 rounded-xl flex items-center justify-center">
+            <GraduationCap className="w-6 h-6 text-white" />
+          </div>
+          <h1 className="text-xl font-bold text-slate-900">Wave Academy</h1>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200/80 shadow-soft p-8 text-center">
+          {isLoading ? (
+            <PageLoading />
+          ) : certificate ? (
+            <>
+              <div className="w-16 h-16 bg-emerald-50 rounded-full flex items-center justify-center mx-auto mb-4">
+                <ShieldCheck className="w-8 h-8 text-emerald-600" />
+              </div>
+              <h2 className="text-lg font-semibold text-slate-900 mb-1">Valid Certificate</h2>
+              <p className="text-sm text-slate-500 mb-6">This certificate was issued by Wave Academy</p>
+
+              <dl className="text-left space-y-3 p-4 bg-slate-50 rounded-lg">
+                <div>
+                  <dt className="text-xs text-slate-500 font-medium">Awarded to</dt>
+                  <dd className="font-medium text-slate-900">{certificate.learnerName}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-slate-500 font-medium">Program</dt>
+                  <dd className="font-medium text-slate-900">{certificate.programName}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-slate-500 font-medium">Issued on</dt>
+                  <dd className="font-medium text-slate-900">
+                    {format(new Date(certificate.issuedAt), 'MMMM d, yyyy')}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-slate-500 font-medium">Certificate ID</dt>
+                  <dd className="font-mono text-sm text-slate-900">{certificate.code}</dd>
+                </div>
+              </dl>
+            </>
+          ) : (
+            <>
+              <div className="w-16 h-16 bg-red-50 rounded-full flex items-center justify-center mx-auto mb-4">
+                <ShieldX className="w-8 h-8 text-red-500" />
+              </div>
+              <h2 className="text-lg font-semibold text-slate-900 mb-1">Certificate Not Found</h2>
+              <p className="text-sm text-slate-500">
+                No certificate matches the code <span className="font-mono text-slate-700">{code}</span>.
+                Check the code and try again.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { Menu, LogOut, User, Search } from 'lucide-react';
 import { useAuthStore } from '@/lib/auth-store';
 import { authApi } from '@/lib/api';
+import { isStaffRole, ROLE_LABELS } from '@/lib/permissions';
 import Button from '@/components/ui/Button';
 import Modal from '@/components/ui/Modal';
 import GlobalSearch from './GlobalSearch';
@@ -106,7 +107,9 @@ export default function AdminHeader({ title, subtitle, onMenuClick }: AdminHeade
                 <p className="text-sm font-medium text-slate-900 leading-tight">
                   {user?.name || 'Admin'}
                 </p>
-                <p className="text-xs text-slate-500">Administrator</p>
+                <p className="text-xs text-slate-500">
+                  {isStaffRole(user?.role) ? ROLE_LABELS[user.role] : 'Administrator'}
+                </p>
               </div>
             </div>
 
@@ -8,6 +8,11 @@ import {
   BookOpen,
   Users,
   Calendar,
+  ClipboardList,
+  MessageSquare,
+  BadgePercent,
+  Receipt,
+  History,
   Settings,
   X,
   ChevronsLeft,
@@ -15,6 +20,8 @@ import {
   GraduationCap,
 } from 'lucide-react';
 import clsx from 'clsx';
+import { useAuthStore } from '@/lib/auth-store';
+import { canViewAdminPage, getAdminHome } from '@/lib/permissions';
 
 interface AdminSidebarProps {
   isOpen?: boolean;
@@ -26,6 +33,11 @@ const navItems = [
   { href: '/admin/programs', icon: BookOpen, label: 'Programs' },
   { href: '/admin/learners', icon: Users, label: 'Learners' },
   { href: '/admin/sessions', icon: Calendar, label: 'Sessions' },
+  { href: '/admin/assignments', icon: ClipboardList, label: 'Assignments' },
+  { href: '/admin/discussions', icon: MessageSquare, label: 'Discussions' },
+  { href: '/admin/coupons', icon: BadgePercent, label: 'Coupons' },
+  { href: '/admin/invoices', icon: Receipt, label: 'Invoices' },
+  { href: '/admin/audit', icon: History, label: 'Audit Log' },
   { href: '/admin/settings', icon: Settings, label: 'Settings' },
 ];
 
@@ -33,6 +45,7 @@ const COLLAPSED_KEY = 'admin-sidebar-collapsed';
 
 export default function AdminSidebar({ isOpen, onClose }: AdminSidebarProps) {
   const pathname = usePathname();
+  const role = useAuthStore((state) => state.user?.role);
   const [isCollapsed, setIsCollapsed] = useState(false);
 
   // Load collapsed state from localStorage
@@ -84,7 +97,7 @@ export default function AdminSidebar({ isOpen, onClose }: AdminSidebarProps) {
           'flex items-center h-16 border-b border-primary-400/30 flex-shrink-0',
           isCollapsed ? 'justify-center px-2' : 'justify-between px-5'
         )}>
-          <Link href="/admin" className="flex items-center gap-2.5 group">
+          <Link href={getAdminHome(role)} className="flex items-center gap-2.5 group">
             <div className="relative flex-shrink-0">
               <div className="w-9 h-9 bg-accent-500 rounded-lg flex items-center justify-center shadow-sm">
                 <GraduationCap className="w-5 h-5 text-white" />
@@ -141,7 +154,7 @@ export default function AdminSidebar({ isOpen, onClose }: AdminSidebarProps) {
 
         {/* Navigation */}
         <nav className="px-3 py-5 space-y-1">
-          {navItems.map((item) => {
+          {navItems.filter((item) => canViewAdminPage(role, item.href)).map((item) => {
             const Icon = item.icon;
             const active = isActive(item.href);
 
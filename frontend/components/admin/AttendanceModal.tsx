@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Download, Check, X } from 'lucide-react';
+import { format } from 'date-fns';
+import clsx from 'clsx';
+import { Modal, Button, Badge, Select, LoadingSpinner } from '@/components/ui';
+import { useSessionAttendance, useMarkAttendance, useExportSessionAttendance } from '@/hooks';
+import { Session } from '@/types/admin';
+
+interface AttendanceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: Session | null;
+}
+
+type Tab = 'occurrences' | 'learners';
+
+export default function AttendanceModal({ isOpen, onClose, session }: AttendanceModalProps) {
+  const [tab, setTab] = useState<Tab>('occurrences');
+  const [occurrenceDate, setOccurrenceDate] = useState('');
+
+  const { data: report, isLoading } = useSessionAttendance(isOpen ? session?.id : undefined);
+  const markAttendance = useMarkAttendance();
+  const exportAttendance = useExportSessionAttendance();
+
+  // Newest occurrence first
+  const occurrences = report ? [...report.occurrences].reverse() : [];
+  const selected = occurrences.find(o => o.occurrenceDate === occurrenceDate) || occurrences[0];
+
+  useEffect(() => {
+    if (isOpen) {
+      setTab('occurrences');
+      setOccurrenceDate('');
+    }
+  }, [isOpen, session?.id]);
+
+  const handleMark = (userId: string, present: boolean) => {
+    if (!session || !selected) return;
+    markAttendance.mutate({
+      id: session.id,
+      data: { userId, occurrenceDate: selected.occurrenceDate, present },
+    });
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={session ? `Attendance · ${session.name}` : 'Attendance'}
+      size="lg"
+    >
+      {isLoading || !report ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : occurrences.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-8">
+          This session hasn&apos;t started yet. Attendance shows up here once it has.
+        </p>
+      ) : (
+        <div className="space-y-5">
+          <div className="flex items-center gap-1 p-1 bg-slate-100 rounded-lg w-fit">
+            {([['occurrences', 'By session'], ['learners', 'By learner']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setTab(value)}
+                className={clsx(
+                  'px-3 py-1.5 text-sm font-medium rounded-md transition-colors',
+                  tab === value ? 'bg-white text-primary-900 shadow-sm' : 'text-slate-600 hover:text-primary-900'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'occurrences' && selected && (
+            <div className="space-y-4">
+              {occurrences.length > 1 && (
+                <Select
+                  label="Occurrence"
+                  value={selected.occurrenceDate}
+                  onChange={(e) => setOccurrenceDate(e.target.value)}
+                  options={occurrences.map(o => ({
+                    value: o.occurrenceDate,
+                    label: `${format(new Date(o.startTime), 'EEE, MMM d, yyyy · h:mm a')} (${o.presentCount}/${o.expectedCount})`,
+                  }))}
+                />
+              )}
+
+              <p className="text-sm text-slate-500">
+                {selected.presentCount} of {selected.expectedCount} learners attended on{' '}
+                {format(new Date(selected.startTime), 'EEEE, MMMM d')}
+              </p>
+
+              {selected.attendees.length === 0 ? (
+                <p className="text-sm text-slate-500 text-center py-4">No learners were expected at this session</p>
+              ) : (
+                <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg max-h-96 overflow-y-auto">
+                  {selected.attendees.map(attendee => (
+                    <div key={attendee.userId} className="flex items-center justify-between gap-3 px-3 py-2.5">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-primary-900 truncate">{attendee.name}</p>
+                        <p className="text-xs text-slate-500 truncate">
+                          {attendee.joinedAt
+                            ? `Joined ${format(new Date(attendee.joinedAt), 'h:mm a')}${attendee.joinCount > 1 ? ` · ${attendee.joinCount} joins` : ''}`
+                            : attendee.email}
+                          {attendee.markedByAdmin && ' · marked by admin'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => handleMark(attendee.userId, true)}
+                          disabled={attendee.present || markAttendance.isPending}
+                          className={clsx(
+                            'flex items-center gap-1 px-2.5 py-1 text-xs font-medium rounded-md border transition-colors',
+                            attendee.present
+                              ? 'bg-emerald-50 border-emerald-200 text-emerald-700'
+                              : 'border-slate-200 text-slate-500 hover:bg-slate-50'
+                          )}
+                        >
+                          <Check className="w-3.5 h-3.5" />
+                          Present
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleMark(attendee.userId, false)}
+                          disabled={!attendee.present || markAttendance.isPending}
+                          className={clsx(
+                            'flex items-center gap-1 px-2.5 py-1 text-xs font-medium rounded-md border transition-colors',
+                            !attendee.present
+                              ? 'bg-red-50 border-red-200 text-red-700'
+                              : 'border-slate-200 text-slate-500 hover:bg-slate-50'
+                          )}
+                        >
+                          <X className="w-3.5 h-3.5" />
+                          Absent
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {tab === 'learners' && (
+            report.learners.length === 0 ? (
+              <p className="text-sm text-slate-500 text-center py-4">No learners were expected at this session</p>
+            ) : (
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg max-h-96 overflow-y-auto">
+                {report.learners.map(learner => (
+                  <div key={learner.userId} className="flex items-center justify-between gap-3 px-3 py-2.5">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-primary-900 truncate">{learner.name}</p>
+                      <p className="text-xs text-slate-500 truncate">{learner.email}</p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className="text-xs text-slate-500">{learner.attended}/{learner.expected}</span>
+                      <Badge
+                        variant={learner.percentage >= 75 ? 'success' : learner.percentage >= 50 ? 'warning' : 'error'}
+                        size="sm"
+                      >
+                        {learner.percentage}%
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      <Modal.Footer>
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+        <Button
+          variant="primary"
+          leftIcon={<Download className="w-4 h-4" />}
+          onClick={() => session && exportAttendance.mutate(session)}
+          isLoading={exportAttendance.isPending}
+          disabled={!report || report.learners.length === 0}
+        >
+          Export CSV
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -0,0 +1,54 @@
+import { AuditLogEntry } from '@/types/admin';
+import { getAuditChanges, getAuditExtraDetails, formatAuditValue } from '@/lib/audit';
+
+// An audit entry's details: changed fields side by side, then the rest as JSON
+export default function AuditDetails({ details }: { details: AuditLogEntry['details'] }) {
+  const changes = getAuditChanges(details);
+  const extra = getAuditExtraDetails(details);
+  const hasExtra = Object.keys(extra).length > 0;
+
+  if (!changes && !hasExtra) {
+    return <p className="text-sm text-slate-500">No details recorded</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {changes && (
+        changes.length === 0 ? (
+          <p className="text-sm text-slate-500">Saved without changes</p>
+        ) : (
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 uppercase tracking-wide">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Field</th>
+                  <th className="px-3 py-2 text-left font-medium">Before</th>
+                  <th className="px-3 py-2 text-left font-medium">After</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {changes.map(change => (
+                  <tr key={change.field}>
+                    <td className="px-3 py-2 font-mono text-xs text-slate-600">{change.field}</td>
+                    <td className="px-3 py-2">
+                      <span className="px-1 rounded bg-red-50 text-red-700 line-through break-all">{formatAuditValue(change.before)}</span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className="px-1 rounded bg-emerald-50 text-emerald-700 break-all">{formatAuditValue(change.after)}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {hasExtra && (
+        <pre className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 overflow-x-auto">
+          {JSON.stringify(extra, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
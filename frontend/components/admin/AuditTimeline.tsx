@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { History, ChevronDown, ChevronRight } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import clsx from 'clsx';
+import { Button, LoadingSpinner } from '@/components/ui';
+import { useAuditLogs } from '@/hooks';
+import { AuditLogFilters } from '@/types/admin';
+import { formatAuditAction, formatAuditTargetType, getAuditTargetLabel, getAuditTargetHref } from '@/lib/audit';
+import AuditDetails from './AuditDetails';
+
+interface AuditTimelineProps {
+  filters: AuditLogFilters;
+  emptyMessage?: string;
+}
+
+// Dot colour by the kind of action
+function getActionStyle(action: string) {
+  if (action.startsWith('DELETE_') || action.startsWith('REFUND_')) return 'bg-red-500';
+  if (action.startsWith('CREATE_') || action.startsWith('ADD_') || action.startsWith('PUBLISH_') || action.startsWith('IMPORT_')) return 'bg-emerald-500';
+  return 'bg-accent-500';
+}
+
+export default function AuditTimeline({ filters, emptyMessage = 'No activity recorded yet' }: AuditTimelineProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useAuditLogs(filters);
+
+  const logs = data?.pages.flatMap(page => page.logs) || [];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="text-sm text-red-600 text-center py-12">Failed to load activity</p>;
+  }
+
+  if (logs.length === 0) {
+    return (
+      <div className="text-center py-12 text-slate-500">
+        <History className="w-12 h-12 mx-auto mb-2 text-slate-300" />
+        <p>{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <ol className="relative border-l border-slate-200 ml-2">
+        {logs.map(log => {
+          const isExpanded = expandedId === log.id;
+          const label = getAuditTargetLabel(log);
+          const href = getAuditTargetHref(log);
+          return (
+            <li key={log.id} className="ml-5 pb-5 last:pb-0">
+              <span className={clsx('absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full ring-4 ring-white', getActionStyle(log.action))} />
+              <div className="flex flex-wrap items-baseline gap-x-2 gap-y-0.5">
+                <span className="font-medium text-slate-900">{formatAuditAction(log.action)}</span>
+                <span className="text-sm text-slate-500">
+                  {formatAuditTargetType(log.targetType)}
+                  {label && (
+                    <>
+                      {' '}
+                      {href ? (
+                        <Link href={href} className="text-accent-700 hover:underline">{label}</Link>
+                      ) : (
+                        <span className="text-slate-700">{label}</span>
+                      )}
+                    </>
+                  )}
+                </span>
+              </div>
+              <p className="text-xs text-slate-500 mt-0.5">
+                {log.admin.name || log.admin.email} &middot;{' '}
+                <span title={format(new Date(log.createdAt), 'MMM d, yyyy h:mm:ss a')}>
+                  {formatDistanceToNow(new Date(log.createdAt), { addSuffix: true })}
+                </span>
+              </p>
+              <button
+                type="button"
+                onClick={() => setExpandedId(isExpanded ? null : log.id)}
+                className="inline-flex items-center gap-1 mt-1.5 text-xs font-medium text-slate-500 hover:text-slate-700"
+              >
+                {isExpanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                Details
+              </button>
+              {isExpanded && (
+                <div className="mt-2">
+                  <AuditDetails details={log.details} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {hasNextPage && (
+        <div className="flex justify-center pt-5">
+          <Button variant="outline" size="sm" onClick={() => fetchNextPage()} isLoading={isFetchingNextPage}>
+            Load older activity
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Button, Input } from '@/components/ui';
+import { useCreateCohort, useUpdateCohort } from '@/hooks';
+import { Cohort, CohortFormData } from '@/types/admin';
+
+interface CohortModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  programId: string;
+  cohort?: Cohort | null;
+}
+
+export default function CohortModal({ isOpen, onClose, programId, cohort }: CohortModalProps) {
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const createCohort = useCreateCohort();
+  const updateCohort = useUpdateCohort();
+
+  const isEditing = !!cohort;
+
+  useEffect(() => {
+    if (cohort) {
+      setName(cohort.name);
+      setStartDate(cohort.startDate.slice(0, 10));
+      setEndDate(cohort.endDate ? cohort.endDate.slice(0, 10) : '');
+    } else {
+      setName('');
+      setStartDate('');
+      setEndDate('');
+    }
+    setErrors({});
+  }, [cohort, isOpen]);
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+    if (!name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    if (!startDate) {
+      newErrors.startDate = 'Start date is required';
+    }
+    if (startDate && endDate && endDate < startDate) {
+      newErrors.endDate = 'End date must be on or after the start date';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    const data: CohortFormData = {
+      name: name.trim(),
+      startDate,
+      endDate: endDate || null,
+    };
+
+    try {
+      if (isEditing) {
+        await updateCohort.mutateAsync({ id: cohort.id, data });
+      } else {
+        await createCohort.mutateAsync({ ...data, programId });
+      }
+      onClose();
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  const isSubmitting = createCohort.isPending || updateCohort.isPending;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? 'Edit Cohort' : 'Create Cohort'}
+      size="md"
+    >
+      <form onSubmit={handleSubmit}>
+        <div className="space-y-5">
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Jan 2026 batch"
+            error={errors.name}
+            maxLength={100}
+            required
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Start Date"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              error={errors.startDate}
+              required
+            />
+            <Input
+              label="End Date"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              helperText="Optional"
+              error={errors.endDate}
+              min={startDate || undefined}
+            />
+          </div>
+        </div>
+
+        <Modal.Footer>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" isLoading={isSubmitting}>
+            {isEditing ? 'Save Changes' : 'Create Cohort'}
+          </Button>
+        </Modal.Footer>
+      </form>
+    </Modal>
+  );
+}
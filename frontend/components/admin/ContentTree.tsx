@@ -40,6 +40,8 @@ import {
   X,
   MoveRight,
   CornerDownRight,
+  ClipboardCheck,
+  ClipboardList,
 } from 'lucide-react';
 import { Button, Badge, Modal, Input } from '@/components/ui';
 import {
@@ -54,7 +56,16 @@ import {
   useDeleteLesson,
   useReorderContent,
 } from '@/hooks';
-import { ContentItem, LessonType } from '@/types/admin';
+import { ContentItem, LessonType, QuizQuestion, LessonTranscript } from '@/types/admin';
+import QuizEditor from './QuizEditor';
+import TranscriptManager from './TranscriptManager';
+import DripScheduleFields, {
+  DripSchedule,
+  EMPTY_DRIP_SCHEDULE,
+  dripScheduleFromItem,
+  dripSchedulePayload,
+  formatDripSchedule,
+} from './DripScheduleFields';
 import { adminApi } from '@/lib/api';
 import clsx from 'clsx';
 import toast from 'react-hot-toast';
@@ -63,6 +74,7 @@ interface ContentTreeProps {
   programId: string;
   content: ContentItem[];
   onRefresh?: () => void;
+  readOnly?: boolean; // Staff who can view but not edit content
 }
 
 type AddLessonContext = {
@@ -84,6 +96,11 @@ interface FlattenedItem {
   instructorNotes?: string;
   thumbnailUrl?: string;
   isFree?: boolean;
+  passingScore?: number | null;
+  unlockAfterDays?: number | null;
+  unlockAt?: string | null;
+  quizQuestions?: QuizQuestion[];
+  transcripts?: LessonTranscript[];
   depth: number;
   parentId: string | null;
   parentType: 'program' | 'topic' | 'subtopic' | null;
@@ -115,6 +132,11 @@ function flattenTree(
       instructorNotes: item.instructorNotes,
       thumbnailUrl: item.thumbnailUrl,
       isFree: item.isFree,
+      passingScore: item.passingScore,
+      unlockAfterDays: item.unlockAfterDays,
+      unlockAt: item.unlockAt,
+      quizQuestions: item.quizQuestions,
+      transcripts: item.transcripts,
       depth,
       parentId,
       parentType,
@@ -147,6 +169,7 @@ function SortableItem({
   onAddLesson,
   onEdit,
   onDelete,
+  readOnly,
 }: {
   item: FlattenedItem;
   onToggleExpand: (id: string) => void;
@@ -154,6 +177,7 @@ function SortableItem({
   onAddLesson: (parentType: 'topic' | 'subtopic', parentId: string, parentName?: string) => void;
   onEdit: (item: FlattenedItem) => void;
   onDelete: (item: FlattenedItem) => void;
+  readOnly?: boolean;
 }) {
   const {
     attributes,
@@ -178,6 +202,10 @@ function SortableItem({
         return <FileType className="w-4 h-4 text-red-500" />;
       case 'TEXT':
         return <Type className="w-4 h-4 text-slate-500" />;
+      case 'QUIZ':
+        return <ClipboardCheck className="w-4 h-4 text-emerald-600" />;
+      case 'ASSIGNMENT':
+        return <ClipboardList className="w-4 h-4 text-amber-600" />;
       default:
         return <File className="w-4 h-4 text-slate-500" />;
     }
@@ -196,13 +224,15 @@ function SortableItem({
         )}
       >
         <div className="flex items-center gap-3">
-          <button
-            {...attributes}
-            {...listeners}
-            className="p-1 text-slate-300 hover:text-slate-500 cursor-grab active:cursor-grabbing"
-          >
-            <GripVertical className="w-4 h-4" />
-          </button>
+          {!readOnly && (
+            <button
+              {...attributes}
+              {...listeners}
+              className="p-1 text-slate-300 hover:text-slate-500 cursor-grab active:cursor-grabbing"
+            >
+              <GripVertical className="w-4 h-4" />
+            </button>
+          )}
           <div className="p-1.5 bg-slate-100 rounded-md">
             {getLessonIcon(item.lessonType)}
           </div>
@@ -213,6 +243,9 @@ function SortableItem({
               {item.isFree && (
                 <Badge variant="success" size="sm">Free</Badge>
               )}
+              {formatDripSchedule(item) && (
+                <Badge variant="info" size="sm">{formatDripSchedule(item)}</Badge>
+              )}
               {item.lessonType === 'VIDEO' && !item.contentUrl && (
                 <Badge variant="warning" size="sm">No video</Badge>
               )}
@@ -222,6 +255,12 @@ function SortableItem({
               {item.lessonType === 'TEXT' && !item.contentText && (
                 <Badge variant="warning" size="sm">No content</Badge>
               )}
+              {item.lessonType === 'QUIZ' && !item.quizQuestions?.length && (
+                <Badge variant="warning" size="sm">No questions</Badge>
+              )}
+              {item.lessonType === 'ASSIGNMENT' && !item.contentText && (
+                <Badge variant="warning" size="sm">No instructions</Badge>
+              )}
               {item.durationSeconds && (
                 <span className="text-xs text-slate-400">
                   {item.lessonType === 'VIDEO' ? (
@@ -244,22 +283,24 @@ function SortableItem({
             </div>
           </div>
         </div>
-        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-          <button
-            onClick={() => onEdit(item)}
-            className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors"
-            title="Edit lesson"
-          >
-            <Edit className="w-4 h-4" />
-          </button>
-          <button
-            onClick={() => onDelete(item)}
-            className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
-            title="Delete lesson"
-          >
-            <Trash2 className="w-4 h-4" />
-          </button>
-        </div>
+        {!readOnly && (
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              onClick={() => onEdit(item)}
+              className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors"
+              title="Edit lesson"
+            >
+              <Edit className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDelete(item)}
+              className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+              title="Delete lesson"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
       </div>
     );
   }
@@ -278,13 +319,15 @@ function SortableItem({
       )}
     >
       <div className="flex items-center gap-2">
-        <button
-          {...attributes}
-          {...listeners}
-          className="p-1 text-slate-300 hover:text-slate-500 cursor-grab active:cursor-grabbing"
-        >
-          <GripVertical className="w-4 h-4" />
-        </button>
+        {!readOnly && (
+          <button
+            {...attributes}
+            {...listeners}
+            className="p-1 text-slate-300 hover:text-slate-500 cursor-grab active:cursor-grabbing"
+          >
+            <GripVertical className="w-4 h-4" />
+          </button>
+        )}
         <button
           onClick={() => onToggleExpand(item.id)}
           className="p-1 hover:bg-slate-200 rounded transition-colors"
@@ -311,48 +354,53 @@ function SortableItem({
         </div>
         <span className="font-medium text-slate-800">{item.name}</span>
         <Badge variant={isSubtopic ? 'warning' : 'info'} size="sm">{item.type}</Badge>
+        {formatDripSchedule(item) && (
+          <Badge variant="neutral" size="sm">{formatDripSchedule(item)}</Badge>
+        )}
       </div>
-      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-        {item.type === 'topic' && (
-          <>
-            <button
-              onClick={() => onAddSubtopic(item.id, item.name || '')}
-              className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-slate-600 hover:text-amber-600 hover:bg-amber-50 rounded-md transition-colors"
-            >
-              <Folder className="w-3.5 h-3.5" />
-              Subtopic
-            </button>
+      {!readOnly && (
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {item.type === 'topic' && (
+            <>
+              <button
+                onClick={() => onAddSubtopic(item.id, item.name || '')}
+                className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-slate-600 hover:text-amber-600 hover:bg-amber-50 rounded-md transition-colors"
+              >
+                <Folder className="w-3.5 h-3.5" />
+                Subtopic
+              </button>
+              <button
+                onClick={() => onAddLesson('topic', item.id, item.name)}
+                className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+              >
+                <FileText className="w-3.5 h-3.5" />
+                Lesson
+              </button>
+            </>
+          )}
+          {item.type === 'subtopic' && (
             <button
-              onClick={() => onAddLesson('topic', item.id, item.name)}
+              onClick={() => onAddLesson('subtopic', item.id, item.name)}
               className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
             >
               <FileText className="w-3.5 h-3.5" />
               Lesson
             </button>
-          </>
-        )}
-        {item.type === 'subtopic' && (
+          )}
           <button
-            onClick={() => onAddLesson('subtopic', item.id, item.name)}
-            className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+            onClick={() => onEdit(item)}
+            className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors"
           >
-            <FileText className="w-3.5 h-3.5" />
-            Lesson
+            <Edit className="w-4 h-4" />
           </button>
-        )}
-        <button
-          onClick={() => onEdit(item)}
-          className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors"
-        >
-          <Edit className="w-4 h-4" />
-        </button>
-        <button
-          onClick={() => onDelete(item)}
-          className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
-        >
-          <Trash2 className="w-4 h-4" />
-        </button>
-      </div>
+          <button
+            onClick={() => onDelete(item)}
+            className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -367,6 +415,10 @@ function DragOverlayItem({ item }: { item: FlattenedItem }) {
         return <FileType className="w-4 h-4 text-red-500" />;
       case 'TEXT':
         return <Type className="w-4 h-4 text-slate-500" />;
+      case 'QUIZ':
+        return <ClipboardCheck className="w-4 h-4 text-emerald-600" />;
+      case 'ASSIGNMENT':
+        return <ClipboardList className="w-4 h-4 text-amber-600" />;
       default:
         return <File className="w-4 h-4 text-slate-500" />;
     }
@@ -397,19 +449,20 @@ function DragOverlayItem({ item }: { item: FlattenedItem }) {
   );
 }
 
-export default function ContentTree({ programId, content, onRefresh }: ContentTreeProps) {
+export default function ContentTree({ programId, content, onRefresh, readOnly }: ContentTreeProps) {
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [activeId, setActiveId] = useState<string | null>(null);
   const [showAddTopic, setShowAddTopic] = useState(false);
   const [showAddSubtopic, setShowAddSubtopic] = useState<{ topicId: string; topicName: string } | null>(null);
   const [showAddLesson, setShowAddLesson] = useState<AddLessonContext>(null);
-  const [editingTopic, setEditingTopic] = useState<{ id: string; name: string; type: 'topic' | 'subtopic' } | null>(null);
+  const [editingTopic, setEditingTopic] = useState<{ id: string; name: string; type: 'topic' | 'subtopic'; drip: DripSchedule } | null>(null);
   const [editingLesson, setEditingLesson] = useState<FlattenedItem | null>(null);
   const [deletingItem, setDeletingItem] = useState<{ type: string; id: string; name: string } | null>(null);
   const [isReordering, setIsReordering] = useState(false);
 
   // Form states
   const [newTopicName, setNewTopicName] = useState('');
+  const [newTopicDrip, setNewTopicDrip] = useState<DripSchedule>(EMPTY_DRIP_SCHEDULE);
   const [newSubtopicName, setNewSubtopicName] = useState('');
 
   // Lesson form states
@@ -422,6 +475,9 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
   const [lessonNotes, setLessonNotes] = useState('');
   const [lessonDuration, setLessonDuration] = useState('');
   const [lessonIsFree, setLessonIsFree] = useState(false);
+  const [lessonQuizQuestions, setLessonQuizQuestions] = useState<QuizQuestion[]>([]);
+  const [lessonPassingScore, setLessonPassingScore] = useState('');
+  const [lessonDrip, setLessonDrip] = useState<DripSchedule>(EMPTY_DRIP_SCHEDULE);
   const [uploadingThumbnail, setUploadingThumbnail] = useState(false);
   const [uploadingPdf, setUploadingPdf] = useState(false);
 
@@ -504,6 +560,9 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
     setLessonNotes('');
     setLessonDuration('');
     setLessonIsFree(false);
+    setLessonQuizQuestions([]);
+    setLessonPassingScore('');
+    setLessonDrip(EMPTY_DRIP_SCHEDULE);
   };
 
   // Format duration for edit (convert seconds to HH:MM:SS for video)
@@ -688,11 +747,12 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
   const handleAddTopic = async () => {
     if (!newTopicName.trim()) return;
     try {
-      await createTopic.mutateAsync({ programId, name: newTopicName.trim() });
+      await createTopic.mutateAsync({ programId, name: newTopicName.trim(), ...dripSchedulePayload(newTopicDrip) });
     } catch {
       // Error handled by mutation onError
     } finally {
       setNewTopicName('');
+      setNewTopicDrip(EMPTY_DRIP_SCHEDULE);
       setShowAddTopic(false);
     }
   };
@@ -731,14 +791,18 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
       data.contentUrl = lessonVideoUrl;
     } else if (lessonType === 'PDF' && lessonPdfUrl) {
       data.contentUrl = lessonPdfUrl;
-    } else if (lessonType === 'TEXT' && lessonText) {
+    } else if ((lessonType === 'TEXT' || lessonType === 'ASSIGNMENT') && lessonText) {
       data.contentText = lessonText;
+    } else if (lessonType === 'QUIZ') {
+      data.quizQuestions = lessonQuizQuestions;
+      data.passingScore = lessonPassingScore ? parseInt(lessonPassingScore) : null;
     }
 
     if (lessonThumbnail) data.thumbnailUrl = lessonThumbnail;
     if (lessonNotes) data.instructorNotes = lessonNotes;
     if (lessonDuration) data.durationSeconds = parseDuration(lessonDuration, lessonType);
     data.isFree = lessonIsFree;
+    Object.assign(data, dripSchedulePayload(lessonDrip));
 
     try {
       await createLesson.mutateAsync(data);
@@ -762,14 +826,18 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
       data.contentUrl = lessonVideoUrl;
     } else if (lessonType === 'PDF' && lessonPdfUrl) {
       data.contentUrl = lessonPdfUrl;
-    } else if (lessonType === 'TEXT' && lessonText) {
+    } else if ((lessonType === 'TEXT' || lessonType === 'ASSIGNMENT') && lessonText) {
       data.contentText = lessonText;
+    } else if (lessonType === 'QUIZ') {
+      data.quizQuestions = lessonQuizQuestions;
+      data.passingScore = lessonPassingScore ? parseInt(lessonPassingScore) : null;
     }
 
     if (lessonThumbnail) data.thumbnailUrl = lessonThumbnail;
     if (lessonNotes) data.instructorNotes = lessonNotes;
     if (lessonDuration) data.durationSeconds = parseDuration(lessonDuration, lessonType);
     data.isFree = lessonIsFree;
+    Object.assign(data, dripSchedulePayload(lessonDrip));
 
     try {
       await updateLesson.mutateAsync({ id: editingLesson.id, data, programId });
@@ -794,7 +862,7 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
       } else {
         await updateTopic.mutateAsync({
           id: editingTopic.id,
-          data: { name: editingTopic.name.trim() },
+          data: { name: editingTopic.name.trim(), ...dripSchedulePayload(editingTopic.drip) },
           programId,
         });
       }
@@ -896,22 +964,26 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
       {/* Action Bar */}
       <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
         <div className="flex items-center gap-2">
-          <Button
-            variant="primary"
-            size="sm"
-            leftIcon={<Plus className="w-4 h-4" />}
-            onClick={() => setShowAddLesson({ parentType: 'program', parentId: programId, parentName: 'Program' })}
-          >
-            Add Lesson
-          </Button>
-          <Button
-            variant="secondary"
-            size="sm"
-            leftIcon={<Folder className="w-4 h-4" />}
-            onClick={() => setShowAddTopic(true)}
-          >
-            Add Topic
-          </Button>
+          {!readOnly && (
+            <>
+              <Button
+                variant="primary"
+                size="sm"
+                leftIcon={<Plus className="w-4 h-4" />}
+                onClick={() => setShowAddLesson({ parentType: 'program', parentId: programId, parentName: 'Program' })}
+              >
+                Add Lesson
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                leftIcon={<Folder className="w-4 h-4" />}
+                onClick={() => setShowAddTopic(true)}
+              >
+                Add Topic
+              </Button>
+            </>
+          )}
         </div>
         {content.length > 0 && (
           <div className="flex items-center gap-2">
@@ -994,11 +1066,22 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
                         setLessonNotes(item.instructorNotes || '');
                         setLessonThumbnail(item.thumbnailUrl || '');
                         setLessonIsFree(item.isFree || false);
+                        setLessonQuizQuestions(item.quizQuestions?.map(({ type, prompt, options, correctAnswers, points }) => ({
+                          type, prompt, options, correctAnswers, points,
+                        })) || []);
+                        setLessonPassingScore(item.passingScore != null ? String(item.passingScore) : '');
+                        setLessonDrip(dripScheduleFromItem(item));
                       } else {
-                        setEditingTopic({ id: item.id, name: item.name || '', type: item.type as 'topic' | 'subtopic' });
+                        setEditingTopic({
+                          id: item.id,
+                          name: item.name || '',
+                          type: item.type as 'topic' | 'subtopic',
+                          drip: dripScheduleFromItem(item),
+                        });
                       }
                     }}
                     onDelete={(item) => setDeletingItem({ type: item.type, id: item.id, name: item.name || item.title || '' })}
+                    readOnly={readOnly}
                   />
                 ))}
               </SortableContext>
@@ -1014,25 +1097,33 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
             <FileText className="w-8 h-8 text-slate-400" />
           </div>
           <h3 className="text-lg font-semibold text-slate-900 mb-2">No content yet</h3>
-          <p className="text-slate-500 mb-6 max-w-sm mx-auto">
-            Start building your program by adding lessons directly, or organize them into topics and subtopics.
-          </p>
-          <div className="flex items-center justify-center gap-3">
-            <Button
-              variant="primary"
-              leftIcon={<Plus className="w-4 h-4" />}
-              onClick={() => setShowAddLesson({ parentType: 'program', parentId: programId, parentName: 'Program' })}
-            >
-              Add Lesson
-            </Button>
-            <Button
-              variant="outline"
-              leftIcon={<Folder className="w-4 h-4" />}
-              onClick={() => setShowAddTopic(true)}
-            >
-              Add Topic
-            </Button>
-          </div>
+          {readOnly ? (
+            <p className="text-slate-500 max-w-sm mx-auto">
+              This program has no lessons yet.
+            </p>
+          ) : (
+            <>
+              <p className="text-slate-500 mb-6 max-w-sm mx-auto">
+                Start building your program by adding lessons directly, or organize them into topics and subtopics.
+              </p>
+              <div className="flex items-center justify-center gap-3">
+                <Button
+                  variant="primary"
+                  leftIcon={<Plus className="w-4 h-4" />}
+                  onClick={() => setShowAddLesson({ parentType: 'program', parentId: programId, parentName: 'Program' })}
+                >
+                  Add Lesson
+                </Button>
+                <Button
+                  variant="outline"
+                  leftIcon={<Folder className="w-4 h-4" />}
+                  onClick={() => setShowAddTopic(true)}
+                >
+                  Add Topic
+                </Button>
+              </div>
+            </>
+          )}
         </div>
       )}
 
@@ -1049,6 +1140,13 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
           placeholder="e.g., Getting Started"
           autoFocus
         />
+        <div className="mt-4">
+          <DripScheduleFields
+            value={newTopicDrip}
+            onChange={setNewTopicDrip}
+            hint="Applies to every lesson in this topic"
+          />
+        </div>
         <Modal.Footer>
           <Button variant="outline" onClick={() => setShowAddTopic(false)}>Cancel</Button>
           <Button variant="primary" onClick={handleAddTopic} isLoading={createTopic.isPending}>
@@ -1102,11 +1200,13 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
 
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-2">Lesson Type</label>
-            <div className="grid grid-cols-3 gap-2">
+            <div className="grid grid-cols-5 gap-2">
               {[
                 { type: 'VIDEO' as LessonType, icon: Video, label: 'Video', desc: 'Bunny.net video' },
                 { type: 'PDF' as LessonType, icon: FileType, label: 'PDF', desc: 'Document' },
                 { type: 'TEXT' as LessonType, icon: Type, label: 'Text', desc: 'Rich text' },
+                { type: 'QUIZ' as LessonType, icon: ClipboardCheck, label: 'Quiz', desc: 'Auto-graded' },
+                { type: 'ASSIGNMENT' as LessonType, icon: ClipboardList, label: 'Assignment', desc: 'Graded by you' },
               ].map(({ type, icon: Icon, label, desc }) => (
                 <button
                   key={type}
@@ -1220,6 +1320,29 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
             </div>
           )}
 
+          {lessonType === 'ASSIGNMENT' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Instructions</label>
+              <textarea
+                value={lessonText}
+                onChange={(e) => setLessonText(e.target.value)}
+                placeholder="Describe what learners should submit..."
+                rows={6}
+                className="input resize-none"
+              />
+              <p className="text-xs text-slate-500 mt-1">Learners can submit a text answer, a file, or both</p>
+            </div>
+          )}
+
+          {lessonType === 'QUIZ' && (
+            <QuizEditor
+              questions={lessonQuizQuestions}
+              onChange={setLessonQuizQuestions}
+              passingScore={lessonPassingScore}
+              onPassingScoreChange={setLessonPassingScore}
+            />
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               {lessonType === 'VIDEO' ? (
@@ -1331,6 +1454,12 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
               <p className="text-xs text-slate-500">Free enrollment users can access this lesson without paying</p>
             </div>
           </label>
+
+          <DripScheduleFields
+            value={lessonDrip}
+            onChange={setLessonDrip}
+            hint="If the topic is also scheduled, the later of the two dates applies"
+          />
         </div>
 
         <Modal.Footer>
@@ -1354,6 +1483,15 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
           onChange={(e) => setEditingTopic(prev => prev ? { ...prev, name: e.target.value } : null)}
           autoFocus
         />
+        {editingTopic?.type === 'topic' && (
+          <div className="mt-4">
+            <DripScheduleFields
+              value={editingTopic.drip}
+              onChange={(drip) => setEditingTopic(prev => prev ? { ...prev, drip } : null)}
+              hint="Applies to every lesson in this topic"
+            />
+          </div>
+        )}
         <Modal.Footer>
           <Button variant="outline" onClick={() => setEditingTopic(null)}>Cancel</Button>
           <Button variant="primary" onClick={handleUpdateTopic} isLoading={updateTopic.isPending || updateSubtopic.isPending}>
@@ -1389,11 +1527,13 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
 
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-2">Lesson Type</label>
-            <div className="grid grid-cols-3 gap-2">
+            <div className="grid grid-cols-5 gap-2">
               {[
                 { type: 'VIDEO' as LessonType, icon: Video, label: 'Video', desc: 'Bunny.net video' },
                 { type: 'PDF' as LessonType, icon: FileType, label: 'PDF', desc: 'Document' },
                 { type: 'TEXT' as LessonType, icon: Type, label: 'Text', desc: 'Rich text' },
+                { type: 'QUIZ' as LessonType, icon: ClipboardCheck, label: 'Quiz', desc: 'Auto-graded' },
+                { type: 'ASSIGNMENT' as LessonType, icon: ClipboardList, label: 'Assignment', desc: 'Graded by you' },
               ].map(({ type, icon: Icon, label, desc }) => (
                 <button
                   key={type}
@@ -1435,6 +1575,14 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
             </div>
           )}
 
+          {lessonType === 'VIDEO' && editingLesson?.lessonType === 'VIDEO' && (
+            <TranscriptManager
+              lessonId={editingLesson.id}
+              programId={programId}
+              transcripts={flattenedItems.find(item => item.id === editingLesson.id)?.transcripts || []}
+            />
+          )}
+
           {lessonType === 'PDF' && (
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">PDF Document</label>
@@ -1507,6 +1655,29 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
             </div>
           )}
 
+          {lessonType === 'ASSIGNMENT' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Instructions</label>
+              <textarea
+                value={lessonText}
+                onChange={(e) => setLessonText(e.target.value)}
+                placeholder="Describe what learners should submit..."
+                rows={6}
+                className="input resize-none"
+              />
+              <p className="text-xs text-slate-500 mt-1">Learners can submit a text answer, a file, or both</p>
+            </div>
+          )}
+
+          {lessonType === 'QUIZ' && (
+            <QuizEditor
+              questions={lessonQuizQuestions}
+              onChange={setLessonQuizQuestions}
+              passingScore={lessonPassingScore}
+              onPassingScoreChange={setLessonPassingScore}
+            />
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               {lessonType === 'VIDEO' ? (
@@ -1618,6 +1789,12 @@ export default function ContentTree({ programId, content, onRefresh }: ContentTr
               <p className="text-xs text-slate-500">Free enrollment users can access this lesson without paying</p>
             </div>
           </label>
+
+          <DripScheduleFields
+            value={lessonDrip}
+            onChange={setLessonDrip}
+            hint="If the topic is also scheduled, the later of the two dates applies"
+          />
         </div>
 
         <Modal.Footer>
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Modal, Button, Input, Select } from '@/components/ui';
+import { useCreateCoupon, useUpdateCoupon, usePrograms } from '@/hooks';
+import { Coupon, CouponFormData, DiscountType } from '@/types/admin';
+
+interface CouponModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  coupon?: Coupon | null;
+}
+
+export default function CouponModal({ isOpen, onClose, coupon }: CouponModalProps) {
+  const [code, setCode] = useState('');
+  const [description, setDescription] = useState('');
+  const [discountType, setDiscountType] = useState<DiscountType>('PERCENT');
+  const [discountValue, setDiscountValue] = useState('');
+  const [programId, setProgramId] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxUses, setMaxUses] = useState('');
+  const [perUserLimit, setPerUserLimit] = useState('1');
+  const [isActive, setIsActive] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const { data: programs } = usePrograms();
+  const createCoupon = useCreateCoupon();
+  const updateCoupon = useUpdateCoupon();
+
+  const isEditing = !!coupon;
+
+  useEffect(() => {
+    if (coupon) {
+      setCode(coupon.code);
+      setDescription(coupon.description || '');
+      setDiscountType(coupon.discountType);
+      setDiscountValue(String(coupon.discountValue));
+      setProgramId(coupon.program?.id || '');
+      setExpiresAt(coupon.expiresAt ? format(new Date(coupon.expiresAt), 'yyyy-MM-dd') : '');
+      setMaxUses(coupon.maxUses != null ? String(coupon.maxUses) : '');
+      setPerUserLimit(coupon.perUserLimit != null ? String(coupon.perUserLimit) : '');
+      setIsActive(coupon.isActive);
+    } else {
+      setCode('');
+      setDescription('');
+      setDiscountType('PERCENT');
+      setDiscountValue('');
+      setProgramId('');
+      setExpiresAt('');
+      setMaxUses('');
+      setPerUserLimit('1');
+      setIsActive(true);
+    }
+    setErrors({});
+  }, [coupon, isOpen]);
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      newErrors.code = 'Use 3-32 letters, numbers, dashes or underscores';
+    }
+    const value = parseFloat(discountValue);
+    if (!value || value <= 0) {
+      newErrors.discountValue = 'Enter a discount greater than 0';
+    } else if (discountType === 'PERCENT' && value > 100) {
+      newErrors.discountValue = 'Percent discount cannot exceed 100';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    const data: CouponFormData = {
+      code,
+      description: description.trim() || null,
+      discountType,
+      discountValue: parseFloat(discountValue),
+      programId: programId || null,
+      // Valid through the end of the chosen day in the admin's timezone
+      expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+      maxUses: maxUses ? parseInt(maxUses) : null,
+      perUserLimit: perUserLimit ? parseInt(perUserLimit) : null,
+      isActive,
+    };
+
+    try {
+      if (isEditing) {
+        await updateCoupon.mutateAsync({ id: coupon.id, data });
+      } else {
+        await createCoupon.mutateAsync(data);
+      }
+      onClose();
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  const isSubmitting = createCoupon.isPending || updateCoupon.isPending;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? 'Edit Coupon' : 'Create Coupon'}
+      size="md"
+    >
+      <form onSubmit={handleSubmit}>
+        <div className="space-y-5">
+          <Input
+            label="Code"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase().replace(/\s/g, ''))}
+            placeholder="e.g., LAUNCH20"
+            error={errors.code}
+            maxLength={32}
+            required
+          />
+
+          <Input
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g., Launch week offer"
+            helperText="Internal note, not shown to learners"
+            maxLength={200}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Discount Type"
+              value={discountType}
+              onChange={(e) => setDiscountType(e.target.value as DiscountType)}
+              options={[
+                { value: 'PERCENT', label: 'Percent off' },
+                { value: 'FLAT', label: 'Flat amount off' },
+              ]}
+            />
+            <Input
+              label={discountType === 'PERCENT' ? 'Discount (%)' : 'Discount (₹)'}
+              type="number"
+              value={discountValue}
+              onChange={(e) => setDiscountValue(e.target.value)}
+              placeholder={discountType === 'PERCENT' ? '20' : '500'}
+              error={errors.discountValue}
+              min="0"
+              max={discountType === 'PERCENT' ? '100' : undefined}
+              step="0.01"
+              required
+            />
+          </div>
+
+          <Select
+            label="Program"
+            value={programId}
+            onChange={(e) => setProgramId(e.target.value)}
+            options={[
+              { value: '', label: 'All programs' },
+              ...(programs || []).map(p => ({ value: p.id, label: p.name })),
+            ]}
+          />
+
+          <Input
+            label="Expires On"
+            type="date"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            helperText="Leave empty for no expiry"
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Total Uses"
+              type="number"
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              placeholder="Unlimited"
+              min="1"
+            />
+            <Input
+              label="Uses per Learner"
+              type="number"
+              value={perUserLimit}
+              onChange={(e) => setPerUserLimit(e.target.value)}
+              placeholder="Unlimited"
+              min="1"
+            />
+          </div>
+
+          <label className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 cursor-pointer hover:bg-slate-50 transition-colors">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+            />
+            <div>
+              <span className="text-sm font-medium text-slate-700">Active</span>
+              <p className="text-xs text-slate-500">Inactive coupons are rejected at checkout</p>
+            </div>
+          </label>
+        </div>
+
+        <Modal.Footer>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" isLoading={isSubmitting}>
+            {isEditing ? 'Save Changes' : 'Create Coupon'}
+          </Button>
+        </Modal.Footer>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { CalendarClock } from 'lucide-react';
+import { format } from 'date-fns';
+
+export type DripMode = 'NONE' | 'DAYS' | 'DATE';
+
+export interface DripSchedule {
+  mode: DripMode;
+  days: string;
+  date: string; // yyyy-MM-dd
+}
+
+interface DripFields {
+  unlockAfterDays?: number | null;
+  unlockAt?: string | null;
+}
+
+interface DripScheduleFieldsProps {
+  value: DripSchedule;
+  onChange: (value: DripSchedule) => void;
+  hint?: string;
+}
+
+export const EMPTY_DRIP_SCHEDULE: DripSchedule = { mode: 'NONE', days: '', date: '' };
+
+export function dripScheduleFromItem(item: DripFields): DripSchedule {
+  if (item.unlockAt) {
+    return { mode: 'DATE', days: '', date: format(new Date(item.unlockAt), 'yyyy-MM-dd') };
+  }
+  if (item.unlockAfterDays) {
+    return { mode: 'DAYS', days: String(item.unlockAfterDays), date: '' };
+  }
+  return EMPTY_DRIP_SCHEDULE;
+}
+
+// Always sends both fields so switching modes clears the other one
+export function dripSchedulePayload(schedule: DripSchedule): { unlockAfterDays: number | null; unlockAt: string | null } {
+  return {
+    unlockAfterDays: schedule.mode === 'DAYS' && schedule.days ? parseInt(schedule.days) : null,
+    // Unlock at the start of the chosen day in the admin's timezone
+    unlockAt: schedule.mode === 'DATE' && schedule.date ? new Date(`${schedule.date}T00:00`).toISOString() : null,
+  };
+}
+
+// Short label for the content tree, or null when the item is not scheduled
+export function formatDripSchedule(item: DripFields): string | null {
+  if (item.unlockAt) return `Unlocks ${format(new Date(item.unlockAt), 'MMM d, yyyy')}`;
+  if (item.unlockAfterDays) return `Day ${item.unlockAfterDays}`;
+  return null;
+}
+
+export default function DripScheduleFields({ value, onChange, hint }: DripScheduleFieldsProps) {
+  return (
+    <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-4 h-4 text-slate-500" />
+          <span className="text-sm font-medium text-slate-700">Drip Schedule</span>
+        </div>
+        <select
+          value={value.mode}
+          onChange={(e) => onChange({ ...value, mode: e.target.value as DripMode })}
+          className="input text-sm py-1 w-auto"
+        >
+          <option value="NONE">Available immediately</option>
+          <option value="DAYS">Days after enrollment</option>
+          <option value="DATE">On a specific date</option>
+        </select>
+      </div>
+
+      {value.mode === 'DAYS' && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-slate-500">Unlock</span>
+          <input
+            type="number"
+            value={value.days}
+            onChange={(e) => onChange({ ...value, days: e.target.value })}
+            placeholder="7"
+            min="1"
+            max="3650"
+            className="input w-20 text-sm"
+          />
+          <span className="text-sm text-slate-500">days after the learner enrolls</span>
+        </div>
+      )}
+
+      {value.mode === 'DATE' && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-slate-500">Unlock on</span>
+          <input
+            type="date"
+            value={value.date}
+            onChange={(e) => onChange({ ...value, date: e.target.value })}
+            className="input w-auto text-sm"
+          />
+        </div>
+      )}
+
+      {hint && <p className="text-xs text-slate-500">{hint}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Button, Input } from '@/components/ui';
+import { useCreateInstallmentPlan, useUpdateInstallmentPlan } from '@/hooks';
+import { InstallmentPlan, InstallmentPlanFormData } from '@/types/admin';
+
+interface InstallmentPlanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  programId: string;
+  programPrice?: number;
+  plan?: InstallmentPlan | null;
+}
+
+export default function InstallmentPlanModal({ isOpen, onClose, programId, programPrice, plan }: InstallmentPlanModalProps) {
+  const [name, setName] = useState('');
+  const [installmentCount, setInstallmentCount] = useState('3');
+  const [intervalDays, setIntervalDays] = useState('30');
+  const [gracePeriodDays, setGracePeriodDays] = useState('7');
+  const [totalAmount, setTotalAmount] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const createPlan = useCreateInstallmentPlan();
+  const updatePlan = useUpdateInstallmentPlan();
+
+  const isEditing = !!plan;
+
+  useEffect(() => {
+    if (plan) {
+      setName(plan.name);
+      setInstallmentCount(String(plan.installmentCount));
+      setIntervalDays(String(plan.intervalDays));
+      setGracePeriodDays(String(plan.gracePeriodDays));
+      setTotalAmount(String(plan.totalAmount));
+      setIsActive(plan.isActive);
+    } else {
+      setName('');
+      setInstallmentCount('3');
+      setIntervalDays('30');
+      setGracePeriodDays('7');
+      setTotalAmount(programPrice ? String(programPrice) : '');
+      setIsActive(true);
+    }
+    setErrors({});
+  }, [plan, programPrice, isOpen]);
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+    if (!name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    const count = Number(installmentCount);
+    if (!Number.isInteger(count) || count < 2 || count > 24) {
+      newErrors.installmentCount = 'Use 2 to 24 installments';
+    }
+    const interval = Number(intervalDays);
+    if (!Number.isInteger(interval) || interval < 1 || interval > 365) {
+      newErrors.intervalDays = 'Use 1 to 365 days';
+    }
+    const grace = Number(gracePeriodDays);
+    if (!Number.isInteger(grace) || grace < 0 || grace > 90) {
+      newErrors.gracePeriodDays = 'Use 0 to 90 days';
+    }
+    if (!(parseFloat(totalAmount) > 0)) {
+      newErrors.totalAmount = 'Enter an amount greater than 0';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    const data: InstallmentPlanFormData = {
+      name: name.trim(),
+      installmentCount: Number(installmentCount),
+      intervalDays: Number(intervalDays),
+      gracePeriodDays: Number(gracePeriodDays),
+      totalAmount: parseFloat(totalAmount),
+      isActive,
+    };
+
+    try {
+      if (isEditing) {
+        await updatePlan.mutateAsync({ id: plan.id, programId, data });
+      } else {
+        await createPlan.mutateAsync({ ...data, programId });
+      }
+      onClose();
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  const isSubmitting = createPlan.isPending || updatePlan.isPending;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? 'Edit Installment Plan' : 'Create Installment Plan'}
+      size="md"
+    >
+      <form onSubmit={handleSubmit}>
+        <div className="space-y-5">
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., 3 monthly payments"
+            helperText="Shown to learners at checkout"
+            error={errors.name}
+            maxLength={100}
+            required
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Installments"
+              type="number"
+              value={installmentCount}
+              onChange={(e) => setInstallmentCount(e.target.value)}
+              error={errors.installmentCount}
+              min="2"
+              max="24"
+              required
+            />
+            <Input
+              label="Total Amount (₹)"
+              type="number"
+              value={totalAmount}
+              onChange={(e) => setTotalAmount(e.target.value)}
+              error={errors.totalAmount}
+              min="0"
+              step="0.01"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Days Between Installments"
+              type="number"
+              value={intervalDays}
+              onChange={(e) => setIntervalDays(e.target.value)}
+              error={errors.intervalDays}
+              min="1"
+              max="365"
+            />
+            <Input
+              label="Grace Period (days)"
+              type="number"
+              value={gracePeriodDays}
+              onChange={(e) => setGracePeriodDays(e.target.value)}
+              helperText="Access pauses after this"
+              error={errors.gracePeriodDays}
+              min="0"
+              max="90"
+            />
+          </div>
+
+          {isEditing && (
+            <p className="text-xs text-slate-500">
+              Changes apply to new checkouts. Learners already on this plan keep their schedule.
+            </p>
+          )}
+
+          <label className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 cursor-pointer hover:bg-slate-50 transition-colors">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+            />
+            <div>
+              <span className="text-sm font-medium text-slate-700">Active</span>
+              <p className="text-xs text-slate-500">Only active plans are offered at checkout</p>
+            </div>
+          </label>
+        </div>
+
+        <Modal.Footer>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" isLoading={isSubmitting}>
+            {isEditing ? 'Save Changes' : 'Create Plan'}
+          </Button>
+        </Modal.Footer>
+      </form>
+    </Modal>
+  );
+}
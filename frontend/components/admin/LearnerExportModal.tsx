@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Button } from '@/components/ui';
+import { useExportLearners } from '@/hooks';
+import { LearnerExportColumn, LearnerExportFormat, LearnerFilters } from '@/types/admin';
+import clsx from 'clsx';
+
+interface LearnerExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  filters: Omit<LearnerFilters, 'page' | 'limit'>;
+  // Shown when the export is limited to one program
+  programName?: string;
+}
+
+const COLUMNS: { key: LearnerExportColumn; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'mobile', label: 'Mobile' },
+  { key: 'registrationNumber', label: 'Registration number' },
+  { key: 'status', label: 'Account status' },
+  { key: 'joinedAt', label: 'Joined' },
+  { key: 'programs', label: 'Programs' },
+  { key: 'cohort', label: 'Cohort' },
+  { key: 'enrollmentType', label: 'Enrollment type' },
+  { key: 'completion', label: 'Completion (%)' },
+  { key: 'lastActive', label: 'Last active' },
+  { key: 'amountPaid', label: 'Amount paid' },
+  { key: 'amountRefunded', label: 'Amount refunded' },
+];
+
+const DEFAULT_COLUMNS: LearnerExportColumn[] = ['name', 'email', 'mobile', 'status', 'enrollmentType', 'completion', 'lastActive'];
+
+const FORMATS: { value: LearnerExportFormat; label: string }[] = [
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'csv', label: 'CSV' },
+];
+
+export default function LearnerExportModal({ isOpen, onClose, filters, programName }: LearnerExportModalProps) {
+  const [format, setFormat] = useState<LearnerExportFormat>('xlsx');
+  const [columns, setColumns] = useState<LearnerExportColumn[]>(DEFAULT_COLUMNS);
+
+  const exportLearners = useExportLearners();
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormat('xlsx');
+      setColumns(DEFAULT_COLUMNS);
+    }
+  }, [isOpen]);
+
+  const toggleColumn = (key: LearnerExportColumn) => {
+    setColumns(prev => (prev.includes(key) ? prev.filter(c => c !== key) : [...prev, key]));
+  };
+
+  const handleExport = async () => {
+    try {
+      await exportLearners.mutateAsync({
+        ...filters,
+        format,
+        // Keep the column order of the picker
+        columns: COLUMNS.map(c => c.key).filter(key => columns.includes(key)),
+      });
+      onClose();
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  const hasFilters = filters.search || filters.status || filters.programId || filters.cohortId;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Export Learners"
+      size="md"
+    >
+      <div className="space-y-5">
+        <p className="text-sm text-slate-500">
+          {programName
+            ? `Learners enrolled in ${programName}${filters.cohortId ? ' (selected cohort only)' : ''}, with enrollment, completion and payments for this program.`
+            : hasFilters
+              ? 'All learners matching the current filters, not just this page.'
+              : 'All learners, not just this page.'}
+        </p>
+
+        <div>
+          <h4 className="text-sm font-medium text-slate-700 mb-2">Format</h4>
+          <div className="flex gap-2">
+            {FORMATS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setFormat(option.value)}
+                className={clsx(
+                  'px-3 py-2 text-sm rounded-lg border transition-colors',
+                  format === option.value
+                    ? 'border-slate-900 bg-slate-900 text-white'
+                    : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-slate-700">Columns</h4>
+            <button
+              type="button"
+              onClick={() => setColumns(columns.length === COLUMNS.length ? [] : COLUMNS.map(c => c.key))}
+              className="text-xs text-slate-500 hover:text-slate-900"
+            >
+              {columns.length === COLUMNS.length ? 'Clear all' : 'Select all'}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {COLUMNS.map(column => (
+              <label key={column.key} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={columns.includes(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                  className="w-4 h-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <Modal.Footer>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleExport}
+          isLoading={exportLearners.isPending}
+          disabled={columns.length === 0}
+        >
+          Export
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Upload, FileSpreadsheet, Download, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Modal, Button, Badge, Select } from '@/components/ui';
+import { usePreviewLearnerImport, useStartLearnerImport, useLearnerImport } from '@/hooks';
+import { adminApi } from '@/lib/api';
+import { saveBlob } from '@/lib/download';
+import { LearnerImportField, LearnerImportMapping, LearnerImportPreview, LearnerImportRowStatus } from '@/types/admin';
+import toast from 'react-hot-toast';
+
+interface LearnerImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FIELDS: { field: LearnerImportField; label: string; required?: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'email', label: 'Email', required: true },
+  { field: 'mobile', label: 'Mobile' },
+  { field: 'registrationNumber', label: 'Registration No.' },
+  { field: 'programs', label: 'Programs' },
+  { field: 'cohort', label: 'Cohort' },
+];
+
+const ROW_STATUS: Record<LearnerImportRowStatus, { label: string; variant: 'success' | 'warning' | 'error' }> = {
+  VALID: { label: 'Ready', variant: 'success' },
+  DUPLICATE: { label: 'Duplicate', variant: 'warning' },
+  INVALID: { label: 'Invalid', variant: 'error' },
+};
+
+export default function LearnerImportModal({ isOpen, onClose }: LearnerImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<LearnerImportPreview | null>(null);
+  const [importId, setImportId] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const previewImport = usePreviewLearnerImport();
+  const startImport = useStartLearnerImport();
+  const { data: learnerImport } = useLearnerImport(importId);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setPreview(null);
+      setImportId(null);
+    }
+  }, [isOpen]);
+
+  const runPreview = async (selected: File, mapping?: LearnerImportMapping) => {
+    try {
+      setPreview(await previewImport.mutateAsync({ file: selected, mapping }));
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    setFile(selected);
+    setPreview(null);
+    runPreview(selected);
+  };
+
+  const handleMappingChange = (field: LearnerImportField, value: string) => {
+    if (!file || !preview) return;
+    runPreview(file, { ...preview.mapping, [field]: value === '' ? null : Number(value) });
+  };
+
+  const handleStart = async () => {
+    if (!file || !preview) return;
+    try {
+      const started = await startImport.mutateAsync({ file, mapping: preview.mapping });
+      setImportId(started.id);
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  const handleDownloadReport = async () => {
+    if (!learnerImport) return;
+    setIsDownloading(true);
+    try {
+      const blob = await adminApi.downloadLearnerImportReport(learnerImport.id);
+      // Matches the file name the API sends
+      saveBlob(blob, `learner-import-${learnerImport.createdAt.slice(0, 10)}.csv`);
+    } catch {
+      toast.error('Failed to download the report');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const columnOptions = (preview?.headers || []).map((header, index) => ({
+    value: String(index),
+    label: header || `Column ${index + 1}`,
+  }));
+
+  const isRunning = !!importId && (!learnerImport || learnerImport.status === 'PROCESSING');
+  const progress = learnerImport && learnerImport.totalRows > 0
+    ? Math.round((learnerImport.processedRows / learnerImport.totalRows) * 100)
+    : 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Import Learners"
+      size="xl"
+    >
+      {importId ? (
+        <div className="space-y-5 py-2">
+          {isRunning ? (
+            <>
+              <p className="text-sm text-slate-600">
+                Creating learners and sending setup emails. You can close this window — the import keeps running.
+              </p>
+              <div>
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-slate-900 transition-all" style={{ width: `${progress}%` }} />
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  {learnerImport?.processedRows ?? 0} of {learnerImport?.totalRows ?? preview?.summary.total ?? 0} rows processed
+                </p>
+              </div>
+            </>
+          ) : (
+            <div className="flex items-start gap-3">
+              {learnerImport?.status === 'COMPLETED' ? (
+                <CheckCircle2 className="w-5 h-5 text-emerald-600 mt-0.5" />
+              ) : (
+                <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+              )}
+              <div>
+                <p className="font-medium text-slate-900">
+                  {learnerImport?.status === 'COMPLETED' ? 'Import complete' : 'Import stopped before finishing'}
+                </p>
+                <p className="text-sm text-slate-500 mt-1">
+                  {learnerImport?.createdCount} created, {learnerImport?.failedCount} failed.
+                  The report lists the result of every row.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-5">
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full flex items-center gap-3 p-4 rounded-lg border-2 border-dashed border-slate-300 hover:border-slate-400 hover:bg-slate-50 transition-colors text-left"
+            >
+              {file ? (
+                <FileSpreadsheet className="w-5 h-5 text-slate-500" />
+              ) : (
+                <Upload className="w-5 h-5 text-slate-500" />
+              )}
+              <div>
+                <p className="text-sm font-medium text-slate-700">
+                  {file ? file.name : 'Choose a CSV or Excel (.xlsx) file'}
+                </p>
+                <p className="text-xs text-slate-500">
+                  First row must be headers. Separate several programs with semicolons; a cohort is matched within them.
+                </p>
+              </div>
+            </button>
+          </div>
+
+          {previewImport.isPending && !preview && (
+            <p className="text-sm text-slate-500">Checking rows...</p>
+          )}
+
+          {preview && (
+            <>
+              <div>
+                <h4 className="text-sm font-medium text-slate-700 mb-2">Columns</h4>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {FIELDS.map(({ field, label, required }) => (
+                    <Select
+                      key={field}
+                      label={required ? `${label} *` : label}
+                      value={preview.mapping[field] === null ? '' : String(preview.mapping[field])}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      options={[{ value: '', label: 'Not imported' }, ...columnOptions]}
+                      disabled={previewImport.isPending}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="success" size="sm">{preview.summary.valid} ready</Badge>
+                <Badge variant="warning" size="sm">{preview.summary.duplicates} duplicate</Badge>
+                <Badge variant="error" size="sm">{preview.summary.invalid} invalid</Badge>
+                <span className="text-slate-500">Only ready rows are imported.</span>
+              </div>
+
+              <div className="max-h-80 overflow-auto border border-slate-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 sticky top-0">
+                    <tr className="text-left text-xs font-medium text-slate-500 uppercase tracking-wide">
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Name</th>
+                      <th className="px-3 py-2">Email</th>
+                      <th className="px-3 py-2">Programs</th>
+                      <th className="px-3 py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {preview.rows.map((row) => (
+                      <tr key={row.row} className="align-top">
+                        <td className="px-3 py-2 text-slate-500">{row.row}</td>
+                        <td className="px-3 py-2 text-slate-900">{row.name || '—'}</td>
+                        <td className="px-3 py-2 text-slate-600">{row.email || '—'}</td>
+                        <td className="px-3 py-2 text-slate-600">
+                          {row.programNames.join(', ') || '—'}
+                          {row.cohortName && <span className="text-slate-400"> · {row.cohortName}</span>}
+                        </td>
+                        <td className="px-3 py-2">
+                          <Badge variant={ROW_STATUS[row.status].variant} size="sm">
+                            {ROW_STATUS[row.status].label}
+                          </Badge>
+                          {row.errors.length > 0 && (
+                            <p className="text-xs text-slate-500 mt-1">{row.errors.join('; ')}</p>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <Modal.Footer>
+        {importId ? (
+          <>
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button
+              variant="primary"
+              leftIcon={<Download className="w-4 h-4" />}
+              onClick={handleDownloadReport}
+              isLoading={isDownloading}
+              disabled={isRunning}
+            >
+              Download Report
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleStart}
+              isLoading={startImport.isPending}
+              disabled={!preview || preview.summary.valid === 0 || previewImport.isPending}
+            >
+              Import {preview?.summary.valid || ''} Learner{preview?.summary.valid === 1 ? '' : 's'}
+            </Button>
+          </>
+        )}
+      </Modal.Footer>
+    </Modal>
+  );
+}
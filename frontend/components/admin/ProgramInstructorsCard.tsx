@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { GraduationCap, X } from 'lucide-react';
+import { Button, LoadingSpinner, Select } from '@/components/ui';
+import { useProgramInstructors, useUpdateProgramInstructors } from '@/hooks';
+
+// Instructors assigned to a program — they can edit its content and sessions only
+export default function ProgramInstructorsCard({ programId }: { programId: string }) {
+  const { data, isLoading } = useProgramInstructors(programId);
+  const updateInstructors = useUpdateProgramInstructors();
+  const [selectedId, setSelectedId] = useState('');
+
+  const instructors = data?.instructors || [];
+  const assignedIds = new Set(instructors.map((instructor) => instructor.id));
+  const options = (data?.available || [])
+    .filter((instructor) => !assignedIds.has(instructor.id))
+    .map((instructor) => ({ value: instructor.id, label: `${instructor.name} (${instructor.email})` }));
+
+  const save = (userIds: string[]) => updateInstructors.mutateAsync({ programId, userIds });
+
+  const handleAssign = async () => {
+    if (!selectedId) return;
+    try {
+      await save([...instructors.map((instructor) => instructor.id), selectedId]);
+      setSelectedId('');
+    } catch {
+      // Error toast shown by mutation
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-6 mb-6">
+      <div className="mb-5">
+        <h2 className="text-lg font-semibold text-slate-900">Instructors</h2>
+        <p className="text-sm text-slate-500 mt-0.5">
+          Staff with the instructor role who can edit this program&apos;s content and sessions
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <>
+          {instructors.length === 0 ? (
+            <p className="text-sm text-slate-500 mb-4">No instructors assigned yet</p>
+          ) : (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {instructors.map((instructor) => (
+                <span
+                  key={instructor.id}
+                  className="inline-flex items-center gap-2 pl-3 pr-1.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm"
+                >
+                  <GraduationCap className="w-4 h-4 text-slate-400" />
+                  <span className="font-medium text-slate-800">{instructor.name}</span>
+                  <span className="text-slate-500">{instructor.email}</span>
+                  <button
+                    type="button"
+                    onClick={() => save(instructors.filter((i) => i.id !== instructor.id).map((i) => i.id)).catch(() => {})}
+                    disabled={updateInstructors.isPending}
+                    aria-label={`Remove ${instructor.name}`}
+                    className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {options.length > 0 ? (
+            <div className="flex items-center gap-2 max-w-lg">
+              <Select
+                aria-label="Instructor"
+                value={selectedId}
+                onChange={(e) => setSelectedId(e.target.value)}
+                placeholder="Choose an instructor"
+                options={options}
+              />
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleAssign}
+                disabled={!selectedId}
+                isLoading={updateInstructors.isPending}
+              >
+                Assign
+              </Button>
+            </div>
+          ) : (
+            !data?.available.length && (
+              <p className="text-sm text-slate-500">
+                No staff members have the instructor role yet
+              </p>
+            )
+          )}
+        </>
+      )}
+    </div>
+  );
+}
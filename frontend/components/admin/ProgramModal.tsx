@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Upload, X, Image, Info, Globe, Lock } from 'lucide-react';
+import { Upload, X, Image, Info, Globe, Lock, ListOrdered } from 'lucide-react';
 import { Modal, Button, Input } from '@/components/ui';
 import { useCreateProgram, useUpdateProgram } from '@/hooks';
 import { Program, CreateProgramData } from '@/types/admin';
@@ -24,6 +24,7 @@ export default function ProgramModal({ isOpen, onClose, program }: ProgramModalP
   const [slug, setSlug] = useState('');
   const [slugManuallyEdited, setSlugManuallyEdited] = useState(false);
   const [isPublic, setIsPublic] = useState(false);
+  const [isSequential, setIsSequential] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -41,6 +42,7 @@ export default function ProgramModal({ isOpen, onClose, program }: ProgramModalP
       setSlug(program.slug || '');
       setSlugManuallyEdited(true);
       setIsPublic(program.isPublic || false);
+      setIsSequential(program.isSequential || false);
     } else {
       setName('');
       setDescription('');
@@ -49,6 +51,7 @@ export default function ProgramModal({ isOpen, onClose, program }: ProgramModalP
       setSlug('');
       setSlugManuallyEdited(false);
       setIsPublic(false);
+      setIsSequential(false);
     }
     setErrors({});
   }, [program, isOpen]);
@@ -110,6 +113,7 @@ export default function ProgramModal({ isOpen, onClose, program }: ProgramModalP
       price: price !== '' ? parseFloat(price) : 0,
       slug: slug.trim() || undefined,
       isPublic,
+      isSequential,
     };
 
     try {
@@ -322,6 +326,21 @@ export default function ProgramModal({ isOpen, onClose, program }: ProgramModalP
               </p>
             )}
           </div>
+
+          {/* Sequential progression */}
+          <label className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 cursor-pointer hover:bg-slate-50 transition-colors">
+            <input
+              type="checkbox"
+              checked={isSequential}
+              onChange={(e) => setIsSequential(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+            />
+            <ListOrdered className="w-4 h-4 text-slate-500" />
+            <div>
+              <span className="text-sm font-medium text-slate-700">Sequential progression</span>
+              <p className="text-xs text-slate-500">Learners must complete each lesson before the next one unlocks</p>
+            </div>
+          </label>
         </div>
 
         <Modal.Footer>
@@ -0,0 +1,209 @@
+'use client';
+
+import { Plus, Trash2, X } from 'lucide-react';
+import clsx from 'clsx';
+import { QuizQuestion, QuizQuestionType } from '@/types/admin';
+
+interface QuizEditorProps {
+  questions: QuizQuestion[];
+  onChange: (questions: QuizQuestion[]) => void;
+  passingScore: string;
+  onPassingScoreChange: (value: string) => void;
+}
+
+const QUESTION_TYPES: { type: QuizQuestionType; label: string }[] = [
+  { type: 'SINGLE_CHOICE', label: 'Single choice' },
+  { type: 'MULTIPLE_CHOICE', label: 'Multi-select' },
+  { type: 'SHORT_ANSWER', label: 'Short answer' },
+];
+
+export function createEmptyQuestion(type: QuizQuestionType = 'SINGLE_CHOICE'): QuizQuestion {
+  return {
+    type,
+    prompt: '',
+    options: type === 'SHORT_ANSWER' ? [] : ['', ''],
+    correctAnswers: [],
+    points: 1,
+  };
+}
+
+export default function QuizEditor({ questions, onChange, passingScore, onPassingScoreChange }: QuizEditorProps) {
+  const updateQuestion = (index: number, patch: Partial<QuizQuestion>) => {
+    onChange(questions.map((q, i) => (i === index ? { ...q, ...patch } : q)));
+  };
+
+  const changeType = (index: number, type: QuizQuestionType) => {
+    const current = questions[index];
+    if (current.type === type) return;
+    const next = createEmptyQuestion(type);
+    next.prompt = current.prompt;
+    next.points = current.points;
+    // Keep options when switching between the two choice types
+    if (type !== 'SHORT_ANSWER' && current.type !== 'SHORT_ANSWER') {
+      next.options = current.options;
+      next.correctAnswers = type === 'SINGLE_CHOICE' ? current.correctAnswers.slice(0, 1) : current.correctAnswers;
+    }
+    onChange(questions.map((q, i) => (i === index ? next : q)));
+  };
+
+  const toggleCorrect = (index: number, optionIndex: number) => {
+    const question = questions[index];
+    const correct = question.correctAnswers as number[];
+    if (question.type === 'SINGLE_CHOICE') {
+      updateQuestion(index, { correctAnswers: [optionIndex] });
+    } else {
+      updateQuestion(index, {
+        correctAnswers: correct.includes(optionIndex)
+          ? correct.filter(i => i !== optionIndex)
+          : [...correct, optionIndex],
+      });
+    }
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = questions[index];
+    updateQuestion(index, {
+      options: question.options.filter((_, i) => i !== optionIndex),
+      // Shift indexes of correct options that sit after the removed one
+      correctAnswers: (question.correctAnswers as number[])
+        .filter(i => i !== optionIndex)
+        .map(i => (i > optionIndex ? i - 1 : i)),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-slate-700">
+          Questions <span className="text-slate-400 font-normal">({questions.length})</span>
+        </label>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-slate-500">Pass mark</label>
+          <input
+            type="number"
+            value={passingScore}
+            onChange={(e) => onPassingScoreChange(e.target.value)}
+            placeholder="70"
+            min="0"
+            max="100"
+            className="input w-20 text-sm"
+          />
+          <span className="text-sm text-slate-500">%</span>
+        </div>
+      </div>
+
+      {questions.map((question, index) => (
+        <div key={index} className="p-4 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium text-slate-700">Question {index + 1}</span>
+            <div className="flex items-center gap-2">
+              <select
+                value={question.type}
+                onChange={(e) => changeType(index, e.target.value as QuizQuestionType)}
+                className="input text-sm py-1"
+              >
+                {QUESTION_TYPES.map(({ type, label }) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={question.points}
+                onChange={(e) => updateQuestion(index, { points: Math.max(1, parseInt(e.target.value) || 1) })}
+                min="1"
+                title="Points"
+                className="input w-16 text-sm py-1"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+                title="Remove question"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <textarea
+            value={question.prompt}
+            onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+            placeholder="Enter the question..."
+            rows={2}
+            className="input resize-none text-sm"
+          />
+
+          {question.type === 'SHORT_ANSWER' ? (
+            <div>
+              <input
+                type="text"
+                value={(question.correctAnswers as string[]).join(', ')}
+                onChange={(e) => updateQuestion(index, {
+                  correctAnswers: e.target.value.split(',').map(a => a.trimStart()),
+                })}
+                placeholder="Accepted answers, separated by commas"
+                className="input text-sm"
+              />
+              <p className="text-xs text-slate-500 mt-1">Matching ignores case and extra spaces</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-xs text-slate-500">
+                {question.type === 'SINGLE_CHOICE' ? 'Select the correct option' : 'Select every correct option'}
+              </p>
+              {question.options.map((option, optionIndex) => {
+                const isCorrect = (question.correctAnswers as number[]).includes(optionIndex);
+                return (
+                  <div key={optionIndex} className="flex items-center gap-2">
+                    <input
+                      type={question.type === 'SINGLE_CHOICE' ? 'radio' : 'checkbox'}
+                      name={`quiz-correct-${index}`}
+                      checked={isCorrect}
+                      onChange={() => toggleCorrect(index, optionIndex)}
+                      className="w-4 h-4 text-emerald-600 focus:ring-emerald-500"
+                    />
+                    <input
+                      type="text"
+                      value={option}
+                      onChange={(e) => updateQuestion(index, {
+                        options: question.options.map((o, i) => (i === optionIndex ? e.target.value : o)),
+                      })}
+                      placeholder={`Option ${optionIndex + 1}`}
+                      className={clsx('input text-sm flex-1', isCorrect && 'border-emerald-400')}
+                    />
+                    {question.options.length > 2 && (
+                      <button
+                        type="button"
+                        onClick={() => removeOption(index, optionIndex)}
+                        className="p-1 text-slate-400 hover:text-red-500"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+              <button
+                type="button"
+                onClick={() => updateQuestion(index, { options: [...question.options, ''] })}
+                className="flex items-center gap-1.5 text-xs font-medium text-slate-600 hover:text-accent-600"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add option
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...questions, createEmptyQuestion()])}
+        className="w-full flex items-center justify-center gap-2 py-3 border-2 border-dashed border-slate-300 rounded-lg text-sm text-slate-500 hover:border-accent-500 hover:text-accent-600 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add Question
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Link as LinkIcon, BookOpen, Check } from 'lucide-react';
+import { format } from 'date-fns';
+import { Modal, Button, Input, Select } from '@/components/ui';
+import { usePrograms, useProgram, useSaveSessionRecording, useDeleteSessionRecording, usePublishSessionRecording } from '@/hooks';
+import { Session } from '@/types/admin';
+
+interface RecordingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: Session | null;
+}
+
+// Topics of one program to publish the recording into
+function ProgramTopicSelect({ programId, value, onChange }: { programId: string; value: string; onChange: (topicId: string) => void }) {
+  const { data, isLoading } = useProgram(programId);
+  const topics = data?.content.filter(item => item.type === 'topic') || [];
+
+  if (!isLoading && topics.length === 0) {
+    return <p className="text-xs text-slate-500">This program has no topics yet</p>;
+  }
+  return (
+    <Select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={isLoading ? 'Loading topics...' : 'Choose a topic'}
+      options={topics.map(topic => ({ value: topic.id, label: topic.name || topic.title || 'Untitled topic' }))}
+    />
+  );
+}
+
+export default function RecordingModal({ isOpen, onClose, session }: RecordingModalProps) {
+  const [videoUrl, setVideoUrl] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState('');
+  const [lessonTitle, setLessonTitle] = useState('');
+  const [topicByProgram, setTopicByProgram] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const { data: programs } = usePrograms();
+  const saveRecording = useSaveSessionRecording();
+  const deleteRecording = useDeleteSessionRecording();
+  const publishRecording = usePublishSessionRecording();
+
+  const recording = session?.recording || null;
+  const hasStarted = !!session && new Date(session.startTime) <= new Date();
+
+  // Linked programs; a session for all programs can publish to any of them
+  const programIds = useMemo(() => {
+    if (!session) return [];
+    const linked = Array.from(new Set(session.targets.map(target => target.programId)));
+    return linked.length > 0 ? linked : (programs || []).map(program => program.id);
+  }, [session, programs]);
+  const programName = (id: string) => programs?.find(program => program.id === id)?.name || 'Program';
+  const publishedTopic = (programId: string) => recording?.lessons.find(lesson => lesson.programId === programId);
+
+  useEffect(() => {
+    if (!isOpen || !session) return;
+    setVideoUrl(session.recording?.videoUrl || '');
+    setDurationMinutes(session.recording?.durationSeconds ? String(Math.round(session.recording.durationSeconds / 60)) : '');
+    setLessonTitle(`${session.name} (${format(new Date(session.startTime), 'MMM d, yyyy')})`);
+    setTopicByProgram({});
+    setErrors({});
+  }, [isOpen, session]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+
+    const newErrors: Record<string, string> = {};
+    try {
+      new URL(videoUrl);
+    } catch {
+      newErrors.videoUrl = 'Enter the video\'s embed URL';
+    }
+    const minutes = durationMinutes ? Number(durationMinutes) : null;
+    if (minutes !== null && (!Number.isInteger(minutes) || minutes < 0)) {
+      newErrors.duration = 'Enter whole minutes';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    await saveRecording.mutateAsync({
+      id: session.id,
+      data: {
+        occurrenceDate: session.occurrenceDate,
+        videoUrl: videoUrl.trim(),
+        durationSeconds: minutes !== null ? minutes * 60 : null,
+      },
+    }).catch(() => {
+      // Error handled by mutation
+    });
+  };
+
+  const handleRemove = () => {
+    if (!session) return;
+    deleteRecording.mutate({ id: session.id, occurrenceDate: session.occurrenceDate });
+  };
+
+  const topics = Object.entries(topicByProgram)
+    .filter(([programId, topicId]) => topicId && !publishedTopic(programId))
+    .map(([programId, topicId]) => ({ programId, topicId }));
+
+  const handlePublish = async () => {
+    if (!session || topics.length === 0) return;
+    try {
+      await publishRecording.mutateAsync({
+        id: session.id,
+        data: { occurrenceDate: session.occurrenceDate, title: lessonTitle.trim() || undefined, topics },
+      });
+      setTopicByProgram({});
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={session ? `Recording · ${session.name}` : 'Recording'}
+      size="lg"
+    >
+      {session && !hasStarted ? (
+        <p className="text-sm text-slate-500 text-center py-8">
+          Recordings can be added once this session has taken place.
+        </p>
+      ) : session && (
+        <div className="space-y-6">
+          <p className="text-sm text-slate-500">
+            {format(new Date(session.startTime), 'EEEE, MMMM d, yyyy · h:mm a')}
+          </p>
+
+          {/* Video */}
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                Video URL <span className="text-slate-400 font-normal">(Bunny.net embed URL)</span>
+              </label>
+              <div className="relative">
+                <LinkIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input
+                  type="url"
+                  value={videoUrl}
+                  onChange={(e) => setVideoUrl(e.target.value)}
+                  placeholder="https://iframe.mediadelivery.net/embed/..."
+                  className="input pl-10"
+                />
+              </div>
+              {errors.videoUrl && <p className="text-sm text-red-500 mt-1">{errors.videoUrl}</p>}
+            </div>
+            <div className="md:w-48">
+              <Input
+                label="Duration (minutes)"
+                type="number"
+                min={0}
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(e.target.value)}
+                error={errors.duration}
+              />
+            </div>
+            <div className="flex gap-3">
+              <Button type="submit" variant="primary" size="sm" isLoading={saveRecording.isPending}>
+                {recording ? 'Update Recording' : 'Save Recording'}
+              </Button>
+              {recording && (
+                <Button type="button" variant="outline" size="sm" onClick={handleRemove} isLoading={deleteRecording.isPending}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          </form>
+
+          {/* Publish as lessons */}
+          {recording && (
+            <div className="border border-slate-200 rounded-xl p-4 bg-slate-50/50 space-y-4">
+              <div className="flex items-center gap-2">
+                <BookOpen className="w-4 h-4 text-slate-400" />
+                <span className="font-medium text-slate-900">Publish as a lesson</span>
+              </div>
+              <Input
+                label="Lesson title"
+                value={lessonTitle}
+                onChange={(e) => setLessonTitle(e.target.value)}
+              />
+              {programIds.length === 0 ? (
+                <p className="text-sm text-slate-500">No programs to publish to</p>
+              ) : (
+                <div className="space-y-3 max-h-72 overflow-y-auto">
+                  {programIds.map(programId => {
+                    const published = publishedTopic(programId);
+                    return (
+                      <div key={programId} className="grid grid-cols-1 md:grid-cols-2 gap-2 md:items-center">
+                        <span className="text-sm text-slate-700">{programName(programId)}</span>
+                        {published ? (
+                          <span className="flex items-center gap-1.5 text-sm text-emerald-700">
+                            <Check className="w-4 h-4" />
+                            Published as &ldquo;{published.title}&rdquo;
+                          </span>
+                        ) : (
+                          <ProgramTopicSelect
+                            programId={programId}
+                            value={topicByProgram[programId] || ''}
+                            onChange={(topicId) => setTopicByProgram(prev => ({ ...prev, [programId]: topicId }))}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              <p className="text-xs text-slate-500">
+                The recording is added as a video lesson at the end of each chosen topic, and enrolled learners are notified.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Modal.Footer>
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+        {recording && hasStarted && (
+          <Button
+            variant="primary"
+            leftIcon={<BookOpen className="w-4 h-4" />}
+            onClick={handlePublish}
+            isLoading={publishRecording.isPending}
+            disabled={topics.length === 0}
+          >
+            Publish Lesson{topics.length > 1 ? 's' : ''}
+          </Button>
+        )}
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import clsx from 'clsx';
-import { RevenueChartData, RevenueGranularity } from '@/types/admin';
+import { RevenueChartData, RevenueChartPoint, RevenueGranularity } from '@/types/admin';
 
 interface RevenueChartProps {
   data: RevenueChartData;
@@ -24,13 +24,16 @@ function formatRupee(value: number): string {
 export default function RevenueChart({ data }: RevenueChartProps) {
   const [granularity, setGranularity] = useState<RevenueGranularity>('daily');
   const chartData = data[granularity] ?? [];
+  const hasDiscounts = chartData.some(d => d.discount > 0);
 
   return (
     <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden animate-slide-up opacity-0 [animation-fill-mode:forwards] [animation-delay:100ms]">
       <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
         <div>
           <h2 className="text-base font-semibold text-slate-900">Revenue</h2>
-          <p className="text-xs text-slate-500 mt-0.5">Payment collections over time</p>
+          <p className="text-xs text-slate-500 mt-0.5">
+            Payment collections over time{hasDiscounts && ' · coupon discounts dashed'}
+          </p>
         </div>
         <div className="flex gap-1 bg-slate-100 rounded-lg p-0.5">
           {granularityOptions.map(opt => (
@@ -74,14 +77,20 @@ export default function RevenueChart({ data }: RevenueChartProps) {
             <Tooltip
               content={({ active, payload, label }) => {
                 if (!active || !payload?.length) return null;
-                const val = payload[0].value as number;
+                const point = payload[0].payload as RevenueChartPoint;
                 return (
                   <div className="bg-white border border-slate-200 rounded-lg px-3 py-2 shadow-elevated">
                     <p className="text-sm font-semibold text-slate-900">{label}</p>
                     <div className="flex items-center gap-1.5 mt-1">
                       <span className="w-2 h-2 rounded-full bg-emerald-500" />
-                      <span className="text-sm text-slate-600">₹{val.toLocaleString('en-IN')}</span>
+                      <span className="text-sm text-slate-600">₹{point.revenue.toLocaleString('en-IN')}</span>
                     </div>
+                    {point.discount > 0 && (
+                      <div className="flex items-center gap-1.5 mt-1">
+                        <span className="w-2 h-2 rounded-full bg-amber-500" />
+                        <span className="text-sm text-slate-600">₹{point.discount.toLocaleString('en-IN')} coupon discounts</span>
+                      </div>
+                    )}
                   </div>
                 );
               }}
@@ -94,6 +103,17 @@ export default function RevenueChart({ data }: RevenueChartProps) {
               fill="url(#revenueGradient)"
               animationDuration={1200}
             />
+            {hasDiscounts && (
+              <Area
+                type="monotone"
+                dataKey="discount"
+                stroke="#f59e0b"
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                fill="none"
+                animationDuration={1200}
+              />
+            )}
           </AreaChart>
         </ResponsiveContainer>
       </div>
@@ -1,10 +1,27 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { Modal, Button, Input } from '@/components/ui';
-import { useCreateSession, useUpdateSession, usePrograms } from '@/hooks';
-import { Session, CreateSessionData } from '@/types/admin';
-import { format, addMinutes, setHours, setMinutes, getDay } from 'date-fns';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { AxiosError } from 'axios';
+import { CalendarClock } from 'lucide-react';
+import { Modal, Button, Input, Select } from '@/components/ui';
+import { useCreateSession, useUpdateSession, usePrograms, useRecurrencePreview } from '@/hooks';
+import { Session, CreateSessionData, UpdateSessionData, SessionEditMode, RecurrencePreviewParams } from '@/types/admin';
+import { format, addMinutes, setHours, setMinutes } from 'date-fns';
+import {
+  RecurrenceOptions,
+  RecurrenceFrequency,
+  WEEKDAYS,
+  SET_POSITIONS,
+  defaultRecurrence,
+  parseRecurrenceRule,
+  buildRecurrenceRule,
+  describeRecurrence,
+  getBrowserTimezone,
+  listTimezones,
+  zonedDateTimeToIso,
+  isoToZonedDateTime,
+  formatInTimezone,
+} from '@/lib/recurrence';
 
 interface SessionModalProps {
   isOpen: boolean;
@@ -14,21 +31,23 @@ interface SessionModalProps {
   onDelete?: (session: Session) => void;
 }
 
-const DAYS_OF_WEEK = [
-  { value: 'SU', label: 'Sun', fullLabel: 'Sunday' },
-  { value: 'MO', label: 'Mon', fullLabel: 'Monday' },
-  { value: 'TU', label: 'Tue', fullLabel: 'Tuesday' },
-  { value: 'WE', label: 'Wed', fullLabel: 'Wednesday' },
-  { value: 'TH', label: 'Thu', fullLabel: 'Thursday' },
-  { value: 'FR', label: 'Fri', fullLabel: 'Friday' },
-  { value: 'SA', label: 'Sat', fullLabel: 'Saturday' },
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'DAILY', label: 'Day(s)' },
+  { value: 'WEEKLY', label: 'Week(s)' },
+  { value: 'MONTHLY', label: 'Month(s)' },
 ];
 
-const RECURRENCE_PRESETS = [
-  { value: 'daily', label: 'Every day' },
-  { value: 'weekdays', label: 'Weekdays (Mon-Fri)' },
-  { value: 'weekly', label: 'Once a week' },
-  { value: 'custom', label: 'Custom days' },
+const MONTH_DAY_OPTIONS = [
+  ...Array.from({ length: 31 }, (_, i) => ({ value: String(i + 1), label: String(i + 1) })),
+  { value: '-1', label: 'Last day' },
+];
+
+const PREVIEW_COUNT = 5;
+
+const EDIT_MODES: { value: SessionEditMode; label: string; description: string }[] = [
+  { value: 'single', label: 'This session', description: 'Only the session on this date changes' },
+  { value: 'following', label: 'This and following sessions', description: 'The series continues with these changes from this date' },
+  { value: 'all', label: 'All sessions', description: 'Every session in the series changes' },
 ];
 
 export default function SessionModal({ isOpen, onClose, session, defaultDate, onDelete }: SessionModalProps) {
@@ -38,11 +57,12 @@ export default function SessionModal({ isOpen, onClose, session, defaultDate, on
   const [startTime, setStartTime] = useState('');
   const [endTime, setEndTime] = useState('');
   const [meetLink, setMeetLink] = useState('');
+  const [timezone, setTimezone] = useState('UTC');
+  const [editMode, setEditMode] = useState<SessionEditMode>('all');
   const [isRecurring, setIsRecurring] = useState(false);
-  const [recurrencePreset, setRecurrencePreset] = useState('weekly');
-  const [selectedDays, setSelectedDays] = useState<string[]>([]);
-  const [repeatUntil, setRepeatUntil] = useState('');
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions>(() => defaultRecurrence(''));
   const [selectedPrograms, setSelectedPrograms] = useState<string[]>([]);
+  const [selectedCohorts, setSelectedCohorts] = useState<string[]>([]);
   const [allPrograms, setAllPrograms] = useState(true);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -62,38 +82,54 @@ export default function SessionModal({ isOpen, onClose, session, defaultDate, on
   const updateSession = useUpdateSession();
 
   const isEditing = !!session;
+  // An occurrence of a recurring session can be edited on its own
+  const isOccurrence = !!session?.isRecurring && !!session.occurrenceDate;
+  const isSingleEdit = isOccurrence && editMode === 'single';
+  const timezones = useMemo(() => listTimezones(), []);
+
+  // Date and times of the occurrence, or of the series' first session for "all sessions"
+  const loadSchedule = (target: Session, mode: SessionEditMode) => {
+    const sessionTimezone = target.timezone || 'UTC';
+    const seriesTimes = mode === 'all' && target.seriesStartTime;
+    const startIso = seriesTimes ? target.seriesStartTime! : target.startTime;
+    const endIso = seriesTimes ? target.seriesEndTime : target.endTime;
+    const start = isoToZonedDateTime(startIso, sessionTimezone);
+    setStartDate(start.date);
+    setStartTime(start.time);
+    setEndTime(endIso ? isoToZonedDateTime(endIso, sessionTimezone).time : '');
+    return start.date;
+  };
 
-  // Get current day of week (0 = Sunday, 1 = Monday, etc.)
-  const getCurrentDayCode = () => {
-    const dayIndex = getDay(new Date());
-    return DAYS_OF_WEEK[dayIndex].value;
+  const handleEditModeChange = (mode: SessionEditMode) => {
+    setEditMode(mode);
+    if (session) loadSchedule(session, mode);
   };
 
   useEffect(() => {
     if (isOpen) {
       if (session) {
-        // Editing existing session
-        const startDateTime = new Date(session.startTime);
+        // Editing existing session: date and times as they are in the session's timezone
+        const mode: SessionEditMode = session.isRecurring && session.occurrenceDate ? 'single' : 'all';
+        setEditMode(mode);
+        loadSchedule(session, mode);
+        const seriesDate = isoToZonedDateTime(session.seriesStartTime || session.startTime, session.timezone || 'UTC').date;
         setName(session.name);
         setDescription(session.description || '');
-        setStartDate(format(startDateTime, 'yyyy-MM-dd'));
-        setStartTime(format(startDateTime, 'HH:mm'));
-        setEndTime(session.endTime ? format(new Date(session.endTime), 'HH:mm') : '');
         setMeetLink(session.meetLink || '');
+        setTimezone(session.timezone || 'UTC');
         setIsRecurring(session.isRecurring);
+        setRecurrence(session.recurrenceRule
+          ? parseRecurrenceRule(session.recurrenceRule, seriesDate)
+          : defaultRecurrence(seriesDate));
 
-        // Parse recurrence rule
-        if (session.recurrenceRule) {
-          parseRecurrenceRule(session.recurrenceRule);
-        }
-
-        if (session.programs.includes('All Programs')) {
+        if (session.targets.length === 0) {
           setAllPrograms(true);
           setSelectedPrograms([]);
+          setSelectedCohorts([]);
         } else {
           setAllPrograms(false);
-          const programIds = programs?.filter(p => session.programs.includes(p.name)).map(p => p.id) || [];
-          setSelectedPrograms(programIds);
+          setSelectedPrograms(session.targets.filter(t => !t.cohortId).map(t => t.programId));
+          setSelectedCohorts(session.targets.flatMap(t => (t.cohortId ? [t.cohortId] : [])));
         }
       } else {
         // New session - set defaults
@@ -102,79 +138,44 @@ export default function SessionModal({ isOpen, onClose, session, defaultDate, on
         const startDateTime = setMinutes(setHours(now, now.getHours()), roundedMinutes);
         const endDateTime = addMinutes(startDateTime, 45);
 
+        const date = defaultDate || format(now, 'yyyy-MM-dd');
+
         setName('');
         setDescription('');
-        setStartDate(defaultDate || format(now, 'yyyy-MM-dd'));
+        setStartDate(date);
         setStartTime(format(startDateTime, 'HH:mm'));
         setEndTime(format(endDateTime, 'HH:mm'));
         setMeetLink('');
+        setTimezone(getBrowserTimezone());
         setIsRecurring(false);
-        setRecurrencePreset('weekly');
-        setSelectedDays([getCurrentDayCode()]);
-        setRepeatUntil('');
+        setRecurrence(defaultRecurrence(date));
         setSelectedPrograms([]);
+        setSelectedCohorts([]);
         setAllPrograms(true);
       }
       setErrors({});
     }
   }, [session, isOpen, programs, defaultDate]);
 
-  const parseRecurrenceRule = (rule: string) => {
-    if (rule.includes('FREQ=DAILY')) {
-      setRecurrencePreset('daily');
-      setSelectedDays([]);
-    } else if (rule.includes('BYDAY=MO,TU,WE,TH,FR')) {
-      setRecurrencePreset('weekdays');
-      setSelectedDays(['MO', 'TU', 'WE', 'TH', 'FR']);
-    } else if (rule.includes('BYDAY=')) {
-      setRecurrencePreset('custom');
-      const daysMatch = rule.match(/BYDAY=([A-Z,]+)/);
-      if (daysMatch) {
-        setSelectedDays(daysMatch[1].split(','));
-      }
-    } else if (rule.includes('FREQ=WEEKLY')) {
-      setRecurrencePreset('weekly');
-      setSelectedDays([getCurrentDayCode()]);
-    }
-
-    // Parse UNTIL
-    const untilMatch = rule.match(/UNTIL=(\d{8})/);
-    if (untilMatch) {
-      const year = untilMatch[1].substring(0, 4);
-      const month = untilMatch[1].substring(4, 6);
-      const day = untilMatch[1].substring(6, 8);
-      setRepeatUntil(`${year}-${month}-${day}`);
-    }
+  const updateRecurrence = (changes: Partial<RecurrenceOptions>) => {
+    setRecurrence(prev => ({ ...prev, ...changes }));
   };
 
-  const buildRecurrenceRule = () => {
-    let rule = '';
-
-    switch (recurrencePreset) {
-      case 'daily':
-        rule = 'FREQ=DAILY';
-        break;
-      case 'weekdays':
-        rule = 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
-        break;
-      case 'weekly':
-        rule = `FREQ=WEEKLY;BYDAY=${selectedDays.length > 0 ? selectedDays[0] : getCurrentDayCode()}`;
-        break;
-      case 'custom':
-        if (selectedDays.length > 0) {
-          rule = `FREQ=WEEKLY;BYDAY=${selectedDays.join(',')}`;
-        } else {
-          rule = 'FREQ=WEEKLY';
-        }
-        break;
+  const recurrenceErrors = (options: RecurrenceOptions) => {
+    const found: Record<string, string> = {};
+    if (!Number.isInteger(options.interval) || options.interval < 1 || options.interval > 99) {
+      found.interval = 'Enter a number from 1 to 99';
     }
-
-    if (repeatUntil) {
-      const untilDate = repeatUntil.replace(/-/g, '');
-      rule += `;UNTIL=${untilDate}`;
+    if (options.frequency === 'WEEKLY' && options.weekdays.length === 0) {
+      found.weekdays = 'Select at least one day';
     }
-
-    return rule;
+    if (options.end === 'until' && (!options.until || options.until < startDate)) {
+      found.until = 'End date must be on or after the start date';
+    }
+    if (options.end === 'count' && (!Number.isInteger(options.count) || options.count < 1 || options.count > 365)) {
+      found.count = 'Enter a number from 1 to 365';
+    }
+    return found;
   };
 
   const validate = () => {
@@ -200,8 +201,8 @@ export default function SessionModal({ isOpen, onClose, session, defaultDate, on
       newErrors.meetLink = 'Invalid URL format';
     }
 
-    if (isRecurring && recurrencePreset === 'custom' && selectedDays.length === 0) {
-      newErrors.selectedDays = 'Select at least one day';
+    if (isRecurring && !isSingleEdit) {
+      Object.assign(newErrors, recurrenceErrors(recurrence));
     }
 
     setErrors(newErrors);
@@ -221,22 +222,36 @@ export default function SessionModal({ isOpen, onClose, session, defaultDate, on
     e.preventDefault();
     if (!validate()) return;
 
-    const startDateTime = new Date(`${startDate}T${startTime}`);
-    const endDateTime = endTime ? new Date(`${startDate}T${endTime}`) : undefined;
-
     const data: CreateSessionData = {
       name: name.trim(),
       description: description.trim() || undefined,
-      startTime: startDateTime.toISOString(),
-      endTime: endDateTime?.toISOString(),
+      startTime: zonedDateTimeToIso(startDate, startTime, timezone),
+      endTime: endTime ? zonedDateTimeToIso(startDate, endTime, timezone) : undefined,
       meetLink: meetLink.trim() || undefined,
+      timezone,
       isRecurring,
-      recurrenceRule: isRecurring ? buildRecurrenceRule() : undefined,
+      recurrenceRule: isRecurring ? buildRecurrenceRule(recurrence) : undefined,
       programIds: allPrograms ? [] : selectedPrograms,
+      cohortIds: allPrograms ? [] : selectedCohorts,
     };
 
     try {
-      if (isEditing) {
+      if (isEditing && isOccurrence) {
+        const update: UpdateSessionData = isSingleEdit
+          // Schedule and audience belong to the series
+          ? {
+              name: data.name,
+              description: data.description,
+              startTime: data.startTime,
+              endTime: data.endTime,
+              meetLink: data.meetLink,
+            }
+          : data;
+        await updateSession.mutateAsync({
+          id: session.id,
+          data: { ...update, editMode, occurrenceDate: session.occurrenceDate },
+        });
+      } else if (isEditing) {
         await updateSession.mutateAsync({ id: session.id, data });
       } else {
         await createSession.mutateAsync(data);
@@ -247,20 +262,46 @@ export default function SessionModal({ isOpen, onClose, session, defaultDate, on
     }
   };
 
-  const toggleDay = (dayCode: string) => {
-    setSelectedDays(prev =>
-      prev.includes(dayCode)
-        ? prev.filter(d => d !== dayCode)
-        : [...prev, dayCode]
-    );
+  const toggleWeekday = (dayCode: string) => {
+    updateRecurrence({
+      weekdays: recurrence.weekdays.includes(dayCode)
+        ? recurrence.weekdays.filter(d => d !== dayCode)
+        : [...recurrence.weekdays, dayCode],
+    });
   };
 
+  // Preview the schedule once the form describes a valid one
+  const previewParams = useMemo<RecurrencePreviewParams | null>(() => {
+    if (!isOpen || !isRecurring || !startDate || !startTime) return null;
+    if (Object.keys(recurrenceErrors(recurrence)).length > 0) return null;
+    return {
+      startTime: zonedDateTimeToIso(startDate, startTime, timezone),
+      endTime: endTime && endTime > startTime ? zonedDateTimeToIso(startDate, endTime, timezone) : undefined,
+      recurrenceRule: buildRecurrenceRule(recurrence),
+      timezone,
+      count: PREVIEW_COUNT,
+    };
+  }, [isOpen, isRecurring, startDate, startTime, endTime, timezone, recurrence]);
+  const preview = useRecurrencePreview(previewParams);
+  const previewError = (preview.error as AxiosError<{ error?: { message?: string } }> | null)?.response?.data?.error?.message;
+
   const toggleProgram = (programId: string) => {
     setSelectedPrograms(prev =>
       prev.includes(programId)
         ? prev.filter(id => id !== programId)
         : [...prev, programId]
     );
+    // The whole program covers its cohorts
+    const cohortIds = programs?.find(p => p.id === programId)?.cohorts.map(c => c.id) || [];
+    setSelectedCohorts(prev => prev.filter(id => !cohortIds.includes(id)));
+  };
+
+  const toggleCohort = (cohortId: string) => {
+    setSelectedCohorts(prev =>
+      prev.includes(cohortId)
+        ? prev.filter(id => id !== cohortId)
+        : [...prev, cohortId]
+    );
   };
 
   const handleStartTimeChange = (newTime: string) => {
@@ -285,6 +326,33 @@ export default function SessionModal({ isOpen, onClose, session, defaultDate, on
     >
       <form onSubmit={handleSubmit}>
         <div className="space-y-5">
+          {/* Which occurrences the changes apply to */}
+          {isOccurrence && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700">
+                Apply changes to
+              </label>
+              {EDIT_MODES.map(mode => (
+                <label
+                  key={mode.value}
+                  className="flex items-start gap-3 p-3 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50"
+                >
+                  <input
+                    type="radio"
+                    name="editMode"
+                    checked={editMode === mode.value}
+                    onChange={() => handleEditModeChange(mode.value)}
+                    className="mt-0.5 w-4 h-4 text-accent-500 border-slate-300 focus:ring-accent-500"
+                  />
+                  <div>
+                    <span className="text-sm font-medium text-slate-900">{mode.label}</span>
+                    <p className="text-xs text-slate-500">{mode.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
           {/* Name */}
           <Input
             label="Session Name"
@@ -352,6 +420,21 @@ export default function SessionModal({ isOpen, onClose, session, defaultDate, on
             </div>
           </div>
 
+          {/* Timezone */}
+          <div>
+            <Select
+              label="Timezone"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              disabled={isSingleEdit}
+              options={(timezones.includes(timezone) ? timezones : [timezone, ...timezones])
+                .map(zone => ({ value: zone, label: zone.replace(/_/g, ' ') }))}
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              Date and times are in this timezone; recurring sessions keep their local time across daylight saving changes
+            </p>
+          </div>
+
           {/* Meet Link */}
           <Input
             label="Meeting Link"
@@ -363,153 +446,277 @@ export default function SessionModal({ isOpen, onClose, session, defaultDate, on
             helperText="Google Meet, Zoom, or other video call link"
           />
 
-          {/* Recurring */}
-          <div className="border border-slate-200 rounded-xl p-4 bg-slate-50/50">
-            <label className="flex items-center gap-3 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={isRecurring}
-                onChange={(e) => setIsRecurring(e.target.checked)}
-                className="w-4 h-4 text-accent-500 border-slate-300 rounded focus:ring-accent-500"
-              />
-              <div>
-                <span className="font-medium text-slate-900">Recurring Session</span>
-                <p className="text-sm text-slate-500">This session repeats on a schedule</p>
-              </div>
-            </label>
-
-            {isRecurring && (
-              <div className="mt-4 space-y-4 pt-4 border-t border-slate-200">
-                {/* Recurrence Preset */}
+          {/* Recurrence and programs only change for the whole series */}
+          {!isSingleEdit && (
+            <>
+            {/* Recurring */}
+            <div className="border border-slate-200 rounded-xl p-4 bg-slate-50/50">
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isRecurring}
+                  onChange={(e) => {
+                    setIsRecurring(e.target.checked);
+                    // Start from "weekly on the session's day" unless editing an existing schedule
+                    if (e.target.checked && !session?.recurrenceRule) {
+                      setRecurrence(defaultRecurrence(startDate));
+                    }
+                  }}
+                  className="w-4 h-4 text-accent-500 border-slate-300 rounded focus:ring-accent-500"
+                />
                 <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-2">
-                    Repeat Frequency
-                  </label>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                    {RECURRENCE_PRESETS.map((preset) => (
-                      <button
-                        key={preset.value}
-                        type="button"
-                        onClick={() => {
-                          setRecurrencePreset(preset.value);
-                          if (preset.value === 'weekdays') {
-                            setSelectedDays(['MO', 'TU', 'WE', 'TH', 'FR']);
-                          } else if (preset.value === 'weekly') {
-                            setSelectedDays([getCurrentDayCode()]);
-                          } else if (preset.value === 'daily') {
-                            setSelectedDays([]);
-                          }
-                        }}
-                        className={`px-3 py-2 text-sm font-medium rounded-lg border transition-all ${
-                          recurrencePreset === preset.value
-                            ? 'bg-slate-900 text-white border-slate-900'
-                            : 'bg-white text-slate-700 border-slate-300 hover:border-slate-400'
-                        }`}
-                      >
-                        {preset.label}
-                      </button>
-                    ))}
-                  </div>
+                  <span className="font-medium text-slate-900">Recurring Session</span>
+                  <p className="text-sm text-slate-500">This session repeats on a schedule</p>
                 </div>
+              </label>
 
-                {/* Day Selection for Custom */}
-                {(recurrencePreset === 'custom' || recurrencePreset === 'weekly') && (
-                  <div>
-                    <label className="block text-sm font-medium text-slate-700 mb-2">
-                      {recurrencePreset === 'weekly' ? 'Repeat on' : 'Select Days'}
-                    </label>
-                    <div className="flex flex-wrap gap-2">
-                      {DAYS_OF_WEEK.map((day) => (
-                        <button
-                          key={day.value}
-                          type="button"
-                          onClick={() => {
-                            if (recurrencePreset === 'weekly') {
-                              setSelectedDays([day.value]);
-                            } else {
-                              toggleDay(day.value);
-                            }
-                          }}
-                          className={`w-12 h-12 text-sm font-medium rounded-xl border transition-all ${
-                            selectedDays.includes(day.value)
-                              ? 'bg-accent-500 text-white border-accent-500'
-                              : 'bg-white text-slate-700 border-slate-300 hover:border-slate-400'
-                          }`}
-                        >
-                          {day.label}
-                        </button>
-                      ))}
-                    </div>
-                    {errors.selectedDays && (
-                      <p className="text-sm text-red-500 mt-1">{errors.selectedDays}</p>
-                    )}
+              {isRecurring && (
+                <div className="mt-4 space-y-4 pt-4 border-t border-slate-200">
+                  {/* Frequency & Interval */}
+                  <div className="grid grid-cols-2 gap-3 md:w-80">
+                    <Input
+                      label="Repeat every"
+                      type="number"
+                      min={1}
+                      max={99}
+                      value={recurrence.interval}
+                      onChange={(e) => updateRecurrence({ interval: parseInt(e.target.value, 10) || 0 })}
+                      error={errors.interval}
+                    />
+                    <Select
+                      label="Unit"
+                      value={recurrence.frequency}
+                      onChange={(e) => updateRecurrence({ frequency: e.target.value as RecurrenceFrequency })}
+                      options={FREQUENCY_OPTIONS}
+                    />
                   </div>
-                )}
-
-                {/* Repeat Until */}
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1.5">
-                    Repeat Until <span className="text-slate-400 font-normal">(optional)</span>
-                  </label>
-                  <input
-                    type="date"
-                    value={repeatUntil}
-                    onChange={(e) => setRepeatUntil(e.target.value)}
-                    min={startDate}
-                    className="w-full md:w-48 px-3.5 py-2.5 text-sm rounded-lg border border-slate-300 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-slate-500/20 focus:border-slate-500 hover:border-slate-400 transition-all"
-                  />
-                  <p className="text-xs text-slate-500 mt-1">Leave empty for indefinite recurrence</p>
-                </div>
-              </div>
-            )}
-          </div>
 
-          {/* Program Assignment */}
-          <div className="border border-slate-200 rounded-xl p-4 bg-slate-50/50">
-            <label className="flex items-center gap-3 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={allPrograms}
-                onChange={(e) => {
-                  setAllPrograms(e.target.checked);
-                  if (e.target.checked) setSelectedPrograms([]);
-                }}
-                className="w-4 h-4 text-accent-500 border-slate-300 rounded focus:ring-accent-500"
-              />
-              <div>
-                <span className="font-medium text-slate-900">All Programs</span>
-                <p className="text-sm text-slate-500">Session is available to all learners</p>
-              </div>
-            </label>
+                  {/* Days of the week */}
+                  {recurrence.frequency === 'WEEKLY' && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">
+                        Repeat on
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        {WEEKDAYS.map((day) => (
+                          <button
+                            key={day.value}
+                            type="button"
+                            onClick={() => toggleWeekday(day.value)}
+                            className={`w-12 h-12 text-sm font-medium rounded-xl border transition-all ${
+                              recurrence.weekdays.includes(day.value)
+                                ? 'bg-accent-500 text-white border-accent-500'
+                                : 'bg-white text-slate-700 border-slate-300 hover:border-slate-400'
+                            }`}
+                          >
+                            {day.label}
+                          </button>
+                        ))}
+                      </div>
+                      {errors.weekdays && (
+                        <p className="text-sm text-red-500 mt-1">{errors.weekdays}</p>
+                      )}
+                    </div>
+                  )}
 
-            {!allPrograms && (
-              <div className="mt-4 pt-4 border-t border-slate-200">
-                <label className="block text-sm font-medium text-slate-700 mb-2">
-                  Select Programs
-                </label>
-                {programs && programs.length > 0 ? (
-                  <div className="space-y-2 max-h-40 overflow-y-auto">
-                    {programs.filter(p => p.isPublished).map((program) => (
-                      <label
-                        key={program.id}
-                        className="flex items-center gap-3 p-2.5 hover:bg-white rounded-lg cursor-pointer transition-colors"
-                      >
+                  {/* Day of the month, or nth weekday */}
+                  {recurrence.frequency === 'MONTHLY' && (
+                    <div className="space-y-2">
+                      <label className="block text-sm font-medium text-slate-700">
+                        Repeat on
+                      </label>
+                      <label className="flex items-center gap-3 cursor-pointer">
                         <input
-                          type="checkbox"
-                          checked={selectedPrograms.includes(program.id)}
-                          onChange={() => toggleProgram(program.id)}
-                          className="w-4 h-4 text-accent-500 border-slate-300 rounded focus:ring-accent-500"
+                          type="radio"
+                          name="monthlyMode"
+                          checked={recurrence.monthlyMode === 'monthDay'}
+                          onChange={() => updateRecurrence({ monthlyMode: 'monthDay' })}
+                          className="w-4 h-4 text-accent-500 border-slate-300 focus:ring-accent-500"
                         />
-                        <span className="text-sm text-slate-700">{program.name}</span>
+                        <span className="text-sm text-slate-700 w-12">Day</span>
+                        <div className="w-36">
+                          <Select
+                            value={String(recurrence.monthDay)}
+                            onChange={(e) => updateRecurrence({ monthlyMode: 'monthDay', monthDay: Number(e.target.value) })}
+                            options={MONTH_DAY_OPTIONS}
+                          />
+                        </div>
                       </label>
-                    ))}
+                      <label className="flex items-center gap-3 cursor-pointer">
+                        <input
+                          type="radio"
+                          name="monthlyMode"
+                          checked={recurrence.monthlyMode === 'weekday'}
+                          onChange={() => updateRecurrence({ monthlyMode: 'weekday' })}
+                          className="w-4 h-4 text-accent-500 border-slate-300 focus:ring-accent-500"
+                        />
+                        <span className="text-sm text-slate-700 w-12">The</span>
+                        <div className="w-36">
+                          <Select
+                            value={String(recurrence.setPos)}
+                            onChange={(e) => updateRecurrence({ monthlyMode: 'weekday', setPos: Number(e.target.value) })}
+                            options={SET_POSITIONS.map(p => ({ value: String(p.value), label: p.label }))}
+                          />
+                        </div>
+                        <div className="w-40">
+                          <Select
+                            value={recurrence.setPosDay}
+                            onChange={(e) => updateRecurrence({ monthlyMode: 'weekday', setPosDay: e.target.value })}
+                            options={WEEKDAYS.map(d => ({ value: d.value, label: d.fullLabel }))}
+                          />
+                        </div>
+                      </label>
+                      <p className="text-xs text-slate-500">Months without that day are skipped</p>
+                    </div>
+                  )}
+
+                  {/* Ends */}
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-slate-700">
+                      Ends
+                    </label>
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="recurrenceEnd"
+                        checked={recurrence.end === 'never'}
+                        onChange={() => updateRecurrence({ end: 'never' })}
+                        className="w-4 h-4 text-accent-500 border-slate-300 focus:ring-accent-500"
+                      />
+                      <span className="text-sm text-slate-700">Never</span>
+                    </label>
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="recurrenceEnd"
+                        checked={recurrence.end === 'until'}
+                        onChange={() => updateRecurrence({ end: 'until' })}
+                        className="w-4 h-4 text-accent-500 border-slate-300 focus:ring-accent-500"
+                      />
+                      <span className="text-sm text-slate-700 w-12">On</span>
+                      <input
+                        type="date"
+                        value={recurrence.until}
+                        onChange={(e) => updateRecurrence({ end: 'until', until: e.target.value })}
+                        min={startDate}
+                        className="w-48 px-3.5 py-2.5 text-sm rounded-lg border border-slate-300 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-slate-500/20 focus:border-slate-500 hover:border-slate-400 transition-all"
+                      />
+                    </label>
+                    {errors.until && <p className="text-sm text-red-500">{errors.until}</p>}
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="recurrenceEnd"
+                        checked={recurrence.end === 'count'}
+                        onChange={() => updateRecurrence({ end: 'count' })}
+                        className="w-4 h-4 text-accent-500 border-slate-300 focus:ring-accent-500"
+                      />
+                      <span className="text-sm text-slate-700 w-12">After</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={365}
+                        value={recurrence.count}
+                        onChange={(e) => updateRecurrence({ end: 'count', count: parseInt(e.target.value, 10) || 0 })}
+                        className="w-24 px-3.5 py-2.5 text-sm rounded-lg border border-slate-300 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-slate-500/20 focus:border-slate-500 hover:border-slate-400 transition-all"
+                      />
+                      <span className="text-sm text-slate-700">occurrences</span>
+                    </label>
+                    {errors.count && <p className="text-sm text-red-500">{errors.count}</p>}
                   </div>
-                ) : (
-                  <p className="text-sm text-slate-500">No published programs available</p>
-                )}
-              </div>
-            )}
-          </div>
+
+                  {/* Preview */}
+                  <div className="rounded-lg border border-slate-200 bg-white p-3">
+                    <div className="flex items-center gap-2 text-sm font-medium text-primary-900">
+                      <CalendarClock className="w-4 h-4 text-slate-400" />
+                      {describeRecurrence(recurrence)}
+                    </div>
+                    {previewError ? (
+                      <p className="text-sm text-red-500 mt-2">{previewError}</p>
+                    ) : preview.data && preview.data.length > 0 && previewParams ? (
+                      <div className="mt-2">
+                        <p className="text-xs text-slate-500 mb-1">Next occurrences ({timezone})</p>
+                        <ul className="space-y-0.5">
+                          {preview.data.map(occurrence => (
+                            <li key={occurrence.startTime} className="text-sm text-slate-700">
+                              {formatInTimezone(occurrence.startTime, timezone)}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ) : previewParams && !preview.isFetching ? (
+                      <p className="text-sm text-slate-500 mt-2">No upcoming occurrences</p>
+                    ) : null}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Program Assignment */}
+            <div className="border border-slate-200 rounded-xl p-4 bg-slate-50/50">
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allPrograms}
+                  onChange={(e) => {
+                    setAllPrograms(e.target.checked);
+                    if (e.target.checked) {
+                      setSelectedPrograms([]);
+                      setSelectedCohorts([]);
+                    }
+                  }}
+                  className="w-4 h-4 text-accent-500 border-slate-300 rounded focus:ring-accent-500"
+                />
+                <div>
+                  <span className="font-medium text-slate-900">All Programs</span>
+                  <p className="text-sm text-slate-500">Session is available to all learners</p>
+                </div>
+              </label>
+
+              {!allPrograms && (
+                <div className="mt-4 pt-4 border-t border-slate-200">
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    Select Programs
+                  </label>
+                  {programs && programs.length > 0 ? (
+                    <div className="space-y-2 max-h-56 overflow-y-auto">
+                      {programs.filter(p => p.isPublished).map((program) => (
+                        <div key={program.id}>
+                          <label className="flex items-center gap-3 p-2.5 hover:bg-white rounded-lg cursor-pointer transition-colors">
+                            <input
+                              type="checkbox"
+                              checked={selectedPrograms.includes(program.id)}
+                              onChange={() => toggleProgram(program.id)}
+                              className="w-4 h-4 text-accent-500 border-slate-300 rounded focus:ring-accent-500"
+                            />
+                            <span className="text-sm text-slate-700">{program.name}</span>
+                          </label>
+                          {/* Pick single cohorts instead of the whole program */}
+                          {!selectedPrograms.includes(program.id) && program.cohorts.map((cohort) => (
+                            <label
+                              key={cohort.id}
+                              className="flex items-center gap-3 py-1.5 pl-9 pr-2.5 hover:bg-white rounded-lg cursor-pointer transition-colors"
+                            >
+                              <input
+                                type="checkbox"
+                                checked={selectedCohorts.includes(cohort.id)}
+                                onChange={() => toggleCohort(cohort.id)}
+                                className="w-4 h-4 text-accent-500 border-slate-300 rounded focus:ring-accent-500"
+                              />
+                              <span className="text-sm text-slate-500">{cohort.name} cohort only</span>
+                            </label>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-500">No published programs available</p>
+                  )}
+                </div>
+              )}
+            </div>
+            </>
+          )}
         </div>
 
         <Modal.Footer>
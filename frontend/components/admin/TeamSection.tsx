@@ -0,0 +1,228 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { UserPlus, Mail, RotateCw, X } from 'lucide-react';
+import { formatDistanceToNow, isPast } from 'date-fns';
+import { Modal, Button, Input, Select, Badge, LoadingSpinner, getStatusVariant } from '@/components/ui';
+import { useTeam, useInviteTeamMember, useResendTeamInvite, useRevokeTeamInvite, useUpdateTeamMemberStatus } from '@/hooks';
+import { useAuthStore } from '@/lib/auth-store';
+import { STAFF_ROLES, ROLE_LABELS } from '@/lib/permissions';
+import { StaffRole, TeamMember } from '@/types/admin';
+
+const ROLE_OPTIONS = STAFF_ROLES.map(role => ({ value: role, label: ROLE_LABELS[role] }));
+
+function InviteModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<StaffRole>('INSTRUCTOR');
+  // Shown when the invite was created but the email failed, to share by hand
+  const [setupLink, setSetupLink] = useState<string | null>(null);
+  const inviteMember = useInviteTeamMember();
+
+  useEffect(() => {
+    setEmail('');
+    setName('');
+    setRole('INSTRUCTOR');
+    setSetupLink(null);
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await inviteMember.mutateAsync({ email: email.trim(), name: name.trim(), role });
+      if (result.emailSent) {
+        onClose();
+      } else {
+        setSetupLink(result.setupLink);
+      }
+    } catch {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Invite Team Member" size="md">
+      {setupLink ? (
+        <>
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              The invite email could not be sent. Share this setup link with {name} directly — it expires in 7 days.
+            </p>
+            <Input value={setupLink} readOnly onFocus={(e) => e.target.select()} aria-label="Setup link" />
+          </div>
+          <Modal.Footer>
+            <Button type="button" variant="primary" onClick={onClose}>
+              Done
+            </Button>
+          </Modal.Footer>
+        </>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-5">
+            <Input
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Priya Sharma"
+              maxLength={200}
+              required
+            />
+            <Input
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              required
+            />
+            <Select
+              label="Role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as StaffRole)}
+              options={ROLE_OPTIONS}
+            />
+            <p className="text-xs text-slate-500">
+              They&apos;ll get an email with a link to set their password. Instructors only see the programs they&apos;re assigned to.
+            </p>
+          </div>
+
+          <Modal.Footer>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" isLoading={inviteMember.isPending}>
+              Send Invite
+            </Button>
+          </Modal.Footer>
+        </form>
+      )}
+    </Modal>
+  );
+}
+
+function MemberStatus({ member }: { member: TeamMember }) {
+  if (member.status !== 'PENDING_SETUP') {
+    return (
+      <Badge variant={getStatusVariant(member.status)} dot>
+        {member.status === 'ACTIVE' ? 'Active' : 'Deactivated'}
+      </Badge>
+    );
+  }
+
+  const expiresAt = member.inviteExpiresAt ? new Date(member.inviteExpiresAt) : null;
+  if (!expiresAt || isPast(expiresAt)) {
+    return <Badge variant="error" dot>Invite expired</Badge>;
+  }
+  return (
+    <Badge variant="warning" dot>
+      Invited · expires {formatDistanceToNow(expiresAt, { addSuffix: true })}
+    </Badge>
+  );
+}
+
+// Staff accounts: invite by email, resend or revoke invites, deactivate members
+export default function TeamSection() {
+  const [showInvite, setShowInvite] = useState(false);
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const { data: members, isLoading } = useTeam();
+  const resendInvite = useResendTeamInvite();
+  const revokeInvite = useRevokeTeamInvite();
+  const updateStatus = useUpdateTeamMemberStatus();
+
+  const handleRevoke = (member: TeamMember) => {
+    if (window.confirm(`Revoke the invite for ${member.email}? The setup link will stop working.`)) {
+      revokeInvite.mutate(member.id);
+    }
+  };
+
+  const handleStatus = (member: TeamMember, status: 'ACTIVE' | 'INACTIVE') => {
+    if (status === 'INACTIVE' && !window.confirm(`Deactivate ${member.name}? They will be signed out of all devices.`)) {
+      return;
+    }
+    updateStatus.mutate({ id: member.id, status });
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-base font-semibold text-slate-900">Team</h2>
+          <p className="text-xs text-slate-500 mt-0.5">People who can sign in to the admin panel</p>
+        </div>
+        <Button variant="primary" size="sm" leftIcon={<UserPlus className="w-4 h-4" />} onClick={() => setShowInvite(true)}>
+          Invite
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {(members || []).map((member) => {
+            const isPending = member.status === 'PENDING_SETUP';
+            const isSelf = member.id === currentUserId;
+            return (
+              <li key={member.id} className="px-6 py-4 flex flex-wrap items-center gap-x-4 gap-y-2">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-900 truncate">
+                    {member.name}
+                    {isSelf && <span className="ml-1.5 text-xs font-normal text-slate-500">(you)</span>}
+                  </p>
+                  <p className="text-sm text-slate-500 truncate flex items-center gap-1.5">
+                    <Mail className="w-3.5 h-3.5 flex-shrink-0" />
+                    {member.email}
+                  </p>
+                </div>
+                <span className="text-sm text-slate-600">{ROLE_LABELS[member.role]}</span>
+                <MemberStatus member={member} />
+                {!isSelf && (
+                  <div className="flex items-center gap-2">
+                    {isPending ? (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          leftIcon={<RotateCw className="w-3.5 h-3.5" />}
+                          onClick={() => resendInvite.mutate(member.id)}
+                          isLoading={resendInvite.isPending && resendInvite.variables === member.id}
+                        >
+                          Resend
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          leftIcon={<X className="w-3.5 h-3.5" />}
+                          onClick={() => handleRevoke(member)}
+                          className="text-red-600 hover:bg-red-50"
+                        >
+                          Revoke
+                        </Button>
+                      </>
+                    ) : member.status === 'ACTIVE' ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleStatus(member, 'INACTIVE')}
+                        className="text-red-600 hover:bg-red-50"
+                      >
+                        Deactivate
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => handleStatus(member, 'ACTIVE')}>
+                        Reactivate
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <InviteModal isOpen={showInvite} onClose={() => setShowInvite(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Subtitles, Upload, Trash2, ExternalLink } from 'lucide-react';
+import { format } from 'date-fns';
+import { useUploadTranscript, useDeleteTranscript } from '@/hooks';
+import { LessonTranscript } from '@/types/admin';
+
+interface TranscriptManagerProps {
+  lessonId: string;
+  programId: string;
+  transcripts: LessonTranscript[];
+}
+
+export default function TranscriptManager({ lessonId, programId, transcripts }: TranscriptManagerProps) {
+  const [language, setLanguage] = useState('en');
+  const [label, setLabel] = useState('English');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTranscript = useUploadTranscript();
+  const deleteTranscript = useDeleteTranscript();
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await uploadTranscript.mutateAsync({
+        lessonId,
+        programId,
+        file,
+        language: language.trim() || 'en',
+        label: label.trim() || language.trim().toUpperCase(),
+      });
+    } catch {
+      // Error handled by mutation onError
+    }
+  };
+
+  const handleDelete = (transcript: LessonTranscript) => {
+    if (window.confirm(`Delete the ${transcript.label} transcript?`)) {
+      deleteTranscript.mutate({ id: transcript.id, programId });
+    }
+  };
+
+  const replacing = transcripts.some(t => t.language === language.trim());
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-1">
+        Transcripts <span className="text-slate-400 font-normal">(WebVTT or SRT captions)</span>
+      </label>
+      <p className="text-xs text-slate-500 mb-2">
+        Shown as captions in the player and as a searchable transcript next to the video
+      </p>
+
+      {transcripts.length > 0 && (
+        <div className="mb-3 border border-slate-200 rounded-lg divide-y divide-slate-100">
+          {transcripts.map(transcript => (
+            <div key={transcript.id} className="flex items-center gap-3 px-3 py-2">
+              <Subtitles className="w-4 h-4 text-slate-400 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-700">
+                  {transcript.label} <span className="text-slate-400 font-normal">({transcript.language})</span>
+                </p>
+                <p className="text-xs text-slate-500">Updated {format(new Date(transcript.updatedAt), 'MMM d, yyyy')}</p>
+              </div>
+              <a
+                href={transcript.fileUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="p-1.5 text-slate-400 hover:text-slate-600"
+                title="Open file"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </a>
+              <button
+                type="button"
+                onClick={() => handleDelete(transcript)}
+                disabled={deleteTranscript.isPending}
+                className="p-1.5 text-slate-400 hover:text-red-500"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          placeholder="en"
+          maxLength={12}
+          className="input w-20 py-2 text-sm"
+          title="Language code"
+        />
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="English"
+          maxLength={50}
+          className="input w-40 py-2 text-sm"
+          title="Label shown to learners"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadTranscript.isPending || !language.trim()}
+          className="inline-flex items-center gap-2 px-3 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {uploadTranscript.isPending ? (
+            <div className="w-4 h-4 border-2 border-slate-400 border-t-transparent rounded-full animate-spin" />
+          ) : (
+            <Upload className="w-4 h-4 text-slate-400" />
+          )}
+          <span className="text-sm text-slate-600">{replacing ? 'Replace' : 'Upload'}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".vtt,.srt,text/vtt"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ export { default as ProgramModal } from './ProgramModal';
 export { default as ContentTree } from './ContentTree';
 export { default as LearnerModal } from './LearnerModal';
 export { default as SessionModal } from './SessionModal';
+export { default as AttendanceModal } from './AttendanceModal';
+export { default as RecordingModal } from './RecordingModal';
 export { default as NotificationDropdown } from './NotificationDropdown';
 export { default as GlobalSearch } from './GlobalSearch';
 export { default as EnrollmentChart } from './EnrollmentChart';
@@ -12,3 +14,8 @@ export { default as DailyActiveUsersChart } from './DailyActiveUsersChart';
 export { default as ProgramPerformance } from './ProgramPerformance';
 export { default as RecentActivity } from './RecentActivity';
 export { default as RevenueChart } from './RevenueChart';
+export { default as CouponModal } from './CouponModal';
+export { default as InstallmentPlanModal } from './InstallmentPlanModal';
+export { default as CohortModal } from './CohortModal';
+export { default as LearnerImportModal } from './LearnerImportModal';
+export { default as LearnerExportModal } from './LearnerExportModal';
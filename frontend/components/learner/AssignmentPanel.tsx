@@ -0,0 +1,219 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { CheckCircle, Clock, AlertCircle, Upload, FileText, X, Download } from 'lucide-react';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { Button, Badge } from '@/components/ui';
+import { useSubmitAssignment } from '@/hooks/useLearnerData';
+import { AssignmentSubmission } from '@/types/learner';
+
+interface AssignmentPanelProps {
+  lessonId: string;
+  submission?: AssignmentSubmission | null;
+}
+
+const MAX_FILE_SIZE = 25 * 1024 * 1024;
+const ACCEPTED_FILES = '.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.zip,.txt,.jpg,.jpeg,.png';
+
+const STATUS_DISPLAY = {
+  PENDING: { label: 'Awaiting review', variant: 'warning' as const, icon: Clock },
+  APPROVED: { label: 'Approved', variant: 'success' as const, icon: CheckCircle },
+  REJECTED: { label: 'Changes requested', variant: 'error' as const, icon: AlertCircle },
+};
+
+export default function AssignmentPanel({ lessonId, submission }: AssignmentPanelProps) {
+  const [isEditing, setIsEditing] = useState(!submission);
+  const [textAnswer, setTextAnswer] = useState(submission?.textAnswer || '');
+  const [file, setFile] = useState<File | null>(null);
+  const [keepExistingFile, setKeepExistingFile] = useState(!!submission?.fileUrl);
+  const [fileError, setFileError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const submitAssignment = useSubmitAssignment();
+
+  const hasExistingFile = keepExistingFile && !!submission?.fileUrl;
+  const canSubmit = !!textAnswer.trim() || !!file || hasExistingFile;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    if (selected.size > MAX_FILE_SIZE) {
+      setFileError('File must be 25MB or smaller');
+      return;
+    }
+    setFileError('');
+    setFile(selected);
+    setKeepExistingFile(false);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      await submitAssignment.mutateAsync({
+        lessonId,
+        textAnswer: textAnswer.trim() || undefined,
+        file,
+        fileUrl: hasExistingFile ? submission?.fileUrl || undefined : undefined,
+        fileName: hasExistingFile ? submission?.fileName || undefined : undefined,
+      });
+      setFile(null);
+      setIsEditing(false);
+    } catch {
+      // Error handled by mutation onError
+    }
+  };
+
+  const handleCancel = () => {
+    setTextAnswer(submission?.textAnswer || '');
+    setFile(null);
+    setKeepExistingFile(!!submission?.fileUrl);
+    setFileError('');
+    setIsEditing(false);
+  };
+
+  const status = submission ? STATUS_DISPLAY[submission.status] : null;
+
+  return (
+    <div className="space-y-6 mb-6">
+      {/* Grade & feedback */}
+      {submission && status && !isEditing && (
+        <div
+          className={clsx(
+            'rounded-xl border p-5',
+            submission.status === 'APPROVED' && 'bg-emerald-50 border-emerald-200',
+            submission.status === 'PENDING' && 'bg-amber-50 border-amber-200',
+            submission.status === 'REJECTED' && 'bg-red-50 border-red-200'
+          )}
+        >
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <status.icon
+                className={clsx(
+                  'w-8 h-8 flex-shrink-0',
+                  submission.status === 'APPROVED' && 'text-emerald-500',
+                  submission.status === 'PENDING' && 'text-amber-500',
+                  submission.status === 'REJECTED' && 'text-red-500'
+                )}
+              />
+              <div>
+                <p className="font-semibold text-slate-900">
+                  {status.label}
+                  {submission.grade && (
+                    <span className="font-normal text-slate-500"> &middot; Grade: {submission.grade}</span>
+                  )}
+                </p>
+                <p className="text-sm text-slate-600">
+                  Submitted {format(new Date(submission.submittedAt), 'MMM d, yyyy h:mm a')}
+                  {submission.gradedAt && ` · Reviewed ${format(new Date(submission.gradedAt), 'MMM d, yyyy')}`}
+                </p>
+              </div>
+            </div>
+            {submission.status !== 'APPROVED' && (
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                {submission.status === 'REJECTED' ? 'Resubmit' : 'Edit Submission'}
+              </Button>
+            )}
+          </div>
+          {submission.feedback && (
+            <div className="mt-4 p-4 bg-white/70 rounded-lg border border-white">
+              <p className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-1">Feedback</p>
+              <p className="text-sm text-slate-700 whitespace-pre-wrap">{submission.feedback}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-slate-900">Your Submission</h3>
+            <p className="text-sm text-slate-500 mt-0.5">Add a written answer, a file, or both</p>
+          </div>
+          {status && (
+            <Badge variant={status.variant} size="sm">{status.label}</Badge>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div className="p-6 space-y-4">
+            <textarea
+              value={textAnswer}
+              onChange={(e) => setTextAnswer(e.target.value)}
+              placeholder="Write your answer..."
+              rows={6}
+              className="input resize-none"
+            />
+
+            {file || hasExistingFile ? (
+              <div className="flex items-center gap-3 p-3 rounded-lg bg-slate-50 border border-slate-200">
+                <FileText className="w-5 h-5 text-slate-400 flex-shrink-0" />
+                <span className="flex-1 text-sm text-slate-700 truncate">
+                  {file ? file.name : submission?.fileName || 'Submitted file'}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => { setFile(null); setKeepExistingFile(false); }}
+                  className="p-1 text-slate-400 hover:text-red-500"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full flex items-center justify-center gap-2 py-4 border-2 border-dashed border-slate-300 rounded-lg text-sm text-slate-500 hover:border-accent-500 hover:text-accent-600 transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                Upload a file
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILES}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+            <p className="text-xs text-slate-500">PDF, Office documents, ZIP, TXT or images up to 25MB</p>
+
+            <div className="flex items-center justify-end gap-2 pt-2">
+              {submission && (
+                <Button variant="ghost" onClick={handleCancel} disabled={submitAssignment.isPending}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                variant="primary"
+                onClick={handleSubmit}
+                isLoading={submitAssignment.isPending}
+                disabled={!canSubmit}
+              >
+                {submission ? 'Resubmit for Review' : 'Submit for Review'}
+              </Button>
+            </div>
+          </div>
+        ) : submission && (
+          <div className="p-6 space-y-4">
+            {submission.textAnswer && (
+              <p className="text-sm text-slate-700 whitespace-pre-wrap">{submission.textAnswer}</p>
+            )}
+            {submission.fileUrl && (
+              <a
+                href={submission.fileUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-3 p-3 rounded-lg bg-slate-50 border border-slate-200 hover:bg-slate-100 transition-colors"
+              >
+                <FileText className="w-5 h-5 text-slate-400 flex-shrink-0" />
+                <span className="flex-1 text-sm text-slate-700 truncate">{submission.fileName || 'Submitted file'}</span>
+                <Download className="w-4 h-4 text-slate-400" />
+              </a>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
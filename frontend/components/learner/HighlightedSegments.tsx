@@ -0,0 +1,13 @@
+import { SearchSegment } from '@/types/learner';
+
+// Search result text with the words that matched the query marked
+export default function HighlightedSegments({ segments }: { segments: SearchSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) => (segment.highlight
+        ? <mark key={i} className="bg-accent-100 text-accent-900 rounded px-0.5">{segment.text}</mark>
+        : <span key={i}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
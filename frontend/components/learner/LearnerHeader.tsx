@@ -2,12 +2,13 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Menu, LogOut, User, Search } from 'lucide-react';
+import { Menu, LogOut, User } from 'lucide-react';
 import { useAuthStore } from '@/lib/auth-store';
 import { authApi } from '@/lib/api';
 import Button from '@/components/ui/Button';
 import Modal from '@/components/ui/Modal';
 import NotificationDropdown from './NotificationDropdown';
+import LearnerSearch from './LearnerSearch';
 
 interface LearnerHeaderProps {
   title: string;
@@ -60,17 +61,7 @@ export default function LearnerHeader({ title, subtitle, onMenuClick }: LearnerH
 
           {/* Center: Search (desktop only) */}
           <div className="hidden lg:flex flex-1 max-w-md mx-8">
-            <div className="relative w-full">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-              <input
-                type="text"
-                placeholder="Search programs, lessons..."
-                className="w-full pl-10 pr-4 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg
-                         placeholder:text-slate-400 text-slate-700
-                         focus:outline-none focus:bg-white focus:border-slate-300 focus:ring-2 focus:ring-slate-500/10
-                         transition-all duration-150"
-              />
-            </div>
+            <LearnerSearch />
           </div>
 
           {/* Right: Notifications + User info + Logout */}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, FileText, Lock, ArrowRight } from 'lucide-react';
+import { useLearnerSearch } from '@/hooks/useLearnerData';
+import HighlightedSegments from './HighlightedSegments';
+
+const DROPDOWN_LIMIT = 6;
+
+export default function LearnerSearch() {
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(-1);
+
+  // Debounce search query
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query.trim());
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: results = [], isLoading } = useLearnerSearch(debouncedQuery, DROPDOWN_LIMIT);
+
+  // Reset selected index when results change
+  useEffect(() => {
+    setSelectedIndex(-1);
+  }, [debouncedQuery]);
+
+  // Close on outside click
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const openLesson = (lessonId: string) => {
+    setIsOpen(false);
+    router.push(`/learner/lessons/${lessonId}`);
+  };
+
+  const openAllResults = () => {
+    const q = query.trim();
+    if (q.length < 2) return;
+    setIsOpen(false);
+    router.push(`/learner/search?q=${encodeURIComponent(q)}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setSelectedIndex((prev) => Math.min(prev + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setSelectedIndex((prev) => Math.max(prev - 1, -1));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (isOpen && results[selectedIndex]) {
+          openLesson(results[selectedIndex].lesson.id);
+        } else {
+          openAllResults();
+        }
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        e.currentTarget.blur();
+        break;
+    }
+  };
+
+  const showDropdown = isOpen && debouncedQuery.length >= 2;
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search lessons..."
+        aria-label="Search lessons"
+        autoComplete="off"
+        className="w-full pl-10 pr-4 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg
+                 placeholder:text-slate-400 text-slate-700
+                 focus:outline-none focus:bg-white focus:border-slate-300 focus:ring-2 focus:ring-slate-500/10
+                 transition-all duration-150"
+      />
+
+      {showDropdown && (
+        <div className="absolute left-0 right-0 top-full mt-2 bg-white rounded-xl border border-slate-200 shadow-lg overflow-hidden z-40">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin w-5 h-5 border-2 border-slate-200 border-t-accent-500 rounded-full" />
+            </div>
+          ) : results.length === 0 ? (
+            <div className="px-4 py-8 text-center">
+              <p className="text-sm text-slate-600 font-medium">No lessons found</p>
+              <p className="text-xs text-slate-400 mt-1">Try a different search term</p>
+            </div>
+          ) : (
+            <div className="py-1 max-h-[60vh] overflow-y-auto">
+              {results.map((result, index) => (
+                <button
+                  key={result.lesson.id}
+                  type="button"
+                  onClick={() => openLesson(result.lesson.id)}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  className={`w-full flex items-start gap-3 px-4 py-2.5 text-left transition-colors ${
+                    index === selectedIndex ? 'bg-slate-100' : 'hover:bg-slate-50'
+                  }`}
+                >
+                  {result.isLocked ? (
+                    <Lock className="w-4 h-4 mt-0.5 text-slate-400 flex-shrink-0" />
+                  ) : (
+                    <FileText className="w-4 h-4 mt-0.5 text-slate-400 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-900 truncate">
+                      <HighlightedSegments segments={result.title} />
+                    </p>
+                    <p className="text-xs text-slate-500 truncate mt-0.5">
+                      {result.snippet ? <HighlightedSegments segments={result.snippet} /> : result.program.name}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={openAllResults}
+            className="w-full flex items-center justify-between px-4 py-2.5 text-sm font-medium text-accent-700 bg-slate-50 border-t border-slate-100 hover:bg-slate-100 transition-colors"
+          >
+            See all results for &ldquo;{debouncedQuery}&rdquo;
+            <ArrowRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ import {
   ChevronsRight,
   GraduationCap,
   Compass,
+  StickyNote,
+  Search,
 } from 'lucide-react';
 import clsx from 'clsx';
 
@@ -26,6 +28,8 @@ const navItems = [
   { href: '/learner/programs', icon: BookOpen, label: 'My Programs' },
   { href: '/learner/discover', icon: Compass, label: 'Discover' },
   { href: '/learner/sessions', icon: Calendar, label: 'Sessions' },
+  { href: '/learner/notes', icon: StickyNote, label: 'My Notes' },
+  { href: '/learner/search', icon: Search, label: 'Search' },
   { href: '/learner/profile', icon: User, label: 'Profile' },
 ];
 
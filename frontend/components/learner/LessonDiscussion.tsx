@@ -0,0 +1,217 @@
+'use client';
+
+import { useState } from 'react';
+import { MessageSquare, Pin, Lock, CheckCircle, Pencil, Trash2, CornerDownRight } from 'lucide-react';
+import clsx from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import { Button, Badge, Pagination, LoadingSpinner } from '@/components/ui';
+import { useLessonDiscussions, usePostLessonComment, useUpdateLessonComment, useDeleteLessonComment } from '@/hooks/useLearnerData';
+import { LessonDiscussionComment, LessonDiscussionThread } from '@/types/learner';
+
+interface LessonDiscussionProps {
+  lessonId: string;
+}
+
+// Text box used for questions, replies and edits
+function CommentForm({ initialBody = '', placeholder, submitLabel, isLoading, onSubmit, onCancel }: {
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  isLoading: boolean;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState(initialBody);
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+    } catch {
+      // Error handled by mutation onError
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+        maxLength={5000}
+        className="input resize-none"
+      />
+      <div className="flex items-center justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+        )}
+        <Button variant="primary" size="sm" onClick={handleSubmit} isLoading={isLoading} disabled={!body.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function Comment({ lessonId, comment, isReply }: { lessonId: string; comment: LessonDiscussionComment; isReply?: boolean }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const updateComment = useUpdateLessonComment();
+  const deleteComment = useDeleteLessonComment();
+
+  const handleDelete = () => {
+    const message = isReply ? 'Delete this reply?' : 'Delete this question and all of its replies?';
+    if (window.confirm(message)) {
+      deleteComment.mutate({ id: comment.id, lessonId });
+    }
+  };
+
+  return (
+    <div className={clsx('flex gap-3', isReply && 'pl-6')}>
+      {isReply && <CornerDownRight className="w-4 h-4 text-slate-300 flex-shrink-0 mt-1" />}
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium text-slate-900">{comment.author.name}</span>
+          {comment.author.isInstructor && <Badge variant="accent" size="sm">Instructor</Badge>}
+          <span className="text-slate-400">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+            {comment.editedAt && ' · edited'}
+          </span>
+        </div>
+        {isEditing ? (
+          <div className="mt-2">
+            <CommentForm
+              initialBody={comment.body}
+              placeholder="Edit your comment..."
+              submitLabel="Save"
+              isLoading={updateComment.isPending}
+              onSubmit={async (body) => {
+                await updateComment.mutateAsync({ id: comment.id, lessonId, body });
+                setIsEditing(false);
+              }}
+              onCancel={() => setIsEditing(false)}
+            />
+          </div>
+        ) : (
+          <p className="mt-1 text-sm text-slate-700 whitespace-pre-wrap break-words">{comment.body}</p>
+        )}
+        {comment.isOwn && !isEditing && (
+          <div className="mt-1 flex items-center gap-3 text-xs">
+            <button type="button" onClick={() => setIsEditing(true)} className="flex items-center gap-1 text-slate-400 hover:text-slate-600">
+              <Pencil className="w-3 h-3" />
+              Edit
+            </button>
+            <button type="button" onClick={handleDelete} className="flex items-center gap-1 text-slate-400 hover:text-red-500">
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Thread({ lessonId, thread }: { lessonId: string; thread: LessonDiscussionThread }) {
+  const [isReplying, setIsReplying] = useState(false);
+  const postComment = usePostLessonComment();
+
+  return (
+    <div className={clsx('p-5 space-y-4', thread.isPinned && 'bg-amber-50/40')}>
+      {(thread.isPinned || thread.isLocked || thread.isAnswered) && (
+        <div className="flex flex-wrap items-center gap-3 text-xs font-medium">
+          {thread.isPinned && (
+            <span className="flex items-center gap-1 text-amber-700"><Pin className="w-3 h-3" />Pinned</span>
+          )}
+          {thread.isAnswered && (
+            <span className="flex items-center gap-1 text-emerald-700"><CheckCircle className="w-3 h-3" />Answered</span>
+          )}
+          {thread.isLocked && (
+            <span className="flex items-center gap-1 text-slate-500"><Lock className="w-3 h-3" />Locked</span>
+          )}
+        </div>
+      )}
+      <Comment lessonId={lessonId} comment={thread} />
+      {thread.replies.map(reply => (
+        <Comment key={reply.id} lessonId={lessonId} comment={reply} isReply />
+      ))}
+      {!thread.isLocked && (
+        <div className="pl-6">
+          {isReplying ? (
+            <CommentForm
+              placeholder="Write a reply..."
+              submitLabel="Reply"
+              isLoading={postComment.isPending}
+              onSubmit={async (body) => {
+                await postComment.mutateAsync({ lessonId, body, parentId: thread.id });
+                setIsReplying(false);
+              }}
+              onCancel={() => setIsReplying(false)}
+            />
+          ) : (
+            <button type="button" onClick={() => setIsReplying(true)} className="text-sm font-medium text-accent-600 hover:text-accent-700">
+              Reply
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function LessonDiscussion({ lessonId }: LessonDiscussionProps) {
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = useLessonDiscussions(lessonId, page);
+  const postComment = usePostLessonComment();
+
+  const total = data?.pagination.total || 0;
+
+  return (
+    <div className="mt-8 bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center gap-2">
+        <MessageSquare className="w-5 h-5 text-slate-400" />
+        <div>
+          <h3 className="font-semibold text-slate-900">Discussion</h3>
+          <p className="text-sm text-slate-500 mt-0.5">
+            {total > 0 ? `${total} ${total === 1 ? 'question' : 'questions'}` : 'Ask a question about this lesson'}
+          </p>
+        </div>
+      </div>
+
+      <div className="p-6 border-b border-slate-100">
+        <CommentForm
+          placeholder="Ask a question..."
+          submitLabel="Post Question"
+          isLoading={postComment.isPending}
+          onSubmit={async (body) => {
+            await postComment.mutateAsync({ lessonId, body });
+            setPage(1);
+          }}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="py-10 flex justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : data && data.threads.length > 0 ? (
+        <>
+          <div className="divide-y divide-slate-100">
+            {data.threads.map(thread => (
+              <Thread key={thread.id} lessonId={lessonId} thread={thread} />
+            ))}
+          </div>
+          {data.pagination.totalPages > 1 && (
+            <div className="px-6 py-4 border-t border-slate-100">
+              <Pagination currentPage={page} totalPages={data.pagination.totalPages} onPageChange={setPage} />
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="py-10 text-center text-sm text-slate-500">No questions yet. Be the first to ask.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { StickyNote, Clock, FileText, Pencil, Trash2 } from 'lucide-react';
+import { Button, LoadingSpinner } from '@/components/ui';
+import { useLessonNotes, useCreateLessonNote, useUpdateNote, useDeleteNote } from '@/hooks/useLearnerData';
+import { formatNotePosition } from '@/lib/notes';
+import { LessonNote } from '@/types/learner';
+
+interface LessonNotesProps {
+  lessonId: string;
+  lessonType: 'VIDEO' | 'PDF' | 'TEXT' | 'QUIZ' | 'ASSIGNMENT';
+  // VIDEO: the player's current position in seconds (null until it reports one)
+  getCurrentPosition?: () => number | null;
+  // PDF: the page the learner is on, as last opened from a note or link
+  currentPage?: number | null;
+  onJump: (note: LessonNote) => void;
+}
+
+function NoteItem({ note, onJump }: { note: LessonNote; onJump: (note: LessonNote) => void }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [body, setBody] = useState(note.body);
+  const updateNote = useUpdateNote();
+  const deleteNote = useDeleteNote();
+  const position = formatNotePosition(note);
+
+  const handleSave = async () => {
+    try {
+      await updateNote.mutateAsync({ id: note.id, data: { body: body.trim() } });
+      setIsEditing(false);
+    } catch {
+      // Error handled by mutation onError
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm('Delete this note?')) {
+      deleteNote.mutate(note.id);
+    }
+  };
+
+  return (
+    <div className="flex gap-3 p-3 rounded-lg hover:bg-slate-50 transition-colors">
+      {position ? (
+        <button
+          type="button"
+          onClick={() => onJump(note)}
+          className="flex-shrink-0 h-6 px-2 rounded bg-accent-50 text-accent-700 text-xs font-medium font-mono hover:bg-accent-100"
+          title="Jump to this point"
+        >
+          {position}
+        </button>
+      ) : (
+        <span className="flex-shrink-0 w-2" />
+      )}
+      <div className="flex-1 min-w-0">
+        {isEditing ? (
+          <div className="space-y-2">
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={3}
+              maxLength={5000}
+              className="input resize-none"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => { setBody(note.body); setIsEditing(false); }}>
+                Cancel
+              </Button>
+              <Button variant="primary" size="sm" onClick={handleSave} isLoading={updateNote.isPending} disabled={!body.trim()}>
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{note.body}</p>
+        )}
+      </div>
+      {!isEditing && (
+        <div className="flex items-start gap-1 flex-shrink-0">
+          <button type="button" onClick={() => setIsEditing(true)} className="p-1 text-slate-400 hover:text-slate-600" title="Edit">
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          <button type="button" onClick={handleDelete} className="p-1 text-slate-400 hover:text-red-500" title="Delete">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function LessonNotes({ lessonId, lessonType, getCurrentPosition, currentPage, onJump }: LessonNotesProps) {
+  const [body, setBody] = useState('');
+  const [page, setPage] = useState(currentPage ? String(currentPage) : '');
+  const { data: notes, isLoading } = useLessonNotes(lessonId);
+  const createNote = useCreateLessonNote();
+
+  // Follow the page the viewer jumps to
+  useEffect(() => {
+    if (currentPage) setPage(String(currentPage));
+  }, [currentPage]);
+
+  const isVideo = lessonType === 'VIDEO';
+  const isPdf = lessonType === 'PDF';
+
+  const handleAdd = async () => {
+    const position = isVideo && getCurrentPosition ? getCurrentPosition() : null;
+    const pageNumber = isPdf && page ? parseInt(page, 10) : null;
+    try {
+      await createNote.mutateAsync({
+        lessonId,
+        data: {
+          body: body.trim(),
+          positionSeconds: position,
+          pageNumber: pageNumber && pageNumber > 0 ? pageNumber : null,
+        },
+      });
+      setBody('');
+    } catch {
+      // Error handled by mutation onError
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden mb-6">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center gap-2">
+        <StickyNote className="w-5 h-5 text-slate-400" />
+        <div>
+          <h3 className="font-semibold text-slate-900">My Notes</h3>
+          <p className="text-sm text-slate-500 mt-0.5">
+            {isVideo ? 'Notes are saved at the current point in the video' : 'Only you can see your notes'}
+          </p>
+        </div>
+      </div>
+
+      <div className="p-4 border-b border-slate-100 space-y-2">
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="Write a note..."
+          rows={2}
+          maxLength={5000}
+          className="input resize-none"
+        />
+        <div className="flex items-center justify-between gap-3">
+          {isVideo ? (
+            <span className="flex items-center gap-1.5 text-xs text-slate-500">
+              <Clock className="w-3.5 h-3.5" />
+              Saved at the current video time
+            </span>
+          ) : isPdf ? (
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              <FileText className="w-3.5 h-3.5" />
+              Page
+              <input
+                type="number"
+                min={1}
+                value={page}
+                onChange={(e) => setPage(e.target.value)}
+                className="input w-20 py-1 text-sm"
+              />
+            </label>
+          ) : (
+            <span />
+          )}
+          <Button variant="primary" size="sm" onClick={handleAdd} isLoading={createNote.isPending} disabled={!body.trim()}>
+            Add Note
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="py-8 flex justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : notes && notes.length > 0 ? (
+        <div className="p-2 max-h-96 overflow-y-auto">
+          {notes.map(note => (
+            <NoteItem key={note.id} note={note} onJump={onJump} />
+          ))}
+        </div>
+      ) : (
+        <p className="py-8 text-center text-sm text-slate-500">No notes on this lesson yet</p>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Bell, BookOpen, Calendar, UserPlus, Info, CheckCheck } from 'lucide-react';
+import { Bell, BookOpen, Calendar, UserPlus, Info, CheckCheck, ClipboardList, MessageSquare } from 'lucide-react';
 import { useNotifications, useUnreadCount, useMarkAsRead, useMarkAllAsRead, Notification } from '@/hooks';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -65,6 +65,10 @@ export default function NotificationDropdown() {
         return <Calendar className="w-4 h-4" />;
       case 'ENROLLMENT':
         return <UserPlus className="w-4 h-4" />;
+      case 'ASSIGNMENT_GRADED':
+        return <ClipboardList className="w-4 h-4" />;
+      case 'DISCUSSION_REPLY':
+        return <MessageSquare className="w-4 h-4" />;
       default:
         return <Info className="w-4 h-4" />;
     }
@@ -78,6 +82,10 @@ export default function NotificationDropdown() {
         return 'bg-purple-50 text-purple-600';
       case 'ENROLLMENT':
         return 'bg-emerald-50 text-emerald-600';
+      case 'ASSIGNMENT_GRADED':
+        return 'bg-amber-50 text-amber-600';
+      case 'DISCUSSION_REPLY':
+        return 'bg-violet-50 text-violet-600';
       default:
         return 'bg-slate-100 text-slate-600';
     }
@@ -90,7 +98,7 @@ export default function NotificationDropdown() {
     }
 
     // Navigate based on type
-    if (notification.type === 'NEW_LESSON' && notification.data?.lessonId) {
+    if ((notification.type === 'NEW_LESSON' || notification.type === 'ASSIGNMENT_GRADED' || notification.type === 'DISCUSSION_REPLY') && notification.data?.lessonId) {
       // Navigate directly to the lesson
       router.push(`/learner/lessons/${notification.data.lessonId}`);
     } else if (notification.data?.programId) {
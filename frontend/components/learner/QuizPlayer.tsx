@@ -0,0 +1,234 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, XCircle, RotateCcw, ClipboardCheck, History } from 'lucide-react';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { Button, Badge } from '@/components/ui';
+import { useSubmitQuizAttempt } from '@/hooks/useLearnerData';
+import { LearnerQuiz, QuizAnswers, QuizAttemptResult } from '@/types/learner';
+
+interface QuizPlayerProps {
+  lessonId: string;
+  quiz: LearnerQuiz;
+  onPassed?: () => void;
+}
+
+export default function QuizPlayer({ lessonId, quiz, onPassed }: QuizPlayerProps) {
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+  const [result, setResult] = useState<QuizAttemptResult | null>(null);
+  const submitAttempt = useSubmitQuizAttempt();
+
+  const resultByQuestion = new Map((result?.results || []).map(r => [r.questionId, r] as const));
+  const answeredCount = quiz.questions.filter(q => {
+    const answer = answers[q.id];
+    return Array.isArray(answer) ? answer.length > 0 : !!answer?.trim();
+  }).length;
+
+  const toggleOption = (questionId: string, index: number, multiple: boolean) => {
+    setAnswers(prev => {
+      const current = (prev[questionId] as number[] | undefined) || [];
+      if (!multiple) return { ...prev, [questionId]: [index] };
+      return {
+        ...prev,
+        [questionId]: current.includes(index)
+          ? current.filter(i => i !== index)
+          : [...current, index],
+      };
+    });
+  };
+
+  const handleSubmit = async () => {
+    try {
+      const data = await submitAttempt.mutateAsync({ lessonId, answers });
+      setResult(data);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+      if (data.attempt.passed) onPassed?.();
+    } catch {
+      // Error handled by mutation onError
+    }
+  };
+
+  const handleRetry = () => {
+    setAnswers({});
+    setResult(null);
+  };
+
+  if (quiz.questions.length === 0) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft p-12 text-center mb-6">
+        <ClipboardCheck className="w-8 h-8 text-slate-300 mx-auto mb-3" />
+        <p className="text-slate-500">This quiz has no questions yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 mb-6">
+      {/* Result banner */}
+      {result && (
+        <div
+          className={clsx(
+            'rounded-xl border p-5 flex flex-col sm:flex-row sm:items-center justify-between gap-4',
+            result.attempt.passed
+              ? 'bg-emerald-50 border-emerald-200'
+              : 'bg-amber-50 border-amber-200'
+          )}
+        >
+          <div className="flex items-center gap-3">
+            {result.attempt.passed ? (
+              <CheckCircle className="w-8 h-8 text-emerald-500 flex-shrink-0" />
+            ) : (
+              <XCircle className="w-8 h-8 text-amber-500 flex-shrink-0" />
+            )}
+            <div>
+              <p className="font-semibold text-slate-900">
+                You scored {result.attempt.score}%{' '}
+                <span className="font-normal text-slate-500">
+                  ({result.attempt.earnedPoints}/{result.attempt.totalPoints} points)
+                </span>
+              </p>
+              <p className="text-sm text-slate-600">
+                {result.attempt.passed
+                  ? 'You passed this quiz.'
+                  : `You need ${result.passingScore}% to pass. Review your answers and try again.`}
+              </p>
+            </div>
+          </div>
+          {!result.attempt.passed && (
+            <Button variant="primary" size="sm" onClick={handleRetry} leftIcon={<RotateCcw className="w-4 h-4" />}>
+              Try Again
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Questions */}
+      <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-slate-900">Quiz</h3>
+            <p className="text-sm text-slate-500 mt-0.5">
+              {quiz.questions.length} {quiz.questions.length === 1 ? 'question' : 'questions'} &middot; {quiz.passingScore}% to pass
+            </p>
+          </div>
+          {quiz.hasPassed && (
+            <Badge variant="success" size="sm">
+              <CheckCircle className="w-3 h-3 mr-1" />
+              Passed
+            </Badge>
+          )}
+        </div>
+
+        <div className="divide-y divide-slate-100">
+          {quiz.questions.map((question, qIndex) => {
+            const questionResult = resultByQuestion.get(question.id);
+            const multiple = question.type === 'MULTIPLE_CHOICE';
+            const selected = (answers[question.id] as number[] | undefined) || [];
+
+            return (
+              <div key={question.id} className="p-6">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <p className="font-medium text-slate-900">
+                    <span className="text-slate-400 mr-2">{qIndex + 1}.</span>
+                    {question.prompt}
+                  </p>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {questionResult && (
+                      questionResult.isCorrect ? (
+                        <CheckCircle className="w-5 h-5 text-emerald-500" />
+                      ) : (
+                        <XCircle className="w-5 h-5 text-red-500" />
+                      )
+                    )}
+                    <span className="text-xs text-slate-400">
+                      {question.points} {question.points === 1 ? 'pt' : 'pts'}
+                    </span>
+                  </div>
+                </div>
+
+                {question.type === 'SHORT_ANSWER' ? (
+                  <input
+                    type="text"
+                    value={(answers[question.id] as string | undefined) || ''}
+                    onChange={(e) => setAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                    disabled={!!result}
+                    placeholder="Type your answer"
+                    className="input"
+                  />
+                ) : (
+                  <div className="space-y-2">
+                    {multiple && <p className="text-xs text-slate-500">Select all that apply</p>}
+                    {question.options.map((option, index) => (
+                      <label
+                        key={index}
+                        className={clsx(
+                          'flex items-center gap-3 p-3 rounded-lg border transition-colors',
+                          selected.includes(index)
+                            ? 'border-accent-500 bg-accent-50'
+                            : 'border-slate-200',
+                          result ? 'cursor-default' : 'cursor-pointer hover:bg-slate-50'
+                        )}
+                      >
+                        <input
+                          type={multiple ? 'checkbox' : 'radio'}
+                          name={`question-${question.id}`}
+                          checked={selected.includes(index)}
+                          onChange={() => toggleOption(question.id, index, multiple)}
+                          disabled={!!result}
+                          className="w-4 h-4 text-accent-600 focus:ring-accent-500"
+                        />
+                        <span className="text-sm text-slate-700">{option}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {!result && (
+          <div className="px-6 py-4 border-t border-slate-100 flex items-center justify-between">
+            <span className="text-sm text-slate-500">
+              {answeredCount} of {quiz.questions.length} answered
+            </span>
+            <Button
+              variant="primary"
+              onClick={handleSubmit}
+              isLoading={submitAttempt.isPending}
+              disabled={answeredCount === 0}
+            >
+              Submit Answers
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Attempt history */}
+      {quiz.attempts.length > 0 && (
+        <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-100 flex items-center gap-2">
+            <History className="w-4 h-4 text-slate-400" />
+            <h3 className="font-semibold text-slate-900">Your Attempts</h3>
+          </div>
+          <div className="divide-y divide-slate-100">
+            {quiz.attempts.map((attempt) => (
+              <div key={attempt.id} className="px-6 py-3 flex items-center justify-between">
+                <span className="text-sm text-slate-500">
+                  {format(new Date(attempt.createdAt), 'MMM d, yyyy h:mm a')}
+                </span>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-medium text-slate-900">{attempt.score}%</span>
+                  <Badge variant={attempt.passed ? 'success' : 'warning'} size="sm">
+                    {attempt.passed ? 'Passed' : 'Not passed'}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
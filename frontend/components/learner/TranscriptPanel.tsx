@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Subtitles, Search } from 'lucide-react';
+import clsx from 'clsx';
+import { formatTimestamp } from '@/lib/notes';
+import { findActiveCueIndex } from '@/lib/transcripts';
+import { LessonTranscript } from '@/types/learner';
+
+interface TranscriptPanelProps {
+  transcripts: LessonTranscript[];
+  // The player's current position in seconds (null until it reports one)
+  currentTime: number | null;
+  onSeek: (seconds: number) => void;
+}
+
+export default function TranscriptPanel({ transcripts, currentTime, onSeek }: TranscriptPanelProps) {
+  const [transcriptId, setTranscriptId] = useState(transcripts[0]?.id);
+  const [filter, setFilter] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  const transcript = transcripts.find(t => t.id === transcriptId) || transcripts[0];
+  const activeIndex = currentTime === null ? -1 : findActiveCueIndex(transcript.cues, currentTime);
+  const query = filter.trim().toLowerCase();
+
+  const visibleCues = useMemo(() => {
+    const cues = transcript.cues.map((cue, index) => ({ ...cue, index }));
+    return query ? cues.filter(cue => cue.text.toLowerCase().includes(query)) : cues;
+  }, [transcript, query]);
+
+  // Keep the playing line in view without scrolling the page
+  useEffect(() => {
+    const list = listRef.current;
+    const active = activeRef.current;
+    if (!list || !active || query) return;
+    const top = active.offsetTop;
+    if (top < list.scrollTop || top + active.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: top - list.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeIndex, query]);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200/80 shadow-soft overflow-hidden mb-6">
+      <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap items-center gap-3">
+        <Subtitles className="w-5 h-5 text-slate-400" />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-slate-900">Transcript</h3>
+          <p className="text-sm text-slate-500 mt-0.5">Click a line to jump to that point in the video</p>
+        </div>
+        {transcripts.length > 1 && (
+          <select
+            value={transcript.id}
+            onChange={(e) => setTranscriptId(e.target.value)}
+            className="px-3 py-2 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500"
+          >
+            {transcripts.map(t => (
+              <option key={t.id} value={t.id}>{t.label}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="p-3 border-b border-slate-100">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search transcript..."
+            className="w-full pl-10 pr-4 py-2 text-sm border border-slate-300 rounded-lg bg-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-500/10 focus:border-slate-500"
+          />
+        </div>
+      </div>
+
+      <div ref={listRef} className="relative p-2 max-h-80 overflow-y-auto">
+        {visibleCues.length === 0 ? (
+          <p className="py-6 text-center text-sm text-slate-500">No lines match your search</p>
+        ) : (
+          visibleCues.map(cue => {
+            const isActive = cue.index === activeIndex;
+            return (
+              <button
+                key={cue.index}
+                ref={isActive ? activeRef : undefined}
+                type="button"
+                onClick={() => onSeek(cue.start)}
+                className={clsx(
+                  'w-full flex gap-3 px-3 py-1.5 rounded-lg text-left transition-colors',
+                  isActive ? 'bg-accent-50' : 'hover:bg-slate-50'
+                )}
+              >
+                <span className="flex-shrink-0 w-14 text-xs font-mono text-accent-700 pt-0.5">
+                  {formatTimestamp(cue.start)}
+                </span>
+                <span className={clsx('text-sm', isActive ? 'text-slate-900 font-medium' : 'text-slate-600')}>
+                  {cue.text}
+                </span>
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+
+interface UnlockCountdownProps {
+  unlocksAt: string;
+  onUnlock?: () => void;
+  className?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Two most significant units, e.g. "3d 4h", "4h 12m", "12m"
+export function formatUnlockCountdown(unlocksAt: string, now: number = Date.now()): string {
+  const remaining = new Date(unlocksAt).getTime() - now;
+  if (remaining <= 0) return 'now';
+  if (remaining < MINUTE_MS) return '<1m';
+
+  const days = Math.floor(remaining / DAY_MS);
+  const hours = Math.floor((remaining % DAY_MS) / HOUR_MS);
+  const minutes = Math.floor((remaining % HOUR_MS) / MINUTE_MS);
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  return `${minutes}m`;
+}
+
+export default function UnlockCountdown({ unlocksAt, onUnlock, className }: UnlockCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const unlockedRef = useRef(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const isUnlocked = new Date(unlocksAt).getTime() <= now;
+
+  useEffect(() => {
+    if (isUnlocked && !unlockedRef.current) {
+      unlockedRef.current = true;
+      onUnlock?.();
+    }
+  }, [isUnlocked, onUnlock]);
+
+  return (
+    <span className={className} title={format(new Date(unlocksAt), 'MMM d, yyyy h:mm a')}>
+      {isUnlocked ? 'Unlocking...' : `Unlocks in ${formatUnlockCountdown(unlocksAt, now)}`}
+    </span>
+  );
+}
@@ -1,9 +1,11 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, CreditCard, Sparkles, Shield, CheckCircle, AlertCircle } from 'lucide-react';
+import { X, CreditCard, Sparkles, Shield, CheckCircle, AlertCircle, Tag } from 'lucide-react';
 import { Button } from '@/components/ui';
 import { paymentApi } from '@/lib/api';
+import { loadCashfreeSDK, openCashfreeCheckout } from '@/lib/cashfree';
+import { CouponQuote, InstallmentPlanOption } from '@/types/learner';
 import { useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 
@@ -15,35 +17,8 @@ interface UpgradeModalProps {
   price: number;
   currency: string;
   lockedLessonCount: number;
-}
-
-declare global {
-  interface Window {
-    Cashfree: (config: { mode: string }) => {
-      checkout: (options: {
-        paymentSessionId: string;
-        redirectTarget: string;
-      }) => Promise<{
-        error?: { message: string };
-        redirect?: boolean;
-        paymentDetails?: Record<string, unknown>;
-      }>;
-    };
-  }
-}
-
-function loadCashfreeSDK(): Promise<void> {
-  return new Promise((resolve, reject) => {
-    if ('Cashfree' in window) {
-      resolve();
-      return;
-    }
-    const script = document.createElement('script');
-    script.src = 'https://sdk.cashfree.com/js/v3/cashfree.js';
-    script.onload = () => resolve();
-    script.onerror = () => reject(new Error('Failed to load payment SDK'));
-    document.head.appendChild(script);
-  });
+  initialCouponCode?: string;
+  installmentPlans?: InstallmentPlanOption[];
 }
 
 export default function UpgradeModal({
@@ -54,9 +29,16 @@ export default function UpgradeModal({
   price,
   currency,
   lockedLessonCount,
+  initialCouponCode,
+  installmentPlans = [],
 }: UpgradeModalProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [couponCode, setCouponCode] = useState('');
+  const [coupon, setCoupon] = useState<CouponQuote | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  const [planId, setPlanId] = useState<string | null>(null);
   const queryClient = useQueryClient();
 
   // Preload SDK when modal opens
@@ -66,28 +48,60 @@ export default function UpgradeModal({
     }
   }, [isOpen]);
 
+  const applyCoupon = async (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+
+    setIsApplyingCoupon(true);
+    setCouponError(null);
+    try {
+      const { data } = await paymentApi.previewCoupon(programId, trimmed);
+      setCoupon(data);
+      setCouponCode(data.code);
+    } catch (err: any) {
+      setCoupon(null);
+      setCouponError(err.response?.data?.error?.message || 'Could not apply coupon');
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  const removeCoupon = () => {
+    setCoupon(null);
+    setCouponCode('');
+    setCouponError(null);
+  };
+
+  // Apply a code carried over from the registration page
+  useEffect(() => {
+    if (isOpen && initialCouponCode) {
+      setCouponCode(initialCouponCode);
+      applyCoupon(initialCouponCode);
+    }
+  }, [isOpen, initialCouponCode]);
+
+  const plan = installmentPlans.find(p => p.id === planId) || null;
+
   const handlePayment = async () => {
     setIsProcessing(true);
     setError(null);
 
     try {
       // 1. Create order
-      const { data } = await paymentApi.createOrder(programId);
-      const { sessionId, orderId, cashfreeEnv } = data;
+      const { data } = await paymentApi.createOrder(programId, plan ? undefined : coupon?.code, plan?.id);
 
-      // 2. Load Cashfree SDK
-      await loadCashfreeSDK();
+      // Coupon covered the full price — enrollment is already upgraded
+      if (data.status === 'SUCCESS') {
+        toast.success('Coupon applied! All lessons are now unlocked.');
+        queryClient.invalidateQueries({ queryKey: ['learner'] });
+        onClose();
+        return;
+      }
 
-      // 3. Initialize Cashfree
-      const cashfree = window.Cashfree({
-        mode: cashfreeEnv || 'sandbox',
-      });
+      const { sessionId, orderId, cashfreeEnv } = data;
 
-      // 4. Open checkout modal
-      const result = await cashfree.checkout({
-        paymentSessionId: sessionId,
-        redirectTarget: '_modal',
-      });
+      // 2. Open checkout modal
+      const result = await openCashfreeCheckout(sessionId, cashfreeEnv);
 
       if (result.error) {
         setError(result.error.message || 'Payment failed. Please try again.');
@@ -95,7 +109,7 @@ export default function UpgradeModal({
         return;
       }
 
-      // 5. Verify payment
+      // 3. Verify payment
       const verifyRes = await paymentApi.verify(orderId);
 
       if (verifyRes.data.status === 'SUCCESS') {
@@ -121,6 +135,7 @@ export default function UpgradeModal({
   if (!isOpen) return null;
 
   const currencySymbol = currency === 'INR' ? '\u20B9' : '$';
+  const amountDue = plan ? plan.installmentAmounts[0] : coupon ? coupon.finalAmount : price;
 
   return (
     <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -145,12 +160,101 @@ export default function UpgradeModal({
         <div className="p-6">
           {/* Price */}
           <div className="text-center mb-6">
+            {coupon && !plan && (
+              <div className="text-lg text-slate-400 line-through">
+                {currencySymbol}{price}
+              </div>
+            )}
             <div className="text-4xl font-bold text-slate-900 mb-1">
-              {currencySymbol}{price}
+              {currencySymbol}{amountDue}
             </div>
-            <p className="text-sm text-slate-500">One-time payment</p>
+            <p className="text-sm text-slate-500">
+              {plan
+                ? `First of ${plan.installmentCount} payments, then ${currencySymbol}${plan.installmentAmounts[1]} every ${plan.intervalDays} days`
+                : coupon ? `${currencySymbol}${coupon.discount} off with ${coupon.code}` : 'One-time payment'}
+            </p>
           </div>
 
+          {/* Installment plans */}
+          {installmentPlans.length > 0 && (
+            <div className="mb-6 space-y-2">
+              {[null, ...installmentPlans].map((option) => (
+                <label
+                  key={option?.id || 'full'}
+                  className={`flex items-center justify-between gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                    planId === (option?.id || null)
+                      ? 'border-accent-500 bg-accent-50'
+                      : 'border-slate-200 hover:border-slate-300'
+                  }`}
+                >
+                  <span className="flex items-center gap-2.5 text-sm text-slate-700">
+                    <input
+                      type="radio"
+                      name="payment-option"
+                      checked={planId === (option?.id || null)}
+                      onChange={() => setPlanId(option?.id || null)}
+                      disabled={isProcessing}
+                      className="w-4 h-4 text-accent-600 focus:ring-accent-500"
+                    />
+                    {option ? option.name : 'Pay in full'}
+                  </span>
+                  <span className="text-sm font-medium text-slate-900">
+                    {option
+                      ? `${option.installmentCount} × ${currencySymbol}${option.installmentAmounts[option.installmentCount - 1]}`
+                      : `${currencySymbol}${price}`}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {/* Coupon (not combinable with installment plans) */}
+          {!plan && (
+            <div className="mb-6">
+              {coupon ? (
+                <div className="flex items-center justify-between p-3 bg-emerald-50 border border-emerald-200 rounded-lg">
+                  <div className="flex items-center gap-2 text-sm text-emerald-700">
+                    <Tag className="w-4 h-4" />
+                    <span className="font-mono font-medium">{coupon.code}</span> applied
+                  </div>
+                  <button
+                    onClick={removeCoupon}
+                    disabled={isProcessing}
+                    className="text-sm text-slate-500 hover:text-slate-700 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    applyCoupon(couponCode);
+                  }}
+                  className="flex gap-2"
+                >
+                  <input
+                    type="text"
+                    value={couponCode}
+                    onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                    placeholder="Coupon code"
+                    className="input flex-1 font-mono"
+                    disabled={isProcessing}
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    isLoading={isApplyingCoupon}
+                    disabled={!couponCode.trim() || isProcessing}
+                  >
+                    Apply
+                  </Button>
+                </form>
+              )}
+              {couponError && <p className="text-sm text-red-600 mt-1.5">{couponError}</p>}
+            </div>
+          )}
+
           {/* Benefits */}
           <div className="space-y-3 mb-6">
             <div className="flex items-center gap-3 text-sm">
@@ -163,6 +267,14 @@ export default function UpgradeModal({
               <CheckCircle className="w-5 h-5 text-emerald-500 flex-shrink-0" />
               <span className="text-slate-700">Lifetime access to program content</span>
             </div>
+            {plan && (
+              <div className="flex items-center gap-3 text-sm">
+                <AlertCircle className="w-5 h-5 text-amber-500 flex-shrink-0" />
+                <span className="text-slate-700">
+                  Access pauses if an installment is over {plan.gracePeriodDays} days late
+                </span>
+              </div>
+            )}
             <div className="flex items-center gap-3 text-sm">
               <Shield className="w-5 h-5 text-emerald-500 flex-shrink-0" />
               <span className="text-slate-700">Secure payment via Cashfree</span>
@@ -191,7 +303,7 @@ export default function UpgradeModal({
                 Processing...
               </span>
             ) : (
-              `Pay ${currencySymbol}${price}`
+              amountDue === 0 ? 'Unlock for Free' : `Pay ${currencySymbol}${amountDue}`
             )}
           </Button>
 
@@ -3,3 +3,9 @@ export * from './useLearners';
 export * from './useSessions';
 export * from './useNotifications';
 export * from './useDashboardAnalytics';
+export * from './useAssignments';
+export * from './useCoupons';
+export * from './useInvoices';
+export * from './useDiscussions';
+export * from './useAuditLogs';
+export * from './useTeam';
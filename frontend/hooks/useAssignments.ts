@@ -0,0 +1,48 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { adminApi } from '@/lib/api';
+import { Submission, SubmissionFilters, GradeSubmissionData, PaginationInfo } from '@/types/admin';
+import toast from 'react-hot-toast';
+
+interface ApiErrorResponse {
+  error?: { message?: string };
+}
+
+// Query keys
+export const submissionKeys = {
+  all: ['admin', 'submissions'] as const,
+  list: (filters: SubmissionFilters) => [...submissionKeys.all, 'list', filters] as const,
+};
+
+// Fetch the grading queue with filters and pagination
+export function useSubmissions(filters: SubmissionFilters = {}) {
+  return useQuery({
+    queryKey: submissionKeys.list(filters),
+    queryFn: async () => {
+      const response = await adminApi.getSubmissions(filters);
+      return {
+        submissions: response.data.submissions as Submission[],
+        pagination: response.data.pagination as PaginationInfo,
+      };
+    },
+  });
+}
+
+// Approve or reject a submission
+export function useGradeSubmission() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: GradeSubmissionData }) =>
+      adminApi.gradeSubmission(id, data),
+    onSuccess: (_, { data }) => {
+      queryClient.invalidateQueries({ queryKey: submissionKeys.all });
+      toast.success(data.status === 'APPROVED' ? 'Submission approved' : 'Submission returned for changes');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to grade submission');
+    },
+  });
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
+import { adminApi } from '@/lib/api';
+import { AuditLogFilters, AuditLogPage, AuditLogFilterOptions } from '@/types/admin';
+
+// Query keys
+export const auditLogKeys = {
+  all: ['admin', 'audit-logs'] as const,
+  list: (filters: AuditLogFilters) => [...auditLogKeys.all, 'list', filters] as const,
+  filters: () => [...auditLogKeys.all, 'filters'] as const,
+};
+
+// Audit entries newest first, loaded a page at a time via cursors
+export function useAuditLogs(filters: AuditLogFilters = {}, options: { enabled?: boolean } = {}) {
+  return useInfiniteQuery({
+    queryKey: auditLogKeys.list(filters),
+    queryFn: async ({ pageParam }) => {
+      const response = await adminApi.getAuditLogs({ ...filters, cursor: pageParam });
+      return response.data as AuditLogPage;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: options.enabled ?? true,
+  });
+}
+
+// Admins, actions and target types for the audit log filter menus
+export function useAuditLogFilters() {
+  return useQuery({
+    queryKey: auditLogKeys.filters(),
+    queryFn: async () => {
+      const response = await adminApi.getAuditLogFilters();
+      return response.data as AuditLogFilterOptions;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
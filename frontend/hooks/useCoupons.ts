@@ -0,0 +1,80 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { adminApi } from '@/lib/api';
+import { Coupon, CouponFilters, CouponFormData, PaginationInfo } from '@/types/admin';
+import toast from 'react-hot-toast';
+
+interface ApiErrorResponse {
+  error?: { message?: string };
+}
+
+// Query keys
+export const couponKeys = {
+  all: ['admin', 'coupons'] as const,
+  list: (filters: CouponFilters) => [...couponKeys.all, 'list', filters] as const,
+};
+
+// Fetch coupons with usage stats
+export function useCoupons(filters: CouponFilters = {}) {
+  return useQuery({
+    queryKey: couponKeys.list(filters),
+    queryFn: async () => {
+      const response = await adminApi.getCoupons(filters);
+      return {
+        coupons: response.data.coupons as Coupon[],
+        pagination: response.data.pagination as PaginationInfo,
+      };
+    },
+  });
+}
+
+// Create coupon mutation
+export function useCreateCoupon() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CouponFormData) => adminApi.createCoupon(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: couponKeys.all });
+      toast.success('Coupon created successfully');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to create coupon');
+    },
+  });
+}
+
+// Update coupon mutation
+export function useUpdateCoupon() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CouponFormData> }) =>
+      adminApi.updateCoupon(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: couponKeys.all });
+      toast.success('Coupon updated successfully');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to update coupon');
+    },
+  });
+}
+
+// Delete coupon mutation
+export function useDeleteCoupon() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => adminApi.deleteCoupon(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: couponKeys.all });
+      toast.success('Coupon deleted successfully');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to delete coupon');
+    },
+  });
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
 import { adminApi } from '@/lib/api';
 import { DashboardAnalytics } from '@/types/admin';
 
@@ -8,12 +8,14 @@ export const dashboardKeys = {
   analytics: ['admin', 'dashboard', 'analytics'] as const,
 };
 
-export function useDashboardAnalytics() {
+export function useDashboardAnalytics(cohortId?: string) {
   return useQuery({
-    queryKey: dashboardKeys.analytics,
+    queryKey: [...dashboardKeys.analytics, cohortId],
     queryFn: async () => {
-      const response = await adminApi.getDashboardAnalytics();
+      const response = await adminApi.getDashboardAnalytics(cohortId ? { cohortId } : undefined);
       return response.data as DashboardAnalytics;
     },
+    // Keep the current figures on screen while switching cohorts
+    placeholderData: keepPreviousData,
   });
 }
@@ -0,0 +1,93 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { adminApi } from '@/lib/api';
+import { DiscussionSummary, DiscussionThread, DiscussionFilters, ModerateDiscussionData, PaginationInfo } from '@/types/admin';
+import toast from 'react-hot-toast';
+
+interface ApiErrorResponse {
+  error?: { message?: string };
+}
+
+// Query keys
+export const discussionKeys = {
+  all: ['admin', 'discussions'] as const,
+  list: (filters: DiscussionFilters) => [...discussionKeys.all, 'list', filters] as const,
+  detail: (id: string) => [...discussionKeys.all, 'detail', id] as const,
+};
+
+// Fetch the discussion inbox with filters and pagination
+export function useDiscussions(filters: DiscussionFilters = {}) {
+  return useQuery({
+    queryKey: discussionKeys.list(filters),
+    queryFn: async () => {
+      const response = await adminApi.getDiscussions(filters);
+      return {
+        threads: response.data.threads as DiscussionSummary[],
+        pagination: response.data.pagination as PaginationInfo,
+      };
+    },
+  });
+}
+
+// Fetch one question with all replies, hidden ones included
+export function useDiscussion(id: string | null) {
+  return useQuery({
+    queryKey: discussionKeys.detail(id || ''),
+    queryFn: async () => {
+      const response = await adminApi.getDiscussion(id!);
+      return response.data as DiscussionThread;
+    },
+    enabled: !!id,
+  });
+}
+
+// Reply as an instructor
+export function useReplyToDiscussion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, body }: { id: string; body: string }) =>
+      adminApi.replyToDiscussion(id, body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: discussionKeys.all });
+      toast.success('Reply posted');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to post reply');
+    },
+  });
+}
+
+// Pin, lock, hide or edit a comment
+export function useModerateDiscussion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ModerateDiscussionData }) =>
+      adminApi.moderateDiscussion(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: discussionKeys.all });
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to update comment');
+    },
+  });
+}
+
+// Delete a comment (a question takes its replies with it)
+export function useDeleteDiscussionComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => adminApi.deleteDiscussionComment(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: discussionKeys.all });
+      toast.success('Comment deleted');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to delete comment');
+    },
+  });
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { adminApi } from '@/lib/api';
+import { saveBlob, getInvoiceFileName } from '@/lib/download';
+import { AdminInvoice, InvoiceFilters, PaginationInfo } from '@/types/admin';
+import toast from 'react-hot-toast';
+
+// Query keys
+export const invoiceKeys = {
+  all: ['admin', 'invoices'] as const,
+  list: (filters: InvoiceFilters) => [...invoiceKeys.all, 'list', filters] as const,
+};
+
+// Fetch invoices with filters and pagination
+export function useInvoices(filters: InvoiceFilters = {}) {
+  return useQuery({
+    queryKey: invoiceKeys.list(filters),
+    queryFn: async () => {
+      const response = await adminApi.getInvoices(filters);
+      return {
+        invoices: response.data.invoices as AdminInvoice[],
+        pagination: response.data.pagination as PaginationInfo,
+      };
+    },
+  });
+}
+
+// Download all invoices matching the filters as CSV
+export function useExportInvoices() {
+  return useMutation({
+    mutationFn: async (filters: Omit<InvoiceFilters, 'page' | 'limit'>) => {
+      const blob = await adminApi.exportInvoices(filters);
+      saveBlob(blob, `invoices-${new Date().toISOString().slice(0, 10)}.csv`);
+    },
+    onError: () => {
+      toast.error('Failed to export invoices');
+    },
+  });
+}
+
+// Download a single invoice PDF
+export function useDownloadAdminInvoice() {
+  return useMutation({
+    mutationFn: async (invoice: AdminInvoice) => {
+      const blob = await adminApi.downloadInvoice(invoice.id);
+      saveBlob(blob, getInvoiceFileName(invoice.invoiceNumber));
+    },
+    onError: () => {
+      toast.error('Failed to download invoice');
+    },
+  });
+}
@@ -1,16 +1,29 @@
 'use client';
 
 import { useRef, useCallback } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { AxiosError } from 'axios';
-import { learnerApi } from '@/lib/api';
+import { learnerApi, paymentApi } from '@/lib/api';
+import { saveBlob, getInvoiceFileName } from '@/lib/download';
+import { openCashfreeCheckout } from '@/lib/cashfree';
 import {
   LearnerHome,
   LearnerProgram,
   LearnerLesson,
   LearnerProfile,
   UpcomingSession,
+  SessionRecordingPlayback,
+  LessonDiscussionThread,
+  LessonNote,
+  LessonNoteData,
+  NoteFilters,
+  TranscriptSearchResult,
+  LessonSearchResult,
   DiscoverProgram,
+  QuizAnswers,
+  QuizAttemptResult,
+  AssignmentSubmission,
+  Invoice,
 } from '@/types/learner';
 import toast from 'react-hot-toast';
 
@@ -24,6 +37,15 @@ export const learnerKeys = {
   sessionsCalendar: (month: number, year: number) =>
     [...learnerKeys.all, 'sessions', 'calendar', month, year] as const,
   profile: () => [...learnerKeys.all, 'profile'] as const,
+  invoices: () => [...learnerKeys.all, 'invoices'] as const,
+  calendarFeed: () => [...learnerKeys.all, 'calendar-feed'] as const,
+  sessionRecording: (id: string, occurrenceDate?: string) =>
+    [...learnerKeys.all, 'sessions', 'recording', id, occurrenceDate] as const,
+  discussions: (lessonId: string, page?: number) => [...learnerKeys.all, 'discussions', lessonId, page] as const,
+  notes: (filters?: NoteFilters) => [...learnerKeys.all, 'notes', filters] as const,
+  lessonNotes: (lessonId: string) => [...learnerKeys.all, 'notes', 'lesson', lessonId] as const,
+  search: (q: string, limit?: number) => [...learnerKeys.all, 'search', q, limit] as const,
+  transcriptSearch: (q: string) => [...learnerKeys.all, 'transcripts', 'search', q] as const,
   discover: (params?: Record<string, string | number | undefined>) => [...learnerKeys.all, 'discover', params] as const,
 };
 
@@ -199,3 +221,344 @@ export function useCompleteLesson() {
     },
   });
 }
+
+// Submit a quiz attempt (graded server-side)
+export function useSubmitQuizAttempt() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ lessonId, answers }: { lessonId: string; answers: QuizAnswers }) => {
+      const response = await learnerApi.submitQuizAttempt(lessonId, answers);
+      return response.data as QuizAttemptResult;
+    },
+    onSuccess: (_, { lessonId }) => {
+      queryClient.invalidateQueries({ queryKey: learnerKeys.lesson(lessonId) });
+    },
+    onError: (error: AxiosError<{ error?: { message?: string } }>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to submit quiz');
+    },
+  });
+}
+
+// Submit an assignment, uploading the file first when a new one is attached
+export function useSubmitAssignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ lessonId, textAnswer, file, fileUrl, fileName }: {
+      lessonId: string;
+      textAnswer?: string;
+      file?: File | null;
+      fileUrl?: string;
+      fileName?: string;
+    }) => {
+      if (file) {
+        const upload = await learnerApi.uploadSubmissionFile(file);
+        fileUrl = upload.data.url;
+        fileName = upload.data.name;
+      }
+      const response = await learnerApi.submitAssignment(lessonId, { textAnswer, fileUrl, fileName });
+      return response.data as AssignmentSubmission;
+    },
+    onSuccess: (_, { lessonId }) => {
+      queryClient.invalidateQueries({ queryKey: learnerKeys.lesson(lessonId) });
+      toast.success('Assignment submitted for review');
+    },
+    onError: (error: AxiosError<{ error?: { message?: string } }>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to submit assignment');
+    },
+  });
+}
+
+// Questions on a lesson with their replies
+export function useLessonDiscussions(lessonId: string, page = 1) {
+  return useQuery({
+    queryKey: learnerKeys.discussions(lessonId, page),
+    queryFn: async () => {
+      const response = await learnerApi.getLessonDiscussions(lessonId, { page });
+      return {
+        threads: response.data.threads as LessonDiscussionThread[],
+        pagination: response.data.pagination as { total: number; page: number; limit: number; totalPages: number },
+      };
+    },
+    enabled: !!lessonId,
+  });
+}
+
+// Ask a question, or reply to one with parentId
+export function usePostLessonComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ lessonId, body, parentId }: { lessonId: string; body: string; parentId?: string }) =>
+      learnerApi.postLessonComment(lessonId, { body, parentId }),
+    onSuccess: (_, { lessonId }) => {
+      queryClient.invalidateQueries({ queryKey: [...learnerKeys.all, 'discussions', lessonId] });
+    },
+    onError: (error: AxiosError<{ error?: { message?: string } }>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to post comment');
+    },
+  });
+}
+
+// Edit one of your own comments
+export function useUpdateLessonComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, body }: { id: string; lessonId: string; body: string }) =>
+      learnerApi.updateLessonComment(id, body),
+    onSuccess: (_, { lessonId }) => {
+      queryClient.invalidateQueries({ queryKey: [...learnerKeys.all, 'discussions', lessonId] });
+    },
+    onError: (error: AxiosError<{ error?: { message?: string } }>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to update comment');
+    },
+  });
+}
+
+// Delete one of your own comments
+export function useDeleteLessonComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id }: { id: string; lessonId: string }) => learnerApi.deleteLessonComment(id),
+    onSuccess: (_, { lessonId }) => {
+      queryClient.invalidateQueries({ queryKey: [...learnerKeys.all, 'discussions', lessonId] });
+      toast.success('Comment deleted');
+    },
+    onError: (error: AxiosError<{ error?: { message?: string } }>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to delete comment');
+    },
+  });
+}
+
+// The learner's notes on a lesson
+export function useLessonNotes(lessonId: string) {
+  return useQuery({
+    queryKey: learnerKeys.lessonNotes(lessonId),
+    queryFn: async () => {
+      const response = await learnerApi.getLessonNotes(lessonId);
+      return response.data as LessonNote[];
+    },
+    enabled: !!lessonId,
+  });
+}
+
+// Notes across all programs, for the notes page
+export function useNotes(filters: NoteFilters = {}) {
+  return useQuery({
+    queryKey: learnerKeys.notes(filters),
+    queryFn: async () => {
+      const response = await learnerApi.getNotes(filters);
+      return {
+        notes: response.data.notes as LessonNote[],
+        pagination: response.data.pagination as { total: number; page: number; limit: number; totalPages: number },
+      };
+    },
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useCreateLessonNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ lessonId, data }: { lessonId: string; data: LessonNoteData }) =>
+      learnerApi.createLessonNote(lessonId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...learnerKeys.all, 'notes'] });
+    },
+    onError: (error: AxiosError<{ error?: { message?: string } }>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to save note');
+    },
+  });
+}
+
+export function useUpdateNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: LessonNoteData }) => learnerApi.updateNote(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...learnerKeys.all, 'notes'] });
+    },
+    onError: (error: AxiosError<{ error?: { message?: string } }>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to update note');
+    },
+  });
+}
+
+export function useDeleteNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => learnerApi.deleteNote(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...learnerKeys.all, 'notes'] });
+    },
+    onError: () => {
+      toast.error('Failed to delete note');
+    },
+  });
+}
+
+// Download notes matching the filters as a Markdown file
+export function useExportNotes() {
+  return useMutation({
+    mutationFn: async (filters: Omit<NoteFilters, 'page' | 'limit'>) => {
+      const blob = await learnerApi.exportNotes(filters);
+      saveBlob(blob, `notes-${new Date().toISOString().slice(0, 10)}.md`);
+    },
+    onError: () => {
+      toast.error('Failed to export notes');
+    },
+  });
+}
+
+// Full-text search over the lessons of the learner's programs
+export function useLearnerSearch(q: string, limit?: number) {
+  return useQuery({
+    queryKey: learnerKeys.search(q, limit),
+    queryFn: async () => {
+      const response = await learnerApi.search(q, limit);
+      return response.data.results as LessonSearchResult[];
+    },
+    enabled: q.length >= 2,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Search the transcripts of videos in the learner's programs
+export function useTranscriptSearch(q: string) {
+  return useQuery({
+    queryKey: learnerKeys.transcriptSearch(q),
+    queryFn: async () => {
+      const response = await learnerApi.searchTranscripts(q);
+      return response.data.results as TranscriptSearchResult[];
+    },
+    enabled: q.length >= 2,
+  });
+}
+
+// Download a certificate PDF (served with auth cookies, so fetched as a blob)
+export function useDownloadCertificate() {
+  return useMutation({
+    mutationFn: async ({ certificateId, programName }: { certificateId: string; programName: string }) => {
+      const blob = await learnerApi.downloadCertificate(certificateId);
+      saveBlob(blob, `certificate-${programName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.pdf`);
+    },
+    onError: () => {
+      toast.error('Failed to download certificate');
+    },
+  });
+}
+
+// Fetch the learner's tax invoices
+export function useLearnerInvoices() {
+  return useQuery({
+    queryKey: learnerKeys.invoices(),
+    queryFn: async () => {
+      const response = await learnerApi.getInvoices();
+      return response.data.invoices as Invoice[];
+    },
+  });
+}
+
+// Download an invoice PDF (served with auth cookies, so fetched as a blob)
+export function useDownloadInvoice() {
+  return useMutation({
+    mutationFn: async (invoice: Invoice) => {
+      const blob = await learnerApi.downloadInvoice(invoice.id);
+      saveBlob(blob, getInvoiceFileName(invoice.invoiceNumber));
+    },
+    onError: () => {
+      toast.error('Failed to download invoice');
+    },
+  });
+}
+
+// Download one session occurrence as an .ics file ("Add to calendar")
+export function useDownloadSessionIcs() {
+  return useMutation({
+    mutationFn: async (session: UpcomingSession) => {
+      const blob = await learnerApi.downloadSessionIcs(session.id, session.occurrenceDate);
+      saveBlob(blob, `${session.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'session'}.ics`);
+    },
+    onError: () => {
+      toast.error('Failed to download calendar event');
+    },
+  });
+}
+
+// Signed player URL of a past session's recording (fetched when the player opens)
+export function useSessionRecording(session: UpcomingSession | null) {
+  return useQuery({
+    queryKey: learnerKeys.sessionRecording(session?.id || '', session?.occurrenceDate),
+    queryFn: async () => {
+      const response = await learnerApi.getSessionRecording(session!.id, session!.occurrenceDate);
+      return response.data as SessionRecordingPlayback;
+    },
+    enabled: !!session,
+  });
+}
+
+// The learner's ICS subscription URL (fetched only when asked for)
+export function useCalendarFeed(enabled: boolean) {
+  return useQuery({
+    queryKey: learnerKeys.calendarFeed(),
+    queryFn: async () => {
+      const response = await learnerApi.getCalendarFeed();
+      return response.data.url as string;
+    },
+    enabled,
+  });
+}
+
+// Replace the subscription URL; calendars using the old one stop updating
+export function useResetCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => learnerApi.resetCalendarFeed(),
+    onSuccess: (response) => {
+      queryClient.setQueryData(learnerKeys.calendarFeed(), response.data.url);
+      toast.success('Calendar link reset');
+    },
+    onError: () => {
+      toast.error('Failed to reset calendar link');
+    },
+  });
+}
+
+// Pay the next installment of a plan through Cashfree checkout
+export function usePayInstallment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (installmentId: string) => {
+      const { data } = await paymentApi.payInstallment(installmentId);
+
+      const result = await openCashfreeCheckout(data.sessionId, data.cashfreeEnv);
+      if (result.error) {
+        throw new Error(result.error.message || 'Payment failed. Please try again.');
+      }
+
+      const verifyRes = await paymentApi.verify(data.orderId);
+      return verifyRes.data as { status: 'SUCCESS' | 'FAILED' | 'PENDING'; message?: string };
+    },
+    onSuccess: ({ status, message }) => {
+      if (status === 'SUCCESS') {
+        toast.success('Installment paid. Thank you!');
+        queryClient.invalidateQueries({ queryKey: learnerKeys.all });
+      } else if (status === 'FAILED') {
+        toast.error(message || 'Payment failed. Please try again.');
+      } else {
+        toast('Payment is still processing. Please refresh in a moment.');
+      }
+    },
+    onError: (error: AxiosError<{ error?: { message?: string } }>) => {
+      toast.error(error.response?.data?.error?.message || error.message || 'Payment failed. Please try again.');
+    },
+  });
+}
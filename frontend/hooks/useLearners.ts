@@ -3,7 +3,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { AxiosError } from 'axios';
 import { adminApi } from '@/lib/api';
-import { Learner, LearnerDetail, LearnerFilters, CreateLearnerData, PaginationInfo } from '@/types/admin';
+import { saveBlob } from '@/lib/download';
+import { Learner, LearnerDetail, LearnerFilters, CreateLearnerData, PaginationInfo, RefundPaymentData, LearnerImport, LearnerImportMapping, LearnerImportPreview, LearnerExportOptions, ProgramLearner } from '@/types/admin';
 import toast from 'react-hot-toast';
 
 interface ApiErrorResponse {
@@ -15,10 +16,11 @@ export const learnerKeys = {
   all: ['admin', 'learners'] as const,
   list: (filters: LearnerFilters) => [...learnerKeys.all, 'list', filters] as const,
   detail: (id: string) => [...learnerKeys.all, 'detail', id] as const,
+  import: (id: string) => [...learnerKeys.all, 'imports', id] as const,
 };
 
 // Fetch learners with filters and pagination
-export function useLearners(filters: LearnerFilters = {}) {
+export function useLearners(filters: LearnerFilters = {}, options: { enabled?: boolean } = {}) {
   return useQuery({
     queryKey: learnerKeys.list(filters),
     queryFn: async () => {
@@ -28,6 +30,7 @@ export function useLearners(filters: LearnerFilters = {}) {
         pagination: response.data.pagination as PaginationInfo,
       };
     },
+    enabled: options.enabled ?? true,
   });
 }
 
@@ -41,6 +44,7 @@ export function useLearner(id: string) {
         learner: response.data.learner as Learner,
         programProgress: response.data.programProgress,
         recentProgress: response.data.recentProgress,
+        quizAttempts: response.data.quizAttempts || [],
       } as LearnerDetail;
     },
     enabled: !!id,
@@ -133,8 +137,8 @@ export function useEnrollLearner() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ learnerId, programId }: { learnerId: string; programId: string }) =>
-      adminApi.enrollLearner(learnerId, programId),
+    mutationFn: ({ learnerId, programId, cohortId }: { learnerId: string; programId: string; cohortId?: string }) =>
+      adminApi.enrollLearner(learnerId, programId, cohortId),
     onSuccess: (_, { learnerId, programId }) => {
       queryClient.invalidateQueries({ queryKey: learnerKeys.detail(learnerId) });
       queryClient.invalidateQueries({ queryKey: learnerKeys.all });
@@ -168,15 +172,34 @@ export function useUnenrollLearner() {
   });
 }
 
+// Move an enrolled learner to another cohort (null = no cohort)
+export function useChangeLearnerCohort() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ learnerId, programId, cohortId }: { learnerId: string; programId: string; cohortId: string | null }) =>
+      adminApi.changeLearnerCohort(learnerId, programId, cohortId),
+    onSuccess: (_, { learnerId, programId }) => {
+      queryClient.invalidateQueries({ queryKey: learnerKeys.detail(learnerId) });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'programs', programId, 'learners'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'programs', 'cohorts', programId] });
+      toast.success('Cohort updated');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to change cohort');
+    },
+  });
+}
+
 // Get learners for a specific program
-export function useProgramLearners(programId: string) {
+export function useProgramLearners(programId: string, options: { enabled?: boolean } = {}) {
   return useQuery({
     queryKey: ['admin', 'programs', programId, 'learners'],
     queryFn: async () => {
       const response = await adminApi.getProgramLearners(programId);
-      return response.data?.learners || response.learners || [];
+      return (response.data?.learners || response.learners || []) as ProgramLearner[];
     },
-    enabled: !!programId,
+    enabled: !!programId && (options.enabled ?? true),
   });
 }
 
@@ -207,3 +230,79 @@ export function useLogoutLearnerAllDevices() {
     },
   });
 }
+
+// Refund a learner's payment (optionally downgrading the enrollment to free)
+export function useRefundPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ learnerId, paymentId, data }: { learnerId: string; paymentId: string; data: RefundPaymentData }) =>
+      adminApi.refundPayment(learnerId, paymentId, data),
+    onSuccess: (_, { learnerId }) => {
+      queryClient.invalidateQueries({ queryKey: learnerKeys.detail(learnerId) });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'dashboard'] });
+      toast.success('Refund initiated successfully');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to refund payment');
+    },
+  });
+}
+
+// Download the learners matching the filters as CSV or XLSX
+export function useExportLearners() {
+  return useMutation({
+    mutationFn: async (options: LearnerExportOptions) => {
+      const blob = await adminApi.exportLearners(options);
+      saveBlob(blob, `learners-${new Date().toISOString().slice(0, 10)}.${options.format}`);
+    },
+    onError: () => {
+      toast.error('Failed to export learners');
+    },
+  });
+}
+
+// Dry-run a CSV/XLSX import (validation errors and duplicates per row)
+export function usePreviewLearnerImport() {
+  return useMutation({
+    mutationFn: async ({ file, mapping }: { file: File; mapping?: LearnerImportMapping }) => {
+      const response = await adminApi.previewLearnerImport(file, mapping);
+      return response.data as LearnerImportPreview;
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to read the file');
+    },
+  });
+}
+
+// Start a background import of the valid rows
+export function useStartLearnerImport() {
+  return useMutation({
+    mutationFn: async ({ file, mapping }: { file: File; mapping: LearnerImportMapping }) => {
+      const response = await adminApi.startLearnerImport(file, mapping);
+      return response.data.import as LearnerImport;
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to start the import');
+    },
+  });
+}
+
+// Import progress — polls while the import is running
+export function useLearnerImport(id: string | null) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: learnerKeys.import(id || ''),
+    queryFn: async () => {
+      const response = await adminApi.getLearnerImport(id!);
+      const learnerImport = response.data.import as LearnerImport;
+      if (learnerImport.status !== 'PROCESSING') {
+        queryClient.invalidateQueries({ queryKey: [...learnerKeys.all, 'list'] });
+      }
+      return learnerImport;
+    },
+    enabled: !!id,
+    refetchInterval: (query) => (query.state.data?.status === 'PROCESSING' ? 2000 : false),
+  });
+}
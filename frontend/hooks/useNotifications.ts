@@ -4,7 +4,7 @@ import { api } from '@/lib/api';
 export interface Notification {
   id: string;
   userId: string;
-  type: 'NEW_LESSON' | 'NEW_SESSION' | 'ENROLLMENT' | 'SYSTEM';
+  type: 'NEW_LESSON' | 'NEW_SESSION' | 'ENROLLMENT' | 'ASSIGNMENT_GRADED' | 'DISCUSSION_REPLY' | 'SYSTEM';
   title: string;
   message: string;
   data?: {
@@ -12,6 +12,7 @@ export interface Notification {
     lessonId?: string;
     lessonTitle?: string;
     sessionId?: string;
+    commentId?: string;
   };
   isRead: boolean;
   createdAt: string;
@@ -125,13 +126,14 @@ export function useSendNotification() {
   });
 }
 
-// Admin: Send notification to all learners in a program
+// Admin: Send notification to all learners in a program (or one of its cohorts)
 export function useSendProgramNotification() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (data: {
       programId: string;
+      cohortId?: string;
       type: string;
       title: string;
       message: string;
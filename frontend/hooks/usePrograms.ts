@@ -3,7 +3,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { AxiosError } from 'axios';
 import { adminApi } from '@/lib/api';
-import { Program, ProgramDetail, CreateProgramData, CreateTopicData, CreateSubtopicData, CreateLessonData } from '@/types/admin';
+import { Program, ProgramDetail, CreateProgramData, CreateTopicData, CreateSubtopicData, CreateLessonData, InstallmentPlan, InstallmentPlanFormData, Cohort, CohortFormData, ProgramInstructors } from '@/types/admin';
 import toast from 'react-hot-toast';
 
 interface ApiErrorResponse {
@@ -16,6 +16,9 @@ export const programKeys = {
   list: (filters?: { page?: number; limit?: number }) => [...programKeys.all, 'list', filters] as const,
   listAll: () => [...programKeys.all, 'list', 'all'] as const,
   detail: (id: string) => [...programKeys.all, 'detail', id] as const,
+  installmentPlans: (id: string) => [...programKeys.all, 'installment-plans', id] as const,
+  cohorts: (id: string) => [...programKeys.all, 'cohorts', id] as const,
+  instructors: (id: string) => [...programKeys.all, 'instructors', id] as const,
 };
 
 interface ProgramFilters {
@@ -167,7 +170,7 @@ export function useUpdateTopic() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, data, programId }: { id: string; data: { name?: string; orderIndex?: number }; programId: string }) =>
+    mutationFn: ({ id, data, programId }: { id: string; data: Partial<Omit<CreateTopicData, 'programId'>>; programId: string }) =>
       adminApi.updateTopic(id, data),
     onSuccess: (_, { programId }) => {
       queryClient.invalidateQueries({ queryKey: programKeys.detail(programId) });
@@ -260,6 +263,40 @@ export function useDeleteLesson() {
   });
 }
 
+// Upload a lesson transcript (replaces the one in the same language)
+export function useUploadTranscript() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ lessonId, file, language, label }: { lessonId: string; file: File; language: string; label: string; programId: string }) =>
+      adminApi.uploadTranscript(lessonId, file, { language, label }),
+    onSuccess: (_, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: programKeys.detail(programId) });
+      toast.success('Transcript uploaded');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to upload transcript');
+    },
+  });
+}
+
+// Delete a lesson transcript
+export function useDeleteTranscript() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id }: { id: string; programId: string }) =>
+      adminApi.deleteTranscript(id),
+    onSuccess: (_, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: programKeys.detail(programId) });
+      toast.success('Transcript deleted');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to delete transcript');
+    },
+  });
+}
+
 // Reorder content mutation
 export function useReorderContent() {
   const queryClient = useQueryClient();
@@ -317,3 +354,157 @@ export function useDeleteSubtopic() {
     },
   });
 }
+
+// Fetch a program's installment plans
+export function useInstallmentPlans(programId: string) {
+  return useQuery({
+    queryKey: programKeys.installmentPlans(programId),
+    queryFn: async () => {
+      const response = await adminApi.getInstallmentPlans(programId);
+      return response.data.plans as InstallmentPlan[];
+    },
+    enabled: !!programId,
+  });
+}
+
+// Create installment plan mutation
+export function useCreateInstallmentPlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: InstallmentPlanFormData & { programId: string }) =>
+      adminApi.createInstallmentPlan(data),
+    onSuccess: (_, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: programKeys.installmentPlans(programId) });
+      toast.success('Installment plan created');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to create installment plan');
+    },
+  });
+}
+
+// Update installment plan mutation
+export function useUpdateInstallmentPlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; programId: string; data: Partial<InstallmentPlanFormData> }) =>
+      adminApi.updateInstallmentPlan(id, data),
+    onSuccess: (_, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: programKeys.installmentPlans(programId) });
+      toast.success('Installment plan updated');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to update installment plan');
+    },
+  });
+}
+
+// Delete installment plan mutation
+export function useDeleteInstallmentPlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id }: { id: string; programId: string }) =>
+      adminApi.deleteInstallmentPlan(id),
+    onSuccess: (_, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: programKeys.installmentPlans(programId) });
+      toast.success('Installment plan deleted');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to delete installment plan');
+    },
+  });
+}
+
+// Fetch a program's cohorts
+export function useCohorts(programId: string) {
+  return useQuery({
+    queryKey: programKeys.cohorts(programId),
+    queryFn: async () => {
+      const response = await adminApi.getCohorts(programId);
+      return response.data.cohorts as Cohort[];
+    },
+    enabled: !!programId,
+  });
+}
+
+// Create cohort mutation (program lists carry cohorts too, so refresh everything)
+export function useCreateCohort() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CohortFormData & { programId: string }) =>
+      adminApi.createCohort(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: programKeys.all });
+      toast.success('Cohort created');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to create cohort');
+    },
+  });
+}
+
+// Update cohort mutation
+export function useUpdateCohort() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CohortFormData> }) =>
+      adminApi.updateCohort(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: programKeys.all });
+      toast.success('Cohort updated');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to update cohort');
+    },
+  });
+}
+
+// Delete cohort mutation
+export function useDeleteCohort() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => adminApi.deleteCohort(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: programKeys.all });
+      toast.success('Cohort deleted');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to delete cohort');
+    },
+  });
+}
+
+// Fetch a program's instructors and the instructor accounts to choose from
+export function useProgramInstructors(programId: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: programKeys.instructors(programId),
+    queryFn: async () => {
+      const response = await adminApi.getProgramInstructors(programId);
+      return response.data as ProgramInstructors;
+    },
+    enabled: !!programId && (options.enabled ?? true),
+  });
+}
+
+// Replace a program's instructors
+export function useUpdateProgramInstructors() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ programId, userIds }: { programId: string; userIds: string[] }) =>
+      adminApi.updateProgramInstructors(programId, userIds),
+    onSuccess: (_data, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: programKeys.instructors(programId) });
+      toast.success('Instructors updated');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to update instructors');
+    },
+  });
+}
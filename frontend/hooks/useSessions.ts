@@ -1,9 +1,11 @@
 'use client';
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { AxiosError } from 'axios';
 import { adminApi } from '@/lib/api';
-import { Session, SessionFilters, CreateSessionData } from '@/types/admin';
+import { saveBlob } from '@/lib/download';
+import { programKeys } from './usePrograms';
+import { Session, SessionFilters, CreateSessionData, UpdateSessionData, SessionAttendanceReport, MarkAttendanceData, RecurrencePreviewParams, RecurrencePreviewOccurrence, SaveRecordingData, PublishRecordingData } from '@/types/admin';
 import toast from 'react-hot-toast';
 
 interface ApiErrorResponse {
@@ -16,6 +18,8 @@ export const sessionKeys = {
   list: (filters?: SessionFilters) => [...sessionKeys.all, 'list', filters] as const,
   today: () => [...sessionKeys.all, 'today'] as const,
   detail: (id: string) => [...sessionKeys.all, 'detail', id] as const,
+  attendance: (id: string) => [...sessionKeys.all, 'attendance', id] as const,
+  recurrencePreview: (params: RecurrencePreviewParams | null) => [...sessionKeys.all, 'recurrence-preview', params] as const,
 };
 
 // Fetch sessions with filters
@@ -30,13 +34,14 @@ export function useSessions(filters?: SessionFilters) {
 }
 
 // Fetch today's sessions for dashboard
-export function useTodaySessions() {
+export function useTodaySessions(options: { enabled?: boolean } = {}) {
   return useQuery({
     queryKey: sessionKeys.today(),
     queryFn: async () => {
       const response = await adminApi.getTodaySessions();
       return response.data.sessions as Session[];
     },
+    enabled: options.enabled ?? true,
   });
 }
 
@@ -52,6 +57,20 @@ export function useSession(id: string) {
   });
 }
 
+// Next occurrences of a recurrence rule while it is being edited (null = nothing to preview)
+export function useRecurrencePreview(params: RecurrencePreviewParams | null) {
+  return useQuery({
+    queryKey: sessionKeys.recurrencePreview(params),
+    queryFn: async () => {
+      const response = await adminApi.previewRecurrence(params!);
+      return response.data.occurrences as RecurrencePreviewOccurrence[];
+    },
+    enabled: !!params,
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+}
+
 // Create session mutation
 export function useCreateSession() {
   const queryClient = useQueryClient();
@@ -73,7 +92,7 @@ export function useUpdateSession() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<CreateSessionData> }) =>
+    mutationFn: ({ id, data }: { id: string; data: UpdateSessionData }) =>
       adminApi.updateSession(id, data),
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: sessionKeys.all });
@@ -102,3 +121,97 @@ export function useDeleteSession() {
     },
   });
 }
+
+// Attendance report for a session (every occurrence that has started)
+export function useSessionAttendance(id: string | undefined) {
+  return useQuery({
+    queryKey: sessionKeys.attendance(id || ''),
+    queryFn: async () => {
+      const response = await adminApi.getSessionAttendance(id!);
+      return response.data as SessionAttendanceReport;
+    },
+    enabled: !!id,
+  });
+}
+
+// Mark a learner present or absent for one occurrence
+export function useMarkAttendance() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: MarkAttendanceData }) =>
+      adminApi.markSessionAttendance(id, data),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.attendance(id) });
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to update attendance');
+    },
+  });
+}
+
+// Download the attendance report as CSV
+export function useExportSessionAttendance() {
+  return useMutation({
+    mutationFn: async (session: Session) => {
+      const blob = await adminApi.exportSessionAttendance(session.id);
+      const slug = session.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+      saveBlob(blob, `attendance-${slug}-${new Date().toISOString().slice(0, 10)}.csv`);
+    },
+    onError: () => {
+      toast.error('Failed to export attendance');
+    },
+  });
+}
+
+// Attach or replace the recording of an occurrence
+export function useSaveSessionRecording() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SaveRecordingData }) =>
+      adminApi.saveSessionRecording(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+      toast.success('Recording saved');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to save recording');
+    },
+  });
+}
+
+// Remove an occurrence's recording (lessons published from it stay)
+export function useDeleteSessionRecording() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, occurrenceDate }: { id: string; occurrenceDate?: string }) =>
+      adminApi.deleteSessionRecording(id, occurrenceDate),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+      toast.success('Recording removed');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to remove recording');
+    },
+  });
+}
+
+// Publish a recording as a VIDEO lesson in a topic of each chosen program
+export function usePublishSessionRecording() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: PublishRecordingData }) =>
+      adminApi.publishSessionRecording(id, data),
+    onSuccess: (_, { data }) => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+      queryClient.invalidateQueries({ queryKey: programKeys.all });
+      toast.success(data.topics.length === 1 ? 'Recording published as a lesson' : `Recording published to ${data.topics.length} programs`);
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to publish recording');
+    },
+  });
+}
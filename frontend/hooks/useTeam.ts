@@ -0,0 +1,114 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { adminApi } from '@/lib/api';
+import { TeamMember, TeamInviteData } from '@/types/admin';
+import toast from 'react-hot-toast';
+
+interface ApiErrorResponse {
+  error?: { message?: string };
+}
+
+// Query keys
+export const teamKeys = {
+  all: ['admin', 'team'] as const,
+};
+
+// Staff accounts, including pending invites
+export function useTeam(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: teamKeys.all,
+    queryFn: async () => {
+      const response = await adminApi.getTeam();
+      return response.data.members as TeamMember[];
+    },
+    enabled: options.enabled ?? true,
+  });
+}
+
+// The setup link is returned so it can be shared by hand when the email fails
+interface InviteResult {
+  member: TeamMember;
+  emailSent: boolean;
+  setupLink: string;
+}
+
+// Invite team member mutation
+export function useInviteTeamMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: TeamInviteData) => {
+      const response = await adminApi.inviteTeamMember(data);
+      return response.data as InviteResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+      if (result.emailSent) {
+        toast.success(`Invite sent to ${result.member.email}`);
+      } else {
+        toast.error('Invite created, but the email could not be sent');
+      }
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to send invite');
+    },
+  });
+}
+
+// Resend invite mutation (issues a fresh link)
+export function useResendTeamInvite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await adminApi.resendTeamInvite(id);
+      return response.data as InviteResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+      if (result.emailSent) {
+        toast.success(`Invite resent to ${result.member.email}`);
+      } else {
+        toast.error('Invite renewed, but the email could not be sent');
+      }
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to resend invite');
+    },
+  });
+}
+
+// Revoke invite mutation
+export function useRevokeTeamInvite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => adminApi.revokeTeamInvite(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+      toast.success('Invite revoked');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to revoke invite');
+    },
+  });
+}
+
+// Deactivate / reactivate team member mutation
+export function useUpdateTeamMemberStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, status }: { id: string; status: 'ACTIVE' | 'INACTIVE' }) =>
+      adminApi.updateTeamMemberStatus(id, status),
+    onSuccess: (_data, { status }) => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+      toast.success(status === 'INACTIVE' ? 'Team member deactivated' : 'Team member reactivated');
+    },
+    onError: (error: AxiosError<ApiErrorResponse>) => {
+      toast.error(error.response?.data?.error?.message || 'Failed to update team member');
+    },
+  });
+}
@@ -1,4 +1,6 @@
 import axios from 'axios';
+import type { QuizQuestion, GradeSubmissionData, SubmissionFilters, CouponFilters, CouponFormData, RefundPaymentData, InvoiceFilters, InstallmentPlanFormData, CohortFormData, LearnerImportMapping, LearnerExportOptions, MarkAttendanceData, RecurrencePreviewParams, SaveRecordingData, PublishRecordingData, DiscussionFilters, ModerateDiscussionData, AuditLogFilters, TeamInviteData } from '@/types/admin';
+import type { QuizAnswers, SubmitAssignmentData, LessonNoteData, NoteFilters } from '@/types/learner';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -112,6 +114,16 @@ export const publicApi = {
     const response = await api.get(`/public/programs/${slug}`);
     return response.data;
   },
+
+  previewCoupon: async (slug: string, code: string) => {
+    const response = await api.get(`/public/programs/${slug}/coupon`, { params: { code } });
+    return response.data;
+  },
+
+  verifyCertificate: async (code: string) => {
+    const response = await api.get(`/certificates/verify/${encodeURIComponent(code)}`);
+    return response.data;
+  },
 };
 
 // ==========================================
@@ -119,8 +131,18 @@ export const publicApi = {
 // ==========================================
 
 export const paymentApi = {
-  createOrder: async (programId: string) => {
-    const response = await api.post('/payments/create-order', { programId });
+  createOrder: async (programId: string, couponCode?: string, installmentPlanId?: string) => {
+    const response = await api.post('/payments/create-order', { programId, couponCode, installmentPlanId });
+    return response.data;
+  },
+
+  payInstallment: async (installmentId: string) => {
+    const response = await api.post(`/payments/installments/${installmentId}/create-order`);
+    return response.data;
+  },
+
+  previewCoupon: async (programId: string, code: string) => {
+    const response = await api.post('/payments/preview-coupon', { programId, code });
     return response.data;
   },
 
@@ -141,8 +163,8 @@ export const adminApi = {
     return response.data;
   },
 
-  getDashboardAnalytics: async () => {
-    const response = await api.get('/admin/dashboard/analytics');
+  getDashboardAnalytics: async (params?: { cohortId?: string }) => {
+    const response = await api.get('/admin/dashboard/analytics', { params });
     return response.data;
   },
 
@@ -182,13 +204,66 @@ export const adminApi = {
     return response.data;
   },
 
+  // Installment plans
+  getInstallmentPlans: async (programId: string) => {
+    const response = await api.get(`/admin/programs/${programId}/installment-plans`);
+    return response.data;
+  },
+
+  createInstallmentPlan: async (data: InstallmentPlanFormData & { programId: string }) => {
+    const response = await api.post('/admin/programs/installment-plans', data);
+    return response.data;
+  },
+
+  updateInstallmentPlan: async (id: string, data: Partial<InstallmentPlanFormData>) => {
+    const response = await api.put(`/admin/programs/installment-plans/${id}`, data);
+    return response.data;
+  },
+
+  deleteInstallmentPlan: async (id: string) => {
+    const response = await api.delete(`/admin/programs/installment-plans/${id}`);
+    return response.data;
+  },
+
+  // Cohorts
+  getCohorts: async (programId: string) => {
+    const response = await api.get(`/admin/programs/${programId}/cohorts`);
+    return response.data;
+  },
+
+  createCohort: async (data: CohortFormData & { programId: string }) => {
+    const response = await api.post('/admin/programs/cohorts', data);
+    return response.data;
+  },
+
+  updateCohort: async (id: string, data: Partial<CohortFormData>) => {
+    const response = await api.put(`/admin/programs/cohorts/${id}`, data);
+    return response.data;
+  },
+
+  deleteCohort: async (id: string) => {
+    const response = await api.delete(`/admin/programs/cohorts/${id}`);
+    return response.data;
+  },
+
+  // Instructors
+  getProgramInstructors: async (programId: string) => {
+    const response = await api.get(`/admin/programs/${programId}/instructors`);
+    return response.data;
+  },
+
+  updateProgramInstructors: async (programId: string, userIds: string[]) => {
+    const response = await api.put(`/admin/programs/${programId}/instructors`, { userIds });
+    return response.data;
+  },
+
   // Topics
-  createTopic: async (data: { programId: string; name: string; orderIndex?: number }) => {
+  createTopic: async (data: { programId: string; name: string; orderIndex?: number; unlockAfterDays?: number | null; unlockAt?: string | null }) => {
     const response = await api.post('/admin/programs/topics', data);
     return response.data;
   },
 
-  updateTopic: async (id: string, data: { name?: string; orderIndex?: number }) => {
+  updateTopic: async (id: string, data: { name?: string; orderIndex?: number; unlockAfterDays?: number | null; unlockAt?: string | null }) => {
     const response = await api.put(`/admin/programs/topics/${id}`, data);
     return response.data;
   },
@@ -210,13 +285,17 @@ export const adminApi = {
     topicId?: string;
     subtopicId?: string;
     title: string;
-    type: 'VIDEO' | 'PDF' | 'TEXT';
+    type: 'VIDEO' | 'PDF' | 'TEXT' | 'QUIZ' | 'ASSIGNMENT';
     contentUrl?: string;
     contentText?: string;
     thumbnailUrl?: string;
     instructorNotes?: string;
     durationSeconds?: number;
     orderIndex?: number;
+    passingScore?: number | null;
+    unlockAfterDays?: number | null;
+    unlockAt?: string | null;
+    quizQuestions?: QuizQuestion[];
   }) => {
     const response = await api.post('/admin/programs/lessons', data);
     return response.data;
@@ -224,7 +303,7 @@ export const adminApi = {
 
   updateLesson: async (id: string, data: Partial<{
     title: string;
-    type: 'VIDEO' | 'PDF' | 'TEXT';
+    type: 'VIDEO' | 'PDF' | 'TEXT' | 'QUIZ' | 'ASSIGNMENT';
     contentUrl: string;
     contentText: string;
     thumbnailUrl: string;
@@ -234,6 +313,10 @@ export const adminApi = {
     isFree: boolean;
     topicId: string | null;
     subtopicId: string | null;
+    passingScore: number | null;
+    unlockAfterDays: number | null;
+    unlockAt: string | null;
+    quizQuestions: QuizQuestion[];
   }>) => {
     const response = await api.put(`/admin/programs/lessons/${id}`, data);
     return response.data;
@@ -244,6 +327,23 @@ export const adminApi = {
     return response.data;
   },
 
+  // Transcripts (WebVTT or SRT caption files)
+  uploadTranscript: async (lessonId: string, file: File, data: { language: string; label: string }) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('language', data.language);
+    formData.append('label', data.label);
+    const response = await axios.post(`${API_URL}/admin/programs/lessons/${lessonId}/transcripts`, formData, {
+      withCredentials: true,
+    });
+    return response.data;
+  },
+
+  deleteTranscript: async (id: string) => {
+    const response = await api.delete(`/admin/programs/transcripts/${id}`);
+    return response.data;
+  },
+
   // Reorder content
   reorderContent: async (programId: string, data: {
     items: Array<{
@@ -306,8 +406,13 @@ export const adminApi = {
     return response.data;
   },
 
-  enrollLearner: async (learnerId: string, programId: string) => {
-    const response = await api.post(`/admin/learners/${learnerId}/enroll`, { programId });
+  enrollLearner: async (learnerId: string, programId: string, cohortId?: string) => {
+    const response = await api.post(`/admin/learners/${learnerId}/enroll`, { programId, cohortId });
+    return response.data;
+  },
+
+  changeLearnerCohort: async (learnerId: string, programId: string, cohortId: string | null) => {
+    const response = await api.put(`/admin/learners/${learnerId}/enrollments/${programId}`, { cohortId });
     return response.data;
   },
 
@@ -321,6 +426,50 @@ export const adminApi = {
     return response.data;
   },
 
+  refundPayment: async (learnerId: string, paymentId: string, data: RefundPaymentData) => {
+    const response = await api.post(`/admin/learners/${learnerId}/payments/${paymentId}/refund`, data);
+    return response.data;
+  },
+
+  exportLearners: async ({ columns, ...params }: LearnerExportOptions) => {
+    const response = await api.get('/admin/learners/export', {
+      params: { ...params, columns: columns.join(',') },
+      responseType: 'blob',
+    });
+    return response.data as Blob;
+  },
+
+  // Bulk import (CSV/XLSX)
+  previewLearnerImport: async (file: File, mapping?: LearnerImportMapping) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (mapping) formData.append('mapping', JSON.stringify(mapping));
+    const response = await axios.post(`${API_URL}/admin/learners/import/preview`, formData, {
+      withCredentials: true,
+    });
+    return response.data;
+  },
+
+  startLearnerImport: async (file: File, mapping: LearnerImportMapping) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('mapping', JSON.stringify(mapping));
+    const response = await axios.post(`${API_URL}/admin/learners/import`, formData, {
+      withCredentials: true,
+    });
+    return response.data;
+  },
+
+  getLearnerImport: async (id: string) => {
+    const response = await api.get(`/admin/learners/imports/${id}`);
+    return response.data;
+  },
+
+  downloadLearnerImportReport: async (id: string) => {
+    const response = await api.get(`/admin/learners/imports/${id}/report`, { responseType: 'blob' });
+    return response.data as Blob;
+  },
+
   // User Sessions (login sessions)
   getLearnerSessions: async (learnerId: string) => {
     const response = await api.get(`/admin/learners/${learnerId}/sessions`);
@@ -337,6 +486,117 @@ export const adminApi = {
     return response.data;
   },
 
+  // Assignment submissions
+  getSubmissions: async (params?: SubmissionFilters) => {
+    const response = await api.get('/admin/assignments/submissions', { params });
+    return response.data;
+  },
+
+  gradeSubmission: async (id: string, data: GradeSubmissionData) => {
+    const response = await api.put(`/admin/assignments/submissions/${id}/grade`, data);
+    return response.data;
+  },
+
+  // Discussions
+  getDiscussions: async (params?: DiscussionFilters) => {
+    const response = await api.get('/admin/discussions', { params });
+    return response.data;
+  },
+
+  getDiscussion: async (id: string) => {
+    const response = await api.get(`/admin/discussions/${id}`);
+    return response.data;
+  },
+
+  replyToDiscussion: async (id: string, body: string) => {
+    const response = await api.post(`/admin/discussions/${id}/replies`, { body });
+    return response.data;
+  },
+
+  moderateDiscussion: async (id: string, data: ModerateDiscussionData) => {
+    const response = await api.put(`/admin/discussions/${id}`, data);
+    return response.data;
+  },
+
+  deleteDiscussionComment: async (id: string) => {
+    const response = await api.delete(`/admin/discussions/${id}`);
+    return response.data;
+  },
+
+  // Audit log
+  getAuditLogs: async (params?: AuditLogFilters & { cursor?: string }) => {
+    const response = await api.get('/admin/audit-logs', { params });
+    return response.data;
+  },
+
+  getAuditLogFilters: async () => {
+    const response = await api.get('/admin/audit-logs/filters');
+    return response.data;
+  },
+
+  // Team
+  getTeam: async () => {
+    const response = await api.get('/admin/team');
+    return response.data;
+  },
+
+  inviteTeamMember: async (data: TeamInviteData) => {
+    const response = await api.post('/admin/team/invites', data);
+    return response.data;
+  },
+
+  resendTeamInvite: async (id: string) => {
+    const response = await api.post(`/admin/team/invites/${id}/resend`);
+    return response.data;
+  },
+
+  revokeTeamInvite: async (id: string) => {
+    const response = await api.delete(`/admin/team/invites/${id}`);
+    return response.data;
+  },
+
+  updateTeamMemberStatus: async (id: string, status: 'ACTIVE' | 'INACTIVE') => {
+    const response = await api.put(`/admin/team/${id}/status`, { status });
+    return response.data;
+  },
+
+  // Coupons
+  getCoupons: async (params?: CouponFilters) => {
+    const response = await api.get('/admin/coupons', { params });
+    return response.data;
+  },
+
+  createCoupon: async (data: CouponFormData) => {
+    const response = await api.post('/admin/coupons', data);
+    return response.data;
+  },
+
+  updateCoupon: async (id: string, data: Partial<CouponFormData>) => {
+    const response = await api.put(`/admin/coupons/${id}`, data);
+    return response.data;
+  },
+
+  deleteCoupon: async (id: string) => {
+    const response = await api.delete(`/admin/coupons/${id}`);
+    return response.data;
+  },
+
+  // Invoices
+  getInvoices: async (params?: InvoiceFilters) => {
+    const response = await api.get('/admin/invoices', { params });
+    return response.data;
+  },
+
+  exportInvoices: async (params?: Omit<InvoiceFilters, 'page' | 'limit'>) => {
+    const response = await api.get('/admin/invoices/export', { params, responseType: 'blob' });
+    return response.data as Blob;
+  },
+
+  downloadInvoice: async (id: string) => {
+    const response = await api.get(`/admin/invoices/${id}/download`, { responseType: 'blob' });
+    return response.data as Blob;
+  },
+
   // Sessions
   getSessions: async (params?: { from?: string; to?: string; programId?: string }) => {
     const response = await api.get('/admin/sessions', { params });
@@ -361,7 +621,9 @@ export const adminApi = {
     meetLink?: string;
     isRecurring?: boolean;
     recurrenceRule?: string;
+    timezone?: string;
     programIds?: string[];
+    cohortIds?: string[];
   }) => {
     const response = await api.post('/admin/sessions', data);
     return response.data;
@@ -375,12 +637,21 @@ export const adminApi = {
     meetLink: string;
     isRecurring: boolean;
     recurrenceRule: string;
+    timezone: string;
     programIds: string[];
+    cohortIds: string[];
+    editMode: 'single' | 'following' | 'all';
+    occurrenceDate: string;
   }>) => {
     const response = await api.put(`/admin/sessions/${id}`, data);
     return response.data;
   },
 
+  previewRecurrence: async (params: RecurrencePreviewParams) => {
+    const response = await api.get('/admin/sessions/recurrence/preview', { params });
+    return response.data;
+  },
+
   deleteSession: async (id: string, opts?: { deleteMode?: string; occurrenceDate?: string }) => {
     const params = new URLSearchParams();
     if (opts?.deleteMode) params.set('deleteMode', opts.deleteMode);
@@ -390,6 +661,38 @@ export const adminApi = {
     return response.data;
   },
 
+  getSessionAttendance: async (id: string) => {
+    const response = await api.get(`/admin/sessions/${id}/attendance`);
+    return response.data;
+  },
+
+  markSessionAttendance: async (id: string, data: MarkAttendanceData) => {
+    const response = await api.put(`/admin/sessions/${id}/attendance`, data);
+    return response.data;
+  },
+
+  exportSessionAttendance: async (id: string) => {
+    const response = await api.get(`/admin/sessions/${id}/attendance/export`, { responseType: 'blob' });
+    return response.data as Blob;
+  },
+
+  saveSessionRecording: async (id: string, data: SaveRecordingData) => {
+    const response = await api.put(`/admin/sessions/${id}/recording`, data);
+    return response.data;
+  },
+
+  deleteSessionRecording: async (id: string, occurrenceDate?: string) => {
+    const response = await api.delete(`/admin/sessions/${id}/recording`, {
+      params: occurrenceDate ? { occurrenceDate } : undefined,
+    });
+    return response.data;
+  },
+
+  publishSessionRecording: async (id: string, data: PublishRecordingData) => {
+    const response = await api.post(`/admin/sessions/${id}/recording/lessons`, data);
+    return response.data;
+  },
+
   // Upload
   uploadThumbnail: async (file: File) => {
     const formData = new FormData();
@@ -445,6 +748,104 @@ export const learnerApi = {
     return response.data;
   },
 
+  submitQuizAttempt: async (lessonId: string, answers: QuizAnswers) => {
+    const response = await api.post(`/learner/lessons/${lessonId}/quiz/attempts`, { answers });
+    return response.data;
+  },
+
+  submitAssignment: async (lessonId: string, data: SubmitAssignmentData) => {
+    const response = await api.post(`/learner/lessons/${lessonId}/submission`, data);
+    return response.data;
+  },
+
+  getLessonDiscussions: async (lessonId: string, params?: { page?: number; limit?: number }) => {
+    const response = await api.get(`/learner/lessons/${lessonId}/discussions`, { params });
+    return response.data;
+  },
+
+  postLessonComment: async (lessonId: string, data: { body: string; parentId?: string }) => {
+    const response = await api.post(`/learner/lessons/${lessonId}/discussions`, data);
+    return response.data;
+  },
+
+  updateLessonComment: async (id: string, body: string) => {
+    const response = await api.put(`/learner/discussions/${id}`, { body });
+    return response.data;
+  },
+
+  deleteLessonComment: async (id: string) => {
+    const response = await api.delete(`/learner/discussions/${id}`);
+    return response.data;
+  },
+
+  getLessonNotes: async (lessonId: string) => {
+    const response = await api.get(`/learner/lessons/${lessonId}/notes`);
+    return response.data;
+  },
+
+  createLessonNote: async (lessonId: string, data: LessonNoteData) => {
+    const response = await api.post(`/learner/lessons/${lessonId}/notes`, data);
+    return response.data;
+  },
+
+  updateNote: async (id: string, data: LessonNoteData) => {
+    const response = await api.put(`/learner/notes/${id}`, data);
+    return response.data;
+  },
+
+  deleteNote: async (id: string) => {
+    const response = await api.delete(`/learner/notes/${id}`);
+    return response.data;
+  },
+
+  getNotes: async (params?: NoteFilters) => {
+    const response = await api.get('/learner/notes', { params });
+    return response.data;
+  },
+
+  exportNotes: async (params?: Omit<NoteFilters, 'page' | 'limit'>) => {
+    const response = await api.get('/learner/notes/export', { params, responseType: 'blob' });
+    return response.data as Blob;
+  },
+
+  search: async (q: string, limit?: number) => {
+    const response = await api.get('/learner/search', { params: { q, limit } });
+    return response.data;
+  },
+
+  searchTranscripts: async (q: string) => {
+    const response = await api.get('/learner/transcripts/search', { params: { q } });
+    return response.data;
+  },
+
+  uploadSubmissionFile: async (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await axios.post(`${API_URL}/learner/upload/submission`, formData, {
+      withCredentials: true,
+    });
+    return response.data;
+  },
+
+  downloadCertificate: async (certificateId: string) => {
+    const response = await api.get(`/learner/certificates/${certificateId}/download`, {
+      responseType: 'blob',
+    });
+    return response.data as Blob;
+  },
+
+  getInvoices: async () => {
+    const response = await api.get('/learner/invoices');
+    return response.data;
+  },
+
+  downloadInvoice: async (invoiceId: string) => {
+    const response = await api.get(`/learner/invoices/${invoiceId}/download`, {
+      responseType: 'blob',
+    });
+    return response.data as Blob;
+  },
+
   getSessions: async () => {
     const response = await api.get('/learner/sessions');
     return response.data;
@@ -455,6 +856,37 @@ export const learnerApi = {
     return response.data;
   },
 
+  downloadSessionIcs: async (sessionId: string, occurrenceDate?: string) => {
+    const response = await api.get(`/learner/sessions/${sessionId}/ics`, {
+      params: occurrenceDate ? { occurrence: occurrenceDate } : undefined,
+      responseType: 'blob',
+    });
+    return response.data as Blob;
+  },
+
+  getSessionRecording: async (sessionId: string, occurrenceDate?: string) => {
+    const response = await api.get(`/learner/sessions/${sessionId}/recording`, {
+      params: occurrenceDate ? { occurrence: occurrenceDate } : undefined,
+    });
+    return response.data;
+  },
+
+  getCalendarFeed: async () => {
+    const response = await api.get('/learner/calendar-feed');
+    return response.data;
+  },
+
+  resetCalendarFeed: async () => {
+    const response = await api.post('/learner/calendar-feed/reset');
+    return response.data;
+  },
+
+  // Join goes through the API so the visit is recorded as attendance, then redirects to the meeting
+  getSessionJoinUrl: (sessionId: string, occurrenceDate?: string) => {
+    const qs = occurrenceDate ? `?occurrence=${occurrenceDate}` : '';
+    return `${API_URL}/learner/sessions/${sessionId}/join${qs}`;
+  },
+
   getProfile: async () => {
     const response = await api.get('/learner/profile');
     return response.data;
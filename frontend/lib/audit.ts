@@ -0,0 +1,87 @@
+// Presentation of audit log entries: labels, target links and field diffs
+import type { AuditLogEntry } from '@/types/admin';
+
+type AuditDetails = AuditLogEntry['details'];
+
+// "UPDATE_INSTALLMENT_PLAN" -> "Update installment plan"
+export function formatAuditAction(action: string) {
+  const words = action.toLowerCase().split('_');
+  return [words[0].charAt(0).toUpperCase() + words[0].slice(1), ...words.slice(1)].join(' ');
+}
+
+// "InstallmentPlan" -> "Installment plan", "User" -> "Learner"
+export function formatAuditTargetType(targetType: string) {
+  if (targetType === 'User') return 'Learner';
+  const spaced = targetType.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+const detailString = (details: AuditDetails, key: string) => {
+  const value = details?.[key];
+  return typeof value === 'string' && value ? value : null;
+};
+
+// What the entry is about, as named in its details (program name, coupon code...)
+export function getAuditTargetLabel(entry: Pick<AuditLogEntry, 'details'>) {
+  const { details } = entry;
+  return detailString(details, 'name')
+    || detailString(details, 'code')
+    || detailString(details, 'lessonTitle')
+    || detailString(details, 'programName')
+    || detailString(details, 'learner');
+}
+
+// Admin page for the entry's target, or null when there is none to open
+export function getAuditTargetHref(entry: Pick<AuditLogEntry, 'action' | 'targetType' | 'targetId' | 'details'>) {
+  const { action, targetType, targetId, details } = entry;
+  if (action.startsWith('DELETE_') && (targetType === 'User' || targetType === 'Program')) return null;
+
+  const programId = detailString(details, 'programId');
+  const learnerId = detailString(details, 'learnerId');
+  switch (targetType) {
+    case 'User': return `/admin/learners/${targetId}`;
+    case 'Program': return `/admin/programs/${targetId}`;
+    case 'Coupon': return '/admin/coupons';
+    case 'Session': return '/admin/sessions';
+    case 'LessonComment': return '/admin/discussions';
+    case 'AssignmentSubmission': return '/admin/assignments';
+    case 'LearnerImport': return '/admin/learners';
+    case 'TeamMember': return '/admin/settings';
+    default:
+      if (learnerId) return `/admin/learners/${learnerId}`;
+      if (programId) return `/admin/programs/${programId}`;
+      return null;
+  }
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Field changes recorded by an update ({ before, after }), or null for other entries
+export function getAuditChanges(details: AuditDetails): AuditFieldChange[] | null {
+  const before = details?.before;
+  const after = details?.after;
+  if (!before || !after || typeof before !== 'object' || typeof after !== 'object') return null;
+
+  const beforeFields = before as Record<string, unknown>;
+  const afterFields = after as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]));
+  return fields.map(field => ({ field, before: beforeFields[field] ?? null, after: afterFields[field] ?? null }));
+}
+
+// Details other than the recorded changes
+export function getAuditExtraDetails(details: AuditDetails) {
+  if (!details) return {};
+  if (!getAuditChanges(details)) return details;
+  return Object.fromEntries(Object.entries(details).filter(([key]) => key !== 'before' && key !== 'after'));
+}
+
+// A detail value as shown in the diff viewer
+export function formatAuditValue(value: unknown) {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
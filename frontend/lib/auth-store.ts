@@ -1,12 +1,13 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { useEffect, useState } from 'react';
+import type { UserRole } from '@/types/admin';
 
 interface User {
   id: string;
   email: string;
   name: string;
-  role: 'ADMIN' | 'LEARNER';
+  role: UserRole;
 }
 
 interface AuthState {
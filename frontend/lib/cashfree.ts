@@ -0,0 +1,46 @@
+// Cashfree checkout (JS SDK v3) — shared by program upgrades and installment payments
+
+interface CashfreeCheckoutResult {
+  error?: { message: string };
+  redirect?: boolean;
+  paymentDetails?: Record<string, unknown>;
+}
+
+declare global {
+  interface Window {
+    Cashfree: (config: { mode: string }) => {
+      checkout: (options: {
+        paymentSessionId: string;
+        redirectTarget: string;
+      }) => Promise<CashfreeCheckoutResult>;
+    };
+  }
+}
+
+export function loadCashfreeSDK(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if ('Cashfree' in window) {
+      resolve();
+      return;
+    }
+    const script = document.createElement('script');
+    script.src = 'https://sdk.cashfree.com/js/v3/cashfree.js';
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error('Failed to load payment SDK'));
+    document.head.appendChild(script);
+  });
+}
+
+// Open the checkout modal for an order created by the backend
+export async function openCashfreeCheckout(sessionId: string, cashfreeEnv?: string) {
+  await loadCashfreeSDK();
+
+  const cashfree = window.Cashfree({
+    mode: cashfreeEnv || 'sandbox',
+  });
+
+  return cashfree.checkout({
+    paymentSessionId: sessionId,
+    redirectTarget: '_modal',
+  });
+}
@@ -0,0 +1,16 @@
+// Save a file fetched as a blob (downloads served with auth cookies can't be plain links)
+export function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Matches the file name the API sends for invoice PDFs
+export function getInvoiceFileName(invoiceNumber: string) {
+  return `invoice-${invoiceNumber.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.pdf`;
+}
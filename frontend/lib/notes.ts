@@ -0,0 +1,25 @@
+// Positions of lesson notes: video timestamps and PDF pages
+import type { LessonNote } from '@/types/learner';
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+export function formatTimestamp(totalSeconds: number) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+// "12:05" for a video note, "p. 4" for a PDF note, null for a plain note
+export function formatNotePosition(note: Pick<LessonNote, 'positionSeconds' | 'pageNumber'>) {
+  if (note.positionSeconds !== null) return formatTimestamp(note.positionSeconds);
+  if (note.pageNumber !== null) return `p. ${note.pageNumber}`;
+  return null;
+}
+
+// Lesson viewer link that opens at the note's position (?t= seconds, ?page= number)
+export function getNoteHref(note: Pick<LessonNote, 'positionSeconds' | 'pageNumber'>, lessonId: string) {
+  if (note.positionSeconds !== null) return `/learner/lessons/${lessonId}?t=${note.positionSeconds}`;
+  if (note.pageNumber !== null) return `/learner/lessons/${lessonId}?page=${note.pageNumber}`;
+  return `/learner/lessons/${lessonId}`;
+}
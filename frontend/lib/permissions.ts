@@ -0,0 +1,85 @@
+// Admin panel roles and what each may do. Mirrors backend/src/utils/permissions.js,
+// which enforces them; here they only decide which pages and actions to show.
+import type { StaffRole, UserRole } from '@/types/admin';
+import { useAuthStore } from './auth-store';
+
+export type Permission =
+  | 'dashboard:view'
+  | 'programs:view'
+  | 'programs:manage'
+  | 'content:edit'
+  | 'sessions:view'
+  | 'sessions:edit'
+  | 'learners:view'
+  | 'learners:edit'
+  | 'learners:delete'
+  | 'learners:reset-password'
+  | 'payments:refund'
+  | 'invoices:view'
+  | 'coupons:manage'
+  | 'assignments:grade'
+  | 'discussions:moderate'
+  | 'notifications:send'
+  | 'audit:view'
+  | 'team:manage';
+
+export const STAFF_ROLES: StaffRole[] = ['ADMIN', 'INSTRUCTOR', 'SUPPORT', 'FINANCE'];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  ADMIN: 'Administrator',
+  INSTRUCTOR: 'Instructor',
+  SUPPORT: 'Support',
+  FINANCE: 'Finance',
+};
+
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  ADMIN: [
+    'dashboard:view', 'programs:view', 'programs:manage', 'content:edit',
+    'sessions:view', 'sessions:edit', 'learners:view', 'learners:edit',
+    'learners:delete', 'learners:reset-password', 'payments:refund', 'invoices:view',
+    'coupons:manage', 'assignments:grade', 'discussions:moderate', 'notifications:send',
+    'audit:view', 'team:manage',
+  ],
+  INSTRUCTOR: ['programs:view', 'content:edit', 'sessions:view', 'sessions:edit', 'assignments:grade', 'discussions:moderate'],
+  SUPPORT: ['dashboard:view', 'programs:view', 'sessions:view', 'learners:view', 'learners:reset-password'],
+  FINANCE: ['dashboard:view', 'programs:view', 'learners:view', 'payments:refund', 'invoices:view', 'coupons:manage'],
+};
+
+export function isStaffRole(role: UserRole | null | undefined): role is StaffRole {
+  return !!role && (STAFF_ROLES as string[]).includes(role);
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission) {
+  return isStaffRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Admin pages in sidebar order and what each needs (pages not listed, like settings, are open to all staff)
+const ADMIN_PAGES: { href: string; permission: Permission }[] = [
+  { href: '/admin', permission: 'dashboard:view' },
+  { href: '/admin/programs', permission: 'programs:view' },
+  { href: '/admin/learners', permission: 'learners:view' },
+  { href: '/admin/sessions', permission: 'sessions:view' },
+  { href: '/admin/assignments', permission: 'assignments:grade' },
+  { href: '/admin/discussions', permission: 'discussions:moderate' },
+  { href: '/admin/coupons', permission: 'coupons:manage' },
+  { href: '/admin/invoices', permission: 'invoices:view' },
+  { href: '/admin/audit', permission: 'audit:view' },
+];
+
+export function canViewAdminPage(role: UserRole | null | undefined, pathname: string) {
+  const page = ADMIN_PAGES.find(({ href }) =>
+    href === '/admin' ? pathname === '/admin' : pathname === href || pathname.startsWith(`${href}/`)
+  );
+  return page ? hasPermission(role, page.permission) : isStaffRole(role);
+}
+
+// Where a staff member lands: the first admin page they can open
+export function getAdminHome(role: UserRole | null | undefined) {
+  return ADMIN_PAGES.find(page => hasPermission(role, page.permission))?.href || '/admin/settings';
+}
+
+// Whether the signed-in user has a permission
+export function useCan(permission: Permission) {
+  const role = useAuthStore((state) => state.user?.role);
+  return hasPermission(role, permission);
+}
@@ -0,0 +1,243 @@
+// Session recurrence rules (the RRULE subset the API expands) and timezone helpers for the session form
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type MonthlyMode = 'monthDay' | 'weekday';
+export type RecurrenceEnd = 'never' | 'until' | 'count';
+
+export interface RecurrenceOptions {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: string[]; // WEEKLY: 'MO', 'TU', ...
+  monthlyMode: MonthlyMode;
+  monthDay: number; // MONTHLY by day of month; -1 = last day
+  setPos: number; // MONTHLY by weekday: 1-4, -1 = last
+  setPosDay: string;
+  end: RecurrenceEnd;
+  until: string; // 'yyyy-MM-dd'
+  count: number;
+}
+
+export const WEEKDAYS = [
+  { value: 'MO', label: 'Mon', fullLabel: 'Monday' },
+  { value: 'TU', label: 'Tue', fullLabel: 'Tuesday' },
+  { value: 'WE', label: 'Wed', fullLabel: 'Wednesday' },
+  { value: 'TH', label: 'Thu', fullLabel: 'Thursday' },
+  { value: 'FR', label: 'Fri', fullLabel: 'Friday' },
+  { value: 'SA', label: 'Sat', fullLabel: 'Saturday' },
+  { value: 'SU', label: 'Sun', fullLabel: 'Sunday' },
+];
+
+export const SET_POSITIONS = [
+  { value: 1, label: 'first' },
+  { value: 2, label: 'second' },
+  { value: 3, label: 'third' },
+  { value: 4, label: 'fourth' },
+  { value: -1, label: 'last' },
+];
+
+const UNITS: Record<RecurrenceFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' };
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Defaults for a session starting on a 'yyyy-MM-dd' date: weekly on that day
+export function defaultRecurrence(startDate: string): RecurrenceOptions {
+  const date = startDate ? new Date(`${startDate}T00:00:00Z`) : new Date();
+  const dayCode = DAY_CODES[date.getUTCDay()];
+  const dayOfMonth = date.getUTCDate();
+  return {
+    frequency: 'WEEKLY',
+    interval: 1,
+    weekdays: [dayCode],
+    monthlyMode: 'monthDay',
+    monthDay: dayOfMonth,
+    setPos: dayOfMonth > 28 ? -1 : Math.ceil(dayOfMonth / 7),
+    setPosDay: dayCode,
+    end: 'never',
+    until: '',
+    count: 10,
+  };
+}
+
+function parseParts(rule: string) {
+  const parts: Record<string, string> = {};
+  rule.split(';').forEach(segment => {
+    const [key, value] = segment.split('=');
+    if (key && value !== undefined) parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  });
+  return parts;
+}
+
+export function parseRecurrenceRule(rule: string, startDate: string): RecurrenceOptions {
+  const options = defaultRecurrence(startDate);
+  const parts = parseParts(rule);
+
+  if (parts.FREQ === 'DAILY' || parts.FREQ === 'WEEKLY' || parts.FREQ === 'MONTHLY') {
+    options.frequency = parts.FREQ;
+  }
+  options.interval = Math.max(parseInt(parts.INTERVAL, 10) || 1, 1);
+
+  if (parts.BYDAY) {
+    const days = parts.BYDAY.split(',');
+    if (options.frequency === 'MONTHLY') {
+      // "2TU", or "TU" with BYSETPOS=2
+      const match = /^([+-]?\d)?([A-Z]{2})$/.exec(days[0]);
+      if (match) {
+        options.monthlyMode = 'weekday';
+        options.setPosDay = match[2];
+        options.setPos = parseInt(match[1] || parts.BYSETPOS || '1', 10);
+      }
+    } else {
+      options.weekdays = days.filter(day => DAY_CODES.includes(day));
+    }
+  }
+  if (parts.BYMONTHDAY) {
+    options.monthlyMode = 'monthDay';
+    options.monthDay = parseInt(parts.BYMONTHDAY, 10) || options.monthDay;
+  }
+
+  const until = /^(\d{4})(\d{2})(\d{2})/.exec(parts.UNTIL || '');
+  if (until) {
+    options.end = 'until';
+    options.until = `${until[1]}-${until[2]}-${until[3]}`;
+  } else if (parts.COUNT) {
+    options.end = 'count';
+    options.count = parseInt(parts.COUNT, 10) || options.count;
+  }
+
+  return options;
+}
+
+export function buildRecurrenceRule(options: RecurrenceOptions): string {
+  const parts = [`FREQ=${options.frequency}`];
+  if (options.interval > 1) parts.push(`INTERVAL=${options.interval}`);
+
+  if (options.frequency === 'WEEKLY' && options.weekdays.length > 0) {
+    // Monday-first, like the picker
+    const days = WEEKDAYS.map(d => d.value).filter(day => options.weekdays.includes(day));
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+  if (options.frequency === 'MONTHLY') {
+    if (options.monthlyMode === 'weekday') {
+      parts.push(`BYDAY=${options.setPosDay}`, `BYSETPOS=${options.setPos}`);
+    } else {
+      parts.push(`BYMONTHDAY=${options.monthDay}`);
+    }
+  }
+
+  if (options.end === 'until' && options.until) {
+    parts.push(`UNTIL=${options.until.replace(/-/g, '')}`);
+  } else if (options.end === 'count' && options.count > 0) {
+    parts.push(`COUNT=${options.count}`);
+  }
+  return parts.join(';');
+}
+
+function ordinal(n: number) {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+function formatUntil(until: string) {
+  return new Date(`${until}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+// "Every 2 weeks on Tuesday and Thursday, 10 times"
+export function describeRecurrence(options: RecurrenceOptions): string {
+  const unit = UNITS[options.frequency];
+  let text = options.interval > 1
+    ? `Every ${options.interval} ${unit}s`
+    : options.frequency === 'DAILY' ? 'Every day' : `${options.frequency.charAt(0)}${options.frequency.slice(1).toLowerCase()}`;
+
+  if (options.frequency === 'WEEKLY' && options.weekdays.length > 0) {
+    const names = WEEKDAYS.filter(d => options.weekdays.includes(d.value)).map(d => d.fullLabel);
+    text += ` on ${names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0]}`;
+  }
+  if (options.frequency === 'MONTHLY') {
+    if (options.monthlyMode === 'weekday') {
+      const position = SET_POSITIONS.find(p => p.value === options.setPos)?.label || ordinal(options.setPos);
+      const day = WEEKDAYS.find(d => d.value === options.setPosDay)?.fullLabel || options.setPosDay;
+      text += ` on the ${position} ${day}`;
+    } else {
+      text += options.monthDay === -1 ? ' on the last day' : ` on the ${ordinal(options.monthDay)}`;
+    }
+  }
+
+  if (options.end === 'until' && options.until) {
+    text += `, until ${formatUntil(options.until)}`;
+  } else if (options.end === 'count') {
+    text += options.count === 1 ? ', once' : `, ${options.count} times`;
+  }
+  return text;
+}
+
+// ── Timezones ──
+
+export function getBrowserTimezone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function listTimezones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+}
+
+function zonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date).forEach(({ type, value }) => {
+    if (type !== 'literal') parts[type] = Number(value);
+  });
+  return parts;
+}
+
+function zoneOffset(timestamp: number, timeZone: string) {
+  const p = zonedParts(new Date(timestamp), timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(timestamp / 1000) * 1000;
+}
+
+// 'yyyy-MM-dd' and 'HH:mm' in a timezone -> ISO instant
+export function zonedDateTimeToIso(date: string, time: string, timeZone: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const firstOffset = zoneOffset(wallClock, timeZone);
+  let timestamp = wallClock - firstOffset;
+  const secondOffset = zoneOffset(timestamp, timeZone);
+  if (secondOffset !== firstOffset) timestamp = wallClock - secondOffset;
+  return new Date(timestamp).toISOString();
+}
+
+// ISO instant -> 'yyyy-MM-dd' and 'HH:mm' in a timezone
+export function isoToZonedDateTime(iso: string, timeZone: string) {
+  const p = zonedParts(new Date(iso), timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    date: `${p.year}-${pad(p.month)}-${pad(p.day)}`,
+    time: `${pad(p.hour)}:${pad(p.minute)}`,
+  };
+}
+
+// "Tue, Mar 17, 10:00 AM" in a timezone
+export function formatInTimezone(iso: string, timeZone: string) {
+  return new Date(iso).toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
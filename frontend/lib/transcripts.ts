@@ -0,0 +1,25 @@
+// Video transcripts: the cue playing at a time and seek links
+import type { TranscriptCue } from '@/types/learner';
+
+// Index of the cue showing at `seconds` (cues sorted by start), or -1 between cues
+export function findActiveCueIndex(cues: TranscriptCue[], seconds: number) {
+  let low = 0;
+  let high = cues.length - 1;
+  let found = -1;
+  // Last cue starting at or before `seconds`
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].start <= seconds) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found !== -1 && seconds < cues[found].end ? found : -1;
+}
+
+// Lesson viewer link that starts the video at a cue
+export function getCueHref(lessonId: string, start: number) {
+  return `/learner/lessons/${lessonId}?t=${Math.floor(start)}`;
+}
@@ -1,6 +1,7 @@
 // User/Learner types
 export type UserStatus = 'ACTIVE' | 'INACTIVE' | 'PENDING_SETUP';
-export type UserRole = 'ADMIN' | 'LEARNER';
+export type StaffRole = 'ADMIN' | 'INSTRUCTOR' | 'SUPPORT' | 'FINANCE';
+export type UserRole = StaffRole | 'LEARNER';
 
 export interface User {
   id: string;
@@ -26,11 +27,14 @@ export interface LearnerDetail {
   learner: Learner;
   programProgress: ProgramProgress[];
   recentProgress: RecentProgress[];
+  quizAttempts: LearnerQuizAttempt[];
+  payments: LearnerPayment[];
 }
 
 export interface ProgramProgress {
   programId: string;
   programName: string;
+  cohort: CohortSummary | null;
   completedLessons: number;
   totalLessons: number;
   percentage: number;
@@ -43,6 +47,97 @@ export interface RecentProgress {
   lastAccessed: string;
 }
 
+export interface LearnerQuizAttempt {
+  id: string;
+  lessonId: string;
+  lessonTitle: string;
+  programName: string;
+  score: number;
+  earnedPoints: number;
+  totalPoints: number;
+  passed: boolean;
+  createdAt: string;
+}
+
+export interface PaymentRefund {
+  refundId: string;
+  cfRefundId: string | null;
+  status: string | null;
+  amount: number;
+  reason: string | null;
+  adminEmail: string;
+  createdAt: string;
+}
+
+export interface LearnerPayment {
+  id: string;
+  programId: string;
+  programName: string;
+  enrollmentType: 'FREE' | 'PAID';
+  amount: number;
+  currency: string;
+  status: 'SUCCESS' | 'REFUNDED';
+  paymentMethod: string | null;
+  couponCode: string | null;
+  installment: { sequence: number; count: number } | null;
+  refundedAmount: number;
+  refundedAt: string | null;
+  refunds: PaymentRefund[];
+  createdAt: string;
+}
+
+export interface RefundPaymentData {
+  amount?: number;
+  reason?: string;
+  revokeAccess?: boolean;
+}
+
+// Bulk learner import
+export type LearnerImportField = 'name' | 'email' | 'mobile' | 'registrationNumber' | 'programs' | 'cohort';
+
+// Column index in the uploaded sheet for each field (null = not imported)
+export type LearnerImportMapping = Record<LearnerImportField, number | null>;
+
+export type LearnerImportRowStatus = 'VALID' | 'INVALID' | 'DUPLICATE';
+
+export interface LearnerImportPreviewRow {
+  row: number;
+  name: string;
+  email: string;
+  mobile: string | null;
+  registrationNumber: string | null;
+  programNames: string[];
+  cohortName: string | null;
+  status: LearnerImportRowStatus;
+  errors: string[];
+}
+
+export interface LearnerImportPreview {
+  fileName: string;
+  headers: string[];
+  mapping: LearnerImportMapping;
+  rows: LearnerImportPreviewRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    duplicates: number;
+  };
+}
+
+export interface LearnerImport {
+  id: string;
+  fileName: string;
+  status: 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  failedCount: number;
+  adminEmail: string;
+  createdAt: string;
+  completedAt: string | null;
+}
+
 // Program types
 export interface Program {
   id: string;
@@ -51,12 +146,14 @@ export interface Program {
   thumbnailUrl?: string;
   isPublished: boolean;
   isPublic: boolean;
+  isSequential?: boolean;
   slug?: string;
   price?: string | number | null;
   currency?: string;
   learnerCount: number;
   lessonCount: number;
   totalDurationHours: number;
+  cohorts: ProgramCohort[];
   createdAt: string;
 }
 
@@ -68,6 +165,7 @@ export interface ProgramDetail {
     thumbnailUrl?: string;
     isPublished: boolean;
     isPublic: boolean;
+    isSequential?: boolean;
     slug?: string;
     price?: string | number | null;
     currency?: string;
@@ -77,7 +175,8 @@ export interface ProgramDetail {
 }
 
 // Content tree types
-export type LessonType = 'VIDEO' | 'PDF' | 'TEXT';
+export type LessonType = 'VIDEO' | 'PDF' | 'TEXT' | 'QUIZ' | 'ASSIGNMENT';
+export type QuizQuestionType = 'SINGLE_CHOICE' | 'MULTIPLE_CHOICE' | 'SHORT_ANSWER';
 export type ContentItemType = 'topic' | 'subtopic' | 'lesson';
 
 export interface ContentItem {
@@ -92,9 +191,84 @@ export interface ContentItem {
   instructorNotes?: string;
   durationSeconds?: number;
   isFree?: boolean;
+  passingScore?: number | null;
+  unlockAfterDays?: number | null;
+  unlockAt?: string | null;
+  quizQuestions?: QuizQuestion[];
   orderIndex: number;
   children?: ContentItem[];
   attachments?: Attachment[];
+  transcripts?: LessonTranscript[];
+}
+
+// Quiz authoring: correctAnswers holds option indexes for choice questions,
+// accepted answers for SHORT_ANSWER
+export interface QuizQuestion {
+  id?: string;
+  type: QuizQuestionType;
+  prompt: string;
+  options: string[];
+  correctAnswers: (number | string)[];
+  points: number;
+}
+
+// Assignment grading queue
+export type SubmissionStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface Submission {
+  id: string;
+  textAnswer?: string | null;
+  fileUrl?: string | null;
+  fileName?: string | null;
+  status: SubmissionStatus;
+  grade?: string | null;
+  feedback?: string | null;
+  gradedAt?: string | null;
+  submittedAt: string;
+  learner: { id: string; name: string; email: string };
+  lesson: { id: string; title: string };
+  program: { id: string; name: string };
+}
+
+export interface GradeSubmissionData {
+  status: 'APPROVED' | 'REJECTED';
+  grade?: string;
+  feedback?: string;
+}
+
+// Lesson discussions: learner questions with replies (instructors are admins)
+export interface DiscussionComment {
+  id: string;
+  body: string;
+  author: { id: string; name: string; isInstructor: boolean };
+  isOwn: boolean;
+  isHidden: boolean;
+  editedAt: string | null;
+  createdAt: string;
+}
+
+export interface DiscussionQuestion extends DiscussionComment {
+  isPinned: boolean;
+  isLocked: boolean;
+  isAnswered: boolean;
+  lesson: { id: string; title: string };
+  program: { id: string; name: string };
+}
+
+// Inbox row
+export interface DiscussionSummary extends DiscussionQuestion {
+  replyCount: number;
+}
+
+export interface DiscussionThread extends DiscussionQuestion {
+  replies: DiscussionComment[];
+}
+
+export interface ModerateDiscussionData {
+  isPinned?: boolean;
+  isLocked?: boolean;
+  isHidden?: boolean;
+  body?: string;
 }
 
 export interface Attachment {
@@ -104,6 +278,152 @@ export interface Attachment {
   fileType: string;
 }
 
+// Captions of a video lesson, one per language (stored as WebVTT)
+export interface LessonTranscript {
+  id: string;
+  language: string;
+  label: string;
+  fileUrl: string;
+  updatedAt: string;
+}
+
+// Coupons: discountValue is a percent (1-100) or a flat amount in the program currency
+export type DiscountType = 'PERCENT' | 'FLAT';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description?: string | null;
+  discountType: DiscountType;
+  discountValue: number;
+  program: { id: string; name: string } | null;
+  expiresAt?: string | null;
+  maxUses?: number | null;
+  perUserLimit?: number | null;
+  isActive: boolean;
+  createdAt: string;
+  redemptions: number;
+  revenue: number;
+  discountGiven: number;
+}
+
+export interface CouponFormData {
+  code: string;
+  description?: string | null;
+  discountType: DiscountType;
+  discountValue: number;
+  programId?: string | null;
+  expiresAt?: string | null;
+  maxUses?: number | null;
+  perUserLimit?: number | null;
+  isActive?: boolean;
+}
+
+// Installment plan types
+export interface InstallmentPlan {
+  id: string;
+  programId: string;
+  name: string;
+  installmentCount: number;
+  intervalDays: number;
+  gracePeriodDays: number;
+  totalAmount: number;
+  installmentAmounts: number[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface InstallmentPlanFormData {
+  name: string;
+  installmentCount: number;
+  intervalDays: number;
+  gracePeriodDays: number;
+  totalAmount: number;
+  isActive?: boolean;
+}
+
+// Cohort types
+export interface CohortSummary {
+  id: string;
+  name: string;
+}
+
+export interface ProgramCohort extends CohortSummary {
+  startDate: string;
+  endDate: string | null;
+}
+
+export interface Cohort extends ProgramCohort {
+  programId: string;
+  learnerCount: number;
+  createdAt: string;
+}
+
+export interface CohortFormData {
+  name: string;
+  startDate: string;
+  endDate?: string | null;
+}
+
+// A staff member assigned to teach a program
+export interface ProgramInstructor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface ProgramInstructors {
+  instructors: ProgramInstructor[];
+  available: ProgramInstructor[]; // Every instructor account
+}
+
+// A staff account on the settings page's Team section
+export interface TeamMember {
+  id: string;
+  email: string;
+  name: string;
+  role: StaffRole;
+  status: UserStatus; // PENDING_SETUP until the invite is accepted
+  createdAt: string;
+  inviteExpiresAt: string | null;
+}
+
+export interface TeamInviteData {
+  email: string;
+  name: string;
+  role: StaffRole;
+}
+
+// A learner as listed on the program page
+export interface ProgramLearner {
+  id: string;
+  email: string;
+  name: string;
+  status: UserStatus;
+  cohort: CohortSummary | null;
+}
+
+// Invoice types
+export interface AdminInvoice {
+  id: string;
+  invoiceNumber: string;
+  paymentId: string | null;
+  userId: string | null;
+  billingName: string;
+  billingEmail: string;
+  billingMobile: string | null;
+  programName: string;
+  sacCode: string;
+  currency: string;
+  taxRate: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  totalAmount: number;
+  paymentStatus: 'SUCCESS' | 'REFUNDED' | null;
+  issuedAt: string;
+}
+
 // Session types
 export interface Session {
   id: string;
@@ -114,7 +434,105 @@ export interface Session {
   meetLink?: string;
   isRecurring: boolean;
   recurrenceRule?: string;
+  timezone: string; // IANA zone the recurrence keeps its wall-clock time in
+  // Occurrences of a recurring session: the "YYYY-MM-DD" the rule schedules it on,
+  // whether it was changed on its own, and the series' first start and end
+  occurrenceDate?: string;
+  isModified?: boolean;
+  seriesStartTime?: string;
+  seriesEndTime?: string;
+  recording?: SessionRecording | null;
   programs: string[];
+  // Whole programs (cohortId null) and single cohorts; empty = all programs
+  targets: SessionTarget[];
+}
+
+export interface SessionTarget {
+  programId: string;
+  cohortId: string | null;
+}
+
+// Attendance: one entry per occurrence that has started ("YYYY-MM-DD" key)
+export interface SessionAttendee {
+  userId: string;
+  name: string;
+  email: string;
+  present: boolean;
+  joinedAt: string | null;
+  joinCount: number;
+  markedByAdmin: boolean;
+}
+
+export interface SessionOccurrenceAttendance {
+  occurrenceDate: string;
+  startTime: string;
+  endTime: string | null;
+  presentCount: number;
+  expectedCount: number;
+  attendees: SessionAttendee[];
+}
+
+export interface LearnerAttendance {
+  userId: string;
+  name: string;
+  email: string;
+  attended: number;
+  expected: number;
+  percentage: number;
+}
+
+export interface SessionAttendanceReport {
+  occurrences: SessionOccurrenceAttendance[];
+  learners: LearnerAttendance[];
+}
+
+export interface MarkAttendanceData {
+  userId: string;
+  occurrenceDate: string;
+  present: boolean;
+}
+
+// Recording of one occurrence and the VIDEO lessons it was published as
+export interface SessionRecording {
+  id: string;
+  videoUrl: string;
+  durationSeconds: number | null;
+  lessons: { id: string; programId: string; topicId: string | null; title: string }[];
+}
+
+export interface SaveRecordingData {
+  occurrenceDate?: string;
+  videoUrl: string;
+  durationSeconds?: number | null;
+}
+
+export interface PublishRecordingData {
+  occurrenceDate?: string;
+  title?: string;
+  topics: { programId: string; topicId: string }[];
+}
+
+// Audit log: one entry per admin action. Updates record { before, after }
+// of the changed fields in details.
+export interface AuditLogEntry {
+  id: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+  admin: { id: string; email: string; name: string | null };
+}
+
+export interface AuditLogPage {
+  logs: AuditLogEntry[];
+  nextCursor: string | null;
+}
+
+export interface AuditLogFilterOptions {
+  admins: { id: string; email: string }[];
+  actions: string[];
+  targetTypes: string[];
 }
 
 // Pagination
@@ -163,13 +581,38 @@ export interface CreateSessionData {
   meetLink?: string;
   isRecurring?: boolean;
   recurrenceRule?: string;
+  timezone?: string;
   programIds?: string[];
+  cohortIds?: string[];
+}
+
+// Which occurrences of a recurring session an edit changes
+export type SessionEditMode = 'single' | 'following' | 'all';
+
+export interface UpdateSessionData extends Partial<CreateSessionData> {
+  editMode?: SessionEditMode;
+  occurrenceDate?: string;
+}
+
+export interface RecurrencePreviewParams {
+  startTime: string;
+  endTime?: string;
+  recurrenceRule: string;
+  timezone: string;
+  count?: number;
+}
+
+export interface RecurrencePreviewOccurrence {
+  startTime: string;
+  endTime: string | null;
 }
 
 export interface CreateTopicData {
   programId: string;
   name: string;
   orderIndex?: number;
+  unlockAfterDays?: number | null;
+  unlockAt?: string | null;
 }
 
 export interface CreateSubtopicData {
@@ -190,6 +633,11 @@ export interface CreateLessonData {
   instructorNotes?: string;
   durationSeconds?: number;
   orderIndex?: number;
+  isFree?: boolean;
+  passingScore?: number | null;
+  unlockAfterDays?: number | null;
+  unlockAt?: string | null;
+  quizQuestions?: QuizQuestion[];
 }
 
 // Dashboard Analytics types
@@ -243,6 +691,7 @@ export type RevenueGranularity = 'daily' | 'weekly' | 'monthly';
 export interface RevenueChartPoint {
   label: string;
   revenue: number;
+  discount: number; // Coupon discounts given
 }
 
 export interface RevenueChartData {
@@ -265,11 +714,76 @@ export interface DashboardAnalytics {
 export interface LearnerFilters {
   status?: UserStatus;
   programId?: string;
+  cohortId?: string;
   search?: string;
   page?: number;
   limit?: number;
 }
 
+export type LearnerExportFormat = 'csv' | 'xlsx';
+
+export type LearnerExportColumn =
+  | 'name'
+  | 'email'
+  | 'mobile'
+  | 'registrationNumber'
+  | 'status'
+  | 'joinedAt'
+  | 'programs'
+  | 'cohort'
+  | 'enrollmentType'
+  | 'completion'
+  | 'lastActive'
+  | 'amountPaid'
+  | 'amountRefunded';
+
+export interface LearnerExportOptions extends Omit<LearnerFilters, 'page' | 'limit'> {
+  format: LearnerExportFormat;
+  columns: LearnerExportColumn[];
+}
+
+export interface SubmissionFilters {
+  status?: SubmissionStatus;
+  programId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface DiscussionFilters {
+  status?: 'unanswered' | 'all';
+  programId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// related: also entries on the target's cohorts, plans, payments etc.
+export interface AuditLogFilters {
+  adminId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  related?: boolean;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface CouponFilters {
+  search?: string;
+  programId?: string;
+  status?: 'active' | 'inactive';
+  page?: number;
+  limit?: number;
+}
+
+export interface InvoiceFilters {
+  search?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
 export interface SessionFilters {
   from?: string;
   to?: string;
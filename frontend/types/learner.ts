@@ -54,6 +54,17 @@ export interface UpcomingSession {
   endTime?: string;
   meetLink?: string;
   programName?: string;
+  // "YYYY-MM-DD" of this occurrence (session list and calendar only)
+  occurrenceDate?: string;
+  // Moved or changed on its own, apart from the rest of its series
+  isModified?: boolean;
+  // A recording of this occurrence can be watched (session list and calendar only)
+  hasRecording?: boolean;
+}
+
+export interface SessionRecordingPlayback {
+  videoUrl: string;
+  durationSeconds: number | null;
 }
 
 export interface RecentLessonProgress {
@@ -73,10 +84,54 @@ export interface LearnerProgram {
     thumbnailUrl?: string;
     price?: string | number | null;
     currency?: string;
+    isSequential?: boolean;
   };
   enrollmentType: 'FREE' | 'PAID' | 'ADMIN';
   content: LearnerContentItem[];
   progress: LessonProgressMap;
+  certificate?: ProgramCertificate | null;
+  suspendedAt?: string | null;
+  installments?: Installment[];
+  installmentPlans?: InstallmentPlanOption[];
+}
+
+// Certificate types
+export interface ProgramCertificate {
+  id: string;
+  code: string;
+  issuedAt: string;
+}
+
+export interface ProfileCertificate extends ProgramCertificate {
+  programId: string;
+  programName: string;
+}
+
+export interface CertificateVerification {
+  valid: boolean;
+  code: string;
+  learnerName: string;
+  programName: string;
+  issuedAt: string;
+}
+
+// Invoice types
+export interface Invoice {
+  id: string;
+  invoiceNumber: string;
+  programName: string;
+  currency: string;
+  taxRate: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  totalAmount: number;
+  issuedAt: string;
+}
+
+export interface LessonPrerequisite {
+  id: string;
+  title: string;
 }
 
 export interface LearnerContentItem {
@@ -84,11 +139,13 @@ export interface LearnerContentItem {
   type: 'topic' | 'subtopic' | 'lesson';
   name?: string;
   title?: string;
-  lessonType?: 'VIDEO' | 'PDF' | 'TEXT';
+  lessonType?: 'VIDEO' | 'PDF' | 'TEXT' | 'QUIZ' | 'ASSIGNMENT';
   durationSeconds?: number;
   orderIndex: number;
   isFree?: boolean;
   isLocked?: boolean;
+  unlocksAt?: string | null; // Drip schedule: set while the item is not yet available
+  prerequisite?: LessonPrerequisite | null; // Sequential programs: lesson to finish first
   children?: LearnerContentItem[];
 }
 
@@ -105,11 +162,14 @@ export interface LearnerLesson {
   lesson: {
     id: string;
     title: string;
-    type: 'VIDEO' | 'PDF' | 'TEXT';
+    type: 'VIDEO' | 'PDF' | 'TEXT' | 'QUIZ' | 'ASSIGNMENT';
     contentUrl?: string;
     contentText?: string;
     durationSeconds?: number;
+    quiz?: LearnerQuiz | null;
+    submission?: AssignmentSubmission | null;
     attachments: LessonAttachment[];
+    transcripts?: LessonTranscript[];
   };
   program: {
     id: string;
@@ -118,6 +178,8 @@ export interface LearnerLesson {
     currency?: string;
   };
   isLocked?: boolean;
+  unlocksAt?: string | null;
+  prerequisite?: LessonPrerequisite | null;
   enrollmentType?: 'FREE' | 'PAID' | 'ADMIN';
   lockedLessonCount?: number;
   progress: {
@@ -127,12 +189,159 @@ export interface LearnerLesson {
   } | null;
   navigation: {
     previousLesson?: { id: string; title: string };
-    nextLesson?: { id: string; title: string; isLocked?: boolean };
+    nextLesson?: { id: string; title: string; isLocked?: boolean; unlocksAt?: string | null };
     currentIndex?: number;
     totalLessons?: number;
   };
 }
 
+// Quiz types
+export interface LearnerQuizQuestion {
+  id: string;
+  type: 'SINGLE_CHOICE' | 'MULTIPLE_CHOICE' | 'SHORT_ANSWER';
+  prompt: string;
+  options: string[];
+  points: number;
+}
+
+export interface QuizAttemptSummary {
+  id: string;
+  score: number;
+  earnedPoints: number;
+  totalPoints: number;
+  passed: boolean;
+  createdAt: string;
+}
+
+export interface LearnerQuiz {
+  passingScore: number;
+  questions: LearnerQuizQuestion[];
+  attempts: QuizAttemptSummary[];
+  hasPassed: boolean;
+}
+
+// Answers keyed by question id: option indexes, or text for short answers
+export type QuizAnswers = Record<string, number[] | string>;
+
+export interface QuizAttemptResult {
+  attempt: QuizAttemptSummary;
+  passingScore: number;
+  results: { questionId: string; isCorrect: boolean; points: number }[];
+}
+
+// Assignment types
+export type SubmissionStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface AssignmentSubmission {
+  id: string;
+  textAnswer?: string | null;
+  fileUrl?: string | null;
+  fileName?: string | null;
+  status: SubmissionStatus;
+  grade?: string | null;
+  feedback?: string | null;
+  gradedAt?: string | null;
+  submittedAt: string;
+}
+
+export interface SubmitAssignmentData {
+  textAnswer?: string;
+  fileUrl?: string;
+  fileName?: string;
+}
+
+// Lesson discussion: a question and its replies (oldest first)
+export interface LessonDiscussionComment {
+  id: string;
+  body: string;
+  author: { id: string; name: string; isInstructor: boolean };
+  isOwn: boolean;
+  isHidden: boolean;
+  editedAt: string | null;
+  createdAt: string;
+}
+
+export interface LessonDiscussionThread extends LessonDiscussionComment {
+  isPinned: boolean;
+  isLocked: boolean;
+  isAnswered: boolean;
+  replies: LessonDiscussionComment[];
+}
+
+// Private lesson note at a video position or PDF page
+export interface LessonNote {
+  id: string;
+  body: string;
+  positionSeconds: number | null;
+  pageNumber: number | null;
+  createdAt: string;
+  updatedAt: string;
+  // Included on the notes page
+  lesson?: { id: string; title: string; type: LearnerLesson['lesson']['type'] };
+  program?: { id: string; name: string };
+}
+
+export interface LessonNoteData {
+  body?: string;
+  positionSeconds?: number | null;
+  pageNumber?: number | null;
+}
+
+export interface NoteFilters {
+  search?: string;
+  programId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Video transcript: caption cues with times in seconds
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface LessonTranscript {
+  id: string;
+  language: string;
+  label: string;
+  cues: TranscriptCue[];
+}
+
+// Video lesson whose transcript matches a search; locked lessons have no matches
+export interface TranscriptSearchResult {
+  transcriptId: string;
+  language: string;
+  label: string;
+  lesson: { id: string; title: string };
+  program: { id: string; name: string };
+  isLocked: boolean;
+  unlocksAt: string | null;
+  prerequisite: LessonPrerequisite | null; // Sequential programs: lesson to finish first
+  matches: { start: number; text: string }[];
+}
+
+// Part of a search result's text; highlighted parts matched the query
+export interface SearchSegment {
+  text: string;
+  highlight: boolean;
+}
+
+// Lesson matching a learner search; locked lessons have no snippet
+export interface LessonSearchResult {
+  lesson: { id: string; type: LearnerLesson['lesson']['type'] };
+  program: { id: string; name: string };
+  title: SearchSegment[];
+  topic: SearchSegment[] | null;
+  subtopic: SearchSegment[] | null;
+  snippet: SearchSegment[] | null;
+  attachments: SearchSegment[] | null;
+  rank: number;
+  isLocked: boolean;
+  unlocksAt: string | null;
+  prerequisite: LessonPrerequisite | null; // Sequential programs: lesson to finish first
+}
+
 export interface LessonAttachment {
   id: string;
   name: string;
@@ -152,6 +361,36 @@ export interface DiscoverProgram {
   lessonCount: number;
 }
 
+// Coupon price preview
+export interface CouponQuote {
+  code: string;
+  discountType: 'PERCENT' | 'FLAT';
+  discountValue: number;
+  currency: string;
+  originalAmount: number;
+  discount: number;
+  finalAmount: number;
+}
+
+// Installment types
+export interface InstallmentPlanOption {
+  id: string;
+  name: string;
+  installmentCount: number;
+  intervalDays: number;
+  gracePeriodDays: number;
+  totalAmount: number;
+  installmentAmounts: number[];
+}
+
+export interface Installment {
+  id: string;
+  sequence: number;
+  amount: number;
+  dueDate: string;
+  paidAt: string | null;
+}
+
 // Profile types
 export interface LearnerProfile {
   id: string;
@@ -164,5 +403,6 @@ export interface LearnerProfile {
   completedLessonsCount: number;
   totalLessonsCount: number;
   completedProgramsCount: number;
+  certificates: ProfileCertificate[];
   createdAt: string;
 }